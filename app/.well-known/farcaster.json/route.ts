@@ -1,3 +1,5 @@
+import { getManifestWebhookUrl } from "@/lib/services/notification-provider";
+
 function withValidProperties(
   properties: Record<string, undefined | string | string[]>,
 ) {
@@ -65,8 +67,8 @@ export async function GET() {
 
       // Technical URLs
       homeUrl: URL || "https://app.minisend.xyz",
-      // Neynar webhook URL for Farcaster miniapp events
-      webhookUrl: "https://api.neynar.com/f/app/6169a7fa-658f-4d01-b6a5-ec7fb4bd802e/event",
+      // Farcaster miniapp events go to Neynar or our own webhook (NOTIFICATION_PROVIDER)
+      webhookUrl: getManifestWebhookUrl(URL || "https://app.minisend.xyz"),
 
       // Cast sharing
       castShareUrl: process.env.NEXT_PUBLIC_CAST_SHARE_URL || `${URL || "https://app.minisend.xyz"}/share`,
@@ -0,0 +1,23 @@
+"use client";
+
+import Link from 'next/link';
+import { RateAlerts } from '../components/RateAlerts';
+
+export default function RateAlertsPage() {
+  return (
+    <main className="min-h-screen bg-black px-4 py-6">
+      <div className="max-w-md mx-auto space-y-5">
+        <div className="flex items-center justify-between">
+          <Link href="/" className="text-[#0A84FF] text-[15px]">Back</Link>
+          <h1 className="text-white text-[17px] font-semibold">Rate alerts</h1>
+          <span className="w-8" />
+        </div>
+        <p className="text-[#8e8e93] text-[13px]">
+          Get a notification or email when a currency&apos;s rate crosses your target. Rates are checked every
+          few minutes against the best of our payout providers, and each alert fires once.
+        </p>
+        <RateAlerts />
+      </div>
+    </main>
+  );
+}
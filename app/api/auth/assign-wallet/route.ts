@@ -7,12 +7,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import {
-  rateLimiter,
   getClientIdentifier,
   validateRequestOrigin,
   logSecurityEvent,
 } from '@/lib/utils/security';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/security/rate-limit';
 import { validateAuthData } from '@/lib/utils/validation';
+import { blockradarClient } from '@/lib/blockradar/client';
+import { isSandboxMode } from '@/lib/sandbox/config';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -59,6 +61,11 @@ async function verifyFarcasterToken(token: string): Promise<boolean> {
  * Create a BlockRadar wallet address
  */
 async function createBlockRadarWallet(metadata: Record<string, unknown>): Promise<{ address: string; addressId: string }> {
+  if (isSandboxMode()) {
+    const { data } = await blockradarClient.createAddress('sandbox', metadata, `Minisend User ${metadata.user_id}`);
+    return { address: data.address, addressId: data.id };
+  }
+
   const BLOCKRADAR_API_KEY = process.env.BLOCKRADAR_API_KEY;
   const BLOCKRADAR_WALLET_ID = process.env.BLOCKRADAR_WALLET_ID;
 
@@ -123,7 +130,7 @@ export async function POST(request: NextRequest) {
 
     // Rate limiting: Prevent abuse
     const clientId = getClientIdentifier(request);
-    const rateLimit = rateLimiter.check(clientId, 20, 60000); // 20 requests per minute
+    const rateLimit = await checkRateLimit('assign_wallet', `ip:${clientId}`);
 
     if (!rateLimit.allowed) {
       logSecurityEvent('rate_limit_exceeded', { clientId });
@@ -132,11 +139,7 @@ export async function POST(request: NextRequest) {
         { error: 'Too many requests. Please try again later.' },
         {
           status: 429,
-          headers: {
-            'X-RateLimit-Limit': '20',
-            'X-RateLimit-Remaining': '0',
-            'X-RateLimit-Reset': new Date(rateLimit.resetTime).toISOString(),
-          },
+          headers: rateLimitHeaders(rateLimit),
         }
       );
     }
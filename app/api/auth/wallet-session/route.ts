@@ -0,0 +1,60 @@
+/**
+ * API Route: Wallet Session
+ * Sign-In with Ethereum for wallet users (Farcaster, Base app, external wallets).
+ * The returned token is sent as `Authorization: Bearer` to user-owned routes
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createWalletSession, issueSignInNonce, verifyWalletSignIn, UserAuthError } from '@/lib/user-auth';
+import { withRateLimit } from '@/lib/security/rate-limit';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('wallet-session');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/auth/wallet-session
+ *   Returns { nonce, nonceToken } - the nonce goes in the SIWE message, the token back in POST
+ */
+export async function GET(request: NextRequest) {
+  return withRateLimit(request, 'wallet_sign_in', {}, () => handleIssueNonce());
+}
+
+/**
+ * POST /api/auth/wallet-session
+ * Body: { message, signature, nonceToken } - message is an EIP-4361 message for this host
+ *   Returns { token, expiresAt, walletAddress }
+ */
+export async function POST(request: NextRequest) {
+  return withRateLimit(request, 'wallet_sign_in', {}, () => handleSignIn(request));
+}
+
+async function handleIssueNonce() {
+  try {
+    return NextResponse.json(await issueSignInNonce());
+  } catch (error) {
+    return errorResponse(error, 'Failed to start sign-in');
+  }
+}
+
+async function handleSignIn(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const walletAddress = await verifyWalletSignIn(request, body);
+    const session = await createWalletSession(walletAddress);
+
+    return NextResponse.json({ ...session, walletAddress });
+  } catch (error) {
+    return errorResponse(error, 'Failed to sign in');
+  }
+}
+
+function errorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof UserAuthError) {
+    return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+  }
+
+  logger.error(fallbackMessage, { error });
+  return NextResponse.json({ error: fallbackMessage }, { status: 500 });
+}
@@ -0,0 +1,50 @@
+/**
+ * API Route: Batch Payout Summary Export
+ * Every row of a batch as CSV - recipient, amounts, status and Pretium receipt
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPayoutBatch, toBatchSummaryCsv, BatchError } from '@/lib/batches';
+import { requireWalletUser, UserAuthError } from '@/lib/user-auth';
+import { withRateLimit } from '@/lib/security/rate-limit';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('batch-payouts');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/batches/[id]/export
+ *   Authorization: Bearer <wallet session token> of the wallet that created the batch
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  return withRateLimit(request, 'batches', {}, () => handleExportBatch(request, context));
+}
+
+async function handleExportBatch(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await context.params;
+    const { owner: wallet } = await requireWalletUser(request);
+    const batch = await getPayoutBatch(id, wallet);
+
+    return new NextResponse(toBatchSummaryCsv(batch), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="minisend-batch-${batch.id.slice(0, 8)}.csv"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof BatchError || error instanceof UserAuthError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Failed to export batch', { error });
+    return NextResponse.json(
+      { error: 'Failed to export batch' },
+      { status: 500 }
+    );
+  }
+}
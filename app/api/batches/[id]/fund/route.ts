@@ -0,0 +1,50 @@
+/**
+ * API Route: Fund Batch Payout
+ * Verifies the batch deposit on-chain and starts paying out rows. Rows not
+ * reached within this request are continued by /api/cron/process-batches
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { fundPayoutBatch, BatchError } from '@/lib/batches';
+import { requireWalletUser, UserAuthError } from '@/lib/user-auth';
+import { withRateLimit } from '@/lib/security/rate-limit';
+import { createLogger, getRequestCorrelationId, withCorrelationId } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+const logger = createLogger('batch-payouts');
+
+/**
+ * POST /api/batches/[id]/fund
+ * Body: { transactionHash } - the USDC transfer of the batch total to its deposit
+ *   address, from the signed-in wallet. Sending the same hash again returns the batch
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+  const correlationId = getRequestCorrelationId(request, `batch_${id}`);
+  return withCorrelationId(correlationId, () => handleFundBatch(request, id));
+}
+
+async function handleFundBatch(request: NextRequest, batchId: string) {
+  try {
+    const { owner: wallet } = await requireWalletUser(request);
+    const body = await request.json();
+
+    return await withRateLimit(request, 'batch_fund', { wallet }, async () => {
+      const batch = await fundPayoutBatch(batchId, wallet, body.transactionHash);
+      return NextResponse.json({ success: true, batch });
+    });
+  } catch (error) {
+    if (error instanceof BatchError || error instanceof UserAuthError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Failed to fund batch', { batchId, error });
+    return NextResponse.json({ error: 'Failed to fund batch' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * API Route: Batch Payout
+ * One batch with each row's status, for the wallet that created it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPayoutBatch, BatchError } from '@/lib/batches';
+import { requireWalletUser, UserAuthError } from '@/lib/user-auth';
+import { withRateLimit } from '@/lib/security/rate-limit';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('batch-payouts');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/batches/[id]
+ *   Authorization: Bearer <wallet session token> of the wallet that created the batch
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  return withRateLimit(request, 'batches', {}, () => handleGetBatch(request, context));
+}
+
+async function handleGetBatch(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await context.params;
+    const { owner: wallet } = await requireWalletUser(request);
+    const batch = await getPayoutBatch(id, wallet);
+
+    return NextResponse.json({ batch });
+  } catch (error) {
+    if (error instanceof BatchError || error instanceof UserAuthError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Failed to fetch batch', { error });
+    return NextResponse.json(
+      { error: 'Failed to fetch batch' },
+      { status: 500 }
+    );
+  }
+}
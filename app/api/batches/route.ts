@@ -0,0 +1,72 @@
+/**
+ * API Route: Batch Payouts
+ * Pay many recipients from one USDC deposit - see lib/batches
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createPayoutBatch, listPayoutBatches, BatchError } from '@/lib/batches';
+import { OfframpError } from '@/lib/offramp';
+import { requireWalletUser, UserAuthError } from '@/lib/user-auth';
+import { withRateLimit } from '@/lib/security/rate-limit';
+import { createLogger, getRequestCorrelationId, withCorrelationId } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+const logger = createLogger('batch-payouts');
+
+/**
+ * GET /api/batches
+ *   The signed-in wallet's recent batches, newest first
+ *   (Authorization: Bearer <wallet session token>)
+ */
+export async function GET(request: NextRequest) {
+  return withRateLimit(request, 'batches', {}, () => handleListBatches(request));
+}
+
+/**
+ * POST /api/batches
+ * Body: { rows: [{ accountName, currency, amount, paymentType, destination, paybillAccount?, bankCode? }] }
+ *   Validates and quotes every row (amounts are in local currency), then returns the
+ *   batch with its total and deposit address. Rows that fail come back under details.rows.
+ *   The batch belongs to the signed-in wallet, which must send the deposit
+ */
+export async function POST(request: NextRequest) {
+  const correlationId = getRequestCorrelationId(request, `batch_${Date.now()}`);
+  return withCorrelationId(correlationId, () => handleCreateBatch(request, correlationId));
+}
+
+async function handleListBatches(request: NextRequest) {
+  try {
+    const { owner: wallet } = await requireWalletUser(request);
+    const batches = await listPayoutBatches(wallet);
+    return NextResponse.json({ batches });
+  } catch (error) {
+    if (error instanceof BatchError || error instanceof UserAuthError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Failed to list batches', { error });
+    return NextResponse.json({ error: 'Failed to fetch batches' }, { status: 500 });
+  }
+}
+
+async function handleCreateBatch(request: NextRequest, correlationId: string) {
+  try {
+    const { owner: wallet } = await requireWalletUser(request);
+    const body = await request.json();
+
+    return await withRateLimit(request, 'batch_create', { wallet }, async () => {
+      const batch = await createPayoutBatch(wallet, body.rows, correlationId);
+      return NextResponse.json({ success: true, batch }, { status: 201 });
+    });
+  } catch (error) {
+    if (error instanceof BatchError || error instanceof OfframpError || error instanceof UserAuthError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Failed to create batch', { error });
+    return NextResponse.json({ error: 'Failed to create batch' }, { status: 500 });
+  }
+}
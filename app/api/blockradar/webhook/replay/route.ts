@@ -0,0 +1,91 @@
+/**
+ * API Route: Blockradar Webhook Replay (admin)
+ * Lists stored Blockradar webhook events and re-runs one through the handler,
+ * to recover missed emails or balance updates
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { DatabaseService, type BlockradarWebhookEventRecord } from '@/lib/supabase/config';
+import { processStoredBlockradarEvent } from '@/lib/blockradar';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('blockradar-webhook');
+
+export const dynamic = 'force-dynamic';
+
+const PROCESSING_STATUSES: BlockradarWebhookEventRecord['processing_status'][] = ['received', 'processed', 'failed'];
+
+export async function GET(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const statusParam = searchParams.get('status') as BlockradarWebhookEventRecord['processing_status'] | null;
+    const status = statusParam && PROCESSING_STATUSES.includes(statusParam) ? statusParam : undefined;
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+
+    const events = await DatabaseService.getBlockradarWebhookEvents(status, limit);
+
+    return NextResponse.json({ events });
+  } catch (error) {
+    logger.error('Failed to fetch Blockradar webhook events', { error });
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook events' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { eventId } = await request.json();
+
+    if (!eventId) {
+      return NextResponse.json(
+        { error: 'eventId is required' },
+        { status: 400 }
+      );
+    }
+
+    const record = await DatabaseService.getBlockradarWebhookEvent(eventId);
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Webhook event not found' },
+        { status: 404 }
+      );
+    }
+
+    logger.info('Replaying Blockradar webhook event', {
+      eventId,
+      eventKey: record.event_key,
+      previousStatus: record.processing_status,
+      replayedBy: session.username,
+    });
+
+    await DatabaseService.logAnalyticsEvent('blockradar_webhook_replayed', undefined, {
+      event_id: eventId,
+      event_key: record.event_key,
+      previous_status: record.processing_status,
+      replayed_by: session.username,
+    });
+
+    const result = await processStoredBlockradarEvent(record);
+
+    return NextResponse.json({ success: true, eventId, result });
+  } catch (error) {
+    logger.error('Blockradar webhook replay failed', { error });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Replay failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,7 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { BLOCKRADAR_CONFIG, getBlockradarHeaders } from '@/lib/blockradar';
+import { blockradarClient, type BlockradarApiError } from '@/lib/blockradar';
 
 interface WithdrawStatusRequestBody {
   withdrawalId: string;
@@ -29,15 +29,16 @@ export async function POST(request: NextRequest) {
     console.log('[Blockradar Withdraw Status] Checking status for:', withdrawalId);
 
     // Fetch withdrawal status from Blockradar
-    const response = await fetch(
-      `https://api.blockradar.co/v1/wallets/${BLOCKRADAR_CONFIG.WALLET_ID}/transactions/${withdrawalId}`,
-      {
-        method: 'GET',
-        headers: getBlockradarHeaders(),
-      }
-    );
-
-    const data = await response.json();
+    let data;
+    try {
+      data = await blockradarClient.getTransaction(withdrawalId);
+    } catch (error) {
+      const apiError = error as BlockradarApiError;
+      return NextResponse.json(
+        { success: false, error: apiError.message || 'Failed to get withdrawal status' },
+        { status: apiError.statusCode || 500 }
+      );
+    }
 
     console.log('[Blockradar Withdraw Status] Response:', {
       status: data.data?.status,
@@ -45,13 +46,6 @@ export async function POST(request: NextRequest) {
       confirmed: data.data?.confirmed,
     });
 
-    if (!response.ok) {
-      return NextResponse.json(
-        { success: false, error: data.message || 'Failed to get withdrawal status' },
-        { status: response.status }
-      );
-    }
-
     return NextResponse.json({
       success: true,
       data: {
@@ -0,0 +1,41 @@
+/**
+ * API Route: Rate Alert Checker (cron)
+ * Compares active rate alerts with live provider rates and notifies users whose target was crossed.
+ * Called by the scheduler with `Authorization: Bearer <CRON_SECRET>`
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateAlerts } from '@/lib/rate-alerts';
+import { isCronAuthorized } from '@/lib/security/cron-auth';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('rate-alerts-cron');
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+async function handle(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await checkRateAlerts();
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    logger.error('Rate alert check failed', { error });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Rate alert check failed' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handle(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handle(request);
+}
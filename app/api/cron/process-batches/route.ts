@@ -0,0 +1,41 @@
+/**
+ * API Route: Batch Payout Processor (cron)
+ * Continues funded batches - funds and disburses the rows the fund request did not reach.
+ * Called by the scheduler with `Authorization: Bearer <CRON_SECRET>`
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { processPendingBatches } from '@/lib/batches';
+import { isCronAuthorized } from '@/lib/security/cron-auth';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('batch-payouts');
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+async function handle(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await processPendingBatches();
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    logger.error('Batch processing run failed', { error });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Batch processing failed' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handle(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handle(request);
+}
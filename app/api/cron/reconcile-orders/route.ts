@@ -0,0 +1,41 @@
+/**
+ * API Route: Stuck-order Reconciler (cron)
+ * Polls Pretium and PayCrest for orders pending past their SLA and applies missed webhooks.
+ * Called by the scheduler with `Authorization: Bearer <CRON_SECRET>`
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { reconcileStuckOrders } from '@/lib/offramp/reconciler';
+import { isCronAuthorized } from '@/lib/security/cron-auth';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('offramp-reconciler');
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+async function handle(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await reconcileStuckOrders();
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    logger.error('Reconciliation run failed', { error });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Reconciliation failed' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handle(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handle(request);
+}
@@ -0,0 +1,41 @@
+/**
+ * API Route: Scheduled Payout Runner (cron)
+ * Starts due schedules - pays custodial ones out, reminds the rest - and finishes funded runs.
+ * Called by the scheduler with `Authorization: Bearer <CRON_SECRET>`
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { processDueSchedules } from '@/lib/schedules';
+import { isCronAuthorized } from '@/lib/security/cron-auth';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('scheduled-payouts');
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+async function handle(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await processDueSchedules();
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    logger.error('Schedule run failed', { error });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Schedule run failed' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handle(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handle(request);
+}
@@ -0,0 +1,78 @@
+/**
+ * API Route: Notification Preferences
+ * Which notifications the user gets on which channels, quiet hours and language
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  NotificationPreferencesError,
+} from '@/lib/notification-preferences';
+import { authenticateUser, verifyFarcasterUser, UserAuthError } from '@/lib/user-auth';
+import { withRateLimit } from '@/lib/security/rate-limit';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('notification-preferences');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/notification-preferences
+ *   The signed-in user's preferences (Authorization: Bearer <Privy or wallet session token>)
+ *   Users who never saved preferences get the defaults
+ */
+export async function GET(request: NextRequest) {
+  return withRateLimit(request, 'notification_preferences', {}, () => handleGetPreferences(request));
+}
+
+/**
+ * PUT /api/notification-preferences
+ * Body: { preferences: { channels?: { [category]: { farcaster?, email?, in_app? } },
+ *   quietHours?: { start: HH:MM, end: HH:MM } | null, timeZone?, language?: en | sw | fr } }
+ *   Fields left out keep their current value. In Farcaster, X-Farcaster-Token (Quick Auth)
+ *   links the user's FID for Farcaster notifications
+ */
+export async function PUT(request: NextRequest) {
+  return withRateLimit(request, 'notification_preferences', {}, () => handleUpdatePreferences(request));
+}
+
+async function handleGetPreferences(request: NextRequest) {
+  try {
+    const { owner } = await authenticateUser(request);
+    const preferences = await getNotificationPreferences(owner);
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    if (error instanceof NotificationPreferencesError || error instanceof UserAuthError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Failed to get notification preferences', { error });
+    return NextResponse.json(
+      { error: 'Failed to fetch notification preferences' },
+      { status: 500 }
+    );
+  }
+}
+
+async function handleUpdatePreferences(request: NextRequest) {
+  try {
+    const { owner } = await authenticateUser(request);
+    const fid = await verifyFarcasterUser(request);
+    const body = await request.json();
+    const preferences = await updateNotificationPreferences(owner, body.preferences, fid);
+
+    return NextResponse.json({ success: true, preferences });
+  } catch (error) {
+    if (error instanceof NotificationPreferencesError || error instanceof UserAuthError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Failed to update notification preferences', { error });
+    return NextResponse.json(
+      { error: 'Failed to update notification preferences' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkTransactionLimits, createLimitError, OfframpError, parseOptionalNumber } from '@/lib/offramp';
+import { withRateLimit } from '@/lib/security/rate-limit';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('offramp-limits');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Pre-flight transaction limit check
+ *
+ * POST { walletAddress, currency, amount, phoneNumber? | tillNumber? | paybillNumber+paybillAccount? | accountNumber+bankCode? }
+ *   ExchangeFlow calls this before the payment step so a payout that would be
+ *   refused is explained before any USDC moves. Order creation enforces the same
+ *   limits again. Returns 403 LIMIT_EXCEEDED with the violated rule under `limit`
+ */
+export async function POST(request: NextRequest) {
+  return withRateLimit(request, 'limits_check', {}, () => handleCheckLimits(request));
+}
+
+async function handleCheckLimits(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const currency = String(body.currency || '').toUpperCase();
+    const amountUSDC = parseOptionalNumber(body.amount);
+
+    if (!currency || amountUSDC === undefined || amountUSDC <= 0) {
+      return NextResponse.json(
+        { error: 'Missing required: currency and a positive amount' },
+        { status: 400 }
+      );
+    }
+
+    const violation = await checkTransactionLimits({
+      walletAddress: body.walletAddress,
+      currency,
+      amountUSDC,
+      recipient: {
+        phoneNumber: body.phoneNumber,
+        tillNumber: body.tillNumber,
+        paybillNumber: body.paybillNumber,
+        paybillAccount: body.paybillAccount,
+        accountNumber: body.accountNumber,
+        bankCode: body.bankCode,
+      },
+    });
+
+    // Breaches are only recorded when a payout itself is refused
+    if (violation) throw createLimitError(violation);
+
+    return NextResponse.json({ success: true, allowed: true });
+  } catch (error) {
+    if (error instanceof OfframpError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Failed to check transaction limits', { error });
+    return NextResponse.json(
+      { error: 'Failed to check transaction limits' },
+      { status: 500 }
+    );
+  }
+}
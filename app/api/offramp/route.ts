@@ -1,278 +1,213 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { createPublicClient, http } from 'viem'
-import { base, baseSepolia } from 'viem/chains'
-// PayCrest integration - no more mpesa imports
-import { getUSDCContract, getNetworkConfig } from '@/lib/contracts'
-
-// Create Viem clients for both networks
-const createClient = (chainId: number) => {
-  const chain = chainId === base.id ? base : baseSepolia
-  return createPublicClient({
-    chain,
-    transport: http()
-  })
-}
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  routeOfframp,
+  createQuotedPayout,
+  getOfframpProvider,
+  getQuote,
+  getQuoteProvider,
+  rejectClientRate,
+  resolvePaymentType,
+  parseOptionalNumber,
+  OfframpError,
+  type OfframpPaymentType,
+  type OfframpRecipient,
+} from '@/lib/offramp';
+import { DatabaseService } from '@/lib/supabase/config';
+import { authenticateUser, UserAuthError, type UserSession } from '@/lib/user-auth';
+import { createLogger, getRequestCorrelationId, withCorrelationId } from '@/lib/logger';
+import { withIdempotency } from '@/lib/security/idempotency';
+import { withRateLimit } from '@/lib/security/rate-limit';
+
+const logger = createLogger('offramp');
+
+export const dynamic = 'force-dynamic';
+
+const PAYMENT_TYPES: OfframpPaymentType[] = ['MOBILE', 'BUY_GOODS', 'PAYBILL', 'BANK_TRANSFER'];
+
+function errorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof OfframpError || error instanceof UserAuthError) {
+    return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+  }
 
-interface OffRampRequest {
-  walletAddress: string
-  usdcAmount: number
-  kshAmount: number
-  phoneNumber: string
-  provider?: 'paycrest'
-  chainId?: number
-  accountName?: string // Required for PayCrest
-  rate?: number // Required for PayCrest
+  logger.error(fallbackMessage, { error });
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : fallbackMessage },
+    { status: 500 }
+  );
 }
 
-interface TransactionLogData {
-  transactionId: string
-  walletAddress: string
-  usdcAmount: number
-  kshAmount: number
-  phoneNumber: string
-  provider: string
-  status: string
-  timestamp: Date
-  chainId: number
-  checkoutRequestID?: string
-  mpesaReference?: string
+/**
+ * Whether the signed-in user paid for the order: a wallet session for its
+ * wallet, or the Privy user whose Minisend wallet it is
+ */
+async function isOrderOwner(session: UserSession, orderWallet: string | undefined): Promise<boolean> {
+  if (!orderWallet) return false;
+  const wallet = session.method === 'wallet'
+    ? session.owner
+    : (await DatabaseService.getCustodialWalletForOwner(session.owner))?.minisend_wallet;
+  return wallet?.toLowerCase() === orderWallet.toLowerCase();
 }
 
-export async function POST(request: NextRequest) {
+/**
+ * Unified off-ramp endpoint
+ *
+ * GET ?currency=KES&amount=10&paymentType=MOBILE
+ *   Quote every provider for the corridor and return the one the router picks.
+ *   Indicative only - lock a quote with POST /api/quotes before paying out
+ * GET ?orderId=...&provider=pretium&currency=KES
+ *   Provider status for an existing payout, for the user who paid for it
+ *   (Authorization: Bearer <Privy or wallet session token>)
+ */
+export async function GET(request: NextRequest) {
   try {
-    const body: OffRampRequest = await request.json()
-    const { 
-      walletAddress, 
-      usdcAmount, 
-      kshAmount,
-      phoneNumber, 
-      provider = 'paycrest',
-      accountName,
-      chainId = base.id 
-    } = body
+    const searchParams = request.nextUrl.searchParams;
+    const currency = (searchParams.get('currency') || '').toUpperCase();
+    const orderId = searchParams.get('orderId');
 
-    // Validate input
-    if (!walletAddress || !usdcAmount || !kshAmount || !phoneNumber) {
-      return NextResponse.json(
-        { error: 'Missing required fields' },
-        { status: 400 }
-      )
+    if (!currency) {
+      return NextResponse.json({ error: 'currency is required' }, { status: 400 });
     }
 
-    // Validation for PayCrest (now our only provider)
-    if (!accountName) {
-      return NextResponse.json(
-        { error: 'Account name is required' },
-        { status: 400 }
-      )
+    if (orderId) {
+      const provider = getOfframpProvider(searchParams.get('provider') || '');
+      if (!provider) {
+        return NextResponse.json({ error: 'A valid provider is required' }, { status: 400 });
+      }
+
+      const session = await authenticateUser(request);
+      const order = provider.id === 'pretium'
+        ? await DatabaseService.getPretiumOrderByTransactionCode(orderId)
+        : await DatabaseService.getOrderByPaycrestId(orderId);
+      if (!order || !(await isOrderOwner(session, order.wallet_address))) {
+        return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+      }
+
+      const status = await provider.getStatus(orderId, currency);
+      return NextResponse.json({ success: true, ...status });
     }
 
-    // Validate phone number format for M-Pesa
-    const phoneRegex = /^(\+?254|0)[17]\d{8}$/
-    if (!phoneRegex.test(phoneNumber)) {
-      return NextResponse.json(
-        { error: 'Invalid Kenyan phone number format. Use +254XXXXXXXXX or 07XXXXXXXX' },
-        { status: 400 }
-      )
-    }
+    const amountUSDC = parseFloat(searchParams.get('amount') || '');
+    const paymentType = (searchParams.get('paymentType') || 'MOBILE').toUpperCase() as OfframpPaymentType;
 
-    // Validate amount limits (compliance)
-    if (usdcAmount < 1 || usdcAmount > 1000) {
-      return NextResponse.json(
-        { error: 'Amount must be between $1 and $1,000 USDC' },
-        { status: 400 }
-      )
+    if (isNaN(amountUSDC) || amountUSDC <= 0) {
+      return NextResponse.json({ error: 'Invalid amount: must be a positive number' }, { status: 400 });
     }
 
-    // 1. Check USDC balance
-    const balance = await checkUSDCBalance(walletAddress, chainId)
-    if (balance < usdcAmount) {
+    if (!PAYMENT_TYPES.includes(paymentType)) {
       return NextResponse.json(
-        { error: 'Insufficient USDC balance' },
+        { error: `Invalid paymentType. Supported: ${PAYMENT_TYPES.join(', ')}` },
         { status: 400 }
-      )
+      );
     }
 
-    // 2. Generate transaction ID for tracking
-    const transactionId = generateTransactionId()
-
-    // 3. Process PayCrest off-ramp 
-    const result = await processPaycrestOffRamp({
-      walletAddress,
-      usdcAmount,
-      kshAmount,
-      phoneNumber,
-      accountName: accountName!,
-      transactionId,
-      chainId
-    })
-
-    // 4. Log transaction for compliance
-    await logTransaction({
-      transactionId,
-      walletAddress,
-      usdcAmount,
-      kshAmount,
-      phoneNumber,
-      provider,
-      chainId,
-      status: result.status || 'initiated',
-      timestamp: new Date()
-    })
+    const route = await routeOfframp({ currency, amountUSDC, paymentType });
 
     return NextResponse.json({
       success: true,
-      transactionId,
-      provider,
-      chainId,
-      networkName: getNetworkConfig(chainId).name,
-      ...result
-    })
-
-  } catch (error) {
-    console.error('Off-ramp processing error:', error)
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Transaction failed' },
-      { status: 500 }
-    )
-  }
-}
-
-// Check USDC balance for specific chain
-async function checkUSDCBalance(address: string, chainId: number): Promise<number> {
-  try {
-    const client = createClient(chainId)
-    const usdcContract = getUSDCContract(chainId)
-
-    // Get USDC balance (6 decimals for USDC)
-    const balance = await client.readContract({
-      address: usdcContract as `0x${string}`,
-      abi: [
-        {
-          constant: true,
-          inputs: [{ name: 'owner', type: 'address' }],
-          name: 'balanceOf',
-          outputs: [{ name: '', type: 'uint256' }],
-          type: 'function',
-        },
-      ],
-      functionName: 'balanceOf',
-      args: [address as `0x${string}`],
-    })
-
-    // Convert from wei to USDC (6 decimals)
-    return Number(balance) / 1e6
+      provider: route.provider.id,
+      fundingModel: route.provider.fundingModel,
+      quote: route.quote,
+      alternatives: route.alternatives,
+      unavailable: route.unavailable,
+    });
   } catch (error) {
-    console.error('Error checking USDC balance:', error)
-    return 0
+    return errorResponse(error, 'Failed to fetch off-ramp quote');
   }
 }
 
+/**
+ * Create a payout at the terms of a quote from /api/quotes, on the provider it was issued for.
+ *
+ * Deposit-first providers (Pretium) need the USDC transfer first: quote, send
+ * USDC to quote.depositAddress, then POST with quoteId + transactionHash.
+ * When the deposit is sent from another wallet than returnAddress (e.g. on
+ * Tron or Stellar) pass senderAddress when requesting the quote.
+ * Order-first providers (Paycrest) return the address to send USDC to.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = `offramp_${Date.now()}`;
 
-// Generate unique transaction ID
-function generateTransactionId(): string {
-  const timestamp = Date.now().toString(36)
-  const randomStr = Math.random().toString(36).substring(2, 8)
-  return `KE_${timestamp}_${randomStr}`.toUpperCase()
+  // Every log line written while handling this request carries the payment's correlation ID
+  const correlationId = getRequestCorrelationId(request, requestId);
+  return withCorrelationId(correlationId, () => handlePayout(request, requestId, correlationId));
 }
 
-// Log transaction for compliance and tracking
-async function logTransaction(data: TransactionLogData) {
-  try {
-    // In a real implementation, you would save this to a database
-    // For now, we'll just log it
-    console.log('Transaction logged:', JSON.stringify(data, null, 2))
-    
-    // TODO: Implement database storage
-    // await database.transactions.create(data)
-    
-  } catch (error) {
-    console.error('Failed to log transaction:', error)
-    // Don't throw error as this shouldn't fail the main transaction
-  }
-}
-
-// GET method for transaction status checking
-export async function GET(request: NextRequest) {
-  const { searchParams } = new URL(request.url)
-  const transactionId = searchParams.get('id')
-
-  if (!transactionId) {
-    return NextResponse.json(
-      { error: 'Transaction ID required' },
-      { status: 400 }
-    )
-  }
-
+async function handlePayout(request: NextRequest, requestId: string, correlationId: string) {
   try {
-    // In production, fetch from database
-    // const transaction = await getTransactionById(transactionId)
-    
-    // For demo, return mock status
-    return NextResponse.json({
-      transactionId,
-      status: 'pending',
-      message: 'Transaction is being processed. Please check your M-Pesa for confirmation.',
-      completedAt: new Date().toISOString()
-    })
+    const body = await request.json();
+    rejectClientRate(body);
+
+    // A replayed Idempotency-Key returns the original payout instead of paying out twice
+    return await withIdempotency(request, 'offramp_payout', body, () =>
+      withRateLimit(request, 'offramp_payout', { wallet: body.returnAddress }, async () => {
+        const provider = await getQuoteProvider(body.quoteId);
+        const quote = await getQuote(body.quoteId, provider);
+
+        if (body.provider && body.provider !== provider.id) {
+          throw new OfframpError(`Quote was issued for ${provider.id}, not ${body.provider}`, 'QUOTE_MISMATCH');
+        }
+
+        const recipient: OfframpRecipient = {
+          accountName: body.accountName,
+          phoneNumber: body.phoneNumber,
+          tillNumber: body.tillNumber,
+          paybillNumber: body.paybillNumber,
+          paybillAccount: body.paybillAccount,
+          accountNumber: body.accountNumber,
+          bankCode: body.bankCode,
+          bankName: body.bankName,
+        };
+
+        const paymentType = resolvePaymentType(quote.currency, recipient);
+        if (!paymentType) {
+          return NextResponse.json(
+            { error: 'Must provide: phoneNumber, tillNumber, paybillNumber+account, or accountNumber+bankCode' },
+            { status: 400 }
+          );
+        }
+
+        if (!provider.supports(quote.currency, paymentType, quote.chain, quote.token)) {
+          return NextResponse.json(
+            { error: `Provider ${provider.id} does not support ${paymentType} payouts in ${quote.currency}` },
+            { status: 400 }
+          );
+        }
+
+        if (provider.fundingModel === 'deposit_first' && !body.transactionHash) {
+          throw new OfframpError(
+            'Send USDC to the deposit address first, then retry with quoteId and transactionHash',
+            'DEPOSIT_REQUIRED',
+            400,
+            undefined,
+            { provider: provider.id, quote }
+          );
+        }
+
+        logger.info('Routing payout', { currency: quote.currency, paymentType, provider: provider.id, quoteId: quote.id });
+
+        const result = await createQuotedPayout(provider, quote.id, {
+          requestId,
+          correlationId,
+          currency: body.currency,
+          amountUSDC: parseOptionalNumber(body.amount),
+          recipient,
+          returnAddress: body.returnAddress,
+          transactionHash: body.transactionHash,
+          fid: body.fid,
+          clientFid: body.clientFid,
+          platformType: body.platformType,
+          locationType: body.locationType,
+          farcasterProfile: {
+            username: body.farcasterUsername,
+            displayName: body.farcasterDisplayName,
+            pfpUrl: body.farcasterPfpUrl,
+          },
+        });
+
+        return NextResponse.json({ success: true, requestId, correlationId, quoteId: quote.id, ...result });
+      })
+    );
   } catch (error) {
-    console.error('Error fetching transaction status:', error)
-    return NextResponse.json(
-      { error: 'Failed to fetch transaction status' },
-      { status: 500 }
-    )
+    return errorResponse(error, 'Failed to create payout');
   }
 }
-
-// Process PayCrest off-ramp
-async function processPaycrestOffRamp(params: {
-  walletAddress: string
-  usdcAmount: number
-  kshAmount: number
-  phoneNumber: string
-  accountName: string
-  transactionId: string
-  chainId: number
-}) {
-  try {
-    console.log(`🚀 Creating PayCrest order: $${params.usdcAmount} USDC → KSH ${params.kshAmount}`)
-    
-    // Create PayCrest order via API call to our endpoint (using correct simple endpoint)
-    const orderResponse = await fetch(`${process.env.NEXT_PUBLIC_URL || 'http://localhost:3000'}/api/paycrest/orders/simple`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        amount: params.usdcAmount.toString(),
-        phoneNumber: params.phoneNumber,
-        accountName: params.accountName,
-        currency: 'KES', // Add required currency field
-        returnAddress: params.walletAddress,
-        provider: 'MPESA',
-        reference: params.transactionId
-      }),
-    })
-
-    if (!orderResponse.ok) {
-      const errorData = await orderResponse.json()
-      throw new Error(errorData.error || 'Failed to create PayCrest order')
-    }
-
-    const { order } = await orderResponse.json()
-
-    return {
-      orderId: order.id,
-      receiveAddress: order.receiveAddress,
-      validUntil: order.validUntil,
-      senderFee: order.senderFee,
-      transactionFee: order.transactionFee,
-      totalAmount: order.totalAmount,
-      status: order.status,
-      message: `PayCrest order created successfully. Send ${order.totalAmount} USDC to the address below.`,
-      recipient: order.recipient
-    }
-  } catch (error) {
-    throw new Error(`PayCrest order creation failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
-  }
-}
\ No newline at end of file
@@ -1,35 +1,27 @@
 import { NextResponse } from 'next/server';
-
-const PAYCREST_API_URL = process.env.PAYCREST_BASE_URL || 'https://api.paycrest.io/v1';
-const PAYCREST_API_KEY = process.env.PAYCREST_API_KEY;
+import { paycrestClient } from '@/lib/paycrest/client';
 
 export async function GET() {
   try {
     // Fetch supported currencies from PayCrest API
-    const response = await fetch(`${PAYCREST_API_URL}/currencies`, {
-      headers: {
-        'API-Key': PAYCREST_API_KEY!,
-      },
-    });
+    let currenciesData;
+    try {
+      currenciesData = await paycrestClient.getCurrencies();
+    } catch (error) {
+      console.error('PayCrest currencies API error:', error);
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => null);
-      console.error('PayCrest currencies API error:', response.status, errorData);
-      
       return NextResponse.json(
-        { 
+        {
           error: 'Failed to fetch supported currencies',
-          details: errorData?.message || `HTTP ${response.status}`,
+          details: error instanceof Error ? error.message : 'Unknown error',
         },
-        { status: response.status }
+        { status: 502 }
       );
     }
 
-    const currenciesData = await response.json();
-
     return NextResponse.json({
       success: true,
-      currencies: currenciesData.data || currenciesData,
+      currencies: currenciesData.data,
       timestamp: new Date().toISOString(),
     });
 
@@ -40,4 +32,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const PAYCREST_API_URL = process.env.PAYCREST_BASE_URL || 'https://api.paycrest.io/v1';
-const PAYCREST_API_KEY = process.env.PAYCREST_API_KEY;
+import { paycrestClient } from '@/lib/paycrest/client';
+import type { PaycrestApiError } from '@/lib/paycrest/types';
 
 export async function GET(
   request: NextRequest,
@@ -29,31 +28,29 @@ export async function GET(
     }
 
     // Fetch institutions from PayCrest API
-    const response = await fetch(`${PAYCREST_API_URL}/institutions/${currency}`, {
-      headers: {
-        'API-Key': PAYCREST_API_KEY!,
-      },
-    });
+    let institutions;
+    try {
+      institutions = await paycrestClient.getInstitutions(currency);
+    } catch (error) {
+      const apiError = error as PaycrestApiError;
+      if (typeof apiError?.status !== 'number') throw error;
+
+      const errorData = apiError.data as { message?: string } | undefined;
+      console.error('PayCrest institutions API error:', apiError.status, errorData);
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => null);
-      console.error('PayCrest institutions API error:', response.status, errorData);
-      
       return NextResponse.json(
-        { 
+        {
           error: 'Failed to fetch supported institutions',
-          details: errorData?.message || `HTTP ${response.status}`,
+          details: errorData?.message || `HTTP ${apiError.status}`,
         },
-        { status: response.status }
+        { status: apiError.status }
       );
     }
 
-    const institutionsData = await response.json();
-
     return NextResponse.json({
       success: true,
       currency: currency.toUpperCase(),
-      institutions: institutionsData.data || institutionsData,
+      institutions,
       timestamp: new Date().toISOString(),
     });
 
@@ -1,24 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const PAYCREST_API_URL = process.env.PAYCREST_BASE_URL || 'https://api.paycrest.io/v1';
-const PAYCREST_API_KEY = process.env.PAYCREST_API_KEY;
-
-// Cache for currencies data to avoid repeated API calls
-interface CurrenciesData {
-  status: string;
-  message: string;
-  data: Array<{
-    code: string;
-    name: string;
-    marketRate: string;
-    decimals: number;
-    symbol: string;
-    shortName: string;
-  }>;
-}
-
-let currenciesCache: { data: CurrenciesData; timestamp: number } | null = null;
-const CACHE_DURATION = 60000; // 1 minute cache
+import { paycrestClient } from '@/lib/paycrest/client';
+import { PAYCREST_CONFIG } from '@/lib/paycrest/config';
+import { isSandboxMode } from '@/lib/sandbox/config';
 
 export async function GET(
   _request: NextRequest,
@@ -64,144 +47,54 @@ export async function GET(
     }
 
     // Check if API key is configured
-    if (!PAYCREST_API_KEY) {
+    if (!PAYCREST_CONFIG.API_KEY && !isSandboxMode()) {
       return NextResponse.json(
         { error: 'PayCrest API key not configured' },
         { status: 500 }
       );
     }
 
-    // Fetch rate from PayCrest API
-    // According to PayCrest API docs: GET /rates/{token}/{amount}/{fiat}?network=base
-    // Note: The /rates endpoint is currently experiencing issues, so we use /currencies as fallback
-    let rateData;
-
+    // GET /rates/{token}/{amount}/{fiat}?network=base, falling back to the
+    // market rates on /currencies when the rates endpoint is having issues
+    let rate: number;
     try {
-      // Try the rates endpoint first
-      const ratesResponse = await fetch(
-        `${PAYCREST_API_URL}/rates/${token.toUpperCase()}/${amount}/${currency.toUpperCase()}?network=base`,
-        {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      if (ratesResponse.ok) {
-        rateData = await ratesResponse.json();
-      } else {
-        throw new Error('Rates endpoint failed');
-      }
-    } catch {
-      // Fallback to currencies endpoint which provides market rates
-      let currenciesData;
-
-      // Check cache first
-      if (currenciesCache && (Date.now() - currenciesCache.timestamp) < CACHE_DURATION) {
-        currenciesData = currenciesCache.data;
-      } else {
-        // Fetch fresh data
-        const currenciesResponse = await fetch(`${PAYCREST_API_URL}/currencies`, {
-          method: 'GET',
-          headers: {
-            'API-Key': PAYCREST_API_KEY,
-            'Content-Type': 'application/json',
-          },
-        });
-
-        if (!currenciesResponse.ok) {
-          return NextResponse.json(
-            {
-              success: false,
-              error: 'Failed to fetch exchange rate',
-              details: `Both rates and currencies endpoints failed`,
-            },
-            { status: 500 }
-          );
-        }
-
-        currenciesData = await currenciesResponse.json();
-
-        // Update cache
-        currenciesCache = {
-          data: currenciesData,
-          timestamp: Date.now(),
-        };
-      }
-
-      if (currenciesData.status === 'success' && currenciesData.data) {
-        const currencyInfo = currenciesData.data.find(
-          (c: { code: string; marketRate: string }) => c.code === currency.toUpperCase()
-        );
-
-        if (currencyInfo && currencyInfo.marketRate) {
-          // Transform to expected format
-          rateData = {
-            status: 'success',
-            message: 'Rate fetched from currencies endpoint',
-            data: currencyInfo.marketRate,
-          };
-        } else {
-          return NextResponse.json(
-            {
-              success: false,
-              error: 'Currency not found in currencies endpoint',
-            },
-            { status: 404 }
-          );
-        }
-      } else {
-        return NextResponse.json(
-          {
-            success: false,
-            error: 'Invalid response from currencies endpoint',
-          },
-          { status: 500 }
-        );
-      }
-    }
+      rate = await paycrestClient.getRate(token, amountNum, currency);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
 
-    // PayCrest API returns: { "status": "success", "message": "Rate fetched successfully", "data": "1250.50" }
-    // According to API docs, the response format is consistent
-    if (rateData.status === 'success' && rateData.data) {
-      const rate = parseFloat(rateData.data);
-
-      // Validate the rate is a valid number
-      if (isNaN(rate) || rate <= 0) {
+      if (message.includes('not found in currencies endpoint')) {
         return NextResponse.json(
           {
             success: false,
-            error: 'Invalid rate received from PayCrest API',
-            details: `Received rate: ${rateData.data}`,
+            error: 'Currency not found in currencies endpoint',
           },
-          { status: 500 }
+          { status: 404 }
         );
       }
 
-      const localAmount = amountNum * rate;
-
-      return NextResponse.json({
-        success: true,
-        rate: rate,
-        token: token.toUpperCase(),
-        amount: amountNum,
-        currency: currency.toUpperCase(),
-        localAmount: parseFloat(localAmount.toFixed(2)),
-        timestamp: new Date().toISOString(),
-        validUntil: new Date(Date.now() + 5 * 60 * 1000).toISOString(), // Rate valid for 5 minutes
-      });
-    } else {
       return NextResponse.json(
         {
           success: false,
-          error: 'Invalid response from PayCrest rates API',
-          details: `Status: ${rateData.status}, Data: ${JSON.stringify(rateData.data)}`,
+          error: 'Failed to fetch exchange rate',
+          details: message,
         },
         { status: 500 }
       );
     }
 
+    const localAmount = amountNum * rate;
+
+    return NextResponse.json({
+      success: true,
+      rate: rate,
+      token: token.toUpperCase(),
+      amount: amountNum,
+      currency: currency.toUpperCase(),
+      localAmount: parseFloat(localAmount.toFixed(2)),
+      timestamp: new Date().toISOString(),
+      validUntil: new Date(Date.now() + 5 * 60 * 1000).toISOString(), // Rate valid for 5 minutes
+    });
+
   } catch (error) {
     return NextResponse.json(
       {
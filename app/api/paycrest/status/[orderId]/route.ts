@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { DatabaseService } from '@/lib/supabase/config';
 import { fixPaycrestAccountName } from '@/lib/utils/accountNameExtractor';
+import { evaluateTransition, mapPaycrestStatus } from '@/lib/offramp/order-state';
+import { paycrestClient } from '@/lib/paycrest/client';
+import { PAYCREST_CONFIG } from '@/lib/paycrest/config';
+import { isSandboxMode } from '@/lib/sandbox/config';
+import type { PaycrestApiError, PaycrestOrderResponse } from '@/lib/paycrest/types';
 
 // Force dynamic rendering and Node.js runtime
 export const runtime = 'nodejs';
@@ -23,66 +28,28 @@ export async function GET(
     console.log(`🔍 Checking PayCrest order status`);
 
     // Get order status from PayCrest API
-    const paycrestApiKey = process.env.PAYCREST_API_KEY;
-    const paycrestBaseUrl = process.env.PAYCREST_BASE_URL || 'https://api.paycrest.io/v1';
-
-    if (!paycrestApiKey) {
+    if (!PAYCREST_CONFIG.API_KEY && !isSandboxMode()) {
       return NextResponse.json(
         { error: 'PayCrest API secret not configured' },
         { status: 500 }
       );
     }
 
-    // Helper function to fetch with timeout and retry
-    const fetchWithRetry = async (maxRetries = 2, timeoutMs = 10000): Promise<Response> => {
-      for (let attempt = 1; attempt <= maxRetries; attempt++) {
-        try {
-          console.log(`📡 Attempt ${attempt}/${maxRetries} - Checking PayCrest order status`);
-
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-          const response = await fetch(`${paycrestBaseUrl}/sender/orders/${orderId}`, {
-            method: 'GET',
-            headers: {
-              'API-Key': paycrestApiKey,
-              'Content-Type': 'application/json',
-            },
-            signal: controller.signal,
-          });
-
-          clearTimeout(timeoutId);
-          return response;
-
-        } catch (error) {
-          console.error(`❌ Attempt ${attempt} failed:`, error);
-
-          if (attempt === maxRetries) {
-            throw error;
-          }
-
-          // Wait before retry with exponential backoff
-          const delayMs = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
-          console.log(`⏳ Retrying in ${delayMs}ms...`);
-          await new Promise(resolve => setTimeout(resolve, delayMs));
-        }
-      }
-
-      // This should never be reached due to the throw above, but TypeScript needs it
-      throw new Error('All retry attempts failed');
-    };
-
-    const response = await fetchWithRetry();
+    // The client retries timeouts and network errors with exponential backoff
+    let paycrestOrder: PaycrestOrderResponse;
+    try {
+      paycrestOrder = await paycrestClient.getOrder(orderId);
+    } catch (error) {
+      const apiError = error as PaycrestApiError;
+      if (typeof apiError?.status !== 'number') throw error;
 
-    if (!response.ok) {
-      console.error(`PayCrest API error: ${response.status}`);
+      console.error(`PayCrest API error: ${apiError.status}`);
       return NextResponse.json(
         { error: 'Failed to get order status from PayCrest' },
-        { status: response.status }
+        { status: apiError.status }
       );
     }
 
-    const paycrestOrder = await response.json();
     console.log(`📊 PayCrest order status:`, {
       orderId,
       status: paycrestOrder.data?.status,
@@ -145,16 +112,10 @@ export async function GET(
           console.log(`🔄 Status changed from ${dbOrder.paycrest_status} to ${order.status}`)
           
           // Map Paycrest status to our status using official PayCrest statuses
-          let ourStatus = dbOrder.status
-          if (['validated', 'settled'].includes(order.status)) {
-            ourStatus = 'completed'
-          } else if (['refunded', 'expired'].includes(order.status)) {
-            ourStatus = 'failed'
-          } else if (order.status === 'pending') {
-            ourStatus = 'processing'
-          }
+          const ourStatus = mapPaycrestStatus(order.status) || dbOrder.status
+          const transition = evaluateTransition('paycrest', dbOrder.status, ourStatus)
 
-          // Update order status
+          // Update order status - disallowed transitions are logged and left unchanged
           await DatabaseService.updateOrderStatus(
             orderId,
             ourStatus,
@@ -167,8 +128,8 @@ export async function GET(
             }
           )
 
-          // Create settlement record if order is completed (validated = funds delivered, settled = blockchain complete)
-          if (['validated', 'settled'].includes(order.status)) {
+          // Create settlement record once, when the order first completes (validated = funds delivered, settled = blockchain complete)
+          if (ourStatus === 'completed' && transition === 'apply') {
             console.log(`💰 Creating settlement record for completed order`)
 
             try {
@@ -217,7 +178,7 @@ export async function GET(
             orderId,
             1, // attempt number - could be enhanced to track actual attempts
             order.status,
-            paycrestOrder
+            { ...paycrestOrder }
           )
         } else {
           // Still log the polling attempt even if status didn't change
@@ -1,12 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { formatTillNumber, formatPhoneNumber } from '@/lib/utils/tillValidator';
+import { paycrestClient } from '@/lib/paycrest/client';
+import { PAYCREST_CONFIG } from '@/lib/paycrest/config';
+import { isSandboxMode } from '@/lib/sandbox/config';
+import type { PaycrestApiError, PaycrestVerifyAccountResponse } from '@/lib/paycrest/types';
+import { createLogger } from '@/lib/logger';
+import { withRateLimit } from '@/lib/security/rate-limit';
+import { cacheVerifiedName } from '@/lib/recipients';
 
-const PAYCREST_API_URL = process.env.PAYCREST_BASE_URL || 'https://api.paycrest.io/v1';
-const PAYCREST_API_KEY = process.env.PAYCREST_API_KEY;
+const logger = createLogger('paycrest-verify-account');
 
 export async function POST(request: NextRequest) {
+  return withRateLimit(request, 'verify_account', {}, () => handleVerifyAccount(request));
+}
+
+async function handleVerifyAccount(request: NextRequest) {
   try {
-    if (!PAYCREST_API_KEY) {
+    if (!PAYCREST_CONFIG.API_KEY && !isSandboxMode()) {
       return NextResponse.json(
         { error: 'PayCrest API key not configured' },
         { status: 500 }
@@ -14,15 +24,15 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    console.log('🔍 Account verification request received');
-    
+
     const { 
       accountNumber, 
       bankCode, 
       phoneNumber, 
       tillNumber, 
       paybillNumber,
-      currency 
+      currency,
+      owner
     } = body;
 
     // Validate required fields based on payment type
@@ -64,41 +74,30 @@ export async function POST(request: NextRequest) {
       accountIdentifier
     };
 
-    console.log('📦 PayCrest verify account payload:', JSON.stringify(verifyData, null, 2));
-
-    const verifyResponse = await fetch(`${PAYCREST_API_URL}/verify-account`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'API-Key': PAYCREST_API_KEY!,
-      },
-      body: JSON.stringify(verifyData),
-    });
+    logger.info('Verifying account', verifyData);
 
-    console.log('📡 PayCrest verify response status:', verifyResponse.status);
-    
-    if (!verifyResponse.ok) {
-      const contentType = verifyResponse.headers.get('content-type') || '';
+    let result: PaycrestVerifyAccountResponse;
+    try {
+      result = await paycrestClient.verifyAccount(verifyData.institution, verifyData.accountIdentifier);
+    } catch (error) {
+      const apiError = error as PaycrestApiError;
+      if (typeof apiError?.status !== 'number') throw error;
 
-      if (contentType.includes('application/json')) {
-        const errorData = await verifyResponse.json();
-        console.error('PayCrest verify error (JSON):', JSON.stringify(errorData, null, 2));
-        return NextResponse.json(
-          { error: errorData.message || 'Account verification failed' },
-          { status: verifyResponse.status }
-        );
-      } else {
-        const errorText = await verifyResponse.text();
-        console.error('PayCrest verify error (text):', errorText);
-        return NextResponse.json(
-          { error: `PayCrest API error ${verifyResponse.status}` },
-          { status: verifyResponse.status }
-        );
-      }
+      logger.warn('PayCrest verify error', { status: apiError.status, errorMessage: apiError.message });
+      const errorData = apiError.data as { message?: string } | undefined;
+      return NextResponse.json(
+        { error: errorData ? errorData.message || 'Account verification failed' : apiError.message },
+        { status: apiError.status }
+      );
     }
 
-    const result = await verifyResponse.json();
-    console.log('✅ Account verification result:', result);
+    // result.data is the account holder's name - log only whether one was found
+    logger.info('Account verification result', { institution, status: result.status, nameFound: Boolean(result.data) });
+
+    // Remember the name on the caller's saved recipient, if they have one
+    if (result.status === 'success' && result.data && accountNumber) {
+      await cacheVerifiedName(owner, { accountNumber, bankCode }, String(result.data));
+    }
 
     return NextResponse.json({
       success: true,
@@ -107,7 +106,7 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
-    console.error('Account verification error:', error);
+    logger.error('Account verification error', { error });
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to verify account' },
       { status: 500 }
@@ -1,66 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { DatabaseService } from '@/lib/supabase/config';
-import crypto from 'crypto';
+import { handlePaycrestOrderClosed } from '@/lib/refunds';
+import { evaluateTransition, mapPaycrestStatus } from '@/lib/offramp/order-state';
+import { verifyPaycrestSignature, PAYCREST_SIGNATURE_HEADER } from '@/lib/paycrest/webhook-security';
+import { PAYCREST_CONFIG } from '@/lib/paycrest/config';
+import type { PaycrestWebhookEvent } from '@/lib/paycrest/types';
+import { createLogger, getCorrelationId, withCorrelationId, type Logger } from '@/lib/logger';
+import { getCorrelationIdFromReference } from '@/lib/correlation';
+
+const logger = createLogger('paycrest-webhook');
 
 // Force dynamic rendering and Node.js runtime
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-// PayCrest webhook event types - ACTUAL format (differs from apiguide.md)
-// The documentation shows a different structure, but this is what PayCrest actually sends
-interface PaycrestWebhookEvent {
-  event: string; // e.g., 'payment_order.pending', 'payment_order.validated', etc.
-  data: {
-    id: string; // Order ID
-    status: string; // Order status
-    amount: string;
-    amountInUsd: string;
-    amountPaid: string;
-    rate: string;
-    network: string;
-    txHash?: string;
-    providerId?: string;
-    reference: string;
-    updatedAt: string;
-    createdAt: string;
-    recipient: {
-      institution: string;
-      accountIdentifier: string;
-      accountName: string;
-      currency: string;
-      [key: string]: unknown;
-    };
-    [key: string]: unknown;
-  };
+export async function POST(request: NextRequest) {
+  return withCorrelationId(`paycrest_webhook_${Date.now()}`, () => handlePost(request));
 }
 
-function verifyPaycrestSignature(requestBody: string, signatureHeader: string, secretKey: string): boolean {
+async function handlePost(request: NextRequest) {
   try {
-    const calculatedSignature = calculateHmacSignature(requestBody, secretKey);
-    return signatureHeader === calculatedSignature;
-  } catch (error) {
-    console.error('❌ Signature verification error:', error);
-    return false;
-  }
-}
 
-function calculateHmacSignature(data: string, secretKey: string): string {
-  const key = Buffer.from(secretKey);
-  const hash = crypto.createHmac('sha256', key);
-  hash.update(data);
-  return hash.digest('hex');
-}
-
-export async function POST(request: NextRequest) {
-  try {
-    console.log('🔔 Webhook received from PayCrest');
-    
     // Get the raw body as text for signature verification
     const rawBody = await request.text();
-    const signature = request.headers.get('X-Paycrest-Signature');
+    const signature = request.headers.get(PAYCREST_SIGNATURE_HEADER);
     
     if (!signature) {
-      console.error('❌ Missing X-Paycrest-Signature header');
+      logger.warn('Missing X-Paycrest-Signature header');
       return NextResponse.json(
         { error: 'Missing signature header' },
         { status: 401 }
@@ -68,9 +34,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Verify signature with API secret
-    const apiSecret = process.env.PAYCREST_API_SECRET || process.env.PAYCREST_API_KEY;
+    const apiSecret = PAYCREST_CONFIG.API_SECRET;
     if (!apiSecret) {
-      console.error('❌ PayCrest API secret not configured');
+      logger.error('PayCrest API secret not configured');
       return NextResponse.json(
         { error: 'Server configuration error' },
         { status: 500 }
@@ -78,30 +44,32 @@ export async function POST(request: NextRequest) {
     }
 
     if (!verifyPaycrestSignature(rawBody, signature, apiSecret)) {
-      console.error('❌ Invalid webhook signature');
+      logger.warn('Invalid webhook signature');
       return NextResponse.json(
         { error: 'Invalid signature' },
         { status: 401 }
       );
     }
 
-    console.log('✅ Webhook signature verified');
-
     // Parse the webhook payload
     const webhookEvent: PaycrestWebhookEvent = JSON.parse(rawBody);
 
-    // Log the FULL raw payload for debugging
-    console.log('📨 Full webhook payload:', JSON.stringify(webhookEvent, null, 2));
-
-    console.log('📨 Webhook event received:', {
+    const log = logger.child({
       event: webhookEvent.event,
       orderId: webhookEvent.data.id,
       status: webhookEvent.data.status,
-      reference: webhookEvent.data.reference
     });
 
-    // Handle the webhook event
-    await handleWebhookEvent(webhookEvent);
+    // Continue under the payment's correlation ID, echoed back in the order reference we generated
+    const correlationId = getCorrelationIdFromReference(webhookEvent.data.reference) || getCorrelationId()!;
+
+    await withCorrelationId(correlationId, async () => {
+      // Recipient details in the payload are redacted by the logger
+      log.info('Webhook received', { reference: webhookEvent.data.reference, payload: webhookEvent });
+
+      // Handle the webhook event
+      await handleWebhookEvent(webhookEvent, log);
+    });
 
     // Respond with success
     return NextResponse.json({ 
@@ -111,8 +79,8 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
-    console.error('❌ Webhook processing error:', error);
-    
+    logger.error('Webhook processing error', { error });
+
     return NextResponse.json(
       { error: 'Webhook processing failed' },
       { status: 500 }
@@ -120,7 +88,7 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function handleWebhookEvent(event: PaycrestWebhookEvent) {
+async function handleWebhookEvent(event: PaycrestWebhookEvent, log: Logger) {
   // Extract data from actual PayCrest webhook structure
   const orderId = event.data.id;
   const eventType = event.data.status;
@@ -131,67 +99,27 @@ async function handleWebhookEvent(event: PaycrestWebhookEvent) {
     const dbOrder = await DatabaseService.getOrderByPaycrestId(orderId);
 
     if (!dbOrder) {
-      console.log(`⚠️ Order not found in database - this may be from another system`);
+      log.warn('Order not found in database - this may be from another system');
       return;
     }
 
-    console.log(`🔄 Processing webhook: ${event.event} with status ${eventType}`);
-
-    // Map PayCrest webhook events to our order statuses
-    let ourStatus = dbOrder.status;
-    let shouldCreateSettlement = false;
-
     // Normalize event name: 'payment_order.X' -> 'order.X'
     const normalizedEvent = event.event.replace('payment_order.', 'order.');
 
     // Map PayCrest webhook events to our order statuses
-    switch (normalizedEvent) {
-      case 'order.initiated':
-        // Order initiated via API (before Gateway creation)
-        ourStatus = 'pending';
-        console.log(`📝 Order initiated via API`);
-        break;
-
-      case 'order.pending':
-        // Order awaiting provider assignment
-        ourStatus = 'processing';
-        console.log(`⏳ Order awaiting provider assignment`);
-        break;
-
-      case 'order.validated':
-        // Order validated and ready for settlement
-        // THIS IS WHEN THE USER SHOULD CONSIDER THE TRANSACTION SUCCESSFUL
-        ourStatus = 'completed';
-        shouldCreateSettlement = true;
-        console.log(`✅ Order validated and ready for settlement`);
-        break;
-
-      case 'order.settled':
-        // Order settled on blockchain
-        ourStatus = 'completed';
-        shouldCreateSettlement = true;
-        console.log(`🏦 Order settled on blockchain`);
-        break;
-
-      case 'order.refunded':
-        // Order refunded to sender
-        ourStatus = 'failed';
-        console.log(`🔄 Order refunded to sender`);
-        break;
-
-      case 'order.expired':
-        // Order expired because no transfer was made to the receive address within the time limit
-        ourStatus = 'failed';
-        console.log(`⏰ Order expired - no transfer made within time limit`);
-        break;
-
-      default:
-        console.log(`⚠️ Unknown webhook event type: ${event.event}`);
-        return;
+    // order.validated is when the user should consider the transaction successful
+    const ourStatus = mapPaycrestStatus(normalizedEvent);
+    if (!ourStatus) {
+      log.warn('Unknown webhook event type');
+      return;
     }
 
-    // Update order status in database
-    await DatabaseService.updateOrderStatus(
+    // Duplicate deliveries (e.g. settled after validated) must not repeat side effects
+    const transition = evaluateTransition('paycrest', dbOrder.status, ourStatus);
+    const shouldCreateSettlement = ourStatus === 'completed' && transition === 'apply';
+
+    // Update order status in database - disallowed transitions are logged and left unchanged
+    const updatedOrder = await DatabaseService.updateOrderStatus(
       orderId,
       ourStatus,
       eventType, // Store the PayCrest event type as paycrest_status
@@ -203,10 +131,22 @@ async function handleWebhookEvent(event: PaycrestWebhookEvent) {
       }
     );
 
-    // Create settlement record for validated/settled orders
-    if (shouldCreateSettlement && (normalizedEvent === 'order.validated' || normalizedEvent === 'order.settled')) {
-      console.log(`💰 Creating settlement record for ${event.event}`);
+    if (transition === 'reject' || updatedOrder.status !== ourStatus) {
+      log.warn('Ignoring status update', { currentStatus: updatedOrder.status, transition });
+      return;
+    }
 
+    // Expired orders that received USDC need a refund case; PayCrest refunds close theirs
+    if (transition === 'apply' && (normalizedEvent === 'order.expired' || normalizedEvent === 'order.refunded')) {
+      try {
+        await handlePaycrestOrderClosed(dbOrder, normalizedEvent.replace('order.', ''), data.amountPaid);
+      } catch (refundError) {
+        log.error('Failed to update refund case', { error: refundError });
+      }
+    }
+
+    // Create settlement record for validated/settled orders
+    if (shouldCreateSettlement) {
       try {
         // Calculate settlement amount from webhook data
         const settlementAmount = parseFloat(data.amountPaid || data.amount || dbOrder.amount_in_local.toString());
@@ -219,9 +159,9 @@ async function handleWebhookEvent(event: PaycrestWebhookEvent) {
           settlement_method: dbOrder.carrier === 'MPESA' ? 'M-PESA' : 'Mobile Money',
           settled_at: new Date().toISOString()
         });
-        console.log(`✅ Settlement record created`);
+        log.info('Settlement record created', { settlementAmount });
       } catch (settlementError) {
-        console.error(`❌ Failed to create settlement:`, settlementError);
+        log.error('Failed to create settlement', { error: settlementError });
       }
     }
 
@@ -239,13 +179,13 @@ async function handleWebhookEvent(event: PaycrestWebhookEvent) {
         }
       );
     } catch (logError) {
-      console.error(`❌ Failed to log webhook event:`, logError);
+      log.error('Failed to log webhook event', { error: logError });
     }
 
-    console.log(`✅ Webhook event ${event.event} processed successfully`);
+    log.info('Webhook event processed', { newStatus: ourStatus });
 
   } catch (error) {
-    console.error(`❌ Error processing webhook:`, error);
+    log.error('Error processing webhook', { error });
     throw error;
   }
 }
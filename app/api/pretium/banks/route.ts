@@ -1,34 +1,13 @@
 import { NextResponse } from 'next/server';
-import { PRETIUM_CONFIG, getPretiumHeaders } from '@/lib/pretium/config';
+import { pretiumClient } from '@/lib/pretium/client';
+import type { PretiumApiError } from '@/lib/pretium/types';
 
 export async function GET() {
   try {
-    const response = await fetch(
-      `${PRETIUM_CONFIG.BASE_URL}/v1/banks`,
-      {
-        method: 'POST',
-        headers: getPretiumHeaders(),
-      }
-    );
-
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: 'Failed to fetch banks from Pretium' },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
-
-    if (data.code !== 200) {
-      return NextResponse.json(
-        { error: data.message || 'Failed to fetch banks' },
-        { status: data.code }
-      );
-    }
+    const data = await pretiumClient.getBanks();
 
     // Transform Pretium bank format to match our expected format
-    const banks = data.data.map((bank: { Code: string; Name: string }) => ({
+    const banks = data.data.map((bank) => ({
       code: bank.Code,
       name: bank.Name,
       type: 'BANK',
@@ -39,6 +18,15 @@ export async function GET() {
       institutions: banks,
     });
   } catch (error) {
+    // The client throws PretiumApiError for non-200 responses
+    const apiError = error as PretiumApiError;
+    if (typeof apiError?.code === 'number') {
+      return NextResponse.json(
+        { error: apiError.message || 'Failed to fetch banks from Pretium' },
+        { status: apiError.code >= 400 && apiError.code < 600 ? apiError.code : 502 }
+      );
+    }
+
     return NextResponse.json(
       {
         error: error instanceof Error ? error.message : 'Failed to fetch banks',
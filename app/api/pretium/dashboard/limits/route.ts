@@ -0,0 +1,78 @@
+/**
+ * API Route: Transaction Limits (admin)
+ * Reads and updates the thresholds the off-ramp limits engine enforces
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { DatabaseService } from '@/lib/supabase/config';
+import {
+  getTransactionLimitSettings,
+  saveTransactionLimitSettings,
+  parseTransactionLimitSettings,
+  OfframpError,
+} from '@/lib/offramp';
+import type { TransactionLimitsResponse } from '@/lib/types/limits';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('dashboard-limits');
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const [settings, record] = await Promise.all([
+      getTransactionLimitSettings(),
+      DatabaseService.getTransactionLimitSettings(),
+    ]);
+
+    const response: TransactionLimitsResponse = {
+      settings,
+      updatedAt: record?.updated_at,
+      updatedBy: record?.updated_by,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('Failed to fetch transaction limits', { error });
+    return NextResponse.json(
+      { error: 'Failed to fetch transaction limits' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { settings } = await request.json();
+    const record = await saveTransactionLimitSettings(parseTransactionLimitSettings(settings), session.username);
+
+    logger.info('Transaction limits updated', { username: session.username });
+
+    const response: TransactionLimitsResponse = {
+      settings: await getTransactionLimitSettings(),
+      updatedAt: record.updated_at,
+      updatedBy: record.updated_by,
+    };
+    return NextResponse.json({ success: true, ...response });
+  } catch (error) {
+    if (error instanceof OfframpError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Failed to save transaction limits', { error });
+    return NextResponse.json(
+      { error: 'Failed to save transaction limits' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * API Route: Refund Case (admin)
+ * Shows a refund with its order history and moves it through review and execution
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { DatabaseService } from '@/lib/supabase/config';
+import {
+  approveRefund,
+  rejectRefund,
+  executeBlockradarRefund,
+  recordOperatorTransfer,
+  RefundError,
+} from '@/lib/refunds';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('dashboard-refunds');
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { id } = await context.params;
+    const refund = await DatabaseService.getRefund(id);
+
+    if (!refund) {
+      return NextResponse.json({ error: 'Refund not found' }, { status: 404 });
+    }
+
+    const providerOrderId = refund.pretium_transaction_code || refund.paycrest_order_id;
+    const history = providerOrderId ? await DatabaseService.getOrderStatusHistory(providerOrderId) : [];
+
+    return NextResponse.json({ refund, history });
+  } catch (error) {
+    logger.error('Failed to fetch refund', { error });
+    return NextResponse.json(
+      { error: 'Failed to fetch refund' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/pretium/dashboard/refunds/[id]
+ * Body: { action: 'approve' | 'reject' | 'execute' | 'record_transfer', note?, txHash? }
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { id } = await context.params;
+    const { action, note, txHash } = await request.json();
+
+    logger.info('Refund action', { refundId: id, action, by: session.username });
+
+    let refund;
+    switch (action) {
+      case 'approve':
+        refund = await approveRefund(id, session.username, note);
+        break;
+      case 'reject':
+        refund = await rejectRefund(id, session.username, note);
+        break;
+      case 'execute':
+        refund = await executeBlockradarRefund(id);
+        break;
+      case 'record_transfer':
+        if (!txHash) {
+          return NextResponse.json({ error: 'txHash is required' }, { status: 400 });
+        }
+        refund = await recordOperatorTransfer(id, txHash, session.username);
+        break;
+      default:
+        return NextResponse.json(
+          { error: 'action must be approve, reject, execute or record_transfer' },
+          { status: 400 }
+        );
+    }
+
+    return NextResponse.json({ success: true, refund });
+  } catch (error) {
+    if (error instanceof RefundError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Refund action failed', { error });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Refund action failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * API Route: Refund Cases (admin)
+ * Lists refund cases for the dashboard and opens new ones by hand
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { DatabaseService, type Refund } from '@/lib/supabase/config';
+import { openManualRefund, RefundError } from '@/lib/refunds';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('dashboard-refunds');
+
+export const dynamic = 'force-dynamic';
+
+const REFUND_STATUSES: Refund['status'][] = ['open', 'approved', 'processing', 'completed', 'failed', 'rejected'];
+
+export async function GET(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const status = (searchParams.get('status')?.split(',') || [])
+      .filter((s): s is Refund['status'] => REFUND_STATUSES.includes(s as Refund['status']));
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+
+    const refunds = await DatabaseService.getRefunds({
+      status,
+      walletAddress: searchParams.get('wallet') || undefined,
+      limit,
+    });
+
+    return NextResponse.json({ refunds });
+  } catch (error) {
+    logger.error('Failed to fetch refunds', { error });
+    return NextResponse.json(
+      { error: 'Failed to fetch refunds' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { provider, orderId, reason, amountUsdc } = await request.json();
+
+    if (provider !== 'pretium' && provider !== 'paycrest') {
+      return NextResponse.json(
+        { error: 'provider must be pretium or paycrest' },
+        { status: 400 }
+      );
+    }
+
+    const refund = await openManualRefund({
+      provider,
+      orderId,
+      reason,
+      amountUsdc: amountUsdc !== undefined && amountUsdc !== '' ? Number(amountUsdc) : undefined,
+      createdBy: session.username,
+    });
+
+    return NextResponse.json({ success: true, refund });
+  } catch (error) {
+    if (error instanceof RefundError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Failed to open refund', { error });
+    return NextResponse.json(
+      { error: 'Failed to open refund' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * API Route: Payout Review (admin)
+ * Approves or rejects a payout held by risk screening
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { approvePayoutReview, rejectPayoutReview, OfframpError } from '@/lib/offramp';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('dashboard-reviews');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/pretium/dashboard/reviews/[id]
+ * Body: { action: 'approve' | 'reject', note?, refund?, denyList? }
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { id } = await context.params;
+    const { action, note, refund, denyList } = await request.json();
+
+    logger.info('Payout review action', { reviewId: id, action, username: session.username });
+
+    let review;
+    switch (action) {
+      case 'approve':
+        review = await approvePayoutReview(id, session.username, note);
+        break;
+      case 'reject':
+        review = await rejectPayoutReview(id, session.username, {
+          note,
+          refund: refund === true,
+          denyList: denyList === true,
+        });
+        break;
+      default:
+        return NextResponse.json(
+          { error: 'action must be approve or reject' },
+          { status: 400 }
+        );
+    }
+
+    return NextResponse.json({ success: true, review });
+  } catch (error) {
+    if (error instanceof OfframpError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Payout review action failed', { error });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Payout review action failed' },
+      { status: 500 }
+    );
+  }
+}
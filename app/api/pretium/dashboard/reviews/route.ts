@@ -0,0 +1,39 @@
+/**
+ * API Route: Payout Reviews (admin)
+ * Lists payouts held by risk screening
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { DatabaseService, type PayoutReview } from '@/lib/supabase/config';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('dashboard-reviews');
+
+export const dynamic = 'force-dynamic';
+
+const REVIEW_STATUSES: PayoutReview['status'][] = ['review', 'approved', 'rejected'];
+
+export async function GET(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const status = (searchParams.get('status')?.split(',') || [])
+      .filter((s): s is PayoutReview['status'] => REVIEW_STATUSES.includes(s as PayoutReview['status']));
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+
+    const reviews = await DatabaseService.getPayoutReviews({ status, limit });
+
+    return NextResponse.json({ reviews });
+  } catch (error) {
+    logger.error('Failed to fetch payout reviews', { error });
+    return NextResponse.json(
+      { error: 'Failed to fetch payout reviews' },
+      { status: 500 }
+    );
+  }
+}
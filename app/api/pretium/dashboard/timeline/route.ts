@@ -0,0 +1,136 @@
+/**
+ * API Route: Payment Timeline (admin)
+ * Everything recorded for one correlation ID - quote, orders, status changes,
+ * provider webhooks and server-side analytics events - in time order
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { DatabaseService, type CorrelationRecords } from '@/lib/supabase/config';
+import { isValidCorrelationId } from '@/lib/correlation';
+import type { CorrelationTimeline, TimelineEvent } from '@/lib/types/dashboard';
+
+export const dynamic = 'force-dynamic';
+
+function buildEvents(records: CorrelationRecords): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+
+  for (const quote of records.quotes) {
+    events.push({
+      at: quote.created_at,
+      source: 'quote',
+      provider: quote.provider,
+      title: `Quote locked: ${Number(quote.amount_usdc)} USDC → ${Number(quote.recipient_amount)} ${quote.currency}`,
+      detail: `Rate ${Number(quote.rate)}, expires ${quote.expires_at}`,
+    });
+    if (quote.redeemed_at) {
+      events.push({
+        at: quote.redeemed_at,
+        source: 'quote',
+        provider: quote.provider,
+        title: 'Quote redeemed',
+        detail: quote.order_reference ? `Order ${quote.order_reference}` : undefined,
+        orderId: quote.order_reference,
+      });
+    }
+  }
+
+  for (const order of records.pretiumOrders) {
+    events.push({
+      at: order.created_at,
+      source: 'order',
+      provider: 'pretium',
+      title: `Pretium ${order.payment_type} payout created (${order.status})`,
+      detail: `${Number(order.amount_in_usdc)} USDC → ${Number(order.amount_in_local)} ${order.local_currency}`,
+      orderId: order.transaction_code,
+    });
+  }
+
+  for (const order of records.paycrestOrders) {
+    events.push({
+      at: order.created_at,
+      source: 'order',
+      provider: 'paycrest',
+      title: `Paycrest order created (${order.status})`,
+      detail: `${Number(order.amount_in_usdc)} USDC → ${Number(order.amount_in_local)} ${order.local_currency}`,
+      orderId: order.paycrest_order_id,
+    });
+  }
+
+  for (const entry of records.statusHistory) {
+    events.push({
+      at: entry.created_at,
+      source: 'status',
+      provider: entry.provider,
+      title: entry.old_status || entry.new_status
+        ? `${entry.event}: ${entry.old_status || '-'} → ${entry.new_status || '-'}`
+        : entry.event,
+      detail: entry.reason,
+      orderId: entry.provider_order_id,
+    });
+  }
+
+  for (const webhook of records.pretiumWebhookEvents) {
+    events.push({
+      at: webhook.received_at,
+      source: 'webhook',
+      provider: 'pretium',
+      title: `Pretium webhook: ${webhook.status || 'unknown'} (${webhook.processing_status})`,
+      detail: webhook.processing_note,
+      orderId: webhook.transaction_code,
+    });
+  }
+
+  for (const webhook of records.paycrestWebhookEvents) {
+    events.push({
+      at: webhook.created_at,
+      source: 'webhook',
+      provider: 'paycrest',
+      title: `Paycrest webhook: ${webhook.event_type}`,
+      orderId: webhook.paycrest_order_id,
+    });
+  }
+
+  for (const event of records.analyticsEvents) {
+    events.push({
+      at: event.created_at,
+      source: 'analytics',
+      title: event.event_name,
+    });
+  }
+
+  return events.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
+
+export async function GET(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const correlationId = request.nextUrl.searchParams.get('id');
+  if (!isValidCorrelationId(correlationId)) {
+    return NextResponse.json({ error: 'A valid correlation ID is required' }, { status: 400 });
+  }
+
+  try {
+    const records = await DatabaseService.getCorrelationRecords(correlationId);
+
+    const timeline: CorrelationTimeline = {
+      correlationId,
+      orderIds: [
+        ...records.pretiumOrders.map((order) => order.transaction_code),
+        ...records.paycrestOrders.map((order) => order.paycrest_order_id),
+      ],
+      events: buildEvents(records),
+    };
+
+    return NextResponse.json(timeline);
+  } catch (error) {
+    console.error('Error fetching payment timeline:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch payment timeline' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,474 +1,92 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { pretiumClient } from '@/lib/pretium/client';
-import { PRETIUM_CONFIG, isCurrencySupported } from '@/lib/pretium/config';
-import { DatabaseService } from '@/lib/supabase/config';
-import { formatPhoneNumber, formatTillNumber } from '@/lib/utils/tillValidator';
-import { formatGhanaPhoneNumber } from '@/lib/utils/ghanaValidator';
-import { formatUgandaPhoneNumber } from '@/lib/utils/ugandaValidator';
-import { detectKenyanCarrier } from '@/lib/utils/phoneCarrier';
-import { detectGhanaNetwork } from '@/lib/utils/ghanaNetworkDetector';
-import { detectUgandaNetwork } from '@/lib/utils/ugandaNetworkDetector';
-import type { PretiumDisburseRequest, PretiumPaymentType } from '@/lib/pretium/types';
+import { pretiumProvider, createQuotedPayout, rejectClientRate, OfframpError, parseOptionalNumber } from '@/lib/offramp';
+import { withIdempotency } from '@/lib/security/idempotency';
+import { withRateLimit } from '@/lib/security/rate-limit';
+import { createLogger, getRequestCorrelationId, withCorrelationId } from '@/lib/logger';
+
+const logger = createLogger('pretium-disburse');
 
 /**
- * Pretium Disburse Endpoint - Rebuilt from scratch following official docs
+ * Pretium Disburse Endpoint - pinned to the Pretium off-ramp provider
  *
  * Flow:
- * 1. Validate input and calculate amounts
+ * 1. Redeem the quote (from /api/quotes), verify the on-chain USDC deposit
  * 2. Call Pretium API /v1/pay/{currency}
  * 3. IMMEDIATELY save transaction_code to database (critical!)
  * 4. Return success to frontend
  * 5. Webhook will update status when complete
  *
- * Reference: docs/offramp.md, docs/fee.md, docs/webhooks.md
+ * The payout logic lives in lib/offramp/providers/pretium.ts; /api/offramp
+ * routes between providers. Reference: docs/offramp.md, docs/fee.md, docs/webhooks.md
  */
 export async function POST(request: NextRequest) {
   const requestId = `disburse_${Date.now()}`; // Unique ID for tracking this request
 
+  // Every log line written while handling this request carries the payment's correlation ID
+  // (X-Correlation-Id from the client), or the requestId when the client sent none
+  const correlationId = getRequestCorrelationId(request, requestId);
+  return withCorrelationId(correlationId, () => handleDisburse(request, requestId, correlationId));
+}
+
+async function handleDisburse(request: NextRequest, requestId: string, correlationId: string) {
   try {
-    console.log('='.repeat(80));
-    console.log(`[${requestId}] DISBURSEMENT REQUEST INITIATED`);
-    console.log('='.repeat(80));
+    logger.info('Disbursement request initiated');
 
     const body = await request.json();
-    console.log(`[${requestId}] Request body:`, JSON.stringify(body, null, 2));
-
-    // ========================================================================
-    // STEP 1: VALIDATE INPUT & EXTRACT PARAMETERS
-    // ========================================================================
-
-    const {
-      amount,
-      localAmount,
-      phoneNumber,
-      tillNumber,
-      paybillNumber,
-      paybillAccount,
-      accountName,
-      transactionHash,
-      returnAddress,
-      fid,
-      currency = 'KES',
-      // NGN-specific fields
-      accountNumber: ngnAccountNumber,
-      bankCode,
-      bankName,
-    } = body;
-
-    // Validate currency
-    if (!isCurrencySupported(currency)) {
-      console.error(`[${requestId}] Unsupported currency: ${currency}`);
-      return NextResponse.json(
-        { error: `Currency ${currency} not supported. Supported: KES, GHS, NGN, UGX` },
-        { status: 400 }
-      );
-    }
-
-    // Validate required fields
-    if (!amount || !accountName || !transactionHash || !returnAddress) {
-      console.error(`[${requestId}] Missing required fields`);
-      return NextResponse.json(
-        { error: 'Missing required: amount, accountName, transactionHash, returnAddress' },
-        { status: 400 }
-      );
-    }
-
-    // Normalize amount to 2 decimal places
-    const amountNum = Math.round(parseFloat(amount) * 100) / 100;
-    if (isNaN(amountNum) || amountNum <= 0) {
-      console.error(`[${requestId}] Invalid amount: ${amount}`);
-      return NextResponse.json(
-        { error: 'Invalid amount: must be positive number' },
-        { status: 400 }
-      );
-    }
-
-    console.log(`[${requestId}] Validated input:`, {
-      currency,
-      amount: amountNum,
-      wallet: returnAddress,
-      txHash: transactionHash
-    });
-
-    // ========================================================================
-    // STEP 2: DETERMINE PAYMENT TYPE & FORMAT RECIPIENT DETAILS
-    // ========================================================================
-
-    let paymentType: PretiumPaymentType;
-    let shortcode: string | undefined;
-    let accountNumber: string | undefined;
-    let mobileNetwork: string | undefined;
-
-    if (currency === 'NGN') {
-      // NGN Bank Transfers
-      if (!ngnAccountNumber || !bankCode || !bankName) {
-        console.error(`[${requestId}] NGN missing bank details`);
-        return NextResponse.json(
-          { error: 'NGN requires: accountNumber, bankCode, bankName' },
-          { status: 400 }
-        );
-      }
-
-      paymentType = 'BANK_TRANSFER';
-      const cleanedAccountNumber = ngnAccountNumber.replace(/\D/g, ''); // Clean to digits only
-      accountNumber = cleanedAccountNumber;
-
-      // Validate account number format
-      if (cleanedAccountNumber.length < 10 || cleanedAccountNumber.length > 11) {
-        console.error(`[${requestId}] Invalid NGN account number length: ${cleanedAccountNumber.length}`);
-        return NextResponse.json(
-          { error: 'Invalid NGN account number (must be 10-11 digits)' },
-          { status: 400 }
-        );
-      }
-
-      console.log(`[${requestId}] NGN Bank Transfer:`, {
-        accountNumber,
-        bankCode,
-        bankName
-      });
-
-    } else if (tillNumber && currency === 'KES') {
-      // KES Till/Buy Goods
-      paymentType = 'BUY_GOODS';
-      shortcode = formatTillNumber(tillNumber);
-      mobileNetwork = 'Safaricom';
-      console.log(`[${requestId}] KES Buy Goods: ${shortcode}`);
-
-    } else if (paybillNumber && paybillAccount && currency === 'KES') {
-      // KES Paybill
-      paymentType = 'PAYBILL';
-      shortcode = paybillNumber;
-      accountNumber = paybillAccount;
-      mobileNetwork = 'Safaricom';
-      console.log(`[${requestId}] KES Paybill: ${shortcode}/${accountNumber}`);
-
-    } else if (phoneNumber) {
-      // Mobile Money
-      paymentType = 'MOBILE';
-
-      if (currency === 'KES') {
-        const formattedPhone = formatPhoneNumber(phoneNumber); // Returns 254XXXXXXXXX
-        const carrier = detectKenyanCarrier(formattedPhone);
-        mobileNetwork = carrier === 'SAFARICOM' ? 'Safaricom' : carrier === 'AIRTEL' ? 'Airtel' : 'Safaricom';
-        // Convert to local format (0XXXXXXXXX) as required by Pretium API
-        shortcode = '0' + formattedPhone.substring(3);
-      } else if (currency === 'GHS') {
-        const formattedPhone = formatGhanaPhoneNumber(phoneNumber); // Returns 233XXXXXXXXX
-        const network = detectGhanaNetwork(formattedPhone);
-        mobileNetwork = network === 'MTN' ? 'MTN' : network === 'VODAFONE' ? 'Vodafone' : network === 'AIRTELTIGO' ? 'AirtelTigo' : 'MTN';
-        // Convert to local format (0XXXXXXXXX) as required by Pretium API
-        shortcode = '0' + formattedPhone.substring(3);
-      } else if (currency === 'UGX') {
-        const formattedPhone = formatUgandaPhoneNumber(phoneNumber); // Returns 256XXXXXXXXX
-        const network = detectUgandaNetwork(formattedPhone);
-        mobileNetwork = network === 'MTN' ? 'MTN' : network === 'AIRTEL' ? 'Airtel' : 'MTN';
-        // Convert to local format (0XXXXXXXXX) as required by Pretium API
-        shortcode = '0' + formattedPhone.substring(3);
-      } else {
-        console.error(`[${requestId}] Phone number not supported for ${currency}`);
-        return NextResponse.json(
-          { error: `${currency} does not support phone number payments` },
-          { status: 400 }
-        );
-      }
-
-      console.log(`[${requestId}] ${currency} Mobile: ${shortcode} (${mobileNetwork})`);
-
-    } else {
-      console.error(`[${requestId}] No valid payment method provided`);
-      return NextResponse.json(
-        { error: 'Must provide: phoneNumber, tillNumber, paybillNumber+account, or accountNumber+bankCode' },
-        { status: 400 }
-      );
-    }
-
-    // ========================================================================
-    // STEP 3: GET EXCHANGE RATE
-    // ========================================================================
-
-    console.log(`[${requestId}] Fetching ${currency} exchange rate...`);
-    const rateResponse = await pretiumClient.getExchangeRate(currency);
-
-    if (rateResponse.code !== 200) {
-      console.error(`[${requestId}] Failed to fetch exchange rate:`, rateResponse);
-      return NextResponse.json(
-        { error: 'Failed to fetch exchange rate' },
-        { status: 500 }
-      );
-    }
-
-    const exchangeRate = rateResponse.data.buying_rate;
-    console.log(`[${requestId}] Exchange rate: 1 USDC = ${exchangeRate} ${currency}`);
-
-    // ========================================================================
-    // STEP 4: CALCULATE AMOUNTS PER PRETIUM DOCS (docs/fee.md)
-    // - User wants to receive X KES → fee = ceil(X * 0.01) → amount = X + fee
-    // - Send: { amount: X + fee, fee: fee }
-    // - Pretium sends X to recipient, credits fee to our fiat wallet
-    //
-    // We use the exact localAmount from the frontend (what the user wants to
-    // receive) to avoid floating-point rounding errors from USDC↔KES conversion.
-    // ========================================================================
-
-    const totalLocalFromUSdc = Math.round(amountNum * exchangeRate);
-
-    let recipientAmount: number;
-    let feeAmount: number;
-    let totalForPretium: number;
-
-    if (localAmount && !isNaN(parseFloat(localAmount))) {
-      // Use exact local amount from frontend — no rounding errors
-      recipientAmount = Math.round(parseFloat(localAmount));
-      feeAmount = Math.ceil(recipientAmount * 0.01);
-      totalForPretium = recipientAmount + feeAmount;
-    } else {
-      // Fallback: derive from USDC (legacy, less accurate)
-      recipientAmount = Math.round(totalLocalFromUSdc / 1.01);
-      feeAmount = totalLocalFromUSdc - recipientAmount;
-      totalForPretium = totalLocalFromUSdc;
-    }
-
-    console.log(`[${requestId}] Amount calculation:`, {
-      usdc: amountNum,
-      rate: exchangeRate,
-      total_local_from_usdc: totalLocalFromUSdc,
-      local_amount_from_frontend: localAmount || 'not provided',
-      recipient_gets: recipientAmount,
-      platform_fee: feeAmount,
-      total_for_pretium: totalForPretium,
-      fee_percentage: ((feeAmount / totalForPretium) * 100).toFixed(2) + '%'
-    });
-
-    // ========================================================================
-    // STEP 5: BUILD PRETIUM API REQUEST PER OFFICIAL DOCS
-    // Reference: docs/offramp.md
-    // ========================================================================
-
-    let disburseRequest: PretiumDisburseRequest;
-
-    if (currency === 'NGN' && paymentType === 'BANK_TRANSFER') {
-      // NGN Bank Transfer - TESTING WITHOUT FEE FIRST
-      // If Pretium docs don't show account_name for NGN, maybe we shouldn't send it?
-      disburseRequest = {
-        type: paymentType,
-        account_name: accountName, // Keeping this as it's standard
-        amount: recipientAmount.toString(), // Send only recipient amount (no fee for now)
-        // fee: feeAmount.toString(), // OMITTED - testing if this causes issues
-        chain: PRETIUM_CONFIG.CHAIN,
-        transaction_hash: transactionHash,
-        callback_url: PRETIUM_CONFIG.WEBHOOK_URL,
-        account_number: accountNumber!,
-        bank_code: bankCode!,
-        bank_name: bankName!,
-      };
-
-      console.log(`[${requestId}] NGN Request (fee omitted):`, JSON.stringify(disburseRequest, null, 2));
-
-    } else {
-      // KES/GHS/UGX Mobile Money - Follow docs exactly
-      disburseRequest = {
-        type: paymentType,
-        account_name: accountName,
-        amount: totalForPretium.toString(), // Total including fee
-        fee: feeAmount.toString(), // Fee to be credited to our wallet
-        chain: PRETIUM_CONFIG.CHAIN,
-        transaction_hash: transactionHash,
-        callback_url: PRETIUM_CONFIG.WEBHOOK_URL,
-        shortcode: shortcode!,
-        mobile_network: mobileNetwork!,
-        ...(accountNumber && { account_number: accountNumber }), // For PAYBILL
-      };
-
-      console.log(`[${requestId}] ${currency} Request (with fee):`, JSON.stringify(disburseRequest, null, 2));
-    }
-
-    // ========================================================================
-    // STEP 6: CALL PRETIUM API
-    // ========================================================================
-
-    console.log(`[${requestId}] Calling Pretium API: POST /v1/pay/${currency}`);
-    let pretiumResponse;
-
-    try {
-      pretiumResponse = await pretiumClient.disburse(disburseRequest, currency);
-      console.log(`[${requestId}] Pretium API success:`, JSON.stringify(pretiumResponse, null, 2));
-    } catch (error) {
-      console.error('='.repeat(80));
-      console.error(`[${requestId}] PRETIUM API ERROR`);
-      console.error('='.repeat(80));
-      console.error(`[${requestId}] Error:`, error);
-      console.error(`[${requestId}] Request that failed:`, JSON.stringify(disburseRequest, null, 2));
-      console.error('='.repeat(80));
-
-      const pretiumError = error as { message?: string; data?: unknown; code?: number };
-      return NextResponse.json(
-        {
-          error: pretiumError.message || 'Pretium API error',
-          details: pretiumError.data || {},
-          requestId
-        },
-        { status: pretiumError.code || 500 }
-      );
-    }
-
-    // Validate response code
-    if (pretiumResponse.code !== 200) {
-      console.error('='.repeat(80));
-      console.error(`[${requestId}] PRETIUM RETURNED NON-200 CODE`);
-      console.error('='.repeat(80));
-      console.error(`[${requestId}] Response:`, JSON.stringify(pretiumResponse, null, 2));
-      console.error('='.repeat(80));
-
-      return NextResponse.json(
-        {
-          error: pretiumResponse.message || 'Pretium request failed',
-          details: pretiumResponse.data,
-          requestId
-        },
-        { status: pretiumResponse.code }
-      );
-    }
-
-    const { transaction_code, status, message } = pretiumResponse.data;
+    rejectClientRate(body);
+
+    // A replayed Idempotency-Key returns the original disbursement instead of paying out twice
+    return await withIdempotency(request, 'pretium_disburse', body, () =>
+      withRateLimit(request, 'pretium_disburse', { wallet: body.returnAddress }, async () => {
+        // Rate, recipient amount and fee come from the quote, never from the request
+        const result = await createQuotedPayout(pretiumProvider, body.quoteId, {
+          requestId,
+          correlationId,
+          currency: body.currency, // Defaults to the quote's currency
+          amountUSDC: parseOptionalNumber(body.amount),
+          recipient: {
+            accountName: body.accountName,
+            phoneNumber: body.phoneNumber,
+            tillNumber: body.tillNumber,
+            paybillNumber: body.paybillNumber,
+            paybillAccount: body.paybillAccount,
+            accountNumber: body.accountNumber,
+            bankCode: body.bankCode,
+            bankName: body.bankName,
+          },
+          returnAddress: body.returnAddress,
+          transactionHash: body.transactionHash,
+          fid: body.fid,
+        });
+
+        return NextResponse.json({
+          success: true,
+          ...(result.warning && { warning: result.warning }),
+          transactionCode: result.orderId,
+          status: result.providerStatus,
+          message: result.raw.message,
+          requestId,
+          totalAmount: result.raw.total_local_amount,
+          recipientAmount: result.recipientAmount,
+          feeAmount: result.fee,
+          exchangeRate: result.rate,
+          quoteId: body.quoteId,
+          settlementAddress: result.raw.settlement_address,
+          chain: result.raw.chain,
+          token: result.raw.token,
+        });
+      })
+    );
 
-    if (!transaction_code) {
-      console.error(`[${requestId}] CRITICAL: No transaction_code in response!`);
+  } catch (error) {
+    if (error instanceof OfframpError) {
       return NextResponse.json(
-        { error: 'No transaction code received from Pretium', requestId },
-        { status: 500 }
+        { ...error.toResponseBody(), requestId },
+        { status: error.statusCode }
       );
     }
 
-    console.log('='.repeat(80));
-    console.log(`[${requestId}] PRETIUM SUCCESS - Transaction Code: ${transaction_code}`);
-    console.log('='.repeat(80));
-
-    // ========================================================================
-    // STEP 7: SAVE TO DATABASE IMMEDIATELY
-    // THIS IS CRITICAL - Must happen before returning to frontend!
-    // ========================================================================
-
-    console.log(`[${requestId}] Saving to database...`);
-
-    try {
-      // Ensure user exists
-      let user = await DatabaseService.getUserByWallet(returnAddress);
-      if (!user) {
-        console.log(`[${requestId}] Creating new user for wallet: ${returnAddress}`);
-        user = await DatabaseService.createUser(
-          returnAddress,
-          paymentType === 'MOBILE' ? shortcode : ''
-        );
-        console.log(`[${requestId}] User created: ${user.id}`);
-      } else {
-        console.log(`[${requestId}] Existing user found: ${user.id}`);
-      }
-
-      // Create order record
-      console.log(`[${requestId}] Creating Pretium order record...`);
-      const createdOrder = await DatabaseService.createPretiumOrder({
-        transactionCode: transaction_code,
-        userId: user.id,
-        walletAddress: returnAddress,
-        amountInUsdc: amountNum,
-        amountInLocal: recipientAmount,
-        currency: currency as 'KES' | 'GHS' | 'NGN' | 'UGX',
-        phoneNumber: paymentType === 'MOBILE' ? shortcode : undefined,
-        tillNumber: paymentType === 'BUY_GOODS' ? shortcode : undefined,
-        paybillNumber: paymentType === 'PAYBILL' ? shortcode : undefined,
-        paybillAccount: paymentType === 'PAYBILL' ? accountNumber : undefined,
-        accountNumber: paymentType === 'BANK_TRANSFER' ? accountNumber : undefined,
-        bankCode: currency === 'NGN' ? bankCode : undefined,
-        bankName: currency === 'NGN' ? bankName : undefined,
-        accountName: accountName,
-        rate: exchangeRate,
-        transactionHash: transactionHash,
-        status: 'pending',
-        pretiumStatus: status,
-        fee: feeAmount,
-        fid,
-        mobileNetwork: mobileNetwork,
-        settlementAddress: PRETIUM_CONFIG.SETTLEMENT_ADDRESS,
-        callbackUrl: PRETIUM_CONFIG.WEBHOOK_URL,
-        rawDisburseRequest: JSON.parse(JSON.stringify(disburseRequest)) as Record<string, unknown>,
-        rawDisburseResponse: JSON.parse(JSON.stringify(pretiumResponse.data)) as Record<string, unknown>,
-      });
-
-      console.log('='.repeat(80));
-      console.log(`[${requestId}] DATABASE SAVE SUCCESS`);
-      console.log('='.repeat(80));
-      console.log(`[${requestId}] Order ID: ${createdOrder.id}`);
-      console.log(`[${requestId}] Transaction Code: ${createdOrder.transaction_code}`);
-      console.log('='.repeat(80));
-
-      // Log analytics event
-      await DatabaseService.logAnalyticsEvent('pretium_disburse_initiated', returnAddress, {
-        request_id: requestId,
-        transaction_code,
-        amount_usdc: amountNum,
-        amount_local_total: totalLocalFromUSdc,
-        recipient_amount: recipientAmount,
-        fee_amount: feeAmount,
-        payment_type: paymentType,
-        currency,
-      });
-
-    } catch (dbError) {
-      // DATABASE SAVE FAILED - THIS IS CRITICAL!
-      console.error('='.repeat(80));
-      console.error(`[${requestId}] CRITICAL: DATABASE SAVE FAILED`);
-      console.error('='.repeat(80));
-      console.error(`[${requestId}] Error:`, dbError);
-      console.error(`[${requestId}] Transaction Code: ${transaction_code}`);
-      console.error(`[${requestId}] Wallet: ${returnAddress}`);
-      console.error(`[${requestId}] Amount: ${amountNum} USDC`);
-      console.error('='.repeat(80));
-      console.error(`[${requestId}] PAYMENT WILL COMPLETE BUT WON'T BE TRACKED!`);
-      console.error('='.repeat(80));
-
-      // Still return success to user since Pretium accepted the payment
-      // But log this heavily so we can manually track it
-      return NextResponse.json({
-        success: true,
-        warning: 'Payment initiated but tracking failed - contact support',
-        transactionCode: transaction_code,
-        status,
-        message,
-        requestId,
-        totalAmount: totalLocalFromUSdc,
-        recipientAmount,
-        feeAmount,
-        exchangeRate,
-        settlementAddress: PRETIUM_CONFIG.SETTLEMENT_ADDRESS,
-      });
-    }
-
-    // ========================================================================
-    // STEP 8: RETURN SUCCESS
-    // ========================================================================
-
-    console.log(`[${requestId}] Returning success to frontend`);
-    return NextResponse.json({
-      success: true,
-      transactionCode: transaction_code,
-      status,
-      message,
-      requestId,
-      totalAmount: totalLocalFromUSdc,
-      recipientAmount,
-      feeAmount,
-      exchangeRate,
-      settlementAddress: PRETIUM_CONFIG.SETTLEMENT_ADDRESS,
-    });
-
-  } catch (error) {
-    console.error('='.repeat(80));
-    console.error(`[${requestId}] UNEXPECTED ERROR`);
-    console.error('='.repeat(80));
-    console.error(`[${requestId}] Error:`, error);
-    console.error(`[${requestId}] Stack:`, error instanceof Error ? error.stack : 'No stack');
-    console.error('='.repeat(80));
+    logger.error('Unexpected error', { error });
 
     return NextResponse.json(
       {
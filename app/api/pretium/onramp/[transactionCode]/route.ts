@@ -0,0 +1,45 @@
+/**
+ * API Route: Pretium On-ramp Order
+ * Status of a single on-ramp order, polled by the deposit screen
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOnrampOrder, getOnrampWallet, OnrampError } from '@/lib/onramp';
+import { authenticateUser, UserAuthError } from '@/lib/user-auth';
+import { withRateLimit } from '@/lib/security/rate-limit';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('pretium-onramp');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/pretium/onramp/:transactionCode
+ *   Authorization: Bearer <Privy or wallet session token> of the order's owner
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ transactionCode: string }> }
+) {
+  const { transactionCode } = await params;
+  return withRateLimit(request, 'onramp_orders', {}, () => handleGetOrder(request, transactionCode));
+}
+
+async function handleGetOrder(request: NextRequest, transactionCode: string) {
+  try {
+    const wallet = await getOnrampWallet(await authenticateUser(request));
+    const order = await getOnrampOrder(transactionCode, wallet);
+
+    return NextResponse.json({ order });
+  } catch (error) {
+    if (error instanceof OnrampError || error instanceof UserAuthError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Failed to fetch on-ramp order', { error });
+    return NextResponse.json(
+      { error: 'Failed to fetch on-ramp order' },
+      { status: 500 }
+    );
+  }
+}
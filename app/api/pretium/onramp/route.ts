@@ -0,0 +1,115 @@
+/**
+ * API Route: Pretium On-ramp
+ * Buy USDC with mobile money. Pretium sends the payer a payment prompt and,
+ * once they pay, releases the USDC on Base to their wallet - the webhook
+ * tracks both steps
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createOnrampOrder,
+  getOnrampPayerKey,
+  getOnrampQuote,
+  getOnrampWallet,
+  listOnrampOrders,
+  OnrampError,
+} from '@/lib/onramp';
+import { authenticateUser, UserAuthError } from '@/lib/user-auth';
+import { withIdempotency } from '@/lib/security/idempotency';
+import { withRateLimit } from '@/lib/security/rate-limit';
+import { createLogger, getRequestCorrelationId, withCorrelationId } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const logger = createLogger('pretium-onramp');
+
+/**
+ * GET /api/pretium/onramp?currency=KES&amount=1000  → quote
+ * GET /api/pretium/onramp                           → the signed-in user's recent orders
+ *   (Authorization: Bearer <Privy or wallet session token>)
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  if (!params.has('currency')) {
+    return withRateLimit(request, 'onramp_orders', {}, () => handleListOrders(request));
+  }
+  return withRateLimit(request, 'quotes', {}, () => handleQuote(params.get('currency'), params.get('amount')));
+}
+
+/**
+ * POST /api/pretium/onramp
+ * Body: { currency: KES | GHS | UGX, amount, phoneNumber, fid? }
+ *   amount is the local currency to pay, fee included. Requires a session; the USDC
+ *   goes to the signed-in wallet, or a Privy user's Minisend wallet
+ */
+export async function POST(request: NextRequest) {
+  const correlationId = getRequestCorrelationId(request, `onramp_${Date.now()}`);
+  return withCorrelationId(correlationId, () => handleCreateOrder(request, correlationId));
+}
+
+async function handleQuote(currency: string | null, amount: string | null) {
+  try {
+    const quote = await getOnrampQuote(currency, amount);
+
+    return NextResponse.json({ quote });
+  } catch (error) {
+    if (error instanceof OnrampError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Failed to quote on-ramp', { error });
+    return NextResponse.json(
+      { error: 'Failed to get on-ramp quote' },
+      { status: 500 }
+    );
+  }
+}
+
+async function handleListOrders(request: NextRequest) {
+  try {
+    const wallet = await getOnrampWallet(await authenticateUser(request));
+    const orders = await listOnrampOrders(wallet);
+
+    return NextResponse.json({ orders });
+  } catch (error) {
+    if (error instanceof OnrampError || error instanceof UserAuthError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Failed to list on-ramp orders', { error });
+    return NextResponse.json(
+      { error: 'Failed to fetch on-ramp orders' },
+      { status: 500 }
+    );
+  }
+}
+
+async function handleCreateOrder(request: NextRequest, correlationId: string) {
+  try {
+    const wallet = await getOnrampWallet(await authenticateUser(request));
+    const body = await request.json();
+    const phone = getOnrampPayerKey(body.currency, body.phoneNumber);
+
+    // A replayed Idempotency-Key returns the original order instead of prompting the payer twice
+    return await withIdempotency(request, 'pretium_onramp', body, () =>
+      withRateLimit(request, 'onramp', {}, () =>
+        withRateLimit(request, 'onramp_payer', { phone }, async () => {
+          const order = await createOnrampOrder(wallet, body, correlationId);
+
+          return NextResponse.json({ success: true, order }, { status: 201 });
+        })
+      )
+    );
+  } catch (error) {
+    if (error instanceof OnrampError || error instanceof UserAuthError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Failed to create on-ramp order', { error });
+    return NextResponse.json(
+      { error: 'Failed to start the mobile money payment' },
+      { status: 500 }
+    );
+  }
+}
@@ -99,7 +99,9 @@ export async function GET(
       fee: order.sender_fee || 0,
       date: dateTime,
       walletAddress: order.wallet_address,
-      txHash: transactionHash
+      txHash: transactionHash,
+      chain: 'chain' in order ? order.chain : undefined,
+      token: order.token
     });
 
     // Convert blob to buffer for Next.js response
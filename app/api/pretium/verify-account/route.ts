@@ -1,10 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PRETIUM_CONFIG, getPretiumHeaders } from '@/lib/pretium/config';
+import { pretiumClient } from '@/lib/pretium/client';
+import type { PretiumApiError, PretiumValidationResponse } from '@/lib/pretium/types';
+import { withRateLimit } from '@/lib/security/rate-limit';
+import { cacheVerifiedName } from '@/lib/recipients';
 
 export async function POST(request: NextRequest) {
+  return withRateLimit(request, 'verify_account', {}, () => handleVerifyAccount(request));
+}
+
+async function handleVerifyAccount(request: NextRequest) {
   try {
     const body = await request.json();
-    const { accountNumber, bankCode } = body;
+    const { accountNumber, bankCode, owner } = body;
 
     // Validate required fields
     if (!accountNumber || !bankCode) {
@@ -24,37 +31,33 @@ export async function POST(request: NextRequest) {
     }
 
     // Call Pretium validation API
-    const validationResponse = await fetch(
-      `${PRETIUM_CONFIG.BASE_URL}/v1/validation/NGN`,
-      {
-        method: 'POST',
-        headers: getPretiumHeaders(),
-        body: JSON.stringify({
-          account_number: cleanAccount,
-          bank_code: bankCode,
-        }),
-      }
-    );
-
-    if (!validationResponse.ok) {
+    let validationData: PretiumValidationResponse;
+    try {
+      validationData = await pretiumClient.validateAccount('NGN', {
+        account_number: cleanAccount,
+        bank_code: bankCode,
+      });
+    } catch (error) {
       // If validation API fails, return error
+      const { code } = error as PretiumApiError;
       return NextResponse.json(
         {
           success: false,
           error: 'Failed to validate account with Pretium',
         },
-        { status: validationResponse.status }
+        { status: code >= 400 && code < 600 ? code : 502 }
       );
     }
 
-    const validationData = await validationResponse.json();
-
     // Check if validation was successful
     if (validationData.code === 200 && validationData.data) {
       const { account_name, bank_name, status } = validationData.data;
 
       // Check if account validation was successful
       if (status === 'COMPLETE' && account_name) {
+        // Remember the name on the caller's saved recipient, if they have one
+        await cacheVerifiedName(owner, { accountNumber: cleanAccount, bankCode }, account_name.trim());
+
         return NextResponse.json({
           success: true,
           isValid: true,
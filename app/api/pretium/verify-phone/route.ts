@@ -5,12 +5,19 @@ import { formatUgandaPhoneNumber } from '@/lib/utils/ugandaValidator';
 import { detectKenyanCarrier } from '@/lib/utils/phoneCarrier';
 import { detectGhanaNetwork } from '@/lib/utils/ghanaNetworkDetector';
 import { detectUgandaNetwork } from '@/lib/utils/ugandaNetworkDetector';
-import { PRETIUM_CONFIG, getPretiumHeaders, isCurrencySupported } from '@/lib/pretium/config';
+import { isCurrencySupported } from '@/lib/pretium/config';
+import { pretiumClient } from '@/lib/pretium/client';
+import { withRateLimit } from '@/lib/security/rate-limit';
+import { cacheVerifiedName } from '@/lib/recipients';
 
 export async function POST(request: NextRequest) {
+  return withRateLimit(request, 'verify_phone', {}, () => handleVerifyPhone(request));
+}
+
+async function handleVerifyPhone(request: NextRequest) {
   try {
     const body = await request.json();
-    const { phoneNumber, tillNumber, paybillNumber, type, currency = 'KES' } = body;
+    const { phoneNumber, tillNumber, paybillNumber, type, currency = 'KES', owner } = body;
 
     // Validate currency is supported
     if (!isCurrencySupported(currency)) {
@@ -191,35 +198,13 @@ export async function POST(request: NextRequest) {
 
     // Call Pretium validation API
     try {
-      const validationPayload = {
+      // The client throws when the validation API fails - handled below
+      // with basic validation, as the docs mention reliability varies
+      const validationData = await pretiumClient.validateAccount(currency, {
         type: type,
         shortcode: shortcode,
         mobile_network: mobileNetwork
-      };
-
-      const validationResponse = await fetch(
-        `${PRETIUM_CONFIG.BASE_URL}/v1/validation/${currency}`,
-        {
-          method: 'POST',
-          headers: getPretiumHeaders(),
-          body: JSON.stringify(validationPayload),
-        }
-      );
-
-      if (!validationResponse.ok) {
-        // If validation API fails, return basic validation success
-        // This is because the docs mention reliability varies
-        return NextResponse.json({
-          success: true,
-          isValid: true,
-          formattedNumber,
-          message: 'Phone number format validated',
-          accountName: null, // Let user enter manually
-          verified: false
-        });
-      }
-
-      const validationData = await validationResponse.json();
+      });
 
       // Check if we got account name from Pretium
       if (validationData.code === 200 && validationData.data) {
@@ -227,6 +212,11 @@ export async function POST(request: NextRequest) {
 
         // If we got a valid public name from Pretium
         if (publicName && publicName.trim() && validationData.data.status !== 'FAILED') {
+          // Remember the name on the caller's saved recipient, if they have one
+          if (phoneNumber) {
+            await cacheVerifiedName(owner, { phoneNumber }, publicName.trim());
+          }
+
           return NextResponse.json({
             success: true,
             isValid: true,
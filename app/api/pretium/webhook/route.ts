@@ -1,49 +1,142 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { DatabaseService } from '@/lib/supabase/config';
+import { DatabaseService, type PretiumWebhookEvent } from '@/lib/supabase/config';
+import {
+  verifyPretiumWebhook,
+  getPretiumWebhookDedupKey,
+  PRETIUM_SIGNATURE_HEADER,
+  PRETIUM_TIMESTAMP_HEADER,
+} from '@/lib/pretium/webhook-security';
+import { getClientIdentifier } from '@/lib/utils/security';
+import { failoverPretiumPayout } from '@/lib/offramp/failover';
+import { evaluateTransition, mapPretiumStatus } from '@/lib/offramp/order-state';
 import type { PretiumWebhookPayload } from '@/lib/pretium/types';
+import { applyOnrampWebhook } from '@/lib/onramp';
+import { createLogger, withCorrelationId } from '@/lib/logger';
+import { isValidCorrelationId } from '@/lib/correlation';
+
+const logger = createLogger('pretium-webhook');
+
+// How long a delivery may be processing before a duplicate is allowed to take it over
+const PROCESSING_LEASE_MS = 2 * 60 * 1000;
 
 export async function POST(request: NextRequest) {
+  // The callback URL carries the payment's correlation ID as cid (see getPretiumCallbackUrl)
+  const cid = request.nextUrl.searchParams.get('cid');
+  const correlationId = isValidCorrelationId(cid) ? cid : `pretium_webhook_${Date.now()}`;
+  return withCorrelationId(correlationId, () => handleWebhook(request));
+}
+
+async function handleWebhook(request: NextRequest) {
+  let webhookEvent: PretiumWebhookEvent | null = null;
+  let log = logger;
+
   try {
-    const payload: PretiumWebhookPayload = await request.json();
+    // Raw body is needed for signature verification
+    const rawBody = await request.text();
+    const clientIp = getClientIdentifier(request);
 
-    console.log('='.repeat(80));
-    console.log('[Webhook] PRETIUM WEBHOOK RECEIVED');
-    console.log('='.repeat(80));
-    console.log('[Webhook] Timestamp:', new Date().toISOString());
-    console.log('[Webhook] Raw payload:', JSON.stringify(payload, null, 2));
+    const auth = verifyPretiumWebhook({
+      rawBody,
+      signature: request.headers.get(PRETIUM_SIGNATURE_HEADER),
+      timestamp: request.headers.get(PRETIUM_TIMESTAMP_HEADER),
+      token: request.nextUrl.searchParams.get('token'),
+      clientIp,
+    });
+
+    if (!auth.valid) {
+      log.warn('Rejected unauthenticated webhook', { reason: auth.reason, ip: clientIp });
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: PretiumWebhookPayload;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+    }
 
     const { transaction_code, status, receipt_number, public_name, message, is_released } =
       payload;
 
+    log = logger.child({ transactionCode: transaction_code, webhookStatus: status });
+    log.info('Webhook received', { authMethod: auth.method, payload });
+
     if (!transaction_code) {
-      console.error('[Webhook] ERROR: Missing transaction_code in payload');
-      console.log('='.repeat(80));
+      log.warn('Missing transaction_code in payload');
       return NextResponse.json({ error: 'Missing transaction_code' }, { status: 400 });
     }
 
+    // Dedup on (transaction_code, status, receipt_number) - replays of a delivery that was
+    // handled are acknowledged; one still processing is turned away until it finishes, and
+    // one that failed (or stalled past the lease) is processed again
+    const { record, isNew } = await DatabaseService.recordPretiumWebhookEvent({
+      dedupKey: getPretiumWebhookDedupKey(payload),
+      transactionCode: transaction_code,
+      status,
+      receiptNumber: receipt_number,
+      authMethod: auth.method,
+      sourceIp: clientIp,
+      payload: payload as unknown as Record<string, unknown>,
+    });
+
+    if (!isNew && (record.processing_status === 'processed' || record.processing_status === 'ignored')) {
+      log.info('Duplicate delivery ignored', { receiptNumber: receipt_number });
+      return NextResponse.json({
+        success: true,
+        message: 'Webhook already processed',
+      });
+    }
+    if (isNew) {
+      webhookEvent = record;
+    } else {
+      webhookEvent = await DatabaseService.claimPretiumWebhookEventRetry(record.id, PROCESSING_LEASE_MS);
+      if (!webhookEvent) {
+        log.info('Delivery already in progress', { receiptNumber: receipt_number });
+        // Non-2xx so Pretium retries once the first delivery has finished
+        return NextResponse.json(
+          { error: 'Webhook is already being processed' },
+          { status: 409 }
+        );
+      }
+      log.info('Retrying delivery', { previousStatus: record.processing_status });
+    }
+
+    // Collections (on-ramp) share this webhook; their transaction codes live in onramp_orders
+    const onrampOrder = await DatabaseService.getOnrampOrderByTransactionCode(transaction_code);
+    if (onrampOrder) {
+      const outcome = await applyOnrampWebhook(onrampOrder, payload);
+      log.info('On-ramp webhook handled', { current_status: onrampOrder.status, outcome });
+
+      await DatabaseService.updatePretiumWebhookEventStatus(
+        webhookEvent.id,
+        outcome === 'ignored' ? 'ignored' : 'processed',
+        outcome === 'ignored' ? `On-ramp order already ${onrampOrder.status}` : undefined
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: 'Webhook processed',
+      });
+    }
+
     // Fetch order to log currency for debugging
     let order;
     try {
       order = await DatabaseService.getPretiumOrderByTransactionCode(transaction_code);
       if (order) {
-        console.log('='.repeat(80));
-        console.log(`[Webhook] ${order.local_currency} ORDER FOUND - Status: ${status}`);
-        console.log('='.repeat(80));
-        console.log('[Webhook] Order details:', {
+        log.info('Order found', {
           order_id: order.id,
-          transaction_code,
           currency: order.local_currency,
           payment_type: order.payment_type,
           amount_usdc: order.amount_in_usdc,
           amount_local: order.amount_in_local,
           current_status: order.status,
-          webhook_status: status,
           created_at: order.created_at
         });
 
         // Special logging for NGN transactions
         if (order.local_currency === 'NGN') {
-          console.log('[Webhook] NGN TRANSACTION DETAILS:', {
+          log.debug('NGN transaction details', {
             bank_name: order.bank_name,
             bank_code: order.bank_code,
             account_number: order.account_number,
@@ -52,31 +145,41 @@ export async function POST(request: NextRequest) {
           });
         }
       } else {
-        console.log('='.repeat(80));
-        console.warn('[Webhook] WARNING: Order not found for transaction_code:', transaction_code);
-        console.log('='.repeat(80));
+        log.warn('Order not found for transaction_code');
       }
     } catch (lookupError) {
-      console.log('='.repeat(80));
-      console.error('[Webhook] ERROR looking up order:', {
-        transaction_code,
-        error: lookupError instanceof Error ? lookupError.message : lookupError
-      });
-      console.log('='.repeat(80));
+      log.error('Order lookup failed', { error: lookupError });
+      throw lookupError;
+    }
+
+    // A late, duplicate or reordered webhook must never move an order backwards
+    const targetStatus = mapPretiumStatus(status);
+    const transition = order && targetStatus ? evaluateTransition('pretium', order.status, targetStatus) : 'apply';
+    const isStaleUpdate = transition !== 'apply';
+    if (isStaleUpdate && status) {
+      log.warn('Ignoring status update', { current_status: order?.status, transition });
+
+      if (order && targetStatus && transition === 'reject') {
+        await DatabaseService.logOrderStatusHistory({
+          provider: 'pretium',
+          orderId: order.id,
+          providerOrderId: transaction_code,
+          event: 'transition_rejected',
+          oldStatus: order.status,
+          newStatus: targetStatus,
+          providerStatus: status,
+          reason: `${order.status} → ${targetStatus} is not an allowed transition`,
+        }).catch((historyError) => log.error('Failed to log rejected transition', { error: historyError }));
+      }
     }
 
     // Handle off-ramp payment confirmation webhook
-    if (status === 'COMPLETE' && receipt_number) {
-      console.log('='.repeat(80));
-      console.log(`[Webhook] ${order?.local_currency || 'UNKNOWN'} TRANSACTION COMPLETE`);
-      console.log('='.repeat(80));
-      console.log('[Webhook] Complete status details:', {
-        transaction_code,
+    if (status === 'COMPLETE' && receipt_number && !isStaleUpdate) {
+      log.info('Transaction complete', {
         receipt_number,
         public_name,
         currency: order?.local_currency,
         payment_type: order?.payment_type,
-        timestamp: new Date().toISOString()
       });
 
       try {
@@ -91,14 +194,14 @@ export async function POST(request: NextRequest) {
           payload as unknown as Record<string, unknown> // store raw webhook payload
         );
 
-        console.log('Database updated successfully for:', transaction_code);
+        log.info('Order marked completed');
 
-        // Log analytics event
+        // Log analytics event - the order is already updated, so a retry would not get this far
         await DatabaseService.logAnalyticsEvent('pretium_payment_complete', '', {
           transaction_code,
           receipt_number,
           public_name,
-        });
+        }).catch((analyticsError) => log.warn('Failed to log analytics event', { error: analyticsError }));
 
         // Send notification to user via Farcaster if FID exists
         try {
@@ -123,8 +226,7 @@ export async function POST(request: NextRequest) {
 
           // Generate and log receipt data for completed transactions
           if (order) {
-            console.log('Receipt data available:', {
-              transaction_code,
+            log.debug('Receipt data available', {
               receipt_number,
               public_name,
               order_id: order.id,
@@ -141,37 +243,29 @@ export async function POST(request: NextRequest) {
             });
           }
         } catch (notificationError) {
-          console.error('Notification failed:', notificationError);
+          log.error('Notification failed', { error: notificationError });
           // Continue processing webhook
         }
       } catch (dbError) {
-        console.error('DATABASE UPDATE FAILED:', {
-          transaction_code,
-          error: dbError instanceof Error ? dbError.message : dbError,
-          stack: dbError instanceof Error ? dbError.stack : undefined
-        });
-        // Return success to Pretium to prevent retries, but log the error
+        log.error('Database update failed', { error: dbError });
+        // Fail the delivery so Pretium retries it
+        throw dbError;
       }
     }
 
     // Handle failed transactions
-    if (status === 'FAILED') {
-      console.log('='.repeat(80));
-      console.error(`[Webhook] ${order?.local_currency || 'UNKNOWN'} TRANSACTION FAILED`);
-      console.log('='.repeat(80));
-      console.error('[Webhook] Failed status details:', {
-        transaction_code,
+    if (status === 'FAILED' && !isStaleUpdate) {
+      log.error('Transaction failed', {
         failure_message: message,
         currency: order?.local_currency,
         payment_type: order?.payment_type,
         amount_usdc: order?.amount_in_usdc,
         amount_local: order?.amount_in_local,
-        timestamp: new Date().toISOString()
       });
 
       // Log NGN-specific details if applicable
       if (order?.local_currency === 'NGN') {
-        console.error('[Webhook] NGN FAILURE DETAILS:', {
+        log.error('NGN failure details', {
           bank_name: order.bank_name,
           bank_code: order.bank_code,
           account_number: order.account_number,
@@ -179,10 +273,9 @@ export async function POST(request: NextRequest) {
           raw_disburse_response: order.raw_disburse_response
         });
       }
-      console.log('='.repeat(80));
 
       try {
-        await DatabaseService.updatePretiumOrderStatus(
+        const failedOrder = await DatabaseService.updatePretiumOrderStatus(
           transaction_code,
           'failed',
           status,
@@ -192,49 +285,65 @@ export async function POST(request: NextRequest) {
           payload as unknown as Record<string, unknown> // store raw webhook payload
         );
 
+        // Non-fatal: a retry would find the order already failed and skip the failover below
         await DatabaseService.logAnalyticsEvent('pretium_payment_failed', '', {
           transaction_code,
           message,
           currency: order?.local_currency,
           payment_type: order?.payment_type
-        });
+        }).catch((analyticsError) => log.warn('Failed to log analytics event', { error: analyticsError }));
+
+        log.info('Order marked failed');
 
-        console.log('[Webhook] Failed status updated in database successfully');
+        // Re-route through PayCrest, or open a refund case when that isn't possible
+        if (failedOrder.status === 'failed') {
+          try {
+            const outcome = await failoverPretiumPayout(failedOrder, message);
+            log.info('Failover outcome', { ...outcome });
+          } catch (failoverError) {
+            log.error('Failover error (non-fatal)', { error: failoverError });
+          }
+        }
       } catch (failedError) {
-        console.log('='.repeat(80));
-        console.error('[Webhook] ERROR: Failed to update failed status in database:', {
-          transaction_code,
-          error: failedError instanceof Error ? failedError.message : failedError
-        });
-        console.log('='.repeat(80));
-        // Return success to prevent retries
+        log.error('Failed to update failed status in database', { error: failedError });
+        // Fail the delivery so Pretium retries it
+        throw failedError;
       }
     }
 
-    // Handle asset release webhook (on-ramp only - not applicable for our off-ramp flow)
+    // Asset releases belong to on-ramp orders, handled above - one here has no matching order
     if (is_released) {
-      // We're using Pretium for off-ramp only, so this shouldn't occur
-      // But log it for monitoring purposes
+      // Log it for monitoring purposes
       await DatabaseService.logAnalyticsEvent('pretium_asset_released', '', {
         transaction_code,
         is_released,
       });
     }
 
-    // Always return 200 to prevent Pretium from retrying
+    await DatabaseService.updatePretiumWebhookEventStatus(
+      webhookEvent.id,
+      isStaleUpdate && status ? 'ignored' : 'processed',
+      isStaleUpdate && status ? `Order already ${order?.status}` : undefined
+    );
+
     return NextResponse.json({
       success: true,
       message: 'Webhook processed',
     });
   } catch (webhookError) {
-    console.error('WEBHOOK PROCESSING ERROR:', {
-      error: webhookError instanceof Error ? webhookError.message : webhookError,
-      stack: webhookError instanceof Error ? webhookError.stack : undefined
-    });
-    // Still return 200 to prevent retries
-    return NextResponse.json({
-      success: true,
-      message: 'Webhook received',
-    });
+    log.error('Webhook processing error', { error: webhookError });
+
+    if (webhookEvent) {
+      await DatabaseService.updatePretiumWebhookEventStatus(
+        webhookEvent.id,
+        'failed',
+        webhookError instanceof Error ? webhookError.message : 'Unknown error'
+      ).catch(() => {});
+    }
+    // Non-2xx so Pretium retries; the failed event is processed again then
+    return NextResponse.json(
+      { error: 'Webhook processing failed' },
+      { status: 500 }
+    );
   }
 }
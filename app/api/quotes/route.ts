@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  routeOfframp,
+  getOfframpProvider,
+  issueQuote,
+  lockQuote,
+  getQuote,
+  getQuoteProvider,
+  parseOptionalNumber,
+  OfframpError,
+  type OfframpLockedQuote,
+  type OfframpPaymentType,
+} from '@/lib/offramp';
+import { isValidCorrelationId, CORRELATION_ID_HEADER } from '@/lib/correlation';
+import { DEFAULT_PRETIUM_CHAIN, getPretiumChain, isPretiumChain, parseChainAddress, PRETIUM_CHAINS } from '@/lib/pretium/chains';
+import { isStablecoinToken, STABLECOIN_TOKENS } from '@/lib/contracts';
+import { withRateLimit } from '@/lib/security/rate-limit';
+import { createLogger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const logger = createLogger('quotes');
+
+const PAYMENT_TYPES: OfframpPaymentType[] = ['MOBILE', 'BUY_GOODS', 'PAYBILL', 'BANK_TRANSFER'];
+
+function errorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof OfframpError) {
+    return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+  }
+
+  logger.error(fallbackMessage, { error });
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : fallbackMessage },
+    { status: 500 }
+  );
+}
+
+function toQuoteResponse(quote: OfframpLockedQuote) {
+  return {
+    id: quote.id,
+    provider: quote.provider,
+    currency: quote.currency,
+    paymentType: quote.paymentType,
+    fundingModel: quote.fundingModel,
+    amountUSDC: quote.amountUSDC,
+    totalUSDC: quote.totalUSDC,
+    rate: quote.rate,
+    recipientAmount: quote.recipientAmount,
+    fee: quote.fee,
+    depositAddress: quote.depositAddress,
+    chain: quote.chain || 'BASE',
+    token: quote.token || 'USDC',
+    senderAddress: quote.senderAddress,
+    expiresAt: quote.validUntil,
+    signature: quote.signature,
+  };
+}
+
+/**
+ * Lock a quote
+ *
+ * POST { currency, amount, localAmount?, paymentType?, provider?, walletAddress?, chain?, token?, senderAddress? }
+ *   Quotes the given provider (or the one the router picks), then stores and signs
+ *   the rate, fee and recipient amount. Send the returned id as quoteId when creating
+ *   the order - the order is created at exactly these terms until expiresAt.
+ *   chain (BASE, CELO, SCROLL, TRON, STELLAR) picks where the USDC is deposited;
+ *   depositAddress is the settlement address on that chain.
+ *   token (USDC, USDT) is the stablecoin sent; amount is in that token.
+ *   senderAddress is the address on that chain the deposit will be sent from. It is
+ *   signed into the quote and the deposit is only accepted from it - required on
+ *   Tron and Stellar; elsewhere the deposit must otherwise come from the return address.
+ */
+export async function POST(request: NextRequest) {
+  return withRateLimit(request, 'quotes', {}, () => handleCreateQuote(request));
+}
+
+async function handleCreateQuote(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const currency = String(body.currency || '').toUpperCase();
+    const amountUSDC = parseFloat(body.amount);
+    const localAmount = parseOptionalNumber(body.localAmount);
+    const paymentType = String(body.paymentType || 'MOBILE').toUpperCase() as OfframpPaymentType;
+
+    if (!currency || isNaN(amountUSDC) || amountUSDC <= 0) {
+      return NextResponse.json(
+        { error: 'Missing required: currency and a positive amount' },
+        { status: 400 }
+      );
+    }
+
+    if (localAmount !== undefined && localAmount <= 0) {
+      return NextResponse.json({ error: 'Invalid localAmount: must be a positive number' }, { status: 400 });
+    }
+
+    if (!PAYMENT_TYPES.includes(paymentType)) {
+      return NextResponse.json(
+        { error: `Invalid paymentType. Supported: ${PAYMENT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const chain = body.chain ? String(body.chain).toUpperCase() : undefined;
+    if (chain !== undefined && !isPretiumChain(chain)) {
+      return NextResponse.json(
+        { error: `Invalid chain. Supported: ${Object.keys(PRETIUM_CHAINS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const token = body.token ? String(body.token).toUpperCase() : undefined;
+    if (token !== undefined && !isStablecoinToken(token)) {
+      return NextResponse.json(
+        { error: `Invalid token. Supported: ${Object.keys(STABLECOIN_TOKENS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const depositChain = chain ?? DEFAULT_PRETIUM_CHAIN;
+    const senderAddress = body.senderAddress ? parseChainAddress(depositChain, body.senderAddress) : undefined;
+    if (senderAddress === null) {
+      return NextResponse.json(
+        { error: `Invalid senderAddress: not a ${getPretiumChain(depositChain).name} address` },
+        { status: 400 }
+      );
+    }
+    if (!senderAddress && getPretiumChain(depositChain).kind !== 'evm') {
+      return NextResponse.json(
+        { error: `senderAddress is required for deposits on ${getPretiumChain(depositChain).name}` },
+        { status: 400 }
+      );
+    }
+
+    const quoteRequest = { currency, amountUSDC, localAmount, paymentType, chain, token };
+    const correlationHeader = request.headers.get(CORRELATION_ID_HEADER);
+    const correlationId = isValidCorrelationId(correlationHeader) ? correlationHeader : undefined;
+    let quote: OfframpLockedQuote;
+
+    if (body.provider) {
+      const provider = getOfframpProvider(body.provider);
+      if (!provider || !provider.supports(currency, paymentType, chain, token)) {
+        return NextResponse.json(
+          { error: `Provider ${body.provider} does not support ${paymentType} payouts in ${currency}${token ? ` funded with ${token}` : ''}${chain ? ` on ${chain}` : ''}` },
+          { status: 400 }
+        );
+      }
+      quote = await issueQuote(provider, quoteRequest, body.walletAddress, correlationId, senderAddress);
+    } else {
+      const route = await routeOfframp(quoteRequest);
+      quote = await lockQuote(route.quote, body.walletAddress, correlationId, senderAddress);
+    }
+
+    return NextResponse.json({ success: true, quote: toQuoteResponse(quote) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create quote');
+  }
+}
+
+/**
+ * GET ?id=...
+ *   Look up a quote and verify its signature, e.g. to show a countdown or re-quote when it has expired
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const quoteId = request.nextUrl.searchParams.get('id');
+    const provider = await getQuoteProvider(quoteId);
+    const quote = await getQuote(quoteId!, provider);
+
+    return NextResponse.json({
+      success: true,
+      quote: toQuoteResponse(quote),
+      expired: new Date(quote.validUntil).getTime() <= Date.now(),
+      redeemed: Boolean(quote.redeemedAt),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch quote');
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * API Route: Rate Alert
+ * Re-arm a triggered alert or remove it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteRateAlert, rearmRateAlert, RateAlertError } from '@/lib/rate-alerts';
+import { authenticateUser, UserAuthError } from '@/lib/user-auth';
+import { withRateLimit } from '@/lib/security/rate-limit';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('rate-alerts');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PATCH /api/rate-alerts/[id]
+ * Body: { status: 'active' }
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  return withRateLimit(request, 'rate_alerts', {}, () => handleUpdateRateAlert(request, context));
+}
+
+/**
+ * DELETE /api/rate-alerts/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  return withRateLimit(request, 'rate_alerts', {}, () => handleDeleteRateAlert(request, context));
+}
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof RateAlertError || error instanceof UserAuthError) {
+    return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+  }
+
+  logger.error(`Failed to ${action} rate alert`, { error });
+  return NextResponse.json(
+    { error: `Failed to ${action} rate alert` },
+    { status: 500 }
+  );
+}
+
+async function handleUpdateRateAlert(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const { owner } = await authenticateUser(request);
+    const { id } = await context.params;
+    const body = await request.json();
+
+    if (body.status !== 'active') {
+      return NextResponse.json({ error: "status must be 'active'" }, { status: 400 });
+    }
+
+    const alert = await rearmRateAlert(owner, id);
+
+    return NextResponse.json({ success: true, alert });
+  } catch (error) {
+    return errorResponse(error, 'update');
+  }
+}
+
+async function handleDeleteRateAlert(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const { owner } = await authenticateUser(request);
+    const { id } = await context.params;
+    await deleteRateAlert(owner, id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'delete');
+  }
+}
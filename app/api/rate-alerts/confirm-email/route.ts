@@ -0,0 +1,40 @@
+/**
+ * API Route: Confirm Rate Alert Email
+ * Opened from the link emailed for a new rate alert address - alerts are only
+ * emailed once the address is confirmed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { confirmRateAlertEmail, RATE_ALERT_CONFIG, RateAlertError } from '@/lib/rate-alerts';
+import { withRateLimit } from '@/lib/security/rate-limit';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('rate-alerts');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/rate-alerts/confirm-email?token=...
+ *   Confirms the address and opens the app with the alert's currency selected
+ */
+export async function GET(request: NextRequest) {
+  return withRateLimit(request, 'rate_alerts', {}, () => handleConfirmEmail(request));
+}
+
+async function handleConfirmEmail(request: NextRequest) {
+  try {
+    const currency = await confirmRateAlertEmail(request.nextUrl.searchParams.get('token'));
+
+    return NextResponse.redirect(`${RATE_ALERT_CONFIG.APP_URL}/?currency=${currency}`);
+  } catch (error) {
+    if (error instanceof RateAlertError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Failed to confirm rate alert email', { error });
+    return NextResponse.json(
+      { error: 'Failed to confirm email' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * API Route: Live Rate
+ * Best payout rate for a currency across providers - what rate alerts are checked against
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getLiveRate, RateAlertError } from '@/lib/rate-alerts';
+import { withRateLimit } from '@/lib/security/rate-limit';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('rate-alerts');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/rate-alerts/rates?currency=KES
+ */
+export async function GET(request: NextRequest) {
+  return withRateLimit(request, 'rate_alerts', {}, () => handleGetLiveRate(request));
+}
+
+async function handleGetLiveRate(request: NextRequest) {
+  try {
+    const rate = await getLiveRate(request.nextUrl.searchParams.get('currency'));
+
+    return NextResponse.json({ rate });
+  } catch (error) {
+    if (error instanceof RateAlertError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Failed to get live rate', { error });
+    return NextResponse.json(
+      { error: 'Failed to fetch live rate' },
+      { status: 500 }
+    );
+  }
+}
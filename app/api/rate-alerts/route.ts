@@ -0,0 +1,75 @@
+/**
+ * API Route: Rate Alerts
+ * Notify the user by Farcaster notification or email when a currency's live
+ * payout rate crosses their target
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createRateAlert, listRateAlerts, RateAlertError } from '@/lib/rate-alerts';
+import { authenticateUser, verifyFarcasterUser, UserAuthError } from '@/lib/user-auth';
+import { withRateLimit } from '@/lib/security/rate-limit';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('rate-alerts');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/rate-alerts
+ *   The signed-in user's alerts (Authorization: Bearer <Privy or wallet session token>)
+ */
+export async function GET(request: NextRequest) {
+  return withRateLimit(request, 'rate_alerts', {}, () => handleListRateAlerts(request));
+}
+
+/**
+ * POST /api/rate-alerts
+ * Body: { alert: { currency: KES | NGN | GHS | UGX, direction: above | below,
+ *   threshold, email? } }
+ *   threshold is local currency per USDC. In Farcaster, X-Farcaster-Token (Quick Auth)
+ *   adds Farcaster notifications; otherwise email is required. A new email address
+ *   gets a confirmation link before any alert is sent to it
+ */
+export async function POST(request: NextRequest) {
+  return withRateLimit(request, 'rate_alerts', {}, () => handleCreateRateAlert(request));
+}
+
+async function handleListRateAlerts(request: NextRequest) {
+  try {
+    const { owner } = await authenticateUser(request);
+    const alerts = await listRateAlerts(owner);
+
+    return NextResponse.json({ alerts });
+  } catch (error) {
+    if (error instanceof RateAlertError || error instanceof UserAuthError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Failed to list rate alerts', { error });
+    return NextResponse.json(
+      { error: 'Failed to fetch rate alerts' },
+      { status: 500 }
+    );
+  }
+}
+
+async function handleCreateRateAlert(request: NextRequest) {
+  try {
+    const { owner } = await authenticateUser(request);
+    const fid = await verifyFarcasterUser(request);
+    const body = await request.json();
+    const alert = await createRateAlert(owner, body.alert, fid);
+
+    return NextResponse.json({ success: true, alert }, { status: 201 });
+  } catch (error) {
+    if (error instanceof RateAlertError || error instanceof UserAuthError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    logger.error('Failed to create rate alert', { error });
+    return NextResponse.json(
+      { error: 'Failed to create rate alert' },
+      { status: 500 }
+    );
+  }
+}
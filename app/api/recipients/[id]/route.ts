@@ -0,0 +1,78 @@
+/**
+ * API Route: Saved Recipient
+ * Rename, favorite or remove one entry in the user's address book
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteRecipient, updateRecipient, RecipientError } from '@/lib/recipients';
+import { authenticateUser, UserAuthError } from '@/lib/user-auth';
+import { withRateLimit } from '@/lib/security/rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PATCH /api/recipients/[id]
+ * Body: { nickname?, isFavorite? } - an empty nickname clears it
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  return withRateLimit(request, 'recipients', {}, () => handleUpdateRecipient(request, context));
+}
+
+/**
+ * DELETE /api/recipients/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  return withRateLimit(request, 'recipients', {}, () => handleDeleteRecipient(request, context));
+}
+
+async function handleUpdateRecipient(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const { owner: ownerId } = await authenticateUser(request);
+    const { id } = await context.params;
+    const body = await request.json();
+
+    const recipient = await updateRecipient(ownerId, id, {
+      nickname: body.nickname,
+      isFavorite: body.isFavorite,
+    });
+
+    return NextResponse.json({ success: true, recipient });
+  } catch (error) {
+    if (error instanceof RecipientError || error instanceof UserAuthError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    console.error('[Recipients] Failed to update recipient:', error);
+    return NextResponse.json(
+      { error: 'Failed to update recipient' },
+      { status: 500 }
+    );
+  }
+}
+
+async function handleDeleteRecipient(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const { owner: ownerId } = await authenticateUser(request);
+    const { id } = await context.params;
+
+    await deleteRecipient(ownerId, id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof RecipientError || error instanceof UserAuthError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    console.error('[Recipients] Failed to delete recipient:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete recipient' },
+      { status: 500 }
+    );
+  }
+}
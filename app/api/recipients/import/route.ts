@@ -0,0 +1,40 @@
+/**
+ * API Route: Import Saved Recipients
+ * One-time move of recipients a browser kept in localStorage into the user's address book
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { importRecipients, RecipientError } from '@/lib/recipients';
+import { authenticateUser, UserAuthError } from '@/lib/user-auth';
+import { withRateLimit } from '@/lib/security/rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/recipients/import
+ * Body: { recipients: SavedRecipient[] } - entries in the old localStorage format
+ */
+export async function POST(request: NextRequest) {
+  return withRateLimit(request, 'recipients', {}, () => handleImportRecipients(request));
+}
+
+async function handleImportRecipients(request: NextRequest) {
+  try {
+    const { owner: ownerId } = await authenticateUser(request);
+    const body = await request.json();
+
+    const result = await importRecipients(ownerId, body.recipients);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof RecipientError || error instanceof UserAuthError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    console.error('[Recipients] Failed to import recipients:', error);
+    return NextResponse.json(
+      { error: 'Failed to import recipients' },
+      { status: 500 }
+    );
+  }
+}
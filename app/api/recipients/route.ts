@@ -0,0 +1,76 @@
+/**
+ * API Route: Saved Recipients
+ * The user's address book, shared across Warpcast, the Base app and web
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listRecipients, saveRecipient, RecipientError, RECIPIENT_CONFIG } from '@/lib/recipients';
+import { authenticateUser, UserAuthError } from '@/lib/user-auth';
+import { withRateLimit } from '@/lib/security/rate-limit';
+import type { RecipientCurrency } from '@/lib/types/recipients';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/recipients?currency=KES
+ *   The signed-in user's recipients (Authorization: Bearer <Privy or wallet session token>)
+ */
+export async function GET(request: NextRequest) {
+  return withRateLimit(request, 'recipients', {}, () => handleListRecipients(request));
+}
+
+/**
+ * POST /api/recipients
+ * Body: { recipient: { type, phoneNumber? | accountNumber+bankCode, accountName, bankName?, nickname?, verifiedName? } }
+ *   Called after a payment - creates the entry or bumps its use count
+ */
+export async function POST(request: NextRequest) {
+  return withRateLimit(request, 'recipients', {}, () => handleSaveRecipient(request));
+}
+
+async function handleListRecipients(request: NextRequest) {
+  try {
+    const { owner: ownerId } = await authenticateUser(request);
+    const searchParams = request.nextUrl.searchParams;
+    const currency = searchParams.get('currency')?.toUpperCase() as RecipientCurrency | undefined;
+
+    if (currency && !RECIPIENT_CONFIG.CURRENCIES.includes(currency)) {
+      return NextResponse.json({ error: 'Unsupported currency' }, { status: 400 });
+    }
+
+    const recipients = await listRecipients(ownerId, currency);
+
+    return NextResponse.json({ recipients });
+  } catch (error) {
+    if (error instanceof RecipientError || error instanceof UserAuthError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    console.error('[Recipients] Failed to list recipients:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch saved recipients' },
+      { status: 500 }
+    );
+  }
+}
+
+async function handleSaveRecipient(request: NextRequest) {
+  try {
+    const { owner: ownerId } = await authenticateUser(request);
+    const body = await request.json();
+
+    const recipient = await saveRecipient(ownerId, body.recipient);
+
+    return NextResponse.json({ success: true, recipient });
+  } catch (error) {
+    if (error instanceof RecipientError || error instanceof UserAuthError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    console.error('[Recipients] Failed to save recipient:', error);
+    return NextResponse.json(
+      { error: 'Failed to save recipient' },
+      { status: 500 }
+    );
+  }
+}
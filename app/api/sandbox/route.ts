@@ -0,0 +1,159 @@
+/**
+ * API Route: Provider Sandbox Controls
+ * Only available with PROVIDER_MODE=sandbox. Inspect simulated provider state,
+ * script failures and simulate deposits for local development and e2e tests.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PRETIUM_CONFIG } from '@/lib/pretium/config';
+import {
+  SANDBOX_SCENARIOS,
+  clearSandboxScenarios,
+  deliverDueSandboxWebhooks,
+  getQueuedSandboxScenarios,
+  getSandboxState,
+  getSandboxStatus,
+  isSandboxMode,
+  nextSandboxId,
+  queueSandboxScenario,
+  recordSandboxTransfer,
+  resetSandboxState,
+  sandboxHex,
+  type SandboxOperation,
+  type SandboxProvider,
+  type SandboxScenario,
+} from '@/lib/sandbox';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const PROVIDERS: SandboxProvider[] = ['pretium', 'paycrest', 'blockradar'];
+const OPERATIONS: SandboxOperation[] = ['rate', 'verify', 'payout', 'collect', 'status', 'withdraw', 'balance'];
+
+function notFound() {
+  return NextResponse.json({ error: 'Not found' }, { status: 404 });
+}
+
+/**
+ * GET /api/sandbox
+ * Summary of simulated orders, withdrawals, webhooks and queued scenarios
+ */
+export async function GET() {
+  if (!isSandboxMode()) return notFound();
+
+  const state = getSandboxState();
+  const now = Date.now();
+
+  return NextResponse.json({
+    success: true,
+    scenarios: getQueuedSandboxScenarios(),
+    pretiumTransactions: [...state.pretiumTransactions.values()].map((transaction) => ({
+      transactionCode: transaction.transactionCode,
+      currency: transaction.currency,
+      amount: transaction.request.amount,
+      status: getSandboxStatus(transaction.steps, now),
+    })),
+    paycrestOrders: [...state.paycrestOrders.values()].map((order) => ({
+      id: order.id,
+      currency: order.request.recipient.currency,
+      amount: order.request.amount,
+      status: getSandboxStatus(order.steps, now),
+    })),
+    withdrawals: [...state.withdrawals.values()].map((withdrawal) => ({
+      id: withdrawal.id,
+      addressId: withdrawal.addressId,
+      amount: withdrawal.request.amount,
+      hash: withdrawal.hash,
+      status: getSandboxStatus(withdrawal.steps, now),
+    })),
+    transfers: [...state.transfers.values()].map((transfer) => ({
+      ...transfer,
+      blockNumber: transfer.blockNumber.toString(),
+    })),
+    balances: Object.fromEntries(state.balances),
+    webhooks: state.webhooks,
+  });
+}
+
+/**
+ * POST /api/sandbox
+ * Actions:
+ * - { action: 'scenario', provider, scenario, operation?, times? } - script the next call(s)
+ * - { action: 'clear' } - drop queued scenarios
+ * - { action: 'tick' } - deliver webhooks that are due
+ * - { action: 'deposit', from, to?, amount } - simulate a Base USDC transfer, returns its hash
+ * - { action: 'reset' } - clear all simulated state
+ */
+export async function POST(request: NextRequest) {
+  if (!isSandboxMode()) return notFound();
+
+  try {
+    const body = await request.json();
+
+    switch (body.action) {
+      case 'scenario': {
+        const { provider, scenario, operation, times } = body;
+
+        if (!PROVIDERS.includes(provider)) {
+          return NextResponse.json({ error: `provider must be one of: ${PROVIDERS.join(', ')}` }, { status: 400 });
+        }
+        if (!SANDBOX_SCENARIOS.includes(scenario)) {
+          return NextResponse.json({ error: `scenario must be one of: ${SANDBOX_SCENARIOS.join(', ')}` }, { status: 400 });
+        }
+        if (operation !== undefined && !OPERATIONS.includes(operation)) {
+          return NextResponse.json({ error: `operation must be one of: ${OPERATIONS.join(', ')}` }, { status: 400 });
+        }
+
+        const queued = queueSandboxScenario(provider, scenario as SandboxScenario, {
+          operation,
+          times: typeof times === 'number' && times > 0 ? Math.floor(times) : 1,
+        });
+        return NextResponse.json({ success: true, queued });
+      }
+
+      case 'clear':
+        clearSandboxScenarios();
+        return NextResponse.json({ success: true });
+
+      case 'tick': {
+        const delivered = await deliverDueSandboxWebhooks();
+        return NextResponse.json({ success: true, webhooks: delivered });
+      }
+
+      case 'deposit': {
+        const amount = parseFloat(body.amount);
+        if (!body.from || !(amount > 0)) {
+          return NextResponse.json({ error: 'from and a positive amount are required' }, { status: 400 });
+        }
+
+        const transfer = recordSandboxTransfer({
+          hash: sandboxHex(nextSandboxId('deposit:')),
+          from: body.from,
+          to: body.to || PRETIUM_CONFIG.SETTLEMENT_ADDRESS,
+          amountUSDC: amount,
+        });
+        return NextResponse.json({
+          success: true,
+          transactionHash: transfer.hash,
+          blockNumber: transfer.blockNumber.toString(),
+        });
+      }
+
+      case 'reset':
+        resetSandboxState();
+        clearSandboxScenarios();
+        return NextResponse.json({ success: true });
+
+      default:
+        return NextResponse.json(
+          { error: 'action must be one of: scenario, clear, tick, deposit, reset' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Sandbox action failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * API Route: Scheduled Payout
+ * One schedule with its run history; pause, resume or remove it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteSchedule, getSchedule, setScheduleStatus, ScheduleError } from '@/lib/schedules';
+import { authenticateUser, requirePrivyUser, UserAuthError } from '@/lib/user-auth';
+import { withRateLimit } from '@/lib/security/rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/schedules/[id]
+ *   One of the signed-in user's schedules (Authorization: Bearer <Privy or wallet session token>)
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  return withRateLimit(request, 'schedules', {}, () => handleGetSchedule(request, context));
+}
+
+/**
+ * PATCH /api/schedules/[id]
+ *   Requires a Privy session
+ * Body: { status: 'active' | 'paused' }
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  return withRateLimit(request, 'schedules', {}, () => handleUpdateSchedule(request, context));
+}
+
+/**
+ * DELETE /api/schedules/[id]
+ *   Requires a Privy session
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  return withRateLimit(request, 'schedules', {}, () => handleDeleteSchedule(request, context));
+}
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof ScheduleError || error instanceof UserAuthError) {
+    return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+  }
+
+  console.error(`[Schedules] Failed to ${action} schedule:`, error);
+  return NextResponse.json(
+    { error: `Failed to ${action} schedule` },
+    { status: 500 }
+  );
+}
+
+async function handleGetSchedule(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const { owner } = await authenticateUser(request);
+    const { id } = await context.params;
+    const schedule = await getSchedule(owner, id);
+
+    return NextResponse.json({ schedule });
+  } catch (error) {
+    return errorResponse(error, 'fetch');
+  }
+}
+
+async function handleUpdateSchedule(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const { owner } = await requirePrivyUser(request);
+    const { id } = await context.params;
+    const body = await request.json();
+
+    if (body.status !== 'active' && body.status !== 'paused') {
+      return NextResponse.json({ error: "status must be 'active' or 'paused'" }, { status: 400 });
+    }
+
+    const schedule = await setScheduleStatus(owner, id, body.status);
+
+    return NextResponse.json({ success: true, schedule });
+  } catch (error) {
+    return errorResponse(error, 'update');
+  }
+}
+
+async function handleDeleteSchedule(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const { owner } = await requirePrivyUser(request);
+    const { id } = await context.params;
+    await deleteSchedule(owner, id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'delete');
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * API Route: Scheduled Payouts
+ * Recurring payouts to saved recipients - paid automatically from a Minisend wallet,
+ * or reminded with a prefilled payment link for external wallets
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createSchedule, listSchedules, ScheduleError } from '@/lib/schedules';
+import { authenticateUser, requirePrivyUser, UserAuthError } from '@/lib/user-auth';
+import { withRateLimit } from '@/lib/security/rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/schedules
+ *   The signed-in user's schedules (Authorization: Bearer <Privy or wallet session token>)
+ */
+export async function GET(request: NextRequest) {
+  return withRateLimit(request, 'schedules', {}, () => handleListSchedules(request));
+}
+
+/**
+ * POST /api/schedules
+ *   Requires a Privy session - the schedule may pay out from the user's Minisend wallet
+ * Body: { schedule: { recipientId, amount, frequency: weekly | monthly | custom,
+ *   dayOfWeek? | dayOfMonth?, hour?, cronExpression?, label?, fid? } }
+ *   amount is what the recipient receives; times are East Africa Time
+ */
+export async function POST(request: NextRequest) {
+  return withRateLimit(request, 'schedules', {}, () => handleCreateSchedule(request));
+}
+
+async function handleListSchedules(request: NextRequest) {
+  try {
+    const { owner } = await authenticateUser(request);
+    const schedules = await listSchedules(owner);
+
+    return NextResponse.json({ schedules });
+  } catch (error) {
+    if (error instanceof ScheduleError || error instanceof UserAuthError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    console.error('[Schedules] Failed to list schedules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch schedules' },
+      { status: 500 }
+    );
+  }
+}
+
+async function handleCreateSchedule(request: NextRequest) {
+  try {
+    const { owner } = await requirePrivyUser(request);
+    const body = await request.json();
+    const schedule = await createSchedule(owner, body.schedule);
+
+    return NextResponse.json({ success: true, schedule }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ScheduleError || error instanceof UserAuthError) {
+      return NextResponse.json(error.toResponseBody(), { status: error.statusCode });
+    }
+
+    console.error('[Schedules] Failed to create schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to create schedule' },
+      { status: 500 }
+    );
+  }
+}
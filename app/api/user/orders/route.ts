@@ -66,7 +66,7 @@ async function fetchUserOrdersFromPayCrest(walletAddress: string, requestedLimit
         reference_id: order.id as string,
         rate: parseFloat(String(order.rate || 0)),
         network: 'base',
-        token: 'USDC',
+        token: (order.token as string) || 'USDC',
         receive_address: order.receiveAddress as string,
         institution_code: recipient.institution as string,
         recipient_data: recipient,
@@ -1,78 +1,115 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  parseWebhookEvent,
+  verifyAppKeyWithNeynar,
+  createVerifyAppKeyWithHub,
+  InvalidEventDataError,
+  InvalidJfsDataError,
+  InvalidJfsAppKeyError,
+  type VerifyAppKey,
+} from '@farcaster/miniapp-node';
+import { getNotificationService } from '@/lib/services/notification-service';
+import { getNotificationProvider } from '@/lib/services/notification-provider';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('farcaster-webhook');
 
 /**
  * Webhook endpoint for Farcaster Mini App events
  *
- * ⚠️ IMPORTANT: This endpoint is NOT currently used
- *
- * Our app uses Neynar-managed notifications, which means:
- * - Webhooks are sent to Neynar (configured in manifest)
- * - Neynar handles token storage and management
- * - We send notifications via Neynar API by FID only
+ * Only used with self-managed notifications (NOTIFICATION_PROVIDER=self), when
+ * the manifest's webhookUrl points here. With the default Neynar provider the
+ * events go to Neynar instead.
  *
- * This endpoint is kept for reference if switching to self-managed notifications.
- *
- * Events that would be handled:
- * - miniapp_added: User adds the Mini App
+ * Events:
+ * - miniapp_added: User adds the Mini App (with a token if notifications are on)
  * - miniapp_removed: User removes the Mini App
  * - notifications_enabled: User enables notifications
  * - notifications_disabled: User disables notifications
  *
- * Security: Events are signed with a JSON Farcaster Signature
- *
- * Required imports for self-managed notifications:
- * import { NextRequest } from 'next/server';
- * import { parseWebhookEvent, verifyAppKeyWithNeynar } from '@farcaster/miniapp-node';
+ * Security: Events are signed with a JSON Farcaster Signature. The signing app
+ * key is checked against the user's FID on a Farcaster hub (FARCASTER_HUB_URL)
+ * or, when no hub is configured, through Neynar.
  */
 
-export async function POST() {
-  // This endpoint is not actively used with Neynar-managed notifications
-  // Return a helpful message explaining the setup
-  return NextResponse.json(
-    {
-      message: 'Webhook endpoint available but not in use',
-      details: 'This app uses Neynar-managed notifications. Webhooks are handled by Neynar.',
-      configuration: {
-        webhookUrl: 'https://api.neynar.com/f/app/6169a7fa-658f-4d01-b6a5-ec7fb4bd802e/event',
-        notificationService: 'Neynar Managed'
-      }
-    },
-    { status: 200 }
-  );
+function getAppKeyVerifier(): VerifyAppKey {
+  const hubUrl = process.env.FARCASTER_HUB_URL;
+  return hubUrl ? createVerifyAppKeyWithHub(hubUrl) : verifyAppKeyWithNeynar;
+}
+
+export async function POST(request: NextRequest) {
+  if (getNotificationProvider() !== 'self') {
+    return NextResponse.json(
+      {
+        message: 'Webhook endpoint available but not in use',
+        details: 'This app uses Neynar-managed notifications. Webhooks are handled by Neynar.',
+      },
+      { status: 200 }
+    );
+  }
+
+  let requestJson: unknown;
+  try {
+    requestJson = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+  }
+
+  let data;
+  try {
+    data = await parseWebhookEvent(requestJson, getAppKeyVerifier());
+  } catch (error) {
+    if (error instanceof InvalidEventDataError || error instanceof InvalidJfsDataError) {
+      return NextResponse.json({ error: 'Invalid webhook event' }, { status: 400 });
+    }
+    if (error instanceof InvalidJfsAppKeyError) {
+      logger.warn('Rejected event signed with an invalid app key', { error: error.message });
+      return NextResponse.json({ error: 'Invalid webhook signature' }, { status: 401 });
+    }
+
+    // VerifyAppKeyError - the hub or Neynar couldn't be reached; the client retries
+    logger.error('Failed to verify app key', { error });
+    return NextResponse.json({ error: 'Webhook verification failed' }, { status: 500 });
+  }
+
+  const { fid, appFid, event } = data;
+  const log = logger.child({ fid, appFid, event: event.event });
+
+  try {
+    const service = getNotificationService();
+
+    switch (event.event) {
+      case 'miniapp_added':
+        if (event.notificationDetails) {
+          await service.saveNotificationDetails(fid, appFid, event.notificationDetails, true);
+          // Non-critical: the token is stored whether or not the welcome goes out
+          const welcome = await service.sendNotification(fid, appFid, service.getNotificationTemplate('welcome'));
+          if (!welcome.success) {
+            log.warn('Welcome notification not sent', { status: welcome.status, error: welcome.error });
+          }
+        }
+        break;
+
+      case 'notifications_enabled':
+        await service.saveNotificationDetails(fid, appFid, event.notificationDetails);
+        break;
+
+      case 'miniapp_removed':
+      case 'notifications_disabled':
+        // The client invalidates the token; keep the row so re-enabling upserts it
+        await service.disableNotifications(fid, appFid);
+        break;
+    }
 
-  /*
-   * The following code is preserved for reference if switching to self-managed notifications:
-   *
-   * try {
-   *   const requestJson = await request.json();
-   *
-   *   // Parse and verify the webhook event
-   *   let data;
-   *   try {
-   *     data = await parseWebhookEvent(requestJson, verifyAppKeyWithNeynar);
-   *   } catch (e: unknown) {
-   *     const errorMessage = e instanceof Error ? e.message : 'Webhook verification failed';
-   *     return NextResponse.json(
-   *       { error: 'Invalid webhook signature', details: errorMessage },
-   *       { status: 401 }
-   *     );
-   *   }
-   *
-   *   const fid = data.fid;
-   *   const appFid = data.appFid;
-   *   const event = data.event;
-   *
-   *   // Handle events: miniapp_added, miniapp_removed, notifications_enabled, notifications_disabled
-   *   // Store tokens in database, send welcome notifications, etc.
-   *
-   *   return NextResponse.json({ success: true });
-   * } catch (error) {
-   *   return NextResponse.json(
-   *     { error: 'Webhook processing failed' },
-   *     { status: 500 }
-   *   );
-   * }
-   */
+    log.info('Webhook event processed');
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log.error('Failed to process webhook event', { error });
+    return NextResponse.json(
+      { error: 'Webhook processing failed' },
+      { status: 500 }
+    );
+  }
 }
 
 /**
@@ -82,6 +119,7 @@ export async function GET() {
   return NextResponse.json({
     status: 'healthy',
     service: 'Minisend Webhook Handler',
+    notificationProvider: getNotificationProvider(),
     timestamp: new Date().toISOString(),
   });
 }
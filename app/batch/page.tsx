@@ -0,0 +1,23 @@
+"use client";
+
+import Link from 'next/link';
+import { BatchPayouts } from '../components/BatchPayouts';
+
+export default function BatchPage() {
+  return (
+    <main className="min-h-screen bg-black px-4 py-6">
+      <div className="max-w-md mx-auto space-y-5">
+        <div className="flex items-center justify-between">
+          <Link href="/" className="text-[#0A84FF] text-[15px]">Back</Link>
+          <h1 className="text-white text-[17px] font-semibold">Batch payout</h1>
+          <span className="w-8" />
+        </div>
+        <p className="text-[#8e8e93] text-[13px]">
+          Pay up to 50 recipients in KES, NGN, GHS or UGX with one USDC deposit. Each recipient is paid
+          separately and gets their own receipt.
+        </p>
+        <BatchPayouts />
+      </div>
+    </main>
+  );
+}
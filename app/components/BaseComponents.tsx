@@ -646,7 +646,7 @@ export function Home({ setActiveTab }: HomeProps) {
       </div>
 
       {/* Action Button Row */}
-      <div className="flex justify-center gap-6">
+      <div className="flex justify-center gap-4">
         <ActionCircle
           icon={<Icon name="arrow-up-right" size="md" className="text-white" />}
           label="Send"
@@ -662,6 +662,11 @@ export function Home({ setActiveTab }: HomeProps) {
           label="Deposit"
           onClick={handleDeposit}
         />
+        <ActionCircle
+          icon={<Icon name="plus" size="md" className="text-white" />}
+          label="Buy"
+          onClick={() => setActiveTab("deposit")}
+        />
       </div>
 
      
@@ -0,0 +1,573 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAccount } from 'wagmi';
+import { base } from 'wagmi/chains';
+import { parseUnits } from 'viem';
+import type { LifecycleStatus } from '@coinbase/onchainkit/transaction';
+import { TransactionHandler } from './TransactionHandler';
+import { BankSelector } from './BankSelector';
+import { CompactReceiptButton } from './PretiumReceipt';
+import { useAuthFetch } from '@/lib/hooks/useAuthFetch';
+import { USDC_CONTRACTS } from '@/lib/paymaster-config';
+import { normalizeBatchRow, validateBatchRow, BATCH_CURRENCIES, BATCH_PAYMENT_TYPES } from '@/lib/batches/validation';
+import { parseBatchCsv, BATCH_CSV_TEMPLATE } from '@/lib/batches/csv';
+import type {
+  BatchCurrency,
+  BatchPaymentType,
+  BatchRowError,
+  PayoutBatch,
+  PayoutBatchRow,
+} from '@/lib/types/batches';
+
+interface GridRow {
+  key: string;
+  accountName: string;
+  currency: BatchCurrency;
+  amount: string;
+  paymentType: BatchPaymentType;
+  destination: string;
+  paybillAccount: string;
+  bankCode: string;
+}
+
+interface Institution {
+  code: string;
+  name: string;
+  type: string;
+}
+
+const PAYMENT_TYPE_LABELS: Record<BatchPaymentType, string> = {
+  MOBILE: 'Mobile money',
+  BUY_GOODS: 'Till',
+  PAYBILL: 'Paybill',
+  BANK_TRANSFER: 'Bank',
+};
+
+const DESTINATION_PLACEHOLDERS: Record<BatchPaymentType, string> = {
+  MOBILE: 'Phone number',
+  BUY_GOODS: 'Till number',
+  PAYBILL: 'Paybill number',
+  BANK_TRANSFER: 'Account number',
+};
+
+function newRow(values: Partial<GridRow> = {}): GridRow {
+  return {
+    key: Math.random().toString(36).slice(2),
+    accountName: '',
+    currency: 'KES',
+    amount: '',
+    paymentType: 'MOBILE',
+    destination: '',
+    paybillAccount: '',
+    bankCode: '',
+    ...values,
+  };
+}
+
+function isBlankRow(row: GridRow): boolean {
+  return !row.accountName && !row.amount && !row.destination;
+}
+
+function getRowStatusLabel(row: PayoutBatchRow): { label: string; className: string } {
+  if (row.status === 'submitted') {
+    if (row.orderStatus === 'completed') return { label: 'Paid', className: 'text-[#30D158]' };
+    if (row.orderStatus === 'failed') return { label: 'Failed', className: 'text-[#FF453A]' };
+    return { label: 'Sending', className: 'text-[#0A84FF]' };
+  }
+
+  switch (row.status) {
+    case 'review':
+      return { label: 'In review', className: 'text-[#FF9F0A]' };
+    case 'failed':
+      return { label: 'Failed - refund opened', className: 'text-[#FF453A]' };
+    default:
+      return { label: 'Queued', className: 'text-[#8e8e93]' };
+  }
+}
+
+export function BatchPayouts() {
+  const { address } = useAccount();
+  // Batches belong to the wallet that funds them, so it signs in even for Privy users
+  const authFetch = useAuthFetch({ walletSession: true });
+  const [rows, setRows] = useState<GridRow[]>([newRow()]);
+  const [showErrors, setShowErrors] = useState(false);
+  const [serverErrors, setServerErrors] = useState<Record<number, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [banks, setBanks] = useState<Institution[]>([]);
+  const [batch, setBatch] = useState<PayoutBatch | null>(null);
+  const [depositHash, setDepositHash] = useState<string | null>(null);
+  const fundingRef = useRef(false);
+
+  const editableRows = rows.filter((row) => !isBlankRow(row));
+  const needsBanks = rows.some((row) => row.currency === 'NGN');
+
+  useEffect(() => {
+    if (!needsBanks || banks.length > 0) return;
+    fetch('/api/pretium/banks')
+      .then((response) => response.json())
+      .then((data) => setBanks(data.institutions || []))
+      .catch(() => {
+        // Bank codes can still come from the CSV
+      });
+  }, [needsBanks, banks.length]);
+
+  // Follow a funded batch until every row has settled
+  useEffect(() => {
+    if (!batch || !address || batch.status !== 'processing') return;
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await authFetch(`/api/batches/${batch.id}`);
+        if (!response.ok) return;
+        const data = await response.json();
+        setBatch(data.batch);
+      } catch {
+        // Try again on the next tick
+      }
+    }, 5000);
+
+    return () => clearInterval(interval);
+  }, [batch, address, authFetch]);
+
+  const updateRow = (key: string, patch: Partial<GridRow>) => {
+    setRows((prev) => prev.map((row) => {
+      if (row.key !== key) return row;
+      const updated = { ...row, ...patch };
+      // Keep the payment type valid for the currency
+      if (patch.currency && !BATCH_PAYMENT_TYPES[patch.currency].includes(updated.paymentType)) {
+        updated.paymentType = BATCH_PAYMENT_TYPES[patch.currency][0];
+      }
+      return updated;
+    }));
+    setServerErrors({});
+  };
+
+  const handleUpload = async (file: File) => {
+    setError(null);
+    try {
+      const parsed = parseBatchCsv(await file.text());
+      if (parsed.length === 0) {
+        setError('The file has no rows');
+        return;
+      }
+      setRows(parsed.map((raw) => {
+        const row = normalizeBatchRow(raw);
+        return newRow({
+          accountName: row.accountName,
+          currency: row.currency,
+          amount: raw.amount || '',
+          paymentType: row.paymentType,
+          destination: row.destination,
+          paybillAccount: row.paybillAccount || '',
+          bankCode: row.bankCode || '',
+        });
+      }));
+      setServerErrors({});
+      setShowErrors(true);
+    } catch (uploadError) {
+      setError(uploadError instanceof Error ? uploadError.message : 'Could not read the file');
+    }
+  };
+
+  const downloadTemplate = () => {
+    const url = URL.createObjectURL(new Blob([BATCH_CSV_TEMPLATE], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'minisend-batch-template.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // The export needs the session header, so it is fetched and saved rather than linked
+  const exportBatch = async () => {
+    if (!batch) return;
+    setError(null);
+    try {
+      const response = await authFetch(`/api/batches/${batch.id}/export`);
+      if (!response.ok) throw new Error((await response.json()).error || 'Could not export the batch');
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `minisend-batch-${batch.id.slice(0, 8)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : 'Could not export the batch');
+    }
+  };
+
+  const getRowError = (row: GridRow, index: number): string | null => {
+    if (serverErrors[index]) return serverErrors[index];
+    if (!showErrors || isBlankRow(row)) return null;
+    return validateBatchRow(normalizeBatchRow(row));
+  };
+
+  const handleQuote = async () => {
+    if (!address) return;
+    setShowErrors(true);
+    setError(null);
+
+    if (editableRows.length === 0) {
+      setError('Add at least one recipient');
+      return;
+    }
+    if (editableRows.some((row) => validateBatchRow(normalizeBatchRow(row)) !== null)) {
+      setError('Fix the highlighted rows first');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await authFetch('/api/batches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rows: editableRows }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        const rowErrors: BatchRowError[] = data.details?.rows || [];
+        // Server row indexes count only the rows that were sent
+        const byGridIndex: Record<number, string> = {};
+        for (const rowError of rowErrors) {
+          const gridIndex = rows.indexOf(editableRows[rowError.index]);
+          if (gridIndex !== -1) byGridIndex[gridIndex] = rowError.error;
+        }
+        setServerErrors(byGridIndex);
+        setError(data.error || 'Could not quote the batch');
+        return;
+      }
+
+      setRows(editableRows);
+      setBatch(data.batch);
+    } catch {
+      setError('Could not quote the batch - check your connection');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fundBatch = useCallback(async (transactionHash: string) => {
+    if (!batch || !address) return;
+    setError(null);
+    setLoading(true);
+
+    try {
+      const response = await authFetch(`/api/batches/${batch.id}/fund`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ transactionHash }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Could not confirm the deposit');
+      setBatch(data.batch);
+    } catch (fundError) {
+      setError(fundError instanceof Error ? fundError.message : 'Could not confirm the deposit');
+    } finally {
+      setLoading(false);
+    }
+  }, [batch, address, authFetch]);
+
+  const handleTransactionStatus = useCallback((lifecycleStatus: LifecycleStatus) => {
+    if (lifecycleStatus.statusName !== 'success' || fundingRef.current) return;
+
+    const txHash = lifecycleStatus.statusData?.transactionReceipts?.[0]?.transactionHash;
+    if (!txHash) return;
+
+    fundingRef.current = true;
+    setDepositHash(txHash);
+    fundBatch(txHash);
+  }, [fundBatch]);
+
+  const startOver = () => {
+    setBatch(null);
+    setDepositHash(null);
+    setServerErrors({});
+    setShowErrors(false);
+    setError(null);
+    fundingRef.current = false;
+  };
+
+  if (!address) {
+    return (
+      <div className="ios-card rounded-2xl p-6 text-center text-[#8e8e93] text-[15px]">
+        Connect your wallet to send a batch payout.
+      </div>
+    );
+  }
+
+  // ─── QUOTED: one deposit for the whole batch ───
+  if (batch && batch.status === 'awaiting_deposit') {
+    const isExpired = new Date(batch.quoteExpiresAt).getTime() <= Date.now();
+    const calls = [{
+      address: USDC_CONTRACTS.mainnet as `0x${string}`,
+      abi: [
+        {
+          name: 'transfer',
+          type: 'function',
+          stateMutability: 'nonpayable',
+          inputs: [
+            { name: 'to', type: 'address' },
+            { name: 'amount', type: 'uint256' }
+          ],
+          outputs: [{ name: '', type: 'bool' }]
+        }
+      ] as const,
+      functionName: 'transfer',
+      args: [
+        batch.depositAddress as `0x${string}`,
+        parseUnits(batch.totalUSDC.toFixed(6), 6)
+      ]
+    }];
+
+    return (
+      <div className="space-y-4">
+        <div className="ios-card rounded-2xl p-5">
+          <div className="text-[#8e8e93] text-[13px]">Total for {batch.rows.length} recipients</div>
+          <div className="text-white text-[28px] font-semibold">{batch.totalUSDC.toFixed(2)} USDC</div>
+          <div className="text-[#636366] text-[12px] mt-1">
+            Includes fees. Quote valid until {new Date(batch.quoteExpiresAt).toLocaleTimeString()}
+          </div>
+        </div>
+
+        <div className="ios-card rounded-2xl divide-y divide-white/[0.06]">
+          {batch.rows.map((row) => (
+            <div key={row.id} className="flex items-center justify-between px-4 py-3 text-[13px]">
+              <div>
+                <div className="text-white">{row.accountName}</div>
+                <div className="text-[#636366]">{PAYMENT_TYPE_LABELS[row.paymentType]} · {row.destination}</div>
+              </div>
+              <div className="text-right">
+                <div className="text-white">{row.amountLocal.toLocaleString()} {row.currency}</div>
+                <div className="text-[#636366]">{row.amountUSDC.toFixed(2)} USDC</div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {error && <div className="text-[#FF453A] text-[13px] px-1">{error}</div>}
+
+        {depositHash ? (
+          <button
+            onClick={() => fundBatch(depositHash)}
+            disabled={loading}
+            className="w-full py-3.5 rounded-2xl bg-[#007AFF] text-white font-semibold disabled:opacity-50"
+          >
+            {loading ? 'Confirming deposit...' : 'Retry confirming deposit'}
+          </button>
+        ) : isExpired ? (
+          <button onClick={startOver} className="w-full py-3.5 rounded-2xl bg-[#007AFF] text-white font-semibold">
+            Quote expired - get a new quote
+          </button>
+        ) : (
+          <TransactionHandler
+            chainId={base.id}
+            calls={calls}
+            buttonText={`Send ${batch.totalUSDC.toFixed(2)} USDC`}
+            onStatus={handleTransactionStatus}
+            onError={() => setError('Transaction failed')}
+          />
+        )}
+
+        {!depositHash && (
+          <button onClick={startOver} className="w-full text-[#0A84FF] text-[14px]">
+            Edit recipients
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  // ─── FUNDED: per-row progress ───
+  if (batch) {
+    const settledCount = batch.rows.filter((row) => row.status === 'submitted' || row.status === 'review' || row.status === 'failed').length;
+
+    return (
+      <div className="space-y-4">
+        <div className="ios-card rounded-2xl p-5 flex items-center justify-between">
+          <div>
+            <div className="text-white text-[17px] font-semibold">
+              {batch.status === 'processing' ? 'Paying out...' : batch.status === 'completed' ? 'Batch sent' : 'Batch finished with failures'}
+            </div>
+            <div className="text-[#8e8e93] text-[13px]">
+              {settledCount} of {batch.rows.length} sent · {batch.totalUSDC.toFixed(2)} USDC
+            </div>
+          </div>
+          <button
+            onClick={exportBatch}
+            className="text-[#0A84FF] text-[14px] font-medium"
+          >
+            Export CSV
+          </button>
+        </div>
+
+        <div className="ios-card rounded-2xl divide-y divide-white/[0.06]">
+          {batch.rows.map((row) => {
+            const status = getRowStatusLabel(row);
+            return (
+              <div key={row.id} className="px-4 py-3 text-[13px] space-y-1">
+                <div className="flex items-center justify-between">
+                  <div className="text-white">{row.accountName}</div>
+                  <div className="text-white">{row.amountLocal.toLocaleString()} {row.currency}</div>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="text-[#636366]">{PAYMENT_TYPE_LABELS[row.paymentType]} · {row.destination}</div>
+                  <div className={status.className}>{status.label}</div>
+                </div>
+                {row.error && row.status !== 'submitted' && (
+                  <div className="text-[#636366] text-[12px]">{row.error}</div>
+                )}
+                {row.transactionCode && row.orderStatus === 'completed' && (
+                  <CompactReceiptButton transactionCode={row.transactionCode} />
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {error && <div className="text-[#FF453A] text-[13px] px-1">{error}</div>}
+
+        {batch.status !== 'processing' && (
+          <button
+            onClick={() => {
+              startOver();
+              setRows([newRow()]);
+            }}
+            className="w-full text-[#0A84FF] text-[14px]"
+          >
+            New batch
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  // ─── EDIT: grid entry or CSV upload ───
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="text-[#0A84FF] text-[14px] font-medium cursor-pointer">
+          Upload CSV
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleUpload(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <button onClick={downloadTemplate} className="text-[#8e8e93] text-[13px]">
+          Download template
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {rows.map((row, index) => {
+          const rowError = getRowError(row, index);
+          return (
+            <div
+              key={row.key}
+              className={`ios-card rounded-2xl p-3 space-y-2 ${rowError ? 'border border-[#FF453A]/40' : ''}`}
+            >
+              <div className="flex gap-2">
+                <input
+                  value={row.accountName}
+                  onChange={(e) => updateRow(row.key, { accountName: e.target.value })}
+                  placeholder={row.currency === 'NGN' ? 'Name (from bank)' : 'Recipient name'}
+                  className="flex-1 min-w-0 bg-white/[0.04] rounded-xl px-3 py-2 text-white text-[14px] outline-none"
+                />
+                <button
+                  onClick={() => setRows((prev) => (prev.length > 1 ? prev.filter((r) => r.key !== row.key) : [newRow()]))}
+                  className="px-2 text-[#636366] text-[18px]"
+                  aria-label="Remove row"
+                >
+                  ×
+                </button>
+              </div>
+
+              <div className="flex gap-2">
+                <select
+                  value={row.currency}
+                  onChange={(e) => updateRow(row.key, { currency: e.target.value as BatchCurrency })}
+                  className="bg-white/[0.04] rounded-xl px-2 py-2 text-white text-[14px] outline-none"
+                >
+                  {BATCH_CURRENCIES.map((currency) => (
+                    <option key={currency} value={currency}>{currency}</option>
+                  ))}
+                </select>
+                <select
+                  value={row.paymentType}
+                  onChange={(e) => updateRow(row.key, { paymentType: e.target.value as BatchPaymentType })}
+                  className="bg-white/[0.04] rounded-xl px-2 py-2 text-white text-[14px] outline-none"
+                >
+                  {BATCH_PAYMENT_TYPES[row.currency].map((paymentType) => (
+                    <option key={paymentType} value={paymentType}>{PAYMENT_TYPE_LABELS[paymentType]}</option>
+                  ))}
+                </select>
+                <input
+                  value={row.amount}
+                  onChange={(e) => updateRow(row.key, { amount: e.target.value })}
+                  placeholder="Amount"
+                  inputMode="decimal"
+                  className="flex-1 min-w-0 bg-white/[0.04] rounded-xl px-3 py-2 text-white text-[14px] outline-none"
+                />
+              </div>
+
+              <div className="flex gap-2">
+                <input
+                  value={row.destination}
+                  onChange={(e) => updateRow(row.key, { destination: e.target.value })}
+                  placeholder={DESTINATION_PLACEHOLDERS[row.paymentType]}
+                  inputMode="numeric"
+                  className="flex-1 min-w-0 bg-white/[0.04] rounded-xl px-3 py-2 text-white text-[14px] outline-none"
+                />
+                {row.paymentType === 'PAYBILL' && (
+                  <input
+                    value={row.paybillAccount}
+                    onChange={(e) => updateRow(row.key, { paybillAccount: e.target.value })}
+                    placeholder="Account"
+                    className="flex-1 min-w-0 bg-white/[0.04] rounded-xl px-3 py-2 text-white text-[14px] outline-none"
+                  />
+                )}
+              </div>
+
+              {row.paymentType === 'BANK_TRANSFER' && (
+                <BankSelector
+                  institutions={banks}
+                  value={row.bankCode}
+                  onChange={(bankCode) => updateRow(row.key, { bankCode })}
+                  loading={banks.length === 0}
+                />
+              )}
+
+              {rowError && <div className="text-[#FF453A] text-[12px] px-1">{rowError}</div>}
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={() => setRows((prev) => [...prev, newRow({ currency: prev[prev.length - 1]?.currency })])}
+        className="w-full py-2.5 rounded-2xl border border-dashed border-white/[0.12] text-[#8e8e93] text-[14px]"
+      >
+        Add recipient
+      </button>
+
+      {error && <div className="text-[#FF453A] text-[13px] px-1">{error}</div>}
+
+      <button
+        onClick={handleQuote}
+        disabled={loading}
+        className="w-full py-3.5 rounded-2xl bg-[#007AFF] text-white font-semibold disabled:opacity-50"
+      >
+        {loading ? 'Checking recipients...' : `Review ${editableRows.length || ''} payouts`}
+      </button>
+    </div>
+  );
+}
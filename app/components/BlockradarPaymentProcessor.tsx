@@ -3,13 +3,14 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { useMiniKit } from '@coinbase/onchainkit/minikit';
 import Image from 'next/image';
+import { createIdempotencyKey, isQuoteExpired, IDEMPOTENCY_KEY_HEADER } from '@/lib/utils/api-client';
+import { correlationHeaders } from '@/lib/correlation';
 
 // Pretium settlement address for KES/GHS/UGX
 const PRETIUM_SETTLEMENT_ADDRESS = '0x8005ee53e57ab11e11eaa4efe07ee3835dc02f98';
 
 interface BlockradarPaymentProcessorProps {
   amount: string;
-  localAmount?: string;
   phoneNumber?: string;
   tillNumber?: string;
   accountNumber?: string;
@@ -18,14 +19,16 @@ interface BlockradarPaymentProcessorProps {
   currency: 'KES' | 'NGN' | 'GHS' | 'UGX';
   blockradarAddressId: string;
   walletAddress: string;
-  rate?: number | null;
+  rate?: number | null; // Display only - the order uses the quote's rate
+  quoteId: string;
+  correlationId?: string; // Sent as X-Correlation-Id on every API call for this payment
+  quoteExpiresAt?: string;
   onSuccess: (orderId?: string) => void;
   onError: (error: string) => void;
 }
 
 export function BlockradarPaymentProcessor({
   amount,
-  localAmount,
   phoneNumber,
   tillNumber,
   accountNumber,
@@ -34,7 +37,9 @@ export function BlockradarPaymentProcessor({
   currency,
   blockradarAddressId,
   walletAddress,
-  rate,
+  quoteId,
+  correlationId,
+  quoteExpiresAt,
   onSuccess,
   onError
 }: BlockradarPaymentProcessorProps) {
@@ -62,6 +67,10 @@ export function BlockradarPaymentProcessor({
     insufficientBy?: number;
   } | null>(null);
   const successTriggeredRef = useRef(false);
+  // One Idempotency-Key per swipe, reused by any retry of the same request
+  const orderKeyRef = useRef<string | null>(null);
+  const withdrawKeyRef = useRef<string | null>(null);
+  const disburseKeyRef = useRef<{ txHash: string; key: string } | null>(null);
 
   // Swipe slider states
   const [swipeProgress, setSwipeProgress] = useState(0);
@@ -75,10 +84,16 @@ export function BlockradarPaymentProcessor({
     setStatus('creating-order');
     successTriggeredRef.current = false;
 
+    if (!orderKeyRef.current) orderKeyRef.current = createIdempotencyKey('paycrest-order');
+
     try {
       const response = await fetch('/api/paycrest/orders/simple', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          [IDEMPOTENCY_KEY_HEADER]: orderKeyRef.current,
+          ...correlationHeaders(correlationId),
+        },
         body: JSON.stringify({
           amount,
           phoneNumber,
@@ -89,7 +104,7 @@ export function BlockradarPaymentProcessor({
           currency,
           provider: 'Bank Transfer',
           returnAddress: walletAddress, // User's wallet for transaction history tracking
-          ...(rate && { rate }),
+          quoteId,
           ...(context?.user?.fid && {
             fid: context.user.fid,
             farcasterUsername: context.user.username,
@@ -116,6 +131,11 @@ export function BlockradarPaymentProcessor({
 
       const data = await response.json();
 
+      // Held by risk screening (202) - no order was created, nothing to pay into
+      if (data.code === 'UNDER_REVIEW') {
+        throw new Error(data.error);
+      }
+
       if (data.success && data.order) {
         let orderData;
 
@@ -143,10 +163,11 @@ export function BlockradarPaymentProcessor({
         throw new Error('Invalid response from PayCrest API');
       }
     } catch (error) {
+      orderKeyRef.current = null;
       setStatus('error');
       onError(error instanceof Error ? error.message : 'Failed to create order');
     }
-  }, [amount, phoneNumber, tillNumber, accountNumber, bankCode, accountName, currency, walletAddress, rate, onError, context?.user?.fid, context?.user?.username, context?.user?.displayName, context?.user?.pfpUrl, context?.client?.clientFid, context?.client?.platformType, context?.location?.type]);
+  }, [amount, phoneNumber, tillNumber, accountNumber, bankCode, accountName, currency, walletAddress, quoteId, onError, context?.user?.fid, context?.user?.username, context?.user?.displayName, context?.user?.pfpUrl, context?.client?.clientFid, context?.client?.platformType, context?.location?.type, correlationId]);
 
   // Execute Blockradar withdrawal to PayCrest (for NGN)
   const executeBlockradarWithdrawPaycrest = useCallback(async () => {
@@ -171,7 +192,12 @@ export function BlockradarPaymentProcessor({
 
       const response = await fetch('/api/blockradar/withdraw', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          // A PayCrest order is only ever funded once
+          [IDEMPOTENCY_KEY_HEADER]: `paycrest-withdraw-${paycrestOrder.id}`,
+          ...correlationHeaders(correlationId),
+        },
         body: JSON.stringify({
           addressId: blockradarAddressId,
           recipientAddress: paycrestOrder.receiveAddress,
@@ -207,7 +233,7 @@ export function BlockradarPaymentProcessor({
       setStatus('error');
       onError(error instanceof Error ? error.message : 'Withdrawal failed');
     }
-  }, [paycrestOrder, blockradarAddressId, currency, accountName, onSuccess, onError]);
+  }, [paycrestOrder, blockradarAddressId, currency, accountName, onSuccess, onError, correlationId]);
 
   // Poll for withdrawal status until we get a transaction hash
   const pollForTransactionHash = useCallback(async (withdrawalId: string, maxAttempts = 30): Promise<string> => {
@@ -217,7 +243,7 @@ export function BlockradarPaymentProcessor({
       try {
         const statusResponse = await fetch('/api/blockradar/withdraw/status', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', ...correlationHeaders(correlationId) },
           body: JSON.stringify({ withdrawalId }),
         });
 
@@ -250,10 +276,17 @@ export function BlockradarPaymentProcessor({
     }
 
     throw new Error('Transaction hash not available after maximum polling attempts');
-  }, []);
+  }, [correlationId]);
 
   // Execute Blockradar withdrawal to Pretium (for KES/GHS/UGX)
   const executeBlockradarWithdrawPretium = useCallback(async () => {
+    // Never move funds against a quote that can no longer be honoured
+    if (isQuoteExpired(quoteExpiresAt)) {
+      setStatus('error');
+      onError('Your rate has expired. Go back to get a new quote.');
+      return;
+    }
+
     setStatus('processing');
     setProcessingStep('withdrawing');
 
@@ -271,14 +304,21 @@ export function BlockradarPaymentProcessor({
       });
 
       // Step 1: Withdraw USDC to Pretium settlement address
+      if (!withdrawKeyRef.current) withdrawKeyRef.current = createIdempotencyKey('pretium-withdraw');
+      const withdrawKey = withdrawKeyRef.current;
+
       const withdrawResponse = await fetch('/api/blockradar/withdraw', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          [IDEMPOTENCY_KEY_HEADER]: withdrawKey,
+          ...correlationHeaders(correlationId),
+        },
         body: JSON.stringify({
           addressId: blockradarAddressId,
           recipientAddress: PRETIUM_SETTLEMENT_ADDRESS,
           amount: totalAmount.toString(),
-          reference: `pretium-${Date.now()}`,
+          reference: withdrawKey,
           note: `Cashout to ${currency} - ${accountName}`,
           metadata: {
             currency,
@@ -291,12 +331,14 @@ export function BlockradarPaymentProcessor({
 
       if (!withdrawResponse.ok) {
         const errorData = await withdrawResponse.json().catch(() => null);
+        withdrawKeyRef.current = null; // Nothing was sent, a new attempt may withdraw again
         throw new Error(errorData?.error || 'Withdrawal failed');
       }
 
       const withdrawData = await withdrawResponse.json();
 
       if (!withdrawData.success) {
+        withdrawKeyRef.current = null;
         throw new Error(withdrawData.error || 'Withdrawal failed');
       }
 
@@ -327,12 +369,22 @@ export function BlockradarPaymentProcessor({
 
       // Step 2: Call Pretium disburse API with the transaction hash
       setProcessingStep('disbursing');
+      const previousKey = disburseKeyRef.current;
+      const disburseKey = previousKey && previousKey.txHash === transactionHash
+        ? previousKey.key
+        : createIdempotencyKey('pretium-disburse');
+      disburseKeyRef.current = { txHash: transactionHash, key: disburseKey };
+
       const disburseResponse = await fetch('/api/pretium/disburse', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          [IDEMPOTENCY_KEY_HEADER]: disburseKey,
+          ...correlationHeaders(correlationId),
+        },
         body: JSON.stringify({
           amount: baseAmount.toString(),
-          localAmount,
+          quoteId,
           phoneNumber,
           tillNumber,
           accountName,
@@ -366,7 +418,7 @@ export function BlockradarPaymentProcessor({
       setStatus('error');
       onError(error instanceof Error ? error.message : 'Transaction failed');
     }
-  }, [amount, blockradarAddressId, walletAddress, currency, accountName, phoneNumber, tillNumber, context?.user?.fid, onSuccess, onError, pollForTransactionHash, localAmount]);
+  }, [amount, blockradarAddressId, walletAddress, currency, accountName, phoneNumber, tillNumber, context?.user?.fid, onSuccess, onError, pollForTransactionHash, quoteId, quoteExpiresAt, correlationId]);
 
   // Initiate order creation on swipe complete
   const initiatePayment = useCallback(async () => {
@@ -0,0 +1,184 @@
+"use client";
+
+import { useState, useCallback, useRef } from 'react';
+import { useMiniKit } from '@coinbase/onchainkit/minikit';
+import { getPretiumChain, getChainAddressUrl } from '@/lib/pretium/chains';
+import type { PretiumChain } from '@/lib/pretium/types';
+import { DEFAULT_TOKEN, type StablecoinToken } from '@/lib/contracts';
+import { isQuoteExpired, createIdempotencyKey, IDEMPOTENCY_KEY_HEADER } from '@/lib/utils/api-client';
+import { correlationHeaders } from '@/lib/correlation';
+
+interface ChainDepositProcessorProps {
+  amount: string;
+  chain: PretiumChain;
+  depositAddress: string; // Settlement address the quote was locked against
+  senderAddress?: string; // Address the quote was locked to receive from - returnAddress when unset
+  token?: StablecoinToken;
+  phoneNumber?: string;
+  accountName: string;
+  returnAddress: string;
+  quoteId: string;
+  correlationId?: string;
+  quoteExpiresAt?: string;
+  currency: 'KES' | 'GHS' | 'UGX';
+  onSuccess: (transactionCode?: string, txHash?: string) => void;
+  onError: (error: string) => void;
+}
+
+/**
+ * Pretium payout funded on a chain the connected wallet can't sign for.
+ * The user sends the stablecoin from any wallet on that chain and submits the hash;
+ * the deposit is verified on that chain before the payout goes out
+ */
+export function ChainDepositProcessor({
+  amount,
+  chain,
+  depositAddress,
+  senderAddress,
+  token = DEFAULT_TOKEN,
+  phoneNumber,
+  accountName,
+  returnAddress,
+  quoteId,
+  correlationId,
+  quoteExpiresAt,
+  currency,
+  onSuccess,
+  onError
+}: ChainDepositProcessorProps) {
+  const { context } = useMiniKit();
+  const chainConfig = getPretiumChain(chain);
+
+  const [transactionHash, setTransactionHash] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // One Idempotency-Key per submitted hash, reused if the same hash is submitted again
+  const disburseKeyRef = useRef<{ txHash: string; key: string } | null>(null);
+
+  // Normalize amount to 2 decimal places to match the quote
+  const normalizedAmount = (Math.round(parseFloat(amount) * 100) / 100).toFixed(2);
+
+  const copyAddress = async () => {
+    try {
+      await navigator.clipboard.writeText(depositAddress);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard unavailable - the address is still selectable
+    }
+  };
+
+  const handleSubmit = useCallback(async () => {
+    const txHash = transactionHash.trim();
+    if (!txHash) return;
+
+    if (isQuoteExpired(quoteExpiresAt)) {
+      setError('Your rate has expired. Go back to get a new quote.');
+      onError('Quote expired');
+      return;
+    }
+
+    const previousKey = disburseKeyRef.current;
+    const disburseKey = previousKey && previousKey.txHash === txHash
+      ? previousKey.key
+      : createIdempotencyKey('pretium-disburse');
+    disburseKeyRef.current = { txHash, key: disburseKey };
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/pretium/disburse', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [IDEMPOTENCY_KEY_HEADER]: disburseKey,
+          ...correlationHeaders(correlationId),
+        },
+        body: JSON.stringify({
+          amount: normalizedAmount,
+          quoteId,
+          phoneNumber,
+          accountName,
+          transactionHash: txHash,
+          returnAddress,
+          fid: context?.user?.fid,
+          currency,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to verify the deposit');
+      }
+
+      // Held by risk screening (202) - an admin pays it out or refunds the deposit
+      if (result.code === 'UNDER_REVIEW') {
+        throw new Error(result.error);
+      }
+
+      onSuccess(result.transactionCode, txHash);
+    } catch (submitError) {
+      const message = submitError instanceof Error ? submitError.message : 'Failed to verify the deposit';
+      setError(message);
+      onError(message);
+    } finally {
+      setSubmitting(false);
+    }
+  }, [transactionHash, quoteExpiresAt, correlationId, normalizedAmount, quoteId, phoneNumber, accountName, returnAddress, context, currency, onSuccess, onError]);
+
+  const inputClass = 'w-full bg-white/[0.04] rounded-xl px-3 py-2.5 text-white text-[14px] outline-none';
+
+  return (
+    <div className="space-y-4 animate-ios-reveal">
+      <div className="ios-card rounded-2xl p-4 space-y-3">
+        <div className="text-[#8e8e93] text-[13px]">
+          Send exactly <span className="text-white font-semibold">{normalizedAmount} {token}</span> on{' '}
+          <span className="text-white font-semibold">{chainConfig.name}</span> to:
+        </div>
+        <div className="flex items-center gap-2">
+          <a
+            href={getChainAddressUrl(chain, depositAddress)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex-1 min-w-0 text-white text-[13px] font-mono break-all"
+          >
+            {depositAddress}
+          </a>
+          <button
+            onClick={copyAddress}
+            className="px-3 py-1.5 rounded-lg bg-white/10 text-white text-[12px] font-medium shrink-0"
+          >
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+        </div>
+        <div className="text-[#636366] text-[12px]">
+          Only {token} on {chainConfig.name} - other tokens or networks can&apos;t be recovered.
+        </div>
+        <div className="text-[#636366] text-[12px]">
+          Send it from <span className="text-white font-mono break-all">{senderAddress || returnAddress}</span> -
+          the deposit is only accepted from this address.
+        </div>
+      </div>
+
+      <div className="ios-card rounded-2xl p-4 space-y-3">
+        <input
+          value={transactionHash}
+          onChange={(e) => setTransactionHash(e.target.value)}
+          placeholder="Transaction hash"
+          className={inputClass}
+        />
+
+        {error && <div className="text-[#FF453A] text-[13px] px-1">{error}</div>}
+
+        <button
+          onClick={handleSubmit}
+          disabled={submitting || !transactionHash.trim()}
+          className="w-full py-3 rounded-2xl bg-[#007AFF] text-white font-semibold disabled:opacity-50"
+        >
+          {submitting ? 'Verifying deposit...' : 'I\'ve sent it'}
+        </button>
+      </div>
+    </div>
+  );
+}
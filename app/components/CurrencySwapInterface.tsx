@@ -1,9 +1,20 @@
 "use client"
 
 import { useState, useEffect, useCallback, useRef } from "react"
-import { useUSDCBalance } from "@/hooks/useUSDCBalance"
+import { useTokenBalance } from "@/hooks/useUSDCBalance"
 import { useAccount } from "wagmi"
 import Image from "next/image"
+import { apiClient } from "@/lib/utils/api-client"
+import {
+  DEFAULT_PRETIUM_CHAIN,
+  getAvailablePretiumChains,
+  getPretiumChain,
+  isChainTokenSupported,
+  isWalletDepositChain,
+  parseChainAddress,
+} from "@/lib/pretium/chains"
+import { DEFAULT_TOKEN, STABLECOIN_TOKENS, type StablecoinToken } from "@/lib/contracts"
+import type { PretiumChain } from "@/lib/pretium/types"
 
 interface CurrencySwapInterfaceProps {
   onContinue: (data: {
@@ -11,7 +22,16 @@ interface CurrencySwapInterfaceProps {
     localAmount: string
     currency: "KES" | "NGN" | "GHS" | "UGX"
     rate: number
+    quoteId: string
+    quoteExpiresAt: string
+    token: StablecoinToken
+    chain?: PretiumChain
+    depositAddress?: string
+    senderAddress?: string
   }) => void
+  correlationId?: string // Sent with the quote request so it joins the payment's timeline
+  initialCurrency?: "KES" | "NGN" | "GHS" | "UGX" // Prefill, e.g. from a scheduled payout reminder
+  initialReceiveAmount?: string
   className?: string
 }
 
@@ -22,18 +42,42 @@ const CURRENCIES = [
   { code: "UGX", name: "Ugandan Shilling", flag: "🇺🇬", symbol: "USh" },
 ]
 
-export function CurrencySwapInterface({ onContinue, className = "" }: CurrencySwapInterfaceProps) {
-  const { balanceNum: usdcBalance, isLoading: balanceLoading } = useUSDCBalance()
+export function CurrencySwapInterface({ onContinue, correlationId, initialCurrency, initialReceiveAmount, className = "" }: CurrencySwapInterfaceProps) {
   const { address } = useAccount()
 
-  const [receiveCurrency, setReceiveCurrency] = useState<"KES" | "NGN" | "GHS" | "UGX" | null>(null)
+  const [receiveCurrency, setReceiveCurrency] = useState<"KES" | "NGN" | "GHS" | "UGX" | null>(initialCurrency ?? null)
+  // Chain the stablecoin is sent from - Pretium only, Paycrest settles on Base
+  const [depositChain, setDepositChain] = useState<PretiumChain>(DEFAULT_PRETIUM_CHAIN)
+  const sendChain = receiveCurrency && receiveCurrency !== "NGN" ? depositChain : DEFAULT_PRETIUM_CHAIN
+  const depositChains = getAvailablePretiumChains()
+  // Stablecoin sent - limited to those deployed on the send chain (no USDT on Stellar)
+  const [token, setToken] = useState<StablecoinToken>(DEFAULT_TOKEN)
+  const sendTokens = (Object.keys(STABLECOIN_TOKENS) as StablecoinToken[]).filter((t) => isChainTokenSupported(sendChain, t))
+  const sendToken = sendTokens.includes(token) ? token : DEFAULT_TOKEN
+  // Deposits the connected wallet can't sign are only accepted from the address locked
+  // into the quote - required on Tron and Stellar, the connected wallet otherwise
+  const [senderInput, setSenderInput] = useState("")
+  const sendChainConfig = getPretiumChain(sendChain)
+  const needsSender = !isWalletDepositChain(sendChain)
+  const senderRequired = needsSender && sendChainConfig.kind !== "evm"
+  const senderAddress = needsSender && senderInput.trim() ? parseChainAddress(sendChain, senderInput) : undefined
+  const missingSender = senderAddress === null || (senderRequired && !senderAddress)
+  const {
+    balanceNum: usdcBalance,
+    isLoading: balanceLoading,
+    isAvailable: balanceAvailable,
+  } = useTokenBalance(sendToken, sendChain)
   const [sendAmount, setSendAmount] = useState("")
-  const [receiveAmount, setReceiveAmount] = useState("")
+  const [receiveAmount, setReceiveAmount] = useState(initialReceiveAmount ?? "")
   const [rate, setRate] = useState<number | null>(null)
   const [isLoadingRate, setIsLoadingRate] = useState(false)
   const [rateError, setRateError] = useState<string | null>(null)
-  const [focusedInput, setFocusedInput] = useState<"send" | "receive" | null>(null)
+  const [isLockingQuote, setIsLockingQuote] = useState(false)
+  const [quoteError, setQuoteError] = useState<string | null>(null)
+  // A prefilled receive amount sizes the USDC once the rate loads
+  const [focusedInput, setFocusedInput] = useState<"send" | "receive" | null>(initialReceiveAmount ? "receive" : null)
   const [showCurrencyMenu, setShowCurrencyMenu] = useState(false)
+  const [showTokenMenu, setShowTokenMenu] = useState(false)
 
   const sendDebounceTimerRef = useRef<NodeJS.Timeout>()
   const receiveDebounceTimerRef = useRef<NodeJS.Timeout>()
@@ -49,7 +93,7 @@ export function CurrencySwapInterface({ onContinue, className = "" }: CurrencySw
 
       // Use PayCrest for NGN, Pretium for KES, GHS, and UGX
       if (toCurrency === 'NGN') {
-        endpoint = `/api/paycrest/rates/USDC/1/${toCurrency}?network=base`;
+        endpoint = `/api/paycrest/rates/${sendToken}/1/${toCurrency}?network=base`;
         console.log('[NGN Rate] Fetching from PayCrest:', endpoint);
       } else {
         // KES, GHS, UGX use Pretium
@@ -105,7 +149,7 @@ export function CurrencySwapInterface({ onContinue, className = "" }: CurrencySw
     } finally {
       setIsLoadingRate(false)
     }
-  }, [address])
+  }, [address, sendToken])
 
   useEffect(() => {
     if (sendDebounceTimerRef.current) {
@@ -172,18 +216,44 @@ export function CurrencySwapInterface({ onContinue, className = "" }: CurrencySw
     }
   }, [rate])
 
-  const handleContinue = () => {
+  const handleContinue = async () => {
     if (!sendAmount || !receiveAmount || !rate || !receiveCurrency) return
 
     // Round USDC to 2 decimal places to avoid rate mismatch with Pretium
     const normalizedUSDC = (Math.round(parseFloat(sendAmount) * 100) / 100).toFixed(2)
 
-    onContinue({
-      usdcAmount: normalizedUSDC,
-      localAmount: receiveAmount,
-      currency: receiveCurrency,
-      rate,
-    })
+    // Lock the rate shown here - the order is created at the quote's terms, not a re-fetched rate
+    setIsLockingQuote(true)
+    setQuoteError(null)
+    try {
+      const isNGN = receiveCurrency === "NGN"
+      const { quote } = await apiClient.requestQuote({
+        currency: receiveCurrency,
+        amount: normalizedUSDC,
+        provider: isNGN ? "paycrest" : "pretium",
+        token: sendToken,
+        paymentType: isNGN ? "BANK_TRANSFER" : "MOBILE",
+        ...(!isNGN && { localAmount: receiveAmount, chain: sendChain, senderAddress: senderAddress || undefined }),
+      }, correlationId)
+
+      onContinue({
+        usdcAmount: normalizedUSDC,
+        localAmount: receiveAmount,
+        currency: receiveCurrency,
+        rate: quote.rate,
+        quoteId: quote.id,
+        quoteExpiresAt: quote.expiresAt,
+        token: sendToken,
+        ...(!isNGN && { chain: sendChain, depositAddress: quote.depositAddress, senderAddress: quote.senderAddress }),
+      })
+    } catch (error) {
+      console.error('[Quote] Failed to lock quote:', error)
+      setQuoteError(error instanceof Error ? error.message : "Could not lock the rate, please try again")
+      // The rate may have moved - refresh it so the amounts match the next quote
+      fetchRate(receiveCurrency)
+    } finally {
+      setIsLockingQuote(false)
+    }
   }
 
   const handleMaxClick = () => {
@@ -220,7 +290,8 @@ export function CurrencySwapInterface({ onContinue, className = "" }: CurrencySw
     Number.parseFloat(sendAmount) > 0 &&
     Number.parseFloat(receiveAmount) > 0 &&
     !isBelowMinimum
-  const hasInsufficientBalance = Number.parseFloat(sendAmount) > usdcBalance
+  // Tron and Stellar balances aren't read - the deposit is checked on submit instead
+  const hasInsufficientBalance = balanceAvailable && Number.parseFloat(sendAmount) > usdcBalance
 
   return (
     <div className={`w-full max-w-[460px] mx-auto ${className}`}>
@@ -265,23 +336,98 @@ export function CurrencySwapInterface({ onContinue, className = "" }: CurrencySw
                 className="flex-1 min-w-0 bg-transparent text-white text-3xl font-medium outline-none placeholder-[#48484a]"
               />
 
-              <button className="flex items-center gap-2 px-3 py-2 rounded-lg bg-[#3a3a3c] hover:bg-[#48484a] transition-colors shrink-0">
-                <Image
-                  src="/usdc.svg"
-                  alt="USDC"
-                  width={24}
-                  height={24}
-                  className="w-6 h-6"
-                />
-                <span className="text-white font-medium">USDC</span>
-                <svg className="w-4 h-4 text-[#8e8e93]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                </svg>
-              </button>
+              <div className="relative shrink-0">
+                <button
+                  onClick={() => setShowTokenMenu(!showTokenMenu)}
+                  disabled={sendTokens.length < 2}
+                  className="flex items-center gap-2 px-3 py-2 rounded-lg bg-[#3a3a3c] hover:bg-[#48484a] transition-colors"
+                >
+                  <Image
+                    src={STABLECOIN_TOKENS[sendToken].logo}
+                    alt={sendToken}
+                    width={24}
+                    height={24}
+                    className="w-6 h-6"
+                  />
+                  <span className="text-white font-medium">{sendToken}</span>
+                  <svg
+                    className={`w-4 h-4 text-[#8e8e93] transition-transform ${showTokenMenu ? "rotate-180" : ""}`}
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                  </svg>
+                </button>
+
+                {showTokenMenu && (
+                  <>
+                    <div className="fixed inset-0 z-40" onClick={() => setShowTokenMenu(false)} />
+                    <div className="absolute right-0 top-full mt-2 w-48 bg-[#2c2c2e] border border-[#3a3a3c] rounded-xl overflow-hidden z-50 shadow-xl">
+                      {sendTokens.map((t) => (
+                        <button
+                          key={t}
+                          onClick={() => {
+                            setToken(t)
+                            setShowTokenMenu(false)
+                          }}
+                          className="w-full flex items-center gap-3 px-4 py-3 hover:bg-[#3a3a3c] transition-colors"
+                        >
+                          <Image src={STABLECOIN_TOKENS[t].logo} alt={t} width={24} height={24} className="w-6 h-6" />
+                          <div className="flex-1 text-left">
+                            <div className="text-white font-medium text-sm">{t}</div>
+                            <div className="text-[#8e8e93] text-xs">{STABLECOIN_TOKENS[t].name}</div>
+                          </div>
+                          {sendToken === t && (
+                            <svg className="w-5 h-5 text-[#5e5ce6]" fill="currentColor" viewBox="0 0 20 20">
+                              <path
+                                fillRule="evenodd"
+                                d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z"
+                                clipRule="evenodd"
+                              />
+                            </svg>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
             </div>
 
+            {receiveCurrency && receiveCurrency !== "NGN" && depositChains.length > 1 && (
+              <div className="mt-3 flex items-center gap-2 flex-wrap">
+                <span className="text-[#8e8e93] text-xs">Send from</span>
+                {depositChains.map((chain) => (
+                  <button
+                    key={chain.id}
+                    onClick={() => setDepositChain(chain.id)}
+                    className={`px-2.5 py-1 rounded-md text-xs font-medium transition-colors ${
+                      depositChain === chain.id ? "bg-[#5e5ce6] text-white" : "bg-[#3a3a3c] text-[#8e8e93] hover:bg-[#48484a]"
+                    }`}
+                  >
+                    {chain.name}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {needsSender && (
+              <div className="mt-3">
+                <input
+                  value={senderInput}
+                  onChange={(e) => setSenderInput(e.target.value)}
+                  placeholder={`Your ${sendChainConfig.name} address you'll send from${senderRequired ? "" : " (optional)"}`}
+                  className="w-full bg-[#3a3a3c] rounded-lg px-3 py-2 text-white text-xs outline-none placeholder-[#8e8e93]"
+                />
+                {senderAddress === null && (
+                  <div className="mt-2 text-[#ff453a] text-xs">Not a {sendChainConfig.name} address</div>
+                )}
+              </div>
+            )}
+
             {hasInsufficientBalance && <div className="mt-2 text-[#ff453a] text-xs">Insufficient balance</div>}
-            {isBelowMinimum && <div className="mt-2 text-amber-400 text-xs">Minimum ${minAmount} USDC required for {receiveCurrency}</div>}
+            {isBelowMinimum && <div className="mt-2 text-amber-400 text-xs">Minimum ${minAmount} {sendToken} required for {receiveCurrency}</div>}
           </div>
 
           {/* Swap Arrow */}
@@ -306,7 +452,7 @@ export function CurrencySwapInterface({ onContinue, className = "" }: CurrencySw
                 {!isLoadingRate && rate && selectedCurrency && (
                   <>
                     <span className="text-[#8e8e93] text-xs">
-                      1 USDC = {rate.toFixed(2)} {selectedCurrency.code}
+                      1 {sendToken} = {rate.toFixed(2)} {selectedCurrency.code}
                     </span>
                     {rateError && (
                       <span className="text-amber-400 text-[10px] mt-0.5">{rateError}</span>
@@ -403,25 +549,33 @@ export function CurrencySwapInterface({ onContinue, className = "" }: CurrencySw
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
-            <span>Tip: You can enter amount in either USDC or {selectedCurrency.code}</span>
+            <span>Tip: You can enter amount in either {sendToken} or {selectedCurrency.code}</span>
           </div>
         )}
 
+        {quoteError && (
+          <div className="mt-3 text-center text-[#ff453a] text-xs">{quoteError}</div>
+        )}
+
         {/* Action Button */}
         <button
           onClick={handleContinue}
-          disabled={!isValid || hasInsufficientBalance || isLoadingRate}
+          disabled={!isValid || hasInsufficientBalance || missingSender || isLoadingRate || isLockingQuote}
           className="w-full mt-4 bg-[#5e5ce6] hover:bg-[#7d7aff] disabled:bg-[#3a3a3c] disabled:text-[#8e8e93] text-white font-medium py-4 rounded-xl transition-colors"
         >
           {!receiveCurrency
             ? "Select currency"
             : isBelowMinimum
-              ? `Minimum $${minAmount} USDC`
+              ? `Minimum $${minAmount} ${sendToken}`
               : !isValid
                 ? "Enter amount"
                 : hasInsufficientBalance
                   ? "Insufficient balance"
-                  : "Swap"}
+                  : missingSender
+                    ? "Enter the address you send from"
+                    : isLockingQuote
+                    ? "Locking rate..."
+                    : "Swap"}
         </button>
       </div>
     </div>
@@ -0,0 +1,248 @@
+"use client";
+
+import { useState, useEffect, useRef } from 'react';
+import { useAccount } from 'wagmi';
+import { useMiniKit } from '@coinbase/onchainkit/minikit';
+import { useMinisendAuth } from '@/lib/hooks/useMinisendAuth';
+import { useAuthFetch } from '@/lib/hooks/useAuthFetch';
+import { correlationHeaders, createCorrelationId } from '@/lib/correlation';
+import { createIdempotencyKey, IDEMPOTENCY_KEY_HEADER } from '@/lib/utils/api-client';
+import type { OnrampCurrency, OnrampOrder, OnrampQuote } from '@/lib/types/onramp';
+
+const CURRENCIES: { code: OnrampCurrency; label: string; placeholder: string }[] = [
+  { code: 'KES', label: 'KES · M-Pesa / Airtel', placeholder: '0712 345 678' },
+  { code: 'GHS', label: 'GHS · MTN / Vodafone / AirtelTigo', placeholder: '024 123 4567' },
+  { code: 'UGX', label: 'UGX · MTN / Airtel', placeholder: '0772 123 456' },
+];
+
+// How often the open order is re-fetched while the user approves the prompt
+const POLL_INTERVAL_MS = 5000;
+
+interface DepositFlowProps {
+  setActiveTab: (tab: string) => void;
+}
+
+function formatNumber(value: number, digits = 2): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: digits });
+}
+
+export function DepositFlow({ setActiveTab }: DepositFlowProps) {
+  const { context } = useMiniKit();
+  const { address } = useAccount();
+  const { minisendWallet, user } = useMinisendAuth();
+  // Where the server releases the USDC: a Privy user's Minisend wallet, else the connected wallet
+  const walletAddress = user?.platform === 'web' ? minisendWallet : address;
+  const authFetch = useAuthFetch();
+  const fid = context?.user?.fid;
+
+  const [currency, setCurrency] = useState<OnrampCurrency>('KES');
+  const [amount, setAmount] = useState('');
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [quote, setQuote] = useState<OnrampQuote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [order, setOrder] = useState<OnrampOrder | null>(null);
+  const [correlationId] = useState(createCorrelationId);
+
+  // One Idempotency-Key per order attempt, reused by any retry of the same request
+  const orderKeyRef = useRef<string | null>(null);
+
+  // Quote what the amount buys, once the user stops typing
+  useEffect(() => {
+    setQuote(null);
+    setQuoteError(null);
+    if (!amount || Number(amount) <= 0) return;
+
+    const timer = setTimeout(() => {
+      fetch(`/api/pretium/onramp?${new URLSearchParams({ currency, amount })}`)
+        .then(async (response) => {
+          const data = await response.json();
+          if (!response.ok) throw new Error(data.error || 'Failed to get a quote');
+          setQuote(data.quote);
+        })
+        .catch((quoteFetchError) => {
+          setQuoteError(quoteFetchError instanceof Error ? quoteFetchError.message : 'Failed to get a quote');
+        });
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [currency, amount]);
+
+  // Follow the order until the USDC is released or the payment fails
+  useEffect(() => {
+    if (!order || !walletAddress || order.status === 'released' || order.status === 'failed') return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await authFetch(`/api/pretium/onramp/${order.transactionCode}`);
+        if (response.ok) setOrder((await response.json()).order);
+      } catch {
+        // Try again on the next tick
+        setOrder((prev) => (prev ? { ...prev } : prev));
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [order, walletAddress, authFetch]);
+
+  const handleSubmit = async () => {
+    if (!walletAddress || !quote) return;
+    if (!orderKeyRef.current) orderKeyRef.current = createIdempotencyKey('onramp');
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await authFetch('/api/pretium/onramp', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [IDEMPOTENCY_KEY_HEADER]: orderKeyRef.current,
+          ...correlationHeaders(correlationId),
+        },
+        body: JSON.stringify({ currency, amount, phoneNumber, fid }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to start the payment');
+
+      setOrder(data.order);
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : 'Failed to start the payment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const startOver = () => {
+    orderKeyRef.current = null;
+    setOrder(null);
+    setAmount('');
+    setError(null);
+  };
+
+  const inputClass = 'w-full bg-white/[0.04] rounded-xl px-3 py-2.5 text-white text-[14px] outline-none';
+  const selected = CURRENCIES.find((c) => c.code === currency)!;
+
+  return (
+    <div className="max-w-md mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setActiveTab('home')}
+          className="w-10 h-10 rounded-full bg-white/10 hover:bg-white/20 border border-white/10 flex items-center justify-center transition-all duration-200"
+          title="Go back"
+        >
+          <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <h1 className="text-white text-[17px] font-semibold">Buy USDC</h1>
+        <span className="w-10" />
+      </div>
+
+      {!walletAddress ? (
+        <div className="ios-card rounded-2xl p-6 text-center text-[#8e8e93] text-[15px]">
+          Sign in or connect your wallet to buy USDC.
+        </div>
+      ) : order ? (
+        <div className="ios-card rounded-2xl p-5 space-y-3 text-center">
+          {order.status === 'pending' && (
+            <>
+              <div className="text-white text-[17px] font-semibold">Check your phone</div>
+              <p className="text-[#8e8e93] text-[14px]">
+                Approve the {formatNumber(order.amountLocal)} {order.currency} payment prompt sent to {order.phoneNumber}.
+              </p>
+            </>
+          )}
+          {order.status === 'paid' && (
+            <>
+              <div className="text-white text-[17px] font-semibold">Payment received</div>
+              <p className="text-[#8e8e93] text-[14px]">
+                Sending {formatNumber(order.amountUSDC)} USDC to your wallet...
+              </p>
+            </>
+          )}
+          {order.status === 'released' && (
+            <>
+              <div className="text-[#30D158] text-[17px] font-semibold">USDC received</div>
+              <p className="text-[#8e8e93] text-[14px]">
+                {formatNumber(order.amountUSDC)} USDC is in your wallet.
+              </p>
+              {order.releaseTxHash && (
+                <a
+                  href={`https://basescan.org/tx/${order.releaseTxHash}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-[#0A84FF] text-[13px]"
+                >
+                  View on Basescan
+                </a>
+              )}
+            </>
+          )}
+          {order.status === 'failed' && (
+            <>
+              <div className="text-[#FF453A] text-[17px] font-semibold">Payment not completed</div>
+              <p className="text-[#8e8e93] text-[14px]">{order.error || 'The mobile money payment did not go through.'}</p>
+            </>
+          )}
+          {order.receiptNumber && (
+            <div className="text-[#636366] text-[12px]">Receipt {order.receiptNumber}</div>
+          )}
+
+          {(order.status === 'released' || order.status === 'failed') && (
+            <button
+              onClick={startOver}
+              className="w-full py-3 rounded-2xl bg-[#007AFF] text-white font-semibold"
+            >
+              {order.status === 'failed' ? 'Try again' : 'Buy more'}
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="ios-card rounded-2xl p-4 space-y-3">
+          <select
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value as OnrampCurrency)}
+            className={inputClass}
+          >
+            {CURRENCIES.map((c) => <option key={c.code} value={c.code}>{c.label}</option>)}
+          </select>
+
+          <input
+            value={amount}
+            onChange={(e) => setAmount(e.target.value.replace(/[^\d]/g, ''))}
+            placeholder={`Amount in ${currency}`}
+            inputMode="numeric"
+            className={inputClass}
+          />
+          <div className="text-[12px] px-1">
+            {quoteError ? (
+              <span className="text-[#FF453A]">{quoteError}</span>
+            ) : quote ? (
+              <span className="text-[#636366]">
+                ≈ {formatNumber(quote.amountUSDC)} USDC · fee {formatNumber(quote.fee)} {quote.currency} · {formatNumber(quote.rate)} {quote.currency}/USDC
+              </span>
+            ) : (
+              <span className="text-[#636366]">You pay with mobile money and receive USDC on Base</span>
+            )}
+          </div>
+
+          <input
+            value={phoneNumber}
+            onChange={(e) => setPhoneNumber(e.target.value)}
+            placeholder={selected.placeholder}
+            type="tel"
+            className={inputClass}
+          />
+
+          {error && <div className="text-[#FF453A] text-[13px] px-1">{error}</div>}
+
+          <button
+            onClick={handleSubmit}
+            disabled={submitting || !quote || !phoneNumber}
+            className="w-full py-3 rounded-2xl bg-[#007AFF] text-white font-semibold disabled:opacity-50"
+          >
+            {submitting ? 'Sending prompt...' : 'Pay with mobile money'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
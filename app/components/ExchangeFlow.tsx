@@ -14,15 +14,26 @@ import { PretiumReceipt } from './PretiumReceipt';
 import { PaycrestReceipt } from './PaycrestReceipt';
 import { CurrencySwapInterface } from './CurrencySwapInterface';
 import { SavedRecipients } from './SavedRecipients';
-import { saveRecipient, SavedRecipient } from '@/lib/recipient-storage';
+import { saveRecipient, getRecipientOwner, hasFreshVerifiedName, SavedRecipient } from '@/lib/recipient-storage';
+import { useAuthFetch } from '@/lib/hooks/useAuthFetch';
 import { BankSelector } from './BankSelector';
 import { FormInput } from './FormInput';
 import { PhoneNumberInput } from './PhoneNumberInput';
 import { AccountNumberInput } from './AccountNumberInput';
 import { useMinisendAuth } from '@/lib/hooks/useMinisendAuth';
+import { createCorrelationId } from '@/lib/correlation';
+import { apiClient, getLimitViolation } from '@/lib/utils/api-client';
+import type { LimitViolation } from '@/lib/types/limits';
+import type { PayoutSchedule } from '@/lib/types/schedules';
+import type { PretiumChain } from '@/lib/pretium/types';
+import type { StablecoinToken } from '@/lib/contracts';
+import { isWalletDepositChain } from '@/lib/pretium/chains';
+import { ChainDepositProcessor } from './ChainDepositProcessor';
 
 interface ExchangeFlowProps {
   setActiveTab: (tab: string) => void;
+  scheduleId?: string | null; // Opened from a scheduled payout reminder - prefill its payment
+  prefillCurrency?: 'KES' | 'NGN' | 'GHS' | 'UGX' | null; // Opened from a rate alert
 }
 
 // Helper function to get currency display info
@@ -39,7 +50,37 @@ function getCurrencyInfo(currency: 'KES' | 'NGN' | 'GHS' | 'UGX') {
   }
 }
 
-export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
+// What a refused payout means for the user and what they can do about it
+function explainLimitViolation(violation: LimitViolation) {
+  switch (violation.rule) {
+    case 'below_minimum':
+      return { title: 'Amount too small', hint: `Send at least $${violation.limit} USDC to ${violation.currency}.` };
+    case 'above_maximum':
+      return { title: 'Amount too large', hint: `Split it into payments of up to $${violation.limit} USDC each.` };
+    case 'daily_cap':
+      return {
+        title: 'Daily limit reached',
+        hint: `You can send $${violation.remaining ?? 0} USDC more right now. The limit covers the last 24 hours.`,
+      };
+    case 'monthly_cap':
+      return {
+        title: 'Monthly limit reached',
+        hint: `You can send $${violation.remaining ?? 0} USDC more right now. The limit covers the last 30 days.`,
+      };
+    case 'new_recipients_per_day':
+      return {
+        title: 'Too many new recipients today',
+        hint: 'You can still pay people you have paid before, or try this recipient again tomorrow.',
+      };
+    case 'recipient_velocity':
+      return {
+        title: 'Too many recipients at once',
+        hint: `Wait up to ${violation.windowMinutes} minutes, or pay someone you have paid recently.`,
+      };
+  }
+}
+
+export function ExchangeFlow({ setActiveTab, scheduleId, prefillCurrency }: ExchangeFlowProps) {
   const { context } = useMiniKit();
   const { address, isConnected } = useAccount();
   const { minisendWallet, user, isLoading: authLoading } = useMinisendAuth();
@@ -47,6 +88,9 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
   // User can proceed if they have either a connected wallet OR email authentication
   const hasWallet = isConnected && address;
   const walletAddress = address || minisendWallet;
+  // Saved recipients follow the Privy user on web, the wallet elsewhere
+  const recipientOwner = getRecipientOwner(user, walletAddress);
+  const authFetch = useAuthFetch();
   const isMiniKitEnvironment = !!context?.user;
 
   // Determine if user should use Blockradar for payments
@@ -77,11 +121,16 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
     setMounted(true);
   }, []);
 
+  // One correlation ID per payment: sent with every API call, stored on the order and
+  // attached to analytics events, so support can trace the payment end to end
+  const [correlationId] = useState(createCorrelationId);
+
   // Track component mount
   useEffect(() => {
     if (mounted && context) {
       // Track offramp flow start
       trackOffRampEvent('flow_started', {
+        correlationId,
         step: 1,
         success: true,
       }, context || undefined);
@@ -94,7 +143,7 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
         }, context || undefined);
       }
     }
-  }, [mounted, context, address, isConnected, hasWallet, walletAddress, isMiniKitEnvironment]);
+  }, [mounted, context, address, isConnected, hasWallet, walletAddress, isMiniKitEnvironment, correlationId]);
 
   // Form state with new swap step
   const [step, setStep] = useState<'swap' | 'details' | 'payment' | 'success'>('swap');
@@ -103,6 +152,12 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
     localAmount: string;
     currency: 'KES' | 'NGN' | 'GHS' | 'UGX';
     rate: number;
+    quoteId: string;
+    quoteExpiresAt: string;
+    token: StablecoinToken; // Stablecoin picked on the swap step
+    chain?: PretiumChain; // Pretium deposit chain picked on the swap step
+    depositAddress?: string;
+    senderAddress?: string; // Locked into the quote for deposits from another wallet
   } | null>(null);
   const [formData, setFormData] = useState({
     phoneNumber: '',
@@ -111,11 +166,30 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
     accountName: '',
   });
   const [verifyingAccount, setVerifyingAccount] = useState(false);
+  const [checkingLimits, setCheckingLimits] = useState(false);
+  const [limitError, setLimitError] = useState<{ message: string; violation: LimitViolation } | null>(null);
   const [accountVerified, setAccountVerified] = useState(false);
+  // Name the provider confirmed, and for which phone or bank account
+  const [verifiedName, setVerifiedName] = useState<{ destination: string; name: string } | null>(null);
   const [institutions, setInstitutions] = useState<{code: string, name: string, type: string}[]>([]);
   const [loadingInstitutions, setLoadingInstitutions] = useState(false);
   const [transactionCode, setTransactionCode] = useState<string>('');
   const [paycrestOrderId, setPaycrestOrderId] = useState<string>('');
+  const [schedulePrefill, setSchedulePrefill] = useState<PayoutSchedule | null>(null);
+
+  // A reminder link carries the schedule - load its amount and recipient
+  useEffect(() => {
+    if (!scheduleId || !recipientOwner) return;
+
+    authFetch(`/api/schedules/${scheduleId}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (data?.schedule?.recipient) setSchedulePrefill(data.schedule);
+      })
+      .catch(() => {
+        // Fall back to an empty form
+      });
+  }, [scheduleId, recipientOwner, authFetch]);
 
   // DEBUG: Log which payment processor will be used when payment step is reached
   useEffect(() => {
@@ -125,7 +199,7 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
         isConnected,
         useBlockradarPayment,
         blockradarAddressId: user?.blockradarAddressId,
-        willUseBlockradar: swapData.currency === 'NGN' && useBlockradarPayment && !!user?.blockradarAddressId,
+        willUseBlockradar: swapData.currency === 'NGN' && useBlockradarPayment && !!user?.blockradarAddressId && swapData.token === 'USDC',
         willUsePretium: swapData.currency === 'KES' || swapData.currency === 'GHS' || swapData.currency === 'UGX',
       });
     }
@@ -163,7 +237,8 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
         body: JSON.stringify({
           phoneNumber,
           type: 'MOBILE',
-          currency: swapData.currency
+          currency: swapData.currency,
+          owner: recipientOwner,
         }),
       });
 
@@ -173,6 +248,7 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
         // Set the account name from Pretium's response if we got one
         if (data.accountName && data.verified) {
           setFormData(prev => ({ ...prev, accountName: data.accountName }));
+          setVerifiedName({ destination: phoneNumber, name: data.accountName });
         }
         // Mark as verified if phone format is valid (even if we don't get name from Pretium)
         setAccountVerified(true);
@@ -185,7 +261,7 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
     } finally {
       setVerifyingAccount(false);
     }
-  }, [formData.accountName, swapData]);
+  }, [formData.accountName, swapData, recipientOwner]);
 
   // Verify account for NGN using PayCrest
   const verifyAccount = useCallback(async (accountNumber: string, bankCode: string) => {
@@ -201,7 +277,8 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
         body: JSON.stringify({
           accountNumber,
           bankCode,
-          currency: 'NGN'
+          currency: 'NGN',
+          owner: recipientOwner,
         }),
       });
 
@@ -211,6 +288,7 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
         // Set the account name from PayCrest's response
         if (data.accountName) {
           setFormData(prev => ({ ...prev, accountName: data.accountName }));
+          setVerifiedName({ destination: `${bankCode}:${accountNumber}`, name: data.accountName });
         }
         setAccountVerified(true);
       } else {
@@ -222,7 +300,7 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
     } finally {
       setVerifyingAccount(false);
     }
-  }, [formData.accountName]);
+  }, [formData.accountName, recipientOwner]);
 
   // Check if account number format is valid (10+ digits for Nigerian banks)
   const isAccountNumberValid = formData.accountNumber.length >= 10 &&
@@ -238,6 +316,13 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
     ? formData.phoneNumber.length >= 9 && formData.phoneNumber.length <= 12 && /^(\+?256|0)?[7]\d{8}$/.test(formData.phoneNumber)
     : false;
 
+  // The confirmed name, only while the entered recipient is the one it was confirmed for
+  const currentVerifiedName = verifiedName && verifiedName.destination === (swapData?.currency === 'NGN'
+    ? `${formData.bankCode}:${formData.accountNumber}`
+    : formData.phoneNumber)
+    ? verifiedName.name
+    : undefined;
+
   // Auto-verify phone number for KES, GHS, and UGX
   useEffect(() => {
     if (swapData && (swapData.currency === 'KES' || swapData.currency === 'GHS' || swapData.currency === 'UGX') && isPhoneNumberValid && !accountVerified) {
@@ -267,6 +352,11 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
     }
   }, [formData.accountNumber, formData.bankCode, swapData, isAccountNumberValid, accountVerified, verifyAccount]);
 
+  // A limit explanation only applies to the recipient and amount it was checked for
+  useEffect(() => {
+    setLimitError(null);
+  }, [formData.phoneNumber, formData.accountNumber, formData.bankCode, swapData]);
+
   // Fetch institutions when step changes to details with NGN
   useEffect(() => {
     if (step === 'details' && swapData && swapData.currency === 'NGN') {
@@ -281,11 +371,12 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
     const stepNumber = step === 'swap' ? 1 : step === 'details' ? 2 : step === 'payment' ? 3 : 4;
 
     trackOffRampEvent('step_changed', {
+      correlationId,
       step: stepNumber,
       currency: swapData.currency,
       amount: parseFloat(swapData.localAmount) || 0,
     }, context || undefined);
-  }, [step, swapData, context]);
+  }, [step, swapData, context, correlationId]);
 
   // Show wallet connection if not connected or not mounted
   // For MiniKit users, auto-detect wallet from context
@@ -361,10 +452,26 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
       {step === 'swap' && (
         <div className="overflow-visible">
           <CurrencySwapInterface
+            key={schedulePrefill?.id || prefillCurrency || 'swap'}
+            correlationId={correlationId}
+            initialCurrency={schedulePrefill?.currency || prefillCurrency || undefined}
+            initialReceiveAmount={schedulePrefill ? String(schedulePrefill.amountLocal) : undefined}
             onContinue={(data) => {
               setSwapData(data);
 
+              const scheduledRecipient = schedulePrefill?.recipient;
+              if (scheduledRecipient && scheduledRecipient.type === data.currency) {
+                setFormData(prev => ({
+                  ...prev,
+                  phoneNumber: scheduledRecipient.phoneNumber || '',
+                  accountNumber: scheduledRecipient.accountNumber || '',
+                  bankCode: scheduledRecipient.bankCode || '',
+                  accountName: scheduledRecipient.accountName,
+                }));
+              }
+
               trackOffRampEvent('swap_completed', {
+                correlationId,
                 currency: data.currency,
                 amount: parseFloat(data.localAmount),
                 usdcAmount: parseFloat(data.usdcAmount),
@@ -386,6 +493,7 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
         <div className="space-y-4">
           {/* Saved Recipients Section */}
           <SavedRecipients
+            owner={recipientOwner}
             currency={swapData.currency}
             currentPhone={formData.phoneNumber}
             currentAccount={formData.accountNumber}
@@ -404,7 +512,16 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
                   accountName: recipient.accountName,
                 }));
               }
-              setAccountVerified(true);
+              // A recently verified name is reused; otherwise the account is verified again
+              if (hasFreshVerifiedName(recipient)) {
+                setVerifiedName({
+                  destination: recipient.type === 'NGN' ? `${recipient.bankCode}:${recipient.accountNumber}` : recipient.phoneNumber || '',
+                  name: recipient.verifiedName || '',
+                });
+                setAccountVerified(true);
+              } else {
+                setAccountVerified(false);
+              }
             }}
           />
 
@@ -498,10 +615,50 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
             </>
           )}
 
+          {limitError && (
+            <div className="p-4 bg-[#1c1c1e] border border-red-500/30 rounded-xl">
+              <div className="text-red-400 font-medium text-sm">{explainLimitViolation(limitError.violation).title}</div>
+              <div className="text-white text-sm mt-1">{limitError.message}</div>
+              <div className="text-gray-400 text-xs mt-2">{explainLimitViolation(limitError.violation).hint}</div>
+            </div>
+          )}
+
           <button
-            onClick={() => {
+            onClick={async () => {
+              // Explain a payout the limits engine would refuse before any USDC moves.
+              // Order creation enforces the same limits, so a failed check lets the user continue
+              setCheckingLimits(true);
+              setLimitError(null);
+              try {
+                await apiClient.checkTransactionLimits({
+                  walletAddress: walletAddress || undefined,
+                  currency: swapData.currency,
+                  amount: swapData.usdcAmount,
+                  phoneNumber: formData.phoneNumber || undefined,
+                  accountNumber: formData.accountNumber || undefined,
+                  bankCode: formData.bankCode || undefined,
+                }, correlationId);
+              } catch (error) {
+                const violation = getLimitViolation(error);
+                if (violation) {
+                  setLimitError({ message: (error as Error).message, violation });
+                  trackOffRampEvent('limit_exceeded', {
+                    correlationId,
+                    currency: swapData.currency,
+                    usdcAmount: parseFloat(swapData.usdcAmount),
+                    error: violation.rule,
+                    step: 2,
+                    success: false,
+                  }, context || undefined);
+                  return;
+                }
+              } finally {
+                setCheckingLimits(false);
+              }
+
               // Track details completion
               trackOffRampEvent('details_completed', {
+                correlationId,
                 currency: swapData.currency,
                 amount: parseFloat(swapData.localAmount),
                 usdcAmount: parseFloat(swapData.usdcAmount),
@@ -513,13 +670,14 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
               setStep('payment');
             }}
             disabled={
+              checkingLimits ||
               !formData.accountName ||
               ((swapData.currency === 'KES' || swapData.currency === 'GHS' || swapData.currency === 'UGX') && !formData.phoneNumber) ||
               (swapData.currency === 'NGN' && (!formData.accountNumber || !formData.bankCode || !accountVerified))
             }
             className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white font-bold py-4 px-6 rounded-xl transition-all duration-200 border border-blue-500 hover:border-blue-400 disabled:border-gray-600"
           >
-            Continue to Payment
+            {checkingLimits ? 'Checking limits...' : 'Continue to Payment'}
           </button>
           </div>
         </>
@@ -587,7 +745,7 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
                     </div>
                     <span className="text-[#8e8e93] text-xs sm:text-sm truncate">Rate</span>
                   </div>
-                  <span className="text-white font-semibold text-xs sm:text-sm flex-shrink-0">1 USDC = {swapData.rate.toFixed(2)}</span>
+                  <span className="text-white font-semibold text-xs sm:text-sm flex-shrink-0">1 {swapData.token} = {swapData.rate.toFixed(2)}</span>
                 </div>
 
                 <div className="h-px bg-[#3a3a3c]"></div>
@@ -623,22 +781,85 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
 
           {/* KES/GHS/UGX - Pretium */}
           {(swapData.currency === 'KES' || swapData.currency === 'GHS' || swapData.currency === 'UGX') ? (
-            useBlockradarPayment && user?.blockradarAddressId ? (
+            swapData.chain && swapData.depositAddress && !isWalletDepositChain(swapData.chain) ? (
+              /* Funded from another chain - sent manually, then verified by hash */
+              <ChainDepositProcessor
+                amount={swapData.usdcAmount}
+                token={swapData.token}
+                chain={swapData.chain}
+                depositAddress={swapData.depositAddress}
+                senderAddress={swapData.senderAddress}
+                phoneNumber={formData.phoneNumber}
+                accountName={formData.accountName}
+                returnAddress={walletAddress || ''}
+                quoteId={swapData.quoteId}
+                correlationId={correlationId}
+                quoteExpiresAt={swapData.quoteExpiresAt}
+                currency={swapData.currency}
+                onSuccess={(txCode) => {
+                  if (txCode) {
+                    setTransactionCode(txCode);
+                  }
+
+                  trackOffRampEvent('payment_completed', {
+                    correlationId,
+                    currency: swapData.currency,
+                    amount: parseFloat(swapData.localAmount),
+                    usdcAmount: parseFloat(swapData.usdcAmount),
+                    rate: swapData.rate,
+                    phoneNumber: formData.phoneNumber,
+                    provider: 'PRETIUM',
+                    step: 3,
+                    success: true,
+                  }, context || undefined);
+
+                  if (formData.accountName && recipientOwner) {
+                    saveRecipient(authFetch, {
+                      type: swapData.currency,
+                      phoneNumber: formData.phoneNumber,
+                      accountNumber: formData.accountNumber,
+                      accountName: formData.accountName,
+                      bankCode: formData.bankCode,
+                      bankName: undefined,
+                      verifiedName: currentVerifiedName,
+                    });
+                  }
+
+                  setStep('success');
+                }}
+                onError={(error) => {
+                  trackOffRampEvent('payment_error', {
+                    correlationId,
+                    currency: swapData.currency,
+                    amount: parseFloat(swapData.localAmount),
+                    usdcAmount: parseFloat(swapData.usdcAmount),
+                    rate: swapData.rate,
+                    provider: 'PRETIUM',
+                    error: error,
+                    step: 3,
+                    success: false,
+                  }, context || undefined);
+                }}
+              />
+            ) : useBlockradarPayment && user?.blockradarAddressId && swapData.token === 'USDC' ? (
               <BlockradarPaymentProcessor
                 amount={swapData.usdcAmount}
-                localAmount={swapData.localAmount}
                 phoneNumber={formData.phoneNumber}
                 accountName={formData.accountName}
                 currency={swapData.currency}
                 blockradarAddressId={user.blockradarAddressId}
                 walletAddress={walletAddress || ''}
                 rate={swapData.rate}
+                quoteId={swapData.quoteId}
+                correlationId={correlationId}
+                quoteExpiresAt={swapData.quoteExpiresAt}
                 onSuccess={(txCode) => {
                   if (txCode) {
                     setTransactionCode(txCode);
                   }
 
                   trackOffRampEvent('payment_completed', {
+                    correlationId,
                     currency: swapData.currency,
                     amount: parseFloat(swapData.localAmount),
                     usdcAmount: parseFloat(swapData.usdcAmount),
@@ -649,14 +870,15 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
                     success: true,
                   }, context || undefined);
 
-                  if (formData.accountName) {
-                    saveRecipient({
+                  if (formData.accountName && recipientOwner) {
+                    saveRecipient(authFetch, {
                       type: swapData.currency,
                       phoneNumber: formData.phoneNumber,
                       accountNumber: formData.accountNumber,
                       accountName: formData.accountName,
                       bankCode: formData.bankCode,
                       bankName: undefined,
+                      verifiedName: currentVerifiedName,
                     });
                   }
 
@@ -664,6 +886,7 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
                 }}
                 onError={(error) => {
                   trackOffRampEvent('payment_error', {
+                    correlationId,
                     currency: swapData.currency,
                     amount: parseFloat(swapData.localAmount),
                     usdcAmount: parseFloat(swapData.usdcAmount),
@@ -678,11 +901,14 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
             ) : (
               <PretiumPaymentProcessor
                 amount={swapData.usdcAmount}
-                localAmount={swapData.localAmount}
+                token={swapData.token}
                 phoneNumber={formData.phoneNumber}
                 accountName={formData.accountName}
                 returnAddress={walletAddress || ''}
                 rate={swapData.rate}
+                quoteId={swapData.quoteId}
+                correlationId={correlationId}
+                quoteExpiresAt={swapData.quoteExpiresAt}
                 currency={swapData.currency}
                 onSuccess={(txCode) => {
                   if (txCode) {
@@ -690,6 +916,7 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
                   }
 
                   trackOffRampEvent('payment_completed', {
+                    correlationId,
                     currency: swapData.currency,
                     amount: parseFloat(swapData.localAmount),
                     usdcAmount: parseFloat(swapData.usdcAmount),
@@ -700,14 +927,15 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
                     success: true,
                   }, context || undefined);
 
-                  if (formData.accountName) {
-                    saveRecipient({
+                  if (formData.accountName && recipientOwner) {
+                    saveRecipient(authFetch, {
                       type: swapData.currency,
                       phoneNumber: formData.phoneNumber,
                       accountNumber: formData.accountNumber,
                       accountName: formData.accountName,
                       bankCode: formData.bankCode,
                       bankName: undefined,
+                      verifiedName: currentVerifiedName,
                     });
                   }
 
@@ -715,6 +943,7 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
                 }}
                 onError={(error) => {
                   trackOffRampEvent('payment_error', {
+                    correlationId,
                     currency: swapData.currency,
                     amount: parseFloat(swapData.localAmount),
                     usdcAmount: parseFloat(swapData.usdcAmount),
@@ -729,7 +958,7 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
             )
           ) : swapData.currency === 'NGN' ? (
             /* NGN - PayCrest */
-            useBlockradarPayment && user?.blockradarAddressId ? (
+            useBlockradarPayment && user?.blockradarAddressId && swapData.token === 'USDC' ? (
               <BlockradarPaymentProcessor
                 amount={swapData.usdcAmount}
                 phoneNumber={formData.phoneNumber}
@@ -740,12 +969,16 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
                 blockradarAddressId={user.blockradarAddressId}
                 walletAddress={walletAddress || ''}
                 rate={swapData.rate}
+                quoteId={swapData.quoteId}
+                correlationId={correlationId}
+                quoteExpiresAt={swapData.quoteExpiresAt}
                 onSuccess={(orderId) => {
                   if (orderId) {
                     setPaycrestOrderId(orderId);
                   }
 
                   trackOffRampEvent('payment_completed', {
+                    correlationId,
                     currency: swapData.currency,
                     amount: parseFloat(swapData.localAmount),
                     usdcAmount: parseFloat(swapData.usdcAmount),
@@ -758,15 +991,16 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
                     success: true,
                   }, context || undefined);
 
-                  if (formData.accountName) {
+                  if (formData.accountName && recipientOwner) {
                     const bankName = institutions.find(inst => inst.code === formData.bankCode)?.name;
-                    saveRecipient({
+                    saveRecipient(authFetch, {
                       type: swapData.currency,
                       phoneNumber: formData.phoneNumber,
                       accountNumber: formData.accountNumber,
                       accountName: formData.accountName,
                       bankCode: formData.bankCode,
                       bankName: bankName,
+                      verifiedName: currentVerifiedName,
                     });
                   }
 
@@ -774,6 +1008,7 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
                 }}
                 onError={(error) => {
                   trackOffRampEvent('payment_error', {
+                    correlationId,
                     currency: swapData.currency,
                     amount: parseFloat(swapData.localAmount),
                     usdcAmount: parseFloat(swapData.usdcAmount),
@@ -788,6 +1023,7 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
             ) : (
               <PaymentProcessor
                 amount={swapData.usdcAmount}
+                token={swapData.token}
                 phoneNumber={formData.phoneNumber}
                 accountNumber={formData.accountNumber}
                 bankCode={formData.bankCode}
@@ -795,12 +1031,15 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
                 currency={swapData.currency}
                 returnAddress={walletAddress || ''}
                 rate={swapData.rate}
+                quoteId={swapData.quoteId}
+                correlationId={correlationId}
                 onSuccess={(orderId) => {
                   if (orderId) {
                     setPaycrestOrderId(orderId);
                   }
 
                   trackOffRampEvent('payment_completed', {
+                    correlationId,
                     currency: swapData.currency,
                     amount: parseFloat(swapData.localAmount),
                     usdcAmount: parseFloat(swapData.usdcAmount),
@@ -813,15 +1052,16 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
                     success: true,
                   }, context || undefined);
 
-                  if (formData.accountName) {
+                  if (formData.accountName && recipientOwner) {
                     const bankName = institutions.find(inst => inst.code === formData.bankCode)?.name;
-                    saveRecipient({
+                    saveRecipient(authFetch, {
                       type: swapData.currency,
                       phoneNumber: formData.phoneNumber,
                       accountNumber: formData.accountNumber,
                       accountName: formData.accountName,
                       bankCode: formData.bankCode,
                       bankName: bankName,
+                      verifiedName: currentVerifiedName,
                     });
                   }
 
@@ -829,6 +1069,7 @@ export function ExchangeFlow({ setActiveTab }: ExchangeFlowProps) {
                 }}
                 onError={(error) => {
                   trackOffRampEvent('payment_error', {
+                    correlationId,
                     currency: swapData.currency,
                     amount: parseFloat(swapData.localAmount),
                     usdcAmount: parseFloat(swapData.usdcAmount),
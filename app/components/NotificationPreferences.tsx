@@ -0,0 +1,247 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAccount } from 'wagmi';
+import { useMiniKit } from '@coinbase/onchainkit/minikit';
+import { useMinisendAuth } from '@/lib/hooks/useMinisendAuth';
+import { useAuthFetch } from '@/lib/hooks/useAuthFetch';
+import { getRecipientOwner } from '@/lib/recipient-storage';
+import type {
+  NotificationCategory,
+  NotificationChannel,
+  NotificationLanguage,
+  NotificationPreferences as Preferences,
+} from '@/lib/types/notification';
+
+const CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  order_status: 'Order status',
+  rate_alerts: 'Rate alerts',
+  marketing: 'News & offers',
+  weekly_summary: 'Weekly summary',
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  farcaster: 'Farcaster',
+  email: 'Email',
+  in_app: 'In-app',
+};
+
+const LANGUAGE_LABELS: Record<NotificationLanguage, string> = {
+  en: 'English',
+  sw: 'Kiswahili',
+  fr: 'Français',
+};
+
+const TIME_ZONES = ['Africa/Nairobi', 'Africa/Kampala', 'Africa/Lagos', 'Africa/Accra'];
+
+const DEFAULT_QUIET_HOURS = { start: '22:00', end: '07:00' };
+
+export function NotificationPreferences() {
+  const { context } = useMiniKit();
+  const { address } = useAccount();
+  const { minisendWallet, user } = useMinisendAuth();
+  const owner = getRecipientOwner(user, address || minisendWallet);
+  const authFetch = useAuthFetch({ farcaster: Boolean(context?.user?.fid) });
+
+  const [open, setOpen] = useState(false);
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!owner) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await authFetch('/api/notification-preferences');
+      if (!response.ok) throw new Error('Failed to load notification preferences');
+      setPreferences((await response.json()).preferences);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load notification preferences');
+    } finally {
+      setLoading(false);
+    }
+  }, [owner, authFetch]);
+
+  useEffect(() => {
+    if (open && !preferences) load();
+  }, [open, preferences, load]);
+
+  const update = (changes: Partial<Preferences>) => {
+    setPreferences((prev) => (prev ? { ...prev, ...changes } : prev));
+    setSaved(false);
+  };
+
+  const toggleChannel = (category: NotificationCategory, channel: NotificationChannel) => {
+    if (!preferences) return;
+    const current = preferences.channels[category];
+    update({
+      channels: { ...preferences.channels, [category]: { ...current, [channel]: !current[channel] } },
+    });
+  };
+
+  const handleSave = async () => {
+    if (!owner || !preferences) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await authFetch('/api/notification-preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          preferences: {
+            channels: preferences.channels,
+            quietHours: preferences.quietHours,
+            timeZone: preferences.timeZone,
+            language: preferences.language,
+          },
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save notification preferences');
+
+      setPreferences(data.preferences);
+      setSaved(true);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save notification preferences');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!owner) return null;
+
+  // The browser's zone is offered alongside the usual ones, and the saved one always shows
+  const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const timeZones = [...new Set([...TIME_ZONES, browserTimeZone, preferences?.timeZone].filter(Boolean))] as string[];
+
+  const inputClass = 'bg-white/[0.03] border border-white/[0.06] rounded-lg px-2.5 py-1.5 text-white text-xs outline-none';
+
+  return (
+    <div className="rounded-2xl bg-white/[0.03] border border-white/[0.06]">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3"
+      >
+        <span className="text-white font-semibold text-sm">Notifications</span>
+        <svg
+          className={`w-4 h-4 text-gray-400 transition-transform ${open ? 'rotate-180' : ''}`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-4">
+          {loading || !preferences ? (
+            <p className="text-gray-500 text-xs">{error || 'Loading...'}</p>
+          ) : (
+            <>
+              {/* Category × channel grid */}
+              <table className="w-full text-xs">
+                <thead>
+                  <tr>
+                    <th />
+                    {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map((channel) => (
+                      <th key={channel} className="text-gray-500 font-normal pb-2 text-center">
+                        {CHANNEL_LABELS[channel]}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {(Object.keys(CATEGORY_LABELS) as NotificationCategory[]).map((category) => (
+                    <tr key={category}>
+                      <td className="text-gray-300 py-1.5">{CATEGORY_LABELS[category]}</td>
+                      {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map((channel) => (
+                        <td key={channel} className="text-center">
+                          <input
+                            type="checkbox"
+                            checked={preferences.channels[category][channel]}
+                            onChange={() => toggleChannel(category, channel)}
+                            aria-label={`${CATEGORY_LABELS[category]} by ${CHANNEL_LABELS[channel]}`}
+                            className="accent-[#8b53ff]"
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {/* Quiet hours */}
+              <div className="space-y-2">
+                <label className="flex items-center justify-between text-xs text-gray-300">
+                  Quiet hours
+                  <input
+                    type="checkbox"
+                    checked={Boolean(preferences.quietHours)}
+                    onChange={() => update({ quietHours: preferences.quietHours ? null : DEFAULT_QUIET_HOURS })}
+                    className="accent-[#8b53ff]"
+                  />
+                </label>
+                {preferences.quietHours && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="time"
+                      value={preferences.quietHours.start}
+                      onChange={(e) => update({ quietHours: { ...preferences.quietHours!, start: e.target.value } })}
+                      className={inputClass}
+                    />
+                    <span className="text-gray-500 text-xs">to</span>
+                    <input
+                      type="time"
+                      value={preferences.quietHours.end}
+                      onChange={(e) => update({ quietHours: { ...preferences.quietHours!, end: e.target.value } })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                <p className="text-gray-500 text-[10px]">
+                  Farcaster and email notifications wait until quiet hours end. Order status updates always come through.
+                </p>
+              </div>
+
+              {/* Time zone and language */}
+              <div className="flex gap-2">
+                <select
+                  value={preferences.timeZone}
+                  onChange={(e) => update({ timeZone: e.target.value })}
+                  className={`${inputClass} flex-1 min-w-0`}
+                  aria-label="Time zone"
+                >
+                  {timeZones.map((timeZone) => <option key={timeZone} value={timeZone}>{timeZone}</option>)}
+                </select>
+                <select
+                  value={preferences.language}
+                  onChange={(e) => update({ language: e.target.value as NotificationLanguage })}
+                  className={inputClass}
+                  aria-label="Language"
+                >
+                  {(Object.keys(LANGUAGE_LABELS) as NotificationLanguage[]).map((language) => (
+                    <option key={language} value={language}>{LANGUAGE_LABELS[language]}</option>
+                  ))}
+                </select>
+              </div>
+
+              {error && <p className="text-red-400 text-xs">{error}</p>}
+
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="w-full py-2.5 rounded-xl bg-[#8b53ff] hover:bg-[#7a45e6] text-white text-sm font-semibold transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : saved ? 'Saved' : 'Save preferences'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
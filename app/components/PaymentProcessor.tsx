@@ -6,7 +6,9 @@ import { parseUnits } from 'viem';
 import type { LifecycleStatus } from '@coinbase/onchainkit/transaction';
 import { useMiniKit } from '@coinbase/onchainkit/minikit';
 import { TransactionHandler } from './TransactionHandler';
-import { USDC_CONTRACTS } from '@/lib/paymaster-config';
+import { DEFAULT_TOKEN, getTokenContract, type StablecoinToken } from '@/lib/contracts';
+import { createIdempotencyKey, IDEMPOTENCY_KEY_HEADER } from '@/lib/utils/api-client';
+import { correlationHeaders } from '@/lib/correlation';
 
 interface PaymentProcessorProps {
   amount: string;
@@ -17,7 +19,10 @@ interface PaymentProcessorProps {
   accountName: string;
   currency: 'KES' | 'NGN' | 'GHS' | 'UGX';
   returnAddress: string;
-  rate?: number | null;
+  rate?: number | null; // Display only - the order uses the quote's rate
+  quoteId: string;
+  token?: StablecoinToken; // Stablecoin the quote was locked for
+  correlationId?: string; // Sent as X-Correlation-Id on every API call for this payment
   onSuccess: (orderId?: string) => void;
   onError: (error: string) => void;
 }
@@ -31,7 +36,9 @@ export function PaymentProcessor({
   accountName,
   currency,
   returnAddress,
-  rate,
+  quoteId,
+  token = DEFAULT_TOKEN,
+  correlationId,
   onSuccess,
   onError
 }: PaymentProcessorProps) {
@@ -53,6 +60,8 @@ export function PaymentProcessor({
   } | null>(null);
   const pollingStartedRef = useRef(false);
   const successTriggeredRef = useRef(false);
+  // One Idempotency-Key per swipe, reused by any retry of the same request
+  const orderKeyRef = useRef<string | null>(null);
 
   // Swipe slider states
   const [swipeProgress, setSwipeProgress] = useState(0);
@@ -61,8 +70,8 @@ export function PaymentProcessor({
   const sliderRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
-  // USDC contract on Base
-  const USDC_CONTRACT = USDC_CONTRACTS.mainnet;
+  // Stablecoin contract on Base
+  const tokenContract = getTokenContract(token, base.id);
 
   // Polling removed - status updates now handled by PaycrestReceipt component
   // which polls frequently and gets near-instant updates from webhooks
@@ -73,10 +82,16 @@ export function PaymentProcessor({
     pollingStartedRef.current = false;
     successTriggeredRef.current = false;
 
+    if (!orderKeyRef.current) orderKeyRef.current = createIdempotencyKey('paycrest-order');
+
     try {
       const response = await fetch('/api/paycrest/orders/simple', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          [IDEMPOTENCY_KEY_HEADER]: orderKeyRef.current,
+          ...correlationHeaders(correlationId),
+        },
         body: JSON.stringify({
           amount,
           phoneNumber,
@@ -87,7 +102,7 @@ export function PaymentProcessor({
           currency,
           provider: currency === 'KES' ? 'M-Pesa' : 'Bank Transfer',
           returnAddress,
-          ...(rate && { rate }),
+          quoteId,
           // Include FID and user profile if user is on Farcaster
           // Web users won't have these fields, ensuring backward compatibility
           ...(context?.user?.fid && {
@@ -118,6 +133,11 @@ export function PaymentProcessor({
 
       const data = await response.json();
 
+      // Held by risk screening (202) - no order was created, nothing to pay into
+      if (data.code === 'UNDER_REVIEW') {
+        throw new Error(data.error);
+      }
+
       if (data.success && data.order) {
         let orderData;
 
@@ -145,12 +165,13 @@ export function PaymentProcessor({
         throw new Error('Invalid response from PayCrest API');
       }
     } catch (error) {
+      orderKeyRef.current = null;
       setStatus('error');
       onError(error instanceof Error ? error.message : 'Failed to create order');
     }
-  }, [amount, phoneNumber, tillNumber, accountNumber, bankCode, accountName, currency, returnAddress, rate, onError, context?.user?.fid]);
+  }, [amount, phoneNumber, tillNumber, accountNumber, bankCode, accountName, currency, returnAddress, quoteId, onError, context?.user?.fid, correlationId]);
 
-  // USDC transfer using OnchainKit standard format
+  // Stablecoin transfer using OnchainKit standard format
   const calls = paycrestOrder && paycrestOrder.receiveAddress && paycrestOrder.amount ? (() => {
     const baseAmount = parseFloat(paycrestOrder.amount) || 0;
     const senderFee = parseFloat(paycrestOrder.senderFee) || 0;
@@ -160,7 +181,7 @@ export function PaymentProcessor({
     const totalAmountWei = parseUnits(totalAmountToSend.toString(), 6);
 
     return [{
-      address: USDC_CONTRACT as `0x${string}`,
+      address: tokenContract as `0x${string}`,
       abi: [
         {
           name: 'transfer',
@@ -415,7 +436,7 @@ export function PaymentProcessor({
           <div className="space-y-2">
             <h3 className="text-white font-bold text-2xl">Transaction Confirmed!</h3>
             <p className="text-green-300 text-base font-medium">
-              Your USDC payment was sent successfully
+              Your {token} payment was sent successfully
             </p>
             <p className="text-gray-400 text-sm">
               Processing your {currency} transfer...
@@ -447,7 +468,7 @@ export function PaymentProcessor({
                 </svg>
               </div>
               <p className="text-red-300 font-semibold">
-                Need more USDC to complete this transaction
+                Need more {token} to complete this transaction
               </p>
             </div>
             {errorDetails && (
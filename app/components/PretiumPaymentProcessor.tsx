@@ -6,12 +6,13 @@ import { parseUnits } from 'viem';
 import type { LifecycleStatus } from '@coinbase/onchainkit/transaction';
 import { useMiniKit } from '@coinbase/onchainkit/minikit';
 import { TransactionHandler } from './TransactionHandler';
-import { USDC_CONTRACTS } from '@/lib/paymaster-config';
+import { DEFAULT_TOKEN, getTokenContract, type StablecoinToken } from '@/lib/contracts';
 import { PRETIUM_CONFIG } from '@/lib/pretium/config';
+import { isQuoteExpired, createIdempotencyKey, IDEMPOTENCY_KEY_HEADER } from '@/lib/utils/api-client';
+import { correlationHeaders } from '@/lib/correlation';
 
 interface PretiumPaymentProcessorProps {
   amount: string;
-  localAmount?: string;
   phoneNumber?: string;
   tillNumber?: string;
   paybillNumber?: string;
@@ -22,6 +23,10 @@ interface PretiumPaymentProcessorProps {
   bankName?: string; // For NGN bank transfers
   returnAddress: string;
   rate: number;
+  quoteId: string;
+  token?: StablecoinToken; // Stablecoin the quote was locked for
+  correlationId?: string; // Sent as X-Correlation-Id on every API call for this payment
+  quoteExpiresAt?: string;
   currency: 'KES' | 'GHS' | 'NGN' | 'UGX';
   onSuccess: (transactionCode?: string, txHash?: string) => void;
   onError: (error: string) => void;
@@ -29,7 +34,6 @@ interface PretiumPaymentProcessorProps {
 
 export function PretiumPaymentProcessor({
   amount,
-  localAmount,
   phoneNumber,
   tillNumber,
   paybillNumber,
@@ -39,6 +43,10 @@ export function PretiumPaymentProcessor({
   bankCode,
   bankName,
   returnAddress,
+  quoteId,
+  token = DEFAULT_TOKEN,
+  correlationId,
+  quoteExpiresAt,
   currency,
   onSuccess,
   onError
@@ -48,6 +56,8 @@ export function PretiumPaymentProcessor({
   const pollingStartedRef = useRef(false);
   const successTriggeredRef = useRef(false);
   const transactionDataRef = useRef<{ transactionCode?: string; txHash?: string }>({});
+  // One Idempotency-Key per deposit, reused by any retry of the same disburse request
+  const disburseKeyRef = useRef<{ txHash: string; key: string } | null>(null);
 
   // Swipe slider states
   const [swipeProgress, setSwipeProgress] = useState(0);
@@ -56,7 +66,8 @@ export function PretiumPaymentProcessor({
   const sliderRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
-  const USDC_CONTRACT = USDC_CONTRACTS.mainnet;
+  // Stablecoin contract on Base
+  const tokenContract = getTokenContract(token, base.id);
 
   // Start polling for Pretium transaction status
   const startPolling = useCallback((transactionCode: string) => {
@@ -68,7 +79,9 @@ export function PretiumPaymentProcessor({
 
     const poll = async () => {
       try {
-        const response = await fetch(`/api/pretium/status/${transactionCode}`);
+        const response = await fetch(`/api/pretium/status/${transactionCode}`, {
+          headers: correlationHeaders(correlationId),
+        });
 
         if (!response.ok) {
           attempts++;
@@ -99,20 +112,30 @@ export function PretiumPaymentProcessor({
     };
 
     setTimeout(poll, 3000);
-  }, []);
+  }, [correlationId]);
 
   // Create Pretium order (called after blockchain transaction succeeds)
   const createPretiumOrder = useCallback(async (txHash: string) => {
     // Normalize amount to 2 decimal places to match blockchain transaction
     const normalizedAmount = (Math.round(parseFloat(amount) * 100) / 100).toFixed(2);
 
+    const previousKey = disburseKeyRef.current;
+    const disburseKey = previousKey && previousKey.txHash === txHash
+      ? previousKey.key
+      : createIdempotencyKey('pretium-disburse');
+    disburseKeyRef.current = { txHash, key: disburseKey };
+
     try {
       const response = await fetch('/api/pretium/disburse', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          [IDEMPOTENCY_KEY_HEADER]: disburseKey,
+          ...correlationHeaders(correlationId),
+        },
         body: JSON.stringify({
           amount: normalizedAmount,
-          localAmount,
+          quoteId,
           phoneNumber,
           tillNumber,
           paybillNumber,
@@ -136,6 +159,11 @@ export function PretiumPaymentProcessor({
 
       const result = await response.json();
 
+      // Held by risk screening (202) - an admin pays it out or refunds the deposit
+      if (result.code === 'UNDER_REVIEW') {
+        throw new Error(result.error);
+      }
+
       if (result.transactionCode) {
         transactionDataRef.current.transactionCode = result.transactionCode;
         startPolling(result.transactionCode);
@@ -146,14 +174,14 @@ export function PretiumPaymentProcessor({
         onError(error.message);
       }
     }
-  }, [amount, localAmount, phoneNumber, tillNumber, paybillNumber, paybillAccount, accountName, accountNumber, bankCode, bankName, returnAddress, currency, context, startPolling, onError]);
+  }, [amount, quoteId, phoneNumber, tillNumber, paybillNumber, paybillAccount, accountName, accountNumber, bankCode, bankName, returnAddress, currency, context, startPolling, onError, correlationId]);
 
-  // USDC transfer using OnchainKit standard format
+  // Stablecoin transfer using OnchainKit standard format
   // Normalize amount to 2 decimal places to match what Pretium API expects
   const normalizedAmount = (Math.round(parseFloat(amount) * 100) / 100).toFixed(2);
 
   const calls = [{
-    address: USDC_CONTRACT as `0x${string}`,
+    address: tokenContract as `0x${string}`,
     abi: [
       {
         name: 'transfer',
@@ -235,9 +263,17 @@ export function PretiumPaymentProcessor({
       setSwipeProgress(100);
       setIsSwipeComplete(true);
       setIsDragging(false);
+
+      // Never send USDC against a quote that can no longer be honoured
+      if (isQuoteExpired(quoteExpiresAt)) {
+        setStatus('error');
+        onError('Your rate has expired. Go back to get a new quote.');
+        return;
+      }
+
       setStatus('ready-to-pay');
     }
-  }, [isDragging, isSwipeComplete]);
+  }, [isDragging, isSwipeComplete, quoteExpiresAt, onError]);
 
   const handleSwipeEnd = useCallback(() => {
     if (isSwipeComplete) return;
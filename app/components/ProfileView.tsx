@@ -2,12 +2,14 @@
 
 import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { useAccount } from 'wagmi';
+import { useRouter } from 'next/navigation';
 import { base } from 'viem/chains';
 import { Avatar } from '@coinbase/onchainkit/identity';
 import { Button, Icon, ActionCircle } from './BaseComponents';
 import { Order } from '../../lib/supabase/config';
 import { DownloadButton } from './DownloadButton';
 import { CompactReceiptButton } from './PretiumReceipt';
+import { NotificationPreferences } from './NotificationPreferences';
 import { OrderData } from '../../lib/types/order';
 import { useMinisendAuth } from '@/lib/hooks/useMinisendAuth';
 import { useUSDCBalance } from '@/hooks/useUSDCBalance';
@@ -52,6 +54,7 @@ function convertOrderToOrderData(order: Order): OrderData {
 }
 
 export function ProfileView({ setActiveTab }: ProfileViewProps) {
+  const router = useRouter();
   const { address } = useAccount();
   const { minisendWallet } = useMinisendAuth();
 
@@ -447,7 +450,7 @@ export function ProfileView({ setActiveTab }: ProfileViewProps) {
       </div>
 
       {/* Quick Action Row */}
-      <div className="flex justify-center gap-6">
+      <div className="flex justify-center gap-4">
         <ActionCircle
           icon={<Icon name="arrow-up-right" size="md" className="text-white" />}
           label="Send"
@@ -463,6 +466,16 @@ export function ProfileView({ setActiveTab }: ProfileViewProps) {
           label="Deposit"
           onClick={() => setShowDeposit(!showDeposit)}
         />
+        <ActionCircle
+          icon={<Icon name="refresh" size="md" className="text-white" />}
+          label="Recurring"
+          onClick={() => router.push('/schedules')}
+        />
+        <ActionCircle
+          icon={<Icon name="bell" size="md" className="text-white" />}
+          label="Alerts"
+          onClick={() => router.push('/alerts')}
+        />
       </div>
 
       {/* Deposit Modal Overlay */}
@@ -873,6 +886,9 @@ export function ProfileView({ setActiveTab }: ProfileViewProps) {
         )}
       </div>
 
+      {/* Notification Preferences */}
+      <NotificationPreferences />
+
       {error && (
         <div className="bg-white/5 border border-white/10 rounded-xl p-4">
           <p className="text-gray-300 text-sm">{error}</p>
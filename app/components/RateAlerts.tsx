@@ -0,0 +1,253 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAccount } from 'wagmi';
+import { useMiniKit } from '@coinbase/onchainkit/minikit';
+import { useMinisendAuth } from '@/lib/hooks/useMinisendAuth';
+import { getRecipientOwner } from '@/lib/recipient-storage';
+import { useAuthFetch } from '@/lib/hooks/useAuthFetch';
+import type { LiveRate, RateAlert, RateAlertDirection } from '@/lib/types/rate-alerts';
+import type { RecipientCurrency } from '@/lib/types/recipients';
+
+const CURRENCIES: RecipientCurrency[] = ['KES', 'NGN', 'GHS', 'UGX'];
+
+function formatRate(rate: number): string {
+  return rate.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export function RateAlerts() {
+  const { context } = useMiniKit();
+  const { address } = useAccount();
+  const { minisendWallet, user } = useMinisendAuth();
+  const owner = getRecipientOwner(user, address || minisendWallet);
+  const fid = context?.user?.fid;
+  const authFetch = useAuthFetch({ farcaster: Boolean(fid) });
+
+  const [alerts, setAlerts] = useState<RateAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [liveRate, setLiveRate] = useState<LiveRate | null>(null);
+  const [form, setForm] = useState({
+    currency: 'KES' as RecipientCurrency,
+    direction: 'above' as RateAlertDirection,
+    threshold: '',
+    email: '',
+  });
+
+  const load = useCallback(async () => {
+    if (!owner) return;
+    setLoading(true);
+    try {
+      const response = await authFetch('/api/rate-alerts');
+      if (!response.ok) throw new Error('Failed to load rate alerts');
+      setAlerts((await response.json()).alerts || []);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load rate alerts');
+    } finally {
+      setLoading(false);
+    }
+  }, [owner, authFetch]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (user?.email) setForm((prev) => (prev.email ? prev : { ...prev, email: user.email! }));
+  }, [user?.email]);
+
+  // Show the rate the alert will be compared with
+  useEffect(() => {
+    if (!showForm) return;
+    setLiveRate(null);
+    fetch(`/api/rate-alerts/rates?${new URLSearchParams({ currency: form.currency })}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setLiveRate(data?.rate || null))
+      .catch(() => setLiveRate(null));
+  }, [showForm, form.currency]);
+
+  const handleCreate = async () => {
+    if (!owner) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await authFetch('/api/rate-alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          alert: {
+            currency: form.currency,
+            direction: form.direction,
+            threshold: form.threshold,
+            email: form.email || undefined,
+          },
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to create rate alert');
+
+      setAlerts((prev) => [data.alert, ...prev]);
+      setShowForm(false);
+      setForm((prev) => ({ ...prev, threshold: '' }));
+    } catch (createError) {
+      setError(createError instanceof Error ? createError.message : 'Failed to create rate alert');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const rearm = async (alert: RateAlert) => {
+    setError(null);
+    try {
+      const response = await authFetch(`/api/rate-alerts/${alert.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'active' }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update rate alert');
+      setAlerts((prev) => prev.map((a) => (a.id === alert.id ? data.alert : a)));
+    } catch (updateError) {
+      setError(updateError instanceof Error ? updateError.message : 'Failed to update rate alert');
+    }
+  };
+
+  const remove = async (alert: RateAlert) => {
+    if (!owner) return;
+    setError(null);
+    try {
+      const response = await authFetch(`/api/rate-alerts/${alert.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to delete rate alert');
+      setAlerts((prev) => prev.filter((a) => a.id !== alert.id));
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : 'Failed to delete rate alert');
+    }
+  };
+
+  if (!owner) {
+    return (
+      <div className="ios-card rounded-2xl p-6 text-center text-[#8e8e93] text-[15px]">
+        Sign in or connect your wallet to set rate alerts.
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full bg-white/[0.04] rounded-xl px-3 py-2.5 text-white text-[14px] outline-none';
+
+  return (
+    <div className="space-y-4">
+      {error && <div className="text-[#FF453A] text-[13px] px-1">{error}</div>}
+
+      {showForm ? (
+        <div className="ios-card rounded-2xl p-4 space-y-3">
+          <div className="flex gap-2">
+            <select
+              value={form.currency}
+              onChange={(e) => setForm((prev) => ({ ...prev, currency: e.target.value as RecipientCurrency }))}
+              className={inputClass}
+            >
+              {CURRENCIES.map((currency) => <option key={currency} value={currency}>{currency}</option>)}
+            </select>
+            <select
+              value={form.direction}
+              onChange={(e) => setForm((prev) => ({ ...prev, direction: e.target.value as RateAlertDirection }))}
+              className={inputClass}
+            >
+              <option value="above">Goes above</option>
+              <option value="below">Goes below</option>
+            </select>
+          </div>
+
+          <input
+            value={form.threshold}
+            onChange={(e) => setForm((prev) => ({ ...prev, threshold: e.target.value }))}
+            placeholder={`Target ${form.currency} per USDC`}
+            inputMode="decimal"
+            className={inputClass}
+          />
+          <div className="text-[#636366] text-[12px] px-1">
+            {liveRate
+              ? `Now ${formatRate(liveRate.rate)} ${form.currency} per USDC (best of ${Object.keys(liveRate.rates).length} provider${Object.keys(liveRate.rates).length === 1 ? '' : 's'})`
+              : 'Loading current rate...'}
+          </div>
+
+          <input
+            value={form.email}
+            onChange={(e) => setForm((prev) => ({ ...prev, email: e.target.value }))}
+            placeholder={fid ? 'Email (optional)' : 'Email'}
+            type="email"
+            className={inputClass}
+          />
+          {fid && <div className="text-[#636366] text-[12px] px-1">You will also get a Farcaster notification.</div>}
+
+          <button
+            onClick={handleCreate}
+            disabled={saving || !form.threshold || (!fid && !form.email)}
+            className="w-full py-3 rounded-2xl bg-[#007AFF] text-white font-semibold disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Create alert'}
+          </button>
+          <button onClick={() => setShowForm(false)} className="w-full text-[#8e8e93] text-[14px]">
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => setShowForm(true)}
+          className="w-full py-3 rounded-2xl bg-[#007AFF] text-white font-semibold"
+        >
+          New alert
+        </button>
+      )}
+
+      {loading ? (
+        <div className="text-center text-[#8e8e93] text-[14px] py-6">Loading...</div>
+      ) : alerts.length === 0 ? (
+        <div className="text-center text-[#636366] text-[14px] py-6">No rate alerts yet</div>
+      ) : (
+        <div className="space-y-3">
+          {alerts.map((alert) => (
+            <div key={alert.id} className="ios-card rounded-2xl p-4 space-y-2">
+              <div>
+                <div className="text-white text-[15px] font-medium">
+                  {alert.currency} {alert.direction} {formatRate(alert.threshold)}
+                </div>
+                <div className="text-[#8e8e93] text-[13px]">
+                  {[
+                    alert.notifyFarcaster && 'Farcaster',
+                    alert.email && (alert.emailConfirmed ? alert.email : `${alert.email} (check your inbox to confirm)`),
+                  ].filter(Boolean).join(' · ')}
+                </div>
+                <div className="text-[#636366] text-[12px]">
+                  {alert.status === 'triggered' && alert.triggeredAt
+                    ? <span className="text-[#30D158]">Hit {formatRate(alert.triggeredRate || 0)} on {formatDate(alert.triggeredAt)}</span>
+                    : alert.lastRate
+                      ? `Watching · last ${formatRate(alert.lastRate)}`
+                      : 'Watching'}
+                </div>
+              </div>
+
+              <div className="flex gap-4 text-[13px]">
+                {alert.status === 'triggered' && (
+                  <button onClick={() => rearm(alert)} className="text-[#0A84FF]">
+                    Watch again
+                  </button>
+                )}
+                <button onClick={() => remove(alert)} className="text-[#FF453A]">
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useRef } from 'react';
-import { SavedRecipient } from '@/lib/recipient-storage';
+import type { SavedRecipient } from '@/lib/types/recipients';
 
 interface RecipientAutocompleteProps {
   recipients: SavedRecipient[];
@@ -28,13 +28,13 @@ export function RecipientAutocomplete({
     if (!searchValue || searchValue.length < 2) return false;
 
     const searchLower = searchValue.toLowerCase();
+    const nameMatches = recipient.accountName.toLowerCase().includes(searchLower) ||
+      !!recipient.nickname?.toLowerCase().includes(searchLower);
 
     if (searchField === 'phone') {
-      return recipient.phoneNumber?.toLowerCase().includes(searchLower) ||
-             recipient.accountName.toLowerCase().includes(searchLower);
+      return recipient.phoneNumber?.toLowerCase().includes(searchLower) || nameMatches;
     } else {
-      return recipient.accountNumber?.toLowerCase().includes(searchLower) ||
-             recipient.accountName.toLowerCase().includes(searchLower);
+      return recipient.accountNumber?.toLowerCase().includes(searchLower) || nameMatches;
     }
   });
 
@@ -134,15 +134,20 @@ export function RecipientAutocomplete({
                 : 'bg-[#2c2c2e] text-[#8e8e93]'
               }
             `}>
-              {recipient.accountName.charAt(0).toUpperCase()}
+              {(recipient.nickname || recipient.accountName).charAt(0).toUpperCase()}
             </div>
 
             {/* Details */}
             <div className="flex-1 min-w-0">
               <div className="flex items-center space-x-2">
                 <div className="text-white font-medium text-sm truncate">
-                  {recipient.accountName}
+                  {recipient.nickname || recipient.accountName}
                 </div>
+                {recipient.isFavorite && (
+                  <svg className="w-3 h-3 text-[#FFD60A] flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+                    <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                  </svg>
+                )}
                 {recipient.useCount > 1 && (
                   <div className="flex items-center space-x-1 text-[10px] text-[#8e8e93] bg-[#2c2c2e] px-1.5 py-0.5 rounded">
                     <svg className="w-2.5 h-2.5" fill="currentColor" viewBox="0 0 20 20">
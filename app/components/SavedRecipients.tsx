@@ -1,7 +1,8 @@
 "use client";
 
-import { useState, useEffect } from 'react';
-import { getRecipientsByCurrency, deleteRecipient, SavedRecipient } from '@/lib/recipient-storage';
+import { useState, useEffect, useCallback } from 'react';
+import { getRecipientsByCurrency, deleteRecipient, updateRecipient, SavedRecipient } from '@/lib/recipient-storage';
+import { useAuthFetch } from '@/lib/hooks/useAuthFetch';
 
 /**
  * Security: Safely display text content
@@ -12,36 +13,75 @@ function sanitizeDisplay(text: string | undefined): string {
 }
 
 interface SavedRecipientsProps {
+  owner: string | null;
   currency: 'KES' | 'NGN' | 'GHS' | 'UGX';
   onSelect: (recipient: SavedRecipient) => void;
   currentPhone?: string;
   currentAccount?: string;
 }
 
-export function SavedRecipients({ currency, onSelect, currentPhone, currentAccount }: SavedRecipientsProps) {
+export function SavedRecipients({ owner, currency, onSelect, currentPhone, currentAccount }: SavedRecipientsProps) {
   const [recipients, setRecipients] = useState<SavedRecipient[]>([]);
   const [mounted, setMounted] = useState(false);
+  const [editing, setEditing] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const authFetch = useAuthFetch();
+
+  const loadRecipients = useCallback(async () => {
+    if (!owner) {
+      setRecipients([]);
+      return;
+    }
+    try {
+      setRecipients(await getRecipientsByCurrency(authFetch, currency));
+    } catch {
+      // Non-critical - the form still works without saved recipients
+    }
+  }, [owner, currency, authFetch]);
 
   useEffect(() => {
     setMounted(true);
     loadRecipients();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currency]);
+  }, [loadRecipients]);
 
-  const loadRecipients = () => {
-    const saved = getRecipientsByCurrency(currency);
-    setRecipients(saved);
+  const replaceRecipient = (updated: SavedRecipient) => {
+    setRecipients((prev) => prev.map((r) => (r.id === updated.id ? updated : r)));
   };
 
-  const handleDelete = (e: React.MouseEvent, id: string) => {
+  const handleToggleFavorite = async (e: React.MouseEvent, recipient: SavedRecipient) => {
     e.stopPropagation();
+    if (!owner) return;
+    try {
+      replaceRecipient(await updateRecipient(authFetch, recipient.id, { isFavorite: !recipient.isFavorite }));
+    } catch {
+      // Leave it as it was
+    }
+  };
+
+  const handleRename = async (e: React.MouseEvent, recipient: SavedRecipient) => {
+    e.stopPropagation();
+    if (!owner) return;
+    const nickname = window.prompt('Nickname (leave empty to remove)', recipient.nickname || '');
+    if (nickname === null) return;
+    try {
+      replaceRecipient(await updateRecipient(authFetch, recipient.id, { nickname }));
+    } catch {
+      // Leave it as it was
+    }
+  };
+
+  const handleDelete = async (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    if (!owner) return;
     setDeletingId(id);
-    setTimeout(() => {
-      deleteRecipient(id);
-      loadRecipients();
+    try {
+      await deleteRecipient(authFetch, id);
+      setRecipients((prev) => prev.filter((r) => r.id !== id));
+    } catch {
+      // Keep it in the list
+    } finally {
       setDeletingId(null);
-    }, 150);
+    }
   };
 
   if (!mounted || recipients.length === 0) {
@@ -52,8 +92,14 @@ export function SavedRecipients({ currency, onSelect, currentPhone, currentAccou
 
   return (
     <div className="mb-4">
-      <div className="flex items-center gap-1.5 mb-2 px-1">
-        <span className="text-[#636366] text-[12px] font-medium">Recent</span>
+      <div className="flex items-center justify-between mb-2 px-1">
+        <span className="text-[#636366] text-[12px] font-medium">Saved</span>
+        <button
+          onClick={() => setEditing((prev) => !prev)}
+          className="text-[#0066FF] text-[12px] font-medium"
+        >
+          {editing ? 'Done' : 'Edit'}
+        </button>
       </div>
 
       <div className="flex gap-2 overflow-x-auto pb-1 -mx-1 px-1 scrollbar-hide" style={{ WebkitOverflowScrolling: 'touch' }}>
@@ -62,11 +108,12 @@ export function SavedRecipients({ currency, onSelect, currentPhone, currentAccou
             ? recipient.phoneNumber === currentPhone
             : recipient.accountNumber === currentAccount;
           const isDeleting = deletingId === recipient.id;
+          const label = recipient.nickname || recipient.accountName;
 
           return (
             <button
               key={recipient.id}
-              onClick={() => onSelect(recipient)}
+              onClick={() => !editing && onSelect(recipient)}
               className={`
                 relative flex-shrink-0 flex items-center gap-2 pl-2.5 pr-2 py-2
                 rounded-full border transition-all duration-150
@@ -78,18 +125,29 @@ export function SavedRecipients({ currency, onSelect, currentPhone, currentAccou
               `}
             >
               {/* Initial */}
-              <div className="w-6 h-6 rounded-full bg-[#2c2c2e] flex items-center justify-center flex-shrink-0">
+              <div className="relative w-6 h-6 rounded-full bg-[#2c2c2e] flex items-center justify-center flex-shrink-0">
                 <span className="text-[11px] font-semibold text-[#8e8e93]">
-                  {recipient.accountName.charAt(0).toUpperCase()}
+                  {label.charAt(0).toUpperCase()}
                 </span>
+                {recipient.isFavorite && (
+                  <svg className="absolute -top-1 -right-1 w-3 h-3 text-[#FFD60A]" fill="currentColor" viewBox="0 0 20 20">
+                    <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                  </svg>
+                )}
               </div>
 
               {/* Name + number */}
               <div className="flex flex-col items-start leading-tight">
-                <span className="text-white text-[12px] font-medium whitespace-nowrap">
-                  {sanitizeDisplay(recipient.accountName)}
+                <span className="flex items-center gap-1 text-white text-[12px] font-medium whitespace-nowrap">
+                  {sanitizeDisplay(label)}
+                  {recipient.verifiedName && (
+                    <svg className="w-3 h-3 text-[#30D158]" fill="currentColor" viewBox="0 0 20 20">
+                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                    </svg>
+                  )}
                 </span>
                 <span className="text-[#636366] text-[10px] whitespace-nowrap">
+                  {recipient.nickname && <>{sanitizeDisplay(recipient.accountName)} · </>}
                   {isMobileType
                     ? sanitizeDisplay(recipient.phoneNumber)
                     : sanitizeDisplay(recipient.accountNumber)
@@ -100,15 +158,35 @@ export function SavedRecipients({ currency, onSelect, currentPhone, currentAccou
                 </span>
               </div>
 
-              {/* Delete / close */}
-              <div
-                onClick={(e) => handleDelete(e, recipient.id)}
-                className="w-4 h-4 rounded-full bg-white/[0.06] flex items-center justify-center flex-shrink-0 ml-0.5"
-              >
-                <svg className="w-2.5 h-2.5 text-[#636366]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" />
-                </svg>
-              </div>
+              {/* Favorite / rename / delete */}
+              {editing && (
+                <div className="flex items-center gap-1 ml-0.5">
+                  <div
+                    onClick={(e) => handleToggleFavorite(e, recipient)}
+                    className="w-5 h-5 rounded-full bg-white/[0.06] flex items-center justify-center"
+                  >
+                    <svg className={`w-3 h-3 ${recipient.isFavorite ? 'text-[#FFD60A]' : 'text-[#636366]'}`} fill="currentColor" viewBox="0 0 20 20">
+                      <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                    </svg>
+                  </div>
+                  <div
+                    onClick={(e) => handleRename(e, recipient)}
+                    className="w-5 h-5 rounded-full bg-white/[0.06] flex items-center justify-center"
+                  >
+                    <svg className="w-2.5 h-2.5 text-[#636366]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 013.536 3.536L12.536 16.536 8 18l1.464-4.536z" />
+                    </svg>
+                  </div>
+                  <div
+                    onClick={(e) => handleDelete(e, recipient.id)}
+                    className="w-5 h-5 rounded-full bg-white/[0.06] flex items-center justify-center"
+                  >
+                    <svg className="w-2.5 h-2.5 text-[#636366]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </div>
+                </div>
+              )}
             </button>
           );
         })}
@@ -0,0 +1,372 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAccount } from 'wagmi';
+import { useMiniKit } from '@coinbase/onchainkit/minikit';
+import { useMinisendAuth } from '@/lib/hooks/useMinisendAuth';
+import { getRecipientOwner, type SavedRecipient } from '@/lib/recipient-storage';
+import { useAuthFetch } from '@/lib/hooks/useAuthFetch';
+import { CompactReceiptButton } from './PretiumReceipt';
+import type { PayoutSchedule, PayoutScheduleRun, ScheduleFrequency } from '@/lib/types/schedules';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const RUN_STATUS_LABELS: Record<PayoutScheduleRun['status'], { label: string; className: string }> = {
+  pending: { label: 'Starting', className: 'text-[#8e8e93]' },
+  funding: { label: 'Sending', className: 'text-[#0A84FF]' },
+  submitting: { label: 'Sending', className: 'text-[#0A84FF]' },
+  submitted: { label: 'Sent', className: 'text-[#30D158]' },
+  reminded: { label: 'Reminder sent', className: 'text-[#8e8e93]' },
+  review: { label: 'In review', className: 'text-[#FF9F0A]' },
+  skipped: { label: 'Skipped', className: 'text-[#FF9F0A]' },
+  failed: { label: 'Failed', className: 'text-[#FF453A]' },
+};
+
+function formatHour(hour: number): string {
+  return `${hour.toString().padStart(2, '0')}:00`;
+}
+
+function describeSchedule(schedule: PayoutSchedule): string {
+  const [, hour, dayOfMonth, , dayOfWeek] = schedule.cronExpression.split(' ');
+  switch (schedule.frequency) {
+    case 'weekly':
+      return `Every ${WEEKDAYS[Number(dayOfWeek)]} at ${formatHour(Number(hour))} EAT`;
+    case 'monthly':
+      return `Monthly on day ${dayOfMonth} at ${formatHour(Number(hour))} EAT`;
+    default:
+      return `Custom: ${schedule.cronExpression} (EAT)`;
+  }
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export function ScheduledPayouts() {
+  const { context } = useMiniKit();
+  const { address } = useAccount();
+  const { minisendWallet, user } = useMinisendAuth();
+  const owner = getRecipientOwner(user, address || minisendWallet);
+  // Creating and changing schedules needs a Privy session - they can pay out from the Minisend wallet
+  const canManage = user?.platform === 'web';
+  const fid = context?.user?.fid;
+  const authFetch = useAuthFetch();
+
+  const [schedules, setSchedules] = useState<PayoutSchedule[]>([]);
+  const [recipients, setRecipients] = useState<SavedRecipient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<PayoutSchedule | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({
+    recipientId: '',
+    amount: '',
+    frequency: 'monthly' as ScheduleFrequency,
+    dayOfWeek: 5,
+    dayOfMonth: 1,
+    hour: 9,
+    cronExpression: '',
+    label: '',
+  });
+
+  const load = useCallback(async () => {
+    if (!owner) return;
+    setLoading(true);
+    try {
+      const [schedulesResponse, recipientsResponse] = await Promise.all([
+        authFetch('/api/schedules'),
+        authFetch('/api/recipients'),
+      ]);
+      if (!schedulesResponse.ok) throw new Error('Failed to load schedules');
+      setSchedules((await schedulesResponse.json()).schedules || []);
+      if (recipientsResponse.ok) setRecipients((await recipientsResponse.json()).recipients || []);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load schedules');
+    } finally {
+      setLoading(false);
+    }
+  }, [owner, authFetch]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const selectedRecipient = recipients.find((recipient) => recipient.id === form.recipientId);
+
+  const handleCreate = async () => {
+    if (!owner) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await authFetch('/api/schedules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          schedule: {
+            recipientId: form.recipientId,
+            amount: form.amount,
+            frequency: form.frequency,
+            dayOfWeek: form.dayOfWeek,
+            dayOfMonth: form.dayOfMonth,
+            hour: form.hour,
+            cronExpression: form.cronExpression,
+            label: form.label,
+            fid,
+          },
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to create schedule');
+
+      setSchedules((prev) => [data.schedule, ...prev]);
+      setShowForm(false);
+      setForm((prev) => ({ ...prev, amount: '', label: '', cronExpression: '' }));
+    } catch (createError) {
+      setError(createError instanceof Error ? createError.message : 'Failed to create schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setStatus = async (schedule: PayoutSchedule, status: PayoutSchedule['status']) => {
+    setError(null);
+    try {
+      const response = await authFetch(`/api/schedules/${schedule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update schedule');
+      setSchedules((prev) => prev.map((s) => (s.id === schedule.id ? { ...s, ...data.schedule } : s)));
+    } catch (updateError) {
+      setError(updateError instanceof Error ? updateError.message : 'Failed to update schedule');
+    }
+  };
+
+  const remove = async (schedule: PayoutSchedule) => {
+    if (!owner || !confirm('Delete this schedule and its history?')) return;
+    setError(null);
+    try {
+      const response = await authFetch(`/api/schedules/${schedule.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to delete schedule');
+      setSchedules((prev) => prev.filter((s) => s.id !== schedule.id));
+      if (expanded?.id === schedule.id) setExpanded(null);
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : 'Failed to delete schedule');
+    }
+  };
+
+  const toggleHistory = async (schedule: PayoutSchedule) => {
+    if (!owner) return;
+    if (expanded?.id === schedule.id) {
+      setExpanded(null);
+      return;
+    }
+    try {
+      const response = await authFetch(`/api/schedules/${schedule.id}`);
+      if (!response.ok) throw new Error('Failed to load history');
+      setExpanded((await response.json()).schedule);
+    } catch (historyError) {
+      setError(historyError instanceof Error ? historyError.message : 'Failed to load history');
+    }
+  };
+
+  if (!owner) {
+    return (
+      <div className="ios-card rounded-2xl p-6 text-center text-[#8e8e93] text-[15px]">
+        Sign in or connect your wallet to schedule payouts.
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full bg-white/[0.04] rounded-xl px-3 py-2.5 text-white text-[14px] outline-none';
+
+  return (
+    <div className="space-y-4">
+      {error && <div className="text-[#FF453A] text-[13px] px-1">{error}</div>}
+
+      {showForm ? (
+        <div className="ios-card rounded-2xl p-4 space-y-3">
+          {recipients.length === 0 ? (
+            <div className="text-[#8e8e93] text-[14px]">
+              Send a payment first - schedules pay recipients saved in your address book.
+            </div>
+          ) : (
+            <>
+              <select
+                value={form.recipientId}
+                onChange={(e) => setForm((prev) => ({ ...prev, recipientId: e.target.value }))}
+                className={inputClass}
+              >
+                <option value="">Choose a recipient</option>
+                {recipients.map((recipient) => (
+                  <option key={recipient.id} value={recipient.id}>
+                    {recipient.nickname || recipient.accountName} · {recipient.type} · {recipient.phoneNumber || recipient.accountNumber}
+                  </option>
+                ))}
+              </select>
+
+              <div className="flex gap-2">
+                <input
+                  value={form.amount}
+                  onChange={(e) => setForm((prev) => ({ ...prev, amount: e.target.value }))}
+                  placeholder={`Amount${selectedRecipient ? ` in ${selectedRecipient.type}` : ''}`}
+                  inputMode="decimal"
+                  className={inputClass}
+                />
+                <select
+                  value={form.frequency}
+                  onChange={(e) => setForm((prev) => ({ ...prev, frequency: e.target.value as ScheduleFrequency }))}
+                  className={inputClass}
+                >
+                  <option value="weekly">Weekly</option>
+                  <option value="monthly">Monthly</option>
+                  <option value="custom">Custom (cron)</option>
+                </select>
+              </div>
+
+              {form.frequency === 'custom' ? (
+                <input
+                  value={form.cronExpression}
+                  onChange={(e) => setForm((prev) => ({ ...prev, cronExpression: e.target.value }))}
+                  placeholder="0 9 1,15 * *  (minute hour day month weekday)"
+                  className={`${inputClass} font-mono`}
+                />
+              ) : (
+                <div className="flex gap-2">
+                  {form.frequency === 'weekly' ? (
+                    <select
+                      value={form.dayOfWeek}
+                      onChange={(e) => setForm((prev) => ({ ...prev, dayOfWeek: Number(e.target.value) }))}
+                      className={inputClass}
+                    >
+                      {WEEKDAYS.map((day, i) => <option key={day} value={i}>{day}</option>)}
+                    </select>
+                  ) : (
+                    <select
+                      value={form.dayOfMonth}
+                      onChange={(e) => setForm((prev) => ({ ...prev, dayOfMonth: Number(e.target.value) }))}
+                      className={inputClass}
+                    >
+                      {Array.from({ length: 28 }, (_, i) => i + 1).map((day) => (
+                        <option key={day} value={day}>Day {day}</option>
+                      ))}
+                    </select>
+                  )}
+                  <select
+                    value={form.hour}
+                    onChange={(e) => setForm((prev) => ({ ...prev, hour: Number(e.target.value) }))}
+                    className={inputClass}
+                  >
+                    {Array.from({ length: 24 }, (_, i) => i).map((hour) => (
+                      <option key={hour} value={hour}>{formatHour(hour)} EAT</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <input
+                value={form.label}
+                onChange={(e) => setForm((prev) => ({ ...prev, label: e.target.value }))}
+                placeholder="Label (optional), e.g. Mum's upkeep"
+                maxLength={40}
+                className={inputClass}
+              />
+
+              <button
+                onClick={handleCreate}
+                disabled={saving || !form.recipientId || !form.amount}
+                className="w-full py-3 rounded-2xl bg-[#007AFF] text-white font-semibold disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Create schedule'}
+              </button>
+            </>
+          )}
+          <button onClick={() => setShowForm(false)} className="w-full text-[#8e8e93] text-[14px]">
+            Cancel
+          </button>
+        </div>
+      ) : canManage ? (
+        <button
+          onClick={() => setShowForm(true)}
+          className="w-full py-3 rounded-2xl bg-[#007AFF] text-white font-semibold"
+        >
+          New schedule
+        </button>
+      ) : (
+        <div className="ios-card rounded-2xl p-4 text-center text-[#8e8e93] text-[14px]">
+          Sign in with your Minisend account to create and change schedules.
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center text-[#8e8e93] text-[14px] py-6">Loading...</div>
+      ) : schedules.length === 0 ? (
+        <div className="text-center text-[#636366] text-[14px] py-6">No scheduled payouts yet</div>
+      ) : (
+        <div className="space-y-3">
+          {schedules.map((schedule) => (
+            <div key={schedule.id} className="ios-card rounded-2xl p-4 space-y-2">
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="text-white text-[15px] font-medium">
+                    {schedule.label || schedule.recipient?.nickname || schedule.recipient?.accountName || 'Deleted recipient'}
+                  </div>
+                  <div className="text-[#8e8e93] text-[13px]">
+                    {schedule.amountLocal.toLocaleString()} {schedule.currency} · {describeSchedule(schedule)}
+                  </div>
+                  <div className="text-[#636366] text-[12px]">
+                    {schedule.status === 'paused'
+                      ? 'Paused'
+                      : `Next: ${formatDate(schedule.nextRunAt)} · ${schedule.mode === 'custodial' ? 'paid automatically' : 'reminder'}`}
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex gap-4 text-[13px]">
+                {canManage && (
+                  <button
+                    onClick={() => setStatus(schedule, schedule.status === 'active' ? 'paused' : 'active')}
+                    className="text-[#0A84FF]"
+                  >
+                    {schedule.status === 'active' ? 'Pause' : 'Resume'}
+                  </button>
+                )}
+                <button onClick={() => toggleHistory(schedule)} className="text-[#0A84FF]">
+                  {expanded?.id === schedule.id ? 'Hide history' : 'History'}
+                </button>
+                {canManage && (
+                  <button onClick={() => remove(schedule)} className="text-[#FF453A]">
+                    Delete
+                  </button>
+                )}
+              </div>
+
+              {expanded?.id === schedule.id && (
+                <div className="border-t border-white/[0.06] pt-2 space-y-2">
+                  {(expanded.runs || []).length === 0 ? (
+                    <div className="text-[#636366] text-[12px]">No runs yet</div>
+                  ) : (
+                    expanded.runs!.map((run) => (
+                      <div key={run.id} className="text-[12px]">
+                        <div className="flex justify-between">
+                          <span className="text-[#8e8e93]">{formatDate(run.scheduledFor)}</span>
+                          <span className={RUN_STATUS_LABELS[run.status].className}>{RUN_STATUS_LABELS[run.status].label}</span>
+                        </div>
+                        {run.error && <div className="text-[#636366]">{run.error}</div>}
+                        {run.transactionCode && <CompactReceiptButton transactionCode={run.transactionCode} />}
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
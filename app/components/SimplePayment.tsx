@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useRef } from 'react';
 import { Transaction, TransactionButton, TransactionStatus, TransactionStatusLabel } from '@coinbase/onchainkit/transaction';
 import { useMiniKit } from '@coinbase/onchainkit/minikit';
 import { base } from 'wagmi/chains';
@@ -10,6 +10,7 @@ import type { ContractFunctionParameters } from 'viem';
 import { LoadingSpinner } from './LoadingSpinner';
 import { useWalletAnalytics } from '@/hooks/useWalletAnalytics';
 import { builderCodeCapabilities } from '@/lib/builder-code';
+import { apiClient, createIdempotencyKey, IDEMPOTENCY_KEY_HEADER } from '@/lib/utils/api-client';
 
 interface SimplePaymentProps {
   amount: string;
@@ -102,9 +103,13 @@ export function SimplePayment({
     setTimeout(poll, 5000);
   }, [currency, onError]);
 
-  // Step 1: Get live rate and create order
+  // One Idempotency-Key per order attempt, reused by any retry of the same request
+  const orderKeyRef = useRef<string | null>(null);
+
+  // Step 1: Lock a quote and create the order at its rate
   const createOrder = useCallback(async () => {
     setCurrentStep('quote');
+    if (!orderKeyRef.current) orderKeyRef.current = createIdempotencyKey('paycrest-order');
 
     // Track payment initiation
     await trackPayment('initiated', {
@@ -114,35 +119,32 @@ export function SimplePayment({
     });
 
     try {
-      // First, get live rate from PayCrest
+      // First, lock a quote so the order is created at exactly the rate shown
       setStatusMessage('Getting live exchange rate...');
 
-      const rateResponse = await fetch(`/api/paycrest/rates/USDC/${amount}/${currency}`);
-      
-      if (!rateResponse.ok) {
-        throw new Error('Failed to fetch live exchange rate');
-      }
-      
-      const rateData = await rateResponse.json();
-      
-      if (!rateData.success || !rateData.rate) {
-        throw new Error('Invalid rate response');
-      }
-      
-      console.log('Live rate fetched:', rateData);
-      setStatusMessage(`Rate: 1 USDC = ${rateData.rate} ${currency}. Creating order...`);
-      
-      // Create order with live rate
+      const { quote } = await apiClient.requestQuote({
+        currency,
+        amount,
+        provider: 'paycrest',
+        paymentType: currency === 'NGN' ? 'BANK_TRANSFER' : 'MOBILE',
+      });
+
+      setStatusMessage(`Rate: 1 USDC = ${quote.rate} ${currency}. Creating order...`);
+
+      // Create order against the quote
       const orderResponse = await fetch('/api/paycrest/orders/simple', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          [IDEMPOTENCY_KEY_HEADER]: orderKeyRef.current,
+        },
         body: JSON.stringify({
           amount,
           phoneNumber,
           accountName,
           currency,
           returnAddress,
-          rate: rateData.rate, // Use live rate
+          quoteId: quote.id, // The server only accepts the rate via a quote
           // Include FID only if user is on Farcaster (for notifications)
           // Web users won't have this field, ensuring backward compatibility
           ...(context?.user?.fid && { fid: context.user.fid })
@@ -191,6 +193,7 @@ export function SimplePayment({
       }
     } catch (error) {
       console.error('Order creation failed:', error);
+      orderKeyRef.current = null;
       setCurrentStep('error');
 
       // Track order creation failure
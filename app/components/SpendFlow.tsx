@@ -13,6 +13,7 @@ import { CurrencySwapInterface } from './CurrencySwapInterface';
 import { FormInput } from './FormInput';
 import { PretiumReceipt } from './PretiumReceipt';
 import { useMinisendAuth } from '@/lib/hooks/useMinisendAuth';
+import { STABLECOIN_TOKENS, type StablecoinToken } from '@/lib/contracts';
 
 interface SpendFlowProps {
   setActiveTab: (tab: string) => void;
@@ -43,6 +44,9 @@ export function SpendFlow({ setActiveTab }: SpendFlowProps) {
     localAmount: string;
     currency: 'KES' | 'NGN' | 'GHS' | 'UGX';
     rate: number;
+    quoteId: string;
+    quoteExpiresAt: string;
+    token: StablecoinToken;
   } | null>(null);
   const [formData, setFormData] = useState({
     accountName: '',
@@ -194,11 +198,11 @@ export function SpendFlow({ setActiveTab }: SpendFlowProps) {
             {/* You send row */}
             <div className="px-4 py-4 flex items-center justify-between">
               <div className="flex items-center gap-3">
-                <Image src="/usdc.svg" alt="USDC" width={36} height={36} className="rounded-full" />
+                <Image src={STABLECOIN_TOKENS[swapData.token].logo} alt={swapData.token} width={36} height={36} className="rounded-full" />
                 <div>
                   <p className="text-[13px] text-[#8e8e93]">You send</p>
                   <p className="text-white text-[18px] font-semibold tracking-tight">
-                    {parseFloat(swapData.usdcAmount).toFixed(2)} <span className="text-[#8e8e93] text-[15px] font-normal">USDC</span>
+                    {parseFloat(swapData.usdcAmount).toFixed(2)} <span className="text-[#8e8e93] text-[15px] font-normal">{swapData.token}</span>
                   </p>
                 </div>
               </div>
@@ -235,7 +239,7 @@ export function SpendFlow({ setActiveTab }: SpendFlowProps) {
 
             {/* Rate footer */}
             <div className="px-4 py-3 bg-[#161618] rounded-b-2xl flex items-center justify-between">
-              <span className="text-[13px] text-[#636366]">1 USDC = {swapData.rate.toFixed(2)} {swapData.currency}</span>
+              <span className="text-[13px] text-[#636366]">1 {swapData.token} = {swapData.rate.toFixed(2)} {swapData.currency}</span>
               <span className="text-[13px] text-[#34C759]">No gas fees</span>
             </div>
           </div>
@@ -331,7 +335,7 @@ export function SpendFlow({ setActiveTab }: SpendFlowProps) {
                   </div>
                   <span className="text-[15px] text-[#98989F]">Rate</span>
                 </div>
-                <span className="text-[15px] text-white font-semibold">1 USDC = {swapData.rate.toFixed(2)}</span>
+                <span className="text-[15px] text-white font-semibold">1 {swapData.token} = {swapData.rate.toFixed(2)}</span>
               </div>
 
               <div className="h-px bg-white/[0.04] ml-14" />
@@ -368,10 +372,9 @@ export function SpendFlow({ setActiveTab }: SpendFlowProps) {
 
           {/* KES/GHS/UGX - Pretium provider */}
           {(swapData.currency === 'KES' || swapData.currency === 'GHS' || swapData.currency === 'UGX') ? (
-            useBlockradarPayment && user?.blockradarAddressId ? (
+            useBlockradarPayment && user?.blockradarAddressId && swapData.token === 'USDC' ? (
               <BlockradarPaymentProcessor
                 amount={swapData.usdcAmount}
-                localAmount={swapData.localAmount}
                 phoneNumber={paymentMethod.type === 'phone' ? paymentMethod.formatted : undefined}
                 tillNumber={paymentMethod.type === 'till' ? paymentMethod.formatted : undefined}
                 accountName={
@@ -385,6 +388,8 @@ export function SpendFlow({ setActiveTab }: SpendFlowProps) {
                 blockradarAddressId={user.blockradarAddressId}
                 walletAddress={walletAddress || ''}
                 rate={swapData.rate}
+                quoteId={swapData.quoteId}
+                quoteExpiresAt={swapData.quoteExpiresAt}
                 onSuccess={(txCode) => {
                   setTransactionData({ transactionCode: txCode });
                   setStep('success');
@@ -396,7 +401,7 @@ export function SpendFlow({ setActiveTab }: SpendFlowProps) {
             ) : (
               <PretiumPaymentProcessor
                 amount={swapData.usdcAmount}
-                localAmount={swapData.localAmount}
+                token={swapData.token}
                 phoneNumber={paymentMethod.type === 'phone' ? paymentMethod.formatted : undefined}
                 tillNumber={paymentMethod.type === 'till' ? paymentMethod.formatted : undefined}
                 paybillNumber={paymentMethod.type === 'paybill' ? paymentMethod.formatted : undefined}
@@ -410,6 +415,8 @@ export function SpendFlow({ setActiveTab }: SpendFlowProps) {
                 }
                 returnAddress={walletAddress || ''}
                 rate={swapData.rate}
+                quoteId={swapData.quoteId}
+                quoteExpiresAt={swapData.quoteExpiresAt}
                 currency={swapData.currency}
                 onSuccess={(transactionCode, txHash) => {
                   setTransactionData({ transactionCode, txHash });
@@ -422,7 +429,7 @@ export function SpendFlow({ setActiveTab }: SpendFlowProps) {
             )
           ) : swapData.currency === 'NGN' ? (
             /* NGN - PayCrest provider */
-            useBlockradarPayment && user?.blockradarAddressId ? (
+            useBlockradarPayment && user?.blockradarAddressId && swapData.token === 'USDC' ? (
               <BlockradarPaymentProcessor
                 amount={swapData.usdcAmount}
                 phoneNumber={paymentMethod.type === 'phone' ? paymentMethod.formatted : undefined}
@@ -431,6 +438,8 @@ export function SpendFlow({ setActiveTab }: SpendFlowProps) {
                 blockradarAddressId={user.blockradarAddressId}
                 walletAddress={walletAddress || ''}
                 rate={swapData.rate}
+                quoteId={swapData.quoteId}
+                quoteExpiresAt={swapData.quoteExpiresAt}
                 onSuccess={() => setStep('success')}
                 onError={() => {
                   // Error handling managed by BlockradarPaymentProcessor
@@ -439,12 +448,14 @@ export function SpendFlow({ setActiveTab }: SpendFlowProps) {
             ) : (
               <PaymentProcessor
                 amount={swapData.usdcAmount}
+                token={swapData.token}
                 phoneNumber={paymentMethod.type === 'phone' ? paymentMethod.formatted : undefined}
                 tillNumber={paymentMethod.type === 'till' ? paymentMethod.formatted : undefined}
                 accountName={formData.accountName}
                 currency={swapData.currency}
                 returnAddress={walletAddress || ''}
                 rate={swapData.rate}
+                quoteId={swapData.quoteId}
                 onSuccess={() => setStep('success')}
                 onError={() => {
                   // Error handled by PaymentProcessor
@@ -0,0 +1,247 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { TransactionLimitSettings, TransactionLimitsResponse } from '@/lib/types/limits';
+import { formatEATDate } from '@/lib/basescan-utils';
+
+// Inputs hold strings so a field can be cleared (no limit)
+type LimitsForm = {
+  enabled: boolean;
+  perTransaction: Record<string, { min: string; max: string }>;
+  dailyUsdcPerWallet: string;
+  monthlyUsdcPerWallet: string;
+  newRecipientsPerDay: string;
+  maxDistinctRecipients: string;
+  windowMinutes: string;
+};
+
+const toInput = (value: number | null) => (value === null ? '' : String(value));
+const toLimit = (value: string) => (value.trim() === '' ? null : value.trim());
+
+function toForm(settings: TransactionLimitSettings): LimitsForm {
+  return {
+    enabled: settings.enabled,
+    perTransaction: Object.fromEntries(
+      Object.entries(settings.perTransaction).map(([currency, bounds]) => [
+        currency,
+        { min: toInput(bounds.min), max: toInput(bounds.max) },
+      ])
+    ),
+    dailyUsdcPerWallet: toInput(settings.dailyUsdcPerWallet),
+    monthlyUsdcPerWallet: toInput(settings.monthlyUsdcPerWallet),
+    newRecipientsPerDay: toInput(settings.newRecipientsPerDay),
+    maxDistinctRecipients: toInput(settings.velocity.maxDistinctRecipients),
+    windowMinutes: String(settings.velocity.windowMinutes),
+  };
+}
+
+// Sent as strings; the API parses and validates them
+function toPayload(form: LimitsForm) {
+  return {
+    enabled: form.enabled,
+    perTransaction: Object.fromEntries(
+      Object.entries(form.perTransaction).map(([currency, bounds]) => [
+        currency,
+        { min: toLimit(bounds.min), max: toLimit(bounds.max) },
+      ])
+    ),
+    dailyUsdcPerWallet: toLimit(form.dailyUsdcPerWallet),
+    monthlyUsdcPerWallet: toLimit(form.monthlyUsdcPerWallet),
+    newRecipientsPerDay: toLimit(form.newRecipientsPerDay),
+    velocity: {
+      maxDistinctRecipients: toLimit(form.maxDistinctRecipients),
+      windowMinutes: form.windowMinutes,
+    },
+  };
+}
+
+function LimitInput({ label, value, onChange, suffix }: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  suffix?: string;
+}) {
+  return (
+    <label className="flex items-center justify-between gap-3 py-2">
+      <span className="text-[13px] text-white/50">{label}</span>
+      <span className="flex items-center gap-2">
+        <input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          inputMode="decimal"
+          placeholder="No limit"
+          className="h-8 w-28 px-3 bg-white/[0.03] border border-white/[0.08] rounded-lg text-[12px] text-white text-right placeholder:text-white/25 focus:outline-none focus:border-white/20"
+        />
+        {suffix && <span className="w-16 text-[11px] text-white/30">{suffix}</span>}
+      </span>
+    </label>
+  );
+}
+
+export function LimitsPanel() {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<LimitsForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<TransactionLimitsResponse>({
+    queryKey: ['transaction-limits'],
+    queryFn: async () => {
+      const response = await fetch('/api/pretium/dashboard/limits');
+      if (!response.ok) throw new Error('Failed to fetch transaction limits');
+      return response.json();
+    },
+  });
+
+  useEffect(() => {
+    if (data) setForm(toForm(data.settings));
+  }, [data]);
+
+  const update = (changes: Partial<LimitsForm>) => setForm((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const updateBound = (currency: string, bound: 'min' | 'max', value: string) =>
+    setForm((prev) => prev && {
+      ...prev,
+      perTransaction: { ...prev.perTransaction, [currency]: { ...prev.perTransaction[currency], [bound]: value } },
+    });
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/pretium/dashboard/limits', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ settings: toPayload(form) }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to save transaction limits');
+      queryClient.setQueryData(['transaction-limits'], result);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save transaction limits');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/[0.02] rounded-2xl border border-white/[0.06] overflow-hidden">
+      <div className="flex items-center justify-between px-5 py-4 border-b border-white/[0.06]">
+        <div>
+          <span className="text-[15px] font-semibold text-white">Transaction Limits</span>
+          {data?.updatedAt && (
+            <p className="text-[11px] text-white/40 mt-0.5">
+              Updated {formatEATDate(data.updatedAt)}{data.updatedBy ? ` by ${data.updatedBy}` : ''}
+            </p>
+          )}
+        </div>
+        {form && (
+          <label className="flex items-center gap-2 text-[12px] text-white/60">
+            <input
+              type="checkbox"
+              checked={form.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+            />
+            Enforced
+          </label>
+        )}
+      </div>
+
+      {isLoading || !form ? (
+        <div className="p-6 space-y-3">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-10 bg-white/[0.03] rounded-xl animate-pulse" />
+          ))}
+        </div>
+      ) : (
+        <div className="p-5">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div>
+              <h4 className="text-[11px] font-semibold text-white/30 uppercase tracking-wider mb-1">Per Transaction (USDC)</h4>
+              <div className="divide-y divide-white/[0.04]">
+                {Object.entries(form.perTransaction).map(([currency, bounds]) => (
+                  <div key={currency} className="flex items-center justify-between gap-3 py-2">
+                    <span className="text-[13px] text-white/50">{currency}</span>
+                    <span className="flex items-center gap-2">
+                      <input
+                        value={bounds.min}
+                        onChange={(e) => updateBound(currency, 'min', e.target.value)}
+                        inputMode="decimal"
+                        placeholder="Min"
+                        className="h-8 w-24 px-3 bg-white/[0.03] border border-white/[0.08] rounded-lg text-[12px] text-white text-right placeholder:text-white/25 focus:outline-none focus:border-white/20"
+                      />
+                      <span className="text-[11px] text-white/30">to</span>
+                      <input
+                        value={bounds.max}
+                        onChange={(e) => updateBound(currency, 'max', e.target.value)}
+                        inputMode="decimal"
+                        placeholder="Max"
+                        className="h-8 w-24 px-3 bg-white/[0.03] border border-white/[0.08] rounded-lg text-[12px] text-white text-right placeholder:text-white/25 focus:outline-none focus:border-white/20"
+                      />
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-[11px] font-semibold text-white/30 uppercase tracking-wider mb-1">Per Wallet</h4>
+              <div className="divide-y divide-white/[0.04]">
+                <LimitInput
+                  label="Daily cap"
+                  value={form.dailyUsdcPerWallet}
+                  onChange={(value) => update({ dailyUsdcPerWallet: value })}
+                  suffix="USDC / 24h"
+                />
+                <LimitInput
+                  label="Monthly cap"
+                  value={form.monthlyUsdcPerWallet}
+                  onChange={(value) => update({ monthlyUsdcPerWallet: value })}
+                  suffix="USDC / 30d"
+                />
+                <LimitInput
+                  label="New recipients"
+                  value={form.newRecipientsPerDay}
+                  onChange={(value) => update({ newRecipientsPerDay: value })}
+                  suffix="per 24h"
+                />
+                <LimitInput
+                  label="Distinct recipients"
+                  value={form.maxDistinctRecipients}
+                  onChange={(value) => update({ maxDistinctRecipients: value })}
+                  suffix="per window"
+                />
+                <LimitInput
+                  label="Velocity window"
+                  value={form.windowMinutes}
+                  onChange={(value) => update({ windowMinutes: value })}
+                  suffix="minutes"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end gap-3 mt-5">
+            {error && <span className="text-[12px] text-red-400">{error}</span>}
+            <button
+              onClick={() => data && setForm(toForm(data.settings))}
+              disabled={saving}
+              className="h-8 px-3 bg-white/[0.05] hover:bg-white/[0.08] text-[12px] font-medium text-white/70 rounded-lg disabled:opacity-50"
+            >
+              Reset
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="h-8 px-3 bg-white text-black text-[12px] font-semibold rounded-lg disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Limits'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
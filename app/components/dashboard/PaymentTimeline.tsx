@@ -0,0 +1,109 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { CorrelationTimeline, TimelineEvent } from '@/lib/types/dashboard';
+import { formatEATDate } from '@/lib/basescan-utils';
+
+const SOURCE_LABELS: Record<TimelineEvent['source'], string> = {
+  quote: 'Quote',
+  order: 'Order',
+  status: 'Status',
+  webhook: 'Webhook',
+  analytics: 'Event',
+};
+
+function getSourceStyle(source: TimelineEvent['source']) {
+  switch (source) {
+    case 'quote':
+      return 'bg-blue-500/10 text-blue-400 border-blue-500/20';
+    case 'order':
+      return 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20';
+    case 'status':
+      return 'bg-amber-500/10 text-amber-400 border-amber-500/20';
+    case 'webhook':
+      return 'bg-purple-500/10 text-purple-400 border-purple-500/20';
+    default:
+      return 'bg-white/5 text-white/40 border-white/10';
+  }
+}
+
+export function PaymentTimeline() {
+  const [input, setInput] = useState('');
+  const [correlationId, setCorrelationId] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useQuery<CorrelationTimeline>({
+    queryKey: ['payment-timeline', correlationId],
+    queryFn: async () => {
+      const response = await fetch(`/api/pretium/dashboard/timeline?id=${encodeURIComponent(correlationId!)}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to fetch timeline');
+      return result;
+    },
+    enabled: !!correlationId,
+  });
+
+  return (
+    <div className="bg-white/[0.02] rounded-2xl border border-white/[0.06] overflow-hidden">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 px-5 py-4 border-b border-white/[0.06]">
+        <span className="text-[15px] font-semibold text-white">Payment Timeline</span>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setCorrelationId(input.trim() || null);
+          }}
+          className="flex items-center gap-2"
+        >
+          <input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Correlation ID (cid_...)"
+            className="h-8 w-72 px-3 bg-white/[0.03] border border-white/[0.08] rounded-lg text-[12px] font-mono text-white placeholder:text-white/25 focus:outline-none focus:border-white/20"
+          />
+          <button
+            type="submit"
+            disabled={!input.trim()}
+            className="h-8 px-3 bg-white text-black text-[12px] font-semibold rounded-lg disabled:opacity-50"
+          >
+            Trace
+          </button>
+        </form>
+      </div>
+
+      {!correlationId ? (
+        <p className="p-10 text-center text-[13px] text-white/40">
+          Paste the correlation ID from an order or a PostHog offramp event
+        </p>
+      ) : isLoading ? (
+        <div className="p-6 space-y-3">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-10 bg-white/[0.03] rounded-xl animate-pulse" />
+          ))}
+        </div>
+      ) : error ? (
+        <p className="p-10 text-center text-[13px] text-red-400">{(error as Error).message}</p>
+      ) : !data || data.events.length === 0 ? (
+        <p className="p-10 text-center text-[13px] text-white/40">Nothing recorded for this ID</p>
+      ) : (
+        <ol className="divide-y divide-white/[0.04]">
+          {data.events.map((event, i) => (
+            <li key={`${event.at}-${i}`} className="flex items-start gap-4 px-5 py-3">
+              <span className="w-36 shrink-0 text-[11px] text-white/40 pt-0.5">{formatEATDate(event.at)}</span>
+              <span className={`shrink-0 inline-flex items-center px-2 py-0.5 rounded-md text-[11px] font-semibold border ${getSourceStyle(event.source)}`}>
+                {SOURCE_LABELS[event.source]}
+              </span>
+              <div className="min-w-0">
+                <p className="text-[13px] text-white/90">{event.title}</p>
+                {(event.detail || event.orderId) && (
+                  <p className="text-[11px] text-white/40 mt-0.5 break-all">
+                    {[event.orderId, event.detail].filter(Boolean).join(' · ')}
+                  </p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
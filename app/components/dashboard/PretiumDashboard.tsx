@@ -7,6 +7,10 @@ import { DashboardMetrics } from './DashboardMetrics';
 import { TransactionFilters } from './TransactionFilters';
 import { TransactionTable } from './TransactionTable';
 import { ExportButton } from './ExportButton';
+import { RefundsPanel } from './RefundsPanel';
+import { ReviewsPanel } from './ReviewsPanel';
+import { PaymentTimeline } from './PaymentTimeline';
+import { LimitsPanel } from './LimitsPanel';
 
 interface OrdersResponse {
   orders: UnifiedOrder[];
@@ -182,6 +186,26 @@ export function PretiumDashboard() {
           periodLabel={periodLabel}
         />
 
+        {/* Risk Reviews */}
+        <div className="mt-8">
+          <ReviewsPanel />
+        </div>
+
+        {/* Refund Cases */}
+        <div className="mt-8">
+          <RefundsPanel />
+        </div>
+
+        {/* Payment Timeline */}
+        <div className="mt-8">
+          <PaymentTimeline />
+        </div>
+
+        {/* Transaction Limits */}
+        <div className="mt-8">
+          <LimitsPanel />
+        </div>
+
         {/* Filters Section */}
         <div className="mt-8">
           <TransactionFilters onFiltersChange={setFilters} />
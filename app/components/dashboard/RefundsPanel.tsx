@@ -0,0 +1,243 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Refund } from '@/lib/supabase/config';
+import { formatEATDate, truncateHash, getBaseScanTxUrl, getBaseScanAddressUrl } from '@/lib/basescan-utils';
+
+const STATUS_TABS: { value: string; label: string }[] = [
+  { value: 'open', label: 'Needs Review' },
+  { value: 'approved,processing,failed', label: 'In Progress' },
+  { value: 'completed,rejected', label: 'Closed' },
+];
+
+const SOURCE_LABELS: Record<Refund['source'], string> = {
+  failover: 'Failover',
+  paycrest_expired: 'Expired',
+  manual: 'Manual',
+  risk_review: 'Risk Review',
+  batch: 'Batch',
+  schedule: 'Scheduled',
+};
+
+function getStatusStyle(status: Refund['status']) {
+  switch (status) {
+    case 'completed':
+      return 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20';
+    case 'open':
+      return 'bg-amber-500/10 text-amber-400 border-amber-500/20';
+    case 'approved':
+    case 'processing':
+      return 'bg-blue-500/10 text-blue-400 border-blue-500/20';
+    case 'failed':
+      return 'bg-red-500/10 text-red-400 border-red-500/20';
+    default:
+      return 'bg-white/5 text-white/40 border-white/10';
+  }
+}
+
+async function postRefundAction(refundId: string, body: Record<string, unknown>) {
+  const response = await fetch(`/api/pretium/dashboard/refunds/${refundId}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error || 'Refund action failed');
+  return result;
+}
+
+function RefundRow({ refund, onChanged }: { refund: Refund; onChanged: () => void }) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [txHash, setTxHash] = useState('');
+
+  const run = async (body: Record<string, unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await postRefundAction(refund.id, body);
+      onChanged();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Refund action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReject = () => {
+    const note = window.prompt('Reason for rejecting this refund');
+    if (note) run({ action: 'reject', note });
+  };
+
+  const canRecordTransfer = refund.refund_method === 'operator_transfer' && ['approved', 'failed'].includes(refund.status);
+  const canRetry = refund.refund_method === 'blockradar' && refund.status === 'failed';
+
+  return (
+    <tr className="hover:bg-white/[0.02] transition-colors align-top">
+      <td className="py-4 px-5">
+        <p className="text-[13px] font-mono text-white/80">
+          {refund.pretium_transaction_code || truncateHash(refund.paycrest_order_id || refund.id, 8, 6)}
+        </p>
+        <p className="text-[11px] text-white/40 mt-1">
+          {SOURCE_LABELS[refund.source]} · {formatEATDate(refund.created_at)}
+        </p>
+        <p className="text-[12px] text-white/50 mt-1 max-w-xs">{refund.reason}</p>
+      </td>
+      <td className="py-4 px-5">
+        <p className="text-[14px] font-semibold text-white">${Number(refund.amount_usdc).toFixed(2)}</p>
+        <a
+          href={getBaseScanAddressUrl(refund.wallet_address)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-[11px] font-mono text-white/40 hover:text-white/70"
+        >
+          {truncateHash(refund.wallet_address)}
+        </a>
+      </td>
+      <td className="py-4 px-5">
+        <span className={`inline-flex items-center px-2 py-0.5 rounded-md text-[11px] font-semibold border ${getStatusStyle(refund.status)}`}>
+          {refund.status}
+        </span>
+        {refund.refund_method && (
+          <p className="text-[11px] text-white/40 mt-1">
+            {refund.refund_method === 'blockradar' ? 'Blockradar' : 'Operator transfer'}
+          </p>
+        )}
+        {refund.tx_hash && (
+          <a
+            href={getBaseScanTxUrl(refund.tx_hash)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block text-[11px] font-mono text-blue-400 hover:text-blue-300 mt-1"
+          >
+            {truncateHash(refund.tx_hash)}
+          </a>
+        )}
+        {(refund.error_message || refund.review_note) && (
+          <p className="text-[11px] text-white/40 mt-1 max-w-xs">{refund.error_message || refund.review_note}</p>
+        )}
+      </td>
+      <td className="py-4 px-5 text-right">
+        <div className="flex flex-col items-end gap-2">
+          {refund.status === 'open' && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => run({ action: 'approve' })}
+                disabled={busy}
+                className="h-8 px-3 bg-white text-black text-[12px] font-semibold rounded-lg disabled:opacity-50"
+              >
+                Approve
+              </button>
+              <button
+                onClick={handleReject}
+                disabled={busy}
+                className="h-8 px-3 bg-white/[0.05] hover:bg-white/[0.08] text-[12px] font-medium text-white/70 rounded-lg disabled:opacity-50"
+              >
+                Reject
+              </button>
+            </div>
+          )}
+          {canRetry && (
+            <button
+              onClick={() => run({ action: 'execute' })}
+              disabled={busy}
+              className="h-8 px-3 bg-white/[0.05] hover:bg-white/[0.08] text-[12px] font-medium text-white/70 rounded-lg disabled:opacity-50"
+            >
+              Retry Withdrawal
+            </button>
+          )}
+          {canRecordTransfer && (
+            <div className="flex gap-2">
+              <input
+                value={txHash}
+                onChange={(e) => setTxHash(e.target.value.trim())}
+                placeholder="Refund tx hash (0x...)"
+                className="h-8 w-56 px-3 bg-white/[0.03] border border-white/[0.08] rounded-lg text-[12px] font-mono text-white placeholder:text-white/25 focus:outline-none focus:border-white/20"
+              />
+              <button
+                onClick={() => run({ action: 'record_transfer', txHash })}
+                disabled={busy || !txHash}
+                className="h-8 px-3 bg-white text-black text-[12px] font-semibold rounded-lg disabled:opacity-50"
+              >
+                Record
+              </button>
+            </div>
+          )}
+          {busy && <span className="text-[11px] text-white/40">Working...</span>}
+          {error && <span className="text-[11px] text-red-400 max-w-xs">{error}</span>}
+        </div>
+      </td>
+    </tr>
+  );
+}
+
+export function RefundsPanel() {
+  const queryClient = useQueryClient();
+  const [statusTab, setStatusTab] = useState(STATUS_TABS[0].value);
+
+  const { data, isLoading } = useQuery<{ refunds: Refund[] }>({
+    queryKey: ['refunds', statusTab],
+    queryFn: async () => {
+      const response = await fetch(`/api/pretium/dashboard/refunds?status=${statusTab}`);
+      if (!response.ok) throw new Error('Failed to fetch refunds');
+      return response.json();
+    },
+    refetchInterval: 30000,
+  });
+
+  const refunds = data?.refunds || [];
+
+  return (
+    <div className="bg-white/[0.02] rounded-2xl border border-white/[0.06] overflow-hidden">
+      <div className="flex items-center justify-between px-5 py-4 border-b border-white/[0.06]">
+        <span className="text-[15px] font-semibold text-white">Refunds</span>
+        <div className="flex items-center bg-white/[0.03] rounded-lg p-1 border border-white/[0.06]">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => setStatusTab(tab.value)}
+              className={`px-3 py-1 rounded-md text-[12px] font-medium transition-all ${
+                statusTab === tab.value ? 'bg-white text-black' : 'text-white/50 hover:text-white/80'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="p-6 space-y-3">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-14 bg-white/[0.03] rounded-xl animate-pulse" />
+          ))}
+        </div>
+      ) : refunds.length === 0 ? (
+        <p className="p-10 text-center text-[13px] text-white/40">No refunds here</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-white/[0.06]">
+                <th className="text-left py-3 px-5 text-[11px] font-semibold text-white/40 uppercase tracking-wider">Order</th>
+                <th className="text-left py-3 px-5 text-[11px] font-semibold text-white/40 uppercase tracking-wider">Amount</th>
+                <th className="text-left py-3 px-5 text-[11px] font-semibold text-white/40 uppercase tracking-wider">Status</th>
+                <th className="text-right py-3 px-5 text-[11px] font-semibold text-white/40 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/[0.04]">
+              {refunds.map((refund) => (
+                <RefundRow
+                  key={refund.id}
+                  refund={refund}
+                  onChanged={() => queryClient.invalidateQueries({ queryKey: ['refunds'] })}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
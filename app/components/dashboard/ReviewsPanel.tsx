@@ -0,0 +1,224 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { PayoutReview } from '@/lib/supabase/config';
+import { formatEATDate, truncateHash, getBaseScanTxUrl, getBaseScanAddressUrl } from '@/lib/basescan-utils';
+
+const STATUS_TABS: { value: string; label: string }[] = [
+  { value: 'review', label: 'Needs Review' },
+  { value: 'approved,rejected', label: 'Decided' },
+];
+
+function getStatusStyle(status: PayoutReview['status']) {
+  switch (status) {
+    case 'approved':
+      return 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20';
+    case 'review':
+      return 'bg-amber-500/10 text-amber-400 border-amber-500/20';
+    case 'rejected':
+      return 'bg-red-500/10 text-red-400 border-red-500/20';
+    default:
+      return 'bg-white/5 text-white/40 border-white/10';
+  }
+}
+
+async function postReviewAction(reviewId: string, body: Record<string, unknown>) {
+  const response = await fetch(`/api/pretium/dashboard/reviews/${reviewId}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error || 'Review action failed');
+  return result;
+}
+
+function ReviewRow({ review, onChanged }: { review: PayoutReview; onChanged: () => void }) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refund, setRefund] = useState(true);
+  const [denyList, setDenyList] = useState(false);
+
+  // Pretium payouts are funded before they are held - PayCrest ones are not
+  const isFunded = !!review.transaction_hash;
+
+  const run = async (body: Record<string, unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await postReviewAction(review.id, body);
+      onChanged();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Review action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReject = () => {
+    const note = window.prompt('Reason for rejecting this payout');
+    if (note) run({ action: 'reject', note, refund: isFunded && refund, denyList });
+  };
+
+  return (
+    <tr className="hover:bg-white/[0.02] transition-colors align-top">
+      <td className="py-4 px-5">
+        <p className="text-[13px] text-white/80">
+          {review.provider === 'pretium' ? 'Pretium' : 'Paycrest'} · {review.currency}
+        </p>
+        <p className="text-[11px] text-white/40 mt-1">{formatEATDate(review.created_at)}</p>
+        {review.transaction_hash && (
+          <a
+            href={getBaseScanTxUrl(review.transaction_hash)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block text-[11px] font-mono text-blue-400 hover:text-blue-300 mt-1"
+          >
+            Deposit {truncateHash(review.transaction_hash)}
+          </a>
+        )}
+        {review.order_reference && (
+          <p className="text-[11px] font-mono text-white/50 mt-1">{review.order_reference}</p>
+        )}
+      </td>
+      <td className="py-4 px-5">
+        <p className="text-[14px] font-semibold text-white">${Number(review.amount_usdc).toFixed(2)}</p>
+        <a
+          href={getBaseScanAddressUrl(review.wallet_address)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-[11px] font-mono text-white/40 hover:text-white/70"
+        >
+          {truncateHash(review.wallet_address)}
+        </a>
+      </td>
+      <td className="py-4 px-5">
+        <ul className="space-y-1 max-w-sm">
+          {review.signals.map((signal, i) => (
+            <li key={i} className="text-[12px] text-white/60">
+              <span className="text-white/30">{signal.subject}:</span> {signal.reason}
+            </li>
+          ))}
+        </ul>
+        {review.status !== 'review' && (
+          <span className={`inline-flex items-center mt-2 px-2 py-0.5 rounded-md text-[11px] font-semibold border ${getStatusStyle(review.status)}`}>
+            {review.status}
+          </span>
+        )}
+        {(review.error_message || review.review_note) && (
+          <p className="text-[11px] text-white/40 mt-1 max-w-xs">{review.error_message || review.review_note}</p>
+        )}
+      </td>
+      <td className="py-4 px-5 text-right">
+        <div className="flex flex-col items-end gap-2">
+          {review.status === 'review' && (
+            <>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => run({ action: 'approve' })}
+                  disabled={busy}
+                  className="h-8 px-3 bg-white text-black text-[12px] font-semibold rounded-lg disabled:opacity-50"
+                >
+                  {isFunded ? 'Approve & Pay' : 'Approve'}
+                </button>
+                <button
+                  onClick={handleReject}
+                  disabled={busy}
+                  className="h-8 px-3 bg-white/[0.05] hover:bg-white/[0.08] text-[12px] font-medium text-white/70 rounded-lg disabled:opacity-50"
+                >
+                  Reject
+                </button>
+              </div>
+              {isFunded && (
+                <label className="flex items-center gap-2 text-[11px] text-white/50">
+                  <input type="checkbox" checked={refund} onChange={(e) => setRefund(e.target.checked)} />
+                  Refund deposit on reject
+                </label>
+              )}
+              <label className="flex items-center gap-2 text-[11px] text-white/50">
+                <input type="checkbox" checked={denyList} onChange={(e) => setDenyList(e.target.checked)} />
+                Deny-list on reject
+              </label>
+            </>
+          )}
+          {busy && <span className="text-[11px] text-white/40">Working...</span>}
+          {error && <span className="text-[11px] text-red-400 max-w-xs">{error}</span>}
+        </div>
+      </td>
+    </tr>
+  );
+}
+
+export function ReviewsPanel() {
+  const queryClient = useQueryClient();
+  const [statusTab, setStatusTab] = useState(STATUS_TABS[0].value);
+
+  const { data, isLoading } = useQuery<{ reviews: PayoutReview[] }>({
+    queryKey: ['payout-reviews', statusTab],
+    queryFn: async () => {
+      const response = await fetch(`/api/pretium/dashboard/reviews?status=${statusTab}`);
+      if (!response.ok) throw new Error('Failed to fetch payout reviews');
+      return response.json();
+    },
+    refetchInterval: 30000,
+  });
+
+  const reviews = data?.reviews || [];
+
+  return (
+    <div className="bg-white/[0.02] rounded-2xl border border-white/[0.06] overflow-hidden">
+      <div className="flex items-center justify-between px-5 py-4 border-b border-white/[0.06]">
+        <span className="text-[15px] font-semibold text-white">Risk Reviews</span>
+        <div className="flex items-center bg-white/[0.03] rounded-lg p-1 border border-white/[0.06]">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => setStatusTab(tab.value)}
+              className={`px-3 py-1 rounded-md text-[12px] font-medium transition-all ${
+                statusTab === tab.value ? 'bg-white text-black' : 'text-white/50 hover:text-white/80'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="p-6 space-y-3">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-14 bg-white/[0.03] rounded-xl animate-pulse" />
+          ))}
+        </div>
+      ) : reviews.length === 0 ? (
+        <p className="p-10 text-center text-[13px] text-white/40">No payouts here</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-white/[0.06]">
+                <th className="text-left py-3 px-5 text-[11px] font-semibold text-white/40 uppercase tracking-wider">Payout</th>
+                <th className="text-left py-3 px-5 text-[11px] font-semibold text-white/40 uppercase tracking-wider">Amount</th>
+                <th className="text-left py-3 px-5 text-[11px] font-semibold text-white/40 uppercase tracking-wider">Signals</th>
+                <th className="text-right py-3 px-5 text-[11px] font-semibold text-white/40 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/[0.04]">
+              {reviews.map((review) => (
+                <ReviewRow
+                  key={review.id}
+                  review={review}
+                  onChanged={() => {
+                    queryClient.invalidateQueries({ queryKey: ['payout-reviews'] });
+                    queryClient.invalidateQueries({ queryKey: ['refunds'] });
+                  }}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,8 @@
 
 import { UnifiedOrder } from '@/lib/types/dashboard';
 import { PretiumOrder, Order } from '@/lib/supabase/config';
-import { getBaseScanTxUrl, getBaseScanAddressUrl, truncateHash, copyToClipboard, formatEATDate, getTimeDifference } from '@/lib/basescan-utils';
+import { getBaseScanAddressUrl, truncateHash, copyToClipboard, formatEATDate, getTimeDifference } from '@/lib/basescan-utils';
+import { getChainTxUrl, getChainAddressUrl } from '@/lib/pretium/chains';
 import { useState } from 'react';
 
 interface TransactionDetailsProps {
@@ -108,19 +109,28 @@ export function TransactionDetails({ order }: TransactionDetailsProps) {
               mono
               copyable={order.transactionHash}
               copyKey="hash"
-              link={getBaseScanTxUrl(order.transactionHash)}
+              link={getChainTxUrl(order.chain, order.transactionHash)}
+            />
+          )}
+          {order.raw.correlation_id && (
+            <DetailRow
+              label="Correlation ID"
+              value={truncateHash(order.raw.correlation_id, 10, 6)}
+              mono
+              copyable={order.raw.correlation_id}
+              copyKey="correlation"
             />
           )}
         </Section>
 
         {/* Financial Details */}
         <Section title="Financial">
-          <DetailRow label="USDC Amount" value={`${order.amountInUsdc} USDC`} />
+          <DetailRow label={`${order.token} Amount`} value={`${order.amountInUsdc} ${order.token}`} />
           <DetailRow label={`${order.localCurrency} Amount`} value={`${order.amountInLocal?.toLocaleString()} ${order.localCurrency}`} />
           {order.exchangeRate && (
             <DetailRow label="Exchange Rate" value={order.exchangeRate} />
           )}
-          <DetailRow label="Fee" value={`${order.senderFee} USDC`} />
+          <DetailRow label="Fee" value={`${order.senderFee} ${order.token}`} />
         </Section>
 
         {/* Payment Info */}
@@ -209,7 +219,7 @@ export function TransactionDetails({ order }: TransactionDetailsProps) {
               label="Settlement"
               value={truncateHash((order.raw as PretiumOrder).settlement_address!, 8, 6)}
               mono
-              link={getBaseScanAddressUrl((order.raw as PretiumOrder).settlement_address!)}
+              link={getChainAddressUrl(order.chain, (order.raw as PretiumOrder).settlement_address!)}
             />
           )}
           {order.fid && (
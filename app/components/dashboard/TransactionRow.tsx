@@ -3,7 +3,8 @@
 import { useState } from 'react';
 import { UnifiedOrder } from '@/lib/types/dashboard';
 import { TransactionDetails } from './TransactionDetails';
-import { formatEATDate, truncateHash, getBaseScanTxUrl } from '@/lib/basescan-utils';
+import { formatEATDate, truncateHash } from '@/lib/basescan-utils';
+import { getChainTxUrl } from '@/lib/pretium/chains';
 
 interface TransactionRowProps {
   order: UnifiedOrder;
@@ -71,7 +72,7 @@ export function TransactionRow({ order, onRefresh, refreshing }: TransactionRowP
         {/* Amount */}
         <td className="py-4 px-5">
           <div>
-            <p className="text-[14px] font-medium text-white">${order.amountInUsdc}</p>
+            <p className="text-[14px] font-medium text-white">${order.amountInUsdc} <span className="text-white/40 text-[12px]">{order.token}</span></p>
             <p className="text-[12px] text-white/40 mt-0.5">
               {order.amountInLocal?.toLocaleString()} {order.localCurrency}
             </p>
@@ -83,6 +84,14 @@ export function TransactionRow({ order, onRefresh, refreshing }: TransactionRowP
           <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-[11px] font-semibold uppercase tracking-wide border ${getStatusStyle()}`}>
             {order.status}
           </span>
+          {order.raw.flagged_at && (
+            <span
+              title={order.raw.flag_reason}
+              className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-semibold bg-orange-500/10 text-orange-400 border border-orange-500/20"
+            >
+              Flagged
+            </span>
+          )}
         </td>
 
         {/* Payment Type */}
@@ -103,7 +112,7 @@ export function TransactionRow({ order, onRefresh, refreshing }: TransactionRowP
         <td className="py-4 px-5">
           {order.transactionHash ? (
             <a
-              href={getBaseScanTxUrl(order.transactionHash)}
+              href={getChainTxUrl(order.chain, order.transactionHash)}
               target="_blank"
               rel="noopener noreferrer"
               className="inline-flex items-center gap-1 text-[13px] text-blue-400 hover:text-blue-300 font-mono transition-colors"
@@ -11,6 +11,7 @@ import { Home } from "./components/BaseComponents";
 import { Features } from "./components/BaseComponents";
 import { ExchangeFlow } from "./components/ExchangeFlow";
 import { SpendFlow } from "./components/SpendFlow";
+import { DepositFlow } from "./components/DepositFlow";
 import { SwapInterface } from "./components/SwapInterface";
 import { ProfileView } from "./components/ProfileView";
 
@@ -30,9 +31,24 @@ export default function App() {
   const [addFrameError, setAddFrameError] = useState<string>("");
   const [showOfframpGuide, setShowOfframpGuide] = useState(false);
   const [showSpendGuide, setShowSpendGuide] = useState(false);
+  const [scheduleId, setScheduleId] = useState<string | null>(null);
+  const [prefillCurrency, setPrefillCurrency] = useState<"KES" | "NGN" | "GHS" | "UGX" | null>(null);
 
   useEffect(() => {
     setMounted(true);
+
+    // Scheduled payout reminders link here to open the payment prefilled,
+    // rate alerts to open the exchange in the alert's currency
+    const params = new URLSearchParams(window.location.search);
+    const reminderScheduleId = params.get('schedule');
+    const alertCurrency = params.get('currency')?.toUpperCase();
+    if (reminderScheduleId) {
+      setScheduleId(reminderScheduleId);
+      setActiveTab("offramp");
+    } else if (alertCurrency === "KES" || alertCurrency === "NGN" || alertCurrency === "GHS" || alertCurrency === "UGX") {
+      setPrefillCurrency(alertCurrency);
+      setActiveTab("offramp");
+    }
   }, []);
 
   // Show guide cards on mount with staggered timing (only on home tab)
@@ -231,8 +247,9 @@ export default function App() {
           <main className="flex-1 overflow-visible relative z-10">
             {activeTab === "home" && <Home setActiveTab={setActiveTab} />}
             {activeTab === "features" && <Features setActiveTab={setActiveTab} />}
-            {activeTab === "offramp" && <ExchangeFlow setActiveTab={setActiveTab} />}
+            {activeTab === "offramp" && <ExchangeFlow setActiveTab={setActiveTab} scheduleId={scheduleId} prefillCurrency={prefillCurrency} />}
             {activeTab === "spend" && <SpendFlow setActiveTab={setActiveTab} />}
+            {activeTab === "deposit" && <DepositFlow setActiveTab={setActiveTab} />}
             {activeTab === "swap" && <SwapInterface setActiveTab={setActiveTab} />}
             {activeTab === "profile" && <ProfileView setActiveTab={setActiveTab} />}
           </main>
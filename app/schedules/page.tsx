@@ -0,0 +1,24 @@
+"use client";
+
+import Link from 'next/link';
+import { ScheduledPayouts } from '../components/ScheduledPayouts';
+
+export default function SchedulesPage() {
+  return (
+    <main className="min-h-screen bg-black px-4 py-6">
+      <div className="max-w-md mx-auto space-y-5">
+        <div className="flex items-center justify-between">
+          <Link href="/" className="text-[#0A84FF] text-[15px]">Back</Link>
+          <h1 className="text-white text-[17px] font-semibold">Recurring payouts</h1>
+          <span className="w-8" />
+        </div>
+        <p className="text-[#8e8e93] text-[13px]">
+          Send the same amount to a saved recipient every week or month. With a Minisend wallet the payment
+          goes out automatically and is skipped if your balance is short; otherwise you get a reminder that
+          opens the payment ready to confirm.
+        </p>
+        <ScheduledPayouts />
+      </div>
+    </main>
+  );
+}
@@ -2,24 +2,29 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { useAccount, useChainId } from 'wagmi'
-import { getUSDCContract } from '@/lib/contracts'
+import { DEFAULT_TOKEN, STABLECOIN_TOKENS, getTokenContract, type StablecoinToken } from '@/lib/contracts'
 import { base } from 'viem/chains'
 import { useMinisendAuth } from '@/lib/hooks/useMinisendAuth'
+import { DEFAULT_PRETIUM_CHAIN, getPretiumChain } from '@/lib/pretium/chains'
+import type { PretiumChain } from '@/lib/pretium/types'
 
-interface UseUSDCBalanceReturn {
+interface UseTokenBalanceReturn {
   balance: string;
   balanceNum: number;
   isLoading: boolean;
   error: string;
   isRefreshing: boolean;
+  // False on Tron and Stellar, where the user's address is not the connected wallet's,
+  // and where the token isn't deployed on the chain
+  isAvailable: boolean;
   fetchBalance: () => Promise<void>;
 }
 
-async function fetchOnChainUSDCBalance(
+async function fetchOnChainTokenBalance(
   walletAddress: string,
-  usdcContract: string
+  tokenContract: string,
+  rpcUrl: string
 ): Promise<bigint> {
-  const rpcUrl = 'https://mainnet.base.org'
   const data = `0x70a08231000000000000000000000000${walletAddress.slice(2)}`
 
   const response = await fetch(rpcUrl, {
@@ -28,7 +33,7 @@ async function fetchOnChainUSDCBalance(
     body: JSON.stringify({
       jsonrpc: '2.0',
       method: 'eth_call',
-      params: [{ to: usdcContract, data }, 'latest'],
+      params: [{ to: tokenContract, data }, 'latest'],
       id: 1,
     }),
   })
@@ -39,11 +44,25 @@ async function fetchOnChainUSDCBalance(
   return BigInt(result.result)
 }
 
-export function useUSDCBalance(): UseUSDCBalanceReturn {
+/**
+ * Stablecoin held by the connected wallet and the Minisend wallet on a deposit
+ * chain (Base by default). Other EVM chains are read at the same addresses
+ */
+export function useTokenBalance(
+  token: StablecoinToken = DEFAULT_TOKEN,
+  chain: PretiumChain = DEFAULT_PRETIUM_CHAIN
+): UseTokenBalanceReturn {
   const { address, isConnected } = useAccount()
   const chainId = useChainId()
   const { minisendWallet } = useMinisendAuth()
 
+  const chainConfig = getPretiumChain(chain)
+  // On Base the wallet's network decides mainnet or Sepolia
+  const isBase = chain === DEFAULT_PRETIUM_CHAIN
+  const tokenContract = (isBase ? getTokenContract(token, chainId) : chainConfig.tokens[token]?.address) || ''
+  const isAvailable = chainConfig.kind === 'evm' && Boolean(tokenContract)
+  const canFetch = isAvailable && (!isBase || chainId === base.id)
+
   const hasWallet = (isConnected && address) || minisendWallet
 
   const [balance, setBalance] = useState<string>('0.00')
@@ -51,10 +70,11 @@ export function useUSDCBalance(): UseUSDCBalanceReturn {
   const [error, setError] = useState<string>('')
   const [isRefreshing, setIsRefreshing] = useState(false)
 
-  const usdcContract = getUSDCContract(chainId)
+  const rpcUrl = chainConfig.rpcUrl
+  const decimals = STABLECOIN_TOKENS[token].decimals
 
   const fetchBalance = useCallback(async () => {
-    if ((!address && !minisendWallet) || chainId !== base.id) return
+    if ((!address && !minisendWallet) || !canFetch) return
 
     setIsLoading(true)
     setIsRefreshing(true)
@@ -65,15 +85,15 @@ export function useUSDCBalance(): UseUSDCBalanceReturn {
 
       // Fetch connected wallet balance
       if (address) {
-        totalBalance += await fetchOnChainUSDCBalance(address, usdcContract)
+        totalBalance += await fetchOnChainTokenBalance(address, tokenContract, rpcUrl)
       }
 
       // Fetch BlockRadar wallet balance if it's a different address
       if (minisendWallet && minisendWallet.toLowerCase() !== address?.toLowerCase()) {
-        totalBalance += await fetchOnChainUSDCBalance(minisendWallet, usdcContract)
+        totalBalance += await fetchOnChainTokenBalance(minisendWallet, tokenContract, rpcUrl)
       }
 
-      const balanceFormatted = Number(totalBalance) / 1000000 // USDC has 6 decimals
+      const balanceFormatted = Number(totalBalance) / 10 ** decimals
       setBalance(balanceFormatted.toFixed(2))
 
     } catch (err) {
@@ -82,13 +102,14 @@ export function useUSDCBalance(): UseUSDCBalanceReturn {
       setIsLoading(false)
       setTimeout(() => setIsRefreshing(false), 500)
     }
-  }, [address, minisendWallet, chainId, usdcContract])
+  }, [address, minisendWallet, canFetch, tokenContract, rpcUrl, decimals])
 
   useEffect(() => {
-    if (hasWallet && chainId === base.id) {
+    setBalance('0.00')
+    if (hasWallet && canFetch) {
       fetchBalance()
     }
-  }, [fetchBalance, hasWallet, chainId])
+  }, [fetchBalance, hasWallet, canFetch])
 
   return {
     balance,
@@ -96,6 +117,14 @@ export function useUSDCBalance(): UseUSDCBalanceReturn {
     isLoading,
     error,
     isRefreshing,
+    isAvailable,
     fetchBalance
   }
 }
+
+/**
+ * USDC balance - see useTokenBalance
+ */
+export function useUSDCBalance(chain: PretiumChain = DEFAULT_PRETIUM_CHAIN): UseTokenBalanceReturn {
+  return useTokenBalance('USDC', chain)
+}
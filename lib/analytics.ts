@@ -178,6 +178,7 @@ export function trackOffRampEvent(event: string, data: {
   bankCode?: string;
   rate?: number;
   usdcAmount?: number;
+  correlationId?: string; // Payment correlation ID - joins PostHog events to orders and webhooks
 }, context?: { user?: { fid?: number }; client?: { clientFid?: number; added?: boolean } }): void {
   let userId: string | undefined;
   let clientId: number | undefined;
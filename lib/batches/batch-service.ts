@@ -0,0 +1,606 @@
+// Batch Payout Service
+// Pays many recipients from one USDC deposit. Pretium takes one deposit per
+// disbursement, so the user sends the batch total to a Blockradar treasury
+// address and each row is then funded from the treasury and disbursed as its
+// own Pretium order - with its own quote, limits check, screening and receipt.
+//
+// Lifecycle: awaiting_deposit → processing → completed | partially_failed | failed.
+// Rows that cannot be paid out get a refund case for their share of the deposit.
+import { DatabaseService, type PayoutBatchRecord, type PayoutBatchRowRecord, type PretiumOrder } from '@/lib/supabase/config';
+import { blockradarClient } from '@/lib/blockradar/client';
+import { BLOCKRADAR_CONFIG } from '@/lib/blockradar/config';
+import { withdrawUSDC } from '@/lib/blockradar/withdraw';
+import { verifyUSDCTransfer, DepositVerificationError } from '@/lib/blockchain/depositVerification';
+import { pretiumClient } from '@/lib/pretium/client';
+import { PRETIUM_CONFIG } from '@/lib/pretium/config';
+import {
+  pretiumProvider,
+  getUSDCForLocalAmount,
+  issueQuote,
+  createQuotedPayout,
+  checkTransactionLimits,
+  createLimitError,
+  OfframpError,
+} from '@/lib/offramp';
+import type { OfframpPayoutResult, OfframpRecipient } from '@/lib/offramp';
+import { openBatchRefund } from '@/lib/refunds/refund-service';
+import { createLogger } from '@/lib/logger';
+import { isValidAddress } from '@/lib/utils/validation';
+import type {
+  BatchCurrency,
+  BatchRowError,
+  BatchRowInput,
+  PayoutBatch,
+  PayoutBatchRow,
+  PayoutBatchRowStatus,
+  PayoutBatchStatus,
+} from '@/lib/types/batches';
+import { normalizeBatchRow, validateBatchRow } from './validation';
+import { BatchError } from './errors';
+
+const logger = createLogger('batch-payouts');
+
+export const BATCH_CONFIG = {
+  // Blockradar child address batch deposits are sent to and rows are funded from
+  TREASURY_ADDRESS_ID: process.env.BATCH_PAYOUT_ADDRESS_ID || process.env.OFFRAMP_FAILOVER_ADDRESS_ID,
+  MAX_ROWS: 50,
+  // How long one request works through rows - the cron picks up the rest
+  PROCESS_BUDGET_MS: 40 * 1000,
+  // Blockradar withdrawal reference prefix for row funding
+  REFERENCE_PREFIX: 'batch_',
+};
+
+const FINAL_ROW_STATUSES: PayoutBatchRowStatus[] = ['submitted', 'review', 'failed'];
+
+type NewBatchRow = Omit<PayoutBatchRowRecord, 'id' | 'batch_id' | 'status' | 'created_at' | 'updated_at'>;
+
+let treasuryAddress: string | null = null;
+
+/**
+ * On-chain address of the batch treasury (fixed, so looked up once)
+ */
+async function getTreasuryAddress(): Promise<string> {
+  if (!BATCH_CONFIG.TREASURY_ADDRESS_ID || !BLOCKRADAR_CONFIG.WALLET_ID) {
+    throw new BatchError('Batch payouts are not configured', 'NOT_CONFIGURED', 503);
+  }
+
+  if (!treasuryAddress) {
+    const { data } = await blockradarClient.getAddress(BLOCKRADAR_CONFIG.WALLET_ID, BATCH_CONFIG.TREASURY_ADDRESS_ID);
+    treasuryAddress = data.address;
+  }
+  return treasuryAddress;
+}
+
+function parseWallet(value: unknown): string {
+  const wallet = typeof value === 'string' ? value.trim() : '';
+  if (!isValidAddress(wallet)) {
+    throw new BatchError('A valid wallet address is required', 'INVALID_REQUEST');
+  }
+  return wallet.toLowerCase();
+}
+
+function getRowDestination(row: PayoutBatchRowRecord): string {
+  return row.phone_number || row.till_number || row.paybill_number || row.account_number || '';
+}
+
+function toOfframpRecipient(row: PayoutBatchRowRecord): OfframpRecipient {
+  return {
+    accountName: row.account_name,
+    phoneNumber: row.phone_number,
+    tillNumber: row.till_number,
+    paybillNumber: row.paybill_number,
+    paybillAccount: row.paybill_account,
+    accountNumber: row.account_number,
+    bankCode: row.bank_code,
+    bankName: row.bank_name,
+  };
+}
+
+function toPayoutBatchRow(row: PayoutBatchRowRecord, order?: PretiumOrder): PayoutBatchRow {
+  return {
+    id: row.id,
+    index: row.row_index,
+    currency: row.currency,
+    paymentType: row.payment_type,
+    accountName: row.account_name,
+    destination: getRowDestination(row),
+    paybillAccount: row.paybill_account || undefined,
+    bankName: row.bank_name || undefined,
+    amountLocal: Number(row.amount_local),
+    fee: Number(row.fee),
+    amountUSDC: Number(row.amount_usdc),
+    rate: Number(row.rate),
+    status: row.status,
+    transactionCode: row.transaction_code || undefined,
+    orderStatus: order?.status,
+    receiptNumber: order?.receipt_number || undefined,
+    error: row.error_message || order?.error_message || undefined,
+  };
+}
+
+function toBatchSummary(batch: PayoutBatchRecord): Omit<PayoutBatch, 'rows'> {
+  return {
+    id: batch.id,
+    walletAddress: batch.wallet_address,
+    status: batch.status,
+    totalUSDC: Number(batch.total_usdc),
+    depositAddress: batch.deposit_address,
+    depositTxHash: batch.deposit_tx_hash || undefined,
+    quoteExpiresAt: batch.quote_expires_at,
+    fundedAt: batch.funded_at || undefined,
+    completedAt: batch.completed_at || undefined,
+    createdAt: batch.created_at,
+  };
+}
+
+async function toPayoutBatch(batch: PayoutBatchRecord, rows: PayoutBatchRowRecord[]): Promise<PayoutBatch> {
+  const codes = rows.map((row) => row.transaction_code).filter((code): code is string => !!code);
+  const orders = await DatabaseService.getPretiumOrdersByTransactionCodes(codes);
+  const ordersByCode = new Map(orders.map((order) => [order.transaction_code, order]));
+
+  return {
+    ...toBatchSummary(batch),
+    rows: rows.map((row) => toPayoutBatchRow(row, row.transaction_code ? ordersByCode.get(row.transaction_code) : undefined)),
+  };
+}
+
+/**
+ * Look up the holder of an NGN bank account - the name Pretium pays out to
+ */
+async function verifyBankAccount(accountNumber: string, bankCode: string): Promise<{ accountName: string; bankName: string }> {
+  const validation = await pretiumClient.validateAccount('NGN', {
+    account_number: accountNumber,
+    bank_code: bankCode,
+  }).catch(() => null);
+
+  const details = validation?.code === 200 ? validation.data : undefined;
+  if (details?.status !== 'COMPLETE' || !details.account_name) {
+    throw new Error('Bank account could not be verified');
+  }
+  return { accountName: details.account_name.trim(), bankName: details.bank_name || '' };
+}
+
+/**
+ * Verify and quote one validated row
+ *
+ * @throws Error with the message shown against the row
+ */
+async function prepareRow(
+  row: BatchRowInput,
+  index: number,
+  walletAddress: string,
+  rates: Map<BatchCurrency, number>,
+  correlationId?: string
+): Promise<{ row: NewBatchRow; quoteExpiresAt: string }> {
+  const destination = row.paymentType === 'BANK_TRANSFER' ? row.destination.replace(/\D/g, '') : row.destination;
+  let accountName = row.accountName;
+  let bankName: string | undefined;
+  if (row.paymentType === 'BANK_TRANSFER') {
+    ({ accountName, bankName } = await verifyBankAccount(destination, row.bankCode!));
+  }
+
+  // One rate per currency sizes every row's USDC; each row's quote then locks its own
+  if (!rates.has(row.currency)) {
+    const probe = await pretiumProvider.quote({ currency: row.currency, amountUSDC: 1, paymentType: row.paymentType });
+    rates.set(row.currency, probe.rate);
+  }
+
+  const amountLocal = Math.round(row.amount);
+  const quote = await issueQuote(
+    pretiumProvider,
+    {
+      currency: row.currency,
+      amountUSDC: getUSDCForLocalAmount(amountLocal, rates.get(row.currency)!),
+      localAmount: amountLocal,
+      paymentType: row.paymentType,
+    },
+    walletAddress,
+    correlationId
+  );
+
+  const violation = await checkTransactionLimits({ currency: row.currency, amountUSDC: quote.amountUSDC });
+  if (violation) throw new Error(createLimitError(violation).message);
+
+  const prepared: NewBatchRow = {
+    row_index: index,
+    currency: row.currency,
+    payment_type: row.paymentType,
+    account_name: accountName,
+    phone_number: row.paymentType === 'MOBILE' ? destination : undefined,
+    till_number: row.paymentType === 'BUY_GOODS' ? destination : undefined,
+    paybill_number: row.paymentType === 'PAYBILL' ? destination : undefined,
+    paybill_account: row.paymentType === 'PAYBILL' ? row.paybillAccount : undefined,
+    account_number: row.paymentType === 'BANK_TRANSFER' ? destination : undefined,
+    bank_code: row.paymentType === 'BANK_TRANSFER' ? row.bankCode : undefined,
+    bank_name: bankName,
+    amount_local: quote.recipientAmount,
+    fee: quote.fee,
+    amount_usdc: quote.amountUSDC,
+    rate: quote.rate,
+    quote_id: quote.id,
+  };
+  return { row: prepared, quoteExpiresAt: quote.validUntil };
+}
+
+/**
+ * Validate and quote every row and open the batch. Nothing is created unless every
+ * row passes - the error lists each failing row
+ *
+ * @throws BatchError INVALID_ROWS with `details.rows` [{ index, error }]
+ * @throws OfframpError LIMIT_EXCEEDED when the total breaks the wallet's caps
+ */
+export async function createPayoutBatch(
+  walletAddress: unknown,
+  rawRows: unknown,
+  correlationId?: string
+): Promise<PayoutBatch> {
+  const wallet = parseWallet(walletAddress);
+
+  if (!Array.isArray(rawRows) || rawRows.length === 0) {
+    throw new BatchError('Add at least one row', 'INVALID_REQUEST');
+  }
+  if (rawRows.length > BATCH_CONFIG.MAX_ROWS) {
+    throw new BatchError(`A batch can have at most ${BATCH_CONFIG.MAX_ROWS} rows`, 'INVALID_REQUEST');
+  }
+
+  const depositAddress = await getTreasuryAddress();
+
+  const rows = rawRows.map(normalizeBatchRow);
+  const invalidRows: BatchRowError[] = rows
+    .map((row, index) => ({ index, error: validateBatchRow(row) }))
+    .filter((result): result is BatchRowError => result.error !== null);
+  if (invalidRows.length > 0) {
+    throw new BatchError('Some rows need fixing', 'INVALID_ROWS', 400, { rows: invalidRows });
+  }
+
+  // Rows are quoted one at a time to stay within Pretium's rate limits
+  const rates = new Map<BatchCurrency, number>();
+  const prepared: NewBatchRow[] = [];
+  let quoteExpiresAt = Infinity;
+  for (const [index, row] of rows.entries()) {
+    try {
+      const result = await prepareRow(row, index, wallet, rates, correlationId);
+      prepared.push(result.row);
+      quoteExpiresAt = Math.min(quoteExpiresAt, new Date(result.quoteExpiresAt).getTime());
+    } catch (error) {
+      invalidRows.push({ index, error: error instanceof Error ? error.message : 'Could not quote this row' });
+    }
+  }
+  if (invalidRows.length > 0) {
+    throw new BatchError('Some rows need fixing', 'INVALID_ROWS', 400, { rows: invalidRows });
+  }
+
+  const totalUSDC = Math.round(prepared.reduce((sum, row) => sum + row.amount_usdc, 0) * 100) / 100;
+
+  // The whole batch counts against the wallet's daily and monthly caps
+  const last = prepared[prepared.length - 1];
+  const violation = await checkTransactionLimits({
+    walletAddress: wallet,
+    currency: last.currency,
+    amountUSDC: last.amount_usdc,
+    pendingUSDC: totalUSDC - last.amount_usdc,
+  });
+  if (violation) throw createLimitError(violation);
+
+  const { batch, rows: created } = await DatabaseService.createPayoutBatch(
+    {
+      wallet_address: wallet,
+      total_usdc: totalUSDC,
+      row_count: prepared.length,
+      deposit_address: depositAddress,
+      correlation_id: correlationId,
+      quote_expires_at: new Date(quoteExpiresAt).toISOString(),
+    },
+    prepared
+  );
+
+  logger.info('Batch created', { batchId: batch.id, wallet, rows: created.length, totalUSDC });
+
+  await DatabaseService.logAnalyticsEvent('payout_batch_created', wallet, {
+    batch_id: batch.id,
+    row_count: created.length,
+    total_usdc: totalUSDC,
+    currencies: [...new Set(created.map((row) => row.currency))],
+    correlation_id: correlationId,
+  }).catch(() => undefined);
+
+  return toPayoutBatch(batch, created);
+}
+
+async function requireBatch(batchId: string, walletAddress: unknown): Promise<PayoutBatchRecord> {
+  const wallet = parseWallet(walletAddress);
+  const batch = await DatabaseService.getPayoutBatch(batchId).catch(() => null);
+
+  // Another wallet's batch is reported as missing
+  if (!batch || batch.wallet_address.toLowerCase() !== wallet) {
+    throw new BatchError('Batch not found', 'NOT_FOUND', 404);
+  }
+  return batch;
+}
+
+/**
+ * A batch with every row's status, for the wallet that created it
+ */
+export async function getPayoutBatch(batchId: string, walletAddress: unknown): Promise<PayoutBatch> {
+  const batch = await requireBatch(batchId, walletAddress);
+  return toPayoutBatch(batch, await DatabaseService.getPayoutBatchRows(batch.id));
+}
+
+/**
+ * The wallet's recent batches, without their rows
+ */
+export async function listPayoutBatches(walletAddress: unknown): Promise<Omit<PayoutBatch, 'rows'>[]> {
+  const batches = await DatabaseService.getPayoutBatchesByWallet(parseWallet(walletAddress));
+  return batches.map(toBatchSummary);
+}
+
+/**
+ * Verify the batch deposit and start paying out rows. Sending the same deposit
+ * again returns the batch as it stands
+ *
+ * @throws BatchError DEPOSIT_NOT_VERIFIED / ALREADY_FUNDED
+ */
+export async function fundPayoutBatch(batchId: string, walletAddress: unknown, transactionHash: unknown): Promise<PayoutBatch> {
+  const batch = await requireBatch(batchId, walletAddress);
+
+  if (typeof transactionHash !== 'string' || !transactionHash) {
+    throw new BatchError('transactionHash is required', 'INVALID_REQUEST');
+  }
+
+  if (batch.status !== 'awaiting_deposit') {
+    if (batch.deposit_tx_hash?.toLowerCase() === transactionHash.toLowerCase()) {
+      return getPayoutBatch(batch.id, walletAddress);
+    }
+    throw new BatchError('Batch is already funded', 'ALREADY_FUNDED', 409, { status: batch.status });
+  }
+
+  try {
+    // Only USDC sent from the batch wallet counts towards the total
+    await verifyUSDCTransfer({
+      transactionHash,
+      expectedRecipient: batch.deposit_address,
+      expectedSender: batch.wallet_address,
+      minimumAmountUSDC: Number(batch.total_usdc),
+    });
+  } catch (error) {
+    if (error instanceof DepositVerificationError) {
+      throw new BatchError(error.message, 'DEPOSIT_NOT_VERIFIED', error.statusCode, { reason: error.code, ...error.details });
+    }
+    throw error;
+  }
+
+  let funded: PayoutBatchRecord | null;
+  try {
+    funded = await DatabaseService.transitionPayoutBatch(batch.id, ['awaiting_deposit'], {
+      status: 'processing',
+      deposit_tx_hash: transactionHash,
+      funded_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    if ((error as { code?: string })?.code === '23505') {
+      throw new BatchError('This deposit has already funded another batch', 'DEPOSIT_NOT_VERIFIED', 409, {
+        reason: 'HASH_ALREADY_USED',
+      });
+    }
+    throw error;
+  }
+
+  if (funded) {
+    logger.info('Batch funded', { batchId: batch.id, transactionHash });
+    await processPayoutBatch(batch.id);
+  }
+
+  return getPayoutBatch(batch.id, walletAddress);
+}
+
+/**
+ * Mark a row failed and open a refund case for its share of the deposit
+ */
+async function failRow(batch: PayoutBatchRecord, row: PayoutBatchRowRecord, reason: string, fromStatuses: PayoutBatchRowStatus[]) {
+  const failed = await DatabaseService.transitionPayoutBatchRow(row.id, fromStatuses, {
+    status: 'failed',
+    error_message: reason,
+  });
+  if (!failed) return;
+
+  logger.warn('Batch row failed', { batchId: batch.id, rowId: row.id, reason });
+
+  try {
+    const refund = await openBatchRefund(failed, batch.wallet_address, reason);
+    await DatabaseService.transitionPayoutBatchRow(row.id, ['failed'], { refund_id: refund.id });
+  } catch (error) {
+    logger.error('Failed to open refund for batch row', { batchId: batch.id, rowId: row.id, error });
+  }
+}
+
+/**
+ * Send the row's USDC from the treasury to Pretium's settlement address
+ */
+async function fundRow(batch: PayoutBatchRecord, row: PayoutBatchRowRecord) {
+  const claimed = await DatabaseService.transitionPayoutBatchRow(row.id, ['pending'], { status: 'funding' });
+  if (!claimed) return;
+
+  try {
+    const withdrawal = await withdrawUSDC({
+      addressId: BATCH_CONFIG.TREASURY_ADDRESS_ID!,
+      recipientAddress: PRETIUM_CONFIG.SETTLEMENT_ADDRESS,
+      amount: Number(row.amount_usdc),
+      reference: `${BATCH_CONFIG.REFERENCE_PREFIX}${row.id}`,
+      note: `Batch ${batch.id} row ${row.row_index + 1}`,
+      metadata: { batch_id: batch.id, batch_row_id: row.id },
+    });
+
+    await DatabaseService.transitionPayoutBatchRow(row.id, ['funding'], {
+      funding_withdrawal_id: withdrawal.id,
+      funding_tx_hash: withdrawal.hash || null,
+    });
+  } catch (error) {
+    await failRow(batch, claimed, `Funding failed: ${error instanceof Error ? error.message : 'unknown error'}`, ['funding']);
+  }
+}
+
+/**
+ * Create the row's Pretium payout at its quote, re-quoting the same local amount
+ * if the quote expired while the batch waited for its deposit
+ */
+async function payRow(batch: PayoutBatchRecord, row: PayoutBatchRowRecord, fundingTxHash: string): Promise<{ result: OfframpPayoutResult; quoteId: string }> {
+  const request = {
+    requestId: `${BATCH_CONFIG.REFERENCE_PREFIX}${row.id}`,
+    correlationId: batch.correlation_id,
+    currency: row.currency,
+    amountUSDC: Number(row.amount_usdc),
+    recipient: toOfframpRecipient(row),
+    returnAddress: batch.wallet_address,
+    transactionHash: fundingTxHash,
+    fundingSource: 'treasury' as const,
+    fundingAddress: batch.deposit_address,
+    batchId: batch.id,
+  };
+
+  try {
+    return { result: await createQuotedPayout(pretiumProvider, row.quote_id, request), quoteId: row.quote_id! };
+  } catch (error) {
+    if (!(error instanceof OfframpError && error.code === 'QUOTE_EXPIRED')) throw error;
+  }
+
+  // Throws INVALID_REQUEST when the funded USDC no longer covers the amount
+  const quote = await issueQuote(
+    pretiumProvider,
+    {
+      currency: row.currency,
+      amountUSDC: Number(row.amount_usdc),
+      localAmount: Number(row.amount_local),
+      paymentType: row.payment_type,
+    },
+    batch.wallet_address,
+    batch.correlation_id
+  );
+  return { result: await createQuotedPayout(pretiumProvider, quote.id, request), quoteId: quote.id };
+}
+
+/**
+ * Disburse a funded row once its funding transfer has a hash
+ */
+async function submitRow(batch: PayoutBatchRecord, row: PayoutBatchRowRecord) {
+  let fundingTxHash = row.funding_tx_hash;
+
+  if (!fundingTxHash && row.funding_withdrawal_id) {
+    const { data: withdrawal } = await blockradarClient.getTransaction(row.funding_withdrawal_id);
+    if (withdrawal.status === 'FAILED') {
+      await failRow(batch, row, 'Funding withdrawal failed', ['funding']);
+      return;
+    }
+    fundingTxHash = withdrawal.hash;
+  }
+  if (!fundingTxHash) return; // Not broadcast yet - picked up on the next pass
+
+  const claimed = await DatabaseService.transitionPayoutBatchRow(row.id, ['funding'], {
+    status: 'submitting',
+    funding_tx_hash: fundingTxHash,
+  });
+  if (!claimed) return;
+
+  try {
+    const { result, quoteId } = await payRow(batch, claimed, fundingTxHash);
+    await DatabaseService.transitionPayoutBatchRow(row.id, ['submitting'], {
+      status: 'submitted',
+      transaction_code: result.orderId,
+      quote_id: quoteId,
+      error_message: result.warning || null,
+    });
+  } catch (error) {
+    if (error instanceof OfframpError && error.code === 'UNDER_REVIEW') {
+      await DatabaseService.transitionPayoutBatchRow(row.id, ['submitting'], {
+        status: 'review',
+        review_id: error.extra?.reviewId as string,
+        error_message: error.message,
+      });
+      return;
+    }
+
+    // The funding transfer is not mined yet
+    if (error instanceof OfframpError && error.code === 'DEPOSIT_NOT_VERIFIED' && error.extra?.reason === 'TX_NOT_FOUND') {
+      await DatabaseService.transitionPayoutBatchRow(row.id, ['submitting'], { status: 'funding' });
+      return;
+    }
+
+    await failRow(batch, claimed, error instanceof Error ? error.message : 'Payout failed', ['submitting']);
+  }
+}
+
+/**
+ * Close the batch once every row has a final status
+ */
+async function settleBatch(batch: PayoutBatchRecord): Promise<PayoutBatchRecord> {
+  const rows = await DatabaseService.getPayoutBatchRows(batch.id);
+  if (!rows.every((row) => FINAL_ROW_STATUSES.includes(row.status))) return batch;
+
+  const failedCount = rows.filter((row) => row.status === 'failed').length;
+  const status: PayoutBatchStatus = failedCount === 0
+    ? 'completed'
+    : failedCount === rows.length ? 'failed' : 'partially_failed';
+
+  const settled = await DatabaseService.transitionPayoutBatch(batch.id, ['processing'], {
+    status,
+    completed_at: new Date().toISOString(),
+  });
+
+  if (settled) {
+    logger.info('Batch settled', { batchId: batch.id, status, failed: failedCount, rows: rows.length });
+    await DatabaseService.logAnalyticsEvent('payout_batch_settled', batch.wallet_address, {
+      batch_id: batch.id,
+      status,
+      row_count: rows.length,
+      failed_count: failedCount,
+    }).catch(() => undefined);
+  }
+
+  return settled || batch;
+}
+
+/**
+ * Work through a funded batch until the deadline: fund pending rows from the
+ * treasury, then disburse funded ones. Safe to run concurrently - rows are claimed
+ */
+export async function processPayoutBatch(
+  batchId: string,
+  deadline = Date.now() + BATCH_CONFIG.PROCESS_BUDGET_MS
+): Promise<PayoutBatchRecord | null> {
+  const batch = await DatabaseService.getPayoutBatch(batchId);
+  if (!batch || batch.status !== 'processing') return batch;
+
+  for (const row of await DatabaseService.getPayoutBatchRows(batch.id)) {
+    if (Date.now() > deadline) break;
+    if (row.status === 'pending') await fundRow(batch, row);
+  }
+
+  for (const row of await DatabaseService.getPayoutBatchRows(batch.id)) {
+    if (Date.now() > deadline) break;
+    if (row.status !== 'funding') continue;
+
+    try {
+      await submitRow(batch, row);
+    } catch (error) {
+      // Leave the row for the next pass
+      logger.error('Failed to submit batch row', { batchId: batch.id, rowId: row.id, error });
+    }
+  }
+
+  return settleBatch(batch);
+}
+
+/**
+ * Cron entry point: continue every funded batch that still has rows to pay out
+ */
+export async function processPendingBatches(deadline = Date.now() + BATCH_CONFIG.PROCESS_BUDGET_MS) {
+  const batches = await DatabaseService.getProcessingPayoutBatches();
+  const summary = { batches: batches.length, settled: 0 };
+
+  for (const batch of batches) {
+    if (Date.now() > deadline) break;
+    const processed = await processPayoutBatch(batch.id, deadline);
+    if (processed && processed.status !== 'processing') summary.settled++;
+  }
+
+  return summary;
+}
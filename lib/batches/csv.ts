@@ -0,0 +1,135 @@
+// Batch CSV
+// Reading uploaded batch sheets and writing the batch summary. No server imports -
+// the batch page parses uploads in the browser, the export route writes summaries.
+import type { PayoutBatch } from '@/lib/types/batches';
+
+// Header the template uses, then the other spellings accepted for each column
+const COLUMN_ALIASES: Record<string, string[]> = {
+  accountName: ['name', 'account_name', 'recipient_name'],
+  currency: ['currency'],
+  amount: ['amount', 'local_amount'],
+  paymentType: ['payment_type', 'type', 'method'],
+  destination: ['recipient', 'destination', 'phone', 'phone_number', 'till', 'paybill', 'account_number'],
+  paybillAccount: ['paybill_account', 'account'],
+  bankCode: ['bank_code'],
+};
+
+export const BATCH_CSV_TEMPLATE = [
+  'name,currency,amount,payment_type,recipient,paybill_account,bank_code',
+  'Jane Wanjiku,KES,1500,mobile,0712345678,,',
+  'Corner Shop,KES,2000,till,123456,,',
+  'Equity Paybill,KES,3000,paybill,247247,1234567890,',
+  ',NGN,25000,bank,0123456789,,058',
+].join('\n');
+
+/**
+ * Split CSV text into rows of cells (RFC 4180 quoting)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  rows.push(row);
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Read an uploaded batch sheet into raw rows keyed like BatchRowInput
+ * (pass each through normalizeBatchRow)
+ *
+ * @throws Error when the header is missing a required column
+ */
+export function parseBatchCsv(text: string): Record<string, string>[] {
+  const [header, ...lines] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+
+  const headings = header.map((heading) => heading.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+  const columns = Object.entries(COLUMN_ALIASES).map(([field, aliases]) => ({
+    field,
+    index: headings.findIndex((heading) => aliases.includes(heading)),
+  }));
+
+  const missing = columns.filter(({ field, index }) =>
+    index === -1 && ['currency', 'amount', 'paymentType', 'destination'].includes(field)
+  );
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing columns: ${missing.map(({ field }) => COLUMN_ALIASES[field][0]).join(', ')}`);
+  }
+
+  return lines.map((cells) => {
+    const row: Record<string, string> = {};
+    for (const { field, index } of columns) {
+      if (index !== -1) row[field] = (cells[index] || '').trim();
+    }
+    return row;
+  });
+}
+
+function escapeCell(value: string | number | undefined): string {
+  const cell = value === undefined ? '' : String(value);
+  // Leading =, +, - or @ would run as a formula in spreadsheet apps
+  const safe = /^[=+\-@]/.test(cell) ? `'${cell}` : cell;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * One line per row: what was sent, to whom, and where it stands
+ */
+export function toBatchSummaryCsv(batch: PayoutBatch): string {
+  const header = [
+    'row', 'name', 'currency', 'payment_type', 'recipient', 'paybill_account', 'bank',
+    'amount', 'fee', 'amount_usdc', 'rate', 'status', 'order_status', 'transaction_code', 'receipt_number', 'error',
+  ];
+
+  const lines = batch.rows.map((row) => [
+    row.index + 1,
+    row.accountName,
+    row.currency,
+    row.paymentType,
+    row.destination,
+    row.paybillAccount,
+    row.bankName,
+    row.amountLocal,
+    row.fee,
+    row.amountUSDC,
+    row.rate,
+    row.status,
+    row.orderStatus,
+    row.transactionCode,
+    row.receiptNumber,
+    row.error,
+  ].map(escapeCell).join(','));
+
+  return [header.join(','), ...lines].join('\n');
+}
@@ -0,0 +1,33 @@
+// Batch Payout Errors
+
+export type BatchErrorCode =
+  | 'INVALID_REQUEST'
+  | 'INVALID_ROWS'
+  | 'NOT_FOUND'
+  | 'NOT_CONFIGURED'
+  | 'ALREADY_FUNDED'
+  | 'DEPOSIT_NOT_VERIFIED';
+
+/**
+ * Error raised by the batch payout service. Routes turn it into
+ * `{ error, code, details }` with `statusCode`
+ */
+export class BatchError extends Error {
+  constructor(
+    message: string,
+    public readonly code: BatchErrorCode,
+    public readonly statusCode: number = 400,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'BatchError';
+  }
+
+  toResponseBody(): Record<string, unknown> {
+    return {
+      error: this.message,
+      code: this.code,
+      ...(this.details !== undefined && { details: this.details }),
+    };
+  }
+}
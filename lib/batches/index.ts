@@ -0,0 +1,20 @@
+/**
+ * Batch Payouts Module Exports
+ * Many recipients paid from one USDC deposit, fanned out to Pretium
+ */
+
+export {
+  BATCH_CONFIG,
+  createPayoutBatch,
+  getPayoutBatch,
+  listPayoutBatches,
+  fundPayoutBatch,
+  processPayoutBatch,
+  processPendingBatches,
+} from './batch-service';
+
+export { normalizeBatchRow, validateBatchRow, BATCH_CURRENCIES, BATCH_PAYMENT_TYPES } from './validation';
+export { parseBatchCsv, toBatchSummaryCsv, BATCH_CSV_TEMPLATE } from './csv';
+
+export { BatchError } from './errors';
+export type { BatchErrorCode } from './errors';
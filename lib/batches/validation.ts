@@ -0,0 +1,102 @@
+// Batch Row Validation
+// The same checks the single-payment form runs, per row. No server imports - the
+// batch page runs them as rows are entered, the API runs them again on submit.
+import {
+  isPaybillBlocked,
+  validateKenyanPhoneNumber,
+  validatePaybillAccount,
+  validatePaybillNumber,
+  validateTillNumber,
+} from '@/lib/utils/tillValidator';
+import { validateGhanaPhoneNumber } from '@/lib/utils/ghanaValidator';
+import { validateUgandaPhoneNumber } from '@/lib/utils/ugandaValidator';
+import type { BatchCurrency, BatchPaymentType, BatchRowInput } from '@/lib/types/batches';
+
+export const BATCH_CURRENCIES: BatchCurrency[] = ['KES', 'NGN', 'GHS', 'UGX'];
+
+// Payment types Pretium pays out per currency
+export const BATCH_PAYMENT_TYPES: Record<BatchCurrency, BatchPaymentType[]> = {
+  KES: ['MOBILE', 'BUY_GOODS', 'PAYBILL'],
+  NGN: ['BANK_TRANSFER'],
+  GHS: ['MOBILE'],
+  UGX: ['MOBILE'],
+};
+
+// Spreadsheet-friendly spellings of each payment type
+const PAYMENT_TYPE_ALIASES: Record<string, BatchPaymentType> = {
+  mobile: 'MOBILE',
+  mobile_money: 'MOBILE',
+  phone: 'MOBILE',
+  till: 'BUY_GOODS',
+  buy_goods: 'BUY_GOODS',
+  paybill: 'PAYBILL',
+  bank: 'BANK_TRANSFER',
+  bank_transfer: 'BANK_TRANSFER',
+};
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+}
+
+/**
+ * Coerce a grid, CSV or JSON row into a BatchRowInput. Does not validate it
+ */
+export function normalizeBatchRow(input: unknown): BatchRowInput {
+  const row = (input || {}) as Record<string, unknown>;
+  const paymentType = text(row.paymentType).toLowerCase().replace(/[\s-]+/g, '_');
+  const amount = typeof row.amount === 'number' ? row.amount : parseFloat(text(row.amount).replace(/,/g, ''));
+
+  return {
+    accountName: text(row.accountName).replace(/[<>"']/g, '').substring(0, 100),
+    currency: text(row.currency).toUpperCase() as BatchCurrency,
+    amount,
+    paymentType: PAYMENT_TYPE_ALIASES[paymentType] || (paymentType.toUpperCase() as BatchPaymentType),
+    destination: text(row.destination),
+    paybillAccount: text(row.paybillAccount) || undefined,
+    bankCode: text(row.bankCode) || undefined,
+  };
+}
+
+/**
+ * What is wrong with a row, or null when it can be quoted
+ */
+export function validateBatchRow(row: BatchRowInput): string | null {
+  if (!BATCH_CURRENCIES.includes(row.currency)) {
+    return `Unsupported currency ${row.currency || '(empty)'} - use ${BATCH_CURRENCIES.join(', ')}`;
+  }
+
+  if (!BATCH_PAYMENT_TYPES[row.currency].includes(row.paymentType)) {
+    return `${row.currency} supports ${BATCH_PAYMENT_TYPES[row.currency].join(', ')} payments`;
+  }
+
+  if (isNaN(row.amount) || row.amount <= 0) {
+    return 'Amount must be a positive number';
+  }
+
+  // NGN names come from the bank account lookup
+  if (!row.accountName && row.currency !== 'NGN') {
+    return 'Recipient name is required';
+  }
+
+  switch (row.paymentType) {
+    case 'MOBILE': {
+      const isValidPhone = row.currency === 'KES'
+        ? validateKenyanPhoneNumber(row.destination)
+        : row.currency === 'GHS'
+          ? validateGhanaPhoneNumber(row.destination)
+          : validateUgandaPhoneNumber(row.destination);
+      return isValidPhone ? null : `Invalid ${row.currency} phone number`;
+    }
+    case 'BUY_GOODS':
+      return validateTillNumber(row.destination) ? null : 'Invalid till number (5-7 digits)';
+    case 'PAYBILL':
+      if (!validatePaybillNumber(row.destination)) return 'Invalid paybill number (5-7 digits)';
+      if (isPaybillBlocked(row.destination)) return 'This paybill is not supported';
+      return validatePaybillAccount(row.paybillAccount || '') ? null : 'Paybill account is required';
+    case 'BANK_TRANSFER': {
+      const digits = row.destination.replace(/\D/g, '');
+      if (digits.length < 10 || digits.length > 11) return 'Invalid account number (must be 10-11 digits)';
+      return row.bankCode ? null : 'Bank code is required';
+    }
+  }
+}
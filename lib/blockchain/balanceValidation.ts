@@ -1,13 +1,17 @@
 /**
  * Blockchain balance validation utilities
- * Prevents order creation for wallets without sufficient USDC balance
+ * Prevents order creation for wallets without sufficient USDC (or USDT) balance
  */
 
 import { createPublicClient, http, formatUnits, parseUnits } from 'viem'
 import { base } from 'viem/chains'
+import { DEFAULT_TOKEN, STABLECOIN_TOKENS, USDC_CONTRACTS, USDT_CONTRACTS, type StablecoinToken } from '@/lib/contracts'
 
-// Base network USDC contract address
-const USDC_CONTRACT_ADDRESS = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913' as const
+// Base network stablecoin contract addresses
+const TOKEN_CONTRACT_ADDRESSES: Record<StablecoinToken, `0x${string}`> = {
+  USDC: USDC_CONTRACTS[base.id],
+  USDT: USDT_CONTRACTS[base.id],
+}
 
 // Create public client for Base network
 const publicClient = createPublicClient({
@@ -33,6 +37,7 @@ const USDC_ABI = [
   }
 ] as const
 
+// balanceInUSDC / requiredInUSDC are in units of the checked token
 export interface BalanceCheckResult {
   hasBalance: boolean
   currentBalance: string
@@ -43,13 +48,16 @@ export interface BalanceCheckResult {
 }
 
 /**
- * Check if wallet has sufficient USDC balance for the transaction
+ * Check if wallet has sufficient USDC (or USDT) balance for the transaction
  */
 export async function validateWalletBalance(
   walletAddress: string,
   requiredAmountUSDC: number,
-  bufferPercentage: number = 0 // No buffer by default since Minisend doesn't charge gas fees
+  bufferPercentage: number = 0, // No buffer by default since Minisend doesn't charge gas fees
+  token: StablecoinToken = DEFAULT_TOKEN
 ): Promise<BalanceCheckResult> {
+  const decimals = STABLECOIN_TOKENS[token].decimals
+
   try {
     if (!walletAddress || !walletAddress.startsWith('0x') || walletAddress.length !== 42) {
       throw new Error('Invalid wallet address format')
@@ -59,27 +67,27 @@ export async function validateWalletBalance(
       throw new Error('Required amount must be positive')
     }
 
-    // Get USDC balance from Base network
+    // Get the token balance from Base network
     const balance = await publicClient.readContract({
-      address: USDC_CONTRACT_ADDRESS,
+      address: TOKEN_CONTRACT_ADDRESSES[token],
       abi: USDC_ABI,
       functionName: 'balanceOf',
       args: [walletAddress as `0x${string}`]
     }) as bigint
 
-    // USDC has 6 decimals
-    const balanceInUSDC = parseFloat(formatUnits(balance, 6))
+    const balanceInUSDC = parseFloat(formatUnits(balance, decimals))
 
     // Add any specified buffer (0 by default for Minisend since no gas fees)
     const requiredWithBuffer = requiredAmountUSDC * (1 + bufferPercentage)
 
-    // Use proper decimal comparison to avoid floating point issues (USDC has 6 decimals)
-    const hasBalance = Math.round(balanceInUSDC * 1e6) >= Math.round(requiredWithBuffer * 1e6)
+    // Use proper decimal comparison to avoid floating point issues
+    const unit = 10 ** decimals
+    const hasBalance = Math.round(balanceInUSDC * unit) >= Math.round(requiredWithBuffer * unit)
 
     const result: BalanceCheckResult = {
       hasBalance,
       currentBalance: balance.toString(),
-      requiredAmount: parseUnits(requiredAmountUSDC.toString(), 6).toString(),
+      requiredAmount: parseUnits(requiredAmountUSDC.toString(), decimals).toString(),
       balanceInUSDC,
       requiredInUSDC: requiredWithBuffer,
       insufficientBy: hasBalance ? undefined : requiredWithBuffer - balanceInUSDC
@@ -93,7 +101,7 @@ export async function validateWalletBalance(
     return {
       hasBalance: true, // Fail open for now to avoid blocking legitimate users
       currentBalance: '0',
-      requiredAmount: parseUnits(requiredAmountUSDC.toString(), 6).toString(),
+      requiredAmount: parseUnits(requiredAmountUSDC.toString(), decimals).toString(),
       balanceInUSDC: 0,
       requiredInUSDC: requiredAmountUSDC,
       insufficientBy: undefined
@@ -106,7 +114,8 @@ export async function validateWalletBalance(
  */
 export async function validateWalletForOrder(
   walletAddress: string,
-  orderAmountUSDC: number
+  orderAmountUSDC: number,
+  token: StablecoinToken = DEFAULT_TOKEN
 ): Promise<{
   isValid: boolean
   reason?: string
@@ -144,12 +153,12 @@ export async function validateWalletForOrder(
     }
     
     // 3. Balance validation
-    const balanceCheck = await validateWalletBalance(walletAddress, orderAmountUSDC)
+    const balanceCheck = await validateWalletBalance(walletAddress, orderAmountUSDC, 0, token)
     
     if (!balanceCheck.hasBalance) {
       return {
         isValid: false,
-        reason: `Insufficient USDC balance. Required: $${balanceCheck.requiredInUSDC.toFixed(2)}, Available: $${balanceCheck.balanceInUSDC.toFixed(2)}`,
+        reason: `Insufficient ${token} balance. Required: $${balanceCheck.requiredInUSDC.toFixed(2)}, Available: $${balanceCheck.balanceInUSDC.toFixed(2)}`,
         balanceCheck
       }
     }
@@ -208,16 +217,17 @@ const CACHE_DURATION = 30000 // 30 seconds
 
 export async function validateWalletBalanceWithCache(
   walletAddress: string,
-  requiredAmountUSDC: number
+  requiredAmountUSDC: number,
+  token: StablecoinToken = DEFAULT_TOKEN
 ): Promise<BalanceCheckResult> {
-  const cacheKey = `${walletAddress}:${requiredAmountUSDC}`
+  const cacheKey = `${walletAddress}:${token}:${requiredAmountUSDC}`
   const cached = balanceCheckCache.get(cacheKey)
   
   if (cached && (Date.now() - cached.timestamp) < CACHE_DURATION) {
     return cached.result
   }
   
-  const result = await validateWalletBalance(walletAddress, requiredAmountUSDC)
+  const result = await validateWalletBalance(walletAddress, requiredAmountUSDC, 0, token)
   
   balanceCheckCache.set(cacheKey, {
     timestamp: Date.now(),
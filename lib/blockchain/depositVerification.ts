@@ -0,0 +1,487 @@
+/**
+ * On-chain deposit verification
+ * Confirms a USDC (or USDT) transfer to the Pretium settlement address actually happened
+ * before we trigger a fiat payout for it. Base, Celo and Scroll are read over
+ * JSON-RPC, Tron through TronGrid and Stellar through Horizon
+ */
+
+import {
+  createPublicClient,
+  http,
+  formatUnits,
+  parseUnits,
+  parseEventLogs,
+  erc20Abi,
+  isHash,
+  isAddressEqual,
+  type PublicClient,
+} from 'viem'
+import { base, celo, scroll } from 'viem/chains'
+import { DEFAULT_PRETIUM_CHAIN, getPretiumChain, getSettlementAddress, type PretiumChainConfig } from '@/lib/pretium/chains'
+import type { PretiumChain } from '@/lib/pretium/types'
+import { DEFAULT_TOKEN, type StablecoinToken } from '@/lib/contracts'
+import { DatabaseService } from '@/lib/supabase/config'
+import { isSandboxMode } from '@/lib/sandbox/config'
+import { getSandboxTransfer } from '@/lib/sandbox/store'
+
+// Sandbox transfers are denominated like Base USDC
+const SANDBOX_DECIMALS = 6
+
+// How long to wait for a just-submitted transaction to be mined
+const RECEIPT_TIMEOUT_MS = 20000
+
+const VIEM_CHAINS = { [base.id]: base, [celo.id]: celo, [scroll.id]: scroll }
+
+// keccak256('Transfer(address,address,uint256)') - TronGrid returns TRC-20 logs without the 0x
+const TRANSFER_TOPIC = 'ddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
+
+const publicClients = new Map<PretiumChain, PublicClient>()
+
+function getPublicClient(config: PretiumChainConfig): PublicClient {
+  let client = publicClients.get(config.id)
+  if (!client) {
+    client = createPublicClient({
+      chain: VIEM_CHAINS[config.evmChainId as keyof typeof VIEM_CHAINS],
+      transport: http(config.rpcUrl)
+    }) as PublicClient
+    publicClients.set(config.id, client)
+  }
+  return client
+}
+
+export type DepositVerificationErrorCode =
+  | 'INVALID_HASH'
+  | 'TX_NOT_FOUND'
+  | 'TX_REVERTED'
+  | 'NO_USDC_TRANSFER'
+  | 'RECIPIENT_MISMATCH'
+  | 'SENDER_MISMATCH'
+  | 'AMOUNT_TOO_LOW'
+  | 'HASH_ALREADY_USED'
+
+export class DepositVerificationError extends Error {
+  constructor(
+    message: string,
+    public code: DepositVerificationErrorCode,
+    public statusCode: number = 400,
+    public details?: Record<string, unknown>
+  ) {
+    super(message)
+    this.name = 'DepositVerificationError'
+  }
+}
+
+export interface DepositVerificationParams {
+  transactionHash: string
+  expectedSender: string
+  minimumAmountUSDC: number
+  expectedRecipient?: string // Defaults to the chain's settlement address
+  chain?: PretiumChain // Defaults to BASE
+  token?: StablecoinToken // Defaults to USDC
+}
+
+export interface VerifiedDeposit {
+  transactionHash: string
+  chain: PretiumChain
+  token: StablecoinToken
+  sender: string
+  recipient: string
+  amountInUSDC: number
+  rawAmount: string
+  blockNumber: string
+}
+
+interface TokenTransfer {
+  from: string
+  to: string
+  value: bigint
+}
+
+interface TokenTransfers {
+  blockNumber: bigint
+  decimals: number
+  transfers: TokenTransfer[]
+}
+
+/**
+ * Hex form (0x + 20 bytes) of a Tron address, so base58 addresses compare with log topics
+ */
+function tronAddressToHex(address: string): string {
+  if (/^(0x|41)[0-9a-fA-F]{40}$/.test(address)) return `0x${address.slice(-40).toLowerCase()}`
+
+  let value = BigInt(0)
+  for (const char of address) {
+    const digit = BASE58_ALPHABET.indexOf(char)
+    if (digit < 0) return address.toLowerCase()
+    value = value * BigInt(58) + BigInt(digit)
+  }
+  // 25 bytes: 0x41 network prefix, the 20-byte address, a 4-byte checksum
+  return `0x${value.toString(16).padStart(50, '0').slice(2, 42)}`
+}
+
+function isSameAddress(chain: PretiumChainConfig, a: string, b: string): boolean {
+  switch (chain.kind) {
+    case 'tron':
+      return tronAddressToHex(a) === tronAddressToHex(b)
+    case 'stellar':
+      return a === b
+    default:
+      return a.toLowerCase() === b.toLowerCase()
+  }
+}
+
+function isValidHash(chain: PretiumChainConfig, hash: string): boolean {
+  return chain.kind === 'evm' ? isHash(hash) : /^(0x)?[0-9a-fA-F]{64}$/.test(hash)
+}
+
+/**
+ * The one spelling of a transaction hash that is looked up and stored: lowercase,
+ * with 0x on EVM chains and without it on Tron and Stellar. Any other spelling of
+ * the same deposit would slip past the replay check
+ */
+export function normalizeTransactionHash(chain: PretiumChain, transactionHash: string): string {
+  const hash = transactionHash.toLowerCase()
+  return getPretiumChain(chain).kind === 'evm' ? hash : hash.replace(/^0x/, '')
+}
+
+function getToken(chain: PretiumChainConfig, token: StablecoinToken) {
+  const config = chain.tokens[token]
+  if (!config) {
+    throw new DepositVerificationError(`${token} deposits are not supported on ${chain.name}`, 'NO_USDC_TRANSFER')
+  }
+  return config
+}
+
+function notFound(chain: PretiumChainConfig): DepositVerificationError {
+  return new DepositVerificationError(`Transaction not found on ${chain.name}`, 'TX_NOT_FOUND', 404)
+}
+
+function noTransfer(token: StablecoinToken): DepositVerificationError {
+  return new DepositVerificationError(`Transaction does not contain a ${token} transfer`, 'NO_USDC_TRANSFER')
+}
+
+async function getEvmTransfers(chain: PretiumChainConfig, token: StablecoinToken, hash: string): Promise<TokenTransfers> {
+  const usdc = getToken(chain, token)
+
+  let receipt
+  try {
+    receipt = await getPublicClient(chain).waitForTransactionReceipt({
+      hash: hash as `0x${string}`,
+      timeout: RECEIPT_TIMEOUT_MS
+    })
+  } catch {
+    throw notFound(chain)
+  }
+
+  if (receipt.status !== 'success') {
+    throw new DepositVerificationError('Transaction reverted on-chain', 'TX_REVERTED')
+  }
+
+  const usdcTransfers = parseEventLogs({
+    abi: erc20Abi,
+    eventName: 'Transfer',
+    logs: receipt.logs
+  }).filter(log => isAddressEqual(log.address, usdc.address as `0x${string}`))
+
+  if (usdcTransfers.length === 0) throw noTransfer(token)
+
+  return {
+    blockNumber: receipt.blockNumber,
+    decimals: usdc.decimals,
+    transfers: usdcTransfers.map(log => ({ from: log.args.from, to: log.args.to, value: log.args.value }))
+  }
+}
+
+interface TronTransactionInfo {
+  id?: string
+  blockNumber?: number
+  receipt?: { result?: string }
+  log?: { address: string; topics?: string[]; data?: string }[]
+}
+
+async function getTronTransfers(chain: PretiumChainConfig, token: StablecoinToken, hash: string): Promise<TokenTransfers> {
+  const usdc = getToken(chain, token)
+
+  let info: TronTransactionInfo
+  try {
+    const response = await fetch(`${chain.rpcUrl}/wallet/gettransactioninfobyid`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ value: hash.replace(/^0x/, '') })
+    })
+    info = await response.json()
+  } catch {
+    throw notFound(chain)
+  }
+
+  // TronGrid answers {} until the transaction is in a block
+  if (!info.id || info.blockNumber === undefined) throw notFound(chain)
+
+  if (info.receipt?.result !== 'SUCCESS') {
+    throw new DepositVerificationError('Transaction reverted on-chain', 'TX_REVERTED')
+  }
+
+  const contract = tronAddressToHex(usdc.address)
+  const transfers = (info.log || [])
+    .filter(log =>
+      tronAddressToHex(log.address) === contract &&
+      log.topics?.length === 3 &&
+      log.topics[0] === TRANSFER_TOPIC
+    )
+    .map(log => ({
+      from: `0x${log.topics![1].slice(-40)}`,
+      to: `0x${log.topics![2].slice(-40)}`,
+      value: BigInt(`0x${log.data || '0'}`)
+    }))
+
+  if (transfers.length === 0) throw noTransfer(token)
+
+  return { blockNumber: BigInt(info.blockNumber), decimals: usdc.decimals, transfers }
+}
+
+interface HorizonPayment {
+  type: string
+  from: string
+  to: string
+  asset_code?: string
+  asset_issuer?: string
+  amount: string
+}
+
+async function getStellarTransfers(chain: PretiumChainConfig, token: StablecoinToken, hash: string): Promise<TokenTransfers> {
+  const usdc = getToken(chain, token)
+  const txHash = hash.replace(/^0x/, '')
+
+  const transactionResponse = await fetch(`${chain.rpcUrl}/transactions/${txHash}`).catch(() => null)
+  if (!transactionResponse?.ok) throw notFound(chain)
+
+  const transaction: { successful: boolean; ledger: number } = await transactionResponse.json()
+  if (!transaction.successful) {
+    throw new DepositVerificationError('Transaction reverted on-chain', 'TX_REVERTED')
+  }
+
+  const paymentsResponse = await fetch(`${chain.rpcUrl}/transactions/${txHash}/payments?limit=200`).catch(() => null)
+  if (!paymentsResponse?.ok) throw notFound(chain)
+
+  const payments: HorizonPayment[] = (await paymentsResponse.json())._embedded?.records || []
+  const transfers = payments
+    .filter(payment =>
+      payment.type === 'payment' &&
+      payment.asset_code === token &&
+      payment.asset_issuer === usdc.address
+    )
+    .map(payment => ({
+      from: payment.from,
+      to: payment.to,
+      value: parseUnits(payment.amount, usdc.decimals)
+    }))
+
+  if (transfers.length === 0) throw noTransfer(token)
+
+  return { blockNumber: BigInt(transaction.ledger), decimals: usdc.decimals, transfers }
+}
+
+/**
+ * Fetch a transaction and pull out its transfers of the token on the chain.
+ * In sandbox mode, transfers simulated by the sandbox providers are checked first.
+ *
+ * @throws DepositVerificationError when the transaction is missing, reverted or moved none of the token
+ */
+async function getTokenTransfers(chain: PretiumChainConfig, token: StablecoinToken, hash: string): Promise<TokenTransfers> {
+  if (isSandboxMode()) {
+    const simulated = getSandboxTransfer(hash)
+    if (simulated) {
+      return {
+        blockNumber: simulated.blockNumber,
+        decimals: SANDBOX_DECIMALS,
+        transfers: [{
+          from: simulated.from,
+          to: simulated.to,
+          value: parseUnits(simulated.amountUSDC.toFixed(SANDBOX_DECIMALS), SANDBOX_DECIMALS)
+        }]
+      }
+    }
+  }
+
+  switch (chain.kind) {
+    case 'tron':
+      return getTronTransfers(chain, token, hash)
+    case 'stellar':
+      return getStellarTransfers(chain, token, hash)
+    default:
+      return getEvmTransfers(chain, token, hash)
+  }
+}
+
+/**
+ * Verify the USDC (or USDT) transfer behind a Pretium disbursement, on the chain it was deposited on.
+ *
+ * Checks, in order: the hash has not already funded another pretium_orders row,
+ * the transaction succeeded, it moved the token to the settlement address, the
+ * sender is the wallet asking for the payout and the amount covers the quote.
+ *
+ * @throws DepositVerificationError describing the first check that failed
+ */
+export async function verifyUSDCDeposit({
+  transactionHash,
+  expectedSender,
+  minimumAmountUSDC,
+  expectedRecipient,
+  chain = DEFAULT_PRETIUM_CHAIN,
+  token = DEFAULT_TOKEN,
+}: DepositVerificationParams): Promise<VerifiedDeposit> {
+  const chainConfig = getPretiumChain(chain)
+  if (!transactionHash || !isValidHash(chainConfig, transactionHash)) {
+    throw new DepositVerificationError('Invalid transaction hash', 'INVALID_HASH')
+  }
+
+  const hash = normalizeTransactionHash(chain, transactionHash)
+  const recipient = expectedRecipient || getSettlementAddress(chain)
+
+  // Replay protection - one deposit can only fund one payout
+  const existingOrder = await DatabaseService.getPretiumOrderByTransactionHash(hash)
+  if (existingOrder) {
+    throw new DepositVerificationError(
+      'Transaction hash has already been used for another payout',
+      'HASH_ALREADY_USED',
+      409,
+      { transactionCode: existingOrder.transaction_code }
+    )
+  }
+
+  const { blockNumber, decimals, transfers } = await getTokenTransfers(chainConfig, token, hash)
+
+  const toSettlement = transfers.filter(transfer => isSameAddress(chainConfig, transfer.to, recipient))
+
+  if (toSettlement.length === 0) {
+    throw new DepositVerificationError(
+      `${token} was not sent to the settlement address`,
+      'RECIPIENT_MISMATCH',
+      400,
+      { expectedRecipient: recipient, chain }
+    )
+  }
+
+  const fromSender = toSettlement.filter(transfer => isSameAddress(chainConfig, transfer.from, expectedSender))
+
+  if (fromSender.length === 0) {
+    throw new DepositVerificationError(
+      `${token} transfer was not sent from the return address`,
+      'SENDER_MISMATCH',
+      400,
+      { expectedSender, actualSenders: toSettlement.map(transfer => transfer.from) }
+    )
+  }
+
+  // Smart wallets may batch several transfers into one transaction
+  const transferred = fromSender.reduce((sum, transfer) => sum + transfer.value, BigInt(0))
+  const required = parseUnits(minimumAmountUSDC.toFixed(decimals), decimals)
+
+  if (transferred < required) {
+    throw new DepositVerificationError(
+      `Deposited ${token} is less than the quoted amount`,
+      'AMOUNT_TOO_LOW',
+      400,
+      {
+        deposited: formatUnits(transferred, decimals),
+        required: formatUnits(required, decimals)
+      }
+    )
+  }
+
+  return {
+    transactionHash: hash,
+    chain,
+    token,
+    sender: expectedSender,
+    recipient,
+    amountInUSDC: parseFloat(formatUnits(transferred, decimals)),
+    rawAmount: transferred.toString(),
+    blockNumber: blockNumber.toString()
+  }
+}
+
+export interface TransferVerificationParams {
+  transactionHash: string
+  expectedRecipient: string
+  expectedSender?: string // When set, only transfers from it count towards the amount
+  minimumAmountUSDC: number
+  chain?: PretiumChain // Defaults to BASE
+  token?: StablecoinToken // Defaults to USDC
+}
+
+/**
+ * Verify a USDC transfer to an arbitrary recipient, e.g. an operator-signed refund.
+ * Unlike verifyUSDCDeposit the sender is only checked when expectedSender is given,
+ * and replay protection is left to the caller.
+ *
+ * @throws DepositVerificationError describing the first check that failed
+ */
+export async function verifyUSDCTransfer({
+  transactionHash,
+  expectedRecipient,
+  expectedSender,
+  minimumAmountUSDC,
+  chain = DEFAULT_PRETIUM_CHAIN,
+  token = DEFAULT_TOKEN,
+}: TransferVerificationParams): Promise<VerifiedDeposit> {
+  const chainConfig = getPretiumChain(chain)
+  if (!transactionHash || !isValidHash(chainConfig, transactionHash)) {
+    throw new DepositVerificationError('Invalid transaction hash', 'INVALID_HASH')
+  }
+
+  const hash = normalizeTransactionHash(chain, transactionHash)
+  const { blockNumber, decimals, transfers } = await getTokenTransfers(chainConfig, token, hash)
+
+  const toRecipient = transfers.filter(transfer => isSameAddress(chainConfig, transfer.to, expectedRecipient))
+
+  if (toRecipient.length === 0) {
+    throw new DepositVerificationError(
+      `${token} was not sent to the expected recipient`,
+      'RECIPIENT_MISMATCH',
+      400,
+      { expectedRecipient }
+    )
+  }
+
+  const fromSender = expectedSender
+    ? toRecipient.filter(transfer => isSameAddress(chainConfig, transfer.from, expectedSender))
+    : toRecipient
+
+  if (fromSender.length === 0) {
+    throw new DepositVerificationError(
+      `${token} transfer was not sent from the expected sender`,
+      'SENDER_MISMATCH',
+      400,
+      { expectedSender, actualSenders: toRecipient.map(transfer => transfer.from) }
+    )
+  }
+
+  const transferred = fromSender.reduce((sum, transfer) => sum + transfer.value, BigInt(0))
+  const required = parseUnits(minimumAmountUSDC.toFixed(decimals), decimals)
+
+  if (transferred < required) {
+    throw new DepositVerificationError(
+      `Transferred ${token} is less than the required amount`,
+      'AMOUNT_TOO_LOW',
+      400,
+      {
+        transferred: formatUnits(transferred, decimals),
+        required: formatUnits(required, decimals)
+      }
+    )
+  }
+
+  return {
+    transactionHash: hash,
+    chain,
+    token,
+    sender: expectedSender || fromSender[0].from,
+    recipient: expectedRecipient,
+    amountInUSDC: parseFloat(formatUnits(transferred, decimals)),
+    rawAmount: transferred.toString(),
+    blockNumber: blockNumber.toString()
+  }
+}
@@ -10,8 +10,22 @@ import type {
   BlockradarBalancesResponse,
   BlockradarWithdrawRequest,
   BlockradarWithdrawResponse,
+  BlockradarTransactionResponse,
   BlockradarAssetsResponse,
 } from './types';
+import { isSandboxMode } from '@/lib/sandbox/config';
+import { SandboxBlockradarClient } from '@/lib/sandbox/blockradar-client';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('blockradar-client');
+
+function safeParseJson(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return '[UNPARSEABLE]';
+  }
+}
 
 class BlockradarApiClient {
   private baseUrl: string;
@@ -24,7 +38,7 @@ class BlockradarApiClient {
     endpoint: string,
     options: RequestInit = {}
   ): Promise<T> {
-    const requestId = Date.now().toString(36);
+    const log = logger.child({ blockradarRequestId: Date.now().toString(36), method: options.method || 'GET', endpoint });
 
     try {
       validateBlockradarConfig();
@@ -32,17 +46,10 @@ class BlockradarApiClient {
       const url = `${this.baseUrl}${endpoint}`;
       const headers = getBlockradarHeaders();
 
-      console.log(`[BlockradarClient:${requestId}] Making request:`, {
-        method: options.method || 'GET',
-        endpoint,
-        full_url: url,
-        timestamp: new Date().toISOString(),
+      log.debug('Making request', {
+        body: typeof options.body === 'string' ? safeParseJson(options.body) : undefined,
       });
 
-      if (options.body) {
-        console.log(`[BlockradarClient:${requestId}] Request body:`, options.body);
-      }
-
       const response = await fetch(url, {
         ...options,
         headers: {
@@ -51,18 +58,10 @@ class BlockradarApiClient {
         },
       });
 
-      console.log(`[BlockradarClient:${requestId}] Response received:`, {
-        status: response.status,
-        status_text: response.statusText,
-        ok: response.ok,
-      });
-
       const data = await response.json();
 
-      console.log(
-        `[BlockradarClient:${requestId}] Response data:`,
-        JSON.stringify(data, null, 2)
-      );
+      // Address responses can include private keys - the logger redacts them
+      log.debug('Response received', { status: response.status, data });
 
       // Check for API errors
       if (!response.ok || (data.statusCode && data.statusCode !== 200)) {
@@ -72,23 +71,19 @@ class BlockradarApiClient {
           data: data.data,
         };
 
-        console.error(`[BlockradarClient:${requestId}] API Error:`, {
-          error_code: error.statusCode,
-          error_message: error.message,
-          error_data: error.data,
-        });
+        log.error('API error', { errorCode: error.statusCode, errorMessage: error.message, errorData: error.data });
 
         throw error;
       }
 
-      console.log(`[BlockradarClient:${requestId}] Request successful`);
+      log.info('Request successful', { status: response.status });
       return data as T;
     } catch (error) {
       if ((error as BlockradarApiError).statusCode) {
         throw error;
       }
 
-      console.error(`[BlockradarClient:${requestId}] Request failed:`, error);
+      log.error('Request failed', { error });
       throw {
         statusCode: 500,
         message: error instanceof Error ? error.message : 'Unknown error occurred',
@@ -210,6 +205,35 @@ class BlockradarApiClient {
     );
   }
 
+  /**
+   * Get a wallet transaction, e.g. to poll a withdrawal's status
+   *
+   * @param transactionId - The transaction (withdrawal) ID
+   * @param walletId - Optional wallet ID (uses config default if not provided)
+   * @returns Transaction information
+   */
+  async getTransaction(
+    transactionId: string,
+    walletId?: string
+  ): Promise<BlockradarTransactionResponse> {
+    const effectiveWalletId = walletId || BLOCKRADAR_CONFIG.WALLET_ID;
+
+    if (!effectiveWalletId) {
+      throw {
+        statusCode: 400,
+        message: 'Wallet ID is required',
+        data: null,
+      } as BlockradarApiError;
+    }
+
+    return this.request<BlockradarTransactionResponse>(
+      `/wallets/${effectiveWalletId}/transactions/${transactionId}`,
+      {
+        method: 'GET',
+      }
+    );
+  }
+
   /**
    * Get supported assets
    * Retrieves a list of assets supported by Blockradar
@@ -243,6 +267,12 @@ class BlockradarApiClient {
   }
 }
 
-// Export singleton instance
-export const blockradarClient = new BlockradarApiClient();
+// Public surface shared by the live client and the sandbox mock
+export type BlockradarClient = Pick<
+  BlockradarApiClient,
+  'getAddress' | 'getAddressBalances' | 'createAddress' | 'withdrawFromAddress' | 'getTransaction' | 'getAssets'
+>;
+
+// Export singleton instance - the in-process mock when PROVIDER_MODE=sandbox
+export const blockradarClient: BlockradarClient = isSandboxMode() ? new SandboxBlockradarClient() : new BlockradarApiClient();
 
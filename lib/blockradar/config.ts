@@ -2,10 +2,16 @@
  * Blockradar Configuration and Validation
  */
 
+import { isSandboxMode, SANDBOX_CONFIG } from '@/lib/sandbox/config';
+
 export const BLOCKRADAR_CONFIG = {
   BASE_URL: 'https://api.blockradar.co/v1',
   API_KEY: process.env.BLOCKRADAR_API_KEY,
   WALLET_ID: process.env.BLOCKRADAR_WALLET_ID,
+  // Blockradar signs webhooks with the wallet API key unless a dedicated secret is set
+  // (or the sandbox secret when PROVIDER_MODE=sandbox)
+  WEBHOOK_SECRET: process.env.BLOCKRADAR_WEBHOOK_SECRET || process.env.BLOCKRADAR_API_KEY ||
+    (isSandboxMode() ? SANDBOX_CONFIG.WEBHOOK_SECRET : undefined),
 } as const;
 
 /**
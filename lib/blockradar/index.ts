@@ -9,6 +9,14 @@ export { blockradarClient } from './client';
 // Configuration
 export { BLOCKRADAR_CONFIG, validateBlockradarConfig, getBlockradarHeaders } from './config';
 
+// Withdrawals
+export { getUsdcAssetIdFromBalance, sanitizeWithdrawAmount, withdrawUSDC } from './withdraw';
+
+// Webhooks
+export { verifyBlockradarSignature, getBlockradarEventKey, BLOCKRADAR_SIGNATURE_HEADER } from './webhook-security';
+export { processBlockradarEvent, processStoredBlockradarEvent } from './webhook-handler';
+export type { BlockradarWebhookPayload, BlockradarWebhookResult } from './webhook-handler';
+
 // Types
 export type {
   BlockradarApiError,
@@ -25,6 +33,9 @@ export type {
   BlockradarWithdrawRequest,
   BlockradarWithdrawData,
   BlockradarWithdrawResponse,
+  // Transaction types
+  BlockradarTransactionData,
+  BlockradarTransactionResponse,
   // Asset types
   BlockradarAssetInfo,
   BlockradarAssetsResponse,
@@ -147,6 +147,18 @@ export interface BlockradarWithdrawResponse {
   statusCode: number;
 }
 
+// Transaction types
+export interface BlockradarTransactionData extends BlockradarWithdrawData {
+  type?: string;
+  confirmed?: boolean;
+}
+
+export interface BlockradarTransactionResponse {
+  data: BlockradarTransactionData;
+  message: string;
+  statusCode: number;
+}
+
 // Assets types
 export interface BlockradarAssetInfo {
   id: string;
@@ -0,0 +1,474 @@
+/**
+ * Blockradar Webhook Processing
+ * Handles deposit and settlement events and sends email notifications to users
+ * (unless their notification preferences turn order status emails off),
+ * and confirms refund withdrawals.
+ * Shared by the webhook route and the admin replay endpoint.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { DatabaseService, type BlockradarWebhookEventRecord } from '@/lib/supabase/config';
+import { settleRefundWithdrawal } from '@/lib/refunds';
+import { canNotify } from '@/lib/notification-preferences';
+import {
+  EMAIL_ASSET_BASE,
+  EMAIL_FROM,
+  ctaButton,
+  detailRow,
+  emailLayout,
+  getResendClient,
+} from '@/lib/services/email';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('blockradar-events');
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+/**
+ * Raw webhook body as delivered by Blockradar
+ */
+export interface BlockradarWebhookPayload {
+  event?: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  data?: any;
+}
+
+export type BlockradarWebhookResult = Record<string, unknown>;
+
+function getEstimatedSettlementTime(blockchainSlug: string): string {
+  const times: Record<string, string> = {
+    'arbitrum': '13-19 minutes',
+    'avalanche': '8-15 seconds',
+    'base': '13-19 minutes',
+    'ethereum': '13-19 minutes',
+    'optimism': '13-19 minutes',
+    'polygon': '8-15 seconds',
+    'lisk': '13-19 minutes',
+    'celo': '5-10 seconds',
+  };
+  return times[blockchainSlug.toLowerCase()] || '10-20 minutes';
+}
+
+function explorerTxUrl(slug: string, txHash: string): string {
+  const explorers: Record<string, string> = {
+    base: 'https://basescan.org/tx/',
+    ethereum: 'https://etherscan.io/tx/',
+    polygon: 'https://polygonscan.com/tx/',
+    arbitrum: 'https://arbiscan.io/tx/',
+    optimism: 'https://optimistic.etherscan.io/tx/',
+    avalanche: 'https://snowtrace.io/tx/',
+    celo: 'https://celoscan.io/tx/',
+    lisk: 'https://blockscout.lisk.com/tx/',
+  };
+  const base = explorers[slug.toLowerCase()];
+  return base ? `${base}${txHash}` : '';
+}
+
+// ─── Email: shared layout & helpers ─────────────────────────────────────────
+
+function tokenLogoUrl(symbol: string): string {
+  if (symbol.toUpperCase() === 'USDT') return `${EMAIL_ASSET_BASE}/usdt-logo.png`;
+  return `${EMAIL_ASSET_BASE}/usd-coin.png`;
+}
+
+function chainLogoUrl(slug: string): string | null {
+  const logos: Record<string, string> = {
+    base: `${EMAIL_ASSET_BASE}/base-logo.png`,
+    polygon: `${EMAIL_ASSET_BASE}/polygon-logo.png`,
+    celo: `${EMAIL_ASSET_BASE}/celo-logo.png`,
+    lisk: `${EMAIL_ASSET_BASE}/lisk-logo.png`,
+  };
+  return logos[slug.toLowerCase()] || null;
+}
+
+function inlineToken(amount: string, symbol: string): string {
+  return `<img src="${tokenLogoUrl(symbol)}" width="16" height="16" alt="${symbol}" style="display:inline-block;vertical-align:middle;margin-right:5px;border-radius:50%;" /><span style="font-weight:600;vertical-align:middle;line-height:16px;">${amount} ${symbol}</span>`;
+}
+
+function inlineChain(name: string, slug: string): string {
+  const logo = chainLogoUrl(slug);
+  const img = logo
+    ? `<img src="${logo}" width="16" height="16" alt="${name}" style="display:inline-block;vertical-align:middle;margin-right:5px;border-radius:50%;" />`
+    : '';
+  return `${img}<span style="font-weight:600;vertical-align:middle;line-height:16px;">${name}</span>`;
+}
+
+// ─── Email senders ──────────────────────────────────────────────────────────
+
+async function sendDepositReceivedEmail(
+  to: string,
+  amount: string,
+  asset: string,
+  network: string,
+  estimatedTime: string,
+  txHash: string,
+  blockchainSlug = ''
+): Promise<void> {
+  try {
+    const body = `
+      <h2 style="margin:0 0 8px;color:#1a1a1a;font-size:18px;font-weight:600;">Deposit received</h2>
+      <p style="margin:0 0 24px;color:#6b7280;font-size:14px;line-height:1.6;">
+        We received your deposit and it's being settled to Base.
+      </p>
+      <table width="100%" cellpadding="0" cellspacing="0" style="border:1px solid #f0f0f0;border-radius:10px;margin:0 0 20px;">
+        <tr><td class="detail-cell" style="padding:14px 16px;">
+          <table width="100%" cellpadding="0" cellspacing="0">
+            ${detailRow('Amount', inlineToken(amount, asset))}
+            ${detailRow('Network', inlineChain(network, blockchainSlug))}
+            ${detailRow('Est. settlement', estimatedTime)}
+          </table>
+        </td></tr>
+      </table>
+      <p style="margin:0 0 4px;color:#6b7280;font-size:13px;line-height:1.5;">
+        We'll email you once your funds are available on Base.
+      </p>
+      ${ctaButton()}
+      ${txHash ? `<p style="margin:24px 0 0;font-size:11px;word-break:break-all;">
+        <a href="${explorerTxUrl(blockchainSlug, txHash)}" style="color:#9ca3af;text-decoration:none;" target="_blank">View on explorer &rarr;</a>
+      </p>` : ''}`;
+
+    const resend = getResendClient();
+    await resend.emails.send({
+      from: EMAIL_FROM,
+      to,
+      subject: `Deposit received — ${amount} ${asset}`,
+      html: emailLayout(body),
+    });
+    logger.info('Email sent: deposit received', { to, amount, asset });
+  } catch (error) {
+    logger.error('Failed to send deposit received email', { error });
+  }
+}
+
+async function sendDepositFailedEmail(
+  to: string,
+  amount: string,
+  asset: string,
+  network: string,
+  txHash: string,
+  blockchainSlug = ''
+): Promise<void> {
+  try {
+    const body = `
+      <h2 style="margin:0 0 8px;color:#1a1a1a;font-size:18px;font-weight:600;">Deposit failed</h2>
+      <p style="margin:0 0 24px;color:#6b7280;font-size:14px;line-height:1.6;">
+        Your deposit could not be processed. No funds were deducted.
+      </p>
+      <table width="100%" cellpadding="0" cellspacing="0" style="border:1px solid #f0f0f0;border-radius:10px;margin:0 0 20px;">
+        <tr><td class="detail-cell" style="padding:14px 16px;">
+          <table width="100%" cellpadding="0" cellspacing="0">
+            ${detailRow('Amount', inlineToken(amount, asset))}
+            ${detailRow('Network', inlineChain(network, blockchainSlug))}
+          </table>
+        </td></tr>
+      </table>
+      <p style="margin:0;color:#6b7280;font-size:13px;line-height:1.5;">
+        Try again or reach out to support if the issue continues.
+      </p>
+      ${ctaButton()}
+      ${txHash ? `<p style="margin:24px 0 0;font-size:11px;word-break:break-all;">
+        <a href="${explorerTxUrl(blockchainSlug, txHash)}" style="color:#9ca3af;text-decoration:none;" target="_blank">View on explorer &rarr;</a>
+      </p>` : ''}`;
+
+    const resend = getResendClient();
+    await resend.emails.send({
+      from: EMAIL_FROM,
+      to,
+      subject: `Deposit failed — ${amount} ${asset}`,
+      html: emailLayout(body),
+    });
+    logger.info('Email sent: deposit failed', { to, amount, asset });
+  } catch (error) {
+    logger.error('Failed to send deposit failed email', { error });
+  }
+}
+
+async function sendSettlementCompleteEmail(
+  to: string,
+  originalAmount: string,
+  originalAsset: string,
+  settledAmount: string,
+  network: string,
+  blockchainSlug = ''
+): Promise<void> {
+  try {
+    const body = `
+      <h2 style="margin:0 0 8px;color:#1a1a1a;font-size:18px;font-weight:600;">Funds available</h2>
+      <p style="margin:0 0 24px;color:#6b7280;font-size:14px;line-height:1.6;">
+        Your deposit has been settled. USDC is ready in your wallet on Base.
+      </p>
+      <table width="100%" cellpadding="0" cellspacing="0" style="border:1px solid #f0f0f0;border-radius:10px;margin:0 0 20px;">
+        <tr><td class="detail-cell" style="padding:14px 16px;">
+          <table width="100%" cellpadding="0" cellspacing="0">
+            ${detailRow('Deposited', inlineToken(originalAmount, originalAsset))}
+            ${detailRow('Settled', inlineToken(settledAmount, 'USDC'))}
+            ${detailRow('From', inlineChain(network, blockchainSlug))}
+            ${detailRow('To', inlineChain('Base', 'base'))}
+          </table>
+        </td></tr>
+      </table>
+      ${ctaButton()}`;
+
+    const resend = getResendClient();
+    await resend.emails.send({
+      from: EMAIL_FROM,
+      to,
+      subject: `\uD83C\uDF89 Funds available — ${settledAmount} USDC on Base`,
+      html: emailLayout(body),
+    });
+    logger.info('Email sent: settlement complete', { to, settledAmount });
+  } catch (error) {
+    logger.error('Failed to send settlement complete email', { error });
+  }
+}
+
+// ─── Deposit tracking ───────────────────────────────────────────────────────
+
+async function storeDeposit(
+  txId: string,
+  userId: string,
+  email: string,
+  wallet: string,
+  amount: string,
+  assetSymbol: string,
+  blockchainSlug: string,
+  blockchainName: string,
+  txHash: string
+): Promise<void> {
+  const { error } = await supabase.from('deposit_events').upsert(
+    {
+      blockradar_tx_id: txId,
+      user_id: userId,
+      email,
+      minisend_wallet: wallet,
+      amount,
+      asset_symbol: assetSymbol,
+      blockchain_slug: blockchainSlug,
+      blockchain_name: blockchainName,
+      tx_hash: txHash,
+      status: 'received',
+    },
+    { onConflict: 'blockradar_tx_id' }
+  );
+  if (error) {
+    logger.error('Failed to store deposit event', { error });
+  }
+}
+
+async function matchDepositForSwap(
+  depositTxId?: string,
+  settleAmount?: string
+): Promise<{ email: string; user_id: string; amount: string; asset_symbol: string; blockchain_name: string; blockchain_slug: string; id: string } | null> {
+  const cols = 'id, email, user_id, amount, asset_symbol, blockchain_name, blockchain_slug';
+
+  // Primary: match by deposit transaction ID (swap reference → deposit blockradar_tx_id)
+  if (depositTxId) {
+    const { data, error } = await supabase
+      .from('deposit_events')
+      .select(cols)
+      .eq('status', 'received')
+      .eq('blockradar_tx_id', depositTxId)
+      .single();
+
+    if (!error && data) {
+      logger.info('Deposit matched by tx ID', { depositTxId });
+      return data;
+    }
+    logger.warn('No deposit found for tx ID', { depositTxId });
+  }
+
+  // Fallback: approximate amount matching (within 5% tolerance)
+  if (settleAmount) {
+    const target = parseFloat(settleAmount);
+    if (!isNaN(target)) {
+      const { data: candidates } = await supabase
+        .from('deposit_events')
+        .select(cols)
+        .eq('status', 'received')
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (candidates && candidates.length > 0) {
+        let bestMatch = null;
+        let bestDiff = Infinity;
+        for (const row of candidates) {
+          const diff = Math.abs(parseFloat(row.amount) - target);
+          const pct = diff / target;
+          if (pct <= 0.05 && diff < bestDiff) {
+            bestDiff = diff;
+            bestMatch = row;
+          }
+        }
+        if (bestMatch) {
+          logger.info('Deposit matched by approximate amount', {
+            settleAmount,
+            depositAmount: bestMatch.amount,
+            diff: bestDiff.toFixed(6),
+          });
+          return bestMatch;
+        }
+      }
+    }
+    logger.warn('No matching deposit found for settle amount', { settleAmount });
+  }
+
+  return null;
+}
+
+async function markDepositSettled(depositId: string): Promise<void> {
+  await supabase
+    .from('deposit_events')
+    .update({ status: 'settled' })
+    .eq('id', depositId);
+}
+
+// ─── Event processing ───────────────────────────────────────────────────────
+
+/**
+ * Process a single Blockradar webhook event
+ * @returns Summary of what was done, returned to Blockradar as the response body
+ */
+export async function processBlockradarEvent(
+  payload: BlockradarWebhookPayload
+): Promise<BlockradarWebhookResult> {
+  const event = payload?.event as string;
+  const data = payload?.data;
+
+  logger.info('Processing Blockradar event', {
+    event,
+    type: data?.type,
+    amount: data?.amount,
+    blockchain: data?.blockchain?.slug,
+    status: data?.status,
+  });
+
+  // ── Handle deposit events ──────────────────────────────────────────
+  if (data?.type === 'DEPOSIT' || data?.type === 'GATEWAY_DEPOSIT') {
+    const recipientAddress = data.recipientAddress;
+
+    const { data: user, error: userError } = await supabase
+      .from('minisend_users')
+      .select('email, user_id')
+      .ilike('minisend_wallet', recipientAddress)
+      .single();
+
+    if (userError || !user) {
+      logger.warn('User not found for address', { recipientAddress });
+      return { received: true };
+    }
+
+    const assetSymbol = data.asset?.symbol || 'USDC';
+    const blockchainSlug = data.blockchain?.slug || 'unknown';
+    const blockchainName = data.blockchain?.name || blockchainSlug;
+    const txHash = data.hash || '';
+
+    // Store deposit for later swap matching
+    await storeDeposit(
+      data.id,
+      user.user_id,
+      user.email || '',
+      recipientAddress.toLowerCase(),
+      data.amount,
+      assetSymbol,
+      blockchainSlug,
+      blockchainName,
+      txHash
+    );
+
+    // Send email if user has one and hasn't turned order status emails off
+    if (user.email && await canNotify({ owner: user.user_id }, 'order_status', 'email')) {
+      const isSuccess = event === 'deposit.success' || event === 'gateway-deposit.success';
+      const isFailed = event === 'deposit.failed' || event === 'gateway-deposit.failed';
+      const estimatedTime = getEstimatedSettlementTime(blockchainSlug);
+
+      if (isSuccess) {
+        await sendDepositReceivedEmail(
+          user.email, data.amount, assetSymbol, blockchainName, estimatedTime, txHash, blockchainSlug
+        );
+      } else if (isFailed) {
+        await sendDepositFailedEmail(
+          user.email, data.amount, assetSymbol, blockchainName, txHash, blockchainSlug
+        );
+      }
+    }
+
+    return { received: true, processed: true, event };
+  }
+
+  // ── Handle swap/settlement events ──────────────────────────────────
+  if (data?.type === 'SWAP') {
+    const depositTxId = data.reference || null;
+    const settleAmount = data.metadata?.swapAutoSettlement?.settleAmount || null;
+    const settledAmount = data.toAmount || data.amount;
+
+    logger.info('Swap settlement details', {
+      depositTxId,
+      settleAmount,
+      settledAmount,
+      event,
+      status: data.status,
+    });
+
+    if (data.status === 'SUCCESS' && (depositTxId || settleAmount)) {
+      const deposit = await matchDepositForSwap(depositTxId, settleAmount);
+
+      if (deposit) {
+        if (deposit.email && await canNotify({ owner: deposit.user_id }, 'order_status', 'email')) {
+          await sendSettlementCompleteEmail(
+            deposit.email,
+            deposit.amount,
+            deposit.asset_symbol,
+            settledAmount || deposit.amount,
+            deposit.blockchain_name,
+            deposit.blockchain_slug
+          );
+        }
+        await markDepositSettled(deposit.id);
+      }
+    }
+
+    return { received: true, processed: true, event };
+  }
+
+  // ── Handle withdrawals that pay out a refund ───────────────────────
+  if (data?.type === 'WITHDRAW') {
+    const refund = await settleRefundWithdrawal({
+      reference: data.reference,
+      status: data.status,
+      hash: data.hash,
+      failureReason: data.reason,
+    });
+
+    if (refund) {
+      logger.info('Refund withdrawal update', { refundId: refund.id, status: refund.status, event });
+      return { received: true, processed: true, event, refundId: refund.id, refundStatus: refund.status };
+    }
+
+    return { received: true };
+  }
+
+  // ── All other events — acknowledge without processing ──────────────
+  return { received: true };
+}
+
+/**
+ * Run a stored event through the handler and record the outcome on its row.
+ * Used for fresh deliveries and for admin replays of failed or missed events.
+ */
+export async function processStoredBlockradarEvent(
+  record: BlockradarWebhookEventRecord
+): Promise<BlockradarWebhookResult> {
+  try {
+    const result = await processBlockradarEvent(record.payload as BlockradarWebhookPayload);
+    await DatabaseService.updateBlockradarWebhookEventStatus(record, 'processed', { result });
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await DatabaseService.updateBlockradarWebhookEventStatus(record, 'failed', { error: message })
+      .catch((updateError) => logger.error('Failed to record webhook event failure', { error: updateError }));
+    throw error;
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Blockradar Webhook Signature Verification
+ * Blockradar signs each delivery with HMAC-SHA512 of the raw body,
+ * keyed with the wallet API key, in the x-blockradar-signature header
+ */
+
+import crypto from 'crypto';
+import { BLOCKRADAR_CONFIG } from './config';
+
+export const BLOCKRADAR_SIGNATURE_HEADER = 'x-blockradar-signature';
+
+/**
+ * Calculate the signature Blockradar sends for a raw body
+ */
+export function calculateBlockradarSignature(rawBody: string, secret: string): string {
+  return crypto.createHmac('sha512', secret).update(rawBody).digest('hex');
+}
+
+/**
+ * Verify a Blockradar webhook signature
+ * @param rawBody - Unparsed request body
+ * @param signature - Value of the x-blockradar-signature header
+ * @returns true when the signature matches
+ */
+export function verifyBlockradarSignature(rawBody: string, signature: string | null): boolean {
+  const secret = BLOCKRADAR_CONFIG.WEBHOOK_SECRET;
+  if (!signature || !secret) return false;
+
+  const expected = calculateBlockradarSignature(rawBody, secret);
+
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(signature);
+  if (expectedBuffer.length !== providedBuffer.length) return false;
+
+  return crypto.timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+/**
+ * Stable identifier for a webhook delivery, used to skip duplicates
+ */
+export function getBlockradarEventKey(event: string | undefined, dataId: string | undefined): string | null {
+  if (!event || !dataId) return null;
+  return `${event}:${dataId}`;
+}
@@ -0,0 +1,89 @@
+/**
+ * Blockradar USDC withdrawal helpers
+ * Shared by the withdraw route and server-side payouts (failover funding, refunds)
+ */
+
+import { blockradarClient } from './client';
+import { BLOCKRADAR_CONFIG } from './config';
+import type { BlockradarWithdrawData } from './types';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('blockradar-withdraw');
+
+/**
+ * Gets the USDC asset ID from the address's balances
+ * This returns the wallet-specific asset ID that works for withdrawals
+ */
+export async function getUsdcAssetIdFromBalance(addressId: string): Promise<{ assetId: string; balance: string } | null> {
+  logger.debug('Fetching USDC asset ID from address balances', { addressId });
+
+  try {
+    const balancesResponse = await blockradarClient.getAddressBalances(addressId);
+
+    // Find the USDC balance entry
+    const usdcBalance = balancesResponse.data.find(
+      (item) => item.asset?.asset?.symbol === 'USDC'
+    );
+
+    if (usdcBalance && usdcBalance.asset) {
+      // Return the wallet asset ID (the one associated with this specific wallet)
+      return {
+        assetId: usdcBalance.asset.id,
+        balance: usdcBalance.balance,
+      };
+    }
+
+    return null;
+  } catch (error) {
+    logger.error('Failed to fetch balances', { addressId, error });
+    return null;
+  }
+}
+
+/**
+ * USDC has 6 decimals, BlockRadar rejects >8 decimal places
+ */
+export function sanitizeWithdrawAmount(amount: string | number): string {
+  return parseFloat(String(amount)).toFixed(6).replace(/\.?0+$/, '');
+}
+
+/**
+ * Send USDC from a Blockradar child address to an external address.
+ * Throws when the address holds no USDC or not enough of it
+ */
+export async function withdrawUSDC(params: {
+  addressId: string;
+  recipientAddress: string;
+  amount: string | number;
+  reference: string;
+  note: string;
+  metadata?: Record<string, unknown>;
+}): Promise<BlockradarWithdrawData> {
+  const usdcInfo = await getUsdcAssetIdFromBalance(params.addressId);
+  if (!usdcInfo) {
+    throw new Error('USDC asset not found on Blockradar address');
+  }
+
+  const amount = sanitizeWithdrawAmount(params.amount);
+  if (parseFloat(amount) > parseFloat(usdcInfo.balance)) {
+    throw new Error(`Insufficient USDC balance: need ${amount}, have ${usdcInfo.balance}`);
+  }
+
+  const response = await blockradarClient.withdrawFromAddress(
+    params.addressId,
+    {
+      assetId: usdcInfo.assetId,
+      address: params.recipientAddress,
+      amount,
+      reference: params.reference,
+      note: params.note,
+      metadata: {
+        ...params.metadata,
+        source: 'minisend',
+      },
+    },
+    BLOCKRADAR_CONFIG.WALLET_ID
+  );
+
+  return response.data;
+}
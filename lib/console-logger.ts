@@ -6,7 +6,7 @@
 
 // Import standard supabase client
 import { supabase } from '@/lib/supabase/config';
-import { redactPhoneNumber, redactWalletAddress, redactTxHash } from '@/lib/security/dataRedaction';
+import { redactSensitiveData } from '@/lib/security/dataRedaction';
 
 interface LogEntry {
   level: 'log' | 'error' | 'warn' | 'info' | 'debug';
@@ -48,68 +48,12 @@ class ConsoleLogger {
    * Automatically redact sensitive data from any log content
    */
   private redactSensitiveData(data: unknown): unknown {
-    if (typeof data === 'string') {
-      let redacted = data;
-      
-      // Redact phone numbers (international format)
-      redacted = redacted.replace(/(\+?\d{1,4}[\s-]?)?\(?\d{3,4}\)?[\s-]?\d{3,4}[\s-]?\d{4,6}/g, 
-        (match) => redactPhoneNumber(match)
-      );
-      
-      // Redact wallet addresses
-      redacted = redacted.replace(/0x[a-fA-F0-9]{40}/g, 
-        (match) => redactWalletAddress(match)
-      );
-      
-      // Redact transaction hashes
-      redacted = redacted.replace(/0x[a-fA-F0-9]{64}/g, 
-        (match) => redactTxHash(match)
-      );
-      
-      // Redact API keys (common patterns)
-      redacted = redacted.replace(/['"](sk_|pk_|api_key_)[a-zA-Z0-9]{20,}['"]?/g, '"[API_KEY_REDACTED]"');
-      
-      // Redact private keys
-      redacted = redacted.replace(/['"](0x)?[a-fA-F0-9]{64}['"]?/g, '"[PRIVATE_KEY_REDACTED]"');
-      
-      return redacted;
-    }
-    
-    if (typeof data === 'object' && data !== null) {
-      try {
-        if (Array.isArray(data)) {
-          const redacted: unknown[] = [];
-          for (let i = 0; i < data.length; i++) {
-            redacted[i] = this.redactSensitiveData(data[i]);
-          }
-          return redacted;
-        } else {
-          const redacted: Record<string, unknown> = {};
-          for (const [key, value] of Object.entries(data)) {
-            const lowerKey = key.toLowerCase();
-            
-            // Redact sensitive field values by key name
-            if (lowerKey.includes('phone') || lowerKey.includes('mobile')) {
-              redacted[key] = typeof value === 'string' ? redactPhoneNumber(value) : value;
-            } else if (lowerKey.includes('address') || lowerKey.includes('wallet')) {
-              redacted[key] = typeof value === 'string' ? redactWalletAddress(value) : value;
-            } else if (lowerKey.includes('hash') || lowerKey.includes('transaction')) {
-              redacted[key] = typeof value === 'string' ? redactTxHash(value) : value;
-            } else if (lowerKey.includes('key') || lowerKey.includes('secret') || lowerKey.includes('token')) {
-              redacted[key] = '[REDACTED]';
-            } else {
-              redacted[key] = this.redactSensitiveData(value);
-            }
-          }
-          return redacted;
-        }
-      } catch {
-        // If object processing fails, return safe fallback
-        return '[OBJECT_REDACTION_ERROR]';
-      }
+    try {
+      return redactSensitiveData(data);
+    } catch {
+      // If object processing fails, return safe fallback
+      return '[OBJECT_REDACTION_ERROR]';
     }
-    
-    return data;
   }
 
   /**
@@ -1,12 +1,36 @@
-import { base, baseSepolia } from 'wagmi/chains'
+import { base, baseSepolia, celo, scroll } from 'wagmi/chains'
 
-// USDC contract addresses - Base mainnet and testnet
+// USDC contract addresses - Base mainnet and testnet, plus the other EVM chains
+// Pretium accepts deposits on (see lib/pretium/chains.ts)
 export const USDC_CONTRACTS = {
   [base.id]: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // USDC on Base mainnet
   [baseSepolia.id]: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', // USDC on Base Sepolia
+  [celo.id]: '0xcebA9300f2b948710d2653dD7B07f33A8B32118C', // Native USDC on Celo
+  [scroll.id]: '0x06eFdBFf2a14a7c8E15944D1F4A48F9F95F663A4', // Bridged USDC on Scroll
 } as const
 
-// Network configurations - Base mainnet and testnet
+// USDT contract addresses on the same EVM chains
+export const USDT_CONTRACTS = {
+  [base.id]: '0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2', // Bridged USDT on Base
+  [celo.id]: '0x48065fbBE25f71C9282ddf5e1cD6D6A887483D5e', // Native USDT on Celo
+  [scroll.id]: '0xf55BEC9cafDbE8730f096Aa55dad6D22d44099Df', // Bridged USDT on Scroll
+} as const
+
+// Stablecoins a payout can be funded with
+export type StablecoinToken = 'USDC' | 'USDT'
+
+export const DEFAULT_TOKEN: StablecoinToken = 'USDC'
+
+export const STABLECOIN_TOKENS: Record<StablecoinToken, { name: string; logo: string; decimals: number }> = {
+  USDC: { name: 'USD Coin', logo: '/usdc.svg', decimals: 6 },
+  USDT: { name: 'Tether USD', logo: '/usdt.svg', decimals: 6 },
+}
+
+export function isStablecoinToken(value: unknown): value is StablecoinToken {
+  return typeof value === 'string' && value in STABLECOIN_TOKENS
+}
+
+// Network configurations - Base mainnet and testnet, Celo and Scroll
 export const NETWORK_CONFIG = {
   [base.id]: {
     name: 'Base',
@@ -18,6 +42,16 @@ export const NETWORK_CONFIG = {
     explorerUrl: 'https://sepolia.basescan.org',
     isTestnet: true,
   },
+  [celo.id]: {
+    name: 'Celo',
+    explorerUrl: 'https://celoscan.io',
+    isTestnet: false,
+  },
+  [scroll.id]: {
+    name: 'Scroll',
+    explorerUrl: 'https://scrollscan.com',
+    isTestnet: false,
+  },
 } as const
 
 // Helper function to get USDC contract address for current chain
@@ -31,6 +65,12 @@ export function getUSDCContract(chainId: number): string {
   return contract
 }
 
+// Helper function to get a stablecoin's contract address - undefined where it isn't deployed (USDT on Sepolia)
+export function getTokenContract(token: StablecoinToken, chainId: number): string | undefined {
+  if (token === 'USDC') return getUSDCContract(chainId)
+  return USDT_CONTRACTS[chainId as keyof typeof USDT_CONTRACTS]
+}
+
 // Helper function to get network config
 export function getNetworkConfig(chainId: number) {
   const config = NETWORK_CONFIG[chainId as keyof typeof NETWORK_CONFIG]
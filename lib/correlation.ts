@@ -0,0 +1,49 @@
+/**
+ * Payment Correlation IDs
+ * One ID per payment attempt, generated in the client when ExchangeFlow starts a
+ * payment and carried through the X-Correlation-Id header, order rows, the
+ * provider references we control and webhook logs. Safe to import from client
+ * components and server code alike.
+ */
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+
+// Letters, digits, '_' and '-' only, so an ID can be embedded in references and query strings as-is
+const CORRELATION_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+// PayCrest references we generate: minisend_<timestamp>[_<correlationId>]
+const PAYCREST_REFERENCE_PATTERN = /^minisend_\d+_(.+)$/;
+
+/**
+ * New correlation ID, e.g. cid_3f2a9c0e8b7d4e1fa6c5b4d3e2f1a0b9
+ */
+export function createCorrelationId(): string {
+  return `cid_${crypto.randomUUID().replace(/-/g, '')}`;
+}
+
+export function isValidCorrelationId(value: unknown): value is string {
+  return typeof value === 'string' && CORRELATION_ID_PATTERN.test(value);
+}
+
+/**
+ * Headers to send with an API request made on behalf of a payment
+ */
+export function correlationHeaders(correlationId?: string): Record<string, string> {
+  return isValidCorrelationId(correlationId) ? { [CORRELATION_ID_HEADER]: correlationId } : {};
+}
+
+/**
+ * PayCrest order reference, echoing the correlation ID when there is one
+ */
+export function toPaycrestReference(correlationId?: string): string {
+  const reference = `minisend_${Date.now()}`;
+  return isValidCorrelationId(correlationId) ? `${reference}_${correlationId}` : reference;
+}
+
+/**
+ * Correlation ID echoed in a PayCrest order reference, if any
+ */
+export function getCorrelationIdFromReference(reference: string | undefined | null): string | undefined {
+  const match = reference?.match(PAYCREST_REFERENCE_PATTERN);
+  return match && isValidCorrelationId(match[1]) ? match[1] : undefined;
+}
@@ -0,0 +1,120 @@
+/**
+ * Authenticated fetch for user-owned routes (saved recipients, schedules, alerts, preferences)
+ * Web users send their Privy access token. Wallet users sign in once with SIWE and
+ * send the wallet session token the server returns. Inside Farcaster, routes that
+ * link the user's FID also get a Quick Auth token in X-Farcaster-Token
+ */
+
+"use client";
+
+import { useCallback } from 'react';
+import { useAccount, useSignMessage } from 'wagmi';
+import { base } from 'wagmi/chains';
+import { createSiweMessage } from 'viem/siwe';
+import { getAccessToken } from '@privy-io/react-auth';
+import { sdk } from '@farcaster/miniapp-sdk';
+import { isWeb } from '../platform-detection';
+
+export type AuthFetch = (input: string, init?: RequestInit) => Promise<Response>;
+
+export interface AuthFetchOptions {
+  // Always send a wallet session for the connected wallet, even for Privy users -
+  // for routes that act on what the wallet itself signs (batch payouts)
+  walletSession?: boolean;
+  // Prove the Farcaster user's FID with a Quick Auth token, when running in a mini app
+  farcaster?: boolean;
+}
+
+const WALLET_SESSION_STORAGE_PREFIX = 'minisend_wallet_session:';
+
+// One sign-in prompt per wallet at a time, shared by every caller
+const signIns = new Map<string, Promise<string>>();
+
+function storageKey(walletAddress: string): string {
+  return `${WALLET_SESSION_STORAGE_PREFIX}${walletAddress.toLowerCase()}`;
+}
+
+function readWalletSession(walletAddress: string): string | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(walletAddress)) || 'null');
+    if (!stored?.token || new Date(stored.expiresAt).getTime() <= Date.now()) return null;
+    return stored.token;
+  } catch {
+    return null;
+  }
+}
+
+async function getFarcasterToken(): Promise<string | null> {
+  if (!(await sdk.isInMiniApp().catch(() => false))) return null;
+  const result = await sdk.quickAuth.getToken().catch(() => null);
+  return result?.token ?? null;
+}
+
+async function signInWithWallet(
+  walletAddress: `0x${string}`,
+  signMessage: (args: { message: string }) => Promise<`0x${string}`>
+): Promise<string> {
+  const nonceResponse = await fetch('/api/auth/wallet-session');
+  if (!nonceResponse.ok) throw new Error('Failed to start sign-in');
+  const { nonce, nonceToken } = await nonceResponse.json();
+
+  const message = createSiweMessage({
+    address: walletAddress,
+    chainId: base.id,
+    domain: window.location.host,
+    uri: window.location.origin,
+    version: '1',
+    nonce,
+    issuedAt: new Date(),
+    statement: 'Sign in to Minisend to manage your saved recipients, schedules and alerts.',
+  });
+  const signature = await signMessage({ message });
+
+  const response = await fetch('/api/auth/wallet-session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, signature, nonceToken }),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || 'Failed to sign in');
+
+  localStorage.setItem(storageKey(walletAddress), JSON.stringify({ token: data.token, expiresAt: data.expiresAt }));
+  return data.token;
+}
+
+export function useAuthFetch({ walletSession = false, farcaster = false }: AuthFetchOptions = {}): AuthFetch {
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+
+  return useCallback(async (input: string, init: RequestInit = {}) => {
+    const farcasterToken = farcaster ? await getFarcasterToken() : null;
+    const send = (token: string | null) => {
+      const headers = new Headers(init.headers);
+      if (token) headers.set('Authorization', `Bearer ${token}`);
+      if (farcasterToken) headers.set('X-Farcaster-Token', farcasterToken);
+      return fetch(input, { ...init, headers });
+    };
+
+    // Web users signed in with Privy
+    const privyToken = isWeb() && !walletSession ? await getAccessToken().catch(() => null) : null;
+    if (privyToken || !address) return send(privyToken);
+
+    const signIn = () => {
+      const key = storageKey(address);
+      let pending = signIns.get(key);
+      if (!pending) {
+        pending = signInWithWallet(address, signMessageAsync).finally(() => signIns.delete(key));
+        signIns.set(key, pending);
+      }
+      return pending;
+    };
+
+    const stored = readWalletSession(address);
+    const response = await send(stored || (await signIn()));
+    if (response.status !== 401 || !stored) return response;
+
+    // The stored session expired or was revoked - sign in again, once
+    localStorage.removeItem(storageKey(address));
+    return send(await signIn());
+  }, [address, signMessageAsync, walletSession, farcaster]);
+}
@@ -0,0 +1,140 @@
+/**
+ * Structured Logger for Minisend (server-side)
+ * Leveled, JSON-formatted log lines carrying a request-scoped correlation ID.
+ * Every message and payload is passed through the dataRedaction redactors
+ * before it is written, so phone numbers, account names/numbers, secrets and
+ * tokenized callback URLs never reach stdout or system_logs.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { redactSensitiveData, redactText } from '@/lib/security/dataRedaction';
+import { CORRELATION_ID_HEADER, isValidCorrelationId } from '@/lib/correlation';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogContext = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, data?: LogContext): void;
+  info(message: string, data?: LogContext): void;
+  warn(message: string, data?: LogContext): void;
+  error(message: string, data?: LogContext): void;
+  /** Logger that adds the given fields to every line */
+  child(bindings: LogContext): Logger;
+}
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+function parseLevel(value: string | undefined): LogLevel | null {
+  const level = value?.toLowerCase();
+  return level && level in LEVEL_PRIORITY ? (level as LogLevel) : null;
+}
+
+export const LOGGER_CONFIG = {
+  // Lowest level that is written
+  LEVEL: parseLevel(process.env.LOG_LEVEL) || (process.env.NODE_ENV === 'production' ? 'info' : 'debug'),
+
+  // json: one JSON object per line (for log drains); pretty: human-readable for local development
+  FORMAT: (process.env.LOG_FORMAT || (process.env.NODE_ENV === 'development' ? 'pretty' : 'json')) as 'json' | 'pretty',
+};
+
+const correlationStore = new AsyncLocalStorage<{ correlationId: string }>();
+
+/**
+ * Run fn with a correlation ID that every log line written inside it (including
+ * from awaited calls) carries
+ */
+export function withCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return correlationStore.run({ correlationId }, fn);
+}
+
+/**
+ * Correlation ID of the request being handled, if any
+ */
+export function getCorrelationId(): string | undefined {
+  return correlationStore.getStore()?.correlationId;
+}
+
+/**
+ * Correlation ID sent by the client in X-Correlation-Id, or the fallback when the
+ * header is missing or malformed
+ */
+export function getRequestCorrelationId(request: Request, fallback: string): string {
+  const header = request.headers.get(CORRELATION_ID_HEADER);
+  return isValidCorrelationId(header) ? header : fallback;
+}
+
+/**
+ * Errors do not survive JSON.stringify - flatten them into plain fields
+ */
+export function serializeError(error: unknown): LogContext {
+  if (error instanceof Error) {
+    const extra = Object.fromEntries(Object.entries(error));
+    return {
+      name: error.name,
+      message: error.message,
+      ...extra,
+      ...(error.stack && { stack: error.stack }),
+    };
+  }
+
+  if (typeof error === 'object' && error !== null) {
+    return error as LogContext;
+  }
+
+  return { message: String(error) };
+}
+
+function normalizeData(data: LogContext): LogContext {
+  const normalized: LogContext = {};
+  for (const [key, value] of Object.entries(data)) {
+    normalized[key] = value instanceof Error ? serializeError(value) : value;
+  }
+  return normalized;
+}
+
+function write(level: LogLevel, scope: string, bindings: LogContext, message: string, data?: LogContext) {
+  if (LEVEL_PRIORITY[level] < LEVEL_PRIORITY[LOGGER_CONFIG.LEVEL]) return;
+
+  const correlationId = getCorrelationId();
+  const fields = redactSensitiveData(normalizeData({ ...bindings, ...data })) as LogContext;
+
+  const timestamp = new Date().toISOString();
+  const text = redactText(message);
+  const context = { ...(correlationId && { correlationId }), ...fields };
+
+  let line: string;
+  if (LOGGER_CONFIG.FORMAT === 'pretty') {
+    const details = Object.keys(context).length > 0 ? ` ${JSON.stringify(context)}` : '';
+    line = `${timestamp} ${level.toUpperCase().padEnd(5)} [${scope}] ${text}${details}`;
+  } else {
+    try {
+      line = JSON.stringify({ timestamp, level, scope, message: text, ...context });
+    } catch {
+      line = JSON.stringify({ timestamp, level, scope, message: text, correlationId, data: '[UNSERIALIZABLE]' });
+    }
+  }
+
+  console[level](line);
+}
+
+/**
+ * Create a logger for a module or route
+ *
+ * @param scope - Short component name shown on every line, e.g. 'pretium-webhook'
+ * @param bindings - Fields added to every line, e.g. { requestId }
+ */
+export function createLogger(scope: string, bindings: LogContext = {}): Logger {
+  return {
+    debug: (message, data) => write('debug', scope, bindings, message, data),
+    info: (message, data) => write('info', scope, bindings, message, data),
+    warn: (message, data) => write('warn', scope, bindings, message, data),
+    error: (message, data) => write('error', scope, bindings, message, data),
+    child: (childBindings) => createLogger(scope, { ...bindings, ...childBindings }),
+  };
+}
@@ -1,5 +1,6 @@
 import jsPDF from 'jspdf';
 import QRCode from 'qrcode';
+import { getChainTxUrl } from '@/lib/pretium/chains';
 
 interface ReceiptData {
   transactionCode: string;
@@ -18,6 +19,8 @@ interface ReceiptData {
   date: string;
   walletAddress: string;
   txHash: string;
+  chain?: string; // Deposit chain for the explorer link, Base when unset
+  token?: string; // Stablecoin sent, USDC when unset
 }
 
 /**
@@ -112,7 +115,7 @@ export async function generateModernReceipt(data: ReceiptData): Promise<Blob> {
 
   // QR Code - Centered
   try {
-    const qrData = `https://basescan.org/tx/${data.txHash}`;
+    const qrData = getChainTxUrl(data.chain, data.txHash);
     const qrCodeDataUrl = await QRCode.toDataURL(qrData, {
       width: 400,
       margin: 1,
@@ -164,8 +167,9 @@ export async function generateModernReceipt(data: ReceiptData): Promise<Blob> {
     y += lineHeight;
   };
 
-  row('Amount sent', `$${data.usdcAmount.toFixed(2)} USDC`);
-  row('Exchange rate', `1 USDC = ${data.exchangeRate.toFixed(2)} ${data.currency}`);
+  const token = data.token || 'USDC';
+  row('Amount sent', `$${data.usdcAmount.toFixed(2)} ${token}`);
+  row('Exchange rate', `1 ${token} = ${data.exchangeRate.toFixed(2)} ${data.currency}`);
   row('Fee', `${data.currency} ${data.fee.toFixed(2)}`);
   row('Total received', `${data.currency} ${data.amount.toLocaleString()}`, true); // Highlight total
 
@@ -0,0 +1,21 @@
+// Notification Preferences Errors
+
+export type NotificationPreferencesErrorCode = 'INVALID_REQUEST';
+
+/**
+ * Error raised by the notification preferences service. Routes turn it into `{ error, code }` with `statusCode`
+ */
+export class NotificationPreferencesError extends Error {
+  constructor(
+    message: string,
+    public readonly code: NotificationPreferencesErrorCode,
+    public readonly statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'NotificationPreferencesError';
+  }
+
+  toResponseBody(): Record<string, unknown> {
+    return { error: this.message, code: this.code };
+  }
+}
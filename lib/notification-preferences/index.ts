@@ -0,0 +1,17 @@
+/**
+ * Notification Preferences Module Exports
+ * Categories, channels, quiet hours and language per user, checked before sending
+ */
+
+export {
+  NOTIFICATION_PREFERENCES_CONFIG,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  canNotify,
+  filterNotifiableFids,
+  getMutedFids,
+} from './preferences-service';
+export type { NotificationTarget } from './preferences-service';
+
+export { NotificationPreferencesError } from './errors';
+export type { NotificationPreferencesErrorCode } from './errors';
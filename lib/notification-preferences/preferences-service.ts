@@ -0,0 +1,316 @@
+// Notification Preferences Service
+// Users choose which categories of notification they get on which channels,
+// plus a quiet-hours window and a language. Senders check canNotify (or the FID
+// filters, for bulk sends) before sending anything; users who never saved
+// preferences get the defaults below.
+//
+// Quiet hours hold back Farcaster and email notifications except order status,
+// which is about money already in flight.
+import { DatabaseService, type NotificationPreferencesRecord } from '@/lib/supabase/config';
+import { parseRecipientOwner, RecipientError } from '@/lib/recipients';
+import { createLogger } from '@/lib/logger';
+import type {
+  NotificationCategory,
+  NotificationChannel,
+  NotificationLanguage,
+  NotificationPreferences,
+  QuietHours,
+} from '@/lib/types/notification';
+import { NotificationPreferencesError } from './errors';
+
+const logger = createLogger('notification-preferences');
+
+export const NOTIFICATION_PREFERENCES_CONFIG = {
+  CATEGORIES: ['order_status', 'rate_alerts', 'marketing', 'weekly_summary'] as NotificationCategory[],
+  CHANNELS: ['farcaster', 'email', 'in_app'] as NotificationChannel[],
+  LANGUAGES: ['en', 'sw', 'fr'] as NotificationLanguage[],
+  DEFAULT_TIME_ZONE: 'Africa/Nairobi',
+  DEFAULT_LANGUAGE: 'en' as NotificationLanguage,
+  // Everything on except marketing and summaries by email
+  DEFAULT_CHANNELS: {
+    order_status: { farcaster: true, email: true, in_app: true },
+    rate_alerts: { farcaster: true, email: true, in_app: true },
+    marketing: { farcaster: true, email: false, in_app: true },
+    weekly_summary: { farcaster: true, email: false, in_app: true },
+  } as NotificationPreferences['channels'],
+};
+
+// In-app messages are only seen while the app is open, so quiet hours leave them be
+const QUIET_HOURS_CHANNELS: NotificationChannel[] = ['farcaster', 'email'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Who a notification is for. owner is preferred when both are known
+export interface NotificationTarget {
+  owner?: string; // Wallet address (lowercased) or Privy user ID
+  fid?: number;
+}
+
+/**
+ * @throws NotificationPreferencesError INVALID_REQUEST unless it is a wallet address or Privy user ID
+ */
+function parseOwner(value: unknown): string {
+  try {
+    return parseRecipientOwner(value);
+  } catch (error) {
+    if (error instanceof RecipientError) throw new NotificationPreferencesError(error.message, 'INVALID_REQUEST');
+    throw error;
+  }
+}
+
+function defaultChannels(): NotificationPreferences['channels'] {
+  const { CATEGORIES, DEFAULT_CHANNELS } = NOTIFICATION_PREFERENCES_CONFIG;
+  return Object.fromEntries(
+    CATEGORIES.map((category) => [category, { ...DEFAULT_CHANNELS[category] }])
+  ) as NotificationPreferences['channels'];
+}
+
+function toNotificationPreferences(record: NotificationPreferencesRecord | null): NotificationPreferences {
+  const channels = defaultChannels();
+  if (!record) {
+    return {
+      channels,
+      quietHours: null,
+      timeZone: NOTIFICATION_PREFERENCES_CONFIG.DEFAULT_TIME_ZONE,
+      language: NOTIFICATION_PREFERENCES_CONFIG.DEFAULT_LANGUAGE,
+    };
+  }
+
+  // Merged over the defaults, so categories and channels added later start at theirs
+  for (const category of NOTIFICATION_PREFERENCES_CONFIG.CATEGORIES) {
+    Object.assign(channels[category], record.channels?.[category]);
+  }
+
+  return {
+    channels,
+    quietHours: record.quiet_hours_start && record.quiet_hours_end
+      ? { start: record.quiet_hours_start, end: record.quiet_hours_end }
+      : null,
+    timeZone: record.time_zone,
+    language: record.language,
+    fid: record.fid ? Number(record.fid) : undefined,
+    updatedAt: record.updated_at,
+  };
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseQuietHours(value: unknown): QuietHours | null {
+  if (value === null) return null;
+
+  const { start, end } = (value || {}) as Record<string, unknown>;
+  if (typeof start !== 'string' || typeof end !== 'string' || !TIME_PATTERN.test(start) || !TIME_PATTERN.test(end)) {
+    throw new NotificationPreferencesError('quietHours needs start and end as HH:MM', 'INVALID_REQUEST');
+  }
+  if (start === end) {
+    throw new NotificationPreferencesError('quietHours start and end must differ', 'INVALID_REQUEST');
+  }
+  return { start, end };
+}
+
+/**
+ * Validate preferences from the client over the current ones
+ *
+ * @throws NotificationPreferencesError INVALID_REQUEST
+ */
+function applyInput(current: NotificationPreferences, input: unknown): NotificationPreferences {
+  if (!input || typeof input !== 'object') {
+    throw new NotificationPreferencesError('preferences are required', 'INVALID_REQUEST');
+  }
+
+  const { CATEGORIES, CHANNELS, LANGUAGES } = NOTIFICATION_PREFERENCES_CONFIG;
+  const { channels, quietHours, timeZone, language } = input as Record<string, unknown>;
+  const next: NotificationPreferences = { ...current, channels: defaultChannels() };
+  for (const category of CATEGORIES) Object.assign(next.channels[category], current.channels[category]);
+
+  if (channels !== undefined) {
+    if (!channels || typeof channels !== 'object') {
+      throw new NotificationPreferencesError('channels must be an object', 'INVALID_REQUEST');
+    }
+    for (const [category, settings] of Object.entries(channels)) {
+      if (!CATEGORIES.includes(category as NotificationCategory)) {
+        throw new NotificationPreferencesError(`category must be one of ${CATEGORIES.join(', ')}`, 'INVALID_REQUEST');
+      }
+      for (const [channel, enabled] of Object.entries((settings || {}) as Record<string, unknown>)) {
+        if (!CHANNELS.includes(channel as NotificationChannel) || typeof enabled !== 'boolean') {
+          throw new NotificationPreferencesError(
+            `channels.${category} maps ${CHANNELS.join(', ')} to true or false`,
+            'INVALID_REQUEST'
+          );
+        }
+        next.channels[category as NotificationCategory][channel as NotificationChannel] = enabled;
+      }
+    }
+  }
+
+  if (quietHours !== undefined) next.quietHours = parseQuietHours(quietHours);
+
+  if (timeZone !== undefined) {
+    if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+      throw new NotificationPreferencesError('timeZone must be an IANA time zone', 'INVALID_REQUEST');
+    }
+    next.timeZone = timeZone;
+  }
+
+  if (language !== undefined) {
+    if (!LANGUAGES.includes(language as NotificationLanguage)) {
+      throw new NotificationPreferencesError(`language must be one of ${LANGUAGES.join(', ')}`, 'INVALID_REQUEST');
+    }
+    next.language = language as NotificationLanguage;
+  }
+
+  return next;
+}
+
+/**
+ * The owner's preferences, or the defaults when they never saved any
+ */
+export async function getNotificationPreferences(owner: unknown): Promise<NotificationPreferences> {
+  return toNotificationPreferences(await DatabaseService.getNotificationPreferences(parseOwner(owner)));
+}
+
+/**
+ * Save the owner's preferences. Fields left out of the input keep their value.
+ * The FID is only linked from a verified Farcaster token, never from the input
+ */
+export async function updateNotificationPreferences(
+  owner: unknown,
+  input: unknown,
+  verifiedFid: number | null = null
+): Promise<NotificationPreferences> {
+  const ownerId = parseOwner(owner);
+  const current = toNotificationPreferences(await DatabaseService.getNotificationPreferences(ownerId));
+  const next = applyInput(current, input);
+  if (verifiedFid) next.fid = verifiedFid;
+
+  const record = await DatabaseService.upsertNotificationPreferences({
+    owner_id: ownerId,
+    fid: next.fid ?? null,
+    channels: next.channels,
+    quiet_hours_start: next.quietHours?.start ?? null,
+    quiet_hours_end: next.quietHours?.end ?? null,
+    time_zone: next.timeZone,
+    language: next.language,
+  });
+
+  await DatabaseService.logAnalyticsEvent('notification_preferences_updated', ownerId, {
+    quiet_hours: Boolean(next.quietHours),
+    language: next.language,
+  });
+
+  return toNotificationPreferences(record);
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function isQuietTime(preferences: NotificationPreferences, now: Date): boolean {
+  if (!preferences.quietHours) return false;
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: preferences.timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const current = Number(parts.find((p) => p.type === 'hour')?.value) * 60
+    + Number(parts.find((p) => p.type === 'minute')?.value);
+
+  const start = toMinutes(preferences.quietHours.start);
+  const end = toMinutes(preferences.quietHours.end);
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+function isAllowed(
+  preferences: NotificationPreferences,
+  category: NotificationCategory,
+  channel: NotificationChannel,
+  now: Date
+): boolean {
+  if (!preferences.channels[category][channel]) return false;
+  if (category === 'order_status' || !QUIET_HOURS_CHANNELS.includes(channel)) return true;
+  return !isQuietTime(preferences, now);
+}
+
+// Newest first in each list, so the latest save wins for an FID under several owners
+function latestByFid(records: NotificationPreferencesRecord[]): Map<number, NotificationPreferencesRecord> {
+  const byFid = new Map<number, NotificationPreferencesRecord>();
+  for (const record of records) {
+    const fid = Number(record.fid);
+    if (fid && !byFid.has(fid)) byFid.set(fid, record);
+  }
+  return byFid;
+}
+
+async function findPreferences(target: NotificationTarget): Promise<NotificationPreferencesRecord | null> {
+  if (target.owner) return DatabaseService.getNotificationPreferences(target.owner);
+  if (target.fid) return latestByFid(await DatabaseService.getNotificationPreferencesByFids([target.fid])).get(target.fid) ?? null;
+  return null;
+}
+
+/**
+ * Whether a notification in the category may go out on the channel now.
+ * Never throws - when the preferences can't be read only order status gets through
+ */
+export async function canNotify(
+  target: NotificationTarget,
+  category: NotificationCategory,
+  channel: NotificationChannel,
+  now = new Date()
+): Promise<boolean> {
+  try {
+    return isAllowed(toNotificationPreferences(await findPreferences(target)), category, channel, now);
+  } catch (error) {
+    logger.warn('Failed to read notification preferences', { ...target, category, channel, error });
+    return category === 'order_status';
+  }
+}
+
+/**
+ * The FIDs a notification in the category may go out to on the channel now.
+ * Never throws - when the preferences can't be read only order status gets through
+ */
+export async function filterNotifiableFids(
+  fids: number[],
+  category: NotificationCategory,
+  channel: NotificationChannel,
+  now = new Date()
+): Promise<number[]> {
+  if (fids.length === 0) return [];
+
+  try {
+    const byFid = latestByFid(await DatabaseService.getNotificationPreferencesByFids([...new Set(fids)]));
+    return fids.filter((fid) => isAllowed(toNotificationPreferences(byFid.get(fid) ?? null), category, channel, now));
+  } catch (error) {
+    logger.warn('Failed to read notification preferences', { fids: fids.length, category, channel, error });
+    return category === 'order_status' ? fids : [];
+  }
+}
+
+/**
+ * FIDs that must not get a notification in the category on the channel now -
+ * the exclusion list for broadcasts that reach every user
+ *
+ * @throws when the preferences can't be read - a broadcast must not reach users who opted out
+ */
+export async function getMutedFids(
+  category: NotificationCategory,
+  channel: NotificationChannel,
+  now = new Date()
+): Promise<number[]> {
+  const records = (await DatabaseService.getFarcasterNotificationPreferences())
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+
+  return [...latestByFid(records)]
+    .filter(([, record]) => !isAllowed(toNotificationPreferences(record), category, channel, now))
+    .map(([fid]) => fid);
+}
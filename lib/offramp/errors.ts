@@ -0,0 +1,45 @@
+// Off-ramp Errors
+
+export type OfframpErrorCode =
+  | 'INVALID_REQUEST'
+  | 'UNSUPPORTED_ROUTE'
+  | 'INSUFFICIENT_FUNDS'
+  | 'DEPOSIT_NOT_VERIFIED'
+  | 'DEPOSIT_REQUIRED'
+  | 'NO_PROVIDER_AVAILABLE'
+  | 'PROVIDER_ERROR'
+  | 'UNAUTHORIZED'
+  | 'QUOTE_REQUIRED'
+  | 'QUOTE_INVALID'
+  | 'QUOTE_MISMATCH'
+  | 'QUOTE_EXPIRED'
+  | 'QUOTE_ALREADY_USED'
+  | 'RATE_NOT_ACCEPTED'
+  | 'LIMIT_EXCEEDED'
+  | 'UNDER_REVIEW';
+
+/**
+ * Error raised by providers and the router. Routes turn it into
+ * `{ error, code, details, ...extra }` with `statusCode`
+ */
+export class OfframpError extends Error {
+  constructor(
+    message: string,
+    public readonly code: OfframpErrorCode,
+    public readonly statusCode: number = 400,
+    public readonly details?: unknown,
+    public readonly extra?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'OfframpError';
+  }
+
+  toResponseBody(): Record<string, unknown> {
+    return {
+      error: this.message,
+      code: this.code,
+      ...(this.details !== undefined && { details: this.details }),
+      ...this.extra,
+    };
+  }
+}
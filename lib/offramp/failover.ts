@@ -0,0 +1,244 @@
+// Off-ramp Failover
+// Re-routes a failed Pretium disbursement through Paycrest, or opens a refund case
+import { DatabaseService, type PretiumOrder } from '@/lib/supabase/config';
+import { paycrestClient } from '@/lib/paycrest/client';
+import { PAYCREST_CONFIG } from '@/lib/paycrest/config';
+import { withdrawUSDC } from '@/lib/blockradar/withdraw';
+import { openPretiumRefund } from '@/lib/refunds/refund-service';
+import { createLogger } from '@/lib/logger';
+import { paycrestProvider } from './providers/paycrest';
+import { createOfframpPayout, getEligibleProviders, isProviderHealthy } from './router';
+import type { OfframpPaymentType, OfframpRecipient } from './types';
+
+const logger = createLogger('offramp-failover');
+
+export const FAILOVER_CONFIG = {
+  ENABLED: process.env.OFFRAMP_FAILOVER_ENABLED !== 'false',
+  // Blockradar child address that fronts the USDC for re-routed payouts.
+  // The failed Pretium deposit is reclaimed from Pretium separately.
+  TREASURY_ADDRESS_ID: process.env.OFFRAMP_FAILOVER_ADDRESS_ID,
+};
+
+// Corridors where Paycrest can take over a failed Pretium payout
+const FAILOVER_CORRIDORS: { currency: string; paymentType: OfframpPaymentType }[] = [
+  { currency: 'KES', paymentType: 'MOBILE' },
+  { currency: 'NGN', paymentType: 'BANK_TRANSFER' },
+];
+
+export type FailoverOutcome =
+  | { action: 'rerouted'; paycrestOrderId: string; fundingTxHash?: string }
+  | { action: 'refund_opened'; refundId: string; reason: string }
+  | { action: 'skipped'; reason: string };
+
+function normalizeBankName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\b(bank|plc|limited|ltd|nigeria|of)\b/g, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Pretium and Paycrest use different bank codes - match on code first, then on bank name
+ */
+async function findPaycrestBankCode(bankCode?: string, bankName?: string): Promise<string | null> {
+  const institutions = await paycrestClient.getInstitutions('NGN');
+  const banks = institutions.filter((institution) => institution.type !== 'mobile_money');
+
+  const byCode = bankCode && banks.find((bank) => bank.code === bankCode);
+  if (byCode) return byCode.code;
+
+  if (!bankName) return null;
+  const target = normalizeBankName(bankName);
+  const byName = banks.find((bank) => normalizeBankName(bank.name) === target);
+  return byName?.code || null;
+}
+
+/**
+ * Why this order cannot be re-routed, or null when Paycrest can take it
+ */
+function getFailoverBlocker(order: PretiumOrder): string | null {
+  if (!FAILOVER_CONFIG.ENABLED) return 'Failover disabled';
+
+  const corridorSupported = FAILOVER_CORRIDORS.some(
+    (corridor) => corridor.currency === order.local_currency && corridor.paymentType === order.payment_type
+  );
+  if (!corridorSupported) {
+    return `No alternate rail for ${order.local_currency} ${order.payment_type}`;
+  }
+
+  const paycrestAvailable = getEligibleProviders(order.local_currency, order.payment_type)
+    .some((provider) => provider.id === 'paycrest');
+  if (!paycrestAvailable || !isProviderHealthy('paycrest')) {
+    return 'PayCrest is unavailable';
+  }
+
+  if (!FAILOVER_CONFIG.TREASURY_ADDRESS_ID) {
+    return 'Failover treasury address not configured';
+  }
+
+  return null;
+}
+
+async function openRefundCase(
+  order: PretiumOrder,
+  reason: string,
+  paycrestOrderId?: string
+): Promise<FailoverOutcome> {
+  const refund = await openPretiumRefund(order, reason, { paycrestOrderId, source: 'failover' });
+  return { action: 'refund_opened', refundId: refund.id, reason };
+}
+
+/**
+ * Recover a Pretium disbursement that ended as FAILED.
+ *
+ * The user's USDC is already at Pretium's settlement address, so the Paycrest
+ * order is funded from the failover treasury and returns to the user's wallet
+ * if Paycrest refunds it. The failover is claimed on the order first, so
+ * concurrent or repeated calls re-route it at most once.
+ */
+export async function failoverPretiumPayout(order: PretiumOrder, failureMessage?: string): Promise<FailoverOutcome> {
+  const transactionCode = order.transaction_code;
+
+  if (order.status !== 'failed') {
+    return { action: 'skipped', reason: `Order is ${order.status}, not failed` };
+  }
+
+  if (order.failover_order_id) {
+    return { action: 'skipped', reason: `Already re-routed to ${order.failover_order_id}` };
+  }
+
+  if (!(await DatabaseService.claimPretiumFailover(transactionCode))) {
+    return { action: 'skipped', reason: 'Failover already claimed by another delivery' };
+  }
+
+  const claim = { rerouted: false };
+  try {
+    return await reroutePayout(order, claim, failureMessage);
+  } finally {
+    // Nothing was re-routed - release the claim so a later call can try again.
+    // A refund case opened meanwhile stops that call before it re-routes
+    if (!claim.rerouted) {
+      await DatabaseService.releasePretiumFailover(transactionCode).catch((error) => {
+        logger.error('Failed to release failover claim', { transaction_code: transactionCode, error });
+      });
+    }
+  }
+}
+
+async function reroutePayout(
+  order: PretiumOrder,
+  claim: { rerouted: boolean },
+  failureMessage?: string
+): Promise<FailoverOutcome> {
+  const transactionCode = order.transaction_code;
+
+  const existingRefund = await DatabaseService.getRefundByPretiumTransactionCode(transactionCode);
+  if (existingRefund) {
+    return { action: 'skipped', reason: `Refund case ${existingRefund.id} already open` };
+  }
+
+  const blocker = getFailoverBlocker(order);
+  if (blocker) {
+    return openRefundCase(order, blocker);
+  }
+
+  const recipient: OfframpRecipient = { accountName: order.account_name };
+
+  if (order.local_currency === 'NGN') {
+    const bankCode = await findPaycrestBankCode(order.bank_code, order.bank_name).catch(() => null);
+    if (!bankCode) {
+      return openRefundCase(order, `PayCrest does not support bank ${order.bank_name || order.bank_code}`);
+    }
+    recipient.accountNumber = order.account_number;
+    recipient.bankCode = bankCode;
+  } else {
+    recipient.phoneNumber = order.phone_number;
+  }
+
+  // Deliver the same local amount the recipient was promised
+  const amountInLocal = Number(order.amount_in_local);
+  const rate = await paycrestClient.getRate(PAYCREST_CONFIG.TOKEN, Number(order.amount_in_usdc), order.local_currency);
+  const amountUSDC = Math.ceil((amountInLocal / rate) * 100) / 100;
+
+  let payout;
+  try {
+    payout = await createOfframpPayout(paycrestProvider, {
+      requestId: `failover_${transactionCode}`,
+      correlationId: order.correlation_id, // The re-routed payout stays on the original payment's timeline
+      currency: order.local_currency,
+      amountUSDC,
+      rate,
+      recipient,
+      returnAddress: order.wallet_address,
+      fundingSource: 'treasury',
+      fid: order.fid,
+    });
+  } catch (error) {
+    const reason = `PayCrest order failed: ${error instanceof Error ? error.message : 'unknown error'}`;
+    return openRefundCase(order, reason);
+  }
+  // A PayCrest order exists now - the claim stays even if a step below fails
+  claim.rerouted = true;
+
+  await DatabaseService.linkFailoverOrder(transactionCode, payout.orderId);
+
+  await DatabaseService.logOrderStatusHistory({
+    provider: 'pretium',
+    orderId: order.id,
+    providerOrderId: transactionCode,
+    event: 'failover',
+    oldStatus: order.status,
+    newStatus: 'failed',
+    providerStatus: order.pretium_status,
+    reason: failureMessage || 'Pretium disbursement failed',
+    details: {
+      paycrest_order_id: payout.orderId,
+      amount_usdc: amountUSDC,
+      amount_local: amountInLocal,
+      rate,
+    },
+  });
+
+  await DatabaseService.logOrderStatusHistory({
+    provider: 'paycrest',
+    providerOrderId: payout.orderId,
+    event: 'failover',
+    newStatus: payout.status,
+    providerStatus: payout.providerStatus,
+    reason: `Re-routed from Pretium ${transactionCode}`,
+    details: { pretium_transaction_code: transactionCode },
+  });
+
+  // Fund the Paycrest order from the treasury
+  let fundingTxHash: string | undefined;
+  try {
+    const withdrawal = await withdrawUSDC({
+      addressId: FAILOVER_CONFIG.TREASURY_ADDRESS_ID!,
+      recipientAddress: payout.depositAddress!,
+      amount: payout.depositAmount ?? amountUSDC,
+      reference: `failover_${transactionCode}`,
+      note: `Failover for Pretium ${transactionCode}`,
+      metadata: { pretium_transaction_code: transactionCode, paycrest_order_id: payout.orderId },
+    });
+    fundingTxHash = withdrawal.hash;
+  } catch (error) {
+    const reason = `Failover funding failed: ${error instanceof Error ? error.message : 'unknown error'}`;
+    return openRefundCase(order, reason, payout.orderId);
+  }
+
+  await DatabaseService.logAnalyticsEvent('pretium_payout_failover', order.wallet_address, {
+    transaction_code: transactionCode,
+    paycrest_order_id: payout.orderId,
+    funding_tx_hash: fundingTxHash,
+    currency: order.local_currency,
+    amount_usdc: amountUSDC,
+  });
+
+  logger.info('Payout re-routed to PayCrest', {
+    transaction_code: transactionCode,
+    paycrest_order_id: payout.orderId,
+    funding_tx_hash: fundingTxHash,
+  });
+
+  return { action: 'rerouted', paycrestOrderId: payout.orderId, fundingTxHash };
+}
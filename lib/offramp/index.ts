@@ -0,0 +1,93 @@
+/**
+ * Off-ramp Module Exports
+ * Provider-agnostic payout rails behind one interface
+ */
+
+// Providers
+export { pretiumProvider, getUSDCForLocalAmount } from './providers/pretium';
+export { paycrestProvider } from './providers/paycrest';
+
+// Routing
+export {
+  routeOfframp,
+  createOfframpPayout,
+  getOfframpProvider,
+  getEligibleProviders,
+  isProviderHealthy,
+  markProviderUnhealthy,
+  OFFRAMP_ROUTER_CONFIG,
+} from './router';
+export type { OfframpRoute, RankedOfframpQuote } from './router';
+
+// Failover
+export { failoverPretiumPayout, FAILOVER_CONFIG } from './failover';
+export type { FailoverOutcome } from './failover';
+
+// Locked quotes
+export {
+  lockQuote,
+  issueQuote,
+  getQuote,
+  getQuoteProvider,
+  redeemQuote,
+  rejectClientRate,
+  createQuotedPayout,
+  QUOTE_CONFIG,
+} from './quotes';
+export type { RedeemQuoteParams } from './quotes';
+
+// Transaction limits
+export {
+  checkTransactionLimits,
+  enforceTransactionLimits,
+  createLimitError,
+  getTransactionLimitSettings,
+  saveTransactionLimitSettings,
+  parseTransactionLimitSettings,
+  getRecipientKey,
+  DEFAULT_TRANSACTION_LIMITS,
+  LIMITS_CONFIG,
+} from './limits';
+export type { TransactionLimitCheck } from './limits';
+
+// Risk reviews
+export { screenPayout, holdPayoutForReview, approvePayoutReview, rejectPayoutReview } from './reviews';
+
+// Reconciliation
+export { reconcileStuckOrders, getOrderSlaMinutes, RECONCILER_CONFIG } from './reconciler';
+export type { ReconcileAction, ReconcileResult, ReconcileSummary } from './reconciler';
+
+// Order state machine
+export {
+  canTransition,
+  evaluateTransition,
+  getAllowedSourceStatuses,
+  isKnownStatus,
+  isTerminalStatus,
+  mapPretiumStatus,
+  mapPaycrestStatus,
+} from './order-state';
+export type { OrderKind, PretiumOrderStatus, PaycrestOrderStatus } from './order-state';
+
+// Errors & helpers
+export { OfframpError } from './errors';
+export type { OfframpErrorCode } from './errors';
+export { resolvePaymentType, parseOptionalNumber } from './utils';
+
+// Types
+export type {
+  OfframpProviderId,
+  OfframpPaymentType,
+  OfframpFundingModel,
+  OfframpStatus,
+  OfframpRecipient,
+  OfframpQuoteRequest,
+  OfframpQuote,
+  OfframpLockedQuote,
+  OfframpPayoutRequest,
+  OfframpPayoutResult,
+  OfframpStatusResult,
+  OfframpWebhookRequest,
+  OfframpWebhookEvent,
+  OfframpProvider,
+} from './types';
@@ -0,0 +1,296 @@
+// Off-ramp Transaction Limits
+// Every payout is checked against per-currency amount bounds, per-wallet daily and
+// monthly USDC caps, a cap on new recipients per day and a recipient velocity rule
+// before the order is created. Thresholds are edited from the dashboard.
+import { DatabaseService, type WalletPayoutRecord } from '@/lib/supabase/config';
+import { createLogger, getCorrelationId } from '@/lib/logger';
+import type { LimitViolation, TransactionLimitSettings } from '@/lib/types/limits';
+import { OfframpError } from './errors';
+import type { OfframpRecipient } from './types';
+
+const logger = createLogger('offramp-limits');
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export const LIMITS_CONFIG = {
+  // Dashboard changes reach every instance within this long
+  SETTINGS_CACHE_MS: 60 * 1000,
+
+  DAILY_WINDOW_MS: DAY,
+  MONTHLY_WINDOW_MS: 30 * DAY,
+
+  // A recipient is "new" when the wallet has not paid them within this lookback
+  RECIPIENT_HISTORY_MS: 90 * DAY,
+};
+
+export const DEFAULT_TRANSACTION_LIMITS: TransactionLimitSettings = {
+  enabled: true,
+  perTransaction: {
+    KES: { min: 0.5, max: 1000 },
+    NGN: { min: 1, max: 1000 },
+    GHS: { min: 0.5, max: 1000 },
+    UGX: { min: 0.5, max: 1000 },
+  },
+  dailyUsdcPerWallet: 2000,
+  monthlyUsdcPerWallet: 10000,
+  newRecipientsPerDay: 5,
+  velocity: {
+    maxDistinctRecipients: 5,
+    windowMinutes: 60,
+  },
+};
+
+export interface TransactionLimitCheck {
+  walletAddress?: string;
+  currency: string;
+  amountUSDC: number;
+  recipient?: Partial<OfframpRecipient>;
+  pendingUSDC?: number; // Committed but not yet in the payout history (the rest of a batch)
+}
+
+let settingsCache: { settings: TransactionLimitSettings; timestamp: number } | null = null;
+
+/**
+ * Stored settings over the defaults, so rules added later start at their default
+ */
+function withDefaults(stored: Partial<TransactionLimitSettings>): TransactionLimitSettings {
+  return {
+    ...DEFAULT_TRANSACTION_LIMITS,
+    ...stored,
+    perTransaction: { ...DEFAULT_TRANSACTION_LIMITS.perTransaction, ...stored.perTransaction },
+    velocity: { ...DEFAULT_TRANSACTION_LIMITS.velocity, ...stored.velocity },
+  };
+}
+
+export async function getTransactionLimitSettings(): Promise<TransactionLimitSettings> {
+  if (settingsCache && Date.now() - settingsCache.timestamp < LIMITS_CONFIG.SETTINGS_CACHE_MS) {
+    return settingsCache.settings;
+  }
+
+  try {
+    const record = await DatabaseService.getTransactionLimitSettings();
+    const settings = withDefaults(record?.settings || {});
+    settingsCache = { settings, timestamp: Date.now() };
+    return settings;
+  } catch (error) {
+    // Keep enforcing the last known thresholds rather than none
+    logger.error('Failed to load transaction limit settings', { error });
+    return settingsCache?.settings || DEFAULT_TRANSACTION_LIMITS;
+  }
+}
+
+/**
+ * Save settings from the dashboard and apply them on this instance immediately
+ */
+export async function saveTransactionLimitSettings(settings: TransactionLimitSettings, updatedBy: string) {
+  const record = await DatabaseService.saveTransactionLimitSettings(settings, updatedBy);
+  settingsCache = { settings: withDefaults(record.settings), timestamp: Date.now() };
+  return record;
+}
+
+function parseLimit(value: unknown, field: string): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  if (isNaN(parsed) || parsed < 0) {
+    throw new OfframpError(`${field} must be a non-negative number or empty`, 'INVALID_REQUEST');
+  }
+  return parsed;
+}
+
+/**
+ * Validate settings submitted from the dashboard
+ *
+ * @throws OfframpError INVALID_REQUEST naming the offending field
+ */
+export function parseTransactionLimitSettings(input: unknown): TransactionLimitSettings {
+  if (!input || typeof input !== 'object') {
+    throw new OfframpError('settings are required', 'INVALID_REQUEST');
+  }
+  const body = input as Record<string, unknown>;
+
+  const perTransaction: TransactionLimitSettings['perTransaction'] = {};
+  for (const [currency, bounds] of Object.entries((body.perTransaction || {}) as Record<string, Record<string, unknown>>)) {
+    const min = parseLimit(bounds?.min, `${currency} minimum`);
+    const max = parseLimit(bounds?.max, `${currency} maximum`);
+    if (min !== null && max !== null && min > max) {
+      throw new OfframpError(`${currency} minimum cannot be above its maximum`, 'INVALID_REQUEST');
+    }
+    perTransaction[currency.toUpperCase()] = { min, max };
+  }
+
+  const velocity = (body.velocity || {}) as Record<string, unknown>;
+  const windowMinutes = parseLimit(velocity.windowMinutes, 'Velocity window');
+  if (!windowMinutes) {
+    throw new OfframpError('Velocity window must be at least 1 minute', 'INVALID_REQUEST');
+  }
+
+  return {
+    enabled: body.enabled !== false,
+    perTransaction,
+    dailyUsdcPerWallet: parseLimit(body.dailyUsdcPerWallet, 'Daily cap'),
+    monthlyUsdcPerWallet: parseLimit(body.monthlyUsdcPerWallet, 'Monthly cap'),
+    newRecipientsPerDay: parseLimit(body.newRecipientsPerDay, 'New recipients per day'),
+    velocity: {
+      maxDistinctRecipients: parseLimit(velocity.maxDistinctRecipients, 'Distinct recipients'),
+      windowMinutes,
+    },
+  };
+}
+
+/**
+ * Stable identity for a payout destination, so 0712345678 and 254712345678 match
+ */
+export function getRecipientKey(recipient: Partial<OfframpRecipient>): string | null {
+  const digits = (value?: string) => (value || '').replace(/\D/g, '');
+
+  if (recipient.tillNumber) return `till:${digits(recipient.tillNumber)}`;
+  if (recipient.paybillNumber) {
+    return `paybill:${digits(recipient.paybillNumber)}:${(recipient.paybillAccount || '').trim().toLowerCase()}`;
+  }
+  if (recipient.accountNumber) return `bank:${recipient.bankCode || ''}:${digits(recipient.accountNumber)}`;
+  if (recipient.phoneNumber) return `phone:${digits(recipient.phoneNumber).slice(-9)}`;
+  return null;
+}
+
+function getRecordRecipientKey(record: WalletPayoutRecord): string | null {
+  return getRecipientKey({
+    phoneNumber: record.phone_number,
+    tillNumber: record.till_number,
+    paybillNumber: record.paybill_number,
+    paybillAccount: record.paybill_account,
+    accountNumber: record.account_number,
+    bankCode: record.bank_code,
+  });
+}
+
+function sumUSDC(records: WalletPayoutRecord[]): number {
+  return records.reduce((total, record) => total + Number(record.amount_in_usdc || 0), 0);
+}
+
+function roundUSDC(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function getLimitMessage(violation: LimitViolation): string {
+  switch (violation.rule) {
+    case 'below_minimum':
+      return `The minimum for ${violation.currency} is ${violation.limit} USDC per transaction`;
+    case 'above_maximum':
+      return `The maximum for ${violation.currency} is ${violation.limit} USDC per transaction`;
+    case 'daily_cap':
+      return `This would exceed your daily limit of ${violation.limit} USDC (${violation.remaining} USDC left today)`;
+    case 'monthly_cap':
+      return `This would exceed your 30-day limit of ${violation.limit} USDC (${violation.remaining} USDC left)`;
+    case 'new_recipients_per_day':
+      return `You can send to ${violation.limit} new recipients per day`;
+    case 'recipient_velocity':
+      return `Too many different recipients in a short time - you can pay ${violation.limit} recipients every ${violation.windowMinutes} minutes`;
+  }
+}
+
+/**
+ * LIMIT_EXCEEDED (403) carrying the violated rule under `limit`
+ */
+export function createLimitError(violation: LimitViolation): OfframpError {
+  return new OfframpError(getLimitMessage(violation), 'LIMIT_EXCEEDED', 403, undefined, { limit: violation });
+}
+
+/**
+ * The first rule a payout would break, or null when it is within every limit
+ */
+export async function checkTransactionLimits(check: TransactionLimitCheck): Promise<LimitViolation | null> {
+  const settings = await getTransactionLimitSettings();
+  if (!settings.enabled) return null;
+
+  const currency = check.currency.toUpperCase();
+  const amount = check.amountUSDC;
+
+  const bounds = settings.perTransaction[currency];
+  if (bounds && bounds.min !== null && amount < bounds.min) {
+    return { rule: 'below_minimum', limit: bounds.min, currency };
+  }
+  if (bounds && bounds.max !== null && amount > bounds.max) {
+    return { rule: 'above_maximum', limit: bounds.max, currency };
+  }
+
+  // Wallet and recipient rules need to know who is paying
+  if (!check.walletAddress) return null;
+
+  const now = Date.now();
+  const history = await DatabaseService.getWalletPayoutHistory(
+    check.walletAddress,
+    new Date(now - LIMITS_CONFIG.RECIPIENT_HISTORY_MS).toISOString()
+  );
+  const since = (windowMs: number) => history.filter((record) => new Date(record.created_at).getTime() > now - windowMs);
+
+  const caps: { rule: 'daily_cap' | 'monthly_cap'; limit: number | null; windowMs: number }[] = [
+    { rule: 'daily_cap', limit: settings.dailyUsdcPerWallet, windowMs: LIMITS_CONFIG.DAILY_WINDOW_MS },
+    { rule: 'monthly_cap', limit: settings.monthlyUsdcPerWallet, windowMs: LIMITS_CONFIG.MONTHLY_WINDOW_MS },
+  ];
+  for (const cap of caps) {
+    if (cap.limit === null) continue;
+    const used = roundUSDC(sumUSDC(since(cap.windowMs)) + (check.pendingUSDC || 0));
+    if (used + amount > cap.limit) {
+      return { rule: cap.rule, limit: cap.limit, used, remaining: roundUSDC(Math.max(0, cap.limit - used)) };
+    }
+  }
+
+  const recipientKey = check.recipient ? getRecipientKey(check.recipient) : null;
+  if (!recipientKey) return null;
+
+  // Earliest payout to each recipient within the lookback
+  const firstPaidAt = new Map<string, number>();
+  for (const record of history) {
+    const key = getRecordRecipientKey(record);
+    if (key) firstPaidAt.set(key, new Date(record.created_at).getTime()); // History is newest first
+  }
+
+  if (settings.newRecipientsPerDay !== null && !firstPaidAt.has(recipientKey)) {
+    const used = [...firstPaidAt.values()].filter((at) => at > now - LIMITS_CONFIG.DAILY_WINDOW_MS).length;
+    if (used >= settings.newRecipientsPerDay) {
+      return { rule: 'new_recipients_per_day', limit: settings.newRecipientsPerDay, used, remaining: 0 };
+    }
+  }
+
+  const { maxDistinctRecipients, windowMinutes } = settings.velocity;
+  if (maxDistinctRecipients !== null) {
+    const recent = new Set(
+      since(windowMinutes * MINUTE)
+        .map(getRecordRecipientKey)
+        .filter((key): key is string => key !== null)
+    );
+    if (!recent.has(recipientKey) && recent.size >= maxDistinctRecipients) {
+      return { rule: 'recipient_velocity', limit: maxDistinctRecipients, used: recent.size, remaining: 0, windowMinutes };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Reject a payout that breaks a limit and record the breach. Runs before the order is created
+ *
+ * @throws OfframpError LIMIT_EXCEEDED - see createLimitError
+ */
+export async function enforceTransactionLimits(check: TransactionLimitCheck): Promise<void> {
+  const violation = await checkTransactionLimits(check);
+  if (!violation) return;
+
+  logger.warn('Transaction limit exceeded', {
+    rule: violation.rule,
+    walletAddress: check.walletAddress,
+    currency: check.currency,
+    amountUSDC: check.amountUSDC,
+    limit: violation.limit,
+  });
+
+  await DatabaseService.logAnalyticsEvent('limit_exceeded', check.walletAddress, {
+    ...violation,
+    currency: check.currency,
+    amount_usdc: check.amountUSDC,
+    correlation_id: getCorrelationId(),
+  }).catch(() => undefined);
+
+  throw createLimitError(violation);
+}
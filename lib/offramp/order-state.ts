@@ -0,0 +1,144 @@
+// Order State Machine
+// Allowed status transitions for Pretium (pretium_orders) and PayCrest (orders) orders,
+// and the single mapping from provider statuses to ours.
+//
+// Every status write goes through DatabaseService.updatePretiumOrderStatus / updateOrderStatus,
+// which refuse transitions this module does not allow and log them to order_status_history.
+import type { Order, PretiumOrder } from '@/lib/supabase/config';
+import type { PretiumTransactionStatus } from '@/lib/pretium/types';
+
+export type OrderKind = 'pretium' | 'paycrest';
+
+export type PretiumOrderStatus = PretiumOrder['status'];
+export type PaycrestOrderStatus = Order['status'];
+
+const PRETIUM_TRANSITIONS: Record<PretiumOrderStatus, PretiumOrderStatus[]> = {
+  pending: ['processing', 'completed', 'failed', 'cancelled'],
+  processing: ['completed', 'failed', 'cancelled'],
+  completed: [],
+  failed: [],
+  cancelled: [],
+};
+
+const PAYCREST_TRANSITIONS: Partial<Record<PaycrestOrderStatus, PaycrestOrderStatus[]>> = {
+  pending: ['processing', 'completed', 'failed', 'cancelled', 'refunded', 'expired'],
+  processing: ['completed', 'failed', 'cancelled', 'refunded', 'expired'],
+  completed: [],
+  failed: [],
+  cancelled: [],
+  refunded: [],
+  expired: [],
+};
+
+// Statuses older rows were written with before the mapping was unified
+const PAYCREST_LEGACY_ALIASES: Partial<Record<PaycrestOrderStatus, PaycrestOrderStatus>> = {
+  validated: 'completed',
+  settled: 'completed',
+  fulfilled: 'completed',
+};
+
+function canonicalStatus(kind: OrderKind, status: string): string {
+  if (kind === 'paycrest') {
+    return PAYCREST_LEGACY_ALIASES[status as PaycrestOrderStatus] || status;
+  }
+  return status;
+}
+
+function getTransitions(kind: OrderKind): Record<string, string[] | undefined> {
+  return kind === 'pretium' ? PRETIUM_TRANSITIONS : PAYCREST_TRANSITIONS;
+}
+
+export function isKnownStatus(kind: OrderKind, status: string): boolean {
+  return canonicalStatus(kind, status) in getTransitions(kind);
+}
+
+export function isTerminalStatus(kind: OrderKind, status: string): boolean {
+  const next = getTransitions(kind)[canonicalStatus(kind, status)];
+  return !!next && next.length === 0;
+}
+
+/**
+ * Whether an order may move from one status to another.
+ * Re-applying the current status is allowed (e.g. PayCrest `validated` then `settled`)
+ */
+export function canTransition(kind: OrderKind, from: string, to: string): boolean {
+  const source = canonicalStatus(kind, from);
+  const target = canonicalStatus(kind, to);
+
+  if (!isKnownStatus(kind, target)) return false;
+  if (source === target) return true;
+
+  return getTransitions(kind)[source]?.includes(target) ?? false;
+}
+
+/**
+ * Every stored status an order may be in for a write of `to` to be allowed.
+ * Used to guard the UPDATE itself so a concurrent write can't slip past the check
+ */
+export function getAllowedSourceStatuses(kind: OrderKind, to: string): string[] {
+  const storedStatuses = [
+    ...Object.keys(getTransitions(kind)),
+    ...(kind === 'paycrest' ? Object.keys(PAYCREST_LEGACY_ALIASES) : []),
+  ];
+  return storedStatuses.filter((status) => canTransition(kind, status, to));
+}
+
+/**
+ * Decide what an incoming provider update means for an order:
+ * - apply: the status changes
+ * - noop: the order is already there (duplicate or reordered delivery)
+ * - reject: the transition is not allowed
+ */
+export function evaluateTransition(
+  kind: OrderKind,
+  from: string | undefined,
+  to: string
+): 'apply' | 'noop' | 'reject' {
+  if (!from) return isKnownStatus(kind, to) ? 'apply' : 'reject';
+  if (!canTransition(kind, from, to)) return 'reject';
+  return canonicalStatus(kind, from) === canonicalStatus(kind, to) ? 'noop' : 'apply';
+}
+
+/**
+ * Pretium transaction status → pretium_orders status
+ */
+export function mapPretiumStatus(status: PretiumTransactionStatus | string | undefined): PretiumOrderStatus | null {
+  switch (status?.toUpperCase()) {
+    case 'PENDING':
+      return 'pending';
+    case 'PROCESSING':
+      return 'processing';
+    case 'COMPLETE':
+    case 'COMPLETED':
+      return 'completed';
+    case 'FAILED':
+      return 'failed';
+    default:
+      return null;
+  }
+}
+
+/**
+ * PayCrest order status or webhook event name (`payment_order.validated`,
+ * `order.validated` or `validated`) → orders status
+ */
+export function mapPaycrestStatus(statusOrEvent: string | undefined): PaycrestOrderStatus | null {
+  const status = statusOrEvent?.replace(/^(payment_order|order)\./, '').toLowerCase();
+
+  switch (status) {
+    case 'initiated':
+      return 'pending'; // Created via API, awaiting deposit
+    case 'pending':
+    case 'processing':
+      return 'processing'; // Deposit received, awaiting provider
+    case 'validated': // Funds delivered to the recipient - success for the user
+    case 'settled': // Settled on-chain
+      return 'completed';
+    case 'refunded': // USDC returned to the sender
+    case 'expired': // No deposit within the time limit
+    case 'cancelled':
+      return 'failed';
+    default:
+      return null;
+  }
+}
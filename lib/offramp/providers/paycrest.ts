@@ -0,0 +1,425 @@
+// Paycrest Off-ramp Provider
+// Order-first rail: we create the order, then the user sends USDC (or USDT) to the returned receive address
+import { paycrestClient } from '@/lib/paycrest/client';
+import {
+  PAYCREST_CONFIG,
+  isPaycrestCurrencySupported,
+  getPaycrestMinimumAmount,
+} from '@/lib/paycrest/config';
+import { verifyPaycrestSignature, PAYCREST_SIGNATURE_HEADER } from '@/lib/paycrest/webhook-security';
+import { DatabaseService } from '@/lib/supabase/config';
+import { toPaycrestReference } from '@/lib/correlation';
+import { detectKenyanCarrier } from '@/lib/utils/phoneCarrier';
+import { formatTillNumber, formatPhoneNumber } from '@/lib/utils/tillValidator';
+import { validateWalletBalance } from '@/lib/blockchain/balanceValidation';
+import { estimatePaycrestFees } from '@/lib/utils/feeEstimation';
+import { OfframpError } from '../errors';
+import type { PaycrestApiError, PaycrestCreateOrderRequest, PaycrestWebhookEvent } from '@/lib/paycrest/types';
+import type { PretiumChain } from '@/lib/pretium/types';
+import { DEFAULT_TOKEN, type StablecoinToken } from '@/lib/contracts';
+import type {
+  OfframpPaymentType,
+  OfframpPayoutRequest,
+  OfframpPayoutResult,
+  OfframpProvider,
+  OfframpQuote,
+  OfframpQuoteRequest,
+  OfframpStatus,
+  OfframpStatusResult,
+  OfframpWebhookEvent,
+  OfframpWebhookRequest,
+} from '../types';
+
+const QUOTE_VALIDITY_MS = 5 * 60 * 1000;
+
+// Payment types Paycrest can route per currency (paybill is not supported)
+const SUPPORTED_PAYMENT_TYPES: Record<string, OfframpPaymentType[]> = {
+  KES: ['MOBILE', 'BUY_GOODS'],
+  NGN: ['BANK_TRANSFER'],
+};
+
+function toOfframpStatus(status: string): OfframpStatus {
+  switch (status) {
+    case 'validated':
+    case 'settled':
+      return 'completed';
+    case 'refunded':
+      return 'refunded';
+    case 'expired':
+      return 'expired';
+    case 'cancelled':
+      return 'failed';
+    case 'pending':
+    case 'processing':
+      return 'processing';
+    default:
+      return 'pending';
+  }
+}
+
+function isPaycrestApiError(error: unknown): error is PaycrestApiError {
+  return typeof error === 'object' && error !== null && 'status' in error && 'message' in error;
+}
+
+function insufficientFunds(
+  token: StablecoinToken,
+  totalRequired: number,
+  balanceInUSDC: number,
+  insufficientBy: number | undefined,
+  breakdown: Record<string, number>
+): OfframpError {
+  return new OfframpError(
+    'Insufficient funds',
+    'INSUFFICIENT_FUNDS',
+    400,
+    `Need $${totalRequired.toFixed(4)} ${token} total (including fees)`,
+    {
+      balanceInfo: {
+        currentBalance: balanceInUSDC,
+        requiredAmount: totalRequired,
+        ...breakdown,
+        insufficientBy,
+      },
+    }
+  );
+}
+
+export const paycrestProvider: OfframpProvider = {
+  id: 'paycrest',
+  fundingModel: 'order_first',
+
+  supports(currency: string, paymentType: OfframpPaymentType, chain?: PretiumChain): boolean {
+    // Orders are created on Base only; USDC and USDT are both accepted there
+    if (chain && chain !== 'BASE') return false;
+    return isPaycrestCurrencySupported(currency) && SUPPORTED_PAYMENT_TYPES[currency].includes(paymentType);
+  },
+
+  async quote({ currency, amountUSDC, paymentType, token = DEFAULT_TOKEN }: OfframpQuoteRequest): Promise<OfframpQuote> {
+    const rate = await paycrestClient.getRate(token, amountUSDC, currency);
+    const feeEstimate = estimatePaycrestFees(amountUSDC, token);
+
+    return {
+      provider: 'paycrest',
+      currency,
+      paymentType,
+      fundingModel: 'order_first',
+      amountUSDC,
+      totalUSDC: feeEstimate.totalAmountWithFees,
+      rate,
+      recipientAmount: parseFloat((amountUSDC * rate).toFixed(2)),
+      fee: parseFloat((feeEstimate.totalEstimatedFees * rate).toFixed(2)),
+      token,
+      validUntil: new Date(Date.now() + QUOTE_VALIDITY_MS).toISOString(),
+    };
+  },
+
+  async createPayout(request: OfframpPayoutRequest): Promise<OfframpPayoutResult> {
+    const { correlationId, currency, returnAddress, recipient, fid, clientFid, platformType, locationType } = request;
+    const { accountName, phoneNumber, tillNumber, accountNumber, bankCode } = recipient;
+    // Failover and treasury orders carry no quote and are funded in USDC
+    const token = request.quote?.token || PAYCREST_CONFIG.TOKEN;
+
+    if (!PAYCREST_CONFIG.API_KEY) {
+      console.error('❌ PAYCREST_API_KEY not configured');
+      throw new OfframpError('PayCrest API key not configured', 'PROVIDER_ERROR', 500);
+    }
+
+    // Validate required fields
+    if (!request.amountUSDC || !accountName || !currency || !returnAddress) {
+      throw new OfframpError(
+        'Missing required fields: amount, accountName, currency, returnAddress',
+        'INVALID_REQUEST'
+      );
+    }
+
+    // Currency-specific validation
+    if (currency === 'KES' && !phoneNumber && !tillNumber) {
+      throw new OfframpError('Phone number or till number is required for KES transactions', 'INVALID_REQUEST');
+    }
+
+    if (currency === 'NGN' && (!accountNumber || !bankCode)) {
+      throw new OfframpError('Account number and bank code are required for NGN transactions', 'INVALID_REQUEST');
+    }
+
+    const amountNum = request.amountUSDC;
+    if (isNaN(amountNum) || amountNum <= 0) {
+      throw new OfframpError('Invalid amount: must be a positive number', 'INVALID_REQUEST');
+    }
+
+    const minAmount = getPaycrestMinimumAmount(currency);
+    if (amountNum < minAmount) {
+      throw new OfframpError(
+        `Minimum amount for ${currency} is $${minAmount} USDC`,
+        'INVALID_REQUEST',
+        400,
+        `You tried to send $${amountNum}. Please increase your amount to at least $${minAmount}.`
+      );
+    }
+
+    // Get rate - locked quote first, then a server-side rate (failover), else fetch from PayCrest
+    const exchangeRate = request.quote
+      ? request.quote.rate
+      : request.rate && request.rate > 0
+        ? request.rate
+        : await paycrestClient.getRate(token, amountNum, currency);
+
+    console.log('✅ Rate confirmed:', exchangeRate);
+
+    // Format identifier and set institution based on currency
+    let formattedIdentifier: string;
+    let institution: string;
+    let paymentType: OfframpPaymentType;
+
+    if (currency === 'KES') {
+      if (tillNumber) {
+        formattedIdentifier = formatTillNumber(tillNumber);
+        institution = PAYCREST_CONFIG.MPESA_INSTITUTION; // Till numbers are on the M-Pesa network
+        paymentType = 'BUY_GOODS';
+      } else {
+        formattedIdentifier = formatPhoneNumber(phoneNumber!);
+        institution = PAYCREST_CONFIG.MPESA_INSTITUTION;
+        paymentType = 'MOBILE';
+      }
+    } else if (currency === 'NGN') {
+      // Nigeria account number - use as provided
+      formattedIdentifier = accountNumber!;
+      institution = bankCode!; // Use the bank code provided by user
+      paymentType = 'BANK_TRANSFER';
+    } else {
+      throw new OfframpError('Unsupported currency', 'UNSUPPORTED_ROUTE');
+    }
+
+    // Create PayCrest order payload according to API docs
+    const orderData: PaycrestCreateOrderRequest = {
+      amount: amountNum,
+      token,
+      rate: exchangeRate,
+      network: PAYCREST_CONFIG.NETWORK,
+      recipient: {
+        institution,
+        accountIdentifier: formattedIdentifier,
+        accountName,
+        memo: `Payment from Minisend to ${accountName}`, // Consistent memo format across all payment types
+        metadata: {}, // Required empty object
+        currency,
+      },
+      reference: toPaycrestReference(correlationId), // Echoes the correlation ID back in webhooks
+      returnAddress,
+    };
+
+    // 💰 Validate wallet has sufficient balance BEFORE creating PayCrest order
+    // Minisend charges a flat transaction fee in the token sent, no gas fees
+    const checkBalance = request.fundingSource !== 'treasury';
+    const feeEstimate = estimatePaycrestFees(amountNum, token);
+    const balanceValidation = checkBalance
+      ? await validateWalletBalance(returnAddress, feeEstimate.totalAmountWithFees, 0, token)
+        .catch(() => null) // Fail-open: continue with order creation if the balance check errors
+      : null;
+
+    if (balanceValidation && !balanceValidation.hasBalance) {
+      throw insufficientFunds(token, feeEstimate.totalAmountWithFees, balanceValidation.balanceInUSDC, balanceValidation.insufficientBy, {
+        baseAmount: amountNum,
+        estimatedFees: feeEstimate.totalEstimatedFees,
+      });
+    }
+
+    let order;
+    try {
+      order = await paycrestClient.createOrder(orderData);
+    } catch (error) {
+      console.error('PayCrest order error:', error);
+      throw new OfframpError(
+        isPaycrestApiError(error) ? error.message : error instanceof Error ? error.message : 'Failed to create order',
+        'PROVIDER_ERROR',
+        500
+      );
+    }
+
+    console.log('✅ PayCrest order created:', order.data.id);
+
+    // 🔒 Final balance validation with actual fees from PayCrest
+    const senderFee = parseFloat(String(order.data.senderFee || '0'));
+    const transactionFee = parseFloat(String(order.data.transactionFee || '0'));
+    const totalAmountRequired = amountNum + senderFee + transactionFee;
+
+    const finalValidation = checkBalance
+      ? await validateWalletBalance(returnAddress, totalAmountRequired, 0, token).catch(() => null)
+      : null;
+
+    if (finalValidation && !finalValidation.hasBalance) {
+      throw insufficientFunds(token, totalAmountRequired, finalValidation.balanceInUSDC, finalValidation.insufficientBy, {
+        baseAmount: amountNum,
+        fees: senderFee + transactionFee,
+      });
+    }
+
+    const localAmount = amountNum * exchangeRate;
+
+    // 🗄️ Store order in database
+    try {
+      // Detect carrier for Kenya numbers
+      let detectedCarrier = 'UNKNOWN';
+
+      if (currency === 'KES') {
+        detectedCarrier = detectKenyanCarrier(formattedIdentifier);
+        await DatabaseService.logCarrierDetection(
+          formattedIdentifier,
+          detectedCarrier,
+          institution,
+          'MPESA',
+          0.95,
+          'prefix_detection'
+        );
+      }
+
+      // Ensure user exists in database
+      const user = await DatabaseService.getUserByWallet(returnAddress);
+      if (!user) {
+        await DatabaseService.createUser(returnAddress, formattedIdentifier);
+      }
+
+      await DatabaseService.createOrderFromPaycrest(order, {
+        amount: amountNum.toString(),
+        phoneNumber: paymentType === 'MOBILE' ? formattedIdentifier : '', // Phone number for KES phone payments only
+        accountNumber: currency === 'NGN' ? formattedIdentifier : '', // Account number for NGN only
+        tillNumber: paymentType === 'BUY_GOODS' ? formattedIdentifier : '', // Till number for KES till payments
+        paybillNumber: '', // Paybill no longer supported
+        paybillAccount: '', // Paybill no longer supported
+        accountName,
+        currency,
+        returnAddress,
+        rate: exchangeRate,
+        provider: currency === 'KES'
+          ? (paymentType === 'BUY_GOODS' ? 'MPESA_TILL' : (detectedCarrier === 'SAFARICOM' ? 'MPESA' : 'AIRTEL'))
+          : 'BANK_TRANSFER',
+        localAmount: localAmount.toString(),
+        institutionCode: institution,
+        fid,
+        clientFid,
+        platformType,
+        locationType,
+        correlationId
+      });
+
+      console.log('📊 Order saved to database successfully');
+
+      // 📝 Save Farcaster user profile asynchronously (fire-and-forget, non-blocking)
+      const profile = request.farcasterProfile;
+      if (fid && (profile?.username || profile?.displayName || profile?.pfpUrl)) {
+        DatabaseService.saveFarcasterProfile({
+          walletAddress: returnAddress,
+          fid,
+          username: profile.username,
+          displayName: profile.displayName,
+          pfpUrl: profile.pfpUrl
+        }).catch(profileError => {
+          console.error('⚠️ Background profile save failed (non-critical):', profileError);
+        });
+      }
+
+      // 🔔 Send notification to Farcaster users via Neynar (only if FID is provided)
+      // Non-blocking: notification failures won't affect order creation
+      if (fid) {
+        try {
+          const {
+            sendNotificationToUser,
+            createTransactionNotification
+          } = await import('@/lib/services/neynar-notifications');
+
+          await sendNotificationToUser(fid, createTransactionNotification('created', {
+            currency,
+            amount: localAmount,
+            orderId: order.data.id
+          }));
+        } catch {
+          // Error is logged internally by neynar-notifications service
+        }
+      }
+
+      await DatabaseService.logAnalyticsEvent(
+        'order_created',
+        returnAddress,
+        {
+          paycrest_order_id: order.data.id,
+          correlation_id: correlationId,
+          amount_usdc: amountNum,
+          amount_local: localAmount,
+          currency,
+          token,
+          carrier: detectedCarrier,
+          institution
+        }
+      );
+
+    } catch (dbError) {
+      console.error('❌ Database error (continuing with API response):', dbError);
+      // Don't fail the API call if database fails
+    }
+
+    return {
+      provider: 'paycrest',
+      orderId: order.data.id,
+      status: toOfframpStatus(order.data.status),
+      providerStatus: order.data.status,
+      paymentType,
+      rate: exchangeRate,
+      recipientAmount: localAmount,
+      fee: senderFee + transactionFee,
+      depositAddress: order.data.receiveAddress,
+      depositAmount: parseFloat(String(order.data.totalAmount || totalAmountRequired)),
+      validUntil: order.data.validUntil,
+      raw: {
+        ...order.data,
+        // Override PayCrest's "OK" response with the actual user-provided account name
+        recipient: {
+          ...order.data.recipient,
+          accountName,
+        },
+      },
+    };
+  },
+
+  async getStatus(orderId: string): Promise<OfframpStatusResult> {
+    const response = await paycrestClient.getOrder(orderId);
+    const order = response.data;
+
+    if (!order) {
+      throw new OfframpError('Order not found', 'INVALID_REQUEST', 404);
+    }
+
+    return {
+      provider: 'paycrest',
+      orderId,
+      status: toOfframpStatus(order.status),
+      providerStatus: order.status,
+      raw: order as unknown as Record<string, unknown>,
+    };
+  },
+
+  parseWebhook({ rawBody, headers }: OfframpWebhookRequest): OfframpWebhookEvent {
+    if (!verifyPaycrestSignature(rawBody, headers.get(PAYCREST_SIGNATURE_HEADER))) {
+      throw new OfframpError('Invalid signature', 'UNAUTHORIZED', 401);
+    }
+
+    let event: PaycrestWebhookEvent;
+    try {
+      event = JSON.parse(rawBody);
+    } catch {
+      throw new OfframpError('Invalid JSON payload', 'INVALID_REQUEST');
+    }
+
+    if (!event.data?.id) {
+      throw new OfframpError('Missing order id', 'INVALID_REQUEST');
+    }
+
+    return {
+      provider: 'paycrest',
+      orderId: event.data.id,
+      status: toOfframpStatus(event.data.status),
+      providerStatus: event.data.status,
+      recipientName: event.data.recipient?.accountName,
+      transactionHash: event.data.txHash,
+      raw: event as unknown as Record<string, unknown>,
+    };
+  },
+};
@@ -0,0 +1,656 @@
+// Pretium Off-ramp Provider
+// Deposit-first rail: the user's USDC (or USDT) is already at the settlement address when we call /v1/pay
+import { pretiumClient } from '@/lib/pretium/client';
+import { PRETIUM_CONFIG, isCurrencySupported, isPaymentTypeSupported, getPretiumCallbackUrl } from '@/lib/pretium/config';
+import { verifyPretiumWebhook, PRETIUM_SIGNATURE_HEADER, PRETIUM_TIMESTAMP_HEADER } from '@/lib/pretium/webhook-security';
+import { DEFAULT_PRETIUM_CHAIN, getPretiumChain, isChainTokenSupported } from '@/lib/pretium/chains';
+import { DEFAULT_TOKEN, type StablecoinToken } from '@/lib/contracts';
+import { DatabaseService } from '@/lib/supabase/config';
+import { formatPhoneNumber, formatTillNumber } from '@/lib/utils/tillValidator';
+import { formatGhanaPhoneNumber } from '@/lib/utils/ghanaValidator';
+import { formatUgandaPhoneNumber } from '@/lib/utils/ugandaValidator';
+import { detectKenyanCarrier } from '@/lib/utils/phoneCarrier';
+import { detectGhanaNetwork } from '@/lib/utils/ghanaNetworkDetector';
+import { detectUgandaNetwork } from '@/lib/utils/ugandaNetworkDetector';
+import { verifyUSDCDeposit, DepositVerificationError } from '@/lib/blockchain/depositVerification';
+import { createLogger } from '@/lib/logger';
+import { OfframpError } from '../errors';
+import type {
+  PretiumApiError,
+  PretiumChain,
+  PretiumDisburseRequest,
+  PretiumDisburseResponse,
+  PretiumPaymentType,
+  PretiumTransactionStatus,
+  PretiumWebhookPayload,
+} from '@/lib/pretium/types';
+import type {
+  OfframpPaymentType,
+  OfframpPayoutRequest,
+  OfframpPayoutResult,
+  OfframpProvider,
+  OfframpQuote,
+  OfframpQuoteRequest,
+  OfframpStatus,
+  OfframpStatusResult,
+  OfframpWebhookEvent,
+  OfframpWebhookRequest,
+} from '../types';
+
+const QUOTE_VALIDITY_MS = 5 * 60 * 1000;
+
+const logger = createLogger('pretium-payout');
+
+function toOfframpStatus(status: PretiumTransactionStatus | string): OfframpStatus {
+  switch (status) {
+    case 'COMPLETE':
+      return 'completed';
+    case 'FAILED':
+      return 'failed';
+    case 'PROCESSING':
+      return 'processing';
+    default:
+      return 'pending';
+  }
+}
+
+async function getBuyingRate(currency: string): Promise<number> {
+  const rateResponse = await pretiumClient.getExchangeRate(currency);
+
+  if (rateResponse.code !== 200) {
+    throw new OfframpError('Failed to fetch exchange rate', 'PROVIDER_ERROR', 500, rateResponse);
+  }
+
+  // Use buying_rate for offramp (we're buying local currency from Pretium)
+  return rateResponse.data.buying_rate;
+}
+
+interface FormattedRecipient {
+  paymentType: PretiumPaymentType;
+  shortcode?: string;
+  accountNumber?: string;
+  mobileNetwork?: string;
+}
+
+/**
+ * Determine the payment type and format recipient details the way /v1/pay expects them
+ */
+function formatRecipient(request: OfframpPayoutRequest): FormattedRecipient {
+  const { requestId, currency, recipient } = request;
+  const { phoneNumber, tillNumber, paybillNumber, paybillAccount, accountNumber, bankCode, bankName } = recipient;
+  const log = logger.child({ requestId, currency });
+
+  if (currency === 'NGN') {
+    // NGN Bank Transfers
+    if (!accountNumber || !bankCode || !bankName) {
+      log.warn('NGN missing bank details');
+      throw new OfframpError('NGN requires: accountNumber, bankCode, bankName', 'INVALID_REQUEST');
+    }
+
+    const cleanedAccountNumber = accountNumber.replace(/\D/g, ''); // Clean to digits only
+
+    // Validate account number format
+    if (cleanedAccountNumber.length < 10 || cleanedAccountNumber.length > 11) {
+      log.warn('Invalid NGN account number length', { length: cleanedAccountNumber.length });
+      throw new OfframpError('Invalid NGN account number (must be 10-11 digits)', 'INVALID_REQUEST');
+    }
+
+    log.info('NGN bank transfer', { accountNumber: cleanedAccountNumber, bankCode, bankName });
+
+    return { paymentType: 'BANK_TRANSFER', accountNumber: cleanedAccountNumber };
+  }
+
+  if (tillNumber && currency === 'KES') {
+    // KES Till/Buy Goods
+    const shortcode = formatTillNumber(tillNumber);
+    log.info('KES buy goods', { shortcode });
+    return { paymentType: 'BUY_GOODS', shortcode, mobileNetwork: 'Safaricom' };
+  }
+
+  if (paybillNumber && paybillAccount && currency === 'KES') {
+    // KES Paybill
+    log.info('KES paybill', { paybillNumber, paybillAccount });
+    return {
+      paymentType: 'PAYBILL',
+      shortcode: paybillNumber,
+      accountNumber: paybillAccount,
+      mobileNetwork: 'Safaricom',
+    };
+  }
+
+  if (phoneNumber) {
+    // Mobile Money - Pretium expects the local format (0XXXXXXXXX)
+    let shortcode: string;
+    let mobileNetwork: string;
+
+    if (currency === 'KES') {
+      const formattedPhone = formatPhoneNumber(phoneNumber); // Returns 254XXXXXXXXX
+      const carrier = detectKenyanCarrier(formattedPhone);
+      mobileNetwork = carrier === 'SAFARICOM' ? 'Safaricom' : carrier === 'AIRTEL' ? 'Airtel' : 'Safaricom';
+      shortcode = '0' + formattedPhone.substring(3);
+    } else if (currency === 'GHS') {
+      const formattedPhone = formatGhanaPhoneNumber(phoneNumber); // Returns 233XXXXXXXXX
+      const network = detectGhanaNetwork(formattedPhone);
+      mobileNetwork = network === 'MTN' ? 'MTN' : network === 'VODAFONE' ? 'Vodafone' : network === 'AIRTELTIGO' ? 'AirtelTigo' : 'MTN';
+      shortcode = '0' + formattedPhone.substring(3);
+    } else if (currency === 'UGX') {
+      const formattedPhone = formatUgandaPhoneNumber(phoneNumber); // Returns 256XXXXXXXXX
+      const network = detectUgandaNetwork(formattedPhone);
+      mobileNetwork = network === 'MTN' ? 'MTN' : network === 'AIRTEL' ? 'Airtel' : 'MTN';
+      shortcode = '0' + formattedPhone.substring(3);
+    } else {
+      log.warn('Phone number payouts not supported for currency');
+      throw new OfframpError(`${currency} does not support phone number payments`, 'UNSUPPORTED_ROUTE');
+    }
+
+    log.info('Mobile money payout', { shortcode, mobileNetwork });
+    return { paymentType: 'MOBILE', shortcode, mobileNetwork };
+  }
+
+  log.warn('No valid payment method provided');
+  throw new OfframpError(
+    'Must provide: phoneNumber, tillNumber, paybillNumber+account, or accountNumber+bankCode',
+    'INVALID_REQUEST'
+  );
+}
+
+/**
+ * Split the USDC amount into recipient amount and platform fee per Pretium docs (docs/fee.md)
+ * - User wants to receive X KES → fee = ceil(X * 0.01) → amount = X + fee
+ * - Pretium sends X to recipient, credits fee to our fiat wallet
+ *
+ * When the client sends the exact localAmount (what the user wants to receive)
+ * we use it to avoid floating-point rounding errors from USDC↔KES conversion.
+ */
+function calculateAmounts(amountUSDC: number, exchangeRate: number, localAmount?: number) {
+  const totalLocalFromUsdc = Math.round(amountUSDC * exchangeRate);
+
+  if (localAmount !== undefined) {
+    const recipientAmount = Math.round(localAmount);
+    const feeAmount = Math.ceil(recipientAmount * PRETIUM_CONFIG.FEE_PERCENTAGE);
+    return { totalLocalFromUsdc, recipientAmount, feeAmount, totalForPretium: recipientAmount + feeAmount };
+  }
+
+  // Fallback: derive from USDC (legacy, less accurate)
+  const recipientAmount = Math.round(totalLocalFromUsdc / (1 + PRETIUM_CONFIG.FEE_PERCENTAGE));
+  return {
+    totalLocalFromUsdc,
+    recipientAmount,
+    feeAmount: totalLocalFromUsdc - recipientAmount,
+    totalForPretium: totalLocalFromUsdc,
+  };
+}
+
+/**
+ * USDC that covers a recipient amount plus the fee at a rate, rounded up to the cent.
+ * For payouts sized in local currency (batch rows, scheduled payouts)
+ */
+export function getUSDCForLocalAmount(localAmount: number, exchangeRate: number): number {
+  const { totalForPretium } = calculateAmounts(0, exchangeRate, localAmount);
+  return Math.ceil((totalForPretium / exchangeRate) * 100) / 100;
+}
+
+export const pretiumProvider: OfframpProvider = {
+  id: 'pretium',
+  fundingModel: 'deposit_first',
+
+  supports(currency: string, paymentType: OfframpPaymentType, chain?: PretiumChain, token?: StablecoinToken): boolean {
+    if (!isCurrencySupported(currency)) return false;
+    // Deposits are only accepted on chains we have a settlement address for
+    if (chain && !getPretiumChain(chain).settlementAddress) return false;
+    if (token && !isChainTokenSupported(chain || DEFAULT_PRETIUM_CHAIN, token)) return false;
+    // CURRENCY_CONFIG names bank transfers 'BANK'
+    const configType = paymentType === 'BANK_TRANSFER' ? 'BANK' : paymentType;
+    // GHS bank payouts are listed by Pretium but not wired up here yet
+    if (currency === 'GHS' && paymentType === 'BANK_TRANSFER') return false;
+    return isPaymentTypeSupported(currency, configType);
+  },
+
+  async quote({
+    currency,
+    amountUSDC,
+    localAmount,
+    paymentType,
+    chain = DEFAULT_PRETIUM_CHAIN,
+    token = DEFAULT_TOKEN,
+  }: OfframpQuoteRequest): Promise<OfframpQuote> {
+    const settlementAddress = getPretiumChain(chain).settlementAddress;
+    if (!settlementAddress) {
+      throw new OfframpError(`Deposits on ${chain} are not available`, 'UNSUPPORTED_ROUTE');
+    }
+    if (!isChainTokenSupported(chain, token)) {
+      throw new OfframpError(`${token} deposits on ${chain} are not available`, 'UNSUPPORTED_ROUTE');
+    }
+
+    const rate = await getBuyingRate(currency);
+    const { totalLocalFromUsdc, recipientAmount, feeAmount, totalForPretium } =
+      calculateAmounts(amountUSDC, rate, localAmount);
+
+    // A typed local amount must be covered by the stablecoin sent
+    // (allow one cent plus the fee's ceil rounding)
+    if (totalForPretium - totalLocalFromUsdc > rate * 0.01 + 1) {
+      throw new OfframpError(
+        `${amountUSDC} ${token} does not cover ${recipientAmount} ${currency} plus fees`,
+        'INVALID_REQUEST'
+      );
+    }
+
+    return {
+      provider: 'pretium',
+      currency,
+      paymentType,
+      fundingModel: 'deposit_first',
+      amountUSDC,
+      totalUSDC: amountUSDC,
+      rate,
+      recipientAmount,
+      fee: feeAmount,
+      depositAddress: settlementAddress,
+      chain,
+      token,
+      validUntil: new Date(Date.now() + QUOTE_VALIDITY_MS).toISOString(),
+    };
+  },
+
+  async createPayout(request: OfframpPayoutRequest): Promise<OfframpPayoutResult> {
+    const { requestId, correlationId, currency, returnAddress, recipient, fid } = request;
+    const { accountName, bankCode, bankName } = recipient;
+    // The chain the quote's settlement address is on - BASE for treasury-funded payouts
+    const chain = request.quote?.chain || DEFAULT_PRETIUM_CHAIN;
+    const settlementAddress = request.quote?.depositAddress || PRETIUM_CONFIG.SETTLEMENT_ADDRESS;
+    // Treasury-funded payouts are sent in USDC
+    const token = request.quote?.token || DEFAULT_TOKEN;
+    const log = logger.child({ requestId, currency, chain, token });
+
+    // ========================================================================
+    // STEP 1: VALIDATE INPUT
+    // ========================================================================
+
+    if (!isCurrencySupported(currency)) {
+      log.warn('Unsupported currency');
+      throw new OfframpError(
+        `Currency ${currency} not supported. Supported: KES, GHS, NGN, UGX`,
+        'UNSUPPORTED_ROUTE'
+      );
+    }
+
+    if (!request.amountUSDC || !accountName || !request.transactionHash || !returnAddress) {
+      log.warn('Missing required fields');
+      throw new OfframpError(
+        'Missing required: amount, accountName, transactionHash, returnAddress',
+        'INVALID_REQUEST'
+      );
+    }
+
+    // Normalize amount to 2 decimal places
+    const amountNum = Math.round(request.amountUSDC * 100) / 100;
+    if (isNaN(amountNum) || amountNum <= 0) {
+      log.warn('Invalid amount', { amount: request.amountUSDC });
+      throw new OfframpError('Invalid amount: must be positive number', 'INVALID_REQUEST');
+    }
+
+    log.info('Validated input', { amount: amountNum, wallet: returnAddress, txHash: request.transactionHash });
+
+    // ========================================================================
+    // STEP 1b: VERIFY THE USDC / USDT DEPOSIT ON-CHAIN
+    // The payout is only triggered once we can see the user's Transfer of the quoted token
+    // to the settlement address on the quoted chain, for at least the quoted
+    // amount, and the hash has not already funded another order. The sender is
+    // the batch treasury for batch rows, else the one signed into the quote
+    // (required on Tron and Stellar), else the return address.
+    // From here on the hash is the normalized one, so every spelling of a
+    // deposit claims and stores the same value.
+    // ========================================================================
+
+    const expectedSender = request.fundingAddress || request.quote?.senderAddress;
+    if (!expectedSender && getPretiumChain(chain).kind !== 'evm') {
+      log.warn('Quote has no deposit sender');
+      throw new OfframpError(
+        `The quote does not name the ${getPretiumChain(chain).name} address the deposit is sent from - request a new quote with senderAddress`,
+        'QUOTE_INVALID'
+      );
+    }
+
+    let transactionHash: string;
+    try {
+      const deposit = await verifyUSDCDeposit({
+        transactionHash: request.transactionHash,
+        expectedSender: expectedSender || returnAddress,
+        expectedRecipient: settlementAddress,
+        minimumAmountUSDC: amountNum,
+        chain,
+        token,
+      });
+      transactionHash = deposit.transactionHash;
+      log.info('Deposit verified', { amount: deposit.amountInUSDC, block: deposit.blockNumber });
+    } catch (error) {
+      if (error instanceof DepositVerificationError) {
+        log.warn('Deposit verification failed', { reason: error.code, details: error.details });
+        throw new OfframpError(error.message, 'DEPOSIT_NOT_VERIFIED', error.statusCode, error.details, {
+          reason: error.code,
+        });
+      }
+      throw error;
+    }
+
+    // ========================================================================
+    // STEP 2: DETERMINE PAYMENT TYPE & FORMAT RECIPIENT DETAILS
+    // ========================================================================
+
+    const { paymentType, shortcode, accountNumber, mobileNetwork } = formatRecipient(request);
+
+    // ========================================================================
+    // STEP 3: GET EXCHANGE RATE & CALCULATE AMOUNTS
+    // ========================================================================
+
+    let exchangeRate: number;
+    let amounts: ReturnType<typeof calculateAmounts>;
+
+    if (request.quote) {
+      // Locked quote: pay out exactly what the user was shown
+      const { quote } = request;
+      exchangeRate = quote.rate;
+      amounts = {
+        totalLocalFromUsdc: Math.round(amountNum * quote.rate),
+        recipientAmount: quote.recipientAmount,
+        feeAmount: quote.fee,
+        totalForPretium: quote.recipientAmount + quote.fee,
+      };
+      log.info('Using locked quote', { quoteId: quote.id, rate: exchangeRate });
+    } else {
+      exchangeRate = await getBuyingRate(currency);
+      log.info('Fetched exchange rate', { rate: exchangeRate });
+      amounts = calculateAmounts(amountNum, exchangeRate, request.localAmount);
+    }
+
+    const { totalLocalFromUsdc, recipientAmount, feeAmount, totalForPretium } = amounts;
+
+    log.info('Amount calculation', {
+      usdc: amountNum,
+      rate: exchangeRate,
+      quote_id: request.quote?.id ?? 'none',
+      total_local_from_usdc: totalLocalFromUsdc,
+      local_amount_from_frontend: request.localAmount ?? 'not provided',
+      recipient_gets: recipientAmount,
+      platform_fee: feeAmount,
+      total_for_pretium: totalForPretium,
+      fee_percentage: ((feeAmount / totalForPretium) * 100).toFixed(2) + '%'
+    });
+
+    // ========================================================================
+    // STEP 4: BUILD PRETIUM API REQUEST PER OFFICIAL DOCS
+    // Reference: docs/offramp.md
+    // ========================================================================
+
+    let disburseRequest: PretiumDisburseRequest;
+
+    if (currency === 'NGN' && paymentType === 'BANK_TRANSFER') {
+      // NGN Bank Transfer - TESTING WITHOUT FEE FIRST
+      // If Pretium docs don't show account_name for NGN, maybe we shouldn't send it?
+      disburseRequest = {
+        type: paymentType,
+        account_name: accountName, // Keeping this as it's standard
+        amount: recipientAmount.toString(), // Send only recipient amount (no fee for now)
+        // fee: feeAmount.toString(), // OMITTED - testing if this causes issues
+        chain,
+        transaction_hash: transactionHash,
+        callback_url: getPretiumCallbackUrl(correlationId),
+        account_number: accountNumber!,
+        bank_code: bankCode!,
+        bank_name: bankName!,
+      };
+    } else {
+      // KES/GHS/UGX Mobile Money - Follow docs exactly
+      disburseRequest = {
+        type: paymentType,
+        account_name: accountName,
+        amount: totalForPretium.toString(), // Total including fee
+        fee: feeAmount.toString(), // Fee to be credited to our wallet
+        chain,
+        transaction_hash: transactionHash,
+        callback_url: getPretiumCallbackUrl(correlationId),
+        shortcode: shortcode!,
+        mobile_network: mobileNetwork!,
+        ...(accountNumber && { account_number: accountNumber }), // For PAYBILL
+      };
+    }
+
+    // Never log or persist the tokenized callback URL
+    const storedCallbackUrl = getPretiumCallbackUrl(correlationId, false);
+    const storedDisburseRequest = { ...disburseRequest, callback_url: storedCallbackUrl };
+    log.debug('Disburse request', { disburseRequest: storedDisburseRequest });
+
+    // ========================================================================
+    // STEP 4b: RESERVE THE DEPOSIT
+    // Concurrent requests with the same hash all pass the replay check in
+    // STEP 1b; only the one that claims the hash goes on to Pretium. The claim
+    // is only released when Pretium rejected the payout outright - after a
+    // timeout or a 5xx it may still have paid.
+    // ========================================================================
+
+    const claimed = await DatabaseService.claimPretiumDeposit({
+      transactionHash,
+      chain,
+      walletAddress: returnAddress,
+      correlationId,
+    });
+    if (!claimed) {
+      log.warn('Deposit already claimed by another payout', { txHash: transactionHash });
+      throw new OfframpError(
+        'Transaction hash has already been used for another payout',
+        'DEPOSIT_NOT_VERIFIED',
+        409,
+        undefined,
+        { reason: 'HASH_ALREADY_USED' }
+      );
+    }
+
+    const releaseClaim = async (code: number) => {
+      if (code < 400 || code >= 500) return;
+      await DatabaseService.releasePretiumDepositClaim(transactionHash).catch((error) => {
+        log.error('Failed to release deposit claim', { error, txHash: transactionHash });
+      });
+    };
+
+    // ========================================================================
+    // STEP 5: CALL PRETIUM API
+    // ========================================================================
+
+    let pretiumResponse: PretiumDisburseResponse;
+
+    try {
+      pretiumResponse = await pretiumClient.disburse(disburseRequest, currency);
+      log.debug('Pretium API success', { response: pretiumResponse });
+    } catch (error) {
+      log.error('Pretium API error', { error });
+
+      const pretiumError = error as PretiumApiError;
+      await releaseClaim(pretiumError.code || 500);
+      throw new OfframpError(
+        pretiumError.message || 'Pretium API error',
+        'PROVIDER_ERROR',
+        pretiumError.code || 500,
+        pretiumError.data || {}
+      );
+    }
+
+    // Validate response code
+    if (pretiumResponse.code !== 200) {
+      log.error('Pretium returned non-200 code', { response: pretiumResponse });
+      await releaseClaim(pretiumResponse.code);
+      throw new OfframpError(
+        pretiumResponse.message || 'Pretium request failed',
+        'PROVIDER_ERROR',
+        pretiumResponse.code,
+        pretiumResponse.data
+      );
+    }
+
+    const { transaction_code, status } = pretiumResponse.data;
+
+    if (!transaction_code) {
+      log.error('No transaction_code in Pretium response', { response: pretiumResponse });
+      throw new OfframpError('No transaction code received from Pretium', 'PROVIDER_ERROR', 500);
+    }
+
+    log.info('Pretium payout accepted', { transactionCode: transaction_code, status });
+
+    await DatabaseService.completePretiumDepositClaim(transactionHash, transaction_code).catch((error) => {
+      log.warn('Failed to link deposit claim', { error, transactionCode: transaction_code });
+    });
+
+    const result: OfframpPayoutResult = {
+      provider: 'pretium',
+      orderId: transaction_code,
+      status: 'pending',
+      providerStatus: status,
+      paymentType,
+      rate: exchangeRate,
+      recipientAmount,
+      fee: feeAmount,
+      raw: {
+        ...pretiumResponse.data,
+        total_local_amount: totalLocalFromUsdc,
+        settlement_address: settlementAddress,
+        chain,
+        token,
+      },
+    };
+
+    // ========================================================================
+    // STEP 6: SAVE TO DATABASE IMMEDIATELY
+    // THIS IS CRITICAL - Must happen before returning to frontend!
+    // ========================================================================
+
+    try {
+      // Ensure user exists
+      let user = await DatabaseService.getUserByWallet(returnAddress);
+      if (!user) {
+        log.info('Creating new user', { wallet: returnAddress });
+        user = await DatabaseService.createUser(
+          returnAddress,
+          paymentType === 'MOBILE' ? shortcode : ''
+        );
+      }
+
+      const createdOrder = await DatabaseService.createPretiumOrder({
+        transactionCode: transaction_code,
+        userId: user.id,
+        walletAddress: returnAddress,
+        amountInUsdc: amountNum,
+        amountInLocal: recipientAmount,
+        currency,
+        phoneNumber: paymentType === 'MOBILE' ? shortcode : undefined,
+        tillNumber: paymentType === 'BUY_GOODS' ? shortcode : undefined,
+        paybillNumber: paymentType === 'PAYBILL' ? shortcode : undefined,
+        paybillAccount: paymentType === 'PAYBILL' ? accountNumber : undefined,
+        accountNumber: paymentType === 'BANK_TRANSFER' ? accountNumber : undefined,
+        bankCode: currency === 'NGN' ? bankCode : undefined,
+        bankName: currency === 'NGN' ? bankName : undefined,
+        accountName: accountName,
+        rate: exchangeRate,
+        transactionHash: transactionHash,
+        status: 'pending',
+        pretiumStatus: status,
+        fee: feeAmount,
+        fid,
+        mobileNetwork: mobileNetwork,
+        settlementAddress,
+        chain,
+        token,
+        callbackUrl: storedCallbackUrl,
+        correlationId,
+        rawDisburseRequest: storedDisburseRequest as unknown as Record<string, unknown>,
+        rawDisburseResponse: JSON.parse(JSON.stringify(pretiumResponse.data)) as Record<string, unknown>,
+      });
+
+      log.info('Order saved', { orderId: createdOrder.id, transactionCode: transaction_code });
+
+      await DatabaseService.logAnalyticsEvent('pretium_disburse_initiated', returnAddress, {
+        request_id: requestId,
+        correlation_id: correlationId,
+        transaction_code,
+        amount_usdc: amountNum,
+        amount_local_total: totalLocalFromUsdc,
+        recipient_amount: recipientAmount,
+        fee_amount: feeAmount,
+        payment_type: paymentType,
+        currency,
+        token,
+      });
+
+    } catch (dbError) {
+      // DATABASE SAVE FAILED - THIS IS CRITICAL!
+      // The payment will complete but won't be tracked. The deposit claim still
+      // holds the hash, so it cannot fund a second payout
+      log.error('Database save failed - payout is untracked', {
+        error: dbError,
+        transactionCode: transaction_code,
+        wallet: returnAddress,
+        amount: amountNum,
+      });
+
+      // Still report success since Pretium accepted the payment
+      result.warning = 'Payment initiated but tracking failed - contact support';
+    }
+
+    return result;
+  },
+
+  async getStatus(orderId: string, currency: string): Promise<OfframpStatusResult> {
+    if (!isCurrencySupported(currency)) {
+      throw new OfframpError(`Currency ${currency} not supported by Pretium`, 'UNSUPPORTED_ROUTE');
+    }
+
+    const response = await pretiumClient.getTransactionStatus(orderId, currency);
+    const transaction = response.data;
+
+    return {
+      provider: 'pretium',
+      orderId,
+      status: toOfframpStatus(transaction.status),
+      providerStatus: transaction.status,
+      receiptNumber: transaction.receipt_number || undefined,
+      recipientName: transaction.public_name || undefined,
+      message: transaction.message,
+      raw: transaction as unknown as Record<string, unknown>,
+    };
+  },
+
+  parseWebhook({ rawBody, headers, url, clientIp }: OfframpWebhookRequest): OfframpWebhookEvent {
+    const auth = verifyPretiumWebhook({
+      rawBody,
+      signature: headers.get(PRETIUM_SIGNATURE_HEADER),
+      timestamp: headers.get(PRETIUM_TIMESTAMP_HEADER),
+      token: new URL(url).searchParams.get('token'),
+      clientIp,
+    });
+
+    if (!auth.valid) {
+      throw new OfframpError('Unauthorized', 'UNAUTHORIZED', 401, auth.reason);
+    }
+
+    let payload: PretiumWebhookPayload;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      throw new OfframpError('Invalid JSON payload', 'INVALID_REQUEST');
+    }
+
+    if (!payload.transaction_code) {
+      throw new OfframpError('Missing transaction_code', 'INVALID_REQUEST');
+    }
+
+    return {
+      provider: 'pretium',
+      orderId: payload.transaction_code,
+      status: payload.status ? toOfframpStatus(payload.status) : null,
+      providerStatus: payload.status || (payload.is_released ? 'RELEASED' : 'UNKNOWN'),
+      receiptNumber: payload.receipt_number,
+      recipientName: payload.public_name || undefined,
+      transactionHash: payload.transaction_hash,
+      message: payload.message,
+      raw: payload as unknown as Record<string, unknown>,
+    };
+  },
+};
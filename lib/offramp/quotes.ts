@@ -0,0 +1,327 @@
+// Off-ramp Quotes
+// A quote locks a provider's rate, fee and recipient amount for a short window.
+// It is stored and HMAC-signed on the server; payouts are only created against
+// a valid, unexpired, unredeemed quote, at exactly its terms.
+import crypto from 'crypto';
+import { DatabaseService, type OfframpQuoteRecord } from '@/lib/supabase/config';
+import { DEFAULT_PRETIUM_CHAIN } from '@/lib/pretium/chains';
+import { DEFAULT_TOKEN } from '@/lib/contracts';
+import { createLogger } from '@/lib/logger';
+import { OfframpError } from './errors';
+import { createOfframpPayout, getOfframpProvider } from './router';
+import { enforceTransactionLimits } from './limits';
+import { holdPayoutForReview, screenPayout } from './reviews';
+import type {
+  OfframpLockedQuote,
+  OfframpPaymentType,
+  OfframpPayoutRequest,
+  OfframpPayoutResult,
+  OfframpProvider,
+  OfframpQuote,
+  OfframpQuoteRequest,
+} from './types';
+
+const logger = createLogger('offramp-quotes');
+
+export const QUOTE_CONFIG = {
+  // How long a quote can be redeemed for
+  TTL_MS: parseInt(process.env.QUOTE_TTL_SECONDS || '600') * 1000,
+
+  // Deposit-first payouts (Pretium) are requested after the USDC transfer confirms,
+  // so a quote that expired while the deposit was being mined is still honored
+  DEPOSIT_GRACE_MS: 10 * 60 * 1000,
+
+  // Dedicated server-only secret, never shared with another credential
+  SIGNING_SECRET: process.env.QUOTE_SIGNING_SECRET,
+
+  // Tolerance when the client repeats the quoted USDC amount (cent rounding)
+  AMOUNT_TOLERANCE_USDC: 0.005,
+};
+
+export interface RedeemQuoteParams {
+  provider: OfframpProvider;
+  currency?: string;
+  amountUSDC?: number;
+  walletAddress?: string;
+}
+
+type SignedQuoteTerms = Omit<OfframpQuoteRecord, 'signature' | 'created_at' | 'redeemed_at' | 'order_reference' | 'correlation_id'>;
+
+function getSigningSecret(): string {
+  if (!QUOTE_CONFIG.SIGNING_SECRET) {
+    logger.error('QUOTE_SIGNING_SECRET is not set');
+    throw new OfframpError('Quote signing is not configured', 'PROVIDER_ERROR', 500);
+  }
+  return QUOTE_CONFIG.SIGNING_SECRET;
+}
+
+/**
+ * HMAC-SHA256 over the quote terms in a fixed order. Numbers and dates are
+ * normalized so the signature survives the round trip through Postgres; chain
+ * and token sign their defaults when unset, and an unlocked sender signs as null
+ */
+function signQuote(terms: SignedQuoteTerms): string {
+  const canonical = [
+    terms.id,
+    terms.provider,
+    terms.currency,
+    terms.payment_type,
+    Number(terms.amount_usdc).toFixed(6),
+    Number(terms.total_usdc).toFixed(6),
+    Number(terms.rate).toFixed(6),
+    Number(terms.recipient_amount).toFixed(2),
+    Number(terms.fee).toFixed(2),
+    terms.deposit_address || '',
+    (terms.wallet_address || '').toLowerCase(),
+    new Date(terms.expires_at).getTime().toString(),
+    `chain:${terms.chain || DEFAULT_PRETIUM_CHAIN}`,
+    `token:${terms.token || DEFAULT_TOKEN}`,
+    `sender:${terms.sender_address || 'null'}`,
+  ].join('|');
+
+  return crypto.createHmac('sha256', getSigningSecret()).update(canonical).digest('hex');
+}
+
+function hasValidSignature(record: OfframpQuoteRecord): boolean {
+  const expected = Buffer.from(signQuote(record));
+  const provided = Buffer.from(record.signature || '');
+  return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+}
+
+function toLockedQuote(record: OfframpQuoteRecord, fundingModel: OfframpLockedQuote['fundingModel']): OfframpLockedQuote {
+  return {
+    id: record.id,
+    provider: record.provider,
+    currency: record.currency,
+    paymentType: record.payment_type as OfframpPaymentType,
+    fundingModel,
+    amountUSDC: Number(record.amount_usdc),
+    totalUSDC: Number(record.total_usdc),
+    rate: Number(record.rate),
+    recipientAmount: Number(record.recipient_amount),
+    fee: Number(record.fee),
+    depositAddress: record.deposit_address || undefined,
+    chain: record.chain || undefined,
+    token: record.token || undefined,
+    validUntil: new Date(record.expires_at).toISOString(),
+    signature: record.signature,
+    walletAddress: record.wallet_address || undefined,
+    senderAddress: record.sender_address || undefined,
+    redeemedAt: record.redeemed_at || undefined,
+  };
+}
+
+/**
+ * Sign and store a provider quote so a payout can later be created at its terms.
+ * senderAddress (deposit_first) is the only address the deposit is accepted from;
+ * pass it in its canonical form (parseChainAddress)
+ */
+export async function lockQuote(
+  quote: OfframpQuote,
+  walletAddress?: string,
+  correlationId?: string,
+  senderAddress?: string
+): Promise<OfframpLockedQuote> {
+  const terms: SignedQuoteTerms = {
+    id: crypto.randomUUID(),
+    provider: quote.provider,
+    currency: quote.currency,
+    payment_type: quote.paymentType,
+    amount_usdc: quote.amountUSDC,
+    total_usdc: quote.totalUSDC,
+    rate: quote.rate,
+    recipient_amount: quote.recipientAmount,
+    fee: quote.fee,
+    deposit_address: quote.depositAddress,
+    chain: quote.chain,
+    token: quote.token,
+    wallet_address: walletAddress?.toLowerCase(),
+    sender_address: senderAddress,
+    expires_at: new Date(Date.now() + QUOTE_CONFIG.TTL_MS).toISOString(),
+  };
+
+  const record = await DatabaseService.createOfframpQuote({
+    ...terms,
+    signature: signQuote(terms),
+    correlation_id: correlationId,
+  });
+  return toLockedQuote(record, quote.fundingModel);
+}
+
+/**
+ * Quote a specific provider and lock the result
+ */
+export async function issueQuote(
+  provider: OfframpProvider,
+  request: OfframpQuoteRequest,
+  walletAddress?: string,
+  correlationId?: string,
+  senderAddress?: string
+): Promise<OfframpLockedQuote> {
+  let quote: OfframpQuote;
+  try {
+    quote = await provider.quote(request);
+  } catch (error) {
+    if (error instanceof OfframpError) throw error;
+    throw new OfframpError(
+      error instanceof Error ? error.message : 'Failed to fetch quote',
+      'PROVIDER_ERROR',
+      502
+    );
+  }
+
+  return lockQuote(quote, walletAddress, correlationId, senderAddress);
+}
+
+/**
+ * The provider a quote was issued for
+ *
+ * @throws OfframpError QUOTE_REQUIRED / QUOTE_INVALID
+ */
+export async function getQuoteProvider(quoteId: unknown): Promise<OfframpProvider> {
+  if (typeof quoteId !== 'string' || !quoteId) {
+    throw new OfframpError('quoteId is required - request a quote from /api/quotes first', 'QUOTE_REQUIRED');
+  }
+
+  const record = await DatabaseService.getOfframpQuote(quoteId).catch(() => null);
+  const provider = record ? getOfframpProvider(record.provider) : null;
+  if (!provider) {
+    throw new OfframpError('Quote not found', 'QUOTE_INVALID', 404);
+  }
+  return provider;
+}
+
+/**
+ * Look up a quote without redeeming it
+ *
+ * @throws OfframpError QUOTE_INVALID when it does not exist or its signature does not match
+ */
+export async function getQuote(quoteId: string, provider: OfframpProvider): Promise<OfframpLockedQuote> {
+  const record = await DatabaseService.getOfframpQuote(quoteId).catch(() => null);
+
+  if (!record || record.provider !== provider.id) {
+    throw new OfframpError('Quote not found', 'QUOTE_INVALID', 404);
+  }
+
+  if (!hasValidSignature(record)) {
+    logger.error('Quote signature mismatch', { quoteId });
+    throw new OfframpError('Quote failed verification', 'QUOTE_INVALID', 400);
+  }
+
+  return toLockedQuote(record, provider.fundingModel);
+}
+
+/**
+ * Verify a quote for a payout and mark it redeemed so it cannot fund a second one
+ *
+ * @throws OfframpError describing why the quote cannot be used
+ */
+export async function redeemQuote(
+  quoteId: string,
+  { provider, currency, amountUSDC, walletAddress }: RedeemQuoteParams
+): Promise<OfframpLockedQuote> {
+  const quote = await getQuote(quoteId, provider);
+
+  if (currency && quote.currency !== currency.toUpperCase()) {
+    throw new OfframpError(`Quote is for ${quote.currency}, not ${currency}`, 'QUOTE_MISMATCH');
+  }
+
+  if (amountUSDC !== undefined && Math.abs(amountUSDC - quote.amountUSDC) > QUOTE_CONFIG.AMOUNT_TOLERANCE_USDC) {
+    throw new OfframpError('Amount does not match the quote', 'QUOTE_MISMATCH', 400, undefined, {
+      quotedAmount: quote.amountUSDC,
+    });
+  }
+
+  if (quote.walletAddress && quote.walletAddress !== walletAddress?.toLowerCase()) {
+    throw new OfframpError('Quote was issued for a different wallet', 'QUOTE_MISMATCH');
+  }
+
+  const graceMs = provider.fundingModel === 'deposit_first' ? QUOTE_CONFIG.DEPOSIT_GRACE_MS : 0;
+  if (new Date(quote.validUntil).getTime() + graceMs <= Date.now()) {
+    throw new OfframpError('Quote has expired - request a new one', 'QUOTE_EXPIRED', 410, undefined, {
+      expiredAt: quote.validUntil,
+    });
+  }
+
+  const redeemed = await DatabaseService.redeemOfframpQuote(quote.id);
+  if (!redeemed) {
+    throw new OfframpError('Quote has already been used', 'QUOTE_ALREADY_USED', 409);
+  }
+
+  return quote;
+}
+
+/**
+ * Reject the rate field on order-creation requests - the rate only ever comes from a quote
+ */
+export function rejectClientRate(body: Record<string, unknown>): void {
+  if (body.rate !== undefined && body.rate !== null) {
+    throw new OfframpError(
+      'Rates are not accepted from clients - request a quote from /api/quotes and send its quoteId',
+      'RATE_NOT_ACCEPTED'
+    );
+  }
+}
+
+/**
+ * Redeem the quote, check the wallet's transaction limits and screen the wallet and
+ * recipient, then create the payout at the quote's terms and link the two. The quote
+ * is released again if the payout could not be created
+ *
+ * @throws OfframpError UNDER_REVIEW (202) when screening holds the payout for review
+ */
+export async function createQuotedPayout(
+  provider: OfframpProvider,
+  quoteId: unknown,
+  request: Omit<OfframpPayoutRequest, 'quote' | 'rate' | 'amountUSDC' | 'localAmount'> & { amountUSDC?: number }
+): Promise<OfframpPayoutResult> {
+  if (typeof quoteId !== 'string' || !quoteId) {
+    throw new OfframpError('quoteId is required - request a quote from /api/quotes first', 'QUOTE_REQUIRED');
+  }
+
+  const quote = await redeemQuote(quoteId, {
+    provider,
+    currency: request.currency,
+    amountUSDC: request.amountUSDC !== undefined && !isNaN(request.amountUSDC) ? request.amountUSDC : undefined,
+    walletAddress: request.returnAddress,
+  });
+
+  const payoutRequest: OfframpPayoutRequest = {
+    ...request,
+    currency: quote.currency,
+    amountUSDC: quote.amountUSDC,
+    quote,
+  };
+
+  let result: OfframpPayoutResult;
+  try {
+    await enforceTransactionLimits({
+      walletAddress: request.returnAddress,
+      currency: quote.currency,
+      amountUSDC: quote.amountUSDC,
+      // Paying many recipients at once is what a batch is for - only its wallet caps apply
+      recipient: request.batchId ? undefined : request.recipient,
+    });
+
+    const screening = await screenPayout(provider, payoutRequest);
+    if (screening.decision === 'review') {
+      // The quote stays redeemed - it funds the held payout if an admin approves it
+      throw await holdPayoutForReview(provider, payoutRequest, screening);
+    }
+
+    result = await createOfframpPayout(provider, payoutRequest);
+  } catch (error) {
+    if (error instanceof OfframpError && error.code === 'UNDER_REVIEW') throw error;
+
+    await DatabaseService.releaseOfframpQuote(quote.id).catch((releaseError) => {
+      logger.error('Failed to release quote', { quoteId: quote.id, error: releaseError });
+    });
+    throw error;
+  }
+
+  await DatabaseService.completeOfframpQuote(quote.id, result.orderId).catch((linkError) => {
+    logger.error('Failed to link quote to order', { quoteId: quote.id, orderId: result.orderId, error: linkError });
+  });
+
+  return result;
+}
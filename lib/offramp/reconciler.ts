@@ -0,0 +1,334 @@
+// Off-ramp Reconciler
+// Polls providers for orders pending past their SLA and applies the transitions a dropped
+// webhook never delivered. Orders that still can't be resolved are flagged for support.
+import { DatabaseService, type Order, type PretiumOrder } from '@/lib/supabase/config';
+import { handlePaycrestOrderClosed } from '@/lib/refunds';
+import { createLogger } from '@/lib/logger';
+import { pretiumProvider } from './providers/pretium';
+import { paycrestProvider } from './providers/paycrest';
+import { failoverPretiumPayout } from './failover';
+import type { OfframpProviderId, OfframpStatusResult } from './types';
+
+const logger = createLogger('offramp-reconciler');
+
+export const RECONCILER_CONFIG = {
+  // How long an order may stay pending before we poll its provider
+  SLA_MINUTES: {
+    KES: 10, // M-Pesa usually settles in seconds
+    UGX: 15,
+    GHS: 20,
+    NGN: 30, // Bank transfers take longest
+  } as Record<string, number>,
+  DEFAULT_SLA_MINUTES: 30,
+  // Orders polled per provider per run - keeps one run inside the function timeout
+  BATCH_SIZE: parseInt(process.env.RECONCILER_BATCH_SIZE || '25'),
+  // Flag an order once this many checks past its SLA have not resolved it
+  FLAG_AFTER_ATTEMPTS: 3,
+  // Older orders are left to support
+  LOOKBACK_DAYS: 7,
+};
+
+export type ReconcileAction = 'updated' | 'unchanged' | 'flagged' | 'error';
+
+export interface ReconcileResult {
+  provider: OfframpProviderId;
+  orderId: string; // Pretium transaction code or PayCrest order ID
+  currency: string;
+  previousStatus: string;
+  providerStatus?: string;
+  newStatus?: string;
+  action: ReconcileAction;
+  error?: string;
+}
+
+export interface ReconcileSummary {
+  startedAt: string;
+  finishedAt: string;
+  checked: number;
+  updated: number;
+  unchanged: number;
+  flagged: number;
+  errors: number;
+  results: ReconcileResult[];
+}
+
+export function getOrderSlaMinutes(currency: string): number {
+  return RECONCILER_CONFIG.SLA_MINUTES[currency] ?? RECONCILER_CONFIG.DEFAULT_SLA_MINUTES;
+}
+
+function isPastSla(createdAt: string, currency: string, now: Date): boolean {
+  return now.getTime() - new Date(createdAt).getTime() > getOrderSlaMinutes(currency) * 60 * 1000;
+}
+
+async function notifyOrderCompleted(fid: number | undefined, currency: string, amount: number, orderId: string) {
+  if (!fid) return;
+
+  try {
+    const { sendNotificationToUser, createTransactionNotification } = await import('@/lib/services/neynar-notifications');
+    await sendNotificationToUser(fid, createTransactionNotification('validated', { currency, amount, orderId }));
+  } catch {
+    // Notification failures never block reconciliation
+  }
+}
+
+/**
+ * Count a check that did not resolve the order, flagging it once it has used up its attempts
+ */
+async function recordUnresolved(
+  provider: OfframpProviderId,
+  order: PretiumOrder | Order,
+  result: Omit<ReconcileResult, 'action'>,
+  reason: string
+): Promise<ReconcileResult> {
+  const attempts = (order.reconcile_attempts || 0) + 1;
+  const shouldFlag = !order.flagged_at && attempts >= RECONCILER_CONFIG.FLAG_AFTER_ATTEMPTS;
+  const flagReason = shouldFlag ? `${reason} after ${attempts} reconciliation checks` : undefined;
+
+  await DatabaseService.recordReconcileAttempt(provider, order.id, attempts, flagReason);
+
+  if (shouldFlag) {
+    await DatabaseService.logOrderStatusHistory({
+      provider,
+      orderId: order.id,
+      providerOrderId: result.orderId,
+      event: 'reconcile_flagged',
+      oldStatus: order.status,
+      providerStatus: result.providerStatus,
+      reason: flagReason,
+    }).catch((error) => logger.error('Failed to log reconcile flag', { error }));
+
+    await DatabaseService.logAnalyticsEvent('order_reconcile_flagged', order.wallet_address, {
+      provider,
+      order_id: result.orderId,
+      reason: flagReason,
+    });
+
+    return { ...result, action: 'flagged' };
+  }
+
+  return { ...result, action: result.error ? 'error' : 'unchanged' };
+}
+
+async function logReconciled(
+  provider: OfframpProviderId,
+  order: PretiumOrder | Order,
+  providerOrderId: string,
+  status: OfframpStatusResult,
+  newStatus: string
+) {
+  await DatabaseService.recordReconcileAttempt(provider, order.id, (order.reconcile_attempts || 0) + 1);
+
+  await DatabaseService.logOrderStatusHistory({
+    provider,
+    orderId: order.id,
+    providerOrderId,
+    event: 'reconciled',
+    oldStatus: order.status,
+    newStatus,
+    providerStatus: status.providerStatus,
+    reason: 'Applied by reconciler - webhook not received',
+  }).catch((error) => logger.error('Failed to log reconciled transition', { error }));
+
+  await DatabaseService.logAnalyticsEvent('order_reconciled', order.wallet_address, {
+    provider,
+    order_id: providerOrderId,
+    old_status: order.status,
+    new_status: newStatus,
+    provider_status: status.providerStatus,
+  });
+}
+
+async function reconcilePretiumOrder(order: PretiumOrder): Promise<ReconcileResult> {
+  const base = {
+    provider: 'pretium' as const,
+    orderId: order.transaction_code,
+    currency: order.local_currency,
+    previousStatus: order.status,
+  };
+
+  let status: OfframpStatusResult;
+  try {
+    status = await pretiumProvider.getStatus(order.transaction_code, order.local_currency);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Status check failed';
+    return recordUnresolved('pretium', order, { ...base, error: message }, 'Pretium status check failing');
+  }
+
+  const result = { ...base, providerStatus: status.providerStatus };
+  const rawStatus = { source: 'reconciler', ...status.raw };
+
+  if (status.status === 'completed') {
+    const updated = await DatabaseService.updatePretiumOrderStatus(
+      order.transaction_code,
+      'completed',
+      status.providerStatus,
+      status.receiptNumber,
+      status.recipientName,
+      undefined,
+      rawStatus
+    );
+    if (updated.status !== 'completed') {
+      return { ...result, newStatus: updated.status, action: 'unchanged' };
+    }
+
+    await logReconciled('pretium', order, order.transaction_code, status, 'completed');
+    await notifyOrderCompleted(order.fid, order.local_currency, order.amount_in_local, order.transaction_code);
+    return { ...result, newStatus: 'completed', action: 'updated' };
+  }
+
+  if (status.status === 'failed') {
+    const updated = await DatabaseService.updatePretiumOrderStatus(
+      order.transaction_code,
+      'failed',
+      status.providerStatus,
+      undefined,
+      undefined,
+      status.message,
+      rawStatus
+    );
+    if (updated.status !== 'failed') {
+      return { ...result, newStatus: updated.status, action: 'unchanged' };
+    }
+
+    await logReconciled('pretium', order, order.transaction_code, status, 'failed');
+
+    try {
+      await failoverPretiumPayout(updated, status.message);
+    } catch (error) {
+      logger.error('Failover error (non-fatal)', { transactionCode: order.transaction_code, error });
+    }
+
+    return { ...result, newStatus: 'failed', action: 'updated' };
+  }
+
+  return recordUnresolved('pretium', order, result, `Still ${status.providerStatus} at Pretium`);
+}
+
+async function reconcilePaycrestOrder(order: Order): Promise<ReconcileResult> {
+  const base = {
+    provider: 'paycrest' as const,
+    orderId: order.paycrest_order_id,
+    currency: order.local_currency,
+    previousStatus: order.status,
+  };
+
+  let status: OfframpStatusResult;
+  try {
+    status = await paycrestProvider.getStatus(order.paycrest_order_id, order.local_currency);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : (error as { message?: string })?.message || 'Status check failed';
+    return recordUnresolved('paycrest', order, { ...base, error: message }, 'PayCrest status check failing');
+  }
+
+  const result = { ...base, providerStatus: status.providerStatus };
+  const raw = status.raw as { txHash?: string; amountPaid?: string };
+
+  if (status.status === 'completed') {
+    const updated = await DatabaseService.updateOrderStatus(order.paycrest_order_id, 'completed', status.providerStatus, {
+      transaction_hash: raw.txHash,
+      completed_at: new Date().toISOString(),
+    });
+    if (updated.status !== 'completed') {
+      return { ...result, newStatus: updated.status, action: 'unchanged' };
+    }
+
+    try {
+      await DatabaseService.createSettlement({
+        order_id: order.id,
+        paycrest_settlement_id: order.paycrest_order_id,
+        settlement_amount: order.amount_in_local,
+        settlement_currency: order.local_currency,
+        settlement_method: order.carrier === 'MPESA' ? 'M-PESA' : 'Mobile Money',
+        settled_at: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Failed to create settlement', { orderId: order.paycrest_order_id, error });
+    }
+
+    await logReconciled('paycrest', order, order.paycrest_order_id, status, 'completed');
+    await notifyOrderCompleted(order.fid, order.local_currency, order.amount_in_local, order.id);
+    return { ...result, newStatus: 'completed', action: 'updated' };
+  }
+
+  if (status.status === 'failed' || status.status === 'refunded' || status.status === 'expired') {
+    const updated = await DatabaseService.updateOrderStatus(order.paycrest_order_id, 'failed', status.providerStatus);
+    if (updated.status !== 'failed') {
+      return { ...result, newStatus: updated.status, action: 'unchanged' };
+    }
+
+    await logReconciled('paycrest', order, order.paycrest_order_id, status, 'failed');
+
+    try {
+      await handlePaycrestOrderClosed(order, status.providerStatus, raw.amountPaid);
+    } catch (error) {
+      logger.error('Refund handling error (non-fatal)', { orderId: order.paycrest_order_id, error });
+    }
+
+    return { ...result, newStatus: 'failed', action: 'updated' };
+  }
+
+  return recordUnresolved('paycrest', order, result, `Still ${status.providerStatus} at PayCrest`);
+}
+
+/**
+ * One reconciliation pass over both providers. Orders are checked one at a time
+ * so a slow provider can't fan out into a burst of API calls
+ */
+export async function reconcileStuckOrders(now = new Date()): Promise<ReconcileSummary> {
+  const startedAt = now.toISOString();
+  const shortestSla = Math.min(RECONCILER_CONFIG.DEFAULT_SLA_MINUTES, ...Object.values(RECONCILER_CONFIG.SLA_MINUTES));
+  const createdBefore = new Date(now.getTime() - shortestSla * 60 * 1000).toISOString();
+  const createdAfter = new Date(now.getTime() - RECONCILER_CONFIG.LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const [pretiumOrders, paycrestOrders] = await Promise.all([
+    DatabaseService.getUnresolvedOrdersForReconciliation('pretium', createdAfter, createdBefore, RECONCILER_CONFIG.BATCH_SIZE),
+    DatabaseService.getUnresolvedOrdersForReconciliation('paycrest', createdAfter, createdBefore, RECONCILER_CONFIG.BATCH_SIZE),
+  ]);
+
+  const results: ReconcileResult[] = [];
+
+  const run = async (provider: OfframpProviderId, order: PretiumOrder | Order) => {
+    if (!isPastSla(order.created_at, order.local_currency, now)) return;
+
+    try {
+      results.push(provider === 'pretium'
+        ? await reconcilePretiumOrder(order as PretiumOrder)
+        : await reconcilePaycrestOrder(order as Order));
+    } catch (error) {
+      results.push({
+        provider,
+        orderId: provider === 'pretium' ? (order as PretiumOrder).transaction_code : (order as Order).paycrest_order_id,
+        currency: order.local_currency,
+        previousStatus: order.status,
+        action: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  for (const order of pretiumOrders) await run('pretium', order);
+  for (const order of paycrestOrders) await run('paycrest', order);
+
+  const count = (action: ReconcileAction) => results.filter((r) => r.action === action).length;
+
+  const summary: ReconcileSummary = {
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    checked: results.length,
+    updated: count('updated'),
+    unchanged: count('unchanged'),
+    flagged: count('flagged'),
+    errors: count('error'),
+    results,
+  };
+
+  logger.info('Run complete', {
+    checked: summary.checked,
+    updated: summary.updated,
+    unchanged: summary.unchanged,
+    flagged: summary.flagged,
+    errors: summary.errors,
+  });
+
+  return summary;
+}
@@ -0,0 +1,195 @@
+// Off-ramp Risk Reviews
+// Payouts flagged by risk screening are held in payout_reviews instead of being sent
+// to the provider. Approving a deposit-first payout (Pretium) creates it from the
+// stored request - the USDC is already with us. Approving an order-first one
+// (PayCrest) clears the wallet and recipient so the user can place the order again,
+// since no USDC has moved yet. Rejecting can refund a held deposit and deny-list
+// whoever raised the signals.
+import { DatabaseService, type PayoutReview } from '@/lib/supabase/config';
+import { riskScreeningService, RISK_CONFIG, type RiskScreeningResult } from '@/lib/risk';
+import { openReviewRefund } from '@/lib/refunds/refund-service';
+import { createLogger } from '@/lib/logger';
+import { OfframpError } from './errors';
+import { createOfframpPayout, getOfframpProvider } from './router';
+import type { OfframpPayoutRequest, OfframpProvider } from './types';
+
+const logger = createLogger('payout-reviews');
+
+/**
+ * Screen the wallet and recipient of a payout. A payout an admin already approved
+ * for the same wallet and recipient is let through
+ */
+export async function screenPayout(provider: OfframpProvider, request: OfframpPayoutRequest): Promise<RiskScreeningResult> {
+  const screening = await riskScreeningService.screen({
+    walletAddress: request.returnAddress,
+    recipient: request.recipient,
+  });
+
+  if (screening.decision === 'review' && provider.fundingModel === 'order_first') {
+    const since = new Date(Date.now() - RISK_CONFIG.APPROVAL_TTL_MS).toISOString();
+    if (await DatabaseService.hasApprovedPayoutReview(request.returnAddress, screening.recipientHash, since)) {
+      return { ...screening, decision: 'clear' };
+    }
+  }
+
+  return screening;
+}
+
+/**
+ * Store a flagged payout for review. Returns the UNDER_REVIEW error (202) the
+ * route sends back instead of an order
+ */
+export async function holdPayoutForReview(
+  provider: OfframpProvider,
+  request: OfframpPayoutRequest,
+  screening: RiskScreeningResult
+): Promise<OfframpError> {
+  const review = await DatabaseService.createPayoutReview({
+    provider: provider.id,
+    walletAddress: request.returnAddress,
+    currency: request.currency,
+    amountUsdc: request.amountUSDC,
+    quoteId: request.quote?.id,
+    transactionHash: request.transactionHash,
+    recipientHash: screening.recipientHash,
+    payoutRequest: request as unknown as Record<string, unknown>,
+    signals: screening.signals,
+    correlationId: request.correlationId,
+  });
+
+  await DatabaseService.logAnalyticsEvent('payout_held_for_review', request.returnAddress, {
+    review_id: review.id,
+    provider: provider.id,
+    providers: [...new Set(screening.signals.map((signal) => signal.provider))],
+    correlation_id: request.correlationId,
+  }).catch(() => undefined);
+
+  const message = provider.fundingModel === 'deposit_first'
+    ? 'This payment is being reviewed. Once checked it will be paid out, or your USDC refunded.'
+    : 'This payment needs a review before it can go through. No USDC has been sent - please try again later.';
+
+  return new OfframpError(message, 'UNDER_REVIEW', 202, undefined, { reviewId: review.id, status: review.status });
+}
+
+async function requireReview(reviewId: string): Promise<PayoutReview> {
+  const review = await DatabaseService.getPayoutReview(reviewId);
+  if (!review) {
+    throw new OfframpError('Review not found', 'INVALID_REQUEST', 404);
+  }
+  return review;
+}
+
+function alreadyDecided(review: PayoutReview): OfframpError {
+  return new OfframpError(`Review is already ${review.status}`, 'INVALID_REQUEST', 409, { status: review.status });
+}
+
+/**
+ * Approve a held payout. Deposit-first payouts are created now; if that fails the
+ * review goes back to 'review' with the error so it can be retried
+ */
+export async function approvePayoutReview(reviewId: string, reviewer: string, note?: string): Promise<PayoutReview> {
+  const review = await requireReview(reviewId);
+  const provider = getOfframpProvider(review.provider);
+  if (!provider) {
+    throw new OfframpError(`Unknown provider ${review.provider}`, 'UNSUPPORTED_ROUTE', 500);
+  }
+
+  // Claim the review first so two admins cannot both create the payout
+  const approved = await DatabaseService.transitionPayoutReview(reviewId, ['review'], {
+    status: 'approved',
+    reviewed_by: reviewer,
+    reviewed_at: new Date().toISOString(),
+    review_note: note,
+    error_message: null,
+  });
+  if (!approved) {
+    throw alreadyDecided(await requireReview(reviewId));
+  }
+
+  if (provider.fundingModel === 'order_first') {
+    return approved;
+  }
+
+  let orderId: string;
+  try {
+    const result = await createOfframpPayout(provider, approved.payout_request as unknown as OfframpPayoutRequest);
+    orderId = result.orderId;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await DatabaseService.transitionPayoutReview(reviewId, ['approved'], {
+      status: 'review',
+      reviewed_by: null,
+      reviewed_at: null,
+      error_message: message,
+    });
+    throw new OfframpError(`Payout could not be created: ${message}`, 'PROVIDER_ERROR', 502);
+  }
+
+  if (approved.quote_id) {
+    await DatabaseService.completeOfframpQuote(approved.quote_id, orderId).catch((linkError) => {
+      logger.error('Failed to link quote to order', { quoteId: approved.quote_id, orderId, error: linkError });
+    });
+  }
+
+  const linked = await DatabaseService.transitionPayoutReview(reviewId, ['approved'], { order_reference: orderId });
+  return linked || approved;
+}
+
+/**
+ * Reject a held payout
+ *
+ * @param options.refund - open a refund case for the held deposit (deposit-first only)
+ * @param options.denyList - deny-list the wallet and/or recipient that raised the signals
+ */
+export async function rejectPayoutReview(
+  reviewId: string,
+  reviewer: string,
+  options: { note: string; refund?: boolean; denyList?: boolean }
+): Promise<PayoutReview> {
+  if (!options.note?.trim()) {
+    throw new OfframpError('A note is required to reject a review', 'INVALID_REQUEST');
+  }
+
+  const review = await requireReview(reviewId);
+  const provider = getOfframpProvider(review.provider);
+  if (options.refund && provider?.fundingModel !== 'deposit_first') {
+    throw new OfframpError('Nothing to refund - no USDC was sent for this payout', 'INVALID_REQUEST');
+  }
+
+  const rejected = await DatabaseService.transitionPayoutReview(reviewId, ['review'], {
+    status: 'rejected',
+    reviewed_by: reviewer,
+    reviewed_at: new Date().toISOString(),
+    review_note: options.note,
+  });
+  if (!rejected) {
+    throw alreadyDecided(await requireReview(reviewId));
+  }
+
+  if (options.denyList) {
+    const subjects = new Set(rejected.signals.map((signal) => signal.subject));
+    if (subjects.has('wallet')) {
+      await DatabaseService.addRiskDenyListEntry({
+        type: 'wallet',
+        value: rejected.wallet_address.toLowerCase(),
+        reason: options.note,
+        createdBy: reviewer,
+      });
+    }
+    if (subjects.has('recipient') && rejected.recipient_hash) {
+      await DatabaseService.addRiskDenyListEntry({
+        type: 'recipient',
+        value: rejected.recipient_hash,
+        reason: options.note,
+        createdBy: reviewer,
+      });
+    }
+  }
+
+  if (options.refund) {
+    const refund = await openReviewRefund(rejected, `Payout rejected in risk review: ${options.note}`, reviewer);
+    return (await DatabaseService.transitionPayoutReview(reviewId, ['rejected'], { refund_id: refund.id })) || rejected;
+  }
+
+  return rejected;
+}
@@ -0,0 +1,229 @@
+// Off-ramp Router
+// Picks the payout rail for a currency + payment type from health, rate and success rate
+import { DatabaseService } from '@/lib/supabase/config';
+import { createLogger } from '@/lib/logger';
+import { pretiumProvider } from './providers/pretium';
+import { paycrestProvider } from './providers/paycrest';
+import { OfframpError } from './errors';
+import type { PretiumChain } from '@/lib/pretium/types';
+import type { StablecoinToken } from '@/lib/contracts';
+import type {
+  OfframpPaymentType,
+  OfframpPayoutRequest,
+  OfframpPayoutResult,
+  OfframpProvider,
+  OfframpProviderId,
+  OfframpQuote,
+  OfframpQuoteRequest,
+} from './types';
+
+const logger = createLogger('offramp-router');
+
+export const OFFRAMP_ROUTER_CONFIG = {
+  // Window and minimum sample size for the historical success rate
+  SUCCESS_RATE_WINDOW_MS: 7 * 24 * 60 * 60 * 1000,
+  SUCCESS_RATE_MIN_SAMPLE: 10,
+  SUCCESS_RATE_CACHE_MS: 5 * 60 * 1000,
+
+  // A provider that fails to quote is skipped for this long
+  UNHEALTHY_COOLDOWN_MS: 2 * 60 * 1000,
+  QUOTE_TIMEOUT_MS: 8000,
+
+  // Comma-separated provider IDs to take out of rotation, e.g. OFFRAMP_DISABLED_PROVIDERS=paycrest
+  DISABLED_PROVIDERS: (process.env.OFFRAMP_DISABLED_PROVIDERS || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean),
+};
+
+const providers: Record<OfframpProviderId, OfframpProvider> = {
+  pretium: pretiumProvider,
+  paycrest: paycrestProvider,
+};
+
+export interface RankedOfframpQuote {
+  quote: OfframpQuote;
+  successRate: number;
+  effectiveRate: number; // Local currency delivered per USDC the user spends
+  score: number;
+}
+
+export interface OfframpRoute {
+  provider: OfframpProvider;
+  quote: OfframpQuote;
+  alternatives: RankedOfframpQuote[];
+  unavailable: { provider: OfframpProviderId; reason: string }[];
+}
+
+// Per-instance health and success-rate memory (serverless instances warm up independently)
+const unhealthyUntil = new Map<OfframpProviderId, number>();
+const successRateCache = new Map<string, { rates: Record<OfframpProviderId, number>; timestamp: number }>();
+
+export function getOfframpProvider(id: string): OfframpProvider | null {
+  return providers[id as OfframpProviderId] || null;
+}
+
+export function isProviderHealthy(id: OfframpProviderId): boolean {
+  return (unhealthyUntil.get(id) || 0) <= Date.now();
+}
+
+/**
+ * Take a provider out of rotation for the cooldown period
+ */
+export function markProviderUnhealthy(id: OfframpProviderId): void {
+  unhealthyUntil.set(id, Date.now() + OFFRAMP_ROUTER_CONFIG.UNHEALTHY_COOLDOWN_MS);
+}
+
+/**
+ * Providers that can pay out in the currency via the payment type, ignoring health.
+ * With a chain and token, only those that accept that token on that chain
+ */
+export function getEligibleProviders(
+  currency: string,
+  paymentType: OfframpPaymentType,
+  chain?: PretiumChain,
+  token?: StablecoinToken
+): OfframpProvider[] {
+  return Object.values(providers).filter(
+    (provider) =>
+      !OFFRAMP_ROUTER_CONFIG.DISABLED_PROVIDERS.includes(provider.id) &&
+      provider.supports(currency, paymentType, chain, token)
+  );
+}
+
+/**
+ * Historical success rate (completed / finished) per provider for a currency.
+ * Providers with too few finished orders get the benefit of the doubt (1.0)
+ */
+async function getSuccessRates(currency: string): Promise<Record<OfframpProviderId, number>> {
+  const cached = successRateCache.get(currency);
+  if (cached && Date.now() - cached.timestamp < OFFRAMP_ROUTER_CONFIG.SUCCESS_RATE_CACHE_MS) {
+    return cached.rates;
+  }
+
+  const rates: Record<OfframpProviderId, number> = { pretium: 1, paycrest: 1 };
+
+  try {
+    const since = new Date(Date.now() - OFFRAMP_ROUTER_CONFIG.SUCCESS_RATE_WINDOW_MS).toISOString();
+    const outcomes = await DatabaseService.getOfframpProviderOutcomes(currency, since);
+
+    for (const id of Object.keys(outcomes) as OfframpProviderId[]) {
+      const { completed, failed } = outcomes[id];
+      const finished = completed + failed;
+      if (finished >= OFFRAMP_ROUTER_CONFIG.SUCCESS_RATE_MIN_SAMPLE) {
+        rates[id] = completed / finished;
+      }
+    }
+  } catch (error) {
+    logger.error('Failed to load provider success rates', { currency, error });
+  }
+
+  successRateCache.set(currency, { rates, timestamp: Date.now() });
+  return rates;
+}
+
+async function quoteWithTimeout(provider: OfframpProvider, request: OfframpQuoteRequest): Promise<OfframpQuote> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(
+      () => reject(new Error(`${provider.id} quote timed out`)),
+      OFFRAMP_ROUTER_CONFIG.QUOTE_TIMEOUT_MS
+    );
+  });
+
+  try {
+    return await Promise.race([provider.quote(request), timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Quote every eligible, healthy provider and rank them by expected payout:
+ * effective rate (local currency per USDC spent, fees included) × success rate.
+ * Providers that fail to quote are marked unhealthy for the cooldown period.
+ */
+export async function routeOfframp(request: OfframpQuoteRequest): Promise<OfframpRoute> {
+  const eligible = getEligibleProviders(request.currency, request.paymentType, request.chain, request.token);
+
+  if (eligible.length === 0) {
+    throw new OfframpError(
+      `No provider supports ${request.paymentType} payouts in ${request.currency}` +
+        (request.token ? ` funded with ${request.token}` : '') +
+        (request.chain ? ` on ${request.chain}` : ''),
+      'UNSUPPORTED_ROUTE'
+    );
+  }
+
+  const unavailable: OfframpRoute['unavailable'] = [];
+  const healthy = eligible.filter((provider) => {
+    if (isProviderHealthy(provider.id)) return true;
+    unavailable.push({ provider: provider.id, reason: 'cooling down after recent failure' });
+    return false;
+  });
+
+  // If every eligible provider is cooling down, try them all anyway rather than refuse
+  const candidates = healthy.length > 0 ? healthy : eligible;
+
+  const [successRates, quoteResults] = await Promise.all([
+    getSuccessRates(request.currency),
+    Promise.allSettled(candidates.map((provider) => quoteWithTimeout(provider, request))),
+  ]);
+
+  const ranked: RankedOfframpQuote[] = [];
+
+  quoteResults.forEach((result, index) => {
+    const provider = candidates[index];
+
+    if (result.status === 'rejected') {
+      const reason = result.reason instanceof Error ? result.reason.message : 'quote failed';
+      logger.warn('Provider quote failed', { provider: provider.id, reason });
+      markProviderUnhealthy(provider.id);
+      unavailable.push({ provider: provider.id, reason });
+      return;
+    }
+
+    const quote = result.value;
+    const successRate = successRates[provider.id];
+    const effectiveRate = quote.totalUSDC > 0 ? quote.recipientAmount / quote.totalUSDC : 0;
+
+    ranked.push({ quote, successRate, effectiveRate, score: effectiveRate * successRate });
+  });
+
+  if (ranked.length === 0) {
+    throw new OfframpError(
+      `No provider is currently available for ${request.currency}`,
+      'NO_PROVIDER_AVAILABLE',
+      503,
+      unavailable
+    );
+  }
+
+  ranked.sort((a, b) => b.score - a.score);
+  const [best, ...alternatives] = ranked;
+
+  return {
+    provider: providers[best.quote.provider],
+    quote: best.quote,
+    alternatives,
+    unavailable,
+  };
+}
+
+/**
+ * Create the payout on a provider, taking it out of rotation when the provider itself errors
+ */
+export async function createOfframpPayout(
+  provider: OfframpProvider,
+  request: OfframpPayoutRequest
+): Promise<OfframpPayoutResult> {
+  try {
+    return await provider.createPayout(request);
+  } catch (error) {
+    if (error instanceof OfframpError && error.code === 'PROVIDER_ERROR' && error.statusCode >= 500) {
+      markProviderUnhealthy(provider.id);
+    }
+    throw error;
+  }
+}
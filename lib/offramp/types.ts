@@ -0,0 +1,152 @@
+// Off-ramp Provider Types
+// One interface for every payout rail (Paycrest, Pretium, ...)
+import type { PretiumChain } from '@/lib/pretium/types';
+import type { StablecoinToken } from '@/lib/contracts';
+
+export type OfframpProviderId = 'pretium' | 'paycrest';
+
+export type OfframpPaymentType = 'MOBILE' | 'BUY_GOODS' | 'PAYBILL' | 'BANK_TRANSFER';
+
+/**
+ * How the user's USDC reaches the provider:
+ * - deposit_first: user sends USDC to a settlement address, then we request the payout with the tx hash (Pretium)
+ * - order_first: we create the order, then the user sends USDC to the returned receive address (Paycrest)
+ */
+export type OfframpFundingModel = 'deposit_first' | 'order_first';
+
+export type OfframpStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'refunded' | 'expired';
+
+export interface OfframpRecipient {
+  accountName: string;
+  phoneNumber?: string;
+  tillNumber?: string;
+  paybillNumber?: string;
+  paybillAccount?: string;
+  accountNumber?: string;
+  bankCode?: string;
+  bankName?: string;
+}
+
+export interface OfframpQuoteRequest {
+  currency: string;
+  amountUSDC: number;
+  localAmount?: number; // Exact amount the recipient should get, when the user typed it
+  paymentType: OfframpPaymentType;
+  chain?: PretiumChain; // Chain the USDC is sent on - defaults to BASE
+  token?: StablecoinToken; // Stablecoin sent - defaults to USDC
+}
+
+export interface OfframpQuote {
+  provider: OfframpProviderId;
+  currency: string;
+  paymentType: OfframpPaymentType;
+  fundingModel: OfframpFundingModel;
+  amountUSDC: number; // Amounts are in `token`, USDC unless set
+  totalUSDC: number; // What the user actually sends, including fees
+  rate: number;
+  recipientAmount: number; // Local currency the recipient receives
+  fee: number; // Platform fee in local currency
+  depositAddress?: string; // Known upfront for deposit_first providers
+  chain?: PretiumChain; // Chain depositAddress is on - BASE when unset
+  token?: StablecoinToken; // Stablecoin the user sends - USDC when unset
+  validUntil: string;
+}
+
+/**
+ * A quote stored and signed by /api/quotes. Payouts are created at exactly these terms
+ */
+export interface OfframpLockedQuote extends OfframpQuote {
+  id: string;
+  signature: string;
+  walletAddress?: string; // Only this wallet can redeem the quote
+  senderAddress?: string; // deposit_first: only a deposit from this address funds the quote - returnAddress when unset
+  redeemedAt?: string;
+}
+
+export interface OfframpPayoutRequest {
+  requestId: string;
+  correlationId?: string; // Client payment correlation ID (X-Correlation-Id)
+  currency: string;
+  amountUSDC: number;
+  localAmount?: number;
+  quote?: OfframpLockedQuote; // Pay out at the quote's rate and amounts
+  rate?: number; // Server-side only (e.g. failover) - never taken from a client
+  recipient: OfframpRecipient;
+  returnAddress: string;
+  transactionHash?: string; // Required by deposit_first providers
+  fundingSource?: 'wallet' | 'treasury'; // treasury: we fund the order, so the user's balance is not checked
+  fundingAddress?: string; // deposit_first, server-side only (batch treasury): the address the deposit came from - never taken from a client
+  batchId?: string; // Row of a batch payout (lib/batches)
+  fid?: number;
+  clientFid?: number;
+  platformType?: string;
+  locationType?: string;
+  farcasterProfile?: {
+    username?: string;
+    displayName?: string;
+    pfpUrl?: string;
+  };
+}
+
+export interface OfframpPayoutResult {
+  provider: OfframpProviderId;
+  orderId: string; // Paycrest order ID or Pretium transaction code
+  status: OfframpStatus;
+  providerStatus: string;
+  paymentType: OfframpPaymentType;
+  rate: number;
+  recipientAmount: number;
+  fee: number;
+  depositAddress?: string; // order_first: where the user must send USDC
+  depositAmount?: number;
+  validUntil?: string;
+  warning?: string;
+  raw: Record<string, unknown>;
+}
+
+export interface OfframpStatusResult {
+  provider: OfframpProviderId;
+  orderId: string;
+  status: OfframpStatus;
+  providerStatus: string;
+  receiptNumber?: string;
+  recipientName?: string;
+  message?: string;
+  raw: Record<string, unknown>;
+}
+
+export interface OfframpWebhookRequest {
+  rawBody: string;
+  headers: Headers;
+  url: string;
+  clientIp: string;
+}
+
+export interface OfframpWebhookEvent {
+  provider: OfframpProviderId;
+  orderId: string;
+  status: OfframpStatus | null; // null when the event carries no status change (e.g. asset release)
+  providerStatus: string;
+  receiptNumber?: string;
+  recipientName?: string;
+  transactionHash?: string;
+  message?: string;
+  raw: Record<string, unknown>;
+}
+
+export interface OfframpProvider {
+  readonly id: OfframpProviderId;
+  readonly fundingModel: OfframpFundingModel;
+
+  /** Whether this rail can pay out in the currency via the payment type, funded with the token on the chain */
+  supports(currency: string, paymentType: OfframpPaymentType, chain?: PretiumChain, token?: StablecoinToken): boolean;
+
+  quote(request: OfframpQuoteRequest): Promise<OfframpQuote>;
+
+  createPayout(request: OfframpPayoutRequest): Promise<OfframpPayoutResult>;
+
+  getStatus(orderId: string, currency: string): Promise<OfframpStatusResult>;
+
+  /** Authenticate and normalize an incoming webhook - throws OfframpError when it is not genuine */
+  parseWebhook(request: OfframpWebhookRequest): OfframpWebhookEvent;
+}
@@ -0,0 +1,23 @@
+// Off-ramp helpers shared by providers and the router
+import type { OfframpPaymentType, OfframpRecipient } from './types';
+
+/**
+ * Derive the payment type from the recipient details the client sent.
+ * NGN is always a bank transfer; KES can be till, paybill or mobile money
+ */
+export function resolvePaymentType(currency: string, recipient: OfframpRecipient): OfframpPaymentType | null {
+  if (currency === 'NGN') return 'BANK_TRANSFER';
+  if (recipient.tillNumber && currency === 'KES') return 'BUY_GOODS';
+  if (recipient.paybillNumber && recipient.paybillAccount && currency === 'KES') return 'PAYBILL';
+  if (recipient.phoneNumber) return 'MOBILE';
+  return null;
+}
+
+/**
+ * Parse an optional numeric body field (numbers or numeric strings)
+ */
+export function parseOptionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(parsed) ? undefined : parsed;
+}
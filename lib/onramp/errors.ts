@@ -0,0 +1,27 @@
+// On-ramp Errors
+
+export type OnrampErrorCode =
+  | 'INVALID_REQUEST'
+  | 'UNSUPPORTED_CURRENCY'
+  | 'AMOUNT_OUT_OF_RANGE'
+  | 'NOT_FOUND'
+  | 'WALLET_REQUIRED'
+  | 'PROVIDER_ERROR';
+
+/**
+ * Error raised by the on-ramp service. Routes turn it into `{ error, code }` with `statusCode`
+ */
+export class OnrampError extends Error {
+  constructor(
+    message: string,
+    public readonly code: OnrampErrorCode,
+    public readonly statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'OnrampError';
+  }
+
+  toResponseBody(): Record<string, unknown> {
+    return { error: this.message, code: this.code };
+  }
+}
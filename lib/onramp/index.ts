@@ -0,0 +1,18 @@
+/**
+ * On-ramp Module Exports
+ * Buy USDC with mobile money through Pretium collections
+ */
+
+export {
+  ONRAMP_CONFIG,
+  getOnrampQuote,
+  createOnrampOrder,
+  getOnrampWallet,
+  getOnrampPayerKey,
+  getOnrampOrder,
+  listOnrampOrders,
+  applyOnrampWebhook,
+} from './onramp-service';
+
+export { OnrampError } from './errors';
+export type { OnrampErrorCode } from './errors';
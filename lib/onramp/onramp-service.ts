@@ -0,0 +1,373 @@
+// On-ramp Service
+// Buy USDC with mobile money (M-Pesa, MTN, Airtel) through Pretium. Pretium sends
+// the payer an STK push / payment prompt; once they pay it buys the USDC and
+// releases it on Base to the user's wallet. Both steps arrive on the Pretium
+// webhook under the order's transaction code.
+//
+// Order lifecycle: pending → paid → released, or pending → failed.
+import { DatabaseService, type OnrampOrderRecord } from '@/lib/supabase/config';
+import { pretiumClient } from '@/lib/pretium/client';
+import { PRETIUM_CONFIG, getPretiumCallbackUrl } from '@/lib/pretium/config';
+import type { PretiumApiError, PretiumOnrampRequest, PretiumWebhookPayload } from '@/lib/pretium/types';
+import { validateAndDetectKenyanNumber } from '@/lib/utils/phoneCarrier';
+import { validateAndDetectGhanaNumber } from '@/lib/utils/ghanaNetworkDetector';
+import { validateAndDetectUgandaNumber } from '@/lib/utils/ugandaNetworkDetector';
+import { sendNotificationToUser } from '@/lib/services/neynar-notifications';
+import { createLogger } from '@/lib/logger';
+import type { UserSession } from '@/lib/user-auth';
+import type { OnrampCurrency, OnrampOrder, OnrampOrderInput, OnrampQuote } from '@/lib/types/onramp';
+import { OnrampError } from './errors';
+
+const logger = createLogger('onramp');
+
+export const ONRAMP_CONFIG = {
+  // Pretium collects by mobile money in these; NGN would need bank collections
+  CURRENCIES: ['KES', 'GHS', 'UGX'] as OnrampCurrency[],
+  ASSET: 'USDC' as const,
+  // Same platform fee as off-ramp, taken in local currency before the USDC is bought
+  FEE_PERCENTAGE: PRETIUM_CONFIG.FEE_PERCENTAGE,
+  MIN_USDC: 1,
+  MAX_USDC: 1000,
+  // Orders still open after this long are checked against Pretium when polled
+  STATUS_REFRESH_AFTER_MS: 30 * 1000,
+  APP_URL: process.env.NEXT_PUBLIC_URL || 'https://app.minisend.xyz',
+};
+
+const WALLET_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+function parseCurrency(value: unknown): OnrampCurrency {
+  const currency = typeof value === 'string' ? value.toUpperCase() : '';
+  if (!ONRAMP_CONFIG.CURRENCIES.includes(currency as OnrampCurrency)) {
+    throw new OnrampError(
+      `Buying USDC is available in ${ONRAMP_CONFIG.CURRENCIES.join(', ')}`,
+      'UNSUPPORTED_CURRENCY'
+    );
+  }
+  return currency as OnrampCurrency;
+}
+
+function parseAmount(value: unknown): number {
+  const amount = Math.round(Number(value));
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new OnrampError('amount must be a positive number', 'INVALID_REQUEST');
+  }
+  return amount;
+}
+
+/**
+ * Payer's number in the local format Pretium expects (0XXXXXXXXX) and its network
+ *
+ * @throws OnrampError INVALID_REQUEST for a number that is not valid in the currency's country
+ */
+function formatPayer(currency: OnrampCurrency, phoneNumber: unknown): { shortcode: string; mobileNetwork: string } {
+  const raw = typeof phoneNumber === 'string' ? phoneNumber : '';
+
+  if (currency === 'KES') {
+    const result = validateAndDetectKenyanNumber(raw);
+    if (!result.isValid) throw new OnrampError(result.error || 'Invalid phone number', 'INVALID_REQUEST');
+    return {
+      shortcode: '0' + result.formattedNumber.substring(3),
+      mobileNetwork: result.carrier === 'AIRTEL' ? 'Airtel' : 'Safaricom',
+    };
+  }
+
+  const result = currency === 'GHS' ? validateAndDetectGhanaNumber(raw) : validateAndDetectUgandaNumber(raw);
+  if (!result.isValid) throw new OnrampError(result.error || 'Invalid phone number', 'INVALID_REQUEST');
+  return { shortcode: '0' + result.formattedNumber.substring(3), mobileNetwork: result.pretiumProvider };
+}
+
+/**
+ * The payer's number in its stored form, keyed by currency - for per-payer rate limits,
+ * which run before the order is validated. null when it is not a valid number
+ */
+export function getOnrampPayerKey(currencyValue: unknown, phoneNumber: unknown): string | null {
+  try {
+    const currency = parseCurrency(currencyValue);
+    return `${currency}:${formatPayer(currency, phoneNumber).shortcode}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The wallet a signed-in user buys USDC into and whose orders they see: the wallet
+ * they signed in with, or a Privy user's Minisend wallet
+ *
+ * @throws OnrampError WALLET_REQUIRED when a Privy user has no Minisend wallet yet
+ */
+export async function getOnrampWallet(session: UserSession): Promise<string> {
+  if (session.method === 'wallet') return session.owner;
+
+  const custodial = await DatabaseService.getCustodialWalletForOwner(session.owner);
+  if (!custodial) {
+    throw new OnrampError('Your Minisend wallet is not set up yet', 'WALLET_REQUIRED', 409);
+  }
+  return custodial.minisend_wallet.toLowerCase();
+}
+
+function toOnrampOrder(order: OnrampOrderRecord): OnrampOrder {
+  return {
+    id: order.id,
+    transactionCode: order.transaction_code,
+    currency: order.currency,
+    amountLocal: Number(order.amount_local),
+    fee: Number(order.fee_local),
+    rate: Number(order.exchange_rate),
+    amountUSDC: Number(order.amount_usdc),
+    walletAddress: order.wallet_address,
+    phoneNumber: order.phone_number,
+    mobileNetwork: order.mobile_network,
+    status: order.status,
+    receiptNumber: order.receipt_number || undefined,
+    releaseTxHash: order.release_tx_hash || undefined,
+    error: order.error_message || undefined,
+    createdAt: order.created_at,
+    paidAt: order.paid_at || undefined,
+    releasedAt: order.released_at || undefined,
+  };
+}
+
+/**
+ * What paying `amount` in the currency buys at Pretium's current selling rate
+ *
+ * @throws OnrampError AMOUNT_OUT_OF_RANGE outside MIN_USDC - MAX_USDC, PROVIDER_ERROR without a rate
+ */
+export async function getOnrampQuote(currencyValue: unknown, amountValue: unknown): Promise<OnrampQuote> {
+  const currency = parseCurrency(currencyValue);
+  const amountLocal = parseAmount(amountValue);
+
+  let rate: number;
+  try {
+    const response = await pretiumClient.getExchangeRate(currency);
+    // selling_rate: Pretium sells us the USDC
+    rate = response.data.selling_rate;
+  } catch (error) {
+    logger.error('Failed to get on-ramp rate', { currency, error });
+    throw new OnrampError(`No ${currency} rate is available right now`, 'PROVIDER_ERROR', 503);
+  }
+  if (!rate || rate <= 0) {
+    throw new OnrampError(`No ${currency} rate is available right now`, 'PROVIDER_ERROR', 503);
+  }
+
+  const fee = Math.ceil(amountLocal * ONRAMP_CONFIG.FEE_PERCENTAGE);
+  const amountUSDC = Math.floor(((amountLocal - fee) / rate) * 100) / 100;
+
+  if (amountUSDC < ONRAMP_CONFIG.MIN_USDC || amountUSDC > ONRAMP_CONFIG.MAX_USDC) {
+    throw new OnrampError(
+      `You can buy between ${ONRAMP_CONFIG.MIN_USDC} and ${ONRAMP_CONFIG.MAX_USDC} USDC at a time ` +
+        `(about ${Math.ceil(ONRAMP_CONFIG.MIN_USDC * rate / (1 - ONRAMP_CONFIG.FEE_PERCENTAGE))} - ` +
+        `${Math.floor(ONRAMP_CONFIG.MAX_USDC * rate)} ${currency})`,
+      'AMOUNT_OUT_OF_RANGE'
+    );
+  }
+
+  return { currency, amountLocal, fee, rate, amountUSDC };
+}
+
+/**
+ * Send the payer a mobile money prompt for the amount. The USDC is released to
+ * walletAddress (see getOnrampWallet) once they pay - see applyOnrampWebhook
+ *
+ * @throws OnrampError describing what is wrong with the request, or PROVIDER_ERROR
+ */
+export async function createOnrampOrder(
+  walletAddress: string,
+  input: unknown,
+  correlationId?: string
+): Promise<OnrampOrder> {
+  const body = (input || {}) as OnrampOrderInput;
+
+  if (!WALLET_PATTERN.test(walletAddress)) {
+    throw new OnrampError('walletAddress must be a wallet address', 'INVALID_REQUEST');
+  }
+
+  const fid = body.fid !== undefined && body.fid !== null ? Number(body.fid) : undefined;
+  if (fid !== undefined && (!Number.isInteger(fid) || fid < 1)) {
+    throw new OnrampError('fid must be a Farcaster user ID', 'INVALID_REQUEST');
+  }
+
+  const quote = await getOnrampQuote(body.currency, body.amount);
+  const { shortcode, mobileNetwork } = formatPayer(quote.currency, body.phoneNumber);
+  const log = logger.child({ currency: quote.currency, correlationId });
+
+  const onrampRequest: PretiumOnrampRequest = {
+    shortcode,
+    amount: quote.amountLocal,
+    fee: quote.fee,
+    mobile_network: mobileNetwork,
+    chain: PRETIUM_CONFIG.CHAIN,
+    asset: ONRAMP_CONFIG.ASSET,
+    address: walletAddress,
+    callback_url: getPretiumCallbackUrl(correlationId),
+  };
+
+  let transactionCode: string;
+  let pretiumStatus: string;
+  try {
+    const response = await pretiumClient.onramp(onrampRequest, quote.currency);
+    transactionCode = response.data.transaction_code;
+    pretiumStatus = response.data.status;
+  } catch (error) {
+    const apiError = error as PretiumApiError;
+    log.error('Pretium on-ramp request failed', { error });
+    throw new OnrampError(apiError.message || 'Could not start the mobile money payment', 'PROVIDER_ERROR', 502);
+  }
+
+  log.info('On-ramp started', { transactionCode, amountLocal: quote.amountLocal, mobileNetwork });
+
+  // Pretium has already prompted the payer - the webhook can only match the order once it is saved
+  const order = await DatabaseService.createOnrampOrder({
+    transaction_code: transactionCode,
+    wallet_address: walletAddress.toLowerCase(),
+    currency: quote.currency,
+    phone_number: shortcode,
+    mobile_network: mobileNetwork,
+    amount_local: quote.amountLocal,
+    fee_local: quote.fee,
+    exchange_rate: quote.rate,
+    amount_usdc: quote.amountUSDC,
+    pretium_status: pretiumStatus,
+    fid,
+    correlation_id: correlationId,
+    // Never persist the tokenized callback URL
+    raw_onramp_request: { ...onrampRequest, callback_url: getPretiumCallbackUrl(correlationId, false) },
+  }).catch((error) => {
+    log.error('Failed to save on-ramp order', { transactionCode, error });
+    throw error;
+  });
+
+  await DatabaseService.logAnalyticsEvent('onramp_started', order.wallet_address, {
+    transaction_code: transactionCode,
+    currency: order.currency,
+    amount_local: order.amount_local,
+    amount_usdc: order.amount_usdc,
+  }).catch(() => undefined);
+
+  return toOnrampOrder(order);
+}
+
+async function notifyReleased(order: OnrampOrderRecord) {
+  if (!order.fid) return;
+
+  const { success, error } = await sendNotificationToUser(order.fid, {
+    title: 'USDC received',
+    body: `${Number(order.amount_usdc)} USDC from your ${Number(order.amount_local)} ${order.currency} top-up is in your wallet.`,
+    targetUrl: ONRAMP_CONFIG.APP_URL,
+  });
+  if (!success) logger.warn('On-ramp notification not sent', { transactionCode: order.transaction_code, error });
+}
+
+/**
+ * Apply a Pretium update - a webhook or a status poll - to an on-ramp order:
+ * COMPLETE marks it paid, the asset release marks it released, FAILED fails it.
+ * Returns the status it moved to, or 'ignored' for stale and duplicate updates
+ */
+export async function applyOnrampWebhook(
+  order: OnrampOrderRecord,
+  payload: PretiumWebhookPayload
+): Promise<OnrampOrderRecord['status'] | 'ignored'> {
+  const { transaction_code, status, receipt_number, public_name, message, is_released, transaction_hash } = payload;
+  const now = new Date().toISOString();
+  const raw_webhook_payloads = [...(order.raw_webhook_payloads || []), payload as unknown as Record<string, unknown>];
+
+  if (is_released) {
+    const released = await DatabaseService.transitionOnrampOrder(transaction_code, ['pending', 'paid'], {
+      status: 'released',
+      release_tx_hash: transaction_hash || null,
+      released_at: now,
+      paid_at: order.paid_at || now,
+      ...(receipt_number && { receipt_number }),
+      raw_webhook_payloads,
+    });
+    if (!released) return 'ignored';
+
+    logger.info('On-ramp USDC released', { transactionCode: transaction_code, txHash: transaction_hash });
+    await DatabaseService.logAnalyticsEvent('onramp_released', released.wallet_address, {
+      transaction_code,
+      amount_usdc: released.amount_usdc,
+      tx_hash: transaction_hash,
+    }).catch(() => undefined);
+    await notifyReleased(released);
+    return 'released';
+  }
+
+  if (status === 'COMPLETE') {
+    const paid = await DatabaseService.transitionOnrampOrder(transaction_code, ['pending'], {
+      status: 'paid',
+      pretium_status: status,
+      receipt_number: receipt_number || null,
+      public_name: public_name || null,
+      paid_at: now,
+      raw_webhook_payloads,
+    });
+    if (!paid) return 'ignored';
+
+    logger.info('On-ramp payment collected', { transactionCode: transaction_code, receiptNumber: receipt_number });
+    return 'paid';
+  }
+
+  if (status === 'FAILED') {
+    const failed = await DatabaseService.transitionOnrampOrder(transaction_code, ['pending'], {
+      status: 'failed',
+      pretium_status: status,
+      error_message: message || 'The mobile money payment was not completed',
+      raw_webhook_payloads,
+    });
+    if (!failed) return 'ignored';
+
+    logger.warn('On-ramp payment failed', { transactionCode: transaction_code, message });
+    return 'failed';
+  }
+
+  return 'ignored';
+}
+
+/**
+ * An on-ramp order of the wallet. Orders still open after STATUS_REFRESH_AFTER_MS
+ * are checked against Pretium, in case a webhook was missed
+ *
+ * @throws OnrampError NOT_FOUND
+ */
+export async function getOnrampOrder(transactionCode: string, wallet: unknown): Promise<OnrampOrder> {
+  const walletAddress = typeof wallet === 'string' ? wallet.trim().toLowerCase() : '';
+  let order = await DatabaseService.getOnrampOrderByTransactionCode(transactionCode);
+  if (!order || !walletAddress || order.wallet_address !== walletAddress) {
+    throw new OnrampError('On-ramp order not found', 'NOT_FOUND', 404);
+  }
+
+  const isOpen = order.status === 'pending' || order.status === 'paid';
+  if (isOpen && Date.now() - new Date(order.created_at).getTime() > ONRAMP_CONFIG.STATUS_REFRESH_AFTER_MS) {
+    try {
+      const { data } = await pretiumClient.getTransactionStatus(order.transaction_code, order.currency);
+      const outcome = await applyOnrampWebhook(order, {
+        transaction_code: data.transaction_code,
+        status: data.status,
+        receipt_number: data.receipt_number || undefined,
+        public_name: data.public_name || undefined,
+        message: data.message,
+        is_released: data.is_released && Boolean(data.transaction_hash),
+        transaction_hash: data.transaction_hash || undefined,
+      });
+      if (outcome !== 'ignored') {
+        order = (await DatabaseService.getOnrampOrderByTransactionCode(transactionCode)) || order;
+      }
+    } catch (error) {
+      // The webhook will still move the order on
+      logger.warn('On-ramp status refresh failed', { transactionCode, error });
+    }
+  }
+
+  return toOnrampOrder(order);
+}
+
+/**
+ * The wallet's recent on-ramp orders, newest first
+ */
+export async function listOnrampOrders(wallet: unknown): Promise<OnrampOrder[]> {
+  const walletAddress = typeof wallet === 'string' ? wallet.trim() : '';
+  if (!WALLET_PATTERN.test(walletAddress)) {
+    throw new OnrampError('wallet must be a wallet address', 'INVALID_REQUEST');
+  }
+  const orders = await DatabaseService.getOnrampOrdersByWallet(walletAddress);
+  return orders.map(toOnrampOrder);
+}
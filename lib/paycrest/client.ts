@@ -0,0 +1,255 @@
+// Paycrest API Client Service
+import { PAYCREST_CONFIG, getPaycrestHeaders, validatePaycrestConfig } from './config';
+import type {
+  PaycrestApiError,
+  PaycrestCreateOrderRequest,
+  PaycrestCurrenciesResponse,
+  PaycrestInstitution,
+  PaycrestInstitutionsResponse,
+  PaycrestOrderResponse,
+  PaycrestVerifyAccountResponse,
+} from './types';
+import { isSandboxMode } from '@/lib/sandbox/config';
+import { SandboxPaycrestClient } from '@/lib/sandbox/paycrest-client';
+
+class PaycrestApiClient {
+  private baseUrl: string;
+  private currenciesCache: { data: PaycrestCurrenciesResponse; timestamp: number } | null = null;
+
+  constructor() {
+    this.baseUrl = PAYCREST_CONFIG.BASE_URL;
+  }
+
+  private async readError(response: Response, fallbackMessage: string): Promise<PaycrestApiError> {
+    try {
+      const contentType = response.headers.get('content-type') || '';
+
+      if (contentType.includes('application/json')) {
+        const errorData = await response.json();
+        return {
+          status: response.status,
+          message: `${fallbackMessage}: ${errorData.message || JSON.stringify(errorData)}`,
+          data: errorData,
+        };
+      }
+
+      const errorText = await response.text();
+      console.error('PayCrest error (text):', errorText.substring(0, 500)); // Log first 500 chars
+      return {
+        status: response.status,
+        message: `PayCrest API error ${response.status}: Server timeout or gateway error`,
+      };
+    } catch {
+      return {
+        status: response.status,
+        message: `PayCrest API error ${response.status}: Unable to parse response`,
+      };
+    }
+  }
+
+  /**
+   * Get the USDC → fiat rate for an amount.
+   * Tries /rates first and falls back to the market rate from /currencies
+   */
+  async getRate(token: string, amount: number, currency: string): Promise<number> {
+    let rate: number;
+
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/rates/${token.toUpperCase()}/${amount}/${currency.toUpperCase()}?network=${PAYCREST_CONFIG.NETWORK}`,
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+
+      if (!response.ok) {
+        throw new Error('Rates endpoint failed');
+      }
+
+      const rateData = await response.json();
+
+      if (rateData.status === 'success' && rateData.data) {
+        rate = parseFloat(rateData.data);
+      } else if (typeof rateData === 'number') {
+        rate = rateData;
+      } else {
+        throw new Error('Rates endpoint returned invalid format');
+      }
+    } catch {
+      const currenciesData = await this.getCurrencies();
+      const currencyInfo = currenciesData.data.find((c) => c.code === currency.toUpperCase());
+
+      if (!currencyInfo?.marketRate) {
+        throw new Error(`Currency ${currency} not found in currencies endpoint`);
+      }
+
+      rate = parseFloat(currencyInfo.marketRate);
+    }
+
+    if (isNaN(rate) || rate <= 0) {
+      throw new Error(`Invalid rate value: ${rate}`);
+    }
+
+    return rate;
+  }
+
+  /**
+   * Get supported fiat currencies with market rates (cached for a minute)
+   */
+  async getCurrencies(): Promise<PaycrestCurrenciesResponse> {
+    if (this.currenciesCache && Date.now() - this.currenciesCache.timestamp < PAYCREST_CONFIG.CURRENCIES_CACHE_MS) {
+      return this.currenciesCache.data;
+    }
+
+    validatePaycrestConfig();
+
+    const response = await fetch(`${this.baseUrl}/currencies`, {
+      headers: getPaycrestHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch rate from both endpoints: ${response.status}`);
+    }
+
+    const data: PaycrestCurrenciesResponse = await response.json();
+
+    if (data.status !== 'success' || !data.data) {
+      throw new Error('Invalid response from currencies endpoint');
+    }
+
+    this.currenciesCache = { data, timestamp: Date.now() };
+    return data;
+  }
+
+  /**
+   * Get the banks and mobile money providers Paycrest can pay out to for a currency
+   */
+  async getInstitutions(currency: string): Promise<PaycrestInstitution[]> {
+    validatePaycrestConfig();
+
+    const response = await fetch(`${this.baseUrl}/institutions/${currency.toUpperCase()}`, {
+      headers: getPaycrestHeaders(),
+    });
+
+    if (!response.ok) {
+      throw await this.readError(response, 'Failed to fetch supported institutions');
+    }
+
+    const data: PaycrestInstitutionsResponse = await response.json();
+    return data.data || [];
+  }
+
+  /**
+   * Look up the account name behind a bank account or mobile money number
+   */
+  async verifyAccount(institution: string, accountIdentifier: string): Promise<PaycrestVerifyAccountResponse> {
+    validatePaycrestConfig();
+
+    const response = await fetch(`${this.baseUrl}/verify-account`, {
+      method: 'POST',
+      headers: getPaycrestHeaders(),
+      body: JSON.stringify({ institution, accountIdentifier }),
+    });
+
+    if (!response.ok) {
+      throw await this.readError(response, 'Account verification failed');
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Create a sender order. Retries gateway timeouts (502/504) and network errors
+   */
+  async createOrder(orderData: PaycrestCreateOrderRequest, maxRetries = 2): Promise<PaycrestOrderResponse> {
+    validatePaycrestConfig();
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      let response: Response;
+
+      try {
+        console.log(`📡 Attempt ${attempt}/${maxRetries} - Creating PayCrest order`);
+
+        response = await fetch(`${this.baseUrl}/sender/orders`, {
+          method: 'POST',
+          headers: getPaycrestHeaders(),
+          body: JSON.stringify(orderData),
+        });
+      } catch (error) {
+        console.error(`❌ Network error on attempt ${attempt}:`, error);
+        if (attempt === maxRetries) throw error;
+
+        console.log(`⏳ Network error, retrying in ${attempt * 2} seconds...`);
+        await new Promise(resolve => setTimeout(resolve, attempt * 2000));
+        continue;
+      }
+
+      // If it's a 504 or 502 gateway error, retry after a delay
+      if ((response.status === 504 || response.status === 502) && attempt < maxRetries) {
+        console.log(`⏳ Server timeout (${response.status}), retrying in ${attempt * 2} seconds...`);
+        await new Promise(resolve => setTimeout(resolve, attempt * 2000));
+        continue;
+      }
+
+      console.log('📡 PayCrest order response status:', response.status);
+
+      if (!response.ok) {
+        throw await this.readError(response, 'Failed to create PayCrest order');
+      }
+
+      return response.json();
+    }
+
+    // This should never be reached due to the throw above, but TypeScript needs it
+    throw new Error('All retry attempts failed');
+  }
+
+  /**
+   * Get a sender order by ID. Retries network errors and timeouts with backoff
+   */
+  async getOrder(orderId: string, maxRetries = 2, timeoutMs = 10000): Promise<PaycrestOrderResponse> {
+    validatePaycrestConfig();
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      let response: Response;
+
+      try {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+        response = await fetch(`${this.baseUrl}/sender/orders/${orderId}`, {
+          headers: getPaycrestHeaders(),
+          signal: controller.signal,
+        });
+
+        clearTimeout(timeoutId);
+      } catch (error) {
+        if (attempt === maxRetries) throw error;
+
+        // Wait before retry with exponential backoff
+        const delayMs = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+        continue;
+      }
+
+      if (!response.ok) {
+        throw await this.readError(response, 'Failed to get order status from PayCrest');
+      }
+
+      return response.json();
+    }
+
+    // This should never be reached due to the throw above, but TypeScript needs it
+    throw new Error('All retry attempts failed');
+  }
+}
+
+// Public surface shared by the live client and the sandbox mock
+export type PaycrestClient = Pick<
+  PaycrestApiClient,
+  'getRate' | 'getCurrencies' | 'getInstitutions' | 'verifyAccount' | 'createOrder' | 'getOrder'
+>;
+
+// Export singleton instance - the in-process mock when PROVIDER_MODE=sandbox
+export const paycrestClient: PaycrestClient = isSandboxMode() ? new SandboxPaycrestClient() : new PaycrestApiClient();
+
+// Export class for testing
+export { PaycrestApiClient };
@@ -0,0 +1,63 @@
+// Paycrest API Configuration
+import { isSandboxMode, SANDBOX_CONFIG } from '@/lib/sandbox/config';
+
+export const PAYCREST_CONFIG = {
+  BASE_URL: process.env.PAYCREST_BASE_URL || 'https://api.paycrest.io/v1',
+  API_KEY: process.env.PAYCREST_API_KEY,
+  // Webhooks are signed with the API secret, falling back to the API key
+  // (or the sandbox secret when PROVIDER_MODE=sandbox)
+  API_SECRET: process.env.PAYCREST_API_SECRET || process.env.PAYCREST_API_KEY ||
+    (isSandboxMode() ? SANDBOX_CONFIG.WEBHOOK_SECRET : undefined),
+
+  NETWORK: 'base' as const,
+  TOKEN: 'USDC' as const,
+
+  // M-PESA provider ID used for both phone numbers and till numbers
+  MPESA_INSTITUTION: 'SAFAKEPC',
+
+  // Currencies cache for the /currencies rate fallback
+  CURRENCIES_CACHE_MS: 60000,
+
+  // Supported currencies
+  SUPPORTED_CURRENCIES: ['KES', 'NGN'] as const,
+
+  // Minimum order amounts in USDC (PayCrest provider requirements)
+  MINIMUM_AMOUNTS: {
+    KES: 0.5,
+    NGN: 1.0,
+    GHS: 0.5,
+  } as Record<string, number>,
+} as const;
+
+export type PaycrestCurrency = (typeof PAYCREST_CONFIG.SUPPORTED_CURRENCIES)[number];
+
+export function validatePaycrestConfig(): void {
+  if (!PAYCREST_CONFIG.API_KEY) {
+    throw new Error('PayCrest API key not configured');
+  }
+}
+
+export function getPaycrestHeaders(): Record<string, string> {
+  if (!PAYCREST_CONFIG.API_KEY) {
+    throw new Error('PAYCREST_API_KEY is not configured');
+  }
+
+  return {
+    'Content-Type': 'application/json',
+    'API-Key': PAYCREST_CONFIG.API_KEY,
+  };
+}
+
+/**
+ * Check if a currency is supported by Paycrest
+ */
+export function isPaycrestCurrencySupported(currency: string): currency is PaycrestCurrency {
+  return PAYCREST_CONFIG.SUPPORTED_CURRENCIES.includes(currency as PaycrestCurrency);
+}
+
+/**
+ * Minimum USDC order amount for a currency
+ */
+export function getPaycrestMinimumAmount(currency: string): number {
+  return PAYCREST_CONFIG.MINIMUM_AMOUNTS[currency] || 1.0;
+}
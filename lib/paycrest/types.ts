@@ -0,0 +1,134 @@
+// Paycrest API Types
+// Based on the Paycrest sender API (https://docs.paycrest.io)
+
+export type PaycrestOrderStatus =
+  | 'initiated'
+  | 'pending'
+  | 'processing'
+  | 'validated'
+  | 'settled'
+  | 'refunded'
+  | 'expired'
+  | 'cancelled';
+
+export interface PaycrestRecipient {
+  institution: string;
+  accountIdentifier: string;
+  accountName: string;
+  memo: string;
+  currency: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface PaycrestCreateOrderRequest {
+  amount: number;
+  token: string;
+  rate: number;
+  network: string;
+  recipient: PaycrestRecipient;
+  reference: string;
+  returnAddress: string;
+}
+
+export interface PaycrestOrderData {
+  id: string;
+  status: string;
+  amount: string;
+  token: string;
+  network: string;
+  receiveAddress: string;
+  validUntil: string;
+  senderFee: number;
+  transactionFee: number;
+  totalAmount: number;
+  reference: string;
+  recipient?: {
+    institution: string;
+    accountIdentifier?: string;
+    accountName?: string;
+    amount: string;
+    currency: string;
+    memo: string;
+  };
+  rate?: number;
+  txHash?: string;
+  amountPaid?: string;
+}
+
+export interface PaycrestOrderResponse {
+  status: string;
+  message: string;
+  data: PaycrestOrderData;
+}
+
+export interface PaycrestRateResponse {
+  status: string;
+  message: string;
+  data: string;
+}
+
+export interface PaycrestCurrency {
+  code: string;
+  name: string;
+  marketRate: string;
+  decimals: number;
+  symbol: string;
+  shortName: string;
+}
+
+export interface PaycrestCurrenciesResponse {
+  status: string;
+  message: string;
+  data: PaycrestCurrency[];
+}
+
+export interface PaycrestInstitution {
+  name: string;
+  code: string;
+  type: string; // 'bank' | 'mobile_money'
+}
+
+export interface PaycrestInstitutionsResponse {
+  status: string;
+  message: string;
+  data: PaycrestInstitution[];
+}
+
+export interface PaycrestVerifyAccountResponse {
+  status: string;
+  message: string;
+  data: string; // Account name
+}
+
+// PayCrest webhook event - ACTUAL format (differs from apiguide.md)
+export interface PaycrestWebhookEvent {
+  event: string; // e.g., 'payment_order.pending', 'payment_order.validated', etc.
+  data: {
+    id: string; // Order ID
+    status: string; // Order status
+    amount: string;
+    amountInUsd: string;
+    amountPaid: string;
+    rate: string;
+    network: string;
+    txHash?: string;
+    providerId?: string;
+    reference: string;
+    updatedAt: string;
+    createdAt: string;
+    recipient: {
+      institution: string;
+      accountIdentifier: string;
+      accountName: string;
+      currency: string;
+      [key: string]: unknown;
+    };
+    [key: string]: unknown;
+  };
+}
+
+export interface PaycrestApiError {
+  status: number;
+  message: string;
+  data?: unknown;
+}
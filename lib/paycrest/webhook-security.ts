@@ -0,0 +1,32 @@
+// Paycrest Webhook Authentication
+import crypto from 'crypto';
+import { PAYCREST_CONFIG } from './config';
+
+export const PAYCREST_SIGNATURE_HEADER = 'X-Paycrest-Signature';
+
+/**
+ * HMAC-SHA256 of the raw request body, hex encoded
+ */
+export function calculatePaycrestSignature(rawBody: string, secretKey: string): string {
+  return crypto.createHmac('sha256', Buffer.from(secretKey)).update(rawBody).digest('hex');
+}
+
+/**
+ * Verify the X-Paycrest-Signature header against the API secret
+ */
+export function verifyPaycrestSignature(
+  rawBody: string,
+  signature: string | null,
+  secretKey: string | undefined = PAYCREST_CONFIG.API_SECRET
+): boolean {
+  if (!signature || !secretKey) return false;
+
+  try {
+    const expected = Buffer.from(calculatePaycrestSignature(rawBody, secretKey));
+    const provided = Buffer.from(signature);
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+  } catch (error) {
+    console.error('❌ Signature verification error:', error);
+    return false;
+  }
+}
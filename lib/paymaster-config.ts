@@ -5,7 +5,8 @@
  * Required CDP Dashboard Configuration:
  * 1. Navigate to https://portal.cdp.coinbase.com/products/bundler-and-paymaster
  * 2. Enable paymaster toggle for Base Mainnet
- * 3. Add allowlisted contract: 0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913 (USDC)
+ * 3. Add allowlisted contracts: 0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913 (USDC)
+ *    and 0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2 (USDT)
  * 4. Add allowlisted function: transfer(address,uint256)
  * 5. Set per-user and global spending limits
  */
@@ -40,5 +41,5 @@ export const USDC_CONTRACTS = {
 
 // Functions that should be allowlisted in CDP Dashboard
 export const CDP_ALLOWLISTED_FUNCTIONS = [
-  'transfer(address,uint256)', // Required for USDC transfers
+  'transfer(address,uint256)', // Required for USDC and USDT transfers
 ] as const;
\ No newline at end of file
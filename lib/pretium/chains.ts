@@ -0,0 +1,170 @@
+// Pretium deposit chains
+// Pretium accepts the user's stablecoins on several chains, each with its own
+// settlement address. Base is the default and is paid from the connected wallet;
+// on the other chains the user sends from any wallet and submits the hash.
+// Client-safe: no server imports
+import { isAddress } from 'viem';
+import { base, celo, scroll } from 'viem/chains';
+import { USDC_CONTRACTS, USDT_CONTRACTS, type StablecoinToken } from '@/lib/contracts';
+import { PRETIUM_CONFIG } from './config';
+import type { PretiumChain } from './types';
+
+export type PretiumChainKind = 'evm' | 'tron' | 'stellar';
+
+export interface PretiumChainTokenConfig {
+  address: string; // ERC-20 / TRC-20 contract, or the Stellar asset issuer
+  decimals: number;
+}
+
+export interface PretiumChainConfig {
+  id: PretiumChain;
+  name: string;
+  kind: PretiumChainKind;
+  evmChainId?: number;
+  rpcUrl: string; // JSON-RPC for EVM chains, TronGrid or Horizon otherwise
+  explorerUrl: string;
+  settlementAddress?: string; // Unset: deposits on this chain are not offered
+  tokens: Partial<Record<StablecoinToken, PretiumChainTokenConfig>>; // Unset: the token can't be deposited here
+}
+
+export const DEFAULT_PRETIUM_CHAIN: PretiumChain = 'BASE';
+
+// Settlement addresses for the non-Base chains come from Pretium per account.
+// NEXT_PUBLIC_ because the client shows them as the deposit address
+export const PRETIUM_CHAINS: Record<PretiumChain, PretiumChainConfig> = {
+  BASE: {
+    id: 'BASE',
+    name: 'Base',
+    kind: 'evm',
+    evmChainId: base.id,
+    rpcUrl: 'https://mainnet.base.org',
+    explorerUrl: 'https://basescan.org',
+    settlementAddress: PRETIUM_CONFIG.SETTLEMENT_ADDRESS,
+    tokens: {
+      USDC: { address: USDC_CONTRACTS[base.id], decimals: 6 },
+      USDT: { address: USDT_CONTRACTS[base.id], decimals: 6 },
+    },
+  },
+  CELO: {
+    id: 'CELO',
+    name: 'Celo',
+    kind: 'evm',
+    evmChainId: celo.id,
+    rpcUrl: 'https://forno.celo.org',
+    explorerUrl: 'https://celoscan.io',
+    settlementAddress: process.env.NEXT_PUBLIC_PRETIUM_SETTLEMENT_ADDRESS_CELO,
+    tokens: {
+      USDC: { address: USDC_CONTRACTS[celo.id], decimals: 6 },
+      USDT: { address: USDT_CONTRACTS[celo.id], decimals: 6 },
+    },
+  },
+  SCROLL: {
+    id: 'SCROLL',
+    name: 'Scroll',
+    kind: 'evm',
+    evmChainId: scroll.id,
+    rpcUrl: 'https://rpc.scroll.io',
+    explorerUrl: 'https://scrollscan.com',
+    settlementAddress: process.env.NEXT_PUBLIC_PRETIUM_SETTLEMENT_ADDRESS_SCROLL,
+    tokens: {
+      USDC: { address: USDC_CONTRACTS[scroll.id], decimals: 6 },
+      USDT: { address: USDT_CONTRACTS[scroll.id], decimals: 6 },
+    },
+  },
+  TRON: {
+    id: 'TRON',
+    name: 'Tron',
+    kind: 'tron',
+    rpcUrl: 'https://api.trongrid.io',
+    explorerUrl: 'https://tronscan.org/#',
+    settlementAddress: process.env.NEXT_PUBLIC_PRETIUM_SETTLEMENT_ADDRESS_TRON,
+    tokens: {
+      USDC: { address: 'TEkxiTehnzSmSe2XqrBj4w32RUN966rdz8', decimals: 6 },
+      USDT: { address: 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', decimals: 6 },
+    },
+  },
+  STELLAR: {
+    id: 'STELLAR',
+    name: 'Stellar',
+    kind: 'stellar',
+    rpcUrl: 'https://horizon.stellar.org',
+    explorerUrl: 'https://stellar.expert/explorer/public',
+    settlementAddress: process.env.NEXT_PUBLIC_PRETIUM_SETTLEMENT_ADDRESS_STELLAR,
+    tokens: {
+      // Circle's USDC issuer; Stellar amounts have 7 decimals
+      USDC: { address: 'GA5ZSEJYB37JRC5AVCIA5MOP4RHTK3X2W6UZG6VYJ7JCMG5AYXHCZY5C', decimals: 7 },
+    },
+  },
+};
+
+export function isPretiumChain(value: unknown): value is PretiumChain {
+  return typeof value === 'string' && value in PRETIUM_CHAINS;
+}
+
+export function getPretiumChain(chain: PretiumChain = DEFAULT_PRETIUM_CHAIN): PretiumChainConfig {
+  return PRETIUM_CHAINS[chain];
+}
+
+/**
+ * Chains the user can deposit on - those with a settlement address configured
+ */
+export function getAvailablePretiumChains(): PretiumChainConfig[] {
+  return Object.values(PRETIUM_CHAINS).filter((chain) => Boolean(chain.settlementAddress));
+}
+
+/**
+ * Whether the token can be deposited on the chain
+ */
+export function isChainTokenSupported(chain: PretiumChain, token: StablecoinToken): boolean {
+  return Boolean(PRETIUM_CHAINS[chain].tokens[token]);
+}
+
+/**
+ * Settlement address for deposits on the chain
+ *
+ * @throws Error when the chain has no settlement address configured
+ */
+export function getSettlementAddress(chain: PretiumChain = DEFAULT_PRETIUM_CHAIN): string {
+  const address = PRETIUM_CHAINS[chain].settlementAddress;
+  if (!address) throw new Error(`No Pretium settlement address configured for ${chain}`);
+  return address;
+}
+
+/**
+ * Whether a deposit on the chain can be signed by the connected (EVM) wallet
+ * rather than sent manually from another wallet
+ */
+export function isWalletDepositChain(chain: PretiumChain): boolean {
+  return chain === DEFAULT_PRETIUM_CHAIN;
+}
+
+/**
+ * The address in its canonical form for the chain - lowercased on EVM chains, where
+ * case is only a checksum - or null when it is not an address on the chain
+ */
+export function parseChainAddress(chain: PretiumChain, address: unknown): string | null {
+  if (typeof address !== 'string') return null;
+  const value = address.trim();
+  switch (PRETIUM_CHAINS[chain].kind) {
+    case 'evm':
+      return isAddress(value, { strict: false }) ? value.toLowerCase() : null;
+    case 'tron':
+      return /^T[1-9A-HJ-NP-Za-km-z]{33}$/.test(value) ? value : null;
+    case 'stellar':
+      return /^G[A-Z2-7]{55}$/.test(value) ? value : null;
+  }
+}
+
+export function getChainTxUrl(chain: PretiumChain | string | undefined, hash: string): string {
+  const config = isPretiumChain(chain) ? PRETIUM_CHAINS[chain] : PRETIUM_CHAINS[DEFAULT_PRETIUM_CHAIN];
+  return config.kind === 'tron'
+    ? `${config.explorerUrl}/transaction/${hash.replace(/^0x/, '')}`
+    : `${config.explorerUrl}/tx/${hash}`;
+}
+
+export function getChainAddressUrl(chain: PretiumChain | string | undefined, address: string): string {
+  const config = isPretiumChain(chain) ? PRETIUM_CHAINS[chain] : PRETIUM_CHAINS[DEFAULT_PRETIUM_CHAIN];
+  return config.kind === 'stellar'
+    ? `${config.explorerUrl}/account/${address}`
+    : `${config.explorerUrl}/address/${address}`;
+}
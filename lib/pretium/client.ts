@@ -3,13 +3,31 @@ import { PRETIUM_CONFIG, getPretiumHeaders, validatePretiumConfig } from './conf
 import type {
   PretiumDisburseRequest,
   PretiumDisburseResponse,
+  PretiumOnrampRequest,
+  PretiumOnrampResponse,
   PretiumStatusRequest,
   PretiumStatusResponse,
   PretiumExchangeRateRequest,
   PretiumExchangeRateResponse,
   PretiumCountriesResponse,
+  PretiumValidationRequest,
+  PretiumValidationResponse,
+  PretiumBanksResponse,
   PretiumApiError,
 } from './types';
+import { isSandboxMode } from '@/lib/sandbox/config';
+import { SandboxPretiumClient } from '@/lib/sandbox/pretium-client';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('pretium-client');
+
+function safeParseJson(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return '[UNPARSEABLE]';
+  }
+}
 
 class PretiumApiClient {
   private baseUrl: string;
@@ -22,7 +40,7 @@ class PretiumApiClient {
     endpoint: string,
     options: RequestInit = {}
   ): Promise<T> {
-    const requestId = Date.now().toString(36);
+    const log = logger.child({ pretiumRequestId: Date.now().toString(36), method: options.method || 'GET', endpoint });
 
     try {
       validatePretiumConfig();
@@ -30,17 +48,11 @@ class PretiumApiClient {
       const url = `${this.baseUrl}${endpoint}`;
       const headers = getPretiumHeaders();
 
-      console.log(`[PretiumClient:${requestId}] Making request:`, {
-        method: options.method || 'GET',
-        endpoint,
-        full_url: url,
-        timestamp: new Date().toISOString()
+      // Bodies carry phone/account numbers and the tokenized callback URL - the logger redacts them
+      log.debug('Making request', {
+        body: typeof options.body === 'string' ? safeParseJson(options.body) : undefined,
       });
 
-      if (options.body) {
-        console.log(`[PretiumClient:${requestId}] Request body:`, options.body);
-      }
-
       const response = await fetch(url, {
         ...options,
         headers: {
@@ -49,16 +61,9 @@ class PretiumApiClient {
         },
       });
 
-      console.log(`[PretiumClient:${requestId}] Response received:`, {
-        status: response.status,
-        status_text: response.statusText,
-        ok: response.ok,
-        headers: Object.fromEntries(response.headers.entries())
-      });
-
       const data = await response.json();
 
-      console.log(`[PretiumClient:${requestId}] Response data:`, JSON.stringify(data, null, 2));
+      log.debug('Response received', { status: response.status, data });
 
       // Check for API errors
       if (!response.ok || (data.code && data.code !== 200)) {
@@ -68,27 +73,19 @@ class PretiumApiClient {
           data: data.data,
         };
 
-        console.error(`[PretiumClient:${requestId}] API Error:`, {
-          error_code: error.code,
-          error_message: error.message,
-          error_data: error.data
-        });
+        log.error('API error', { errorCode: error.code, errorMessage: error.message, errorData: error.data });
 
         throw error;
       }
 
-      console.log(`[PretiumClient:${requestId}] Request successful`);
+      log.info('Request successful', { status: response.status });
       return data as T;
     } catch (error) {
       if ((error as PretiumApiError).code) {
-        console.error(`[PretiumClient:${requestId}] Known API error, rethrowing`);
         throw error;
       }
 
-      console.error(`[PretiumClient:${requestId}] Unknown error:`, {
-        error: error instanceof Error ? error.message : error,
-        stack: error instanceof Error ? error.stack : undefined
-      });
+      log.error('Request failed', { error });
 
       throw {
         code: 500,
@@ -122,6 +119,28 @@ class PretiumApiClient {
     });
   }
 
+  /**
+   * Validate a mobile money number, till, paybill or NGN bank account and look up its name
+   */
+  async validateAccount(
+    currency: 'KES' | 'GHS' | 'NGN' | 'UGX',
+    request: PretiumValidationRequest
+  ): Promise<PretiumValidationResponse> {
+    return this.request<PretiumValidationResponse>(`/v1/validation/${currency}`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  /**
+   * Get the NGN banks Pretium can pay out to
+   */
+  async getBanks(): Promise<PretiumBanksResponse> {
+    return this.request<PretiumBanksResponse>('/v1/banks', {
+      method: 'POST',
+    });
+  }
+
   /**
    * Initiate a disbursement (offramp) to mobile money or bank
    */
@@ -138,6 +157,24 @@ class PretiumApiClient {
     );
   }
 
+  /**
+   * Initiate an on-ramp: the payer gets an STK push / mobile money prompt, and once
+   * they pay Pretium releases the asset to the request's address. Both steps are
+   * reported to the callback URL under the same transaction code (category COLLECTION)
+   */
+  async onramp(
+    request: PretiumOnrampRequest,
+    currency: 'KES' | 'GHS' | 'UGX'
+  ): Promise<PretiumOnrampResponse> {
+    return this.request<PretiumOnrampResponse>(
+      `/v1/onramp/${currency}`,
+      {
+        method: 'POST',
+        body: JSON.stringify(request),
+      }
+    );
+  }
+
   /**
    * Check transaction status
    */
@@ -159,8 +196,14 @@ class PretiumApiClient {
   }
 }
 
-// Export singleton instance
-export const pretiumClient = new PretiumApiClient();
+// Public surface shared by the live client and the sandbox mock
+export type PretiumClient = Pick<
+  PretiumApiClient,
+  'getExchangeRate' | 'getCountries' | 'validateAccount' | 'getBanks' | 'disburse' | 'onramp' | 'getTransactionStatus'
+>;
+
+// Export singleton instance - the in-process mock when PROVIDER_MODE=sandbox
+export const pretiumClient: PretiumClient = isSandboxMode() ? new SandboxPretiumClient() : new PretiumApiClient();
 
 // Export class for testing
 export { PretiumApiClient };
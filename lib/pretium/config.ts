@@ -1,4 +1,5 @@
 // Pretium API Configuration
+import { isSandboxMode, SANDBOX_CONFIG } from '@/lib/sandbox/config';
 
 export const PRETIUM_CONFIG = {
   BASE_URL: process.env.PRETIUM_BASE_URL || 'https://api.xwift.africa',
@@ -6,10 +7,10 @@ export const PRETIUM_CONFIG = {
   SECRET_KEY: process.env.PRETIUM_SECRET_KEY,
   CHECKOUT_KEY: process.env.PRETIUM_CHECKOUT_KEY,
 
-  // Fixed settlement address for receiving USDC payments
+  // Fixed settlement address for receiving USDC payments on Base
   SETTLEMENT_ADDRESS: '0x8005ee53e57ab11e11eaa4efe07ee3835dc02f98',
 
-  // Supported configuration
+  // Default deposit chain - payouts can be funded on the other chains in lib/pretium/chains.ts
   CHAIN: 'BASE' as const,
 
   // Fee configuration (1% platform fee)
@@ -20,6 +21,16 @@ export const PRETIUM_CONFIG = {
     ? `${process.env.NEXT_PUBLIC_URL}/api/pretium/webhook`
     : 'https://app.minisend.xyz/api/pretium/webhook',
 
+  // Webhook authentication - HMAC secret, shared callback token and IP allow-list fallback
+  // In sandbox mode simulated webhooks are signed with the sandbox secret
+  WEBHOOK_SECRET: process.env.PRETIUM_WEBHOOK_SECRET || (isSandboxMode() ? SANDBOX_CONFIG.WEBHOOK_SECRET : undefined),
+  WEBHOOK_TOKEN: process.env.PRETIUM_WEBHOOK_TOKEN,
+  WEBHOOK_ALLOWED_IPS: (process.env.PRETIUM_WEBHOOK_ALLOWED_IPS || '')
+    .split(',')
+    .map((ip) => ip.trim())
+    .filter(Boolean),
+  WEBHOOK_REPLAY_WINDOW_MS: 5 * 60 * 1000,
+
   // Supported currencies
   SUPPORTED_CURRENCIES: ['KES', 'GHS', 'NGN', 'UGX'] as const,
 } as const;
@@ -85,6 +96,22 @@ export function getPretiumHeaders(): Record<string, string> {
   };
 }
 
+/**
+ * Callback URL sent to Pretium on disbursement. Carries the shared webhook
+ * token so Pretium echoes it back - never persist this value, store the
+ * includeToken = false variant. The payment's correlation ID rides along as cid
+ * so the webhook can log under it
+ */
+export function getPretiumCallbackUrl(correlationId?: string, includeToken = true): string {
+  const params = new URLSearchParams();
+  const token = PRETIUM_CONFIG.WEBHOOK_TOKEN;
+  if (includeToken && token) params.set('token', token);
+  if (correlationId) params.set('cid', correlationId);
+
+  const query = params.toString();
+  return query ? `${PRETIUM_CONFIG.WEBHOOK_URL}?${query}` : PRETIUM_CONFIG.WEBHOOK_URL;
+}
+
 /**
  * Check if a currency is supported by Pretium
  */
@@ -86,6 +86,8 @@ export function orderToReceiptData(order: Order | PretiumOrder): OrderData {
       status: (order.status as 'completed' | 'pending' | 'failed') || 'pending',
       created_at: order.created_at,
       blockchain_tx_hash: order.transaction_hash,
+      chain: order.chain,
+      token: order.token,
       pretium_receipt_number: order.receipt_number,
       pretium_transaction_code: order.transaction_code,
     };
@@ -113,6 +115,7 @@ export function orderToReceiptData(order: Order | PretiumOrder): OrderData {
     status: (order.status as 'completed' | 'pending' | 'failed') || 'pending',
     created_at: order.created_at,
     blockchain_tx_hash: order.transaction_hash,
+    token: order.token,
     pretium_receipt_number: receiptNumber,
     pretium_transaction_code: txCode,
   };
@@ -51,6 +51,28 @@ export interface PretiumDisburseResponse {
   };
 }
 
+// On-ramp: collect mobile money (STK push / USSD prompt) and release the asset to `address`
+export interface PretiumOnrampRequest {
+  shortcode: string; // Payer's phone number, local format (0XXXXXXXXX)
+  amount: number; // Local currency collected from the payer, fee included
+  fee?: number; // Our fee in local currency, deducted before the asset is bought
+  mobile_network: string; // e.g. "Safaricom", "MTN"
+  chain: PretiumChain;
+  asset: 'USDC' | 'USDT';
+  address: string; // Wallet the asset is released to
+  callback_url?: string;
+}
+
+export interface PretiumOnrampResponse {
+  code: number;
+  message: string;
+  data: {
+    status: PretiumTransactionStatus;
+    transaction_code: string;
+    message: string;
+  };
+}
+
 export interface PretiumStatusRequest {
   transaction_code: string;
 }
@@ -108,6 +130,38 @@ export interface PretiumExchangeRateResponse {
   data: PretiumExchangeRate;
 }
 
+export interface PretiumValidationRequest {
+  type?: PretiumPaymentType; // Mobile money validation
+  shortcode?: string;
+  mobile_network?: string;
+  account_number?: string; // NGN bank account validation
+  bank_code?: string;
+}
+
+export interface PretiumValidationResponse {
+  code: number;
+  message: string;
+  data: {
+    status?: PretiumTransactionStatus;
+    shortcode?: string;
+    public_name?: string;
+    name?: string;
+    account_name?: string;
+    bank_name?: string;
+  };
+}
+
+export interface PretiumBank {
+  Code: string;
+  Name: string;
+}
+
+export interface PretiumBanksResponse {
+  code: number;
+  message: string;
+  data: PretiumBank[];
+}
+
 export interface PretiumApiError {
   code: number;
   message: string;
@@ -0,0 +1,120 @@
+// Pretium Webhook Authentication
+import crypto from 'crypto';
+import { PRETIUM_CONFIG } from './config';
+
+export const PRETIUM_SIGNATURE_HEADER = 'x-pretium-signature';
+export const PRETIUM_TIMESTAMP_HEADER = 'x-pretium-timestamp';
+
+export type PretiumWebhookAuthMethod = 'hmac' | 'token' | 'allowlist';
+
+export interface PretiumWebhookAuthResult {
+  valid: boolean;
+  method?: PretiumWebhookAuthMethod;
+  reason?: string;
+}
+
+interface PretiumWebhookAuthInput {
+  rawBody: string;
+  signature: string | null;
+  timestamp: string | null;
+  token: string | null;
+  clientIp: string;
+}
+
+function timingSafeEqualStrings(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  if (bufA.length !== bufB.length) return false;
+  return crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Compute the HMAC-SHA256 signature for a webhook body.
+ * When a timestamp is sent it is bound into the signed payload as `${timestamp}.${body}`
+ */
+export function calculatePretiumSignature(
+  rawBody: string,
+  secret: string,
+  timestamp?: string | null
+): string {
+  const payload = timestamp ? `${timestamp}.${rawBody}` : rawBody;
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/**
+ * Reject timestamps outside the replay window (in either direction)
+ */
+function isWithinReplayWindow(timestamp: string): boolean {
+  const value = Number(timestamp);
+  if (!Number.isFinite(value)) return false;
+
+  // Accept both seconds and milliseconds since epoch
+  const timestampMs = value < 1e12 ? value * 1000 : value;
+  return Math.abs(Date.now() - timestampMs) <= PRETIUM_CONFIG.WEBHOOK_REPLAY_WINDOW_MS;
+}
+
+/**
+ * Authenticate an incoming Pretium webhook.
+ *
+ * Checks, in order of preference:
+ * 1. HMAC signature header, signed with PRETIUM_WEBHOOK_SECRET
+ * 2. Shared token carried on our callback_url (?token=...)
+ * 3. Source IP allow-list, for deliveries that carry neither
+ */
+export function verifyPretiumWebhook({
+  rawBody,
+  signature,
+  timestamp,
+  token,
+  clientIp,
+}: PretiumWebhookAuthInput): PretiumWebhookAuthResult {
+  const { WEBHOOK_SECRET, WEBHOOK_TOKEN, WEBHOOK_ALLOWED_IPS } = PRETIUM_CONFIG;
+
+  if (timestamp && !isWithinReplayWindow(timestamp)) {
+    return { valid: false, reason: 'Timestamp outside replay window' };
+  }
+
+  if (signature) {
+    if (!WEBHOOK_SECRET) {
+      return { valid: false, reason: 'Webhook secret not configured' };
+    }
+
+    const expected = calculatePretiumSignature(rawBody, WEBHOOK_SECRET, timestamp);
+    const provided = signature.replace(/^sha256=/, '');
+
+    return timingSafeEqualStrings(provided, expected)
+      ? { valid: true, method: 'hmac' }
+      : { valid: false, reason: 'Invalid signature' };
+  }
+
+  if (token) {
+    if (!WEBHOOK_TOKEN) {
+      return { valid: false, reason: 'Webhook token not configured' };
+    }
+
+    return timingSafeEqualStrings(token, WEBHOOK_TOKEN)
+      ? { valid: true, method: 'token' }
+      : { valid: false, reason: 'Invalid token' };
+  }
+
+  if (WEBHOOK_ALLOWED_IPS.length > 0 && WEBHOOK_ALLOWED_IPS.includes(clientIp)) {
+    return { valid: true, method: 'allowlist' };
+  }
+
+  return { valid: false, reason: 'Missing webhook credentials' };
+}
+
+/**
+ * Dedup key for a webhook delivery: the same transaction can legitimately
+ * receive several webhooks (status change, asset release) but never the same
+ * (transaction_code, status, receipt_number) twice
+ */
+export function getPretiumWebhookDedupKey(payload: {
+  transaction_code: string;
+  status?: string;
+  receipt_number?: string;
+  is_released?: boolean;
+}): string {
+  const status = payload.status || (payload.is_released ? 'RELEASED' : 'UNKNOWN');
+  return [payload.transaction_code, status, payload.receipt_number || ''].join(':');
+}
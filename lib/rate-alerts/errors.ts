@@ -0,0 +1,27 @@
+// Rate Alert Errors
+
+export type RateAlertErrorCode =
+  | 'INVALID_REQUEST'
+  | 'NOT_FOUND'
+  | 'NO_CHANNEL'
+  | 'RATE_UNAVAILABLE'
+  | 'THRESHOLD_REACHED'
+  | 'TOO_MANY_ALERTS';
+
+/**
+ * Error raised by the rate alerts service. Routes turn it into `{ error, code }` with `statusCode`
+ */
+export class RateAlertError extends Error {
+  constructor(
+    message: string,
+    public readonly code: RateAlertErrorCode,
+    public readonly statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'RateAlertError';
+  }
+
+  toResponseBody(): Record<string, unknown> {
+    return { error: this.message, code: this.code };
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Rate Alerts Module Exports
+ * Notify users when a currency's live payout rate crosses their target
+ */
+
+export {
+  RATE_ALERT_CONFIG,
+  getLiveRate,
+  createRateAlert,
+  confirmRateAlertEmail,
+  listRateAlerts,
+  rearmRateAlert,
+  deleteRateAlert,
+  checkRateAlerts,
+} from './rate-alert-service';
+
+export { RateAlertError } from './errors';
+export type { RateAlertErrorCode } from './errors';
@@ -0,0 +1,487 @@
+// Rate Alert Service
+// "Tell me when KES goes above 130." Users set a target rate per currency; the
+// checker compares it with the best live rate across the payout providers and,
+// once it is crossed, sends a Farcaster notification and/or an email linking to
+// the exchange flow with the currency selected.
+//
+// Alerts fire once: active → triggered. Re-arming puts them back to active.
+// The FID comes from a verified Farcaster token, and email only goes to an address
+// the owner confirmed from a link sent to it.
+import crypto from 'crypto';
+import { DatabaseService, type RateAlertRecord } from '@/lib/supabase/config';
+import { getEligibleProviders } from '@/lib/offramp';
+import type { OfframpPaymentType } from '@/lib/offramp';
+import { parseRecipientOwner, RecipientError } from '@/lib/recipients';
+import { sendNotificationToUser } from '@/lib/services/neynar-notifications';
+import { canNotify } from '@/lib/notification-preferences';
+import { EMAIL_FROM, ctaButton, detailRow, emailLayout, getResendClient } from '@/lib/services/email';
+import { createLogger } from '@/lib/logger';
+import type { RecipientCurrency } from '@/lib/types/recipients';
+import type {
+  LiveRate,
+  RateAlert,
+  RateAlertDirection,
+  RateAlertInput,
+  RateAlertProvider,
+} from '@/lib/types/rate-alerts';
+import { RateAlertError } from './errors';
+
+const logger = createLogger('rate-alerts');
+
+export const RATE_ALERT_CONFIG = {
+  MAX_PER_OWNER: 20,
+  CURRENCIES: ['KES', 'NGN', 'GHS', 'UGX'] as RecipientCurrency[],
+  // Amount quoted to read each provider's rate
+  REFERENCE_USDC: 100,
+  // Live rates are reused for this long per instance - the UI and the checker share them
+  LIVE_RATE_CACHE_MS: 60 * 1000,
+  // How long one checker pass works through alerts - the next pass picks up the rest
+  PROCESS_BUDGET_MS: 40 * 1000,
+  APP_URL: process.env.NEXT_PUBLIC_URL || 'https://app.minisend.xyz',
+};
+
+const DIRECTIONS: RateAlertDirection[] = ['above', 'below'];
+
+const EMAIL_PATTERN = /^[^\s@<>"']+@[^\s@<>"']+\.[^\s@<>"']+$/;
+
+const PROVIDER_NAMES: Record<RateAlertProvider, string> = {
+  pretium: 'Pretium',
+  paycrest: 'Paycrest',
+};
+
+const liveRateCache = new Map<RecipientCurrency, LiveRate>();
+
+/**
+ * @throws RateAlertError INVALID_REQUEST unless it is a wallet address or Privy user ID
+ */
+function parseOwner(value: unknown): string {
+  try {
+    return parseRecipientOwner(value);
+  } catch (error) {
+    if (error instanceof RecipientError) throw new RateAlertError(error.message, 'INVALID_REQUEST');
+    throw error;
+  }
+}
+
+function parseCurrency(value: unknown): RecipientCurrency {
+  const currency = typeof value === 'string' ? value.toUpperCase() : '';
+  if (!RATE_ALERT_CONFIG.CURRENCIES.includes(currency as RecipientCurrency)) {
+    throw new RateAlertError(`currency must be one of ${RATE_ALERT_CONFIG.CURRENCIES.join(', ')}`, 'INVALID_REQUEST');
+  }
+  return currency as RecipientCurrency;
+}
+
+function getPaymentType(currency: RecipientCurrency): OfframpPaymentType {
+  return currency === 'NGN' ? 'BANK_TRANSFER' : 'MOBILE';
+}
+
+function formatRate(rate: number): string {
+  return rate.toLocaleString('en-US', { maximumFractionDigits: 2 });
+}
+
+function hasCrossed(alert: Pick<RateAlertRecord, 'direction' | 'threshold'>, rate: number): boolean {
+  const threshold = Number(alert.threshold);
+  return alert.direction === 'above' ? rate >= threshold : rate <= threshold;
+}
+
+function toRateAlert(alert: RateAlertRecord): RateAlert {
+  return {
+    id: alert.id,
+    currency: alert.currency,
+    direction: alert.direction,
+    threshold: Number(alert.threshold),
+    status: alert.status,
+    notifyFarcaster: Boolean(alert.fid),
+    email: alert.email || undefined,
+    emailConfirmed: alert.email ? Boolean(alert.email_confirmed_at) : undefined,
+    lastRate: alert.last_rate ? Number(alert.last_rate) : undefined,
+    lastCheckedAt: alert.last_checked_at || undefined,
+    triggeredAt: alert.triggered_at || undefined,
+    triggeredRate: alert.triggered_rate ? Number(alert.triggered_rate) : undefined,
+    triggeredProvider: alert.triggered_provider || undefined,
+    createdAt: alert.created_at,
+  };
+}
+
+/**
+ * Best rate (local currency per USDC) a payout in the currency gets right now,
+ * comparing every provider that pays out in it
+ *
+ * @throws RateAlertError RATE_UNAVAILABLE when no provider returns a rate
+ */
+export async function getLiveRate(currencyValue: unknown): Promise<LiveRate> {
+  const currency = parseCurrency(currencyValue);
+
+  const cached = liveRateCache.get(currency);
+  if (cached && Date.now() - new Date(cached.checkedAt).getTime() < RATE_ALERT_CONFIG.LIVE_RATE_CACHE_MS) {
+    return cached;
+  }
+
+  const providers = getEligibleProviders(currency, getPaymentType(currency));
+  const results = await Promise.allSettled(
+    providers.map((provider) =>
+      provider.quote({
+        currency,
+        amountUSDC: RATE_ALERT_CONFIG.REFERENCE_USDC,
+        paymentType: getPaymentType(currency),
+      })
+    )
+  );
+
+  const rates: LiveRate['rates'] = {};
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled' && result.value.rate > 0) {
+      rates[providers[index].id] = result.value.rate;
+    } else if (result.status === 'rejected') {
+      logger.warn('Provider rate unavailable', { provider: providers[index].id, currency, error: result.reason });
+    }
+  });
+
+  const [best] = (Object.entries(rates) as [RateAlertProvider, number][]).sort(([, a], [, b]) => b - a);
+  if (!best) {
+    throw new RateAlertError(`No live ${currency} rate is available right now`, 'RATE_UNAVAILABLE', 503);
+  }
+
+  const liveRate: LiveRate = {
+    currency,
+    rate: best[1],
+    provider: best[0],
+    rates,
+    checkedAt: new Date().toISOString(),
+  };
+  liveRateCache.set(currency, liveRate);
+  return liveRate;
+}
+
+function getEmailConfirmationUrl(token: string): string {
+  return `${RATE_ALERT_CONFIG.APP_URL}/api/rate-alerts/confirm-email?token=${token}`;
+}
+
+/**
+ * Never throws - an unsent confirmation is sent again with the owner's next alert
+ * for the address
+ */
+async function sendEmailConfirmation(email: string, token: string): Promise<void> {
+  try {
+    const body = `
+      <h2 style="margin:0 0 8px;color:#1a1a1a;font-size:18px;font-weight:600;">Confirm your email for rate alerts</h2>
+      <p style="margin:0 0 24px;color:#6b7280;font-size:14px;line-height:1.6;">
+        Someone asked Minisend to email rate alerts to this address. Confirm it to start getting them.
+        If it wasn't you, ignore this email - nothing more will be sent.
+      </p>
+      ${ctaButton(getEmailConfirmationUrl(token), 'Confirm email')}`;
+
+    const resend = getResendClient();
+    await resend.emails.send({
+      from: EMAIL_FROM,
+      to: email,
+      subject: 'Confirm your email for Minisend rate alerts',
+      html: emailLayout(body),
+    });
+  } catch (error) {
+    logger.warn('Rate alert email confirmation not sent', { error });
+  }
+}
+
+/**
+ * Create an alert. The target must not already be met - otherwise it would fire
+ * straight away. Farcaster notifications go to the FID from a verified Farcaster
+ * token; an email address the owner has not confirmed yet gets a confirmation link
+ * and no alerts until it is confirmed
+ *
+ * @throws RateAlertError describing what is wrong with the request
+ */
+export async function createRateAlert(
+  owner: unknown,
+  input: unknown,
+  verifiedFid: number | null = null
+): Promise<RateAlert> {
+  const ownerId = parseOwner(owner);
+  const body = (input || {}) as RateAlertInput;
+
+  const currency = parseCurrency(body.currency);
+  if (!DIRECTIONS.includes(body.direction)) {
+    throw new RateAlertError("direction must be 'above' or 'below'", 'INVALID_REQUEST');
+  }
+
+  const threshold = Math.round(Number(body.threshold) * 10000) / 10000;
+  if (!Number.isFinite(threshold) || threshold <= 0) {
+    throw new RateAlertError('threshold must be a positive number', 'INVALID_REQUEST');
+  }
+
+  const fid = verifiedFid || undefined;
+
+  const email = typeof body.email === 'string' && body.email.trim() ? body.email.trim().toLowerCase() : undefined;
+  if (email && (email.length > 254 || !EMAIL_PATTERN.test(email))) {
+    throw new RateAlertError('email is not a valid address', 'INVALID_REQUEST');
+  }
+
+  if (!fid && !email) {
+    throw new RateAlertError(
+      'Add an email address, or open Minisend in Farcaster or the Base app to get notifications',
+      'NO_CHANNEL'
+    );
+  }
+
+  const existing = await DatabaseService.getRateAlertsByOwner(ownerId);
+  if (existing.length >= RATE_ALERT_CONFIG.MAX_PER_OWNER) {
+    throw new RateAlertError(`You can have up to ${RATE_ALERT_CONFIG.MAX_PER_OWNER} rate alerts`, 'TOO_MANY_ALERTS', 409);
+  }
+
+  // An address the owner confirmed before needs no new confirmation. One still
+  // waiting reuses its link rather than sending another email
+  const sameEmail = email ? existing.filter((a) => a.email === email) : [];
+  const confirmedAt = sameEmail.find((a) => a.email_confirmed_at)?.email_confirmed_at;
+  const pendingToken = sameEmail.find((a) => a.email_confirmation_token)?.email_confirmation_token;
+  const confirmationToken = email && !confirmedAt ? pendingToken || crypto.randomBytes(32).toString('hex') : undefined;
+
+  // Best effort: a provider outage should not stop the alert being saved
+  const live = await getLiveRate(currency).catch(() => null);
+  if (live && hasCrossed({ direction: body.direction, threshold }, live.rate)) {
+    throw new RateAlertError(
+      `${currency} is already at ${formatRate(live.rate)} per USDC`,
+      'THRESHOLD_REACHED',
+      409
+    );
+  }
+
+  const alert = await DatabaseService.createRateAlert({
+    owner_id: ownerId,
+    currency,
+    direction: body.direction,
+    threshold,
+    fid,
+    email,
+    email_confirmed_at: confirmedAt,
+    email_confirmation_token: confirmationToken,
+    last_rate: live?.rate,
+    last_checked_at: live?.checkedAt,
+  });
+
+  if (email && confirmationToken && !pendingToken) await sendEmailConfirmation(email, confirmationToken);
+
+  logger.info('Rate alert created', { alertId: alert.id, currency, direction: alert.direction });
+  await DatabaseService.logAnalyticsEvent('rate_alert_created', ownerId, {
+    alert_id: alert.id,
+    currency,
+    direction: alert.direction,
+    channels: [fid && 'farcaster', email && 'email'].filter(Boolean),
+  }).catch(() => undefined);
+
+  return toRateAlert(alert);
+}
+
+/**
+ * Confirm the email address from a confirmation link, for every alert of the
+ * owner that uses it
+ *
+ * @returns the currency of the alert the link was sent for
+ * @throws RateAlertError NOT_FOUND when the link is unknown or already used
+ */
+export async function confirmRateAlertEmail(token: unknown): Promise<RecipientCurrency> {
+  const alert = typeof token === 'string' && /^[0-9a-f]{64}$/.test(token)
+    ? await DatabaseService.getRateAlertByEmailConfirmationToken(token)
+    : null;
+  if (!alert?.email) {
+    throw new RateAlertError('This confirmation link is invalid or has already been used', 'NOT_FOUND', 404);
+  }
+
+  await DatabaseService.confirmRateAlertEmail(alert.owner_id, alert.email);
+  logger.info('Rate alert email confirmed', { alertId: alert.id });
+  return alert.currency;
+}
+
+/**
+ * The owner's alerts, newest first
+ */
+export async function listRateAlerts(owner: unknown): Promise<RateAlert[]> {
+  const alerts = await DatabaseService.getRateAlertsByOwner(parseOwner(owner));
+  return alerts.map(toRateAlert);
+}
+
+/**
+ * Watch a triggered alert again. Refused while its target is still met
+ */
+export async function rearmRateAlert(owner: unknown, alertId: string): Promise<RateAlert> {
+  const ownerId = parseOwner(owner);
+  const alert = (await DatabaseService.getRateAlertsByOwner(ownerId)).find((a) => a.id === alertId);
+  if (!alert) throw new RateAlertError('Rate alert not found', 'NOT_FOUND', 404);
+  if (alert.status === 'active') return toRateAlert(alert);
+
+  const live = await getLiveRate(alert.currency).catch(() => null);
+  if (live && hasCrossed(alert, live.rate)) {
+    throw new RateAlertError(
+      `${alert.currency} is still at ${formatRate(live.rate)} per USDC - change the target to watch again`,
+      'THRESHOLD_REACHED',
+      409
+    );
+  }
+
+  const updated = await DatabaseService.updateRateAlert(ownerId, alert.id, {
+    status: 'active',
+    triggered_at: null,
+    triggered_rate: null,
+    triggered_provider: null,
+    ...(live && { last_rate: live.rate, last_checked_at: live.checkedAt }),
+  });
+  if (!updated) throw new RateAlertError('Rate alert not found', 'NOT_FOUND', 404);
+
+  return toRateAlert(updated);
+}
+
+export async function deleteRateAlert(owner: unknown, alertId: string): Promise<void> {
+  if (!(await DatabaseService.deleteRateAlert(parseOwner(owner), alertId))) {
+    throw new RateAlertError('Rate alert not found', 'NOT_FOUND', 404);
+  }
+}
+
+function getExchangeUrl(currency: RecipientCurrency): string {
+  return `${RATE_ALERT_CONFIG.APP_URL}/?currency=${currency}`;
+}
+
+/**
+ * Never throws - returns whether the email was handed to Resend
+ */
+async function sendRateAlertEmail(alert: RateAlertRecord, live: LiveRate): Promise<boolean> {
+  if (!alert.email) return false;
+
+  try {
+    const providerRows = (Object.entries(live.rates) as [RateAlertProvider, number][])
+      .map(([provider, rate]) => detailRow(PROVIDER_NAMES[provider], `${formatRate(rate)} ${alert.currency}`))
+      .join('');
+
+    const body = `
+      <h2 style="margin:0 0 8px;color:#1a1a1a;font-size:18px;font-weight:600;">${alert.currency} is ${alert.direction} your target</h2>
+      <p style="margin:0 0 24px;color:#6b7280;font-size:14px;line-height:1.6;">
+        1 USDC now gets ${formatRate(live.rate)} ${alert.currency} via ${PROVIDER_NAMES[live.provider]}.
+      </p>
+      <table width="100%" cellpadding="0" cellspacing="0" style="border:1px solid #f0f0f0;border-radius:10px;margin:0 0 20px;">
+        <tr><td class="detail-cell" style="padding:14px 16px;">
+          <table width="100%" cellpadding="0" cellspacing="0">
+            ${detailRow('Your target', `${alert.direction} ${formatRate(Number(alert.threshold))} ${alert.currency}`)}
+            ${providerRows}
+          </table>
+        </td></tr>
+      </table>
+      <p style="margin:0 0 4px;color:#6b7280;font-size:13px;line-height:1.5;">
+        Rates move - the rate you get is locked when you confirm your payment.
+      </p>
+      ${ctaButton(getExchangeUrl(alert.currency), `Send ${alert.currency}`)}`;
+
+    const resend = getResendClient();
+    await resend.emails.send({
+      from: EMAIL_FROM,
+      to: alert.email,
+      subject: `${alert.currency} rate alert — ${formatRate(live.rate)} per USDC`,
+      html: emailLayout(body),
+    });
+    return true;
+  } catch (error) {
+    logger.warn('Rate alert email not sent', { alertId: alert.id, error });
+    return false;
+  }
+}
+
+async function sendRateAlertNotification(alert: RateAlertRecord, live: LiveRate): Promise<boolean> {
+  if (!alert.fid) return false;
+
+  const { success, error } = await sendNotificationToUser(alert.fid, {
+    title: `${alert.currency} is ${alert.direction} ${formatRate(Number(alert.threshold))}`,
+    body: `1 USDC now gets ${formatRate(live.rate)} ${alert.currency} via ${PROVIDER_NAMES[live.provider]}. Tap to send at this rate.`,
+    targetUrl: getExchangeUrl(alert.currency),
+    category: 'rate_alerts',
+  });
+  if (!success) logger.warn('Rate alert notification not sent', { alertId: alert.id, error });
+  return success;
+}
+
+/**
+ * Fire an alert whose target the live rate has crossed. When no channel delivers,
+ * the alert goes back to active for the next pass. When the owner's notification
+ * preferences allow no channel right now (quiet hours), it is left active untouched
+ */
+async function triggerAlert(alert: RateAlertRecord, live: LiveRate): Promise<boolean> {
+  const target = { owner: alert.owner_id, fid: alert.fid };
+  const [notify, email] = await Promise.all([
+    alert.fid ? canNotify(target, 'rate_alerts', 'farcaster') : false,
+    alert.email && alert.email_confirmed_at ? canNotify(target, 'rate_alerts', 'email') : false,
+  ]);
+  if (!notify && !email) return false;
+
+  const claimed = await DatabaseService.transitionRateAlert(alert.id, 'active', {
+    status: 'triggered',
+    triggered_at: live.checkedAt,
+    triggered_rate: live.rate,
+    triggered_provider: live.provider,
+    last_rate: live.rate,
+    last_checked_at: live.checkedAt,
+  });
+  if (!claimed) return false;
+
+  const [notified, emailed] = await Promise.all([
+    notify && sendRateAlertNotification(claimed, live),
+    email && sendRateAlertEmail(claimed, live),
+  ]);
+
+  if (!notified && !emailed) {
+    await DatabaseService.transitionRateAlert(alert.id, 'triggered', {
+      status: 'active',
+      triggered_at: null,
+      triggered_rate: null,
+      triggered_provider: null,
+    });
+    throw new Error('No notification channel delivered');
+  }
+
+  logger.info('Rate alert triggered', { alertId: alert.id, currency: alert.currency, rate: live.rate, notified, emailed });
+  return true;
+}
+
+/**
+ * Checker pass: compare every active alert with the live rate for its currency and
+ * fire the ones whose target has been crossed
+ */
+export async function checkRateAlerts(deadline = Date.now() + RATE_ALERT_CONFIG.PROCESS_BUDGET_MS) {
+  const summary = { checked: 0, triggered: 0, failed: 0 };
+
+  const alertsByCurrency = new Map<RecipientCurrency, RateAlertRecord[]>();
+  for (const alert of await DatabaseService.getActiveRateAlerts()) {
+    alertsByCurrency.set(alert.currency, [...(alertsByCurrency.get(alert.currency) || []), alert]);
+  }
+
+  for (const [currency, alerts] of alertsByCurrency) {
+    if (Date.now() > deadline) break;
+
+    let live: LiveRate;
+    try {
+      live = await getLiveRate(currency);
+    } catch (error) {
+      // Leave the alerts for the next pass
+      logger.error('Failed to get live rate', { currency, error });
+      continue;
+    }
+
+    const waiting: string[] = [];
+    for (const alert of alerts) {
+      summary.checked++;
+      if (!hasCrossed(alert, live.rate)) {
+        waiting.push(alert.id);
+        continue;
+      }
+      if (Date.now() > deadline) break;
+
+      try {
+        if (await triggerAlert(alert, live)) summary.triggered++;
+      } catch (error) {
+        summary.failed++;
+        logger.error('Failed to trigger rate alert', { alertId: alert.id, error });
+      }
+    }
+
+    await DatabaseService.recordRateAlertChecks(waiting, live.rate, live.checkedAt).catch((error) => {
+      logger.warn('Failed to record rate alert checks', { currency, error });
+    });
+  }
+
+  return summary;
+}
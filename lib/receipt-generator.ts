@@ -2,6 +2,7 @@ import jsPDF from 'jspdf';
 import QRCode from 'qrcode';
 import { ReceiptData, ReceiptGenerationOptions } from './types/receipt';
 import { OrderData } from './types/order';
+import { getChainTxUrl } from './pretium/chains';
 
 export class ReceiptGenerator {
   private pdf: jsPDF;
@@ -151,8 +152,8 @@ export class ReceiptGenerator {
       rightX, currentY, { size: 16, style: 'bold', align: 'right', color: 'primary' });
     currentY += 10;
 
-    // USDC equivalent
-    this.text(`≈ $${this.data.usdcAmount.toFixed(2)} USDC`,
+    // Stablecoin equivalent
+    this.text(`≈ $${this.data.usdcAmount.toFixed(2)} ${this.data.token}`,
       rightX, currentY, { size: 10, style: 'bold', color: 'muted', align: 'right' });
     currentY += 18;
 
@@ -198,13 +199,13 @@ export class ReceiptGenerator {
     if (!this.data.blockchainTxHash) return;
 
     try {
-      const basescanUrl = `https://basescan.org/tx/${this.data.blockchainTxHash}`;
+      const explorerUrl = getChainTxUrl(this.data.chain, this.data.blockchainTxHash);
       const qrSize = 50;
       const qrX = (this.page.width - qrSize) / 2;
       const qrY = this.y;
 
       // Generate QR code as data URL
-      const qrDataUrl = await QRCode.toDataURL(basescanUrl, {
+      const qrDataUrl = await QRCode.toDataURL(explorerUrl, {
         width: 200,
         margin: 1,
         color: {
@@ -301,8 +302,9 @@ export function createReceiptFromOrder(orderData: OrderData): ReceiptData {
     senderWallet: orderData.wallet_address || orderData.returnAddress || '',
 
     network: 'base',
-    token: 'USDC',
+    token: orderData.token || 'USDC',
     blockchainTxHash: orderData.blockchain_tx_hash || orderData.transactionHash,
+    chain: orderData.chain,
 
     receiptNumber,
     mpesaReceiptNumber: orderData.pretium_receipt_number, // M-Pesa transaction code
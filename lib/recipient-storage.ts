@@ -1,207 +1,142 @@
 /**
  * Recipient Storage Utility
- * Manages frequently used recipient information with intelligent deduplication
+ * Client for the saved recipients (address book) API
  *
  * SECURITY NOTES:
- * - All data is stored locally in browser (user's device only)
- * - Data is sanitized before storage to prevent XSS
- * - Only last 4 digits of phone/account shown in some contexts
+ * - Recipients are stored server-side, encrypted at rest, keyed by the user's
+ *   wallet address or Privy user ID so they follow the user across apps
+ * - Every request is authenticated (useAuthFetch); the server takes the owner
+ *   from the session, never from the request
+ * - Recipients this browser kept in localStorage are imported once, then removed
  * - No sensitive financial data (balances, transaction IDs) stored
  */
 
-export interface SavedRecipient {
-  id: string;
-  type: 'KES' | 'NGN' | 'GHS' | 'UGX';
-  phoneNumber?: string;
-  accountNumber?: string;
-  accountName: string;
-  bankCode?: string;
-  bankName?: string;
-  lastUsed: string;
-  useCount: number;
-}
+import type { AuthFetch } from '@/lib/hooks/useAuthFetch';
+import type { RecipientInput, RecipientUpdate, SavedRecipient } from '@/lib/types/recipients';
 
-const STORAGE_KEY = 'minisend_recipients';
-const MAX_RECIPIENTS = 8;
+export type { SavedRecipient } from '@/lib/types/recipients';
 
-/**
- * Simple obfuscation for localStorage data
- * Note: This is NOT encryption, just obfuscation to prevent casual inspection
- * Real sensitive data should be on server-side only
- */
-function obfuscate(data: string): string {
-  return btoa(encodeURIComponent(data));
-}
+// Where recipients were kept before they moved server-side
+const LEGACY_STORAGE_KEY = 'minisend_recipients';
 
-function deobfuscate(data: string): string {
-  try {
-    return decodeURIComponent(atob(data));
-  } catch {
-    return '';
-  }
-}
+// A saved verified name is trusted for this long before the account is checked again
+const VERIFIED_NAME_TTL_MS = 30 * 24 * 60 * 60 * 1000;
 
-/**
- * Sanitize string input to prevent XSS
- */
-function sanitizeString(input: string): string {
-  return input
-    .replace(/[<>\"']/g, '') // Remove potential HTML/script characters
-    .trim()
-    .substring(0, 200); // Limit length
-}
+let migration: Promise<void> | null = null;
 
 /**
- * Validate phone number format (basic validation)
+ * The owner recipients are saved under: the Privy user on web, else the wallet
  */
-function isValidPhone(phone: string): boolean {
-  return /^\+?[1-9]\d{8,14}$/.test(phone);
+export function getRecipientOwner(
+  user: { platform: string; userId: string } | null | undefined,
+  walletAddress: string | null | undefined
+): string | null {
+  if (user?.platform === 'web' && user.userId) return user.userId;
+  return walletAddress || null;
 }
 
 /**
- * Validate account number format (basic validation)
+ * Whether a saved recipient's name was verified recently enough to skip verification
  */
-function isValidAccountNumber(account: string): boolean {
-  return /^\d{10,18}$/.test(account);
+export function hasFreshVerifiedName(recipient: SavedRecipient): boolean {
+  if (!recipient.verifiedName || !recipient.verifiedAt) return false;
+  return Date.now() - new Date(recipient.verifiedAt).getTime() < VERIFIED_NAME_TTL_MS;
 }
 
 /**
- * Get all saved recipients sorted by frequency and recency
+ * Read recipients in the old localStorage format (base64 "obfuscated" JSON)
  */
-export function getSavedRecipients(): SavedRecipient[] {
-  if (typeof window === 'undefined') return [];
-
+function readLegacyRecipients(): unknown[] | null {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return [];
-
-    // Deobfuscate the stored data
-    const deobfuscatedData = deobfuscate(stored);
-    if (!deobfuscatedData) return [];
-
-    const recipients: SavedRecipient[] = JSON.parse(deobfuscatedData);
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return null;
 
-    // Validate the structure to prevent tampering
-    if (!Array.isArray(recipients)) return [];
-
-    // Sort by use count (descending) and last used (most recent first)
-    return recipients.sort((a, b) => {
-      if (b.useCount !== a.useCount) {
-        return b.useCount - a.useCount;
-      }
-      return new Date(b.lastUsed).getTime() - new Date(a.lastUsed).getTime();
-    });
+    const recipients = JSON.parse(decodeURIComponent(atob(stored)));
+    return Array.isArray(recipients) ? recipients : [];
   } catch {
     return [];
   }
 }
 
 /**
- * Get recipients filtered by currency type
+ * Move this browser's localStorage recipients to the signed-in user's address book, once.
+ * The local copy is only removed after the server accepted it
  */
-export function getRecipientsByCurrency(currency: 'KES' | 'NGN' | 'GHS' | 'UGX'): SavedRecipient[] {
-  return getSavedRecipients().filter(r => r.type === currency);
+export function migrateLocalRecipients(authFetch: AuthFetch): Promise<void> {
+  if (typeof window === 'undefined') return Promise.resolve();
+
+  if (!migration) {
+    migration = (async () => {
+      const legacy = readLegacyRecipients();
+      if (legacy === null) return;
+
+      if (legacy.length > 0) {
+        const response = await authFetch('/api/recipients/import', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ recipients: legacy }),
+        });
+        if (!response.ok) throw new Error('Failed to import saved recipients');
+      }
+
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    })().catch(() => {
+      // Try again on the next load
+      migration = null;
+    });
+  }
+
+  return migration;
 }
 
 /**
- * Save or update a recipient with validation and sanitization
+ * Saved recipients for a currency - favorites first, then by frequency and recency
  */
-export function saveRecipient(recipient: Omit<SavedRecipient, 'id' | 'lastUsed' | 'useCount'>): void {
-  if (typeof window === 'undefined') return;
-
-  try {
-    // Validate and sanitize inputs
-    const sanitizedAccountName = sanitizeString(recipient.accountName);
-    if (!sanitizedAccountName) return; // Don't save if name is empty after sanitization
-
-    // Validate phone number for KES, GHS, and UGX
-    if (recipient.type === 'KES' || recipient.type === 'GHS' || recipient.type === 'UGX') {
-      if (!recipient.phoneNumber || !isValidPhone(recipient.phoneNumber)) {
-        return; // Invalid phone number
-      }
-    }
+export async function getRecipientsByCurrency(authFetch: AuthFetch, currency: SavedRecipient['type']): Promise<SavedRecipient[]> {
+  await migrateLocalRecipients(authFetch);
 
-    // Validate account number for NGN
-    if (recipient.type === 'NGN') {
-      if (!recipient.accountNumber || !isValidAccountNumber(recipient.accountNumber)) {
-        return; // Invalid account number
-      }
-      if (!recipient.bankCode) {
-        return; // Bank code required for NGN
-      }
-    }
+  const params = new URLSearchParams({ currency });
+  const response = await authFetch(`/api/recipients?${params}`);
+  if (!response.ok) throw new Error('Failed to load saved recipients');
 
-    const recipients = getSavedRecipients();
+  const data: { recipients: SavedRecipient[] } = await response.json();
+  return data.recipients;
+}
 
-    // Find existing recipient based on unique identifiers
-    const existingIndex = recipients.findIndex(r => {
-      if (recipient.type === 'KES' || recipient.type === 'GHS' || recipient.type === 'UGX') {
-        return r.phoneNumber === recipient.phoneNumber;
-      } else {
-        return r.accountNumber === recipient.accountNumber && r.bankCode === recipient.bankCode;
-      }
+/**
+ * Save or update a recipient after a payment
+ */
+export async function saveRecipient(authFetch: AuthFetch, recipient: RecipientInput): Promise<void> {
+  try {
+    await authFetch('/api/recipients', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ recipient }),
     });
-
-    if (existingIndex >= 0) {
-      // Update existing recipient
-      recipients[existingIndex] = {
-        ...recipients[existingIndex],
-        accountName: sanitizedAccountName,
-        bankName: recipient.bankName ? sanitizeString(recipient.bankName) : undefined,
-        lastUsed: new Date().toISOString(),
-        useCount: recipients[existingIndex].useCount + 1,
-      };
-    } else {
-      // Add new recipient with sanitized data
-      const newRecipient: SavedRecipient = {
-        id: generateId(),
-        type: recipient.type,
-        phoneNumber: recipient.phoneNumber,
-        accountNumber: recipient.accountNumber,
-        accountName: sanitizedAccountName,
-        bankCode: recipient.bankCode,
-        bankName: recipient.bankName ? sanitizeString(recipient.bankName) : undefined,
-        lastUsed: new Date().toISOString(),
-        useCount: 1,
-      };
-
-      recipients.unshift(newRecipient);
-
-      // Keep only MAX_RECIPIENTS
-      if (recipients.length > MAX_RECIPIENTS) {
-        recipients.splice(MAX_RECIPIENTS);
-      }
-    }
-
-    // Obfuscate before storing
-    const obfuscatedData = obfuscate(JSON.stringify(recipients));
-    localStorage.setItem(STORAGE_KEY, obfuscatedData);
   } catch {
     // Silent fail - non-critical feature
   }
 }
 
 /**
- * Delete a saved recipient
+ * Rename or (un)favorite a saved recipient
  */
-export function deleteRecipient(id: string): void {
-  if (typeof window === 'undefined') return;
-
-  try {
-    const recipients = getSavedRecipients();
-    const filtered = recipients.filter(r => r.id !== id);
-
-    // Obfuscate before storing
-    const obfuscatedData = obfuscate(JSON.stringify(filtered));
-    localStorage.setItem(STORAGE_KEY, obfuscatedData);
-  } catch {
-    // Silent fail
-  }
+export async function updateRecipient(authFetch: AuthFetch, id: string, update: RecipientUpdate): Promise<SavedRecipient> {
+  const response = await authFetch(`/api/recipients/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || 'Failed to update recipient');
+
+  return data.recipient;
 }
 
 /**
- * Generate a unique ID
+ * Delete a saved recipient
  */
-function generateId(): string {
-  return `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+export async function deleteRecipient(authFetch: AuthFetch, id: string): Promise<void> {
+  const response = await authFetch(`/api/recipients/${id}`, { method: 'DELETE' });
+  if (!response.ok) throw new Error('Failed to delete recipient');
 }
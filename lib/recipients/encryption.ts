@@ -0,0 +1,63 @@
+// Recipient Encryption
+// Phone and account numbers and names are encrypted with AES-256-GCM before they
+// reach the database. The key never leaves the server.
+import crypto from 'crypto';
+import { getRecipientKey } from '@/lib/offramp/limits';
+import type { OfframpRecipient } from '@/lib/offramp/types';
+import { RecipientError } from './errors';
+
+export const RECIPIENT_ENCRYPTION_CONFIG = {
+  // Any long random string - the AES key is derived from it. Changing it makes
+  // stored recipients unreadable, so it has no fallback
+  SECRET: process.env.RECIPIENTS_ENCRYPTION_KEY || '',
+  IV_BYTES: 12,
+};
+
+// The fields stored encrypted in recipients.encrypted_details
+export interface RecipientDetails {
+  phoneNumber?: string;
+  accountNumber?: string;
+  bankCode?: string;
+  bankName?: string;
+  accountName: string;
+  verifiedName?: string;
+}
+
+function deriveKey(purpose: 'encryption' | 'hash'): Buffer {
+  if (!RECIPIENT_ENCRYPTION_CONFIG.SECRET) {
+    throw new RecipientError('Saved recipients are not configured', 'ENCRYPTION_NOT_CONFIGURED', 503);
+  }
+  return crypto.createHmac('sha256', RECIPIENT_ENCRYPTION_CONFIG.SECRET).update(`recipients:${purpose}`).digest();
+}
+
+/**
+ * Encrypt recipient details as `iv.tag.ciphertext` (base64)
+ */
+export function encryptRecipientDetails(details: RecipientDetails): string {
+  const iv = crypto.randomBytes(RECIPIENT_ENCRYPTION_CONFIG.IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey('encryption'), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(details), 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join('.');
+}
+
+/**
+ * @throws Error when the payload was tampered with or encrypted under another key
+ */
+export function decryptRecipientDetails(payload: string): RecipientDetails {
+  const [iv, tag, ciphertext] = payload.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey('encryption'), iv);
+  decipher.setAuthTag(tag);
+
+  return JSON.parse(Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8'));
+}
+
+/**
+ * Keyed hash of the normalized destination, so the same recipient saved as
+ * 0712345678 and +254712345678 is one entry
+ */
+export function hashRecipientDestination(recipient: Partial<OfframpRecipient>): string | null {
+  const key = getRecipientKey(recipient);
+  if (!key) return null;
+  return crypto.createHmac('sha256', deriveKey('hash')).update(key).digest('hex');
+}
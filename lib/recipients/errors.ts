@@ -0,0 +1,30 @@
+// Recipient Errors
+
+export type RecipientErrorCode =
+  | 'INVALID_REQUEST'
+  | 'NOT_FOUND'
+  | 'ENCRYPTION_NOT_CONFIGURED';
+
+/**
+ * Error raised by the saved recipients service. Routes turn it into
+ * `{ error, code, details }` with `statusCode`
+ */
+export class RecipientError extends Error {
+  constructor(
+    message: string,
+    public readonly code: RecipientErrorCode,
+    public readonly statusCode: number = 400,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'RecipientError';
+  }
+
+  toResponseBody(): Record<string, unknown> {
+    return {
+      error: this.message,
+      code: this.code,
+      ...(this.details !== undefined && { details: this.details }),
+    };
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Recipients Module Exports
+ * Server-side saved recipients (address book), encrypted at rest
+ */
+
+export {
+  RECIPIENT_CONFIG,
+  parseRecipientOwner,
+  listRecipients,
+  getRecipient,
+  saveRecipient,
+  importRecipients,
+  updateRecipient,
+  deleteRecipient,
+  cacheVerifiedName,
+} from './recipient-service';
+
+export { RECIPIENT_ENCRYPTION_CONFIG, hashRecipientDestination } from './encryption';
+
+export { RecipientError } from './errors';
+export type { RecipientErrorCode } from './errors';
@@ -0,0 +1,297 @@
+// Saved Recipients Service
+// The address book behind the recipient picker. Entries belong to an owner - the
+// user's wallet address, or their Privy user ID on web - so they follow the user
+// across Warpcast, the Base app and web. Identifying details are encrypted at rest.
+import { DatabaseService, type RecipientRecord } from '@/lib/supabase/config';
+import { createLogger } from '@/lib/logger';
+import { isValidAddress } from '@/lib/utils/validation';
+import type { RecipientCurrency, RecipientInput, RecipientUpdate, SavedRecipient } from '@/lib/types/recipients';
+import {
+  decryptRecipientDetails,
+  encryptRecipientDetails,
+  hashRecipientDestination,
+  type RecipientDetails,
+} from './encryption';
+import { RecipientError } from './errors';
+
+const logger = createLogger('recipients');
+
+export const RECIPIENT_CONFIG = {
+  CURRENCIES: ['KES', 'NGN', 'GHS', 'UGX'] as RecipientCurrency[],
+  MOBILE_CURRENCIES: ['KES', 'GHS', 'UGX'] as RecipientCurrency[],
+
+  // Most entries one localStorage import may bring in
+  MAX_IMPORT: 50,
+  MAX_NICKNAME_LENGTH: 40,
+};
+
+/**
+ * Resolve the owner a request acts for: a wallet address (lowercased) or a Privy user ID
+ *
+ * @throws RecipientError INVALID_REQUEST for anything else
+ */
+export function parseRecipientOwner(value: unknown): string {
+  const owner = typeof value === 'string' ? value.trim() : '';
+  if (isValidAddress(owner)) return owner.toLowerCase();
+  if (/^did:privy:[a-zA-Z0-9]+$/.test(owner)) return owner;
+  throw new RecipientError('A wallet address or Privy user ID is required', 'INVALID_REQUEST');
+}
+
+function sanitize(input: unknown, maxLength = 200): string | undefined {
+  if (typeof input !== 'string') return undefined;
+  const value = input.replace(/[<>"']/g, '').trim().substring(0, maxLength);
+  return value || undefined;
+}
+
+/**
+ * Validate a recipient from the client
+ *
+ * @throws RecipientError INVALID_REQUEST naming the problem
+ */
+function parseRecipientInput(input: unknown): { currency: RecipientCurrency; details: RecipientDetails; nickname?: string } {
+  const body = (input || {}) as Record<string, unknown>;
+  const currency = body.type as RecipientCurrency;
+  if (!RECIPIENT_CONFIG.CURRENCIES.includes(currency)) {
+    throw new RecipientError('Unsupported recipient currency', 'INVALID_REQUEST');
+  }
+
+  const accountName = sanitize(body.accountName);
+  if (!accountName) {
+    throw new RecipientError('Recipient name is required', 'INVALID_REQUEST');
+  }
+
+  const details: RecipientDetails = { accountName, verifiedName: sanitize(body.verifiedName) };
+
+  if (RECIPIENT_CONFIG.MOBILE_CURRENCIES.includes(currency)) {
+    const phoneNumber = sanitize(body.phoneNumber, 20)?.replace(/\s/g, '');
+    if (!phoneNumber || !/^\+?\d{9,15}$/.test(phoneNumber)) {
+      throw new RecipientError('A valid phone number is required', 'INVALID_REQUEST');
+    }
+    details.phoneNumber = phoneNumber;
+  } else {
+    const accountNumber = sanitize(body.accountNumber, 20);
+    const bankCode = sanitize(body.bankCode, 40);
+    if (!accountNumber || !/^\d{10,18}$/.test(accountNumber)) {
+      throw new RecipientError('A valid account number is required', 'INVALID_REQUEST');
+    }
+    if (!bankCode) {
+      throw new RecipientError('Bank code is required', 'INVALID_REQUEST');
+    }
+    Object.assign(details, { accountNumber, bankCode, bankName: sanitize(body.bankName) });
+  }
+
+  return { currency, details, nickname: sanitize(body.nickname, RECIPIENT_CONFIG.MAX_NICKNAME_LENGTH) };
+}
+
+function getRecordDetails(record: RecipientRecord): RecipientDetails | null {
+  try {
+    return decryptRecipientDetails(record.encrypted_details);
+  } catch (error) {
+    if (error instanceof RecipientError) throw error;
+    logger.error('Failed to decrypt saved recipient', { recipientId: record.id, error });
+    return null;
+  }
+}
+
+function toSavedRecipient(record: RecipientRecord, details: RecipientDetails): SavedRecipient {
+  return {
+    id: record.id,
+    type: record.currency,
+    phoneNumber: details.phoneNumber,
+    accountNumber: details.accountNumber,
+    accountName: details.accountName,
+    bankCode: details.bankCode,
+    bankName: details.bankName,
+    nickname: record.nickname || undefined,
+    isFavorite: record.is_favorite,
+    verifiedName: details.verifiedName,
+    verifiedAt: record.verified_at || undefined,
+    lastUsed: record.last_used_at || record.created_at,
+    useCount: record.use_count,
+  };
+}
+
+/**
+ * An owner's recipients, favorites first then by use. Entries that cannot be
+ * decrypted are left out rather than failing the list
+ */
+export async function listRecipients(ownerId: string, currency?: RecipientCurrency): Promise<SavedRecipient[]> {
+  const records = await DatabaseService.getRecipients(ownerId, currency);
+
+  return records.flatMap((record) => {
+    const details = getRecordDetails(record);
+    return details ? [toSavedRecipient(record, details)] : [];
+  });
+}
+
+/**
+ * One of an owner's recipients
+ *
+ * @throws RecipientError NOT_FOUND when it does not exist, belongs to someone else or cannot be decrypted
+ */
+export async function getRecipient(ownerId: string, recipientId: string): Promise<SavedRecipient> {
+  const record = await DatabaseService.getRecipientById(ownerId, recipientId);
+  const details = record && getRecordDetails(record);
+  if (!record || !details) {
+    throw new RecipientError('Recipient not found', 'NOT_FOUND', 404);
+  }
+  return toSavedRecipient(record, details);
+}
+
+/**
+ * Save a recipient, or update the existing entry for the same destination
+ *
+ * @param usage - how to count this save: a payment now (default), or use carried over from an import
+ */
+async function upsertRecipient(
+  ownerId: string,
+  input: unknown,
+  usage: { useCount: number; lastUsed: string; increment: boolean }
+): Promise<SavedRecipient> {
+  const { currency, details, nickname } = parseRecipientInput(input);
+  const recipientHash = hashRecipientDestination(details);
+  if (!recipientHash) {
+    throw new RecipientError('Recipient has no phone or account number', 'INVALID_REQUEST');
+  }
+
+  const existing = await DatabaseService.getRecipientByHash(ownerId, recipientHash);
+
+  if (!existing) {
+    try {
+      const record = await DatabaseService.createRecipient({
+        owner_id: ownerId,
+        currency,
+        recipient_hash: recipientHash,
+        encrypted_details: encryptRecipientDetails(details),
+        nickname,
+        is_favorite: false,
+        verified_at: details.verifiedName ? new Date().toISOString() : undefined,
+        use_count: usage.useCount,
+        last_used_at: usage.lastUsed,
+      });
+      return toSavedRecipient(record, details);
+    } catch (error) {
+      // Saved from another device at the same moment - fall through to update it
+      if ((error as { code?: string }).code !== '23505') throw error;
+    }
+  }
+
+  const current = existing || (await DatabaseService.getRecipientByHash(ownerId, recipientHash));
+  if (!current) {
+    throw new RecipientError('Recipient could not be saved', 'NOT_FOUND', 404);
+  }
+
+  const previous = getRecordDetails(current);
+  const merged: RecipientDetails = {
+    ...details,
+    verifiedName: details.verifiedName || previous?.verifiedName,
+  };
+
+  const lastUsed = current.last_used_at && current.last_used_at > usage.lastUsed ? current.last_used_at : usage.lastUsed;
+  const updated = await DatabaseService.updateRecipient(ownerId, current.id, {
+    encrypted_details: encryptRecipientDetails(merged),
+    nickname: nickname || current.nickname,
+    verified_at: details.verifiedName ? new Date().toISOString() : current.verified_at,
+    use_count: usage.increment ? current.use_count + 1 : Math.max(current.use_count, usage.useCount),
+    last_used_at: lastUsed,
+  });
+  if (!updated) {
+    throw new RecipientError('Recipient could not be saved', 'NOT_FOUND', 404);
+  }
+
+  return toSavedRecipient(updated, merged);
+}
+
+/**
+ * Record a payment to a recipient - creates the entry or bumps its use count
+ */
+export async function saveRecipient(ownerId: string, input: RecipientInput): Promise<SavedRecipient> {
+  return upsertRecipient(ownerId, input, { useCount: 1, lastUsed: new Date().toISOString(), increment: true });
+}
+
+/**
+ * One-time import of recipients kept in a browser's localStorage. Invalid
+ * entries are skipped; use counts and last-used dates are carried over
+ */
+export async function importRecipients(ownerId: string, entries: unknown): Promise<{ imported: number; skipped: number }> {
+  if (!Array.isArray(entries)) {
+    throw new RecipientError('recipients must be an array', 'INVALID_REQUEST');
+  }
+
+  let imported = 0;
+  for (const entry of entries.slice(0, RECIPIENT_CONFIG.MAX_IMPORT)) {
+    const legacy = (entry || {}) as Record<string, unknown>;
+    const lastUsed = typeof legacy.lastUsed === 'string' && !isNaN(Date.parse(legacy.lastUsed))
+      ? new Date(legacy.lastUsed).toISOString()
+      : new Date().toISOString();
+    const useCount = Math.max(1, Math.floor(Number(legacy.useCount) || 1));
+
+    try {
+      await upsertRecipient(ownerId, legacy, { useCount, lastUsed, increment: false });
+      imported++;
+    } catch (error) {
+      if (!(error instanceof RecipientError) || error.code !== 'INVALID_REQUEST') throw error;
+    }
+  }
+
+  return { imported, skipped: entries.length - imported };
+}
+
+/**
+ * Rename or (un)favorite a recipient
+ */
+export async function updateRecipient(ownerId: string, recipientId: string, update: RecipientUpdate): Promise<SavedRecipient> {
+  const changes: Parameters<typeof DatabaseService.updateRecipient>[2] = {};
+  if (update.nickname !== undefined) {
+    changes.nickname = sanitize(update.nickname, RECIPIENT_CONFIG.MAX_NICKNAME_LENGTH) || null;
+  }
+  if (update.isFavorite !== undefined) {
+    changes.is_favorite = update.isFavorite === true;
+  }
+  if (Object.keys(changes).length === 0) {
+    throw new RecipientError('Nothing to update', 'INVALID_REQUEST');
+  }
+
+  const record = await DatabaseService.updateRecipient(ownerId, recipientId, changes);
+  const details = record && getRecordDetails(record);
+  if (!record || !details) {
+    throw new RecipientError('Recipient not found', 'NOT_FOUND', 404);
+  }
+
+  return toSavedRecipient(record, details);
+}
+
+export async function deleteRecipient(ownerId: string, recipientId: string): Promise<void> {
+  if (!(await DatabaseService.deleteRecipient(ownerId, recipientId))) {
+    throw new RecipientError('Recipient not found', 'NOT_FOUND', 404);
+  }
+}
+
+/**
+ * Remember the name a provider returned for an account the owner has saved.
+ * Called by the verification routes; never throws - verification must not fail over it
+ */
+export async function cacheVerifiedName(
+  owner: unknown,
+  destination: { phoneNumber?: string; accountNumber?: string; bankCode?: string },
+  verifiedName: string
+): Promise<void> {
+  if (!owner || !verifiedName) return;
+
+  try {
+    const ownerId = parseRecipientOwner(owner);
+    const recipientHash = hashRecipientDestination(destination);
+    if (!recipientHash) return;
+
+    const record = await DatabaseService.getRecipientByHash(ownerId, recipientHash);
+    const details = record && getRecordDetails(record);
+    if (!record || !details) return;
+
+    await DatabaseService.updateRecipient(ownerId, record.id, {
+      encrypted_details: encryptRecipientDetails({ ...details, verifiedName }),
+      verified_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.warn('Failed to cache verified recipient name', { error });
+  }
+}
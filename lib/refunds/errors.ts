@@ -0,0 +1,34 @@
+// Refund Errors
+
+export type RefundErrorCode =
+  | 'INVALID_REQUEST'
+  | 'NOT_FOUND'
+  | 'INVALID_STATUS'
+  | 'TREASURY_NOT_CONFIGURED'
+  | 'TRANSFER_NOT_VERIFIED'
+  | 'TRANSFER_ALREADY_USED'
+  | 'WITHDRAWAL_FAILED';
+
+/**
+ * Error raised by the refund workflow. Routes turn it into
+ * `{ error, code, details }` with `statusCode`
+ */
+export class RefundError extends Error {
+  constructor(
+    message: string,
+    public readonly code: RefundErrorCode,
+    public readonly statusCode: number = 400,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'RefundError';
+  }
+
+  toResponseBody(): Record<string, unknown> {
+    return {
+      error: this.message,
+      code: this.code,
+      ...(this.details !== undefined && { details: this.details }),
+    };
+  }
+}
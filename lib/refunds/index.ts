@@ -0,0 +1,25 @@
+/**
+ * Refunds Module Exports
+ * Returning USDC to users when an off-ramp payout cannot be completed
+ */
+
+export {
+  REFUND_CONFIG,
+  ACTIVE_REFUND_STATUSES,
+  openPretiumRefund,
+  openPaycrestRefund,
+  openManualRefund,
+  openReviewRefund,
+  openBatchRefund,
+  openScheduleRefund,
+  approveRefund,
+  rejectRefund,
+  executeBlockradarRefund,
+  recordOperatorTransfer,
+  settleRefundWithdrawal,
+  closeRefundReturnedByProvider,
+  handlePaycrestOrderClosed,
+} from './refund-service';
+
+export { RefundError } from './errors';
+export type { RefundErrorCode } from './errors';
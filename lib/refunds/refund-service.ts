@@ -0,0 +1,513 @@
+// Refund Service
+// Returns USDC to the user's wallet when an off-ramp payout fails or a PayCrest order expires.
+//
+// Lifecycle: open → approved → processing → completed | failed, or open → rejected.
+// Every case is approved by an admin in the dashboard before any USDC moves.
+import {
+  DatabaseService,
+  type Order,
+  type PayoutBatchRowRecord,
+  type PayoutScheduleRunRecord,
+  type PayoutReview,
+  type PretiumOrder,
+  type Refund,
+} from '@/lib/supabase/config';
+import { withdrawUSDC } from '@/lib/blockradar/withdraw';
+import { verifyUSDCTransfer, DepositVerificationError } from '@/lib/blockchain/depositVerification';
+import { getNotificationService } from '@/lib/services/notification-service';
+import { sendNotificationToUser } from '@/lib/services/neynar-notifications';
+import { createLogger } from '@/lib/logger';
+import { RefundError } from './errors';
+
+const logger = createLogger('refunds');
+
+export const REFUND_CONFIG = {
+  // Blockradar child address refunds to custodial users are paid from
+  TREASURY_ADDRESS_ID: process.env.REFUND_TREASURY_ADDRESS_ID || process.env.OFFRAMP_FAILOVER_ADDRESS_ID,
+  // Blockradar withdrawal reference prefix - lets the webhook map a withdrawal back to its refund
+  REFERENCE_PREFIX: 'refund_',
+};
+
+// Cases still waiting on someone
+export const ACTIVE_REFUND_STATUSES: Refund['status'][] = ['open', 'approved', 'processing', 'failed'];
+
+function getProviderReference(refund: Refund) {
+  if (refund.pretium_transaction_code) {
+    return { provider: 'pretium' as const, providerOrderId: refund.pretium_transaction_code, orderId: refund.pretium_order_id };
+  }
+  return { provider: 'paycrest' as const, providerOrderId: refund.paycrest_order_id || refund.id, orderId: refund.order_id };
+}
+
+/**
+ * Record a refund step on the order's lifecycle log. Never throws - the
+ * refund row itself is the source of truth
+ */
+async function logRefundEvent(refund: Refund, event: string, reason?: string, details?: Record<string, unknown>) {
+  const reference = getProviderReference(refund);
+
+  try {
+    await DatabaseService.logOrderStatusHistory({
+      provider: reference.provider,
+      orderId: reference.orderId,
+      providerOrderId: reference.providerOrderId,
+      event,
+      newStatus: refund.status,
+      reason,
+      details: { refund_id: refund.id, ...details },
+    });
+  } catch (error) {
+    logger.error('Failed to log refund event', { refund_id: refund.id, event, error });
+  }
+}
+
+async function openRefund(params: Parameters<typeof DatabaseService.createRefund>[0]): Promise<Refund> {
+  const refund = await DatabaseService.createRefund(params);
+
+  await logRefundEvent(refund, 'refund_opened', refund.reason, {
+    source: refund.source,
+    amount_usdc: refund.amount_usdc,
+    created_by: refund.created_by,
+  });
+
+  await DatabaseService.logAnalyticsEvent('refund_opened', refund.wallet_address, {
+    refund_id: refund.id,
+    source: refund.source,
+    pretium_transaction_code: refund.pretium_transaction_code,
+    paycrest_order_id: refund.paycrest_order_id,
+    amount_usdc: refund.amount_usdc,
+  });
+
+  logger.info('Refund case opened', {
+    refund_id: refund.id,
+    source: refund.source,
+    reason: refund.reason,
+  });
+
+  return refund;
+}
+
+/**
+ * Open a refund case for a Pretium order whose USDC reached the settlement address
+ * but was never paid out
+ */
+export function openPretiumRefund(
+  order: PretiumOrder,
+  reason: string,
+  options: { paycrestOrderId?: string; source?: Refund['source']; createdBy?: string } = {}
+): Promise<Refund> {
+  return openRefund({
+    pretiumTransactionCode: order.transaction_code,
+    pretiumOrderId: order.id,
+    paycrestOrderId: options.paycrestOrderId,
+    walletAddress: order.wallet_address,
+    amountUsdc: Number(order.amount_in_usdc),
+    currency: order.local_currency,
+    fid: order.fid,
+    reason,
+    source: options.source || 'failover',
+    createdBy: options.createdBy,
+  });
+}
+
+/**
+ * Open a refund case for a PayCrest order. amountUsdc defaults to the order total
+ */
+export function openPaycrestRefund(
+  order: Order,
+  reason: string,
+  options: { amountUsdc?: number; source?: Refund['source']; createdBy?: string } = {}
+): Promise<Refund> {
+  return openRefund({
+    paycrestOrderId: order.paycrest_order_id,
+    orderId: order.id,
+    walletAddress: order.wallet_address,
+    amountUsdc: options.amountUsdc ?? Number(order.total_amount || order.amount_in_usdc),
+    currency: order.local_currency,
+    fid: order.fid,
+    reason,
+    source: options.source || 'paycrest_expired',
+    createdBy: options.createdBy,
+  });
+}
+
+/**
+ * Open a refund case for a deposit whose payout was rejected in risk review.
+ * No order exists - the case is tied to the wallet and deposit amount
+ */
+export function openReviewRefund(review: PayoutReview, reason: string, createdBy: string): Promise<Refund> {
+  return openRefund({
+    walletAddress: review.wallet_address,
+    amountUsdc: Number(review.amount_usdc),
+    currency: review.currency,
+    fid: typeof review.payout_request.fid === 'number' ? review.payout_request.fid : undefined,
+    reason,
+    source: 'risk_review',
+    createdBy,
+  });
+}
+
+/**
+ * Open a refund case for a batch payout row that could not be paid out. The row
+ * was funded from the batch deposit, so the case covers the row's share of it
+ */
+export function openBatchRefund(row: PayoutBatchRowRecord, walletAddress: string, reason: string): Promise<Refund> {
+  return openRefund({
+    walletAddress,
+    amountUsdc: Number(row.amount_usdc),
+    currency: row.currency,
+    reason: `Batch ${row.batch_id} row ${row.row_index + 1}: ${reason}`,
+    source: 'batch',
+  });
+}
+
+/**
+ * Open a refund case for a scheduled payout run whose USDC left the user's
+ * Minisend wallet but could not be paid out
+ */
+export function openScheduleRefund(run: PayoutScheduleRunRecord, walletAddress: string, currency: string, reason: string): Promise<Refund> {
+  return openRefund({
+    walletAddress,
+    amountUsdc: Number(run.amount_usdc),
+    currency,
+    reason: `Scheduled payout ${run.schedule_id}: ${reason}`,
+    source: 'schedule',
+  });
+}
+
+/**
+ * Open a case by hand from the dashboard - replaces the support spreadsheet
+ */
+export async function openManualRefund(params: {
+  provider: 'pretium' | 'paycrest';
+  orderId: string; // Pretium transaction code or PayCrest order ID
+  reason: string;
+  amountUsdc?: number;
+  createdBy: string;
+}): Promise<Refund> {
+  if (!params.orderId || !params.reason?.trim()) {
+    throw new RefundError('orderId and reason are required', 'INVALID_REQUEST');
+  }
+  if (params.amountUsdc !== undefined && !(params.amountUsdc > 0)) {
+    throw new RefundError('amountUsdc must be greater than 0', 'INVALID_REQUEST');
+  }
+
+  if (params.provider === 'pretium') {
+    const order = await DatabaseService.getPretiumOrderByTransactionCode(params.orderId);
+    if (!order) {
+      throw new RefundError('Pretium order not found', 'NOT_FOUND', 404);
+    }
+    const refund = await openPretiumRefund(order, params.reason, { source: 'manual', createdBy: params.createdBy });
+    return params.amountUsdc === undefined ? refund : adjustOpenRefundAmount(refund, params.amountUsdc);
+  }
+
+  const order = await DatabaseService.getOrderByPaycrestId(params.orderId);
+  if (!order) {
+    throw new RefundError('PayCrest order not found', 'NOT_FOUND', 404);
+  }
+  return openPaycrestRefund(order, params.reason, {
+    amountUsdc: params.amountUsdc,
+    source: 'manual',
+    createdBy: params.createdBy,
+  });
+}
+
+// Pretium cases default to the full order amount - support may refund less (e.g. partial payouts)
+async function adjustOpenRefundAmount(refund: Refund, amountUsdc: number): Promise<Refund> {
+  const adjusted = await DatabaseService.transitionRefund(refund.id, ['open'], { amount_usdc: amountUsdc });
+  return adjusted || refund;
+}
+
+async function requireRefund(refundId: string): Promise<Refund> {
+  const refund = await DatabaseService.getRefund(refundId);
+  if (!refund) {
+    throw new RefundError('Refund not found', 'NOT_FOUND', 404);
+  }
+  return refund;
+}
+
+function invalidStatus(refund: Refund, action: string): RefundError {
+  return new RefundError(`Cannot ${action} a refund that is ${refund.status}`, 'INVALID_STATUS', 409, {
+    status: refund.status,
+  });
+}
+
+/**
+ * Approve a case. Custodial users are refunded straight away through Blockradar;
+ * everyone else waits for an operator to sign the transfer and record its hash
+ */
+export async function approveRefund(refundId: string, reviewer: string, note?: string): Promise<Refund> {
+  const refund = await requireRefund(refundId);
+  if (refund.status !== 'open') {
+    throw invalidStatus(refund, 'approve');
+  }
+
+  const blockradarAddressId = await DatabaseService.getBlockradarAddressIdForWallet(refund.wallet_address);
+  const refundMethod: Refund['refund_method'] = blockradarAddressId ? 'blockradar' : 'operator_transfer';
+
+  const approved = await DatabaseService.transitionRefund(refundId, ['open'], {
+    status: 'approved',
+    refund_method: refundMethod,
+    blockradar_address_id: blockradarAddressId,
+    reviewed_by: reviewer,
+    reviewed_at: new Date().toISOString(),
+    review_note: note,
+  });
+  if (!approved) {
+    throw invalidStatus(await requireRefund(refundId), 'approve');
+  }
+
+  await logRefundEvent(approved, 'refund_approved', note, { reviewed_by: reviewer, refund_method: refundMethod });
+
+  if (refundMethod === 'blockradar') {
+    return executeBlockradarRefund(approved.id);
+  }
+
+  return approved;
+}
+
+export async function rejectRefund(refundId: string, reviewer: string, note: string): Promise<Refund> {
+  if (!note?.trim()) {
+    throw new RefundError('A note is required to reject a refund', 'INVALID_REQUEST');
+  }
+
+  const rejected = await DatabaseService.transitionRefund(refundId, ['open'], {
+    status: 'rejected',
+    reviewed_by: reviewer,
+    reviewed_at: new Date().toISOString(),
+    review_note: note,
+  });
+  if (!rejected) {
+    throw invalidStatus(await requireRefund(refundId), 'reject');
+  }
+
+  await logRefundEvent(rejected, 'refund_rejected', note, { reviewed_by: reviewer });
+  return rejected;
+}
+
+/**
+ * Pay an approved (or previously failed) custodial refund from the refund treasury.
+ * Completion is confirmed here when Blockradar settles synchronously, otherwise by
+ * the withdraw webhook via settleRefundWithdrawal
+ */
+export async function executeBlockradarRefund(refundId: string): Promise<Refund> {
+  const refund = await requireRefund(refundId);
+  if (refund.refund_method !== 'blockradar') {
+    throw new RefundError('Refund is not paid through Blockradar', 'INVALID_REQUEST');
+  }
+  if (!REFUND_CONFIG.TREASURY_ADDRESS_ID) {
+    throw new RefundError('Refund treasury address not configured', 'TREASURY_NOT_CONFIGURED', 500);
+  }
+
+  const processing = await DatabaseService.transitionRefund(refundId, ['approved', 'failed'], {
+    status: 'processing',
+    error_message: null,
+  });
+  if (!processing) {
+    throw invalidStatus(refund, 'execute');
+  }
+
+  let withdrawal;
+  try {
+    withdrawal = await withdrawUSDC({
+      addressId: REFUND_CONFIG.TREASURY_ADDRESS_ID,
+      recipientAddress: refund.wallet_address,
+      amount: refund.amount_usdc,
+      reference: `${REFUND_CONFIG.REFERENCE_PREFIX}${refund.id}`,
+      note: `Refund ${refund.pretium_transaction_code || refund.paycrest_order_id || refund.id}`,
+      metadata: {
+        refund_id: refund.id,
+        pretium_transaction_code: refund.pretium_transaction_code,
+        paycrest_order_id: refund.paycrest_order_id,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const failed = await DatabaseService.transitionRefund(refundId, ['processing'], {
+      status: 'failed',
+      error_message: message,
+    });
+    if (failed) await logRefundEvent(failed, 'refund_failed', message);
+    throw new RefundError(`Blockradar withdrawal failed: ${message}`, 'WITHDRAWAL_FAILED', 502);
+  }
+
+  const updated = await DatabaseService.transitionRefund(refundId, ['processing'], {
+    blockradar_withdrawal_id: withdrawal.id,
+    tx_hash: withdrawal.hash || null,
+  });
+
+  await logRefundEvent(updated || processing, 'refund_processing', undefined, {
+    blockradar_withdrawal_id: withdrawal.id,
+    tx_hash: withdrawal.hash,
+  });
+
+  if (withdrawal.status === 'SUCCESS') {
+    return completeRefund(refundId, ['processing'], { tx_hash: withdrawal.hash });
+  }
+
+  return updated || processing;
+}
+
+/**
+ * Settle an operator-signed refund: verify the USDC transfer on Base and close the case
+ */
+export async function recordOperatorTransfer(refundId: string, txHash: string, operator: string): Promise<Refund> {
+  const refund = await requireRefund(refundId);
+  if (refund.refund_method !== 'operator_transfer' || !['approved', 'failed'].includes(refund.status)) {
+    throw invalidStatus(refund, 'record a transfer for');
+  }
+
+  const alreadyUsed = await DatabaseService.getRefundByTxHash(txHash);
+  if (alreadyUsed) {
+    throw new RefundError('Transaction has already settled another refund', 'TRANSFER_ALREADY_USED', 409, {
+      refund_id: alreadyUsed.id,
+    });
+  }
+
+  try {
+    await verifyUSDCTransfer({
+      transactionHash: txHash,
+      expectedRecipient: refund.wallet_address,
+      minimumAmountUSDC: Number(refund.amount_usdc),
+    });
+  } catch (error) {
+    if (error instanceof DepositVerificationError) {
+      throw new RefundError(error.message, 'TRANSFER_NOT_VERIFIED', error.statusCode, {
+        reason: error.code,
+        ...error.details,
+      });
+    }
+    throw error;
+  }
+
+  return completeRefund(refundId, ['approved', 'failed'], { tx_hash: txHash, completed_by: operator });
+}
+
+/**
+ * Apply a Blockradar withdraw webhook to the refund it pays, if any.
+ * Returns null when the withdrawal is not a refund
+ */
+export async function settleRefundWithdrawal(withdrawal: {
+  reference?: string;
+  status?: string;
+  hash?: string;
+  failureReason?: string;
+}): Promise<Refund | null> {
+  if (!withdrawal.reference?.startsWith(REFUND_CONFIG.REFERENCE_PREFIX)) {
+    return null;
+  }
+
+  const refundId = withdrawal.reference.slice(REFUND_CONFIG.REFERENCE_PREFIX.length);
+  const refund = await DatabaseService.getRefund(refundId);
+  if (!refund || refund.status !== 'processing') {
+    return refund;
+  }
+
+  if (withdrawal.status === 'SUCCESS') {
+    return completeRefund(refundId, ['processing'], { tx_hash: withdrawal.hash });
+  }
+
+  if (withdrawal.status === 'FAILED') {
+    const message = withdrawal.failureReason || 'Blockradar withdrawal failed';
+    const failed = await DatabaseService.transitionRefund(refundId, ['processing'], {
+      status: 'failed',
+      error_message: message,
+    });
+    if (failed) await logRefundEvent(failed, 'refund_failed', message);
+    return failed;
+  }
+
+  return refund;
+}
+
+/**
+ * Close the case for a PayCrest order PayCrest refunded itself
+ */
+export async function closeRefundReturnedByProvider(paycrestOrderId: string): Promise<Refund | null> {
+  const refund = await DatabaseService.getRefundByPaycrestOrderId(paycrestOrderId);
+  if (!refund || !['open', 'approved', 'failed'].includes(refund.status)) {
+    return refund;
+  }
+
+  return completeRefund(refund.id, ['open', 'approved', 'failed'], { completed_by: 'paycrest' });
+}
+
+/**
+ * Refund side of a PayCrest order closing: expired orders that still received USDC
+ * get a case, PayCrest's own refunds close theirs. Shared by the webhook and the reconciler
+ */
+export async function handlePaycrestOrderClosed(
+  order: Order,
+  paycrestStatus: string,
+  amountPaid?: string | number
+): Promise<Refund | null> {
+  if (paycrestStatus === 'refunded') {
+    const refund = await closeRefundReturnedByProvider(order.paycrest_order_id);
+    if (refund) logger.info('Refund case closed by PayCrest refund', { refund_id: refund.id });
+    return refund;
+  }
+
+  if (paycrestStatus !== 'expired') return null;
+
+  const paid = parseFloat(String(amountPaid || '0'));
+  if (!(paid > 0)) return null;
+
+  return openPaycrestRefund(order, 'PayCrest order expired after receiving USDC', {
+    amountUsdc: paid,
+    source: 'paycrest_expired',
+  });
+}
+
+async function completeRefund(
+  refundId: string,
+  fromStatuses: Refund['status'][],
+  completion: { tx_hash?: string; completed_by?: string }
+): Promise<Refund> {
+  const completed = await DatabaseService.transitionRefund(refundId, fromStatuses, {
+    status: 'completed',
+    tx_hash: completion.tx_hash,
+    completed_at: new Date().toISOString(),
+    error_message: null,
+  });
+  if (!completed) {
+    return requireRefund(refundId);
+  }
+
+  await logRefundEvent(completed, 'refund_completed', undefined, {
+    tx_hash: completion.tx_hash,
+    completed_by: completion.completed_by,
+  });
+
+  await DatabaseService.logAnalyticsEvent('refund_completed', completed.wallet_address, {
+    refund_id: completed.id,
+    refund_method: completed.refund_method,
+    amount_usdc: completed.amount_usdc,
+    tx_hash: completion.tx_hash,
+  });
+
+  await notifyRefundCompleted(completed);
+  return completed;
+}
+
+/**
+ * Tell the user their USDC is back, through the configured notification provider.
+ * Never throws - a missed notification must not undo a refund
+ */
+async function notifyRefundCompleted(refund: Refund): Promise<void> {
+  if (!refund.fid) return;
+
+  try {
+    const service = getNotificationService();
+    const template = service.getNotificationTemplate('refund_completed', {
+      amount: Number(refund.amount_usdc).toFixed(2),
+      orderId: refund.pretium_transaction_code || refund.paycrest_order_id || refund.id,
+    });
+
+    await sendNotificationToUser(refund.fid, template);
+
+    await DatabaseService.transitionRefund(refund.id, ['completed'], {
+      notified_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.warn('Failed to notify user (non-critical)', { refund_id: refund.id, error });
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Risk Module Exports
+ * Sanctions and risk screening for wallets and recipients before payouts
+ */
+
+export { RiskScreeningService, riskScreeningService, hashRecipient, RISK_CONFIG } from './risk-service';
+
+// Providers
+export { denyListProvider } from './providers/deny-list';
+export { blockradarAmlProvider } from './providers/blockradar-aml';
+
+// Types
+export type {
+  RiskSubject,
+  RiskSignal,
+  RiskScreeningResult,
+  RiskScreeningProvider,
+} from './types';
@@ -0,0 +1,31 @@
+// Blockradar AML: custodial (Minisend) wallets are Blockradar addresses that
+// carry the AML status Blockradar's screening provider assigned them
+import { DatabaseService } from '@/lib/supabase/config';
+import { blockradarClient } from '@/lib/blockradar/client';
+import { BLOCKRADAR_CONFIG } from '@/lib/blockradar/config';
+import type { RiskScreeningProvider, RiskSignal, RiskSubject } from '../types';
+
+// AML statuses that need no review; anything else is held
+const CLEAR_AML_STATUSES = ['success'];
+
+export const blockradarAmlProvider: RiskScreeningProvider = {
+  name: 'blockradar_aml',
+
+  async screen({ walletAddress }: RiskSubject): Promise<RiskSignal[]> {
+    if (!BLOCKRADAR_CONFIG.WALLET_ID) return [];
+
+    // Only Minisend wallets live in Blockradar - external wallets have no AML record there
+    const addressId = await DatabaseService.getBlockradarAddressIdForWallet(walletAddress);
+    if (!addressId) return [];
+
+    const { data } = await blockradarClient.getAddress(BLOCKRADAR_CONFIG.WALLET_ID, addressId);
+    const aml = data.configurations?.aml;
+    if (!aml?.status || CLEAR_AML_STATUSES.includes(aml.status.toLowerCase())) return [];
+
+    return [{
+      provider: this.name,
+      subject: 'wallet',
+      reason: `Blockradar AML (${aml.provider}) status ${aml.status}${aml.message ? `: ${aml.message}` : ''}`,
+    }];
+  },
+};
@@ -0,0 +1,38 @@
+// Local deny-list: wallets and hashed recipients in risk_deny_list, plus
+// wallets from RISK_DENY_LIST_WALLETS (comma-separated) for emergencies
+import { DatabaseService } from '@/lib/supabase/config';
+import type { RiskScreeningProvider, RiskSignal, RiskSubject } from '../types';
+
+const ENV_DENIED_WALLETS = new Set(
+  (process.env.RISK_DENY_LIST_WALLETS || '')
+    .split(',')
+    .map((wallet) => wallet.trim().toLowerCase())
+    .filter(Boolean)
+);
+
+export const denyListProvider: RiskScreeningProvider = {
+  name: 'deny_list',
+
+  async screen({ walletAddress, recipientHash }: RiskSubject): Promise<RiskSignal[]> {
+    const wallet = walletAddress.toLowerCase();
+    const signals: RiskSignal[] = [];
+
+    if (ENV_DENIED_WALLETS.has(wallet)) {
+      signals.push({ provider: this.name, subject: 'wallet', reason: 'Wallet is on the configured deny-list' });
+    }
+
+    const entries = await DatabaseService.findRiskDenyListEntries(
+      recipientHash ? [wallet, recipientHash] : [wallet]
+    );
+    for (const entry of entries) {
+      if (entry.type === 'wallet' && entry.value === wallet) {
+        signals.push({ provider: this.name, subject: 'wallet', reason: `Wallet is deny-listed${entry.reason ? `: ${entry.reason}` : ''}` });
+      }
+      if (entry.type === 'recipient' && entry.value === recipientHash) {
+        signals.push({ provider: this.name, subject: 'recipient', reason: `Recipient is deny-listed${entry.reason ? `: ${entry.reason}` : ''}` });
+      }
+    }
+
+    return signals;
+  },
+};
@@ -0,0 +1,92 @@
+// Risk Screening Service
+// Screens the sending wallet and the recipient before a payout is created.
+// Providers are pluggable (local deny-list, Blockradar AML, ...); any signal
+// holds the payout for admin review rather than rejecting it outright.
+import crypto from 'crypto';
+import { createLogger } from '@/lib/logger';
+import { getRecipientKey } from '@/lib/offramp/limits';
+import { OfframpError } from '@/lib/offramp/errors';
+import type { OfframpRecipient } from '@/lib/offramp/types';
+import { denyListProvider } from './providers/deny-list';
+import { blockradarAmlProvider } from './providers/blockradar-aml';
+import type { RiskScreeningProvider, RiskScreeningResult, RiskSignal } from './types';
+
+const logger = createLogger('risk-screening');
+
+export const RISK_CONFIG = {
+  // Set to 'false' to skip screening (e.g. local development)
+  ENABLED: process.env.RISK_SCREENING_ENABLED !== 'false',
+
+  // Hold the payout when a provider cannot be reached, instead of letting it through
+  FAIL_CLOSED: process.env.RISK_SCREENING_FAIL_CLOSED === 'true',
+
+  // Dedicated server-only key for recipient hashes, required while screening is enabled
+  HASH_SECRET: process.env.RISK_HASH_SECRET,
+
+  // An approved review lets the same wallet and recipient through for this long
+  APPROVAL_TTL_MS: 24 * 60 * 60 * 1000,
+};
+
+function getHashSecret(): string {
+  if (!RISK_CONFIG.HASH_SECRET) {
+    logger.error('RISK_HASH_SECRET is not set');
+    throw new OfframpError('Risk screening is not configured', 'PROVIDER_ERROR', 500);
+  }
+  return RISK_CONFIG.HASH_SECRET;
+}
+
+/**
+ * Keyed hash of a recipient's normalized phone, till, paybill or bank account,
+ * so deny-lists and reviews never store the raw number
+ *
+ * @throws OfframpError PROVIDER_ERROR when RISK_HASH_SECRET is not set
+ */
+export function hashRecipient(recipient: Partial<OfframpRecipient>): string | undefined {
+  const key = getRecipientKey(recipient);
+  if (!key) return undefined;
+  return crypto.createHmac('sha256', getHashSecret()).update(key).digest('hex');
+}
+
+export class RiskScreeningService {
+  constructor(private providers: RiskScreeningProvider[]) {}
+
+  /**
+   * Run every provider. A payout is held for review when any of them raises a
+   * signal, or when one fails and RISK_CONFIG.FAIL_CLOSED is set
+   */
+  async screen(params: { walletAddress: string; recipient?: Partial<OfframpRecipient> }): Promise<RiskScreeningResult> {
+    if (!RISK_CONFIG.ENABLED) {
+      return { decision: 'clear', signals: [] };
+    }
+
+    const recipientHash = params.recipient ? hashRecipient(params.recipient) : undefined;
+
+    const subject = { walletAddress: params.walletAddress, recipientHash };
+    const results = await Promise.allSettled(this.providers.map((provider) => provider.screen(subject)));
+
+    const signals: RiskSignal[] = [];
+    results.forEach((result, i) => {
+      const provider = this.providers[i];
+      if (result.status === 'fulfilled') {
+        signals.push(...result.value);
+        return;
+      }
+
+      logger.error('Risk screening provider failed', { provider: provider.name, error: result.reason });
+      if (RISK_CONFIG.FAIL_CLOSED) {
+        signals.push({ provider: provider.name, subject: 'wallet', reason: 'Screening provider unavailable' });
+      }
+    });
+
+    if (signals.length > 0) {
+      logger.warn('Payout flagged by risk screening', {
+        walletAddress: params.walletAddress,
+        providers: [...new Set(signals.map((signal) => signal.provider))],
+      });
+    }
+
+    return { decision: signals.length > 0 ? 'review' : 'clear', signals, recipientHash };
+  }
+}
+
+export const riskScreeningService = new RiskScreeningService([denyListProvider, blockradarAmlProvider]);
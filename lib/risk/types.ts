@@ -0,0 +1,31 @@
+// Risk Screening Types
+
+/**
+ * What is screened before a payout: the sending wallet and the recipient,
+ * identified only by a keyed hash of their phone, till, paybill or bank account
+ */
+export interface RiskSubject {
+  walletAddress: string;
+  recipientHash?: string;
+}
+
+export interface RiskSignal {
+  provider: string; // Which provider raised it, e.g. 'deny_list', 'blockradar_aml'
+  subject: 'wallet' | 'recipient';
+  reason: string;
+}
+
+export interface RiskScreeningResult {
+  decision: 'clear' | 'review';
+  signals: RiskSignal[];
+  recipientHash?: string;
+}
+
+/**
+ * A screening source. Returns the signals it raises for the subject - none when clear.
+ * Throwing counts as unavailable; see RISK_CONFIG.FAIL_CLOSED
+ */
+export interface RiskScreeningProvider {
+  readonly name: string;
+  screen(subject: RiskSubject): Promise<RiskSignal[]>;
+}
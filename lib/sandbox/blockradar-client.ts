@@ -0,0 +1,276 @@
+// Sandbox Blockradar Client
+// In-process stand-in for BlockradarApiClient: addresses with a fixed starting USDC
+// balance, and withdrawals that record a simulated transfer and settle on a timer.
+// No funds ever move.
+import type { BlockradarClient } from '@/lib/blockradar/client';
+import type {
+  BlockradarAddressData,
+  BlockradarAddressResponse,
+  BlockradarApiError,
+  BlockradarAssetsResponse,
+  BlockradarBalancesResponse,
+  BlockradarBlockchain,
+  BlockradarTransactionResponse,
+  BlockradarWithdrawRequest,
+  BlockradarWithdrawResponse,
+} from '@/lib/blockradar/types';
+import { USDC_CONTRACTS } from '@/lib/contracts';
+import { SANDBOX_CONFIG } from './config';
+import { applyTransportScenario, takeSandboxScenario, type SandboxOperation } from './scenarios';
+import {
+  getSandboxState,
+  getSandboxStatus,
+  nextSandboxId,
+  recordSandboxTransfer,
+  sandboxHex,
+  type SandboxWithdrawal,
+} from './store';
+import { queueSandboxWebhook } from './webhooks';
+
+const SANDBOX_TIMESTAMP = '2024-01-01T00:00:00.000Z';
+const SANDBOX_USDC_ASSET_ID = 'sandbox-usdc-asset';
+
+const SANDBOX_BLOCKCHAIN: BlockradarBlockchain = {
+  createdAt: SANDBOX_TIMESTAMP,
+  derivationPath: "m/44'/60'/0'/0",
+  id: 'sandbox-base',
+  isActive: true,
+  isEvmCompatible: true,
+  logoUrl: '',
+  name: 'Base',
+  slug: 'base',
+  symbol: 'ETH',
+  tokenStandard: 'ERC20',
+  updatedAt: SANDBOX_TIMESTAMP,
+};
+
+const SANDBOX_USDC = {
+  address: USDC_CONTRACTS[8453],
+  blockchain: SANDBOX_BLOCKCHAIN,
+  createdAt: SANDBOX_TIMESTAMP,
+  decimals: 6,
+  id: 'sandbox-usdc',
+  isActive: true,
+  logoUrl: '',
+  name: 'USD Coin',
+  network: 'mainnet' as const,
+  standard: 'ERC20',
+  symbol: 'USDC',
+  updatedAt: SANDBOX_TIMESTAMP,
+};
+
+function toApiError(statusCode: number, message: string): BlockradarApiError {
+  return { statusCode, message, data: null };
+}
+
+async function begin(operation: SandboxOperation) {
+  const scenario = takeSandboxScenario('blockradar', operation);
+  await applyTransportScenario(scenario, toApiError);
+  return scenario;
+}
+
+function getAddressFor(addressId: string): string {
+  const { addresses } = getSandboxState();
+  if (!addresses.has(addressId)) {
+    addresses.set(addressId, sandboxHex(`address:${addressId}`, 20));
+  }
+  return addresses.get(addressId)!;
+}
+
+function getBalance(addressId: string): number {
+  const { balances } = getSandboxState();
+  if (!balances.has(addressId)) {
+    balances.set(addressId, SANDBOX_CONFIG.STARTING_BALANCE_USDC);
+  }
+  return balances.get(addressId)!;
+}
+
+function toAddressData(addressId: string, metadata: Record<string, unknown> | null = null, name: string | null = null): BlockradarAddressData {
+  return {
+    address: getAddressFor(addressId),
+    blockchain: SANDBOX_BLOCKCHAIN,
+    configurations: {
+      aml: { message: 'Sandbox address', provider: 'sandbox', status: 'success' },
+      disableAutoSweep: false,
+      enableGaslessWithdraw: false,
+      showPrivateKey: false,
+    },
+    createdAt: SANDBOX_TIMESTAMP,
+    derivationPath: "m/44'/60'/0'/0",
+    id: addressId,
+    isActive: true,
+    metadata,
+    name,
+    network: 'mainnet',
+    type: 'INTERNAL',
+    updatedAt: SANDBOX_TIMESTAMP,
+  };
+}
+
+function toWebhook(withdrawal: SandboxWithdrawal, status: 'SUCCESS' | 'FAILED'): Record<string, unknown> {
+  const { request } = withdrawal;
+
+  return {
+    event: status === 'SUCCESS' ? 'withdraw.success' : 'withdraw.failed',
+    data: {
+      id: withdrawal.id,
+      type: 'WITHDRAW',
+      status,
+      hash: status === 'SUCCESS' ? withdrawal.hash : null,
+      amount: request.amount,
+      senderAddress: getAddressFor(withdrawal.addressId),
+      recipientAddress: request.address,
+      reference: request.reference,
+      note: request.note,
+      metadata: request.metadata,
+      reason: status === 'FAILED' ? 'Sandbox: withdrawal rejected' : undefined,
+      asset: { symbol: 'USDC' },
+      blockchain: { name: SANDBOX_BLOCKCHAIN.name, slug: SANDBOX_BLOCKCHAIN.slug },
+    },
+  };
+}
+
+export class SandboxBlockradarClient implements BlockradarClient {
+  async getAddress(_walletId: string, addressId: string): Promise<BlockradarAddressResponse> {
+    await begin('balance');
+    return { data: toAddressData(addressId), message: 'Sandbox address', statusCode: 200 };
+  }
+
+  async getAddressBalances(addressId: string): Promise<BlockradarBalancesResponse> {
+    await begin('balance');
+
+    const balance = getBalance(addressId).toFixed(6);
+    return {
+      data: [
+        {
+          asset: {
+            asset: SANDBOX_USDC,
+            createdAt: SANDBOX_TIMESTAMP,
+            id: SANDBOX_USDC_ASSET_ID,
+            isActive: true,
+            updatedAt: SANDBOX_TIMESTAMP,
+          },
+          balance,
+          convertedBalance: balance,
+        },
+      ],
+      message: 'Sandbox balances',
+      statusCode: 200,
+    };
+  }
+
+  async createAddress(
+    _walletId: string,
+    metadata?: Record<string, unknown>,
+    name?: string
+  ): Promise<BlockradarAddressResponse> {
+    const addressId = nextSandboxId('sbx-address-');
+    getBalance(addressId);
+    return { data: toAddressData(addressId, metadata || null, name || null), message: 'Sandbox address created', statusCode: 200 };
+  }
+
+  async withdrawFromAddress(addressId: string, params: BlockradarWithdrawRequest): Promise<BlockradarWithdrawResponse> {
+    const scenario = await begin('withdraw');
+    const amount = parseFloat(params.amount);
+    const balance = getBalance(addressId);
+
+    if (params.assetId !== SANDBOX_USDC_ASSET_ID) {
+      throw toApiError(400, 'Sandbox: unknown asset');
+    }
+    if (!(amount > 0) || amount > balance) {
+      throw toApiError(400, 'Sandbox: insufficient balance');
+    }
+
+    const now = Date.now();
+    const id = nextSandboxId('sbx-withdraw-');
+    const finalStatus = scenario === 'withdraw_failed' ? 'FAILED' : 'SUCCESS';
+
+    const withdrawal: SandboxWithdrawal = {
+      id,
+      addressId,
+      request: params,
+      hash: sandboxHex(id),
+      steps: [
+        { status: 'PENDING', at: now },
+        { status: finalStatus, at: now + SANDBOX_CONFIG.STEP_DELAY_MS },
+      ],
+      createdAt: now,
+    };
+    getSandboxState().withdrawals.set(id, withdrawal);
+
+    // A failed withdrawal never leaves the address, so there is nothing to verify on "chain"
+    if (finalStatus === 'SUCCESS') {
+      getSandboxState().balances.set(addressId, balance - amount);
+      recordSandboxTransfer({ hash: withdrawal.hash, from: getAddressFor(addressId), to: params.address, amountUSDC: amount });
+    }
+
+    queueSandboxWebhook('blockradar', toWebhook(withdrawal, finalStatus), now + SANDBOX_CONFIG.STEP_DELAY_MS);
+
+    console.log('[Sandbox] Blockradar withdrawal created:', { id, addressId, amount: params.amount, outcome: finalStatus });
+
+    return {
+      data: {
+        id,
+        hash: finalStatus === 'SUCCESS' ? withdrawal.hash : '',
+        status: 'PENDING',
+        amount: params.amount,
+        recipientAddress: params.address,
+        reference: params.reference,
+        note: params.note,
+        metadata: params.metadata,
+        createdAt: new Date(now).toISOString(),
+      },
+      message: 'Sandbox withdrawal initiated',
+      statusCode: 200,
+    };
+  }
+
+  async getTransaction(transactionId: string): Promise<BlockradarTransactionResponse> {
+    await begin('status');
+
+    const withdrawal = getSandboxState().withdrawals.get(transactionId);
+    if (!withdrawal) {
+      throw toApiError(404, 'Sandbox: transaction not found');
+    }
+
+    const status = getSandboxStatus(withdrawal.steps);
+    const { request } = withdrawal;
+
+    return {
+      data: {
+        id: withdrawal.id,
+        type: 'WITHDRAW',
+        hash: status === 'FAILED' ? '' : withdrawal.hash,
+        status,
+        confirmed: status === 'SUCCESS',
+        amount: request.amount,
+        recipientAddress: request.address,
+        reference: request.reference,
+        note: request.note,
+        metadata: request.metadata,
+        createdAt: new Date(withdrawal.createdAt).toISOString(),
+      },
+      message: 'Sandbox transaction',
+      statusCode: 200,
+    };
+  }
+
+  async getAssets(): Promise<BlockradarAssetsResponse> {
+    return {
+      data: [
+        {
+          id: SANDBOX_USDC.id,
+          address: SANDBOX_USDC.address,
+          name: SANDBOX_USDC.name,
+          symbol: SANDBOX_USDC.symbol,
+          decimals: SANDBOX_USDC.decimals,
+          network: SANDBOX_USDC.network,
+          logoUrl: SANDBOX_USDC.logoUrl,
+          blockchain: SANDBOX_BLOCKCHAIN,
+        },
+      ],
+      message: 'Sandbox assets',
+      statusCode: 200,
+    };
+  }
+}
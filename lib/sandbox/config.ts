@@ -0,0 +1,37 @@
+// Sandbox Provider Configuration
+// PROVIDER_MODE=sandbox swaps the Pretium, PayCrest and Blockradar clients for
+// in-process mocks. Kept free of imports so provider configs can depend on it.
+
+export const PROVIDER_MODE = process.env.PROVIDER_MODE === 'sandbox' ? 'sandbox' : 'live';
+
+export const SANDBOX_CONFIG = {
+  // Where simulated webhooks are delivered - our own routes, never a provider
+  WEBHOOK_BASE_URL: process.env.SANDBOX_WEBHOOK_BASE_URL || 'http://localhost:3000',
+  // Used to sign simulated webhooks when no provider secret is configured
+  WEBHOOK_SECRET: process.env.SANDBOX_WEBHOOK_SECRET || 'minisend-sandbox-webhook-secret',
+  // Set SANDBOX_WEBHOOKS=false to deliver webhooks only via POST /api/sandbox { action: 'tick' }
+  AUTO_WEBHOOKS: process.env.SANDBOX_WEBHOOKS !== 'false',
+
+  // Time between simulated status changes (e.g. PENDING -> PROCESSING -> COMPLETE)
+  STEP_DELAY_MS: parseInt(process.env.SANDBOX_STEP_DELAY_MS || '3000'),
+  // How long a `timeout` scenario hangs before failing
+  TIMEOUT_MS: parseInt(process.env.SANDBOX_TIMEOUT_MS || '5000'),
+
+  // USDC -> local currency rates
+  RATES: {
+    KES: 129.5,
+    NGN: 1550,
+    GHS: 15.4,
+    UGX: 3700,
+  } as Record<string, number>,
+
+  // USDC balance every sandbox Blockradar address starts with
+  STARTING_BALANCE_USDC: parseFloat(process.env.SANDBOX_STARTING_BALANCE_USDC || '1000'),
+
+  // Default scenarios, e.g. "pretium.payout=payout_failed,paycrest.payout=order_expired"
+  DEFAULT_SCENARIOS: process.env.SANDBOX_SCENARIOS || '',
+};
+
+export function isSandboxMode(): boolean {
+  return PROVIDER_MODE === 'sandbox';
+}
@@ -0,0 +1,31 @@
+/**
+ * Sandbox Module Exports
+ * In-process Pretium, PayCrest and Blockradar mocks, enabled with PROVIDER_MODE=sandbox
+ */
+
+export { PROVIDER_MODE, SANDBOX_CONFIG, isSandboxMode } from './config';
+export {
+  SANDBOX_SCENARIOS,
+  queueSandboxScenario,
+  getQueuedSandboxScenarios,
+  clearSandboxScenarios,
+  takeSandboxScenario,
+} from './scenarios';
+export type { SandboxProvider, SandboxOperation, SandboxScenario } from './scenarios';
+export {
+  getSandboxState,
+  resetSandboxState,
+  getSandboxStatus,
+  recordSandboxTransfer,
+  getSandboxTransfer,
+  nextSandboxId,
+  sandboxHex,
+} from './store';
+export type {
+  SandboxPretiumTransaction,
+  SandboxPaycrestOrder,
+  SandboxWithdrawal,
+  SandboxTransfer,
+  SandboxWebhook,
+} from './store';
+export { queueSandboxWebhook, deliverDueSandboxWebhooks } from './webhooks';
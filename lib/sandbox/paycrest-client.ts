@@ -0,0 +1,201 @@
+// Sandbox PayCrest Client
+// In-process stand-in for the PayCrest sender API: fixed rates, account lookups, and
+// orders that move initiated -> pending -> validated -> settled (or refunded / expired).
+import type { PaycrestClient } from '@/lib/paycrest/client';
+import { PAYCREST_CONFIG } from '@/lib/paycrest/config';
+import type {
+  PaycrestApiError,
+  PaycrestCreateOrderRequest,
+  PaycrestCurrenciesResponse,
+  PaycrestInstitution,
+  PaycrestOrderData,
+  PaycrestOrderResponse,
+  PaycrestVerifyAccountResponse,
+  PaycrestWebhookEvent,
+} from '@/lib/paycrest/types';
+import { SANDBOX_CONFIG } from './config';
+import { applyTransportScenario, takeSandboxScenario, type SandboxOperation } from './scenarios';
+import { getSandboxState, getSandboxStatus, nextSandboxId, sandboxHex, type SandboxPaycrestOrder } from './store';
+import { queueSandboxWebhook } from './webhooks';
+
+const SANDBOX_INSTITUTIONS: Record<string, PaycrestInstitution[]> = {
+  KES: [{ name: 'M-Pesa', code: PAYCREST_CONFIG.MPESA_INSTITUTION, type: 'mobile_money' }],
+  NGN: [
+    { name: 'Access Bank', code: 'ABNGNGLA', type: 'bank' },
+    { name: 'Guaranty Trust Bank', code: 'GTBINGLA', type: 'bank' },
+    { name: 'United Bank for Africa', code: 'UNAFNGLA', type: 'bank' },
+    { name: 'Zenith Bank', code: 'ZEIBNGLA', type: 'bank' },
+  ],
+};
+
+function toApiError(status: number, message: string): PaycrestApiError {
+  return { status, message };
+}
+
+async function begin(operation: SandboxOperation) {
+  const scenario = takeSandboxScenario('paycrest', operation);
+  await applyTransportScenario(scenario, toApiError);
+  return scenario;
+}
+
+function toOrderData(order: SandboxPaycrestOrder, now = Date.now()): PaycrestOrderData {
+  const status = getSandboxStatus(order.steps, now);
+  const { request } = order;
+  const funded = status !== 'initiated' && status !== 'expired';
+
+  return {
+    id: order.id,
+    status,
+    amount: String(request.amount),
+    token: request.token,
+    network: request.network,
+    receiveAddress: order.receiveAddress,
+    validUntil: order.validUntil,
+    senderFee: order.senderFee,
+    transactionFee: order.transactionFee,
+    totalAmount: request.amount + order.senderFee + order.transactionFee,
+    reference: request.reference,
+    recipient: {
+      institution: request.recipient.institution,
+      accountIdentifier: request.recipient.accountIdentifier,
+      accountName: request.recipient.accountName,
+      amount: (request.amount * request.rate).toFixed(2),
+      currency: request.recipient.currency,
+      memo: request.recipient.memo,
+    },
+    rate: request.rate,
+    txHash: funded ? order.txHash : undefined,
+    amountPaid: funded ? String(request.amount) : '0',
+  };
+}
+
+function toWebhook(order: SandboxPaycrestOrder, status: SandboxPaycrestOrder['steps'][number]['status'], at: number): PaycrestWebhookEvent {
+  const data = toOrderData(order, at);
+  const { request } = order;
+
+  return {
+    event: `payment_order.${status}`,
+    data: {
+      id: order.id,
+      status,
+      amount: data.amount,
+      amountInUsd: String(request.amount),
+      amountPaid: data.amountPaid || '0',
+      rate: String(request.rate),
+      network: request.network,
+      txHash: data.txHash,
+      providerId: 'sandbox-provider',
+      reference: request.reference,
+      updatedAt: new Date(at).toISOString(),
+      createdAt: new Date(order.createdAt).toISOString(),
+      recipient: {
+        institution: request.recipient.institution,
+        accountIdentifier: request.recipient.accountIdentifier,
+        accountName: request.recipient.accountName,
+        currency: request.recipient.currency,
+      },
+    },
+  };
+}
+
+export class SandboxPaycrestClient implements PaycrestClient {
+  async getRate(_token: string, _amount: number, currency: string): Promise<number> {
+    await begin('rate');
+
+    const rate = SANDBOX_CONFIG.RATES[currency.toUpperCase()];
+    if (!rate) {
+      throw new Error(`Currency ${currency} not found in currencies endpoint`);
+    }
+    return rate;
+  }
+
+  async getCurrencies(): Promise<PaycrestCurrenciesResponse> {
+    return {
+      status: 'success',
+      message: 'Sandbox currencies',
+      data: Object.entries(SANDBOX_CONFIG.RATES).map(([code, rate]) => ({
+        code,
+        name: code,
+        marketRate: String(rate),
+        decimals: 2,
+        symbol: code,
+        shortName: code,
+      })),
+    };
+  }
+
+  async getInstitutions(currency: string): Promise<PaycrestInstitution[]> {
+    return SANDBOX_INSTITUTIONS[currency.toUpperCase()] || [];
+  }
+
+  async verifyAccount(_institution: string, accountIdentifier: string): Promise<PaycrestVerifyAccountResponse> {
+    const scenario = await begin('verify');
+
+    if (scenario === 'verification_failed') {
+      throw toApiError(400, 'Account verification failed: Sandbox account not found');
+    }
+
+    return {
+      status: 'success',
+      message: 'Sandbox account verified',
+      data: `SANDBOX USER ${accountIdentifier.replace(/\D/g, '').slice(-4) || '0000'}`,
+    };
+  }
+
+  async createOrder(orderData: PaycrestCreateOrderRequest): Promise<PaycrestOrderResponse> {
+    const scenario = await begin('payout');
+    const now = Date.now();
+    const step = SANDBOX_CONFIG.STEP_DELAY_MS;
+    const id = nextSandboxId('sbx-order-');
+
+    const steps: SandboxPaycrestOrder['steps'] = scenario === 'order_expired'
+      ? [{ status: 'initiated', at: now }, { status: 'expired', at: now + step * 2 }]
+      : scenario === 'payout_failed'
+        ? [{ status: 'initiated', at: now }, { status: 'pending', at: now + step }, { status: 'refunded', at: now + step * 2 }]
+        : [
+            { status: 'initiated', at: now },
+            { status: 'pending', at: now + step },
+            { status: 'validated', at: now + step * 2 },
+            { status: 'settled', at: now + step * 3 },
+          ];
+
+    const order: SandboxPaycrestOrder = {
+      id,
+      request: orderData,
+      // The sender's own wallet: a real transfer made against a sandbox order
+      // goes back to the user instead of to an address nobody controls
+      receiveAddress: orderData.returnAddress,
+      senderFee: 0,
+      transactionFee: 0,
+      validUntil: new Date(now + (scenario === 'order_expired' ? step * 2 : 30 * 60 * 1000)).toISOString(),
+      txHash: sandboxHex(id),
+      steps,
+      createdAt: now,
+    };
+    getSandboxState().paycrestOrders.set(id, order);
+
+    for (const { status, at } of steps.slice(1)) {
+      queueSandboxWebhook('paycrest', toWebhook(order, status, at) as unknown as Record<string, unknown>, at);
+    }
+
+    console.log('[Sandbox] PayCrest order created:', {
+      id,
+      currency: orderData.recipient.currency,
+      amount: orderData.amount,
+      outcome: steps[steps.length - 1].status,
+    });
+
+    return { status: 'success', message: 'Sandbox order initiated', data: toOrderData(order, now) };
+  }
+
+  async getOrder(orderId: string): Promise<PaycrestOrderResponse> {
+    await begin('status');
+
+    const order = getSandboxState().paycrestOrders.get(orderId);
+    if (!order) {
+      throw toApiError(404, 'Failed to get order status from PayCrest: Sandbox order not found');
+    }
+
+    return { status: 'success', message: 'Sandbox order', data: toOrderData(order) };
+  }
+}
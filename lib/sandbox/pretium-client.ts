@@ -0,0 +1,293 @@
+// Sandbox Pretium Client
+// In-process stand-in for PretiumApiClient: fixed rates, name lookups,
+// disbursements that move PENDING -> PROCESSING -> COMPLETE (or FAILED) on a timer,
+// and on-ramp collections that complete and then release the USDC.
+import type { PretiumClient } from '@/lib/pretium/client';
+import type {
+  PretiumApiError,
+  PretiumBanksResponse,
+  PretiumCountriesResponse,
+  PretiumDisburseRequest,
+  PretiumDisburseResponse,
+  PretiumExchangeRateResponse,
+  PretiumOnrampRequest,
+  PretiumOnrampResponse,
+  PretiumStatusResponse,
+  PretiumValidationRequest,
+  PretiumValidationResponse,
+  PretiumWebhookPayload,
+} from '@/lib/pretium/types';
+import { SANDBOX_CONFIG } from './config';
+import { applyTransportScenario, takeSandboxScenario, type SandboxOperation } from './scenarios';
+import { getSandboxState, getSandboxStatus, nextSandboxId, sandboxHex, type SandboxPretiumTransaction } from './store';
+import { queueSandboxWebhook } from './webhooks';
+
+type PretiumCurrency = 'KES' | 'GHS' | 'NGN' | 'UGX';
+
+const SANDBOX_BANKS = [
+  { Code: '044', Name: 'Access Bank' },
+  { Code: '058', Name: 'Guaranty Trust Bank' },
+  { Code: '033', Name: 'United Bank for Africa' },
+  { Code: '057', Name: 'Zenith Bank' },
+];
+
+function toApiError(code: number, message: string): PretiumApiError {
+  return { code, message };
+}
+
+async function begin(operation: SandboxOperation) {
+  const scenario = takeSandboxScenario('pretium', operation);
+  await applyTransportScenario(scenario, toApiError);
+  return scenario;
+}
+
+// Deterministic name for an account, so repeated lookups agree
+function sandboxAccountName(identifier: string): string {
+  return `SANDBOX USER ${identifier.replace(/\D/g, '').slice(-4) || '0000'}`;
+}
+
+function getReceiptNumber(transaction: SandboxPretiumTransaction): string {
+  return `SBX${transaction.transactionCode.replace(/\D/g, '')}`;
+}
+
+export class SandboxPretiumClient implements PretiumClient {
+  async getExchangeRate(currencyCode: string): Promise<PretiumExchangeRateResponse> {
+    await begin('rate');
+
+    const rate = SANDBOX_CONFIG.RATES[currencyCode.toUpperCase()];
+    if (!rate) {
+      throw toApiError(400, `Sandbox: no rate for ${currencyCode}`);
+    }
+
+    return {
+      code: 200,
+      message: 'Sandbox exchange rate',
+      data: {
+        buying_rate: rate,
+        selling_rate: Math.round(rate * 1.02 * 100) / 100,
+        quoted_rate: rate,
+      },
+    };
+  }
+
+  async getCountries(): Promise<PretiumCountriesResponse> {
+    return {
+      code: 200,
+      message: 'Sandbox countries',
+      data: [
+        { id: 1, name: 'Kenya', currency_code: 'KES', phone_code: '254' },
+        { id: 2, name: 'Ghana', currency_code: 'GHS', phone_code: '233' },
+        { id: 3, name: 'Nigeria', currency_code: 'NGN', phone_code: '234' },
+        { id: 4, name: 'Uganda', currency_code: 'UGX', phone_code: '256' },
+      ],
+    };
+  }
+
+  async validateAccount(currency: PretiumCurrency, request: PretiumValidationRequest): Promise<PretiumValidationResponse> {
+    const scenario = await begin('verify');
+    const identifier = request.account_number || request.shortcode || '';
+
+    if (scenario === 'verification_failed') {
+      return { code: 200, message: 'Sandbox validation failed', data: { status: 'FAILED', shortcode: identifier } };
+    }
+
+    const name = sandboxAccountName(identifier);
+    const bankName = SANDBOX_BANKS.find((bank) => bank.Code === request.bank_code)?.Name;
+
+    return {
+      code: 200,
+      message: 'Sandbox validation',
+      data: currency === 'NGN'
+        ? { status: 'COMPLETE', account_name: name, bank_name: bankName || 'Sandbox Bank' }
+        : { status: 'COMPLETE', shortcode: identifier, public_name: name },
+    };
+  }
+
+  async getBanks(): Promise<PretiumBanksResponse> {
+    return { code: 200, message: 'Sandbox banks', data: SANDBOX_BANKS };
+  }
+
+  async disburse(request: PretiumDisburseRequest, currency: PretiumCurrency): Promise<PretiumDisburseResponse> {
+    const scenario = await begin('payout');
+    const now = Date.now();
+    const step = SANDBOX_CONFIG.STEP_DELAY_MS;
+    const finalStatus = scenario === 'payout_failed' ? 'FAILED' : 'COMPLETE';
+
+    const transaction: SandboxPretiumTransaction = {
+      transactionCode: nextSandboxId('SBX-'),
+      currency,
+      category: 'DISBURSEMENT',
+      request,
+      steps: [
+        { status: 'PENDING', at: now },
+        { status: 'PROCESSING', at: now + step },
+        { status: finalStatus, at: now + step * 2 },
+      ],
+      createdAt: now,
+    };
+    getSandboxState().pretiumTransactions.set(transaction.transactionCode, transaction);
+
+    const webhook: PretiumWebhookPayload = finalStatus === 'COMPLETE'
+      ? {
+          status: 'COMPLETE',
+          transaction_code: transaction.transactionCode,
+          receipt_number: getReceiptNumber(transaction),
+          public_name: request.account_name,
+          message: 'Sandbox payout completed',
+        }
+      : {
+          status: 'FAILED',
+          transaction_code: transaction.transactionCode,
+          message: 'Sandbox: payout rejected by the mobile network',
+        };
+    queueSandboxWebhook('pretium', webhook as unknown as Record<string, unknown>, now + step * 2);
+
+    console.log('[Sandbox] Pretium disbursement created:', {
+      transaction_code: transaction.transactionCode,
+      currency,
+      amount: request.amount,
+      outcome: finalStatus,
+    });
+
+    return {
+      code: 200,
+      message: 'Sandbox disbursement initiated',
+      data: {
+        status: 'PENDING',
+        transaction_code: transaction.transactionCode,
+        message: 'Disbursement initiated',
+      },
+    };
+  }
+
+  async onramp(request: PretiumOnrampRequest, currency: 'KES' | 'GHS' | 'UGX'): Promise<PretiumOnrampResponse> {
+    const scenario = await begin('collect');
+    const now = Date.now();
+    const step = SANDBOX_CONFIG.STEP_DELAY_MS;
+    const collected = scenario !== 'collection_failed';
+
+    const transactionCode = nextSandboxId('SBX-ON-');
+    const releaseHash = collected ? sandboxHex(`onramp:${transactionCode}`) : undefined;
+    const transaction: SandboxPretiumTransaction = {
+      transactionCode,
+      currency,
+      category: 'COLLECTION',
+      request,
+      releaseHash,
+      steps: [
+        { status: 'PENDING', at: now },
+        { status: collected ? 'COMPLETE' : 'FAILED', at: now + step },
+      ],
+      createdAt: now,
+    };
+    getSandboxState().pretiumTransactions.set(transactionCode, transaction);
+
+    if (collected) {
+      queueSandboxWebhook('pretium', {
+        status: 'COMPLETE',
+        transaction_code: transactionCode,
+        receipt_number: getReceiptNumber(transaction),
+        public_name: sandboxAccountName(request.shortcode),
+        message: 'Sandbox collection completed',
+      }, now + step);
+      queueSandboxWebhook('pretium', {
+        transaction_code: transactionCode,
+        is_released: true,
+        transaction_hash: releaseHash,
+        message: 'Sandbox asset released',
+      }, now + step * 2);
+    } else {
+      queueSandboxWebhook('pretium', {
+        status: 'FAILED',
+        transaction_code: transactionCode,
+        message: 'Sandbox: the payer declined the mobile money prompt',
+      }, now + step);
+    }
+
+    console.log('[Sandbox] Pretium on-ramp created:', {
+      transaction_code: transactionCode,
+      currency,
+      amount: request.amount,
+      outcome: collected ? 'COMPLETE' : 'FAILED',
+    });
+
+    return {
+      code: 200,
+      message: 'Sandbox on-ramp initiated',
+      data: {
+        status: 'PENDING',
+        transaction_code: transactionCode,
+        message: 'Payment prompt sent',
+      },
+    };
+  }
+
+  async getTransactionStatus(transactionCode: string, currency: PretiumCurrency): Promise<PretiumStatusResponse> {
+    await begin('status');
+
+    const transaction = getSandboxState().pretiumTransactions.get(transactionCode);
+    if (!transaction) {
+      throw toApiError(404, 'Sandbox: transaction not found');
+    }
+
+    const status = getSandboxStatus(transaction.steps);
+    const rate = SANDBOX_CONFIG.RATES[currency] || 1;
+
+    if (transaction.category === 'COLLECTION') {
+      const { request } = transaction;
+      const released = status === 'COMPLETE' && Date.now() >= transaction.createdAt + SANDBOX_CONFIG.STEP_DELAY_MS * 2;
+
+      return {
+        code: 200,
+        message: 'Sandbox transaction status',
+        data: {
+          id: transaction.createdAt,
+          transaction_code: transaction.transactionCode,
+          status,
+          amount: String(request.amount),
+          amount_in_usd: ((request.amount - (request.fee || 0)) / rate).toFixed(2),
+          type: 'MOBILE',
+          shortcode: request.shortcode,
+          account_number: null,
+          public_name: status === 'COMPLETE' ? sandboxAccountName(request.shortcode) : '',
+          receipt_number: status === 'COMPLETE' ? getReceiptNumber(transaction) : '',
+          category: 'COLLECTION',
+          chain: request.chain,
+          asset: request.asset,
+          transaction_hash: released ? transaction.releaseHash || null : null,
+          message: status === 'FAILED' ? 'Sandbox: the payer declined the mobile money prompt' : 'Sandbox transaction',
+          currency_code: currency,
+          is_released: released,
+          created_at: new Date(transaction.createdAt).toISOString(),
+        },
+      };
+    }
+
+    const { request } = transaction;
+
+    return {
+      code: 200,
+      message: 'Sandbox transaction status',
+      data: {
+        id: transaction.createdAt,
+        transaction_code: transaction.transactionCode,
+        status,
+        amount: request.amount,
+        amount_in_usd: (parseFloat(request.amount) / rate).toFixed(2),
+        type: request.type,
+        shortcode: request.shortcode || '',
+        account_number: request.account_number || null,
+        public_name: status === 'COMPLETE' ? request.account_name : '',
+        receipt_number: status === 'COMPLETE' ? getReceiptNumber(transaction) : '',
+        category: 'DISBURSEMENT',
+        chain: request.chain,
+        asset: 'USDC',
+        transaction_hash: request.transaction_hash,
+        message: status === 'FAILED' ? 'Sandbox: payout rejected by the mobile network' : 'Sandbox transaction',
+        currency_code: currency,
+        is_released: status === 'COMPLETE',
+        created_at: new Date(transaction.createdAt).toISOString(),
+      },
+    };
+  }
+}
@@ -0,0 +1,117 @@
+// Sandbox Failure Scenarios
+// Scripted outcomes for the sandbox clients: queue one with queueSandboxScenario()
+// (or POST /api/sandbox) and the next matching provider call plays it out.
+import { SANDBOX_CONFIG } from './config';
+
+export type SandboxProvider = 'pretium' | 'paycrest' | 'blockradar';
+
+export type SandboxOperation = 'rate' | 'verify' | 'payout' | 'collect' | 'status' | 'withdraw' | 'balance';
+
+export type SandboxScenario =
+  | 'success'
+  | 'timeout' // The call hangs for TIMEOUT_MS, then fails like a gateway timeout
+  | 'api_error' // The provider answers with a 500
+  | 'payout_failed' // Pretium: accepted, then FAILED. PayCrest: deposit received, then refunded
+  | 'order_expired' // PayCrest: no deposit arrives and the order expires
+  | 'verification_failed' // Account lookup finds no name
+  | 'collection_failed' // Pretium on-ramp: the payer declines the mobile money prompt
+  | 'withdraw_failed'; // Blockradar: withdrawal accepted, then FAILED
+
+export const SANDBOX_SCENARIOS: SandboxScenario[] = [
+  'success',
+  'timeout',
+  'api_error',
+  'payout_failed',
+  'order_expired',
+  'verification_failed',
+  'collection_failed',
+  'withdraw_failed',
+];
+
+export interface QueuedSandboxScenario {
+  provider: SandboxProvider;
+  operation?: SandboxOperation; // Any operation when omitted
+  scenario: SandboxScenario;
+  remaining: number;
+}
+
+const globalForSandbox = globalThis as unknown as { __minisendSandboxScenarios?: QueuedSandboxScenario[] };
+
+function getQueue(): QueuedSandboxScenario[] {
+  if (!globalForSandbox.__minisendSandboxScenarios) {
+    globalForSandbox.__minisendSandboxScenarios = [];
+  }
+  return globalForSandbox.__minisendSandboxScenarios;
+}
+
+/**
+ * Play `scenario` on the next `times` calls to `provider` (optionally one operation only)
+ */
+export function queueSandboxScenario(
+  provider: SandboxProvider,
+  scenario: SandboxScenario,
+  options: { operation?: SandboxOperation; times?: number } = {}
+): QueuedSandboxScenario {
+  const entry = { provider, scenario, operation: options.operation, remaining: options.times ?? 1 };
+  getQueue().push(entry);
+  return entry;
+}
+
+export function getQueuedSandboxScenarios(): QueuedSandboxScenario[] {
+  return [...getQueue()];
+}
+
+export function clearSandboxScenarios(): void {
+  getQueue().length = 0;
+}
+
+// "pretium.payout=payout_failed,paycrest=timeout" -> provider[.operation] => scenario
+function getDefaultScenario(provider: SandboxProvider, operation: SandboxOperation): SandboxScenario | null {
+  const entries = SANDBOX_CONFIG.DEFAULT_SCENARIOS.split(',').map((entry) => entry.trim()).filter(Boolean);
+
+  for (const entry of entries) {
+    const [target, scenario] = entry.split('=').map((part) => part.trim());
+    if (target === `${provider}.${operation}` || target === provider) {
+      return SANDBOX_SCENARIOS.includes(scenario as SandboxScenario) ? (scenario as SandboxScenario) : null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The scenario for this call: the first matching queued entry, then SANDBOX_SCENARIOS, then success
+ */
+export function takeSandboxScenario(provider: SandboxProvider, operation: SandboxOperation): SandboxScenario {
+  const queue = getQueue();
+  const index = queue.findIndex(
+    (entry) => entry.provider === provider && (!entry.operation || entry.operation === operation)
+  );
+
+  if (index >= 0) {
+    const entry = queue[index];
+    entry.remaining -= 1;
+    if (entry.remaining <= 0) queue.splice(index, 1);
+    return entry.scenario;
+  }
+
+  return getDefaultScenario(provider, operation) || 'success';
+}
+
+/**
+ * Apply the scenarios every operation shares: hang-then-fail and provider errors.
+ * `toError` shapes the failure like the real client would throw it
+ */
+export async function applyTransportScenario(
+  scenario: SandboxScenario,
+  toError: (status: number, message: string) => unknown
+): Promise<void> {
+  if (scenario === 'timeout') {
+    await new Promise((resolve) => setTimeout(resolve, SANDBOX_CONFIG.TIMEOUT_MS));
+    throw toError(504, 'Sandbox: provider request timed out');
+  }
+
+  if (scenario === 'api_error') {
+    throw toError(500, 'Sandbox: provider returned an internal error');
+  }
+}
@@ -0,0 +1,147 @@
+// Sandbox State
+// In-memory records behind the sandbox clients. Held on globalThis so Next.js
+// module reloading in dev keeps one copy; lost on restart by design.
+import type { PretiumDisburseRequest, PretiumOnrampRequest } from '@/lib/pretium/types';
+import type { PaycrestCreateOrderRequest } from '@/lib/paycrest/types';
+import type { BlockradarWithdrawRequest } from '@/lib/blockradar/types';
+import type { SandboxProvider } from './scenarios';
+
+export interface SandboxStep<TStatus extends string = string> {
+  status: TStatus;
+  at: number; // ms since epoch
+}
+
+export type SandboxPretiumTransaction = {
+  transactionCode: string;
+  currency: string;
+  steps: SandboxStep<'PENDING' | 'PROCESSING' | 'COMPLETE' | 'FAILED'>[];
+  createdAt: number;
+} & (
+  | { category: 'DISBURSEMENT'; request: PretiumDisburseRequest }
+  | { category: 'COLLECTION'; request: PretiumOnrampRequest; releaseHash?: string }
+);
+
+export interface SandboxPaycrestOrder {
+  id: string;
+  request: PaycrestCreateOrderRequest;
+  receiveAddress: string;
+  senderFee: number;
+  transactionFee: number;
+  validUntil: string;
+  txHash: string;
+  steps: SandboxStep<'initiated' | 'pending' | 'validated' | 'settled' | 'refunded' | 'expired'>[];
+  createdAt: number;
+}
+
+export interface SandboxWithdrawal {
+  id: string;
+  addressId: string;
+  request: BlockradarWithdrawRequest;
+  hash: string;
+  steps: SandboxStep<'PENDING' | 'SUCCESS' | 'FAILED'>[];
+  createdAt: number;
+}
+
+// A simulated Base USDC transfer, checked by deposit verification in sandbox mode
+export interface SandboxTransfer {
+  hash: string;
+  from: string;
+  to: string;
+  amountUSDC: number;
+  blockNumber: bigint;
+}
+
+export interface SandboxWebhook {
+  id: string;
+  provider: SandboxProvider;
+  payload: Record<string, unknown>;
+  at: number;
+  delivered: boolean;
+  attempts: number;
+  lastError?: string;
+}
+
+interface SandboxState {
+  pretiumTransactions: Map<string, SandboxPretiumTransaction>;
+  paycrestOrders: Map<string, SandboxPaycrestOrder>;
+  withdrawals: Map<string, SandboxWithdrawal>;
+  transfers: Map<string, SandboxTransfer>;
+  addresses: Map<string, string>; // Blockradar address ID -> address
+  balances: Map<string, number>;
+  webhooks: SandboxWebhook[];
+  sequence: number;
+}
+
+const globalForSandbox = globalThis as unknown as { __minisendSandboxState?: SandboxState };
+
+export function getSandboxState(): SandboxState {
+  if (!globalForSandbox.__minisendSandboxState) {
+    globalForSandbox.__minisendSandboxState = {
+      pretiumTransactions: new Map(),
+      paycrestOrders: new Map(),
+      withdrawals: new Map(),
+      transfers: new Map(),
+      addresses: new Map(),
+      balances: new Map(),
+      webhooks: [],
+      sequence: 0,
+    };
+  }
+  return globalForSandbox.__minisendSandboxState;
+}
+
+export function resetSandboxState(): void {
+  globalForSandbox.__minisendSandboxState = undefined;
+}
+
+/**
+ * Monotonic ID so sandbox references are readable and deterministic within a run
+ */
+export function nextSandboxId(prefix: string): string {
+  const state = getSandboxState();
+  state.sequence += 1;
+  return `${prefix}${state.sequence.toString().padStart(6, '0')}`;
+}
+
+/**
+ * Deterministic 32-byte hex value (tx hashes) from a seed
+ */
+export function sandboxHex(seed: string, bytes = 32): `0x${string}` {
+  let hex = '';
+  let hash = 0x811c9dc5;
+  while (hex.length < bytes * 2) {
+    for (let i = 0; i < seed.length; i++) {
+      hash ^= seed.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    hex += hash.toString(16).padStart(8, '0');
+    seed = `${seed}:${hex.length}`;
+  }
+  return `0x${hex.slice(0, bytes * 2)}`;
+}
+
+/**
+ * The status a record has reached at `now`
+ */
+export function getSandboxStatus<TStatus extends string>(steps: SandboxStep<TStatus>[], now = Date.now()): TStatus {
+  let current = steps[0].status;
+  for (const step of steps) {
+    if (step.at <= now) current = step.status;
+  }
+  return current;
+}
+
+export function recordSandboxTransfer(transfer: Omit<SandboxTransfer, 'blockNumber'>): SandboxTransfer {
+  const state = getSandboxState();
+  const record = {
+    ...transfer,
+    hash: transfer.hash.toLowerCase(),
+    blockNumber: BigInt(30000000 + state.transfers.size + 1),
+  };
+  state.transfers.set(record.hash, record);
+  return record;
+}
+
+export function getSandboxTransfer(hash: string): SandboxTransfer | null {
+  return getSandboxState().transfers.get(hash.toLowerCase()) || null;
+}
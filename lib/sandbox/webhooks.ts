@@ -0,0 +1,105 @@
+// Sandbox Webhook Outbox
+// Simulated provider webhooks are queued with the time they become due and
+// POSTed, signed like the real provider would, to our own webhook routes.
+// Provider configs fall back to SANDBOX_CONFIG.WEBHOOK_SECRET in sandbox mode,
+// so a secret is always available here.
+import { PRETIUM_CONFIG } from '@/lib/pretium/config';
+import { calculatePretiumSignature, PRETIUM_SIGNATURE_HEADER, PRETIUM_TIMESTAMP_HEADER } from '@/lib/pretium/webhook-security';
+import { PAYCREST_CONFIG } from '@/lib/paycrest/config';
+import { calculatePaycrestSignature, PAYCREST_SIGNATURE_HEADER } from '@/lib/paycrest/webhook-security';
+import { BLOCKRADAR_CONFIG } from '@/lib/blockradar/config';
+import { BLOCKRADAR_SIGNATURE_HEADER, calculateBlockradarSignature } from '@/lib/blockradar/webhook-security';
+import { SANDBOX_CONFIG } from './config';
+import { getSandboxState, nextSandboxId, type SandboxWebhook } from './store';
+import type { SandboxProvider } from './scenarios';
+
+const WEBHOOK_PATHS: Record<SandboxProvider, string> = {
+  pretium: '/api/pretium/webhook',
+  paycrest: '/api/paycrest/webhook',
+  blockradar: '/api/blockradar/webhook',
+};
+
+function getSignedHeaders(provider: SandboxProvider, rawBody: string): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+  if (provider === 'pretium') {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    headers[PRETIUM_TIMESTAMP_HEADER] = timestamp;
+    headers[PRETIUM_SIGNATURE_HEADER] = calculatePretiumSignature(rawBody, PRETIUM_CONFIG.WEBHOOK_SECRET!, timestamp);
+  } else if (provider === 'paycrest') {
+    headers[PAYCREST_SIGNATURE_HEADER] = calculatePaycrestSignature(rawBody, PAYCREST_CONFIG.API_SECRET!);
+  } else {
+    headers[BLOCKRADAR_SIGNATURE_HEADER] = calculateBlockradarSignature(rawBody, BLOCKRADAR_CONFIG.WEBHOOK_SECRET!);
+  }
+
+  return headers;
+}
+
+async function deliver(webhook: SandboxWebhook): Promise<void> {
+  const rawBody = JSON.stringify(webhook.payload);
+  webhook.attempts += 1;
+
+  try {
+    const response = await fetch(`${SANDBOX_CONFIG.WEBHOOK_BASE_URL}${WEBHOOK_PATHS[webhook.provider]}`, {
+      method: 'POST',
+      headers: getSignedHeaders(webhook.provider, rawBody),
+      body: rawBody,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook route responded ${response.status}`);
+    }
+
+    webhook.delivered = true;
+    webhook.lastError = undefined;
+    console.log(`[Sandbox] Delivered ${webhook.provider} webhook ${webhook.id}`);
+  } catch (error) {
+    webhook.lastError = error instanceof Error ? error.message : 'Delivery failed';
+    console.error(`[Sandbox] Failed to deliver ${webhook.provider} webhook ${webhook.id}:`, webhook.lastError);
+  }
+}
+
+/**
+ * POST every webhook that is due and not yet delivered, oldest first
+ */
+export async function deliverDueSandboxWebhooks(now = Date.now()): Promise<SandboxWebhook[]> {
+  const due = getSandboxState().webhooks
+    .filter((webhook) => !webhook.delivered && webhook.at <= now)
+    .sort((a, b) => a.at - b.at);
+
+  for (const webhook of due) {
+    await deliver(webhook);
+  }
+
+  return due;
+}
+
+/**
+ * Queue a webhook for `at`. With AUTO_WEBHOOKS on it is delivered by a timer;
+ * otherwise it waits for deliverDueSandboxWebhooks (POST /api/sandbox { action: 'tick' })
+ */
+export function queueSandboxWebhook(
+  provider: SandboxProvider,
+  payload: Record<string, unknown>,
+  at: number
+): SandboxWebhook {
+  const webhook: SandboxWebhook = {
+    id: nextSandboxId('whk_'),
+    provider,
+    payload,
+    at,
+    delivered: false,
+    attempts: 0,
+  };
+  getSandboxState().webhooks.push(webhook);
+
+  if (SANDBOX_CONFIG.AUTO_WEBHOOKS) {
+    const timer = setTimeout(() => {
+      if (!webhook.delivered) void deliver(webhook);
+    }, Math.max(0, at - Date.now()));
+    // Never keep a script or test process alive just to deliver a webhook
+    (timer as { unref?: () => void }).unref?.();
+  }
+
+  return webhook;
+}
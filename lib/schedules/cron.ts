@@ -0,0 +1,109 @@
+// Cron Expressions
+// Five-field cron (minute hour day-of-month month day-of-week) evaluated at a fixed
+// UTC offset. Supports *, numbers, ranges (1-5), lists (1,15) and steps (*/2, 1-10/3).
+// Like standard cron, when both day fields are restricted a day matching either runs.
+import { ScheduleError } from './errors';
+
+interface CronField {
+  values: number[];
+  restricted: boolean;
+}
+
+interface ParsedCron {
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField;
+  daysOfWeek: CronField;
+}
+
+const FIELD_RANGES: { name: string; min: number; max: number }[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }, // 0 and 7 are both Sunday
+];
+
+// Furthest ahead a next run is looked for - covers Feb 29 schedules
+const MAX_LOOKAHEAD_DAYS = 366 * 4 + 1;
+
+function invalid(message: string): ScheduleError {
+  return new ScheduleError(`Invalid cron expression: ${message}`, 'INVALID_REQUEST');
+}
+
+function parseField(source: string, range: (typeof FIELD_RANGES)[number]): CronField {
+  const values = new Set<number>();
+
+  for (const part of source.split(',')) {
+    const [base, stepSource] = part.split('/');
+    const step = stepSource === undefined ? 1 : Number(stepSource);
+    if (!Number.isInteger(step) || step < 1) throw invalid(`bad step in ${range.name}`);
+
+    let start = range.min;
+    let end = range.max;
+    if (base !== '*') {
+      const [from, to] = base.split('-');
+      start = Number(from);
+      end = to === undefined ? (stepSource === undefined ? start : range.max) : Number(to);
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < range.min || end > range.max || start > end) {
+      throw invalid(`${range.name} must be between ${range.min} and ${range.max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(range.name === 'day of week' && value === 7 ? 0 : value);
+    }
+  }
+
+  return { values: Array.from(values).sort((a, b) => a - b), restricted: source !== '*' };
+}
+
+/**
+ * @throws ScheduleError INVALID_REQUEST naming the bad field
+ */
+export function parseCronExpression(expression: string): ParsedCron {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) throw invalid('expected 5 fields');
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELD_RANGES[i]));
+  return { minutes, hours, daysOfMonth, months, daysOfWeek };
+}
+
+function matchesDay(cron: ParsedCron, day: Date): boolean {
+  if (!cron.months.values.includes(day.getUTCMonth() + 1)) return false;
+
+  const domMatch = cron.daysOfMonth.values.includes(day.getUTCDate());
+  const dowMatch = cron.daysOfWeek.values.includes(day.getUTCDay());
+  if (cron.daysOfMonth.restricted && cron.daysOfWeek.restricted) return domMatch || dowMatch;
+  return domMatch && dowMatch;
+}
+
+/**
+ * The first time strictly after `after` the expression fires, where the expression's
+ * hours are local to `utcOffsetMinutes`
+ *
+ * @throws ScheduleError INVALID_REQUEST for a bad expression, or one that never fires
+ */
+export function getNextCronRun(expression: string, after: Date, utcOffsetMinutes = 0): Date {
+  const cron = parseCronExpression(expression);
+  const offsetMs = utcOffsetMinutes * 60 * 1000;
+
+  // Work in shifted time so the UTC getters read local wall-clock values
+  const start = new Date(Math.floor((after.getTime() + offsetMs) / 60000) * 60000 + 60000);
+  const day = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()));
+
+  for (let i = 0; i < MAX_LOOKAHEAD_DAYS; i++, day.setUTCDate(day.getUTCDate() + 1)) {
+    if (!matchesDay(cron, day)) continue;
+
+    for (const hour of cron.hours.values) {
+      for (const minute of cron.minutes.values) {
+        const candidate = day.getTime() + (hour * 60 + minute) * 60000;
+        if (candidate >= start.getTime()) return new Date(candidate - offsetMs);
+      }
+    }
+  }
+
+  throw invalid('it never runs');
+}
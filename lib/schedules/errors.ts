@@ -0,0 +1,27 @@
+// Scheduled Payout Errors
+
+export type ScheduleErrorCode =
+  | 'INVALID_REQUEST'
+  | 'NOT_FOUND'
+  | 'RECIPIENT_NOT_FOUND'
+  | 'REMINDERS_UNAVAILABLE'
+  | 'RUN_IN_PROGRESS'
+  | 'TOO_MANY_SCHEDULES';
+
+/**
+ * Error raised by the schedules service. Routes turn it into `{ error, code }` with `statusCode`
+ */
+export class ScheduleError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ScheduleErrorCode,
+    public readonly statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'ScheduleError';
+  }
+
+  toResponseBody(): Record<string, unknown> {
+    return { error: this.message, code: this.code };
+  }
+}
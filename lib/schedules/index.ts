@@ -0,0 +1,19 @@
+/**
+ * Scheduled Payouts Module Exports
+ * Recurring payouts to saved recipients - paid from custodial wallets, or reminded
+ */
+
+export {
+  SCHEDULE_CONFIG,
+  createSchedule,
+  listSchedules,
+  getSchedule,
+  setScheduleStatus,
+  deleteSchedule,
+  processDueSchedules,
+} from './schedule-service';
+
+export { getNextCronRun, parseCronExpression } from './cron';
+
+export { ScheduleError } from './errors';
+export type { ScheduleErrorCode } from './errors';
@@ -0,0 +1,654 @@
+// Scheduled Payout Service
+// Recurring payouts to a saved recipient - weekly, monthly or on a custom cron.
+// Users with a custodial Minisend wallet are paid out by the scheduler: each run
+// withdraws the USDC from their Blockradar address to Pretium and disburses it at
+// a fresh quote, the same path as a Minisend-wallet cashout. Users on external
+// wallets get a notification that opens the payment prefilled instead.
+//
+// Run lifecycle: pending → funding → submitting → submitted | review | failed,
+// or pending → reminded | skipped (not enough USDC in the wallet) | failed.
+import { DatabaseService, type PayoutScheduleRecord, type PayoutScheduleRunRecord } from '@/lib/supabase/config';
+import { blockradarClient } from '@/lib/blockradar/client';
+import { getUsdcAssetIdFromBalance, withdrawUSDC } from '@/lib/blockradar/withdraw';
+import { PRETIUM_CONFIG } from '@/lib/pretium/config';
+import {
+  pretiumProvider,
+  getUSDCForLocalAmount,
+  issueQuote,
+  createQuotedPayout,
+  checkTransactionLimits,
+  createLimitError,
+  OfframpError,
+} from '@/lib/offramp';
+import type { OfframpPaymentType, OfframpPayoutResult, OfframpRecipient } from '@/lib/offramp';
+import { getRecipient, listRecipients, parseRecipientOwner, RecipientError } from '@/lib/recipients';
+import { openScheduleRefund } from '@/lib/refunds/refund-service';
+import { sendNotificationToUser } from '@/lib/services/neynar-notifications';
+import { createLogger } from '@/lib/logger';
+import type { SavedRecipient } from '@/lib/types/recipients';
+import type {
+  PayoutSchedule,
+  PayoutScheduleInput,
+  PayoutScheduleRecipient,
+  PayoutScheduleRun,
+  PayoutScheduleRunStatus,
+  PayoutScheduleStatus,
+  ScheduleFrequency,
+} from '@/lib/types/schedules';
+import { getNextCronRun } from './cron';
+import { ScheduleError } from './errors';
+
+const logger = createLogger('scheduled-payouts');
+
+export const SCHEDULE_CONFIG = {
+  MAX_PER_OWNER: 10,
+  // Custom schedules may not run more often than this
+  MIN_INTERVAL_MS: 24 * 60 * 60 * 1000,
+  // Schedule times are East Africa Time, like the rest of the app
+  UTC_OFFSET_MINUTES: 180,
+  DEFAULT_HOUR: 9,
+  // How long one scheduler pass works through runs - the next pass picks up the rest
+  PROCESS_BUDGET_MS: 40 * 1000,
+  // Blockradar withdrawal reference and payout request ID prefix
+  REFERENCE_PREFIX: 'schedule_',
+  HISTORY_LIMIT: 20,
+  MAX_LABEL_LENGTH: 40,
+  APP_URL: process.env.NEXT_PUBLIC_URL || 'https://app.minisend.xyz',
+};
+
+const FREQUENCIES: ScheduleFrequency[] = ['weekly', 'monthly', 'custom'];
+
+const IN_FLIGHT_RUN_STATUSES: PayoutScheduleRunStatus[] = ['pending', 'funding', 'submitting'];
+
+/**
+ * @throws ScheduleError INVALID_REQUEST unless it is a wallet address or Privy user ID
+ */
+function parseOwner(value: unknown): string {
+  try {
+    return parseRecipientOwner(value);
+  } catch (error) {
+    if (error instanceof RecipientError) throw new ScheduleError(error.message, 'INVALID_REQUEST');
+    throw error;
+  }
+}
+
+function parseInteger(value: unknown, name: string, min: number, max: number, fallback?: number): number {
+  if ((value === undefined || value === null || value === '') && fallback !== undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new ScheduleError(`${name} must be a whole number from ${min} to ${max}`, 'INVALID_REQUEST');
+  }
+  return number;
+}
+
+/**
+ * The cron expression a schedule runs on. Custom expressions must leave at least
+ * MIN_INTERVAL_MS between runs
+ *
+ * @throws ScheduleError INVALID_REQUEST
+ */
+function buildCronExpression(input: PayoutScheduleInput): string {
+  const hour = () => parseInteger(input.hour, 'hour', 0, 23, SCHEDULE_CONFIG.DEFAULT_HOUR);
+
+  switch (input.frequency) {
+    case 'weekly':
+      return `0 ${hour()} * * ${parseInteger(input.dayOfWeek, 'dayOfWeek', 0, 6)}`;
+    case 'monthly':
+      return `0 ${hour()} ${parseInteger(input.dayOfMonth, 'dayOfMonth', 1, 28)} * *`;
+  }
+
+  const expression = typeof input.cronExpression === 'string' ? input.cronExpression.trim().replace(/\s+/g, ' ') : '';
+  if (!expression) {
+    throw new ScheduleError('cronExpression is required for a custom schedule', 'INVALID_REQUEST');
+  }
+
+  let previous = getNextCronRun(expression, new Date(), SCHEDULE_CONFIG.UTC_OFFSET_MINUTES);
+  for (let i = 0; i < 10; i++) {
+    const next = getNextCronRun(expression, previous, SCHEDULE_CONFIG.UTC_OFFSET_MINUTES);
+    if (next.getTime() - previous.getTime() < SCHEDULE_CONFIG.MIN_INTERVAL_MS) {
+      throw new ScheduleError('A custom schedule can run at most once a day', 'INVALID_REQUEST');
+    }
+    previous = next;
+  }
+  return expression;
+}
+
+function getNextRunAt(schedule: Pick<PayoutScheduleRecord, 'cron_expression'>, after = new Date()): string {
+  return getNextCronRun(schedule.cron_expression, after, SCHEDULE_CONFIG.UTC_OFFSET_MINUTES).toISOString();
+}
+
+function getPaymentType(recipient: SavedRecipient): OfframpPaymentType {
+  return recipient.type === 'NGN' ? 'BANK_TRANSFER' : 'MOBILE';
+}
+
+function toOfframpRecipient(recipient: SavedRecipient): OfframpRecipient {
+  return {
+    accountName: recipient.verifiedName || recipient.accountName,
+    phoneNumber: recipient.phoneNumber,
+    accountNumber: recipient.accountNumber,
+    bankCode: recipient.bankCode,
+    bankName: recipient.bankName,
+  };
+}
+
+function toScheduleRecipient(recipient: SavedRecipient): PayoutScheduleRecipient {
+  return {
+    id: recipient.id,
+    type: recipient.type,
+    accountName: recipient.accountName,
+    nickname: recipient.nickname,
+    phoneNumber: recipient.phoneNumber,
+    accountNumber: recipient.accountNumber,
+    bankCode: recipient.bankCode,
+    bankName: recipient.bankName,
+  };
+}
+
+function toScheduleRun(run: PayoutScheduleRunRecord): PayoutScheduleRun {
+  return {
+    id: run.id,
+    scheduledFor: run.scheduled_for,
+    status: run.status,
+    amountLocal: Number(run.amount_local),
+    amountUSDC: run.amount_usdc ? Number(run.amount_usdc) : undefined,
+    transactionCode: run.transaction_code || undefined,
+    error: run.error_message || undefined,
+    createdAt: run.created_at,
+  };
+}
+
+function toPayoutSchedule(
+  schedule: PayoutScheduleRecord,
+  recipient?: SavedRecipient,
+  runs?: PayoutScheduleRunRecord[]
+): PayoutSchedule {
+  return {
+    id: schedule.id,
+    label: schedule.label || undefined,
+    currency: schedule.currency,
+    amountLocal: Number(schedule.amount_local),
+    frequency: schedule.frequency,
+    cronExpression: schedule.cron_expression,
+    mode: schedule.mode,
+    status: schedule.status,
+    nextRunAt: schedule.next_run_at,
+    lastRunAt: schedule.last_run_at || undefined,
+    createdAt: schedule.created_at,
+    recipient: recipient && toScheduleRecipient(recipient),
+    runs: runs?.map(toScheduleRun),
+  };
+}
+
+/**
+ * The schedule's saved recipient, or null once it has been deleted
+ */
+async function findRecipient(schedule: PayoutScheduleRecord): Promise<SavedRecipient | null> {
+  if (!schedule.recipient_id) return null;
+  try {
+    return await getRecipient(schedule.owner_id, schedule.recipient_id);
+  } catch (error) {
+    if (error instanceof RecipientError && error.code === 'NOT_FOUND') return null;
+    throw error;
+  }
+}
+
+async function requireSchedule(ownerId: string, scheduleId: string): Promise<PayoutScheduleRecord> {
+  const schedule = await DatabaseService.getPayoutSchedule(scheduleId).catch(() => null);
+  if (!schedule || schedule.owner_id !== ownerId) {
+    throw new ScheduleError('Schedule not found', 'NOT_FOUND', 404);
+  }
+  return schedule;
+}
+
+/**
+ * Create a schedule for one of the owner's saved recipients. Owners with a Minisend
+ * wallet are paid out automatically; others need a Farcaster ID for reminders
+ *
+ * @throws ScheduleError describing what is wrong with the request
+ */
+export async function createSchedule(owner: unknown, input: unknown): Promise<PayoutSchedule> {
+  const ownerId = parseOwner(owner);
+  const body = (input || {}) as PayoutScheduleInput;
+
+  if (!FREQUENCIES.includes(body.frequency)) {
+    throw new ScheduleError('frequency must be weekly, monthly or custom', 'INVALID_REQUEST');
+  }
+
+  const amountLocal = Math.round(Number(body.amount));
+  if (!Number.isFinite(amountLocal) || amountLocal <= 0) {
+    throw new ScheduleError('amount must be a positive number', 'INVALID_REQUEST');
+  }
+
+  if (typeof body.recipientId !== 'string' || !body.recipientId) {
+    throw new ScheduleError('recipientId is required', 'INVALID_REQUEST');
+  }
+  let recipient: SavedRecipient;
+  try {
+    recipient = await getRecipient(ownerId, body.recipientId);
+  } catch (error) {
+    if (error instanceof RecipientError && error.code === 'NOT_FOUND') {
+      throw new ScheduleError('Saved recipient not found', 'RECIPIENT_NOT_FOUND', 404);
+    }
+    throw error;
+  }
+
+  const existing = await DatabaseService.getPayoutSchedulesByOwner(ownerId);
+  if (existing.length >= SCHEDULE_CONFIG.MAX_PER_OWNER) {
+    throw new ScheduleError(`You can have up to ${SCHEDULE_CONFIG.MAX_PER_OWNER} schedules`, 'TOO_MANY_SCHEDULES', 409);
+  }
+
+  const fid = body.fid !== undefined && body.fid !== null ? parseInteger(body.fid, 'fid', 1, Number.MAX_SAFE_INTEGER) : undefined;
+  const custodial = await DatabaseService.getCustodialWalletForOwner(ownerId);
+  if (!custodial && !fid) {
+    throw new ScheduleError(
+      'Reminders are sent as Farcaster notifications - open Minisend in Farcaster or the Base app to schedule this payout',
+      'REMINDERS_UNAVAILABLE'
+    );
+  }
+
+  const cronExpression = buildCronExpression(body);
+  const label = typeof body.label === 'string'
+    ? body.label.replace(/[<>"']/g, '').trim().substring(0, SCHEDULE_CONFIG.MAX_LABEL_LENGTH) || undefined
+    : undefined;
+
+  const schedule = await DatabaseService.createPayoutSchedule({
+    owner_id: ownerId,
+    recipient_id: recipient.id,
+    label,
+    currency: recipient.type,
+    amount_local: amountLocal,
+    frequency: body.frequency,
+    cron_expression: cronExpression,
+    mode: custodial ? 'custodial' : 'reminder',
+    funding_wallet: custodial?.minisend_wallet.toLowerCase(),
+    funding_address_id: custodial?.blockradar_address_id,
+    fid,
+    next_run_at: getNextRunAt({ cron_expression: cronExpression }),
+  });
+
+  logger.info('Payout schedule created', { scheduleId: schedule.id, mode: schedule.mode, frequency: schedule.frequency });
+  await DatabaseService.logAnalyticsEvent('payout_schedule_created', schedule.funding_wallet || ownerId, {
+    schedule_id: schedule.id,
+    mode: schedule.mode,
+    frequency: schedule.frequency,
+    currency: schedule.currency,
+  }).catch(() => undefined);
+
+  return toPayoutSchedule(schedule, recipient);
+}
+
+/**
+ * The owner's schedules, newest first
+ */
+export async function listSchedules(owner: unknown): Promise<PayoutSchedule[]> {
+  const ownerId = parseOwner(owner);
+  const [schedules, recipients] = await Promise.all([
+    DatabaseService.getPayoutSchedulesByOwner(ownerId),
+    listRecipients(ownerId),
+  ]);
+
+  const recipientsById = new Map(recipients.map((recipient) => [recipient.id, recipient]));
+  return schedules.map((schedule) =>
+    toPayoutSchedule(schedule, schedule.recipient_id ? recipientsById.get(schedule.recipient_id) : undefined)
+  );
+}
+
+/**
+ * One schedule with its recent runs
+ */
+export async function getSchedule(owner: unknown, scheduleId: string): Promise<PayoutSchedule> {
+  const schedule = await requireSchedule(parseOwner(owner), scheduleId);
+  const [recipient, runs] = await Promise.all([
+    findRecipient(schedule),
+    DatabaseService.getPayoutScheduleRuns(schedule.id, SCHEDULE_CONFIG.HISTORY_LIMIT),
+  ]);
+  return toPayoutSchedule(schedule, recipient || undefined, runs);
+}
+
+/**
+ * Pause or resume a schedule. Resuming picks up from the next run after now - runs
+ * missed while paused are not made up
+ */
+export async function setScheduleStatus(owner: unknown, scheduleId: string, status: PayoutScheduleStatus): Promise<PayoutSchedule> {
+  const ownerId = parseOwner(owner);
+  const schedule = await requireSchedule(ownerId, scheduleId);
+
+  const recipient = await findRecipient(schedule);
+  if (status === 'active' && !recipient) {
+    throw new ScheduleError('The saved recipient was deleted - create a new schedule', 'RECIPIENT_NOT_FOUND', 404);
+  }
+
+  const updated = await DatabaseService.updatePayoutSchedule(ownerId, schedule.id, {
+    status,
+    ...(status === 'active' && schedule.status !== 'active' && { next_run_at: getNextRunAt(schedule) }),
+  });
+  if (!updated) throw new ScheduleError('Schedule not found', 'NOT_FOUND', 404);
+
+  return toPayoutSchedule(updated, recipient || undefined);
+}
+
+/**
+ * Delete a schedule and its history. Refused while a run is moving funds - its
+ * record is what lets the scheduler finish it
+ */
+export async function deleteSchedule(owner: unknown, scheduleId: string): Promise<void> {
+  const ownerId = parseOwner(owner);
+  const schedule = await requireSchedule(ownerId, scheduleId);
+
+  const [latestRun] = await DatabaseService.getPayoutScheduleRuns(schedule.id, 1);
+  if (latestRun && IN_FLIGHT_RUN_STATUSES.includes(latestRun.status)) {
+    throw new ScheduleError('A payment from this schedule is in progress - pause it and try again shortly', 'RUN_IN_PROGRESS', 409);
+  }
+
+  if (!(await DatabaseService.deletePayoutSchedule(ownerId, schedule.id))) {
+    throw new ScheduleError('Schedule not found', 'NOT_FOUND', 404);
+  }
+}
+
+/**
+ * Tell the owner about a run. Never throws - the run's status is the record
+ */
+async function notifyOwner(schedule: PayoutScheduleRecord, title: string, body: string): Promise<boolean> {
+  if (!schedule.fid) return false;
+
+  const { success, error } = await sendNotificationToUser(schedule.fid, {
+    title,
+    body,
+    targetUrl: `${SCHEDULE_CONFIG.APP_URL}/?schedule=${schedule.id}`,
+  });
+  if (!success) logger.warn('Schedule notification not sent', { scheduleId: schedule.id, error });
+  return success;
+}
+
+/**
+ * Mark a run failed. When its USDC already left the wallet, open a refund case for it
+ */
+async function failRun(
+  schedule: PayoutScheduleRecord,
+  run: PayoutScheduleRunRecord,
+  reason: string,
+  fromStatuses: PayoutScheduleRunRecord['status'][]
+) {
+  const failed = await DatabaseService.transitionPayoutScheduleRun(run.id, fromStatuses, {
+    status: 'failed',
+    error_message: reason,
+  });
+  if (!failed) return;
+
+  logger.warn('Scheduled payout failed', { scheduleId: schedule.id, runId: run.id, reason });
+  if (!failed.funding_withdrawal_id || !schedule.funding_wallet) return;
+
+  try {
+    const refund = await openScheduleRefund(failed, schedule.funding_wallet, schedule.currency, reason);
+    await DatabaseService.transitionPayoutScheduleRun(run.id, ['failed'], { refund_id: refund.id });
+  } catch (error) {
+    logger.error('Failed to open refund for scheduled payout', { scheduleId: schedule.id, runId: run.id, error });
+  }
+}
+
+/**
+ * Reminder run: notify the owner with a link that opens the payment prefilled
+ */
+async function remindRun(schedule: PayoutScheduleRecord, run: PayoutScheduleRunRecord, recipient: SavedRecipient) {
+  const name = recipient.nickname || recipient.accountName;
+  const sent = await notifyOwner(
+    schedule,
+    `Time to pay ${name}`,
+    `Your scheduled ${schedule.amount_local} ${schedule.currency} payment to ${name} is due. Tap to review and send.`
+  );
+
+  await DatabaseService.transitionPayoutScheduleRun(run.id, ['pending'], sent
+    ? { status: 'reminded' }
+    : { status: 'failed', error_message: 'Reminder could not be sent' });
+}
+
+/**
+ * Custodial run: quote, check the wallet's balance and limits, then withdraw the
+ * USDC to Pretium. Runs the wallet cannot cover are skipped, not retried
+ */
+async function fundRun(schedule: PayoutScheduleRecord, run: PayoutScheduleRunRecord, recipient: SavedRecipient) {
+  const reference = `${SCHEDULE_CONFIG.REFERENCE_PREFIX}${run.id}`;
+  const paymentType = getPaymentType(recipient);
+  const amountLocal = Number(schedule.amount_local);
+
+  const probe = await pretiumProvider.quote({ currency: schedule.currency, amountUSDC: 1, paymentType });
+  const quote = await issueQuote(
+    pretiumProvider,
+    {
+      currency: schedule.currency,
+      amountUSDC: getUSDCForLocalAmount(amountLocal, probe.rate),
+      localAmount: amountLocal,
+      paymentType,
+    },
+    schedule.funding_wallet,
+    reference
+  );
+
+  const balance = await getUsdcAssetIdFromBalance(schedule.funding_address_id!);
+  const available = parseFloat(balance?.balance || '0');
+  if (available < quote.amountUSDC) {
+    await DatabaseService.transitionPayoutScheduleRun(run.id, ['pending'], {
+      status: 'skipped',
+      amount_usdc: quote.amountUSDC,
+      error_message: `Not enough USDC: needs ${quote.amountUSDC}, wallet has ${available}`,
+    });
+    await notifyOwner(
+      schedule,
+      'Scheduled payment skipped',
+      `Your ${amountLocal} ${schedule.currency} payment to ${recipient.nickname || recipient.accountName} needs ${quote.amountUSDC} USDC. Top up to keep it running.`
+    );
+    return;
+  }
+
+  // Refused here, before any USDC moves, rather than after the withdrawal
+  const violation = await checkTransactionLimits({
+    walletAddress: schedule.funding_wallet,
+    currency: schedule.currency,
+    amountUSDC: quote.amountUSDC,
+    recipient: toOfframpRecipient(recipient),
+  });
+  if (violation) {
+    await failRun(schedule, run, createLimitError(violation).message, ['pending']);
+    return;
+  }
+
+  const claimed = await DatabaseService.transitionPayoutScheduleRun(run.id, ['pending'], {
+    status: 'funding',
+    amount_usdc: quote.amountUSDC,
+    quote_id: quote.id,
+  });
+  if (!claimed) return;
+
+  let withdrawal;
+  try {
+    withdrawal = await withdrawUSDC({
+      addressId: schedule.funding_address_id!,
+      recipientAddress: PRETIUM_CONFIG.SETTLEMENT_ADDRESS,
+      amount: quote.amountUSDC,
+      reference,
+      note: `Scheduled payout to ${schedule.currency} - ${recipient.accountName}`,
+      metadata: { schedule_id: schedule.id, schedule_run_id: run.id, provider: 'pretium' },
+    });
+  } catch (error) {
+    await failRun(schedule, claimed, `Withdrawal failed: ${error instanceof Error ? error.message : 'unknown error'}`, ['funding']);
+    return;
+  }
+
+  const funded = await DatabaseService.transitionPayoutScheduleRun(run.id, ['funding'], {
+    funding_withdrawal_id: withdrawal.id,
+    funding_tx_hash: withdrawal.hash || null,
+  });
+  if (funded?.funding_tx_hash) await submitRun(schedule, funded);
+}
+
+/**
+ * Create the run's Pretium payout at its quote, re-quoting the same local amount
+ * if the quote expired while the withdrawal confirmed
+ */
+async function payRun(
+  schedule: PayoutScheduleRecord,
+  run: PayoutScheduleRunRecord,
+  recipient: SavedRecipient,
+  fundingTxHash: string
+): Promise<{ result: OfframpPayoutResult; quoteId: string }> {
+  const reference = `${SCHEDULE_CONFIG.REFERENCE_PREFIX}${run.id}`;
+  const request = {
+    requestId: reference,
+    correlationId: reference,
+    currency: schedule.currency,
+    amountUSDC: Number(run.amount_usdc),
+    recipient: toOfframpRecipient(recipient),
+    returnAddress: schedule.funding_wallet!,
+    transactionHash: fundingTxHash,
+    fid: schedule.fid,
+  };
+
+  try {
+    return { result: await createQuotedPayout(pretiumProvider, run.quote_id, request), quoteId: run.quote_id! };
+  } catch (error) {
+    if (!(error instanceof OfframpError && error.code === 'QUOTE_EXPIRED')) throw error;
+  }
+
+  // Throws INVALID_REQUEST when the withdrawn USDC no longer covers the amount
+  const quote = await issueQuote(
+    pretiumProvider,
+    {
+      currency: schedule.currency,
+      amountUSDC: Number(run.amount_usdc),
+      localAmount: Number(run.amount_local),
+      paymentType: getPaymentType(recipient),
+    },
+    schedule.funding_wallet,
+    reference
+  );
+  return { result: await createQuotedPayout(pretiumProvider, quote.id, request), quoteId: quote.id };
+}
+
+/**
+ * Disburse a funded run once its withdrawal has a hash
+ */
+async function submitRun(schedule: PayoutScheduleRecord, run: PayoutScheduleRunRecord) {
+  let fundingTxHash = run.funding_tx_hash;
+
+  if (!fundingTxHash && run.funding_withdrawal_id) {
+    const { data: withdrawal } = await blockradarClient.getTransaction(run.funding_withdrawal_id);
+    if (withdrawal.status === 'FAILED') {
+      await DatabaseService.transitionPayoutScheduleRun(run.id, ['funding'], {
+        status: 'failed',
+        error_message: 'Withdrawal failed',
+      });
+      return;
+    }
+    fundingTxHash = withdrawal.hash;
+  }
+  if (!fundingTxHash) return; // Not broadcast yet - picked up on the next pass
+
+  const claimed = await DatabaseService.transitionPayoutScheduleRun(run.id, ['funding'], {
+    status: 'submitting',
+    funding_tx_hash: fundingTxHash,
+  });
+  if (!claimed) return;
+
+  const recipient = await findRecipient(schedule);
+  if (!recipient) {
+    await failRun(schedule, claimed, 'Saved recipient was deleted', ['submitting']);
+    return;
+  }
+
+  try {
+    const { result, quoteId } = await payRun(schedule, claimed, recipient, fundingTxHash);
+    await DatabaseService.transitionPayoutScheduleRun(run.id, ['submitting'], {
+      status: 'submitted',
+      transaction_code: result.orderId,
+      quote_id: quoteId,
+      error_message: result.warning || null,
+    });
+  } catch (error) {
+    if (error instanceof OfframpError && error.code === 'UNDER_REVIEW') {
+      await DatabaseService.transitionPayoutScheduleRun(run.id, ['submitting'], {
+        status: 'review',
+        review_id: error.extra?.reviewId as string,
+        error_message: error.message,
+      });
+      return;
+    }
+
+    // The withdrawal is not mined yet
+    if (error instanceof OfframpError && error.code === 'DEPOSIT_NOT_VERIFIED' && error.extra?.reason === 'TX_NOT_FOUND') {
+      await DatabaseService.transitionPayoutScheduleRun(run.id, ['submitting'], { status: 'funding' });
+      return;
+    }
+
+    await failRun(schedule, claimed, error instanceof Error ? error.message : 'Payout failed', ['submitting']);
+  }
+}
+
+/**
+ * Claim a due schedule's run and carry it out. The schedule moves on to its next
+ * run first, so a run is only ever started once; runs missed while the scheduler
+ * was down collapse into this one
+ */
+async function startRun(schedule: PayoutScheduleRecord) {
+  const claimed = await DatabaseService.advancePayoutSchedule(schedule.id, schedule.next_run_at, getNextRunAt(schedule));
+  if (!claimed) return;
+
+  const run = await DatabaseService.createPayoutScheduleRun({
+    schedule_id: schedule.id,
+    scheduled_for: schedule.next_run_at,
+    status: 'pending',
+    amount_local: schedule.amount_local,
+  });
+
+  const recipient = await findRecipient(schedule);
+  if (!recipient) {
+    await failRun(schedule, run, 'Saved recipient was deleted', ['pending']);
+    await DatabaseService.updatePayoutSchedule(schedule.owner_id, schedule.id, { status: 'paused' });
+    return;
+  }
+
+  try {
+    if (schedule.mode === 'custodial') {
+      await fundRun(schedule, run, recipient);
+    } else {
+      await remindRun(schedule, run, recipient);
+    }
+  } catch (error) {
+    // Only reached before any USDC moved - a failed quote or balance lookup
+    await failRun(schedule, run, error instanceof Error ? error.message : 'Run failed', ['pending']);
+  }
+}
+
+/**
+ * Cron entry point: disburse runs whose withdrawal has since confirmed, then start
+ * every schedule that is due
+ */
+export async function processDueSchedules(deadline = Date.now() + SCHEDULE_CONFIG.PROCESS_BUDGET_MS) {
+  const summary = { continued: 0, started: 0 };
+
+  for (const run of await DatabaseService.getFundingPayoutScheduleRuns()) {
+    if (Date.now() > deadline) return summary;
+
+    try {
+      const schedule = await DatabaseService.getPayoutSchedule(run.schedule_id);
+      if (!schedule) continue;
+      await submitRun(schedule, run);
+      summary.continued++;
+    } catch (error) {
+      // Leave the run for the next pass
+      logger.error('Failed to submit scheduled payout', { runId: run.id, error });
+    }
+  }
+
+  for (const schedule of await DatabaseService.getDuePayoutSchedules(new Date().toISOString())) {
+    if (Date.now() > deadline) break;
+
+    try {
+      await startRun(schedule);
+      summary.started++;
+    } catch (error) {
+      logger.error('Failed to start scheduled payout', { scheduleId: schedule.id, error });
+    }
+  }
+
+  return summary;
+}
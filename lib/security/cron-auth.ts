@@ -0,0 +1,26 @@
+// Cron route authorization
+// The scheduler calls cron routes with `Authorization: Bearer <CRON_SECRET>`.
+// Both sides are hashed before comparing, so the check takes the same time
+// whatever the length or content of the token sent.
+import crypto from 'crypto';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('cron-auth');
+
+function digest(value: string): Buffer {
+  return crypto.createHash('sha256').update(value).digest();
+}
+
+/**
+ * Whether the request carries the cron secret. Always false when CRON_SECRET is unset
+ */
+export function isCronAuthorized(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    logger.error('CRON_SECRET not configured');
+    return false;
+  }
+
+  const provided = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') || '';
+  return crypto.timingSafeEqual(digest(provided), digest(secret));
+}
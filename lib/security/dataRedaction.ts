@@ -70,6 +70,95 @@ export function redactMemo(memo: string): string {
   return redacted
 }
 
+// Redact bank/mobile account numbers - show last 4 digits only
+export function redactAccountNumber(accountNumber: string): string {
+  if (!accountNumber || typeof accountNumber !== 'string') return '***'
+
+  if (accountNumber.length <= 4) return '***'
+
+  // 0123456789 -> ******6789
+  return `${'*'.repeat(accountNumber.length - 4)}${accountNumber.slice(-4)}`
+}
+
+// Redact credentials carried in query strings, e.g. tokenized webhook callback URLs
+export function redactUrl(url: string): string {
+  if (!url || typeof url !== 'string') return url
+
+  // https://minisend.xyz/api/pretium/webhook?token=abc -> ...?token=[REDACTED]
+  return url.replace(/([?&](?:token|secret|key|api_key|signature|sig)=)[^&\s"']+/gi, '$1[REDACTED]')
+}
+
+// Patterns for PII embedded in free text. Hashes are matched before addresses,
+// otherwise the first 40 hex chars of a hash would be taken for an address
+const TX_HASH_PATTERN = /\b0x[a-fA-F0-9]{64}\b/g
+const WALLET_ADDRESS_PATTERN = /\b0x[a-fA-F0-9]{40}\b/g
+const PHONE_PATTERN = /\+?\b(?:254|256|233|234)\d{9}\b|\b0[1-9]\d{8}\b/g
+const URL_CREDENTIAL_PATTERN = /[?&](?:token|secret|key|api_key|signature|sig)=/i
+
+// Redact PII from free text
+export function redactText(text: string): string {
+  if (!text || typeof text !== 'string') return text
+
+  let redacted = text
+    .replace(TX_HASH_PATTERN, (match) => redactTxHash(match))
+    .replace(WALLET_ADDRESS_PATTERN, (match) => redactWalletAddress(match))
+    .replace(PHONE_PATTERN, (match) => redactPhoneNumber(match))
+
+  if (URL_CREDENTIAL_PATTERN.test(redacted)) {
+    redacted = redactUrl(redacted)
+  }
+
+  return redacted
+}
+
+// Bare token and key, any *token (sessionToken, idToken, access_token) and *token_* variants
+const SECRET_KEY_PATTERN = /secret|password|token$|token_|jwt|^key$|api_?key|private_?key|signature|authorization|cookie/
+const ACCOUNT_NAME_KEY_PATTERN = /account_?name|recipient_?name|public_?name|full_?name|sender_?name/
+const ACCOUNT_NUMBER_KEY_PATTERN = /account_?number|account_?identifier|paybill_?account|identifier$/
+const PHONE_KEY_PATTERN = /phone|msisdn|shortcode|^mobile$|mobile_?number/
+const MAX_REDACTION_DEPTH = 8
+
+/**
+ * Deep-redact a log or telemetry payload. Values are redacted by field name
+ * (phone numbers, account names and numbers, secrets, URLs) and free text is
+ * scanned for phone numbers, wallet addresses, tx hashes and URL tokens
+ */
+export function redactSensitiveData(data: unknown, depth = 0): unknown {
+  if (typeof data === 'string') return redactText(data)
+
+  if (typeof data !== 'object' || data === null) return data
+
+  if (depth >= MAX_REDACTION_DEPTH) return '[TRUNCATED]'
+
+  if (Array.isArray(data)) {
+    return data.map(item => redactSensitiveData(item, depth + 1))
+  }
+
+  if (data instanceof Date) return data
+
+  const redacted: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(data)) {
+    const lowerKey = key.toLowerCase()
+
+    if (SECRET_KEY_PATTERN.test(lowerKey)) {
+      redacted[key] = value ? '[REDACTED]' : value
+    } else if (typeof value !== 'string') {
+      redacted[key] = redactSensitiveData(value, depth + 1)
+    } else if (PHONE_KEY_PATTERN.test(lowerKey)) {
+      redacted[key] = redactPhoneNumber(value)
+    } else if (ACCOUNT_NAME_KEY_PATTERN.test(lowerKey)) {
+      redacted[key] = redactAccountName(value)
+    } else if (ACCOUNT_NUMBER_KEY_PATTERN.test(lowerKey)) {
+      redacted[key] = redactAccountNumber(value)
+    } else if (lowerKey.includes('url')) {
+      redacted[key] = redactUrl(value)
+    } else {
+      redacted[key] = redactText(value)
+    }
+  }
+  return redacted
+}
+
 // Main redaction function for order objects
 export interface RedactionOptions {
   includeWalletAddress?: boolean
@@ -0,0 +1,139 @@
+// Idempotency-Key handling for order-creation endpoints
+// A double-tapped swipe or a fetchWithRetry retry carries the same key, so the
+// replay gets the original response instead of creating a second payout.
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { DatabaseService } from '@/lib/supabase/config';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('idempotency');
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed';
+
+export const IDEMPOTENCY_CONFIG = {
+  // How long a completed response is replayed for
+  TTL_HOURS: 24,
+  MAX_KEY_LENGTH: 255,
+  // How long a client should wait before retrying a request that is still in flight
+  RETRY_AFTER_SECONDS: 2,
+};
+
+const KEY_PATTERN = /^[A-Za-z0-9_\-:.]+$/;
+
+// JSON with object keys sorted, so the hash doesn't depend on property order
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * SHA-256 of the parsed request body, hex encoded
+ */
+export function hashRequestBody(body: unknown): string {
+  return crypto.createHash('sha256').update(stableStringify(body)).digest('hex');
+}
+
+/**
+ * Run `handler` at most once per Idempotency-Key within `scope`.
+ *
+ * - No header: the handler runs as before.
+ * - First request: the key is claimed with the body hash; a successful response is
+ *   cached, a failed one releases the key so the client can retry.
+ * - Replay with the same body: the cached response, with `Idempotent-Replayed: true`.
+ * - Replay while the first request is still running: 409.
+ * - Same key with a different body: 422.
+ */
+export async function withIdempotency(
+  request: NextRequest,
+  scope: string,
+  body: unknown,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_KEY_HEADER)?.trim();
+  if (!key) return handler();
+
+  if (key.length > IDEMPOTENCY_CONFIG.MAX_KEY_LENGTH || !KEY_PATTERN.test(key)) {
+    return NextResponse.json(
+      {
+        error: `Invalid ${IDEMPOTENCY_KEY_HEADER} header`,
+        code: 'INVALID_IDEMPOTENCY_KEY',
+      },
+      { status: 400 }
+    );
+  }
+
+  const requestHash = hashRequestBody(body);
+  const expiresAt = new Date(Date.now() + IDEMPOTENCY_CONFIG.TTL_HOURS * 60 * 60 * 1000).toISOString();
+
+  let claim: Awaited<ReturnType<typeof DatabaseService.claimIdempotencyKey>>;
+  try {
+    claim = await DatabaseService.claimIdempotencyKey({ scope, key, requestHash, expiresAt });
+  } catch (error) {
+    // The key store being down must not block payouts
+    logger.error('Failed to claim idempotency key, continuing without it', { scope, error });
+    return handler();
+  }
+
+  const { record, claimed } = claim;
+
+  if (!claimed) {
+    if (record.request_hash !== requestHash) {
+      return NextResponse.json(
+        {
+          error: `${IDEMPOTENCY_KEY_HEADER} was already used with a different request`,
+          code: 'IDEMPOTENCY_KEY_REUSED',
+        },
+        { status: 422 }
+      );
+    }
+
+    if (record.status !== 'completed' || !record.response_status) {
+      return NextResponse.json(
+        {
+          error: 'A request with this Idempotency-Key is still being processed',
+          code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+        },
+        { status: 409, headers: { 'Retry-After': String(IDEMPOTENCY_CONFIG.RETRY_AFTER_SECONDS) } }
+      );
+    }
+
+    logger.info('Replaying idempotent response', { scope, idempotencyKey: key });
+    return NextResponse.json(record.response_body ?? {}, {
+      status: record.response_status,
+      headers: { [IDEMPOTENT_REPLAY_HEADER]: 'true' },
+    });
+  }
+
+  let response: NextResponse;
+  try {
+    response = await handler();
+  } catch (error) {
+    await DatabaseService.releaseIdempotencyKey(record.id)
+      .catch((releaseError) => logger.error('Failed to release idempotency key', { scope, error: releaseError }));
+    throw error;
+  }
+
+  try {
+    if (response.ok) {
+      const responseBody = await response.clone().json();
+      await DatabaseService.completeIdempotencyKey(record.id, response.status, responseBody);
+    } else {
+      // Nothing was created, so a retry with the same key should run again
+      await DatabaseService.releaseIdempotencyKey(record.id);
+    }
+  } catch (error) {
+    logger.error('Failed to store idempotent response', { scope, idempotencyKey: key, error });
+  }
+
+  return response;
+}
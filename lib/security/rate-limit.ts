@@ -0,0 +1,261 @@
+// Distributed rate limiting with declarative per-route policies
+// Counters live in a shared store (Upstash Redis or a Supabase table) so limits hold
+// across serverless instances; the in-memory store is for local development.
+// Throttled requests get 429 with the IETF RateLimit-* headers and Retry-After.
+import { NextRequest, NextResponse } from 'next/server';
+import { Redis } from '@upstash/redis';
+import { DatabaseService } from '@/lib/supabase/config';
+import { getClientIdentifier, logSecurityEvent } from '@/lib/utils/security';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('rate-limit');
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitPolicy {
+  // ip: per client IP; wallet: per wallet/address from the request; phone: per phone number
+  // from the request. wallet and phone fall back to the IP when the request has none
+  key: 'ip' | 'wallet' | 'phone';
+  // Every rule must pass, e.g. a burst limit per minute plus a sustained limit per hour
+  rules: RateLimitRule[];
+}
+
+/**
+ * Per-route policies. Verification endpoints are tight because they return
+ * recipient names and are scraped to enumerate M-Pesa accounts
+ */
+export const RATE_LIMIT_POLICIES = {
+  verify_phone: { key: 'ip', rules: [{ limit: 5, windowMs: MINUTE }, { limit: 30, windowMs: HOUR }] },
+  verify_account: { key: 'ip', rules: [{ limit: 5, windowMs: MINUTE }, { limit: 30, windowMs: HOUR }] },
+  quotes: { key: 'ip', rules: [{ limit: 30, windowMs: MINUTE }] },
+  limits_check: { key: 'ip', rules: [{ limit: 30, windowMs: MINUTE }] },
+  pretium_disburse: { key: 'wallet', rules: [{ limit: 10, windowMs: HOUR }] },
+  paycrest_order: { key: 'wallet', rules: [{ limit: 10, windowMs: HOUR }] },
+  offramp_payout: { key: 'wallet', rules: [{ limit: 10, windowMs: HOUR }] },
+  blockradar_withdraw: { key: 'wallet', rules: [{ limit: 10, windowMs: HOUR }] },
+  assign_wallet: { key: 'ip', rules: [{ limit: 20, windowMs: MINUTE }] },
+  wallet_sign_in: { key: 'ip', rules: [{ limit: 20, windowMs: MINUTE }] },
+  recipients: { key: 'ip', rules: [{ limit: 60, windowMs: MINUTE }] },
+  batch_create: { key: 'wallet', rules: [{ limit: 10, windowMs: HOUR }] },
+  batch_fund: { key: 'wallet', rules: [{ limit: 20, windowMs: HOUR }] },
+  batches: { key: 'ip', rules: [{ limit: 60, windowMs: MINUTE }] },
+  schedules: { key: 'ip', rules: [{ limit: 60, windowMs: MINUTE }] },
+  rate_alerts: { key: 'ip', rules: [{ limit: 60, windowMs: MINUTE }] },
+  // Every on-ramp order sends a payment prompt to someone's phone - limited per client
+  // and per payer number, so neither can be used to flood a phone with prompts
+  onramp: { key: 'ip', rules: [{ limit: 10, windowMs: HOUR }] },
+  onramp_payer: { key: 'phone', rules: [{ limit: 3, windowMs: 10 * MINUTE }, { limit: 10, windowMs: HOUR }] },
+  onramp_orders: { key: 'ip', rules: [{ limit: 60, windowMs: MINUTE }] },
+  notification_preferences: { key: 'ip', rules: [{ limit: 60, windowMs: MINUTE }] },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
+
+export interface RateLimitHit {
+  count: number; // Requests in the current window, including this one
+  resetAt: number; // Epoch ms when the window ends
+}
+
+/**
+ * Fixed-window counter store. hit() increments the counter for key and starts a
+ * new window of windowMs when the previous one has ended - atomically
+ */
+export interface RateLimitStore {
+  readonly name: string;
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private windows = new Map<string, RateLimitHit>();
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const current = this.windows.get(key);
+    const next = current && current.resetAt > now
+      ? { count: current.count + 1, resetAt: current.resetAt }
+      : { count: 1, resetAt: now + windowMs };
+
+    this.windows.set(key, next);
+    if (this.windows.size > 10000) this.prune(now);
+    return next;
+  }
+
+  private prune(now: number): void {
+    for (const [key, window] of this.windows.entries()) {
+      if (window.resetAt <= now) this.windows.delete(key);
+    }
+  }
+}
+
+export class SupabaseRateLimitStore implements RateLimitStore {
+  readonly name = 'supabase';
+
+  hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    return DatabaseService.hitRateLimit(key, windowMs);
+  }
+}
+
+// INCR and start the window's expiry on the first hit in one round trip
+const REDIS_HIT_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+if count == 1 then redis.call('PEXPIRE', KEYS[1], ARGV[1]) end
+return { count, redis.call('PTTL', KEYS[1]) }
+`;
+
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = 'redis';
+
+  constructor(private redis: Redis) {}
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const [count, ttlMs] = await this.redis.eval<[string], [number, number]>(
+      REDIS_HIT_SCRIPT,
+      [`ratelimit:${key}`],
+      [String(windowMs)]
+    );
+    return { count, resetAt: Date.now() + (ttlMs > 0 ? ttlMs : windowMs) };
+  }
+}
+
+export const RATE_LIMIT_CONFIG = {
+  // memory | supabase | redis - defaults to redis when Upstash is configured, else supabase
+  STORE: process.env.RATE_LIMIT_STORE,
+  REDIS_URL: process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL,
+  REDIS_TOKEN: process.env.UPSTASH_REDIS_REST_TOKEN || process.env.KV_REST_API_TOKEN,
+  // Set to 'false' to turn limiting off (e.g. load tests)
+  ENABLED: process.env.RATE_LIMIT_ENABLED !== 'false',
+};
+
+let store: RateLimitStore | null = null;
+
+// Used when the shared store is unreachable, so limits still apply per instance
+const fallbackStore = new MemoryRateLimitStore();
+
+function createStore(): RateLimitStore {
+  const { STORE, REDIS_URL, REDIS_TOKEN } = RATE_LIMIT_CONFIG;
+  const choice = STORE || (REDIS_URL && REDIS_TOKEN ? 'redis' : process.env.SUPABASE_SERVICE_ROLE_KEY ? 'supabase' : 'memory');
+
+  if (choice === 'redis') {
+    if (!REDIS_URL || !REDIS_TOKEN) {
+      logger.warn('RATE_LIMIT_STORE=redis but UPSTASH_REDIS_REST_URL/TOKEN are not set - using memory');
+      return new MemoryRateLimitStore();
+    }
+    return new RedisRateLimitStore(new Redis({ url: REDIS_URL, token: REDIS_TOKEN }));
+  }
+  if (choice === 'supabase') return new SupabaseRateLimitStore();
+  return new MemoryRateLimitStore();
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) store = createStore();
+  return store;
+}
+
+/**
+ * Replace the store, e.g. with a MemoryRateLimitStore in scripts
+ */
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  rule: RateLimitRule; // The rule that throttled the request, or the one closest to its limit
+  remaining: number;
+  resetAt: number;
+}
+
+async function hitWithFallback(key: string, windowMs: number): Promise<RateLimitHit> {
+  const shared = getRateLimitStore();
+  try {
+    return await shared.hit(key, windowMs);
+  } catch (error) {
+    logger.error('Rate limit store failed, using memory', { store: shared.name, error });
+    return fallbackStore.hit(key, windowMs);
+  }
+}
+
+/**
+ * Count a request against every rule of a policy
+ */
+export async function checkRateLimit(policyName: RateLimitPolicyName, subject: string): Promise<RateLimitResult> {
+  const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[policyName];
+
+  const results = await Promise.all(
+    policy.rules.map(async (rule): Promise<RateLimitResult> => {
+      const { count, resetAt } = await hitWithFallback(`${policyName}:${rule.windowMs}:${subject}`, rule.windowMs);
+      return { allowed: count <= rule.limit, rule, remaining: Math.max(0, rule.limit - count), resetAt };
+    })
+  );
+
+  const throttled = results.filter((result) => !result.allowed);
+  if (throttled.length > 0) {
+    // Report the rule that keeps the client waiting longest
+    return throttled.reduce((a, b) => (b.resetAt > a.resetAt ? b : a));
+  }
+  return results.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+}
+
+/**
+ * RateLimit-Limit / -Remaining / -Reset (seconds) / -Policy headers
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const resetSeconds = Math.max(0, Math.ceil((result.resetAt - Date.now()) / 1000));
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.rule.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(resetSeconds),
+    'RateLimit-Policy': `${result.rule.limit};w=${Math.round(result.rule.windowMs / 1000)}`,
+  };
+  if (!result.allowed) headers['Retry-After'] = String(resetSeconds);
+  return headers;
+}
+
+/**
+ * Run handler unless the request exceeds policyName. Throttled requests get 429;
+ * responses that do run carry the RateLimit-* headers too.
+ *
+ * @param identity - wallet (or Blockradar address) the request acts for, or the phone number
+ *   it targets in a normalized form; policies keyed by them fall back to the client IP
+ */
+export async function withRateLimit(
+  request: NextRequest,
+  policyName: RateLimitPolicyName,
+  identity: { wallet?: string | null; phone?: string | null },
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  if (!RATE_LIMIT_CONFIG.ENABLED) return handler();
+
+  const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[policyName];
+  const wallet = typeof identity.wallet === 'string' ? identity.wallet.trim().toLowerCase() : '';
+  const phone = typeof identity.phone === 'string' ? identity.phone.trim() : '';
+  const subject = policy.key === 'wallet' && wallet
+    ? `wallet:${wallet}`
+    : policy.key === 'phone' && phone
+      ? `phone:${phone}`
+      : `ip:${getClientIdentifier(request)}`;
+
+  const result = await checkRateLimit(policyName, subject);
+  const headers = rateLimitHeaders(result);
+
+  if (!result.allowed) {
+    logSecurityEvent('rate_limit_exceeded', { policy: policyName, subject, limit: result.rule.limit });
+    return NextResponse.json(
+      { error: 'Too many requests. Please try again later.', code: 'RATE_LIMITED' },
+      { status: 429, headers }
+    );
+  }
+
+  const response = await handler();
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
@@ -0,0 +1,84 @@
+/**
+ * Transactional Email
+ * Resend client and the shared Minisend email layout used by deposit, settlement
+ * and rate alert emails.
+ */
+
+import { Resend } from 'resend';
+
+export const EMAIL_FROM = 'Minisend <info@minisend.xyz>';
+
+// Logos and icons are served from the app
+export const EMAIL_ASSET_BASE = 'https://app.minisend.xyz';
+
+export function getResendClient() {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) {
+    throw new Error('RESEND_API_KEY is not configured');
+  }
+  return new Resend(apiKey);
+}
+
+export function emailLayout(body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    @media only screen and (max-width: 560px) {
+      .email-card { width: 100% !important; border-radius: 0 !important; }
+      .email-body { padding: 20px 20px 28px !important; }
+      .email-logo { padding: 24px 20px 0 !important; }
+      .email-footer { padding: 16px 20px !important; }
+      .detail-cell { padding: 12px 14px !important; }
+    }
+  </style>
+</head>
+<body style="margin:0;padding:0;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,'Helvetica Neue',Arial,sans-serif;background-color:#f7f7f8;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color:#f7f7f8;padding:40px 16px;">
+    <tr>
+      <td align="center">
+        <table class="email-card" cellpadding="0" cellspacing="0" style="width:100%;max-width:520px;background-color:#ffffff;border-radius:16px;overflow:hidden;">
+          <!-- Logo -->
+          <tr>
+            <td class="email-logo" style="padding:32px 32px 0;text-align:center;">
+              <img src="${EMAIL_ASSET_BASE}/icon.png" width="40" height="40" alt="Minisend" style="border-radius:10px;" />
+            </td>
+          </tr>
+          <!-- Body -->
+          <tr>
+            <td class="email-body" style="padding:24px 32px 32px;text-align:center;">
+              ${body}
+            </td>
+          </tr>
+          <!-- Footer -->
+          <tr>
+            <td class="email-footer" style="padding:20px 32px;border-top:1px solid #f0f0f0;text-align:center;">
+              <p style="margin:0;color:#9ca3af;font-size:12px;letter-spacing:0.02em;">Onchain earnings truly spendable</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+}
+
+export function ctaButton(href = EMAIL_ASSET_BASE, label = 'Launch Minisend'): string {
+  return `<table width="100%" cellpadding="0" cellspacing="0" style="margin:28px 0 0;">
+    <tr>
+      <td align="center">
+        <a href="${href}" style="display:inline-block;background:#0052FF;color:#ffffff;font-size:14px;font-weight:600;padding:12px 28px;border-radius:10px;text-decoration:none;">${label}</a>
+      </td>
+    </tr>
+  </table>`;
+}
+
+export function detailRow(label: string, value: string): string {
+  return `<tr>
+    <td style="color:#9ca3af;font-size:13px;padding:6px 0;text-align:left;">${label}</td>
+    <td style="color:#1a1a1a;font-size:13px;padding:6px 0;text-align:right;">${value}</td>
+  </tr>`;
+}
@@ -1,15 +1,24 @@
 import { NeynarAPIClient } from '@neynar/nodejs-sdk';
+import { getNotificationProvider } from './notification-provider';
+import { getNotificationService } from './notification-service';
+import { canNotify, filterNotifiableFids, getMutedFids } from '@/lib/notification-preferences';
+import type { NotificationCategory } from '@/lib/types/notification';
 
 /**
  * Neynar Notification Service
  *
- * Simplified notification service that uses Neynar's managed infrastructure.
+ * Entry point for sending Farcaster notifications by FID. With the default
+ * Neynar provider it uses Neynar's managed infrastructure; with
+ * NOTIFICATION_PROVIDER=self the validated notification is handed to the
+ * self-managed NotificationService instead (see notification-provider.ts).
+ *
  * Neynar handles:
  * - Token storage and management
  * - Webhook processing (miniapp_added, notifications_enabled, etc.)
  * - Token validation and expiration
  *
  * We just need to:
+ * - Check the user's notification preferences for the payload's category
  * - Call Neynar's API with the user's FID
  * - Neynar looks up the token and sends the notification
  *
@@ -52,6 +61,7 @@ export interface NotificationPayload {
   title: string;
   body: string;
   targetUrl: string;
+  category?: NotificationCategory; // Checked against notification preferences
 }
 
 /**
@@ -115,6 +125,7 @@ function sanitizeNotification(notification: NotificationPayload): {
     title: notification.title.substring(0, MAX_TITLE_LENGTH).trim(),
     body: notification.body.substring(0, MAX_BODY_LENGTH).trim(),
     targetUrl: notification.targetUrl.substring(0, MAX_URL_LENGTH).trim(),
+    category: notification.category,
   };
 
   return { valid: true, sanitized };
@@ -148,6 +159,15 @@ export async function sendNotificationToUser(
       };
     }
 
+    if (getNotificationProvider() === 'self') {
+      const { successful } = await getNotificationService().sendNotificationToFid(fid, validation.sanitized);
+      return successful > 0 ? { success: true } : { success: false, error: 'Failed to send notification' };
+    }
+
+    if (!(await canNotify({ fid }, notification.category ?? 'order_status', 'farcaster'))) {
+      return { success: false, error: 'Muted by notification preferences' };
+    }
+
     const client = getNeynarClient();
 
     // Send notification via Neynar - they handle token lookup
@@ -213,11 +233,25 @@ export async function sendNotificationToUsers(
       };
     }
 
+    if (getNotificationProvider() === 'self') {
+      const service = getNotificationService();
+      const sanitized = validation.sanitized;
+      const results = await Promise.all(fids.map((fid) => service.sendNotificationToFid(fid, sanitized)));
+      return results.some((result) => result.successful > 0)
+        ? { success: true }
+        : { success: false, error: 'Failed to send notifications' };
+    }
+
+    const allowedFids = await filterNotifiableFids(fids, notification.category ?? 'order_status', 'farcaster');
+    if (allowedFids.length === 0) {
+      return { success: false, error: 'Muted by notification preferences' };
+    }
+
     const client = getNeynarClient();
 
     // Send notification via Neynar
     await client.publishFrameNotifications({
-      targetFids: fids,
+      targetFids: allowedFids,
       filters: {},
       notification: {
         title: validation.sanitized.title,
@@ -235,7 +269,7 @@ export async function sendNotificationToUsers(
 
 /**
  * Broadcast notification to all users with notifications enabled
- * @param notification - Notification content
+ * @param notification - Notification content, marketing unless category says otherwise
  * @param filters - Optional filters (exclude_fids, following_fid, etc.)
  * @returns Promise with success status
  */
@@ -273,12 +307,29 @@ export async function broadcastNotification(
       }
     }
 
+    if (getNotificationProvider() === 'self') {
+      // following_fid and minimum_user_score need Neynar's social graph - not applied here
+      const { successful, failed } = await getNotificationService().broadcastNotification(
+        validation.sanitized,
+        filters?.exclude_fids
+      );
+      return successful > 0 || failed === 0
+        ? { success: true }
+        : { success: false, error: 'Failed to broadcast notification' };
+    }
+
+    // Users whose preferences mute the category are excluded; a failed lookup fails the broadcast
+    const mutedFids = await getMutedFids(notification.category ?? 'marketing', 'farcaster');
+
     const client = getNeynarClient();
 
     // Broadcast to all users (empty targetFids array)
     await client.publishFrameNotifications({
       targetFids: [], // Empty = all users with notifications enabled
-      filters: filters || {},
+      filters: {
+        ...filters,
+        exclude_fids: [...new Set([...(filters?.exclude_fids || []), ...mutedFids])],
+      },
       notification: {
         title: validation.sanitized.title,
         body: validation.sanitized.body,
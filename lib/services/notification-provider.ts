@@ -0,0 +1,28 @@
+/**
+ * Farcaster notification provider
+ *
+ * - neynar (default): the manifest webhook points at Neynar, which stores the
+ *   notification tokens; we send by FID through the Neynar API
+ * - self: the manifest webhook points at /api/webhooks, which verifies the
+ *   events and stores the tokens in user_notifications; notifications are
+ *   sent straight to each client's notification URL by NotificationService
+ *
+ * Set with NOTIFICATION_PROVIDER. Switching to self only reaches users who add
+ * the app (or re-enable notifications) after the manifest points here.
+ */
+
+export type NotificationProvider = 'neynar' | 'self';
+
+// Neynar's event endpoint for this app, from the Neynar dev portal
+export const NEYNAR_WEBHOOK_URL = 'https://api.neynar.com/f/app/6169a7fa-658f-4d01-b6a5-ec7fb4bd802e/event';
+
+export function getNotificationProvider(): NotificationProvider {
+  return process.env.NOTIFICATION_PROVIDER === 'self' ? 'self' : 'neynar';
+}
+
+/**
+ * Webhook URL for the Mini App manifest
+ */
+export function getManifestWebhookUrl(appUrl: string): string {
+  return getNotificationProvider() === 'self' ? `${appUrl}/api/webhooks` : NEYNAR_WEBHOOK_URL;
+}
@@ -1,24 +1,10 @@
 /**
- * ⚠️ DEPRECATED - Self-Managed Notification Service
+ * Self-Managed Notification Service
  *
- * This service is NO LONGER USED in the application.
- *
- * Current Setup: Neynar-Managed Notifications
- * ============================================
- * The app now uses Neynar's managed notification infrastructure:
- * - Webhook URL: https://api.neynar.com/f/app/6169a7fa-658f-4d01-b6a5-ec7fb4bd802e/event
- * - Neynar handles all token storage and management
- * - Notifications are sent via Neynar API by FID only
- * - Active service: lib/services/neynar-notifications.ts
- *
- * This file is preserved for reference if switching to self-managed notifications.
- * To use this service, you would need to:
- * 1. Change webhookUrl in manifest to point to your server
- * 2. Run notification database migrations
- * 3. Handle webhook events yourself
- * 4. Store and manage tokens in your database
- *
- * @deprecated Use neynar-notifications.ts instead
+ * Used when NOTIFICATION_PROVIDER=self (see notification-provider.ts). The
+ * manifest webhook points at /api/webhooks, which verifies Farcaster events and
+ * stores each client's notification URL and token here; notifications are sent
+ * straight to that URL. With the default Neynar provider these tables stay empty.
  */
 
 import { createClient } from '@supabase/supabase-js';
@@ -31,9 +17,9 @@ import {
   NotificationStatus,
   UserNotification
 } from '../types/notification';
+import { canNotify, filterNotifiableFids } from '@/lib/notification-preferences';
 
 /**
- * @deprecated Use neynar-notifications.ts instead
  * NotificationService handles all notification operations for Farcaster Mini App
  * Implements the Farcaster Frame Notifications specification
  */
@@ -146,7 +132,8 @@ export class NotificationService {
   }
 
   /**
-   * Send a notification to a specific user-client combination
+   * Send a notification to a specific user-client combination, unless the
+   * user's notification preferences mute its category on Farcaster right now
    * @param fid - User's FID
    * @param appFid - Client's FID
    * @param template - Notification content
@@ -155,6 +142,21 @@ export class NotificationService {
     fid: number,
     appFid: number,
     template: NotificationTemplate
+  ): Promise<{ success: boolean; status: NotificationStatus; error?: string }> {
+    if (!(await canNotify({ fid }, template.category ?? 'order_status', 'farcaster'))) {
+      return { success: false, status: 'muted', error: 'Muted by notification preferences' };
+    }
+
+    return this.deliverNotification(fid, appFid, template);
+  }
+
+  /**
+   * Send without checking preferences - the caller already has
+   */
+  private async deliverNotification(
+    fid: number,
+    appFid: number,
+    template: NotificationTemplate
   ): Promise<{ success: boolean; status: NotificationStatus; error?: string }> {
     const userNotification = await this.getNotificationDetails(fid, appFid);
 
@@ -178,18 +180,11 @@ export class NotificationService {
     };
 
     try {
-      // Get Neynar API key for authentication
-      const neynarApiKey = process.env.NEYNAR_API_KEY;
-
-      if (!neynarApiKey) {
-        throw new Error('NEYNAR_API_KEY not configured');
-      }
-
+      // The client's notification URL authenticates by token, no API key needed
       const response = await fetch(userNotification.notification_url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'api_key': neynarApiKey,
         },
         body: JSON.stringify(request),
       });
@@ -266,6 +261,30 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Send a notification to every client where the user enabled notifications
+   * @param fid - User's FID
+   * @param template - Notification content
+   */
+  async sendNotificationToFid(
+    fid: number,
+    template: NotificationTemplate
+  ): Promise<{ successful: number; failed: number }> {
+    const { data, error } = await this.supabase
+      .from('user_notifications')
+      .select('app_fid')
+      .eq('fid', fid)
+      .eq('enabled', true);
+
+    if (error) {
+      throw new Error(`Failed to fetch notification clients: ${error.message}`);
+    }
+
+    const recipients = (data || []).map((row: { app_fid: number }) => ({ fid, appFid: row.app_fid }));
+    const { successful, failed } = await this.sendBulkNotifications(recipients, template);
+    return { successful, failed };
+  }
+
   /**
    * Send notifications to multiple user-client combinations
    * @param recipients - Array of {fid, appFid} objects
@@ -279,13 +298,25 @@ export class NotificationService {
     let successful = 0;
     let failed = 0;
 
+    // Preferences are read once for the whole list; muted users count as neither
+    const allowed = new Set(await filterNotifiableFids(
+      recipients.map(({ fid }) => fid),
+      template.category ?? 'order_status',
+      'farcaster'
+    ));
+
     // Send notifications concurrently with a limit
     const batchSize = 10;
     for (let i = 0; i < recipients.length; i += batchSize) {
       const batch = recipients.slice(i, i + batchSize);
       const promises = batch.map(async ({ fid, appFid }) => {
-        const result = await this.sendNotification(fid, appFid, template);
         const key = `${fid}-${appFid}`;
+        if (!allowed.has(fid)) {
+          results[key] = 'muted';
+          return;
+        }
+
+        const result = await this.deliverNotification(fid, appFid, template);
         results[key] = result.status;
         if (result.success) {
           successful++;
@@ -300,6 +331,27 @@ export class NotificationService {
     return { successful, failed, results };
   }
 
+  /**
+   * Send a notification to every user-client combination with notifications enabled
+   * @param template - Notification content, marketing unless it says otherwise
+   * @param excludeFids - Users to skip
+   */
+  async broadcastNotification(
+    template: NotificationTemplate,
+    excludeFids: number[] = []
+  ): Promise<{ successful: number; failed: number }> {
+    const excluded = new Set(excludeFids);
+    const recipients = (await this.getEnabledUsers())
+      .filter((user) => !excluded.has(user.fid))
+      .map((user) => ({ fid: user.fid, appFid: user.app_fid }));
+
+    const { successful, failed } = await this.sendBulkNotifications(recipients, {
+      ...template,
+      category: template.category ?? 'marketing',
+    });
+    return { successful, failed };
+  }
+
   /**
    * Log notification to history table
    */
@@ -336,6 +388,7 @@ export class NotificationService {
           title: '✅ Transaction Complete',
           body: `${data?.amount || ''} ${data?.currency || ''} delivered successfully!`,
           targetUrl: `${this.appUrl}?view=receipt&id=${data?.orderId || ''}`,
+          category: 'order_status',
         };
 
       case 'transaction_validated':
@@ -343,6 +396,7 @@ export class NotificationService {
           title: '✓ Payment Validated',
           body: `Your ${data?.currency || ''} transfer has been validated and delivered!`,
           targetUrl: `${this.appUrl}?view=receipt&id=${data?.orderId || ''}`,
+          category: 'order_status',
         };
 
       case 'transaction_failed':
@@ -350,6 +404,15 @@ export class NotificationService {
           title: '❌ Transaction Failed',
           body: `Your transaction couldn't be completed. Tap to view details.`,
           targetUrl: `${this.appUrl}?view=support&id=${data?.orderId || ''}`,
+          category: 'order_status',
+        };
+
+      case 'refund_completed':
+        return {
+          title: '↩️ Refund Sent',
+          body: `${data?.amount || ''} USDC has been returned to your wallet.`,
+          targetUrl: `${this.appUrl}?view=support&id=${data?.orderId || ''}`,
+          category: 'order_status',
         };
 
       case 'rate_update':
@@ -357,6 +420,7 @@ export class NotificationService {
           title: '📊 Rate Update',
           body: `New rates: 1 USDC = ${data?.rate || ''} ${data?.currency || ''}`,
           targetUrl: this.appUrl,
+          category: 'rate_alerts',
         };
 
       case 'promotion':
@@ -364,6 +428,7 @@ export class NotificationService {
           title: data?.title as string || '🎁 Special Offer',
           body: data?.body as string || 'Check out our latest promotion!',
           targetUrl: this.appUrl,
+          category: 'marketing',
         };
 
       default:
@@ -395,9 +460,6 @@ export class NotificationService {
 // Singleton instance
 let notificationServiceInstance: NotificationService | null = null;
 
-/**
- * @deprecated Use neynar-notifications.ts instead
- */
 export function getNotificationService(): NotificationService {
   if (!notificationServiceInstance) {
     notificationServiceInstance = new NotificationService();
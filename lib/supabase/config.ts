@@ -1,9 +1,13 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { canTransition, getAllowedSourceStatuses } from '@/lib/offramp/order-state'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
 
+// failover_order_id while a failover is being attempted, before the PayCrest order exists
+const FAILOVER_CLAIM_MARKER = 'pending'
+
 // Client-side Supabase client (with RLS)
 // Only create client if environment variables are available (prevents build-time errors)
 export const supabase: SupabaseClient = (supabaseUrl && supabaseAnonKey
@@ -67,6 +71,12 @@ export interface Order {
   pretium_receipt_number?: string
   public_name?: string
   exchange_rate?: number
+  failover_from_transaction_code?: string // Set when this order re-routes a failed Pretium payout
+  reconcile_attempts?: number
+  last_reconciled_at?: string
+  flagged_at?: string // Reconciler could not resolve the order
+  flag_reason?: string
+  correlation_id?: string // Client payment correlation ID (X-Correlation-Id)
   created_at: string
   updated_at: string
   completed_at?: string
@@ -147,6 +157,7 @@ export interface PretiumOrder {
   public_name?: string
   mobile_network?: string
   chain: string
+  token?: string // USDC or USDT deposited; unset on orders from before USDT
   error_message?: string
   settlement_address?: string
   callback_url?: string
@@ -154,9 +165,352 @@ export interface PretiumOrder {
   raw_disburse_request?: Record<string, unknown>
   raw_disburse_response?: Record<string, unknown>
   raw_webhook_payloads?: Record<string, unknown>[]
+  failover_order_id?: string // PayCrest order that replaced this payout after it failed, 'pending' while claimed
+  failover_at?: string
+  reconcile_attempts?: number
+  last_reconciled_at?: string
+  flagged_at?: string // Reconciler could not resolve the order
+  flag_reason?: string
+  correlation_id?: string // Client payment correlation ID (X-Correlation-Id)
+  created_at: string
+  updated_at: string
+  completed_at?: string
+}
+
+export interface PretiumWebhookEvent {
+  id: string
+  dedup_key: string
+  transaction_code: string
+  status?: string
+  receipt_number?: string
+  auth_method?: 'hmac' | 'token' | 'allowlist'
+  source_ip?: string
+  payload: Record<string, unknown>
+  processing_status: 'received' | 'processed' | 'ignored' | 'failed'
+  processing_note?: string
+  received_at: string
+  processing_started_at?: string
+  processed_at?: string
+}
+
+export interface BlockradarWebhookEventRecord {
+  id: string
+  event_key: string
+  event: string
+  event_type?: string
+  blockradar_tx_id?: string
+  payload: Record<string, unknown>
+  processing_status: 'received' | 'processed' | 'failed'
+  attempts: number
+  result?: Record<string, unknown>
+  last_error?: string
+  received_at: string
+  processed_at?: string
+}
+
+export interface OrderStatusHistoryEntry {
+  id: string
+  provider: 'pretium' | 'paycrest'
+  order_id?: string
+  provider_order_id: string
+  event: string
+  old_status?: string
+  new_status?: string
+  provider_status?: string
+  reason?: string
+  details?: Record<string, unknown>
+  created_at: string
+}
+
+export interface Refund {
+  id: string
+  pretium_transaction_code?: string
+  paycrest_order_id?: string
+  pretium_order_id?: string
+  order_id?: string
+  wallet_address: string
+  amount_usdc: number
+  currency?: string
+  fid?: number
+  reason: string
+  source: 'failover' | 'paycrest_expired' | 'manual' | 'risk_review' | 'batch' | 'schedule'
+  status: 'open' | 'approved' | 'processing' | 'completed' | 'failed' | 'rejected'
+  refund_method?: 'blockradar' | 'operator_transfer'
+  blockradar_address_id?: string
+  blockradar_withdrawal_id?: string
+  tx_hash?: string
+  created_by?: string
+  reviewed_by?: string
+  reviewed_at?: string
+  review_note?: string
+  error_message?: string
+  completed_at?: string
+  notified_at?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface RiskDenyListEntry {
+  id: string
+  type: 'wallet' | 'recipient'
+  value: string // Lowercased wallet address or recipient hash
+  reason?: string
+  created_by?: string
+  created_at: string
+}
+
+export interface PayoutReview {
+  id: string
+  status: 'review' | 'approved' | 'rejected'
+  provider: 'pretium' | 'paycrest'
+  wallet_address: string
+  currency: string
+  amount_usdc: number
+  quote_id?: string
+  transaction_hash?: string // USDC deposit (deposit-first providers)
+  recipient_hash?: string
+  payout_request: Record<string, unknown> // OfframpPayoutRequest to create on approval
+  signals: { provider: string; subject: 'wallet' | 'recipient'; reason: string }[]
+  order_reference?: string
+  refund_id?: string
+  correlation_id?: string
+  reviewed_by?: string
+  reviewed_at?: string
+  review_note?: string
+  error_message?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface IdempotencyKeyRecord {
+  id: string
+  scope: string
+  idempotency_key: string
+  request_hash: string
+  status: 'processing' | 'completed'
+  response_status?: number
+  response_body?: Record<string, unknown>
+  created_at: string
+  completed_at?: string
+  expires_at: string
+}
+
+export interface OfframpQuoteRecord {
+  id: string
+  provider: 'pretium' | 'paycrest'
+  currency: string
+  payment_type: string
+  amount_usdc: number
+  total_usdc: number
+  rate: number
+  recipient_amount: number
+  fee: number
+  deposit_address?: string
+  chain?: import('@/lib/pretium/types').PretiumChain // Chain deposit_address is on, unset for Base
+  token?: import('@/lib/contracts').StablecoinToken // Stablecoin the quote is in, unset for USDC
+  wallet_address?: string
+  sender_address?: string // Only a deposit from this address funds the quote, unset for the wallet
+  signature: string
+  expires_at: string
+  redeemed_at?: string
+  order_reference?: string
+  correlation_id?: string
+  created_at: string
+}
+
+export interface CorrelationRecords {
+  quotes: OfframpQuoteRecord[]
+  pretiumOrders: PretiumOrder[]
+  paycrestOrders: Order[]
+  statusHistory: OrderStatusHistoryEntry[]
+  pretiumWebhookEvents: PretiumWebhookEvent[]
+  paycrestWebhookEvents: WebhookEvent[]
+  analyticsEvents: AnalyticsEvent[]
+}
+
+// A payout counted against a wallet's transaction limits (Pretium or PayCrest)
+export interface WalletPayoutRecord {
+  amount_in_usdc: number
+  local_currency: string
+  created_at: string
+  phone_number?: string
+  till_number?: string
+  paybill_number?: string
+  paybill_account?: string
+  account_number?: string
+  bank_code?: string
+}
+
+export interface TransactionLimitSettingsRecord {
+  id: string
+  settings: import('@/lib/types/limits').TransactionLimitSettings
+  updated_by?: string
+  updated_at: string
+}
+
+// Saved recipient as stored - the identifying details are encrypted (see lib/recipients)
+export interface RecipientRecord {
+  id: string
+  owner_id: string
+  currency: import('@/lib/types/recipients').RecipientCurrency
+  recipient_hash: string
+  encrypted_details: string
+  nickname?: string
+  is_favorite: boolean
+  verified_at?: string
+  use_count: number
+  last_used_at?: string
   created_at: string
   updated_at: string
+}
+
+// Batch payout - one deposit fanned out to many Pretium disbursements (see lib/batches)
+export interface PayoutBatchRecord {
+  id: string
+  wallet_address: string
+  status: import('@/lib/types/batches').PayoutBatchStatus
+  total_usdc: number
+  row_count: number
+  deposit_address: string
+  deposit_tx_hash?: string
+  correlation_id?: string
+  quote_expires_at: string
+  funded_at?: string
   completed_at?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface PayoutBatchRowRecord {
+  id: string
+  batch_id: string
+  row_index: number
+  status: import('@/lib/types/batches').PayoutBatchRowStatus
+  currency: import('@/lib/types/batches').BatchCurrency
+  payment_type: import('@/lib/types/batches').BatchPaymentType
+  account_name: string
+  phone_number?: string
+  till_number?: string
+  paybill_number?: string
+  paybill_account?: string
+  account_number?: string
+  bank_code?: string
+  bank_name?: string
+  amount_local: number
+  fee: number
+  amount_usdc: number
+  rate: number
+  quote_id?: string
+  funding_withdrawal_id?: string
+  funding_tx_hash?: string
+  transaction_code?: string
+  review_id?: string
+  refund_id?: string
+  error_message?: string
+  created_at: string
+  updated_at: string
+}
+
+// Recurring payout to a saved recipient (see lib/schedules)
+export interface PayoutScheduleRecord {
+  id: string
+  owner_id: string
+  recipient_id?: string
+  label?: string
+  currency: import('@/lib/types/recipients').RecipientCurrency
+  amount_local: number
+  frequency: import('@/lib/types/schedules').ScheduleFrequency
+  cron_expression: string
+  mode: import('@/lib/types/schedules').PayoutScheduleMode
+  status: import('@/lib/types/schedules').PayoutScheduleStatus
+  funding_wallet?: string
+  funding_address_id?: string
+  fid?: number
+  next_run_at: string
+  last_run_at?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface PayoutScheduleRunRecord {
+  id: string
+  schedule_id: string
+  scheduled_for: string
+  status: import('@/lib/types/schedules').PayoutScheduleRunStatus
+  amount_local: number
+  amount_usdc?: number
+  quote_id?: string
+  funding_withdrawal_id?: string
+  funding_tx_hash?: string
+  transaction_code?: string
+  review_id?: string
+  refund_id?: string
+  error_message?: string
+  created_at: string
+  updated_at: string
+}
+
+// Exchange rate alert (see lib/rate-alerts)
+export interface RateAlertRecord {
+  id: string
+  owner_id: string
+  currency: import('@/lib/types/recipients').RecipientCurrency
+  direction: import('@/lib/types/rate-alerts').RateAlertDirection
+  threshold: number
+  status: import('@/lib/types/rate-alerts').RateAlertStatus
+  fid?: number
+  email?: string
+  email_confirmed_at?: string | null
+  email_confirmation_token?: string | null
+  last_rate?: number
+  last_checked_at?: string
+  triggered_at?: string
+  triggered_rate?: number
+  triggered_provider?: import('@/lib/types/rate-alerts').RateAlertProvider
+  created_at: string
+  updated_at: string
+}
+
+// Per-user notification preferences (see lib/notification-preferences)
+export interface NotificationPreferencesRecord {
+  id: string
+  owner_id: string // Wallet address (lowercased) or Privy user ID
+  fid?: number | null
+  channels: import('@/lib/types/notification').NotificationPreferences['channels']
+  quiet_hours_start?: string | null
+  quiet_hours_end?: string | null
+  time_zone: string
+  language: import('@/lib/types/notification').NotificationLanguage
+  created_at: string
+  updated_at: string
+}
+
+// Mobile money → USDC purchase through Pretium (see lib/onramp)
+export interface OnrampOrderRecord {
+  id: string
+  transaction_code: string
+  wallet_address: string
+  currency: import('@/lib/types/onramp').OnrampCurrency
+  phone_number: string
+  mobile_network: string
+  amount_local: number
+  fee_local: number
+  exchange_rate: number
+  amount_usdc: number
+  status: import('@/lib/types/onramp').OnrampOrderStatus
+  pretium_status?: string
+  receipt_number?: string
+  public_name?: string
+  release_tx_hash?: string
+  fid?: number
+  correlation_id?: string
+  error_message?: string
+  raw_onramp_request?: Record<string, unknown>
+  raw_webhook_payloads?: Record<string, unknown>[]
+  paid_at?: string
+  released_at?: string
+  created_at: string
+  updated_at: string
 }
 
 // Helper functions
@@ -261,6 +615,7 @@ interface RequestData {
   clientFid?: number // Client FID (9152 for Warpcast, etc.) - for tracking which app they're using
   platformType?: string // 'web' or 'mobile' - from context.client.platformType
   locationType?: string // 'launcher', 'cast_embed', etc. - from context.location.type
+  correlationId?: string // Client payment correlation ID (X-Correlation-Id)
 }
 
 // Database operations
@@ -354,7 +709,8 @@ export class DatabaseService {
       fid: requestData.fid,
       client_fid: requestData.clientFid,
       platform_type: requestData.platformType,
-      location_type: requestData.locationType
+      location_type: requestData.locationType,
+      correlation_id: requestData.correlationId
     }
 
     const { data, error } = await supabaseAdmin
@@ -371,7 +727,16 @@ export class DatabaseService {
     return data
   }
 
+  // Status writes are checked against the order state machine - disallowed transitions
+  // are logged to order_status_history and the current order is returned unchanged
   static async updateOrderStatus(paycrestOrderId: string, status: Order['status'], paycrestStatus?: string, additionalData?: Record<string, unknown>): Promise<Order> {
+    const current = await this.getOrderByPaycrestId(paycrestOrderId)
+
+    if (current && !canTransition('paycrest', current.status, status)) {
+      await this.logRejectedTransition('paycrest', current.id, paycrestOrderId, current.status, status, paycrestStatus)
+      return current
+    }
+
     const updateData: Record<string, unknown> = { 
       status, 
       paycrest_status: paycrestStatus,
@@ -386,10 +751,21 @@ export class DatabaseService {
       .from('orders')
       .update(updateData)
       .eq('paycrest_order_id', paycrestOrderId)
+      .in('status', getAllowedSourceStatuses('paycrest', status))
       .select()
-      .single()
+      .maybeSingle()
 
     if (error) throw error
+
+    if (!data) {
+      if (!current) throw new Error(`Order not found: ${paycrestOrderId}`)
+
+      // Another writer moved the order between our read and write
+      const latest = await this.getOrderByPaycrestId(paycrestOrderId) || current
+      await this.logRejectedTransition('paycrest', latest.id, paycrestOrderId, latest.status, status, paycrestStatus)
+      return latest
+    }
+
     return data
   }
 
@@ -576,7 +952,10 @@ export class DatabaseService {
     fid?: number;
     mobileNetwork?: string;
     settlementAddress?: string;
+    chain?: import('@/lib/pretium/types').PretiumChain;
+    token?: import('@/lib/contracts').StablecoinToken;
     callbackUrl?: string;
+    correlationId?: string;
     rawDisburseRequest?: Record<string, unknown>;
     rawDisburseResponse?: Record<string, unknown>;
   }): Promise<PretiumOrder> {
@@ -614,10 +993,12 @@ export class DatabaseService {
         paybill_account: orderData.paybillAccount,
         account_name: orderData.accountName,
         mobile_network: orderData.mobileNetwork || null,
-        chain: 'BASE',
+        chain: orderData.chain || 'BASE',
+        token: orderData.token || 'USDC',
         settlement_address: orderData.settlementAddress,
         callback_url: orderData.callbackUrl,
         fid: orderData.fid,
+        correlation_id: orderData.correlationId,
         raw_disburse_request: orderData.rawDisburseRequest,
         raw_disburse_response: orderData.rawDisburseResponse
       })
@@ -628,15 +1009,24 @@ export class DatabaseService {
     return data
   }
 
+  // Status writes are checked against the order state machine - disallowed transitions
+  // are logged to order_status_history and the current order is returned unchanged
   static async updatePretiumOrderStatus(
     transactionCode: string,
-    status: string,
+    status: PretiumOrder['status'],
     pretiumStatus: string,
     receiptNumber?: string,
     publicName?: string,
     errorMessage?: string,
     webhookPayload?: Record<string, unknown>
   ): Promise<PretiumOrder> {
+    const currentOrder = await this.getPretiumOrderByTransactionCode(transactionCode);
+
+    if (currentOrder && !canTransition('pretium', currentOrder.status, status)) {
+      await this.logRejectedTransition('pretium', currentOrder.id, transactionCode, currentOrder.status, status, pretiumStatus);
+      return currentOrder;
+    }
+
     const updateData: Record<string, unknown> = {
       status,
       pretium_status: pretiumStatus,
@@ -661,8 +1051,6 @@ export class DatabaseService {
 
     // Append webhook payload to raw_webhook_payloads array if provided
     if (webhookPayload) {
-      // First get current order to append to existing payloads
-      const currentOrder = await this.getPretiumOrderByTransactionCode(transactionCode);
       const existingPayloads = currentOrder?.raw_webhook_payloads || [];
       updateData.raw_webhook_payloads = [...existingPayloads, webhookPayload];
     }
@@ -671,11 +1059,22 @@ export class DatabaseService {
       .from('pretium_orders')
       .update(updateData)
       .eq('transaction_code', transactionCode)
+      .in('status', getAllowedSourceStatuses('pretium', status))
       .select()
-      .single()
+      .maybeSingle();
 
-    if (error) throw error
-    return data
+    if (error) throw error;
+
+    if (!data) {
+      if (!currentOrder) throw new Error(`Pretium order not found: ${transactionCode}`);
+
+      // Another writer moved the order between our read and write
+      const latest = await this.getPretiumOrderByTransactionCode(transactionCode) || currentOrder;
+      await this.logRejectedTransition('pretium', latest.id, transactionCode, latest.status, status, pretiumStatus);
+      return latest;
+    }
+
+    return data;
   }
 
   static async getPretiumOrderByTransactionCode(transactionCode: string): Promise<PretiumOrder | null> {
@@ -689,6 +1088,60 @@ export class DatabaseService {
     return data
   }
 
+  static async getPretiumOrderByTransactionHash(transactionHash: string): Promise<PretiumOrder | null> {
+    const { data, error } = await supabaseAdmin
+      .from('pretium_orders')
+      .select('*')
+      .ilike('transaction_hash', transactionHash)
+      .limit(1)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  // Deposit claims - reserves a deposit hash for one Pretium payout before Pretium is called.
+  // Returns false when another payout already holds it
+  static async claimPretiumDeposit(claimData: {
+    transactionHash: string
+    chain: string
+    walletAddress: string
+    correlationId?: string
+  }): Promise<boolean> {
+    const { error } = await supabaseAdmin
+      .from('pretium_deposit_claims')
+      .insert({
+        transaction_hash: claimData.transactionHash,
+        chain: claimData.chain,
+        wallet_address: claimData.walletAddress,
+        correlation_id: claimData.correlationId
+      })
+
+    if (error?.code === '23505') return false
+    if (error) throw error
+    return true
+  }
+
+  static async completePretiumDepositClaim(transactionHash: string, transactionCode: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('pretium_deposit_claims')
+      .update({ transaction_code: transactionCode })
+      .ilike('transaction_hash', transactionHash)
+
+    if (error) throw error
+  }
+
+  // Only for payouts Pretium rejected - the deposit can fund a retry
+  static async releasePretiumDepositClaim(transactionHash: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('pretium_deposit_claims')
+      .delete()
+      .ilike('transaction_hash', transactionHash)
+      .is('transaction_code', null)
+
+    if (error) throw error
+  }
+
   static async getPretiumOrdersByWalletAddress(walletAddress: string, limit = 50): Promise<PretiumOrder[]> {
     const { data, error } = await supabaseAdmin
       .from('pretium_orders')
@@ -724,79 +1177,1605 @@ export class DatabaseService {
     return data || []
   }
 
-  // Unified method to get all orders (both Pretium and PayCrest) for a wallet
-  static async getOrdersByWalletAddress(walletAddress: string, limit = 100): Promise<(Order | PretiumOrder)[]> {
-    // Fetch both Pretium orders and PayCrest orders
-    const pretiumOrders = await this.getPretiumOrdersByWalletAddress(walletAddress, limit);
-    const paycrestOrders = await this.getOrdersByWallet(walletAddress, limit);
+  // Pretium webhook dedup - returns the existing row (isNew false) when this delivery was already recorded
+  static async recordPretiumWebhookEvent(eventData: {
+    dedupKey: string;
+    transactionCode: string;
+    status?: string;
+    receiptNumber?: string;
+    authMethod?: string;
+    sourceIp?: string;
+    payload: Record<string, unknown>;
+  }): Promise<{ record: PretiumWebhookEvent; isNew: boolean }> {
+    const { data, error } = await supabaseAdmin
+      .from('pretium_webhook_events')
+      .insert({
+        dedup_key: eventData.dedupKey,
+        transaction_code: eventData.transactionCode,
+        status: eventData.status,
+        receipt_number: eventData.receiptNumber,
+        auth_method: eventData.authMethod,
+        source_ip: eventData.sourceIp,
+        payload: eventData.payload
+      })
+      .select()
+      .single()
 
-    // Combine and return
-    const allOrders = [...pretiumOrders, ...paycrestOrders];
-    return allOrders;
+    // Unique violation on dedup_key means we've seen this exact webhook before
+    if (error?.code === '23505') {
+      const record = await this.getPretiumWebhookEventByDedupKey(eventData.dedupKey)
+      if (record) return { record, isNew: false }
+    }
+    if (error) throw error
+    return { record: data, isNew: true }
   }
 
-  // Legacy compatibility method - checks both old and new tables
-  static async getOrderByPretiumTransactionCode(transactionCode: string): Promise<Order | PretiumOrder | null> {
-    // First try new pretium_orders table
-    const pretiumOrder = await this.getPretiumOrderByTransactionCode(transactionCode);
-    if (pretiumOrder) return pretiumOrder;
-
-    // Fall back to old orders table for legacy data
+  static async getPretiumWebhookEventByDedupKey(dedupKey: string): Promise<PretiumWebhookEvent | null> {
     const { data, error } = await supabaseAdmin
-      .from('orders')
+      .from('pretium_webhook_events')
       .select('*')
-      .eq('pretium_transaction_code', transactionCode)
-      .single()
+      .eq('dedup_key', dedupKey)
+      .maybeSingle()
 
-    if (error && error.code !== 'PGRST116') throw error
+    if (error) throw error
     return data
   }
 
-  // Dashboard query methods
-  static async getDashboardStats() {
-    // Fetch all orders using pagination (Supabase defaults to 1000 row limit)
-    const PAGE_SIZE = 1000;
-    let allOrders: PretiumOrder[] = [];
-    let page = 0;
-    let hasMore = true;
+  // Take over a delivery for another processing attempt: one that failed, or one still
+  // 'received' whose attempt started before the lease cutoff. Only one caller gets it
+  static async claimPretiumWebhookEventRetry(eventId: string, leaseMs: number): Promise<PretiumWebhookEvent | null> {
+    const now = new Date()
+    const cutoff = new Date(now.getTime() - leaseMs).toISOString()
 
-    while (hasMore) {
-      const from = page * PAGE_SIZE;
-      const to = from + PAGE_SIZE - 1;
-      const { data, error } = await supabaseAdmin
-        .from('pretium_orders')
-        .select('*')
-        .range(from, to)
+    const { data, error } = await supabaseAdmin
+      .from('pretium_webhook_events')
+      .update({ processing_status: 'received', processing_started_at: now.toISOString() })
+      .eq('id', eventId)
+      .in('processing_status', ['received', 'failed'])
+      .or(`processing_status.eq.failed,processing_started_at.is.null,processing_started_at.lt.${cutoff}`)
+      .select()
+      .maybeSingle()
 
-      if (error) throw error
+    if (error) throw error
+    return data
+  }
 
-      const rows = data || [];
-      allOrders = allOrders.concat(rows);
+  static async updatePretiumWebhookEventStatus(
+    eventId: string,
+    processingStatus: PretiumWebhookEvent['processing_status'],
+    note?: string
+  ): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('pretium_webhook_events')
+      .update({
+        processing_status: processingStatus,
+        processing_note: note,
+        processed_at: new Date().toISOString()
+      })
+      .eq('id', eventId)
 
-      if (rows.length < PAGE_SIZE) {
-        hasMore = false;
-      }
-      page++;
-    }
+    if (error) throw error
+  }
 
-    const orders = allOrders;
-    const totalOrders = orders.length;
-    const completedOrders = orders.filter(o => o.status === 'completed').length;
-    const failedOrders = orders.filter(o => o.status === 'failed').length;
-    const pendingOrders = orders.filter(o => o.status === 'pending' || o.status === 'processing').length;
+  // Rate limiting - counts a request in the key's fixed window, starting a new window once it has ended
+  static async hitRateLimit(key: string, windowMs: number): Promise<{ count: number; resetAt: number }> {
+    const { data, error } = await supabaseAdmin
+      .rpc('rate_limit_hit', { p_key: key, p_window_ms: windowMs })
+      .single<{ hits: number; reset_at: string }>()
 
-    const now = new Date();
-    const thirtyMinsAgo = new Date(now.getTime() - 30 * 60 * 1000);
-    const stuckOrders = orders.filter(o =>
-      (o.status === 'pending' || o.status === 'processing') &&
-      new Date(o.created_at) < thirtyMinsAgo
-    ).length;
+    if (error) throw error
+    return { count: data.hits, resetAt: new Date(data.reset_at).getTime() }
+  }
 
-    const totalUSDCVolume = orders.reduce((sum, o) => sum + (Number(o.amount_in_usdc) || 0), 0);
-    const totalKESVolume = orders.reduce((sum, o) => sum + (Number(o.amount_in_local) || 0), 0);
-    const avgFee = orders.length > 0
-      ? orders.reduce((sum, o) => sum + (Number(o.sender_fee) || 0), 0) / orders.length
-      : 0;
+  // Idempotency keys - claims (scope, key) for the first request, or returns the existing claim
+  static async claimIdempotencyKey(claimData: {
+    scope: string
+    key: string
+    requestHash: string
+    expiresAt: string
+  }): Promise<{ record: IdempotencyKeyRecord; claimed: boolean }> {
+    const insertClaim = () => supabaseAdmin
+      .from('idempotency_keys')
+      .insert({
+        scope: claimData.scope,
+        idempotency_key: claimData.key,
+        request_hash: claimData.requestHash,
+        expires_at: claimData.expiresAt
+      })
+      .select()
+      .single()
+
+    const { data, error } = await insertClaim()
+    if (!error) return { record: data, claimed: true }
+    if (error.code !== '23505') throw error
+
+    const { data: existing, error: fetchError } = await supabaseAdmin
+      .from('idempotency_keys')
+      .select('*')
+      .eq('scope', claimData.scope)
+      .eq('idempotency_key', claimData.key)
+      .maybeSingle()
+
+    if (fetchError) throw fetchError
+
+    // Expired claims are discarded so the key can be used again
+    if (!existing || new Date(existing.expires_at).getTime() <= Date.now()) {
+      if (existing) {
+        await supabaseAdmin
+          .from('idempotency_keys')
+          .delete()
+          .eq('id', existing.id)
+          .lte('expires_at', new Date().toISOString())
+      }
+
+      const { data: retried, error: retryError } = await insertClaim()
+      if (!retryError) return { record: retried, claimed: true }
+      if (retryError.code !== '23505') throw retryError
+
+      const { data: winner, error: winnerError } = await supabaseAdmin
+        .from('idempotency_keys')
+        .select('*')
+        .eq('scope', claimData.scope)
+        .eq('idempotency_key', claimData.key)
+        .single()
+
+      if (winnerError) throw winnerError
+      return { record: winner, claimed: false }
+    }
+
+    return { record: existing, claimed: false }
+  }
+
+  static async completeIdempotencyKey(
+    id: string,
+    responseStatus: number,
+    responseBody: Record<string, unknown>
+  ): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('idempotency_keys')
+      .update({
+        status: 'completed',
+        response_status: responseStatus,
+        response_body: responseBody,
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', id)
+
+    if (error) throw error
+  }
+
+  // Drop a claim whose request failed, so the client can retry with the same key
+  static async releaseIdempotencyKey(id: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('idempotency_keys')
+      .delete()
+      .eq('id', id)
+      .eq('status', 'processing')
+
+    if (error) throw error
+  }
+
+  // Off-ramp quotes
+  static async createOfframpQuote(
+    quoteData: Omit<OfframpQuoteRecord, 'created_at' | 'redeemed_at' | 'order_reference'>
+  ): Promise<OfframpQuoteRecord> {
+    const { data, error } = await supabaseAdmin
+      .from('offramp_quotes')
+      .insert(quoteData)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  static async getOfframpQuote(id: string): Promise<OfframpQuoteRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('offramp_quotes')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  /**
+   * Atomically mark a quote as redeemed. Returns null when another request got there first
+   */
+  static async redeemOfframpQuote(id: string): Promise<OfframpQuoteRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('offramp_quotes')
+      .update({ redeemed_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('redeemed_at', null)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async completeOfframpQuote(id: string, orderReference: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('offramp_quotes')
+      .update({ order_reference: orderReference })
+      .eq('id', id)
+
+    if (error) throw error
+  }
+
+  /**
+   * Make a redeemed quote usable again after the payout it was redeemed for failed to start
+   */
+  static async releaseOfframpQuote(id: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('offramp_quotes')
+      .update({ redeemed_at: null })
+      .eq('id', id)
+      .is('order_reference', null)
+
+    if (error) throw error
+  }
+
+  // Blockradar webhook event store
+  static async storeBlockradarWebhookEvent(eventData: {
+    eventKey: string;
+    event: string;
+    eventType?: string;
+    blockradarTxId?: string;
+    payload: Record<string, unknown>;
+  }): Promise<{ record: BlockradarWebhookEventRecord; isNew: boolean }> {
+    const existing = await this.getBlockradarWebhookEventByKey(eventData.eventKey)
+    if (existing) return { record: existing, isNew: false }
+
+    const { data, error } = await supabaseAdmin
+      .from('blockradar_webhook_events')
+      .insert({
+        event_key: eventData.eventKey,
+        event: eventData.event,
+        event_type: eventData.eventType,
+        blockradar_tx_id: eventData.blockradarTxId,
+        payload: eventData.payload
+      })
+      .select()
+      .single()
+
+    // Lost a race with a concurrent delivery of the same event
+    if (error?.code === '23505') {
+      const record = await this.getBlockradarWebhookEventByKey(eventData.eventKey)
+      if (record) return { record, isNew: false }
+    }
+    if (error) throw error
+    return { record: data, isNew: true }
+  }
+
+  static async getBlockradarWebhookEventByKey(eventKey: string): Promise<BlockradarWebhookEventRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('blockradar_webhook_events')
+      .select('*')
+      .eq('event_key', eventKey)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async getBlockradarWebhookEvent(eventId: string): Promise<BlockradarWebhookEventRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('blockradar_webhook_events')
+      .select('*')
+      .eq('id', eventId)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async getBlockradarWebhookEvents(status?: BlockradarWebhookEventRecord['processing_status'], limit = 50): Promise<BlockradarWebhookEventRecord[]> {
+    let query = supabaseAdmin
+      .from('blockradar_webhook_events')
+      .select('*')
+      .order('received_at', { ascending: false })
+      .limit(limit)
+
+    if (status) query = query.eq('processing_status', status)
+
+    const { data, error } = await query
+    if (error) throw error
+    return data || []
+  }
+
+  static async updateBlockradarWebhookEventStatus(
+    record: BlockradarWebhookEventRecord,
+    processingStatus: BlockradarWebhookEventRecord['processing_status'],
+    outcome: { result?: Record<string, unknown>; error?: string } = {}
+  ): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('blockradar_webhook_events')
+      .update({
+        processing_status: processingStatus,
+        attempts: record.attempts + 1,
+        result: outcome.result,
+        last_error: outcome.error ?? null,
+        processed_at: new Date().toISOString()
+      })
+      .eq('id', record.id)
+
+    if (error) throw error
+  }
+
+  // Provider-agnostic order lifecycle log (status changes, failovers, refunds)
+  static async logOrderStatusHistory(entry: {
+    provider: OrderStatusHistoryEntry['provider']
+    orderId?: string
+    providerOrderId: string
+    event: string
+    oldStatus?: string
+    newStatus?: string
+    providerStatus?: string
+    reason?: string
+    details?: Record<string, unknown>
+  }): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('order_status_history')
+      .insert({
+        provider: entry.provider,
+        order_id: entry.orderId,
+        provider_order_id: entry.providerOrderId,
+        event: entry.event,
+        old_status: entry.oldStatus,
+        new_status: entry.newStatus,
+        provider_status: entry.providerStatus,
+        reason: entry.reason,
+        details: entry.details,
+      })
+
+    if (error) throw error
+  }
+
+  private static async logRejectedTransition(
+    provider: OrderStatusHistoryEntry['provider'],
+    orderId: string,
+    providerOrderId: string,
+    oldStatus: string,
+    newStatus: string,
+    providerStatus?: string
+  ): Promise<void> {
+    console.warn('Rejected order status transition:', { provider, providerOrderId, oldStatus, newStatus, providerStatus })
+
+    await this.logOrderStatusHistory({
+      provider,
+      orderId,
+      providerOrderId,
+      event: 'transition_rejected',
+      oldStatus,
+      newStatus,
+      providerStatus,
+      reason: `${oldStatus} → ${newStatus} is not an allowed transition`,
+    }).catch((error) => console.error('Failed to log rejected transition:', error))
+  }
+
+  static async getOrderStatusHistory(providerOrderId: string): Promise<OrderStatusHistoryEntry[]> {
+    const { data, error } = await supabaseAdmin
+      .from('order_status_history')
+      .select('*')
+      .eq('provider_order_id', providerOrderId)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Everything stored for one payment correlation ID - the admin timeline orders it by time
+  static async getCorrelationRecords(correlationId: string): Promise<CorrelationRecords> {
+    const [quotesResult, pretiumResult, paycrestResult, analyticsResult] = await Promise.all([
+      supabaseAdmin.from('offramp_quotes').select('*').eq('correlation_id', correlationId),
+      supabaseAdmin.from('pretium_orders').select('*').eq('correlation_id', correlationId),
+      supabaseAdmin.from('orders').select('*').eq('correlation_id', correlationId),
+      supabaseAdmin.from('analytics_events').select('*').eq('event_data->>correlation_id', correlationId).limit(200),
+    ])
+
+    for (const result of [quotesResult, pretiumResult, paycrestResult, analyticsResult]) {
+      if (result.error) throw result.error
+    }
+
+    const pretiumOrders: PretiumOrder[] = pretiumResult.data || []
+    const paycrestOrders: Order[] = paycrestResult.data || []
+    const transactionCodes = pretiumOrders.map((order) => order.transaction_code)
+    const paycrestOrderIds = paycrestOrders.map((order) => order.paycrest_order_id)
+    const providerOrderIds = [...transactionCodes, ...paycrestOrderIds]
+
+    const [historyResult, pretiumWebhookResult, paycrestWebhookResult] = await Promise.all([
+      providerOrderIds.length > 0
+        ? supabaseAdmin.from('order_status_history').select('*').in('provider_order_id', providerOrderIds)
+        : { data: [], error: null },
+      transactionCodes.length > 0
+        ? supabaseAdmin.from('pretium_webhook_events').select('*').in('transaction_code', transactionCodes)
+        : { data: [], error: null },
+      paycrestOrderIds.length > 0
+        ? supabaseAdmin.from('webhook_events').select('*').in('paycrest_order_id', paycrestOrderIds)
+        : { data: [], error: null },
+    ])
+
+    for (const result of [historyResult, pretiumWebhookResult, paycrestWebhookResult]) {
+      if (result.error) throw result.error
+    }
+
+    return {
+      quotes: quotesResult.data || [],
+      pretiumOrders,
+      paycrestOrders,
+      statusHistory: historyResult.data || [],
+      pretiumWebhookEvents: pretiumWebhookResult.data || [],
+      paycrestWebhookEvents: paycrestWebhookResult.data || [],
+      analyticsEvents: analyticsResult.data || [],
+    }
+  }
+
+  // Claim a failed Pretium order for failover. Only one caller gets true, however many
+  // deliveries race; linkFailoverOrder replaces the marker with the PayCrest order ID
+  static async claimPretiumFailover(transactionCode: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('pretium_orders')
+      .update({ failover_order_id: FAILOVER_CLAIM_MARKER, updated_at: new Date().toISOString() })
+      .eq('transaction_code', transactionCode)
+      .eq('status', 'failed')
+      .is('failover_order_id', null)
+      .select('id')
+
+    if (error) throw error
+    return (data?.length ?? 0) > 0
+  }
+
+  // Release a failover claim that did not re-route the payout
+  static async releasePretiumFailover(transactionCode: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('pretium_orders')
+      .update({ failover_order_id: null, updated_at: new Date().toISOString() })
+      .eq('transaction_code', transactionCode)
+      .eq('failover_order_id', FAILOVER_CLAIM_MARKER)
+
+    if (error) throw error
+  }
+
+  // Link a failed Pretium order to the PayCrest order that re-routes its payout
+  static async linkFailoverOrder(transactionCode: string, paycrestOrderId: string): Promise<void> {
+    const now = new Date().toISOString()
+
+    const [pretiumResult, paycrestResult] = await Promise.all([
+      supabaseAdmin
+        .from('pretium_orders')
+        .update({ failover_order_id: paycrestOrderId, failover_at: now, updated_at: now })
+        .eq('transaction_code', transactionCode),
+      supabaseAdmin
+        .from('orders')
+        .update({ failover_from_transaction_code: transactionCode, updated_at: now })
+        .eq('paycrest_order_id', paycrestOrderId),
+    ])
+
+    if (pretiumResult.error) throw pretiumResult.error
+    if (paycrestResult.error) throw paycrestResult.error
+  }
+
+  static async getOrderByFailoverSource(transactionCode: string): Promise<Order | null> {
+    const { data, error } = await supabaseAdmin
+      .from('orders')
+      .select('*')
+      .eq('failover_from_transaction_code', transactionCode)
+      .limit(1)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  // Refund cases - returns the existing case when one is already open for the order
+  static async createRefund(refundData: {
+    pretiumTransactionCode?: string
+    paycrestOrderId?: string
+    pretiumOrderId?: string
+    orderId?: string
+    walletAddress: string
+    amountUsdc: number
+    currency?: string
+    fid?: number
+    reason: string
+    source?: Refund['source']
+    createdBy?: string
+  }): Promise<Refund> {
+    const { data, error } = await supabaseAdmin
+      .from('refunds')
+      .insert({
+        pretium_transaction_code: refundData.pretiumTransactionCode,
+        paycrest_order_id: refundData.paycrestOrderId,
+        pretium_order_id: refundData.pretiumOrderId,
+        order_id: refundData.orderId,
+        wallet_address: refundData.walletAddress,
+        amount_usdc: refundData.amountUsdc,
+        currency: refundData.currency,
+        fid: refundData.fid,
+        reason: refundData.reason,
+        source: refundData.source || 'failover',
+        created_by: refundData.createdBy,
+      })
+      .select()
+      .single()
+
+    if (error?.code === '23505') {
+      const existing = refundData.pretiumTransactionCode
+        ? await this.getRefundByPretiumTransactionCode(refundData.pretiumTransactionCode)
+        : null
+      if (existing) return existing
+
+      const existingPaycrest = refundData.paycrestOrderId
+        ? await this.getRefundByPaycrestOrderId(refundData.paycrestOrderId)
+        : null
+      if (existingPaycrest) return existingPaycrest
+    }
+
+    if (error) throw error
+    return data
+  }
+
+  static async getRefund(refundId: string): Promise<Refund | null> {
+    const { data, error } = await supabaseAdmin
+      .from('refunds')
+      .select('*')
+      .eq('id', refundId)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async getRefundByPretiumTransactionCode(transactionCode: string): Promise<Refund | null> {
+    const { data, error } = await supabaseAdmin
+      .from('refunds')
+      .select('*')
+      .eq('pretium_transaction_code', transactionCode)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async getRefundByPaycrestOrderId(paycrestOrderId: string): Promise<Refund | null> {
+    const { data, error } = await supabaseAdmin
+      .from('refunds')
+      .select('*')
+      .eq('paycrest_order_id', paycrestOrderId)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async getRefundByTxHash(txHash: string): Promise<Refund | null> {
+    const { data, error } = await supabaseAdmin
+      .from('refunds')
+      .select('*')
+      .ilike('tx_hash', txHash)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async getRefunds(filters: { status?: Refund['status'][]; walletAddress?: string; limit?: number } = {}): Promise<Refund[]> {
+    let query = supabaseAdmin
+      .from('refunds')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(filters.limit || 50)
+
+    if (filters.status && filters.status.length > 0) {
+      query = query.in('status', filters.status)
+    }
+    if (filters.walletAddress) {
+      query = query.ilike('wallet_address', filters.walletAddress)
+    }
+
+    const { data, error } = await query
+    if (error) throw error
+    return data || []
+  }
+
+  // Guarded status change - only applies when the refund is still in one of fromStatuses,
+  // so two admins (or an admin and a webhook) cannot both move the same case
+  static async transitionRefund(
+    refundId: string,
+    fromStatuses: Refund['status'][],
+    updates: { [K in keyof Omit<Refund, 'id' | 'created_at' | 'updated_at'>]?: Refund[K] | null }
+  ): Promise<Refund | null> {
+    const { data, error } = await supabaseAdmin
+      .from('refunds')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', refundId)
+      .in('status', fromStatuses)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  // Risk screening deny-list entries matching any of the given values
+  static async findRiskDenyListEntries(values: string[]): Promise<RiskDenyListEntry[]> {
+    if (values.length === 0) return []
+
+    const { data, error } = await supabaseAdmin
+      .from('risk_deny_list')
+      .select('*')
+      .in('value', values)
+
+    if (error) throw error
+    return data || []
+  }
+
+  static async addRiskDenyListEntry(entry: {
+    type: RiskDenyListEntry['type']
+    value: string
+    reason?: string
+    createdBy?: string
+  }): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('risk_deny_list')
+      .upsert({
+        type: entry.type,
+        value: entry.value,
+        reason: entry.reason,
+        created_by: entry.createdBy,
+      }, { onConflict: 'type,value', ignoreDuplicates: true })
+
+    if (error) throw error
+  }
+
+  // Hold a payout for review. A deposit can only be held once - a retry returns the existing review
+  static async createPayoutReview(reviewData: {
+    provider: PayoutReview['provider']
+    walletAddress: string
+    currency: string
+    amountUsdc: number
+    quoteId?: string
+    transactionHash?: string
+    recipientHash?: string
+    payoutRequest: Record<string, unknown>
+    signals: PayoutReview['signals']
+    correlationId?: string
+  }): Promise<PayoutReview> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_reviews')
+      .insert({
+        provider: reviewData.provider,
+        wallet_address: reviewData.walletAddress,
+        currency: reviewData.currency,
+        amount_usdc: reviewData.amountUsdc,
+        quote_id: reviewData.quoteId,
+        transaction_hash: reviewData.transactionHash,
+        recipient_hash: reviewData.recipientHash,
+        payout_request: reviewData.payoutRequest,
+        signals: reviewData.signals,
+        correlation_id: reviewData.correlationId,
+      })
+      .select()
+      .single()
+
+    if (error?.code === '23505' && reviewData.transactionHash) {
+      const { data: existing } = await supabaseAdmin
+        .from('payout_reviews')
+        .select('*')
+        .ilike('transaction_hash', reviewData.transactionHash)
+        .maybeSingle()
+      if (existing) return existing
+    }
+
+    if (error) throw error
+    return data
+  }
+
+  static async getPayoutReview(reviewId: string): Promise<PayoutReview | null> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_reviews')
+      .select('*')
+      .eq('id', reviewId)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async getPayoutReviews(filters: { status?: PayoutReview['status'][]; limit?: number } = {}): Promise<PayoutReview[]> {
+    let query = supabaseAdmin
+      .from('payout_reviews')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(filters.limit || 50)
+
+    if (filters.status && filters.status.length > 0) {
+      query = query.in('status', filters.status)
+    }
+
+    const { data, error } = await query
+    if (error) throw error
+    return data || []
+  }
+
+  // Guarded status change, like transitionRefund - two admins cannot both decide the same review
+  static async transitionPayoutReview(
+    reviewId: string,
+    fromStatuses: PayoutReview['status'][],
+    updates: { [K in keyof Omit<PayoutReview, 'id' | 'created_at' | 'updated_at'>]?: PayoutReview[K] | null }
+  ): Promise<PayoutReview | null> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_reviews')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', reviewId)
+      .in('status', fromStatuses)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  // Whether an admin cleared this wallet and recipient since a timestamp
+  static async hasApprovedPayoutReview(walletAddress: string, recipientHash: string | undefined, since: string): Promise<boolean> {
+    let query = supabaseAdmin
+      .from('payout_reviews')
+      .select('id')
+      .eq('status', 'approved')
+      .ilike('wallet_address', walletAddress)
+      .gte('reviewed_at', since)
+      .limit(1)
+
+    query = recipientHash ? query.eq('recipient_hash', recipientHash) : query.is('recipient_hash', null)
+
+    const { data, error } = await query
+    if (error) throw error
+    return (data || []).length > 0
+  }
+
+  static async getRecipients(ownerId: string, currency?: string): Promise<RecipientRecord[]> {
+    let query = supabaseAdmin
+      .from('recipients')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .order('is_favorite', { ascending: false })
+      .order('use_count', { ascending: false })
+      .order('last_used_at', { ascending: false, nullsFirst: false })
+
+    if (currency) {
+      query = query.eq('currency', currency)
+    }
+
+    const { data, error } = await query
+    if (error) throw error
+    return data || []
+  }
+
+  static async getRecipientByHash(ownerId: string, recipientHash: string): Promise<RecipientRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('recipients')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .eq('recipient_hash', recipientHash)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async createRecipient(recipientData: Omit<RecipientRecord, 'id' | 'created_at' | 'updated_at'>): Promise<RecipientRecord> {
+    const { data, error } = await supabaseAdmin
+      .from('recipients')
+      .insert(recipientData)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  // Scoped to the owner, so one user cannot change another's recipients by ID
+  static async updateRecipient(
+    ownerId: string,
+    recipientId: string,
+    updates: { [K in keyof Omit<RecipientRecord, 'id' | 'owner_id' | 'created_at' | 'updated_at'>]?: RecipientRecord[K] | null }
+  ): Promise<RecipientRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('recipients')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', recipientId)
+      .eq('owner_id', ownerId)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async deleteRecipient(ownerId: string, recipientId: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('recipients')
+      .delete()
+      .eq('id', recipientId)
+      .eq('owner_id', ownerId)
+      .select('id')
+
+    if (error) throw error
+    return (data || []).length > 0
+  }
+
+  // Batch and rows are written together - the batch is removed again if its rows cannot be
+  static async createPayoutBatch(
+    batchData: Omit<PayoutBatchRecord, 'id' | 'status' | 'created_at' | 'updated_at'>,
+    rows: Omit<PayoutBatchRowRecord, 'id' | 'batch_id' | 'status' | 'created_at' | 'updated_at'>[]
+  ): Promise<{ batch: PayoutBatchRecord; rows: PayoutBatchRowRecord[] }> {
+    const { data: batch, error } = await supabaseAdmin
+      .from('payout_batches')
+      .insert(batchData)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    const { data: batchRows, error: rowsError } = await supabaseAdmin
+      .from('payout_batch_rows')
+      .insert(rows.map((row) => ({ ...row, batch_id: batch.id })))
+      .select()
+
+    if (rowsError) {
+      await supabaseAdmin.from('payout_batches').delete().eq('id', batch.id)
+      throw rowsError
+    }
+
+    return { batch, rows: (batchRows || []).sort((a, b) => a.row_index - b.row_index) }
+  }
+
+  static async getPayoutBatch(batchId: string): Promise<PayoutBatchRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_batches')
+      .select('*')
+      .eq('id', batchId)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async getPayoutBatchesByWallet(walletAddress: string, limit = 20): Promise<PayoutBatchRecord[]> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_batches')
+      .select('*')
+      .ilike('wallet_address', walletAddress)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Funded batches with rows still to pay out, oldest first
+  static async getProcessingPayoutBatches(limit = 10): Promise<PayoutBatchRecord[]> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_batches')
+      .select('*')
+      .eq('status', 'processing')
+      .order('funded_at', { ascending: true })
+      .limit(limit)
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Guarded status change, like transitionRefund. A deposit hash already used by
+  // another batch fails with the unique violation (23505)
+  static async transitionPayoutBatch(
+    batchId: string,
+    fromStatuses: PayoutBatchRecord['status'][],
+    updates: { [K in keyof Omit<PayoutBatchRecord, 'id' | 'created_at' | 'updated_at'>]?: PayoutBatchRecord[K] | null }
+  ): Promise<PayoutBatchRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_batches')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', batchId)
+      .in('status', fromStatuses)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async getPayoutBatchRows(batchId: string): Promise<PayoutBatchRowRecord[]> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_batch_rows')
+      .select('*')
+      .eq('batch_id', batchId)
+      .order('row_index', { ascending: true })
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Guarded status change - two processors cannot both claim the same row
+  static async transitionPayoutBatchRow(
+    rowId: string,
+    fromStatuses: PayoutBatchRowRecord['status'][],
+    updates: { [K in keyof Omit<PayoutBatchRowRecord, 'id' | 'batch_id' | 'created_at' | 'updated_at'>]?: PayoutBatchRowRecord[K] | null }
+  ): Promise<PayoutBatchRowRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_batch_rows')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', rowId)
+      .in('status', fromStatuses)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async getPretiumOrdersByTransactionCodes(transactionCodes: string[]): Promise<PretiumOrder[]> {
+    if (transactionCodes.length === 0) return []
+
+    const { data, error } = await supabaseAdmin
+      .from('pretium_orders')
+      .select('*')
+      .in('transaction_code', transactionCodes)
+
+    if (error) throw error
+    return data || []
+  }
+
+  static async getRecipientById(ownerId: string, recipientId: string): Promise<RecipientRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('recipients')
+      .select('*')
+      .eq('id', recipientId)
+      .eq('owner_id', ownerId)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async createPayoutSchedule(
+    scheduleData: Omit<PayoutScheduleRecord, 'id' | 'status' | 'created_at' | 'updated_at'>
+  ): Promise<PayoutScheduleRecord> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_schedules')
+      .insert(scheduleData)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  static async getPayoutSchedule(scheduleId: string): Promise<PayoutScheduleRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_schedules')
+      .select('*')
+      .eq('id', scheduleId)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async getPayoutSchedulesByOwner(ownerId: string): Promise<PayoutScheduleRecord[]> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_schedules')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Scoped to the owner, like updateRecipient
+  static async updatePayoutSchedule(
+    ownerId: string,
+    scheduleId: string,
+    updates: { [K in keyof Omit<PayoutScheduleRecord, 'id' | 'owner_id' | 'created_at' | 'updated_at'>]?: PayoutScheduleRecord[K] | null }
+  ): Promise<PayoutScheduleRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_schedules')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', scheduleId)
+      .eq('owner_id', ownerId)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async deletePayoutSchedule(ownerId: string, scheduleId: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_schedules')
+      .delete()
+      .eq('id', scheduleId)
+      .eq('owner_id', ownerId)
+      .select('id')
+
+    if (error) throw error
+    return (data || []).length > 0
+  }
+
+  // Active schedules whose next run is due, most overdue first
+  static async getDuePayoutSchedules(now: string, limit = 50): Promise<PayoutScheduleRecord[]> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_schedules')
+      .select('*')
+      .eq('status', 'active')
+      .lte('next_run_at', now)
+      .order('next_run_at', { ascending: true })
+      .limit(limit)
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Move an active schedule on to its next run. Guarded on the run being claimed,
+  // so two scheduler passes cannot both start it
+  static async advancePayoutSchedule(
+    scheduleId: string,
+    claimedRunAt: string,
+    nextRunAt: string
+  ): Promise<PayoutScheduleRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_schedules')
+      .update({ next_run_at: nextRunAt, last_run_at: claimedRunAt, updated_at: new Date().toISOString() })
+      .eq('id', scheduleId)
+      .eq('status', 'active')
+      .eq('next_run_at', claimedRunAt)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async createPayoutScheduleRun(
+    runData: Omit<PayoutScheduleRunRecord, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<PayoutScheduleRunRecord> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_schedule_runs')
+      .insert(runData)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  static async getPayoutScheduleRuns(scheduleId: string, limit = 20): Promise<PayoutScheduleRunRecord[]> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_schedule_runs')
+      .select('*')
+      .eq('schedule_id', scheduleId)
+      .order('scheduled_for', { ascending: false })
+      .limit(limit)
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Custodial runs whose withdrawal was sent but not yet disbursed, oldest first
+  static async getFundingPayoutScheduleRuns(limit = 20): Promise<PayoutScheduleRunRecord[]> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_schedule_runs')
+      .select('*')
+      .eq('status', 'funding')
+      .order('created_at', { ascending: true })
+      .limit(limit)
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Guarded status change, like transitionPayoutBatchRow
+  static async transitionPayoutScheduleRun(
+    runId: string,
+    fromStatuses: PayoutScheduleRunRecord['status'][],
+    updates: { [K in keyof Omit<PayoutScheduleRunRecord, 'id' | 'schedule_id' | 'created_at' | 'updated_at'>]?: PayoutScheduleRunRecord[K] | null }
+  ): Promise<PayoutScheduleRunRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('payout_schedule_runs')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', runId)
+      .in('status', fromStatuses)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  // The Minisend (Blockradar) wallet of a saved-recipients owner: a Privy user ID or a wallet address
+  static async getCustodialWalletForOwner(ownerId: string): Promise<{ minisend_wallet: string; blockradar_address_id: string } | null> {
+    let query = supabaseAdmin
+      .from('minisend_users')
+      .select('minisend_wallet, blockradar_address_id')
+      .not('blockradar_address_id', 'is', null)
+      .not('minisend_wallet', 'is', null)
+
+    query = ownerId.startsWith('did:privy:')
+      ? query.eq('user_id', ownerId)
+      : query.ilike('minisend_wallet', ownerId)
+
+    const { data, error } = await query.limit(1).maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async createRateAlert(
+    alertData: Omit<RateAlertRecord, 'id' | 'status' | 'created_at' | 'updated_at'>
+  ): Promise<RateAlertRecord> {
+    const { data, error } = await supabaseAdmin
+      .from('rate_alerts')
+      .insert(alertData)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  static async getRateAlertsByOwner(ownerId: string): Promise<RateAlertRecord[]> {
+    const { data, error } = await supabaseAdmin
+      .from('rate_alerts')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Scoped to the owner, like updatePayoutSchedule
+  static async updateRateAlert(
+    ownerId: string,
+    alertId: string,
+    updates: { [K in keyof Omit<RateAlertRecord, 'id' | 'owner_id' | 'created_at' | 'updated_at'>]?: RateAlertRecord[K] | null }
+  ): Promise<RateAlertRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('rate_alerts')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', alertId)
+      .eq('owner_id', ownerId)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async deleteRateAlert(ownerId: string, alertId: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from('rate_alerts')
+      .delete()
+      .eq('id', alertId)
+      .eq('owner_id', ownerId)
+      .select('id')
+
+    if (error) throw error
+    return (data || []).length > 0
+  }
+
+  static async getActiveRateAlerts(limit = 500): Promise<RateAlertRecord[]> {
+    const { data, error } = await supabaseAdmin
+      .from('rate_alerts')
+      .select('*')
+      .eq('status', 'active')
+      .order('created_at', { ascending: true })
+      .limit(limit)
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Record the rate a check saw on active alerts that did not fire
+  static async recordRateAlertChecks(alertIds: string[], rate: number, checkedAt: string): Promise<void> {
+    if (alertIds.length === 0) return
+
+    const { error } = await supabaseAdmin
+      .from('rate_alerts')
+      .update({ last_rate: rate, last_checked_at: checkedAt })
+      .in('id', alertIds)
+      .eq('status', 'active')
+
+    if (error) throw error
+  }
+
+  static async getRateAlertByEmailConfirmationToken(token: string): Promise<RateAlertRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('rate_alerts')
+      .select('*')
+      .eq('email_confirmation_token', token)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  // Confirms the address on every alert of the owner that uses it
+  static async confirmRateAlertEmail(ownerId: string, email: string): Promise<void> {
+    const now = new Date().toISOString()
+    const { error } = await supabaseAdmin
+      .from('rate_alerts')
+      .update({ email_confirmed_at: now, email_confirmation_token: null, updated_at: now })
+      .eq('owner_id', ownerId)
+      .eq('email', email)
+      .is('email_confirmed_at', null)
+
+    if (error) throw error
+  }
+
+  // Guarded status change, so two checker passes cannot both fire an alert
+  static async transitionRateAlert(
+    alertId: string,
+    fromStatus: RateAlertRecord['status'],
+    updates: { [K in keyof Omit<RateAlertRecord, 'id' | 'owner_id' | 'created_at' | 'updated_at'>]?: RateAlertRecord[K] | null }
+  ): Promise<RateAlertRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('rate_alerts')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', alertId)
+      .eq('status', fromStatus)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async getNotificationPreferences(ownerId: string): Promise<NotificationPreferencesRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('notification_preferences')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  // Most recently saved first, when one FID has preferences under several owners
+  static async getNotificationPreferencesByFids(fids: number[]): Promise<NotificationPreferencesRecord[]> {
+    if (fids.length === 0) return []
+
+    const { data, error } = await supabaseAdmin
+      .from('notification_preferences')
+      .select('*')
+      .in('fid', fids)
+      .order('updated_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Every Farcaster user who saved preferences, paged past the 1000-row response cap
+  static async getFarcasterNotificationPreferences(): Promise<NotificationPreferencesRecord[]> {
+    const PAGE_SIZE = 1000
+    const rows: NotificationPreferencesRecord[] = []
+
+    for (let page = 0; ; page++) {
+      const { data, error } = await supabaseAdmin
+        .from('notification_preferences')
+        .select('*')
+        .not('fid', 'is', null)
+        .order('id')
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1)
+
+      if (error) throw error
+      rows.push(...(data || []))
+      if (!data || data.length < PAGE_SIZE) return rows
+    }
+  }
+
+  static async upsertNotificationPreferences(
+    preferences: Omit<NotificationPreferencesRecord, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<NotificationPreferencesRecord> {
+    const { data, error } = await supabaseAdmin
+      .from('notification_preferences')
+      .upsert({ ...preferences, updated_at: new Date().toISOString() }, { onConflict: 'owner_id' })
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  static async createOnrampOrder(
+    orderData: Omit<OnrampOrderRecord, 'id' | 'status' | 'created_at' | 'updated_at'>
+  ): Promise<OnrampOrderRecord> {
+    const { data, error } = await supabaseAdmin
+      .from('onramp_orders')
+      .insert(orderData)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  static async getOnrampOrderByTransactionCode(transactionCode: string): Promise<OnrampOrderRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('onramp_orders')
+      .select('*')
+      .eq('transaction_code', transactionCode)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async getOnrampOrdersByWallet(walletAddress: string, limit = 20): Promise<OnrampOrderRecord[]> {
+    const { data, error } = await supabaseAdmin
+      .from('onramp_orders')
+      .select('*')
+      .eq('wallet_address', walletAddress.toLowerCase())
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) throw error
+    return data || []
+  }
+
+  // Guarded status change - a late or replayed webhook cannot move an order backwards
+  static async transitionOnrampOrder(
+    transactionCode: string,
+    fromStatuses: OnrampOrderRecord['status'][],
+    updates: { [K in keyof Omit<OnrampOrderRecord, 'id' | 'transaction_code' | 'created_at' | 'updated_at'>]?: OnrampOrderRecord[K] | null }
+  ): Promise<OnrampOrderRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('onramp_orders')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('transaction_code', transactionCode)
+      .in('status', fromStatuses)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  // Custodial users hold a Minisend (Blockradar) wallet - returns its address ID
+  static async getBlockradarAddressIdForWallet(walletAddress: string): Promise<string | null> {
+    const { data, error } = await supabaseAdmin
+      .from('minisend_users')
+      .select('blockradar_address_id')
+      .ilike('minisend_wallet', walletAddress)
+      .not('blockradar_address_id', 'is', null)
+      .limit(1)
+      .maybeSingle()
+
+    if (error) throw error
+    return data?.blockradar_address_id || null
+  }
+
+  // Stuck-order reconciliation - non-final orders created in [createdAfter, createdBefore),
+  // least recently checked first
+  static async getUnresolvedOrdersForReconciliation(
+    provider: 'pretium' | 'paycrest',
+    createdAfter: string,
+    createdBefore: string,
+    limit = 25
+  ): Promise<(PretiumOrder | Order)[]> {
+    const { data, error } = await supabaseAdmin
+      .from(provider === 'pretium' ? 'pretium_orders' : 'orders')
+      .select('*')
+      .in('status', ['pending', 'processing'])
+      .gte('created_at', createdAfter)
+      .lt('created_at', createdBefore)
+      .order('last_reconciled_at', { ascending: true, nullsFirst: true })
+      .order('created_at', { ascending: true })
+      .limit(limit)
+
+    if (error) throw error
+    return data || []
+  }
+
+  static async recordReconcileAttempt(
+    provider: 'pretium' | 'paycrest',
+    id: string,
+    attempts: number,
+    flagReason?: string
+  ): Promise<void> {
+    const now = new Date().toISOString()
+    const updateData: Record<string, unknown> = {
+      reconcile_attempts: attempts,
+      last_reconciled_at: now,
+    }
+
+    if (flagReason) {
+      updateData.flagged_at = now
+      updateData.flag_reason = flagReason
+    }
+
+    const { error } = await supabaseAdmin
+      .from(provider === 'pretium' ? 'pretium_orders' : 'orders')
+      .update(updateData)
+      .eq('id', id)
+
+    if (error) throw error
+  }
+
+  // Completed vs failed payouts per provider for a currency since a timestamp - feeds off-ramp routing
+  static async getOfframpProviderOutcomes(currency: string, since: string): Promise<Record<'pretium' | 'paycrest', { completed: number; failed: number }>> {
+    const [pretiumResult, paycrestResult] = await Promise.all([
+      supabaseAdmin
+        .from('pretium_orders')
+        .select('status')
+        .eq('local_currency', currency)
+        .gte('created_at', since),
+      supabaseAdmin
+        .from('orders')
+        .select('status')
+        .eq('local_currency', currency)
+        .gte('created_at', since),
+    ])
+
+    if (pretiumResult.error) throw pretiumResult.error
+    if (paycrestResult.error) throw paycrestResult.error
+
+    const count = (rows: { status: string }[]) => {
+      const outcome = { completed: 0, failed: 0 }
+      for (const row of rows) {
+        const normalized = this.normalizePaycrestStatus(row.status)
+        if (normalized === 'completed') outcome.completed++
+        else if (normalized === 'failed') outcome.failed++
+      }
+      return outcome
+    }
+
+    return {
+      pretium: count(pretiumResult.data || []),
+      paycrest: count(paycrestResult.data || []),
+    }
+  }
+
+  // A wallet's payouts that count against transaction limits - failed, cancelled,
+  // refunded and expired orders are left out. Most recent first
+  static async getWalletPayoutHistory(walletAddress: string, since: string, limit = 1000): Promise<WalletPayoutRecord[]> {
+    const columns = 'amount_in_usdc, local_currency, created_at, phone_number, till_number, paybill_number, paybill_account, account_number, bank_code'
+
+    const [pretiumResult, paycrestResult] = await Promise.all([
+      supabaseAdmin
+        .from('pretium_orders')
+        .select(columns)
+        .ilike('wallet_address', walletAddress)
+        .gte('created_at', since)
+        .not('status', 'in', '(failed,cancelled)')
+        .order('created_at', { ascending: false })
+        .limit(limit),
+      supabaseAdmin
+        .from('orders')
+        .select(columns)
+        .ilike('wallet_address', walletAddress)
+        .gte('created_at', since)
+        .not('status', 'in', '(failed,cancelled,refunded,expired)')
+        .order('created_at', { ascending: false })
+        .limit(limit),
+    ])
+
+    if (pretiumResult.error) throw pretiumResult.error
+    if (paycrestResult.error) throw paycrestResult.error
+
+    return [...(pretiumResult.data || []), ...(paycrestResult.data || [])]
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+  }
+
+  // Transaction limits edited from the dashboard - null until an admin first saves them
+  static async getTransactionLimitSettings(): Promise<TransactionLimitSettingsRecord | null> {
+    const { data, error } = await supabaseAdmin
+      .from('transaction_limit_settings')
+      .select('*')
+      .eq('id', 'default')
+      .maybeSingle()
+
+    if (error) throw error
+    return data
+  }
+
+  static async saveTransactionLimitSettings(
+    settings: TransactionLimitSettingsRecord['settings'],
+    updatedBy: string
+  ): Promise<TransactionLimitSettingsRecord> {
+    const { data, error } = await supabaseAdmin
+      .from('transaction_limit_settings')
+      .upsert({
+        id: 'default',
+        settings,
+        updated_by: updatedBy,
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  // Unified method to get all orders (both Pretium and PayCrest) for a wallet
+  static async getOrdersByWalletAddress(walletAddress: string, limit = 100): Promise<(Order | PretiumOrder)[]> {
+    // Fetch both Pretium orders and PayCrest orders
+    const pretiumOrders = await this.getPretiumOrdersByWalletAddress(walletAddress, limit);
+    const paycrestOrders = await this.getOrdersByWallet(walletAddress, limit);
+
+    // Combine and return
+    const allOrders = [...pretiumOrders, ...paycrestOrders];
+    return allOrders;
+  }
+
+  // Legacy compatibility method - checks both old and new tables
+  static async getOrderByPretiumTransactionCode(transactionCode: string): Promise<Order | PretiumOrder | null> {
+    // First try new pretium_orders table
+    const pretiumOrder = await this.getPretiumOrderByTransactionCode(transactionCode);
+    if (pretiumOrder) return pretiumOrder;
+
+    // Fall back to old orders table for legacy data
+    const { data, error } = await supabaseAdmin
+      .from('orders')
+      .select('*')
+      .eq('pretium_transaction_code', transactionCode)
+      .single()
+
+    if (error && error.code !== 'PGRST116') throw error
+    return data
+  }
+
+  // Dashboard query methods
+  static async getDashboardStats() {
+    // Fetch all orders using pagination (Supabase defaults to 1000 row limit)
+    const PAGE_SIZE = 1000;
+    let allOrders: PretiumOrder[] = [];
+    let page = 0;
+    let hasMore = true;
+
+    while (hasMore) {
+      const from = page * PAGE_SIZE;
+      const to = from + PAGE_SIZE - 1;
+      const { data, error } = await supabaseAdmin
+        .from('pretium_orders')
+        .select('*')
+        .range(from, to)
+
+      if (error) throw error
+
+      const rows = data || [];
+      allOrders = allOrders.concat(rows);
+
+      if (rows.length < PAGE_SIZE) {
+        hasMore = false;
+      }
+      page++;
+    }
+
+    const orders = allOrders;
+    const totalOrders = orders.length;
+    const completedOrders = orders.filter(o => o.status === 'completed').length;
+    const failedOrders = orders.filter(o => o.status === 'failed').length;
+    const pendingOrders = orders.filter(o => o.status === 'pending' || o.status === 'processing').length;
+
+    const now = new Date();
+    const thirtyMinsAgo = new Date(now.getTime() - 30 * 60 * 1000);
+    const stuckOrders = orders.filter(o =>
+      (o.status === 'pending' || o.status === 'processing') &&
+      new Date(o.created_at) < thirtyMinsAgo
+    ).length;
+
+    const totalUSDCVolume = orders.reduce((sum, o) => sum + (Number(o.amount_in_usdc) || 0), 0);
+    const totalKESVolume = orders.reduce((sum, o) => sum + (Number(o.amount_in_local) || 0), 0);
+    const avgFee = orders.length > 0
+      ? orders.reduce((sum, o) => sum + (Number(o.sender_fee) || 0), 0) / orders.length
+      : 0;
 
     const completedWithTime = orders.filter(o => o.status === 'completed' && o.created_at && o.completed_at);
     const avgCompletionTime = completedWithTime.length > 0
@@ -916,6 +2895,8 @@ export class DatabaseService {
       orderId: order.transaction_code,
       walletAddress: order.wallet_address,
       transactionHash: order.transaction_hash,
+      chain: order.chain || 'BASE',
+      token: order.token || 'USDC',
       status: order.status,
       normalizedStatus: order.status === 'completed' ? 'completed'
         : order.status === 'failed' || order.status === 'cancelled' ? 'failed'
@@ -943,6 +2924,8 @@ export class DatabaseService {
       orderId: order.paycrest_order_id,
       walletAddress: order.wallet_address,
       transactionHash: order.transaction_hash,
+      chain: 'BASE',
+      token: order.token || 'USDC',
       status: order.status,
       normalizedStatus: this.normalizePaycrestStatus(order.status),
       amountInUsdc: Number(order.amount_in_usdc) || 0,
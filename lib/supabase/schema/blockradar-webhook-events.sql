@@ -0,0 +1,34 @@
+-- Blockradar Webhook Event Store
+-- Durable record of every signed Blockradar webhook, so duplicates can be
+-- skipped and missed emails or balance updates can be replayed by an admin.
+
+CREATE TABLE IF NOT EXISTS blockradar_webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Dedup key: "<event>:<data.id>"
+  event_key TEXT NOT NULL UNIQUE,
+  event TEXT NOT NULL,
+  event_type TEXT,
+  blockradar_tx_id TEXT,
+
+  -- Raw delivery
+  payload JSONB NOT NULL,
+
+  -- Processing state
+  processing_status TEXT NOT NULL DEFAULT 'received'
+    CHECK (processing_status IN ('received', 'processed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  result JSONB,
+  last_error TEXT,
+
+  -- Timestamps
+  received_at TIMESTAMPTZ DEFAULT NOW(),
+  processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_blockradar_webhook_events_status ON blockradar_webhook_events(processing_status);
+CREATE INDEX IF NOT EXISTS idx_blockradar_webhook_events_received_at ON blockradar_webhook_events(received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_blockradar_webhook_events_tx_id ON blockradar_webhook_events(blockradar_tx_id);
+
+COMMENT ON TABLE blockradar_webhook_events IS 'Signed Blockradar webhook deliveries with processing status, used for dedup and admin replay';
+COMMENT ON COLUMN blockradar_webhook_events.processing_status IS 'received = stored, not yet handled; processed = handler succeeded; failed = handler threw, eligible for replay';
@@ -0,0 +1,68 @@
+/**
+ * Batch payout types
+ * Shared by the batches API and the batch page - no server imports
+ */
+
+export type BatchCurrency = 'KES' | 'NGN' | 'GHS' | 'UGX';
+
+export type BatchPaymentType = 'MOBILE' | 'BUY_GOODS' | 'PAYBILL' | 'BANK_TRANSFER';
+
+/**
+ * awaiting_deposit → processing → completed | partially_failed | failed
+ */
+export type PayoutBatchStatus = 'awaiting_deposit' | 'processing' | 'completed' | 'partially_failed' | 'failed';
+
+/**
+ * pending → funding (USDC sent to Pretium) → submitting → submitted | review | failed
+ */
+export type PayoutBatchRowStatus = 'pending' | 'funding' | 'submitting' | 'submitted' | 'review' | 'failed';
+
+// One row as uploaded or typed into the grid
+export interface BatchRowInput {
+  accountName: string; // Optional for NGN - the verified bank account name is used
+  currency: BatchCurrency;
+  amount: number; // Local currency the recipient receives
+  paymentType: BatchPaymentType;
+  destination: string; // Phone number, till, paybill or bank account number
+  paybillAccount?: string; // PAYBILL only
+  bankCode?: string; // BANK_TRANSFER only
+}
+
+export interface BatchRowError {
+  index: number;
+  error: string;
+}
+
+export interface PayoutBatchRow {
+  id: string;
+  index: number;
+  currency: BatchCurrency;
+  paymentType: BatchPaymentType;
+  accountName: string;
+  destination: string;
+  paybillAccount?: string;
+  bankName?: string;
+  amountLocal: number;
+  fee: number;
+  amountUSDC: number;
+  rate: number;
+  status: PayoutBatchRowStatus;
+  transactionCode?: string; // Pretium transaction code once submitted - links the receipt
+  orderStatus?: string; // Status of the Pretium order, once submitted
+  receiptNumber?: string;
+  error?: string;
+}
+
+export interface PayoutBatch {
+  id: string;
+  walletAddress: string;
+  status: PayoutBatchStatus;
+  totalUSDC: number;
+  depositAddress: string; // Send exactly totalUSDC here, from walletAddress
+  depositTxHash?: string;
+  quoteExpiresAt: string;
+  fundedAt?: string;
+  completedAt?: string;
+  createdAt: string;
+  rows: PayoutBatchRow[];
+}
@@ -6,6 +6,8 @@ export interface UnifiedOrder {
   orderId: string;
   walletAddress: string;
   transactionHash?: string;
+  chain: string; // Chain the deposit was made on; Paycrest orders are always BASE
+  token: string; // Stablecoin deposited, USDC on orders from before USDT
   status: string;
   normalizedStatus: 'completed' | 'failed' | 'pending' | 'processing';
   amountInUsdc: number;
@@ -80,3 +82,20 @@ export interface UnifiedFilters {
   page?: number;
   limit?: number;
 }
+
+export type TimelineSource = 'quote' | 'order' | 'status' | 'webhook' | 'analytics';
+
+export interface TimelineEvent {
+  at: string;
+  source: TimelineSource;
+  provider?: 'pretium' | 'paycrest';
+  title: string;
+  detail?: string;
+  orderId?: string;
+}
+
+export interface CorrelationTimeline {
+  correlationId: string;
+  orderIds: string[]; // Pretium transaction codes and Paycrest order IDs
+  events: TimelineEvent[];
+}
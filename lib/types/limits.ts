@@ -0,0 +1,49 @@
+// Transaction limits - shared by the limits engine (lib/offramp/limits.ts),
+// the dashboard settings panel and ExchangeFlow
+
+export interface CurrencyAmountLimits {
+  min: number | null; // USDC per transaction
+  max: number | null;
+}
+
+/**
+ * Thresholds edited from the dashboard. null turns a rule off.
+ * Wallet caps and recipient rules use rolling windows ending now
+ */
+export interface TransactionLimitSettings {
+  enabled: boolean;
+  perTransaction: Record<string, CurrencyAmountLimits>; // Keyed by currency, e.g. KES
+  dailyUsdcPerWallet: number | null; // Last 24 hours
+  monthlyUsdcPerWallet: number | null; // Last 30 days
+  newRecipientsPerDay: number | null; // Recipients this wallet had never paid before, last 24 hours
+  velocity: {
+    maxDistinctRecipients: number | null;
+    windowMinutes: number;
+  };
+}
+
+export type LimitRule =
+  | 'below_minimum'
+  | 'above_maximum'
+  | 'daily_cap'
+  | 'monthly_cap'
+  | 'new_recipients_per_day'
+  | 'recipient_velocity';
+
+/**
+ * The `limit` field of a LIMIT_EXCEEDED error response
+ */
+export interface LimitViolation {
+  rule: LimitRule;
+  limit: number; // USDC for amount rules, a count for recipient rules
+  used?: number; // Already used in the rule's window, before this transaction
+  remaining?: number; // What the wallet can still send (USDC) or add (recipients) right now
+  currency?: string;
+  windowMinutes?: number;
+}
+
+export interface TransactionLimitsResponse {
+  settings: TransactionLimitSettings;
+  updatedAt?: string;
+  updatedBy?: string;
+}
@@ -54,7 +54,8 @@ export interface SendNotificationResponse {
   };
 }
 
-export type NotificationStatus = 'success' | 'failed' | 'rate_limited' | 'invalid_token';
+// muted: not sent because of the user's notification preferences (not logged to history)
+export type NotificationStatus = 'success' | 'failed' | 'rate_limited' | 'invalid_token' | 'muted';
 
 export interface NotificationHistory {
   id: string;
@@ -74,6 +75,7 @@ export interface NotificationTemplate {
   title: string;
   body: string;
   targetUrl: string;
+  category?: NotificationCategory; // Checked against the user's preferences, order_status when unset
 }
 
 export type NotificationEvent =
@@ -82,7 +84,8 @@ export type NotificationEvent =
   | 'transaction_validated'
   | 'welcome'
   | 'rate_update'
-  | 'promotion';
+  | 'promotion'
+  | 'refund_completed';
 
 export interface NotificationContext {
   fid: number;
@@ -90,3 +93,35 @@ export interface NotificationContext {
   event: NotificationEvent;
   data?: Record<string, unknown>;
 }
+
+// Notification preferences - what a user wants to hear about, where and when
+
+export type NotificationCategory = 'order_status' | 'rate_alerts' | 'marketing' | 'weekly_summary';
+
+export type NotificationChannel = 'farcaster' | 'email' | 'in_app';
+
+export type NotificationLanguage = 'en' | 'sw' | 'fr';
+
+// Local time window (HH:MM, 24h) with no Farcaster or email notifications except order status
+export interface QuietHours {
+  start: string;
+  end: string; // Before start: the window runs past midnight
+}
+
+export interface NotificationPreferences {
+  channels: Record<NotificationCategory, Record<NotificationChannel, boolean>>;
+  quietHours: QuietHours | null;
+  timeZone: string; // IANA zone the quiet hours are in
+  language: NotificationLanguage;
+  fid?: number; // Farcaster user the preferences apply to
+  updatedAt?: string; // Unset until the user saves - the defaults apply
+}
+
+// What the client sends to save preferences. Omitted fields keep their value
+export interface NotificationPreferencesInput {
+  channels?: Partial<Record<NotificationCategory, Partial<Record<NotificationChannel, boolean>>>>;
+  quietHours?: QuietHours | null;
+  timeZone?: string;
+  language?: NotificationLanguage;
+  fid?: number;
+}
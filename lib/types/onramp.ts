@@ -0,0 +1,40 @@
+/**
+ * On-ramp (mobile money → USDC) types
+ * Shared by the on-ramp API and the client - no server imports
+ */
+
+export type OnrampCurrency = 'KES' | 'GHS' | 'UGX';
+
+// pending: payment prompt sent; paid: mobile money collected; released: USDC sent to the wallet
+export type OnrampOrderStatus = 'pending' | 'paid' | 'released' | 'failed';
+
+export interface OnrampQuote {
+  currency: OnrampCurrency;
+  amountLocal: number; // What the payer is charged, fee included
+  fee: number; // Local currency
+  rate: number; // Local currency per USDC
+  amountUSDC: number; // Estimated USDC released to the wallet
+}
+
+// What the client sends to start an on-ramp
+export interface OnrampOrderInput {
+  currency: OnrampCurrency;
+  amount: number | string; // Local currency to pay
+  phoneNumber: string;
+  fid?: number;
+}
+
+export interface OnrampOrder extends OnrampQuote {
+  id: string;
+  transactionCode: string;
+  walletAddress: string;
+  phoneNumber: string;
+  mobileNetwork: string;
+  status: OnrampOrderStatus;
+  receiptNumber?: string;
+  releaseTxHash?: string;
+  error?: string;
+  createdAt: string;
+  paidAt?: string;
+  releasedAt?: string;
+}
@@ -22,6 +22,8 @@ export interface OrderData {
   receive_address?: string;
   valid_until?: string;
   blockchain_tx_hash?: string;
+  chain?: string; // Pretium deposit chain, Base when unset
+  token?: string; // Stablecoin deposited, USDC when unset
   transactionHash?: string;
   currency?: 'KES' | 'NGN' | 'GHS' | 'UGX';
   amount?: string;
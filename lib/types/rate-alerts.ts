@@ -0,0 +1,48 @@
+/**
+ * Exchange rate alert types
+ * Shared by the rate alerts API and the client - no server imports
+ */
+
+import type { RecipientCurrency } from './recipients';
+
+export type RateAlertDirection = 'above' | 'below';
+
+// active: checked on every pass; triggered: fired once, re-arm to watch again
+export type RateAlertStatus = 'active' | 'triggered';
+
+export type RateAlertProvider = 'pretium' | 'paycrest';
+
+// What the client sends to create an alert. Without a verified Farcaster user
+// (X-Farcaster-Token), email is required
+export interface RateAlertInput {
+  currency: RecipientCurrency;
+  direction: RateAlertDirection;
+  threshold: number | string; // Local currency per USDC
+  email?: string;
+}
+
+// Best live rate for a currency across the payout providers
+export interface LiveRate {
+  currency: RecipientCurrency;
+  rate: number;
+  provider: RateAlertProvider;
+  rates: Partial<Record<RateAlertProvider, number>>;
+  checkedAt: string;
+}
+
+export interface RateAlert {
+  id: string;
+  currency: RecipientCurrency;
+  direction: RateAlertDirection;
+  threshold: number;
+  status: RateAlertStatus;
+  notifyFarcaster: boolean;
+  email?: string;
+  emailConfirmed?: boolean; // Emails are only sent once the address is confirmed
+  lastRate?: number;
+  lastCheckedAt?: string;
+  triggeredAt?: string;
+  triggeredRate?: number;
+  triggeredProvider?: RateAlertProvider;
+  createdAt: string;
+}
@@ -28,8 +28,9 @@ export interface ReceiptData {
   
   // Technical Details
   network: 'base';
-  token: 'USDC';
+  token: string; // USDC or USDT
   blockchainTxHash?: string;
+  chain?: string; // Chain blockchainTxHash is on, for the explorer link
   
   // Branding & Support
   receiptNumber: string; // Generated unique receipt number
@@ -0,0 +1,40 @@
+/**
+ * Saved recipient (address book) types
+ * Shared by the recipients API and the client - no server imports
+ */
+
+export type RecipientCurrency = 'KES' | 'NGN' | 'GHS' | 'UGX';
+
+export interface SavedRecipient {
+  id: string;
+  type: RecipientCurrency;
+  phoneNumber?: string;
+  accountNumber?: string;
+  accountName: string;
+  bankCode?: string;
+  bankName?: string;
+  nickname?: string;
+  isFavorite: boolean;
+  // Name the provider returned when the account was last verified
+  verifiedName?: string;
+  verifiedAt?: string;
+  lastUsed: string;
+  useCount: number;
+}
+
+// What the client sends to save a recipient after a payment
+export interface RecipientInput {
+  type: RecipientCurrency;
+  phoneNumber?: string;
+  accountNumber?: string;
+  accountName: string;
+  bankCode?: string;
+  bankName?: string;
+  nickname?: string;
+  verifiedName?: string;
+}
+
+export interface RecipientUpdate {
+  nickname?: string | null;
+  isFavorite?: boolean;
+}
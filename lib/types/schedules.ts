@@ -0,0 +1,76 @@
+/**
+ * Scheduled (recurring) payout types
+ * Shared by the schedules API and the client - no server imports
+ */
+
+import type { RecipientCurrency } from './recipients';
+
+export type ScheduleFrequency = 'weekly' | 'monthly' | 'custom';
+
+export type PayoutScheduleStatus = 'active' | 'paused';
+
+// custodial: paid from the user's Minisend wallet by the scheduler
+// reminder: the user gets a notification that opens a prefilled payment
+export type PayoutScheduleMode = 'custodial' | 'reminder';
+
+export type PayoutScheduleRunStatus =
+  | 'pending'
+  | 'reminded'
+  | 'skipped'
+  | 'funding'
+  | 'submitting'
+  | 'submitted'
+  | 'review'
+  | 'failed';
+
+// What the client sends to create a schedule
+export interface PayoutScheduleInput {
+  recipientId: string;
+  amount: number | string; // What the recipient receives, in the recipient's currency
+  frequency: ScheduleFrequency;
+  dayOfWeek?: number; // weekly: 0 (Sunday) - 6
+  dayOfMonth?: number; // monthly: 1 - 28, so every month has the day
+  hour?: number; // weekly/monthly: 0 - 23, East Africa Time
+  cronExpression?: string; // custom: five-field cron, East Africa Time
+  label?: string;
+  fid?: number; // Farcaster user reminders are sent to
+}
+
+export interface PayoutScheduleRecipient {
+  id: string;
+  type: RecipientCurrency;
+  accountName: string;
+  nickname?: string;
+  phoneNumber?: string;
+  accountNumber?: string;
+  bankCode?: string;
+  bankName?: string;
+}
+
+export interface PayoutScheduleRun {
+  id: string;
+  scheduledFor: string;
+  status: PayoutScheduleRunStatus;
+  amountLocal: number;
+  amountUSDC?: number;
+  transactionCode?: string;
+  error?: string;
+  createdAt: string;
+}
+
+export interface PayoutSchedule {
+  id: string;
+  label?: string;
+  currency: RecipientCurrency;
+  amountLocal: number;
+  frequency: ScheduleFrequency;
+  cronExpression: string;
+  mode: PayoutScheduleMode;
+  status: PayoutScheduleStatus;
+  nextRunAt: string;
+  lastRunAt?: string;
+  createdAt: string;
+  // Missing when the saved recipient was deleted - the schedule is paused
+  recipient?: PayoutScheduleRecipient;
+  runs?: PayoutScheduleRun[];
+}
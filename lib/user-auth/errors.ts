@@ -0,0 +1,28 @@
+// User Auth Errors
+
+export type UserAuthErrorCode =
+  | 'UNAUTHENTICATED'
+  | 'INVALID_REQUEST'
+  | 'NOT_CONFIGURED';
+
+/**
+ * Error raised when a user-owned route cannot tie the request to a signed-in user.
+ * Routes turn it into `{ error, code }` with `statusCode`
+ */
+export class UserAuthError extends Error {
+  constructor(
+    message: string,
+    public readonly code: UserAuthErrorCode,
+    public readonly statusCode: number = 401
+  ) {
+    super(message);
+    this.name = 'UserAuthError';
+  }
+
+  toResponseBody(): Record<string, unknown> {
+    return {
+      error: this.message,
+      code: this.code,
+    };
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * User Auth Module Exports
+ * Sessions for user-owned data - Privy access tokens on web, SIWE wallet sessions elsewhere
+ */
+
+export {
+  USER_AUTH_CONFIG,
+  authenticateUser,
+  requirePrivyUser,
+  requireWalletUser,
+  verifyFarcasterUser,
+  issueSignInNonce,
+  verifyWalletSignIn,
+  createWalletSession,
+} from './session-service';
+export type { UserSession, UserSessionMethod, WalletSignInRequest } from './session-service';
+
+export { UserAuthError } from './errors';
+export type { UserAuthErrorCode } from './errors';
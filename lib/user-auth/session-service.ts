@@ -0,0 +1,270 @@
+// User Sessions
+// Ties requests to user-owned data (address book, schedules, alerts, preferences)
+// to the user who made them. Web users send their Privy access token; wallet users
+// (Farcaster, Base app, external wallets) sign in once with SIWE and send the
+// wallet session token it returns. Both go in `Authorization: Bearer` - mini apps
+// run in iframes, where cookies are not reliable.
+// The owner always comes from the session, never from the request body or query.
+// A Farcaster FID likewise only comes from a Quick Auth token in `X-Farcaster-Token`.
+import { SignJWT, jwtVerify, importSPKI, decodeProtectedHeader, createRemoteJWKSet, type CryptoKey } from 'jose';
+import { createPublicClient, http } from 'viem';
+import { base } from 'viem/chains';
+import { generateSiweNonce, parseSiweMessage } from 'viem/siwe';
+import type { NextRequest } from 'next/server';
+import { createLogger } from '@/lib/logger';
+import { UserAuthError } from './errors';
+
+const logger = createLogger('user-auth');
+
+export const USER_AUTH_CONFIG = {
+  // Privy access tokens are ES256 JWTs issued for this app
+  PRIVY_APP_ID: process.env.NEXT_PUBLIC_PRIVY_APP_ID,
+  PRIVY_ISSUER: 'privy.io',
+  // The app's verification key (PEM) from the Privy dashboard
+  PRIVY_VERIFICATION_KEY: process.env.PRIVY_VERIFICATION_KEY,
+
+  // Dedicated server-only secret for wallet session and sign-in nonce tokens
+  SESSION_SECRET: process.env.USER_SESSION_SECRET,
+  SESSION_TTL_SECONDS: 7 * 24 * 60 * 60,
+
+  // A sign-in message must be signed within this window of its nonce
+  NONCE_TTL_SECONDS: 10 * 60,
+
+  // Farcaster Quick Auth tokens are signed by the Farcaster auth server for this host
+  FARCASTER_AUTH_ISSUER: 'https://auth.farcaster.xyz',
+  FARCASTER_TOKEN_HEADER: 'x-farcaster-token',
+};
+
+// Keeps a nonce token from being used as a session token and vice versa
+const WALLET_SESSION_AUDIENCE = 'minisend:wallet-session';
+const SIGN_IN_NONCE_AUDIENCE = 'minisend:sign-in-nonce';
+
+export type UserSessionMethod = 'privy' | 'wallet';
+
+export interface UserSession {
+  // Privy user ID (did:privy:...) or lowercased wallet address
+  owner: string;
+  method: UserSessionMethod;
+}
+
+export interface WalletSignInRequest {
+  message: unknown;
+  signature: unknown;
+  nonceToken: unknown;
+}
+
+const baseClient = createPublicClient({ chain: base, transport: http() });
+
+const farcasterKeys = createRemoteJWKSet(new URL(`${USER_AUTH_CONFIG.FARCASTER_AUTH_ISSUER}/.well-known/jwks.json`));
+
+let privyKey: Promise<CryptoKey> | null = null;
+
+function getPrivyKey(): Promise<CryptoKey> {
+  if (!USER_AUTH_CONFIG.PRIVY_APP_ID || !USER_AUTH_CONFIG.PRIVY_VERIFICATION_KEY) {
+    logger.error('PRIVY_VERIFICATION_KEY or NEXT_PUBLIC_PRIVY_APP_ID is not set');
+    throw new UserAuthError('Sign-in is not configured', 'NOT_CONFIGURED', 500);
+  }
+  if (!privyKey) {
+    privyKey = importSPKI(USER_AUTH_CONFIG.PRIVY_VERIFICATION_KEY.replace(/\\n/g, '\n'), 'ES256');
+  }
+  return privyKey;
+}
+
+function getSessionSecret(): Uint8Array {
+  if (!USER_AUTH_CONFIG.SESSION_SECRET) {
+    logger.error('USER_SESSION_SECRET is not set');
+    throw new UserAuthError('Sign-in is not configured', 'NOT_CONFIGURED', 500);
+  }
+  return new TextEncoder().encode(USER_AUTH_CONFIG.SESSION_SECRET);
+}
+
+function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization');
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+function isWalletSessionToken(token: string): boolean {
+  try {
+    return decodeProtectedHeader(token).alg === 'HS256';
+  } catch {
+    return false;
+  }
+}
+
+function expired(): UserAuthError {
+  return new UserAuthError('Your session has expired. Sign in again.', 'UNAUTHENTICATED');
+}
+
+async function verifyPrivyToken(token: string): Promise<string> {
+  const key = await getPrivyKey();
+  try {
+    const { payload } = await jwtVerify(token, key, {
+      issuer: USER_AUTH_CONFIG.PRIVY_ISSUER,
+      audience: USER_AUTH_CONFIG.PRIVY_APP_ID,
+      algorithms: ['ES256'],
+    });
+    if (typeof payload.sub !== 'string' || !payload.sub.startsWith('did:privy:')) throw expired();
+    return payload.sub;
+  } catch {
+    throw expired();
+  }
+}
+
+async function verifyWalletSessionToken(token: string): Promise<string> {
+  const secret = getSessionSecret();
+  try {
+    const { payload } = await jwtVerify(token, secret, {
+      audience: WALLET_SESSION_AUDIENCE,
+      algorithms: ['HS256'],
+    });
+    if (typeof payload.sub !== 'string') throw expired();
+    return payload.sub;
+  } catch {
+    throw expired();
+  }
+}
+
+/**
+ * The signed-in user, from the Privy access token or wallet session token in
+ * `Authorization: Bearer`
+ *
+ * @throws UserAuthError UNAUTHENTICATED when there is no valid token
+ */
+export async function authenticateUser(request: NextRequest): Promise<UserSession> {
+  const token = getBearerToken(request);
+  if (!token) {
+    throw new UserAuthError('Sign in to continue', 'UNAUTHENTICATED');
+  }
+
+  if (isWalletSessionToken(token)) {
+    return { owner: await verifyWalletSessionToken(token), method: 'wallet' };
+  }
+  return { owner: await verifyPrivyToken(token), method: 'privy' };
+}
+
+/**
+ * The signed-in Privy user - for actions on a custodial Minisend wallet
+ *
+ * @throws UserAuthError UNAUTHENTICATED without a valid Privy access token
+ */
+export async function requirePrivyUser(request: NextRequest): Promise<UserSession> {
+  const token = getBearerToken(request);
+  if (!token || isWalletSessionToken(token)) {
+    throw new UserAuthError('Sign in with your Minisend account to continue', 'UNAUTHENTICATED');
+  }
+  return { owner: await verifyPrivyToken(token), method: 'privy' };
+}
+
+/**
+ * The signed-in wallet - for actions funded from the connected wallet (batch payouts)
+ *
+ * @throws UserAuthError UNAUTHENTICATED without a valid wallet session token
+ */
+export async function requireWalletUser(request: NextRequest): Promise<UserSession> {
+  const token = getBearerToken(request);
+  if (!token || !isWalletSessionToken(token)) {
+    throw new UserAuthError('Sign in with your wallet to continue', 'UNAUTHENTICATED');
+  }
+  return { owner: await verifyWalletSessionToken(token), method: 'wallet' };
+}
+
+/**
+ * The FID the user proved with a Farcaster Quick Auth token in `X-Farcaster-Token`,
+ * or null when the request carries none (web and wallet users)
+ *
+ * @throws UserAuthError UNAUTHENTICATED when the token is not valid for this host
+ */
+export async function verifyFarcasterUser(request: NextRequest): Promise<number | null> {
+  const token = request.headers.get(USER_AUTH_CONFIG.FARCASTER_TOKEN_HEADER);
+  if (!token) return null;
+
+  try {
+    const { payload } = await jwtVerify(token, farcasterKeys, {
+      issuer: USER_AUTH_CONFIG.FARCASTER_AUTH_ISSUER,
+      audience: request.nextUrl.host,
+    });
+    const fid = Number(payload.sub);
+    if (!Number.isInteger(fid) || fid <= 0) throw expired();
+    return fid;
+  } catch (error) {
+    logger.warn('Farcaster token verification failed', { error });
+    throw new UserAuthError('Your Farcaster sign-in has expired. Reopen the app.', 'UNAUTHENTICATED');
+  }
+}
+
+/**
+ * Start a wallet sign-in: a nonce for the SIWE message, plus a signed token that
+ * carries it back so no server state is kept
+ */
+export async function issueSignInNonce(): Promise<{ nonce: string; nonceToken: string }> {
+  const nonce = generateSiweNonce();
+  const nonceToken = await new SignJWT({ nonce })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setAudience(SIGN_IN_NONCE_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(`${USER_AUTH_CONFIG.NONCE_TTL_SECONDS}s`)
+    .sign(getSessionSecret());
+
+  return { nonce, nonceToken };
+}
+
+/**
+ * Finish a wallet sign-in. The SIWE message must be for this host, carry the
+ * nonce from issueSignInNonce and be signed by its address (smart wallets included)
+ *
+ * @returns the lowercased wallet address
+ * @throws UserAuthError UNAUTHENTICATED when the message or signature does not check out
+ */
+export async function verifyWalletSignIn(request: NextRequest, input: WalletSignInRequest): Promise<string> {
+  const { message, signature, nonceToken } = input;
+  if (
+    typeof message !== 'string' ||
+    typeof nonceToken !== 'string' ||
+    typeof signature !== 'string' ||
+    !/^0x[0-9a-fA-F]+$/.test(signature)
+  ) {
+    throw new UserAuthError('A signed sign-in message is required', 'INVALID_REQUEST', 400);
+  }
+
+  const secret = getSessionSecret();
+  const nonce = await jwtVerify(nonceToken, secret, { audience: SIGN_IN_NONCE_AUDIENCE, algorithms: ['HS256'] })
+    .then(({ payload }) => (typeof payload.nonce === 'string' ? payload.nonce : null))
+    .catch(() => null);
+  if (!nonce) {
+    throw new UserAuthError('Sign-in request expired. Try again.', 'UNAUTHENTICATED');
+  }
+
+  const { address } = parseSiweMessage(message);
+  const valid = address && await baseClient.verifySiweMessage({
+    message,
+    signature: signature as `0x${string}`,
+    domain: request.nextUrl.host,
+    nonce,
+  }).catch((error) => {
+    logger.warn('SIWE verification failed', { error });
+    return false;
+  });
+
+  if (!address || !valid) {
+    throw new UserAuthError('Signature could not be verified', 'UNAUTHENTICATED');
+  }
+
+  return address.toLowerCase();
+}
+
+/**
+ * A wallet session token for a verified wallet
+ */
+export async function createWalletSession(walletAddress: string): Promise<{ token: string; expiresAt: string }> {
+  const expiresAt = new Date(Date.now() + USER_AUTH_CONFIG.SESSION_TTL_SECONDS * 1000);
+  const token = await new SignJWT({})
+    .setProtectedHeader({ alg: 'HS256' })
+    .setAudience(WALLET_SESSION_AUDIENCE)
+    .setSubject(walletAddress.toLowerCase())
+    .setIssuedAt()
+    .setExpirationTime(expiresAt)
+    .sign(getSessionSecret());
+
+  return { token, expiresAt: expiresAt.toISOString() };
+}
@@ -30,7 +30,7 @@ export function extractAccountNameFromMemo(memo: string): string | null {
 
 // Type definitions for PayCrest order objects
 interface PaycrestRecipient {
-  accountName: string;
+  accountName?: string;
   memo?: string;
   institution?: string;
   accountIdentifier?: string;
@@ -50,7 +50,7 @@ interface PaycrestOrder {
 /**
  * Fix PayCrest order object by replacing "OK" account names with extracted names from memo
  */
-export function fixPaycrestAccountName(order: PaycrestOrder): PaycrestOrder {
+export function fixPaycrestAccountName<T extends Pick<PaycrestOrder, 'id' | 'status' | 'recipient'>>(order: T): T {
   if (!order || !order.recipient) {
     return order;
   }
@@ -3,6 +3,9 @@
  * Follows best practices for large-scale dApps
  */
 
+import { correlationHeaders } from '@/lib/correlation';
+import type { LimitViolation } from '@/lib/types/limits';
+
 interface RetryConfig {
   maxRetries: number;
   initialDelay: number;
@@ -22,7 +25,8 @@ export class APIError extends Error {
     message: string,
     public statusCode?: number,
     public code?: string,
-    public details?: Record<string, unknown>
+    public details?: Record<string, unknown>,
+    public retryAfterSeconds?: number // From Retry-After, e.g. on 429
   ) {
     super(message);
     this.name = 'APIError';
@@ -57,9 +61,27 @@ function isRetryableError(error: unknown): boolean {
     return true;
   }
 
+  // The first request with this Idempotency-Key is still running - its result will be replayed
+  if (error instanceof APIError && error.code === 'IDEMPOTENCY_REQUEST_IN_PROGRESS') {
+    return true;
+  }
+
   return false;
 }
 
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * New Idempotency-Key for one user action (e.g. one swipe).
+ * Reuse it for every retry of that action so the server creates at most one payout
+ */
+export function createIdempotencyKey(prefix: string): string {
+  const id = typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 12)}`;
+  return `${prefix}-${id}`;
+}
+
 /**
  * Fetch with automatic retry and exponential backoff
  */
@@ -84,12 +106,14 @@ export async function fetchWithRetry<T>(
       // Handle HTTP errors
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
+        const retryAfter = parseInt(response.headers.get('Retry-After') || '', 10);
 
         throw new APIError(
           errorData.error || `HTTP ${response.status}: ${response.statusText}`,
           response.status,
           errorData.code,
-          errorData
+          errorData,
+          isNaN(retryAfter) ? undefined : retryAfter
         );
       }
 
@@ -104,8 +128,16 @@ export async function fetchWithRetry<T>(
         break;
       }
 
+      // Rate limited: wait as long as the server asks, or give up if that is longer than we back off
+      const retryAfterMs = error instanceof APIError && error.retryAfterSeconds !== undefined
+        ? error.retryAfterSeconds * 1000
+        : undefined;
+      if (retryAfterMs !== undefined && retryAfterMs > config.maxDelay) {
+        break;
+      }
+
       // Wait before retrying
-      const delay = calculateDelay(attempt, config);
+      const delay = retryAfterMs ?? calculateDelay(attempt, config);
       console.warn(`Request failed (attempt ${attempt + 1}/${config.maxRetries + 1}), retrying in ${delay}ms...`, error);
 
       await new Promise(resolve => setTimeout(resolve, delay));
@@ -116,6 +148,40 @@ export async function fetchWithRetry<T>(
   throw lastError!;
 }
 
+export interface LockedQuote {
+  id: string;
+  provider: 'pretium' | 'paycrest';
+  currency: string;
+  paymentType: string;
+  amountUSDC: number;
+  totalUSDC: number;
+  rate: number;
+  recipientAmount: number;
+  fee: number;
+  depositAddress?: string;
+  chain?: string; // Pretium deposit chain, BASE unless another was requested
+  token?: string; // Stablecoin the payout is funded with, USDC unless another was requested
+  senderAddress?: string; // The only address the deposit is accepted from, when not the wallet
+  expiresAt: string;
+}
+
+/**
+ * Whether a locked quote can no longer be used to move funds
+ */
+export function isQuoteExpired(expiresAt: string | undefined): boolean {
+  return !!expiresAt && new Date(expiresAt).getTime() <= Date.now();
+}
+
+/**
+ * The transaction limit a request broke, when it was refused with LIMIT_EXCEEDED
+ */
+export function getLimitViolation(error: unknown): LimitViolation | null {
+  if (error instanceof APIError && error.code === 'LIMIT_EXCEEDED' && error.details?.limit) {
+    return error.details.limit as LimitViolation;
+  }
+  return null;
+}
+
 /**
  * Typed API client for internal endpoints
  */
@@ -142,6 +208,50 @@ export const apiClient = {
     });
   },
 
+  /**
+   * Lock the rate, fee and recipient amount for a conversion.
+   * Order creation only accepts the returned quote id - never a rate
+   */
+  async requestQuote(data: {
+    currency: string;
+    amount: string;
+    localAmount?: string;
+    paymentType?: string;
+    provider?: 'pretium' | 'paycrest';
+    walletAddress?: string;
+    chain?: string;
+    token?: string;
+    senderAddress?: string; // Address the deposit will be sent from, when not the wallet
+  }, correlationId?: string) {
+    return fetchWithRetry<{ success: boolean; quote: LockedQuote }>('/api/quotes', {
+      method: 'POST',
+      headers: correlationHeaders(correlationId),
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Check a payout against the wallet's transaction limits before any USDC moves.
+   * Order creation enforces the same limits - see getLimitViolation
+   */
+  async checkTransactionLimits(data: {
+    walletAddress?: string;
+    currency: string;
+    amount: string;
+    phoneNumber?: string;
+    tillNumber?: string;
+    paybillNumber?: string;
+    paybillAccount?: string;
+    accountNumber?: string;
+    bankCode?: string;
+  }, correlationId?: string) {
+    return fetchWithRetry<{ success: boolean; allowed: boolean }>('/api/offramp/limits', {
+      method: 'POST',
+      headers: correlationHeaders(correlationId),
+      body: JSON.stringify(data),
+    });
+  },
+
   /**
    * Verify Base Account signature
    */
@@ -162,7 +272,8 @@ export const apiClient = {
 };
 
 /**
- * Rate limiter for client-side API calls
+ * Concurrency limiter for client-side API calls. Request limits are enforced
+ * server-side by lib/security/rate-limit.ts
  */
 class RateLimiter {
   private queue: Array<(value: unknown) => void> = [];
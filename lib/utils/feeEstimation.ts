@@ -4,6 +4,14 @@
  * we use conservative estimates based on typical fee structures
  */
 
+import { DEFAULT_TOKEN, type StablecoinToken } from '@/lib/contracts';
+
+// Minisend's transaction fee per stablecoin sent
+export const TRANSACTION_FEE_PERCENTAGES: Record<StablecoinToken, number> = {
+  USDC: 0.01,
+  USDT: 0.01,
+};
+
 export interface FeeEstimate {
   estimatedSenderFee: number;
   estimatedTransactionFee: number;
@@ -16,9 +24,9 @@ export interface FeeEstimate {
  * Conservative fee estimation for PayCrest orders
  * Uses a percentage-based approach as a safety buffer
  */
-export function estimatePaycrestFees(baseAmountUSDC: number): FeeEstimate {
-  // Minisend charges exactly 1% transaction fee, no gas fees
-  const feePercentage = 0.01; // 1% Minisend transaction fee
+export function estimatePaycrestFees(baseAmountUSDC: number, token: StablecoinToken = DEFAULT_TOKEN): FeeEstimate {
+  // Minisend charges a flat transaction fee in the token sent, no gas fees
+  const feePercentage = TRANSACTION_FEE_PERCENTAGES[token];
 
   const totalEstimatedFees = baseAmountUSDC * feePercentage;
 
@@ -1,60 +1,10 @@
 /**
  * Security utilities for production-grade dApp
- * Rate limiting, CSRF protection, and request validation
+ * CSRF protection and request validation - rate limiting lives in lib/security/rate-limit.ts
  */
 
 import { NextRequest } from 'next/server';
 
-/**
- * Server-side rate limiter using in-memory store
- * For production, use Redis or similar distributed cache
- */
-class ServerRateLimiter {
-  private requests = new Map<string, number[]>();
-
-  check(
-    identifier: string,
-    maxRequests: number = 10,
-    windowMs: number = 60000
-  ): { allowed: boolean; remaining: number; resetTime: number } {
-    const now = Date.now();
-    const timestamps = this.requests.get(identifier) || [];
-
-    // Filter out expired timestamps
-    const validTimestamps = timestamps.filter(ts => now - ts < windowMs);
-
-    const allowed = validTimestamps.length < maxRequests;
-    const remaining = Math.max(0, maxRequests - validTimestamps.length - 1);
-    const resetTime = validTimestamps[0] ? validTimestamps[0] + windowMs : now + windowMs;
-
-    if (allowed) {
-      validTimestamps.push(now);
-      this.requests.set(identifier, validTimestamps);
-    }
-
-    return { allowed, remaining, resetTime };
-  }
-
-  cleanup(): void {
-    const now = Date.now();
-    for (const [key, timestamps] of this.requests.entries()) {
-      const validTimestamps = timestamps.filter(ts => now - ts < 60000);
-      if (validTimestamps.length === 0) {
-        this.requests.delete(key);
-      } else {
-        this.requests.set(key, validTimestamps);
-      }
-    }
-  }
-}
-
-export const rateLimiter = new ServerRateLimiter();
-
-// Cleanup old entries every minute
-if (typeof setInterval !== 'undefined') {
-  setInterval(() => rateLimiter.cleanup(), 60000);
-}
-
 /**
  * Get client identifier for rate limiting
  */
@@ -62,7 +12,7 @@ export function getClientIdentifier(request: NextRequest): string {
   // Try to get real IP from various headers (considering proxies)
   const forwarded = request.headers.get('x-forwarded-for');
   const realIp = request.headers.get('x-real-ip');
-  const ip = forwarded?.split(',')[0] || realIp || 'unknown';
+  const ip = forwarded?.split(',')[0]?.trim() || realIp || 'unknown';
 
   return ip;
 }
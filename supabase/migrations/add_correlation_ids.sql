@@ -0,0 +1,26 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Payment correlation IDs
+-- ============================================================================
+-- The client generates one correlation ID per payment attempt and sends it in
+-- the X-Correlation-Id header. It is stored on the quote and the order so the
+-- admin timeline can join quotes, orders, status history, webhook events and
+-- analytics events for a single payment.
+-- ============================================================================
+
+ALTER TABLE offramp_quotes ADD COLUMN IF NOT EXISTS correlation_id TEXT;
+ALTER TABLE pretium_orders ADD COLUMN IF NOT EXISTS correlation_id TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS correlation_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_offramp_quotes_correlation_id ON offramp_quotes(correlation_id) WHERE correlation_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_pretium_orders_correlation_id ON pretium_orders(correlation_id) WHERE correlation_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_orders_correlation_id ON orders(correlation_id) WHERE correlation_id IS NOT NULL;
+
+-- Server-side analytics events carry the ID in event_data
+CREATE INDEX IF NOT EXISTS idx_analytics_events_correlation_id ON analytics_events((event_data->>'correlation_id'))
+  WHERE event_data ? 'correlation_id';
+
+COMMENT ON COLUMN pretium_orders.correlation_id IS 'Client-generated payment correlation ID (X-Correlation-Id), also sent in the Pretium callback URL';
+COMMENT ON COLUMN orders.correlation_id IS 'Client-generated payment correlation ID (X-Correlation-Id), also echoed in the PayCrest order reference';
@@ -0,0 +1,46 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Pretium → PayCrest failover and refund cases
+-- ============================================================================
+-- When a Pretium disbursement fails, the payout is re-routed through PayCrest
+-- (KES mobile, NGN bank) and the two orders are linked. When no alternate rail
+-- exists a refund case is opened for the user's USDC instead.
+-- ============================================================================
+
+-- Link a failed Pretium order to the PayCrest order that replaced it
+ALTER TABLE pretium_orders ADD COLUMN IF NOT EXISTS failover_order_id TEXT;
+ALTER TABLE pretium_orders ADD COLUMN IF NOT EXISTS failover_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS failover_from_transaction_code TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_orders_failover_from ON orders(failover_from_transaction_code)
+  WHERE failover_from_transaction_code IS NOT NULL;
+
+-- Refund cases for payouts that could not be completed
+CREATE TABLE IF NOT EXISTS refunds (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  pretium_transaction_code TEXT REFERENCES pretium_orders(transaction_code),
+  paycrest_order_id TEXT,
+  wallet_address TEXT NOT NULL,
+  amount_usdc DECIMAL(20, 6) NOT NULL,
+  currency TEXT,
+  reason TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi'),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi')
+);
+
+-- One refund case per failed Pretium order
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_pretium_transaction_code ON refunds(pretium_transaction_code)
+  WHERE pretium_transaction_code IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_refunds_status ON refunds(status);
+
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to refunds" ON refunds
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE refunds IS 'Refund cases for off-ramp payouts that failed without an alternate rail';
@@ -0,0 +1,32 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Stuck-order reconciliation
+-- ============================================================================
+-- The reconciler cron polls providers for orders pending past their SLA and
+-- applies missed webhook transitions. Orders it still cannot resolve are
+-- flagged for manual follow-up.
+-- ============================================================================
+
+ALTER TABLE pretium_orders ADD COLUMN IF NOT EXISTS reconcile_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE pretium_orders ADD COLUMN IF NOT EXISTS last_reconciled_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE pretium_orders ADD COLUMN IF NOT EXISTS flagged_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE pretium_orders ADD COLUMN IF NOT EXISTS flag_reason TEXT;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS reconcile_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS last_reconciled_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS flagged_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS flag_reason TEXT;
+
+-- The reconciler scans non-final orders, least recently checked first
+CREATE INDEX IF NOT EXISTS idx_pretium_orders_reconcile ON pretium_orders(last_reconciled_at NULLS FIRST, created_at)
+  WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_orders_reconcile ON orders(last_reconciled_at NULLS FIRST, created_at)
+  WHERE status IN ('pending', 'processing');
+
+CREATE INDEX IF NOT EXISTS idx_pretium_orders_flagged ON pretium_orders(flagged_at) WHERE flagged_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_orders_flagged ON orders(flagged_at) WHERE flagged_at IS NOT NULL;
+
+COMMENT ON COLUMN pretium_orders.flagged_at IS 'Set when the reconciler could not resolve the order after repeated provider checks';
+COMMENT ON COLUMN orders.flagged_at IS 'Set when the reconciler could not resolve the order after repeated provider checks';
@@ -0,0 +1,17 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Pretium deposits on Celo, Scroll, Tron and Stellar
+-- ============================================================================
+-- A Pretium quote is locked against the chain the user deposits on; its
+-- deposit_address is that chain's settlement address and the disbursement
+-- verifies the transfer on the same chain. pretium_orders.chain already
+-- records it (default BASE).
+-- ============================================================================
+
+ALTER TABLE offramp_quotes ADD COLUMN IF NOT EXISTS chain TEXT
+  CHECK (chain IN ('BASE', 'CELO', 'SCROLL', 'TRON', 'STELLAR'));
+
+COMMENT ON COLUMN offramp_quotes.chain IS 'Pretium deposit chain the quote was issued for; NULL means Base';
+COMMENT ON COLUMN pretium_orders.chain IS 'Chain the USDC deposit (transaction_hash) was made and verified on';
@@ -0,0 +1,11 @@
+-- Enforce one payout per on-chain deposit
+-- The disburse route verifies the USDC Transfer and rejects reused hashes.
+-- The order row is written after Pretium is called, so this index alone does not
+-- stop two concurrent requests; pretium_deposit_claims reserves the hash first.
+
+SET timezone = 'Africa/Nairobi';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pretium_orders_transaction_hash_unique
+ON pretium_orders(LOWER(transaction_hash));
+
+COMMENT ON INDEX idx_pretium_orders_transaction_hash_unique IS 'A deposit transaction hash can only fund a single Pretium disbursement';
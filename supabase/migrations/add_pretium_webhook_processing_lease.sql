@@ -0,0 +1,16 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Processing lease on Pretium webhook deliveries
+-- ============================================================================
+-- A delivery still 'received' is being processed by the request that recorded
+-- it. A duplicate arriving meanwhile is turned away so Pretium retries it
+-- later; only a 'failed' delivery, or one whose processing started longer ago
+-- than the lease, is taken over and processed again.
+-- ============================================================================
+
+ALTER TABLE pretium_webhook_events ADD COLUMN IF NOT EXISTS processing_started_at TIMESTAMP WITH TIME ZONE
+  DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi');
+
+COMMENT ON COLUMN pretium_webhook_events.processing_started_at IS 'When the current processing attempt started; a received delivery older than the lease is retried';
@@ -0,0 +1,15 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Deposit sender on off-ramp quotes
+-- ============================================================================
+-- Deposits on Celo, Scroll, Tron and Stellar are sent from a wallet the app
+-- can't sign for. The address they are sent from is given when the quote is
+-- locked and covered by its signature; the disbursement only accepts a
+-- deposit from that address (or from the redeeming wallet when unset).
+-- ============================================================================
+
+ALTER TABLE offramp_quotes ADD COLUMN IF NOT EXISTS sender_address TEXT;
+
+COMMENT ON COLUMN offramp_quotes.sender_address IS 'Address the deposit must be sent from, lowercased on EVM chains; NULL means the wallet redeeming the quote';
@@ -0,0 +1,19 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Email confirmation for rate alerts
+-- ============================================================================
+-- Rate alert emails only go to an address its owner has confirmed. A new
+-- address gets a confirmation link first; an address the owner already
+-- confirmed on another alert is confirmed straight away.
+-- ============================================================================
+
+ALTER TABLE rate_alerts ADD COLUMN IF NOT EXISTS email_confirmed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE rate_alerts ADD COLUMN IF NOT EXISTS email_confirmation_token TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rate_alerts_email_confirmation_token
+  ON rate_alerts(email_confirmation_token) WHERE email_confirmation_token IS NOT NULL;
+
+COMMENT ON COLUMN rate_alerts.email_confirmed_at IS 'When the owner confirmed the email address; NULL means no email is sent';
+COMMENT ON COLUMN rate_alerts.email_confirmation_token IS 'Token in the confirmation link, cleared once confirmed';
@@ -0,0 +1,19 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: USDT alongside USDC
+-- ============================================================================
+-- A payout can be funded with USDC or USDT. The quote is locked for one token
+-- and the deposit (Pretium) or order (Paycrest) is checked against it.
+-- Paycrest orders already record it in orders.token.
+-- ============================================================================
+
+ALTER TABLE offramp_quotes ADD COLUMN IF NOT EXISTS token TEXT
+  CHECK (token IN ('USDC', 'USDT'));
+
+ALTER TABLE pretium_orders ADD COLUMN IF NOT EXISTS token TEXT DEFAULT 'USDC'
+  CHECK (token IN ('USDC', 'USDT'));
+
+COMMENT ON COLUMN offramp_quotes.token IS 'Stablecoin the quote was issued for; NULL means USDC';
+COMMENT ON COLUMN pretium_orders.token IS 'Stablecoin deposited in transaction_hash';
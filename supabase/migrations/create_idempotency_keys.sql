@@ -0,0 +1,36 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Idempotency keys for order-creation endpoints
+-- ============================================================================
+-- /api/paycrest/orders/simple, /api/pretium/disburse and /api/blockradar/withdraw
+-- accept an Idempotency-Key header. The first request claims (scope, key) and
+-- stores a hash of its body; once it succeeds the response is cached so a
+-- replay returns the original result instead of creating a second payout.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  scope TEXT NOT NULL, -- e.g. 'paycrest_order', 'pretium_disburse', 'blockradar_withdraw'
+  idempotency_key TEXT NOT NULL,
+  request_hash TEXT NOT NULL, -- SHA-256 of the request body
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+  response_status INTEGER,
+  response_body JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi'),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  UNIQUE (scope, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to idempotency_keys" ON idempotency_keys
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE idempotency_keys IS 'Idempotency-Key claims and cached responses for order-creation endpoints';
@@ -0,0 +1,39 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Notification preferences
+-- ============================================================================
+-- What each user wants to be notified about (order status, rate alerts,
+-- marketing/broadcasts, weekly summary) and on which channels (Farcaster,
+-- email, in-app), plus quiet hours and language. Farcaster sends, broadcasts
+-- and emails check them first. Users without a row get the defaults in
+-- lib/notification-preferences.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  owner_id TEXT NOT NULL UNIQUE, -- Wallet address (lowercased) or Privy user ID, as for recipients
+  fid BIGINT, -- Farcaster user, so FID-addressed notifications can find the row
+  channels JSONB NOT NULL, -- { category: { farcaster, email, in_app } }
+  quiet_hours_start TEXT CHECK (quiet_hours_start ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  quiet_hours_end TEXT CHECK (quiet_hours_end ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  time_zone TEXT NOT NULL DEFAULT 'Africa/Nairobi',
+  language TEXT NOT NULL DEFAULT 'en' CHECK (language IN ('en', 'sw', 'fr')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi'),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi'),
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_preferences_fid ON notification_preferences(fid) WHERE fid IS NOT NULL;
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to notification_preferences" ON notification_preferences
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE notification_preferences IS 'Per-user notification categories, channels, quiet hours and language';
+COMMENT ON COLUMN notification_preferences.channels IS 'Channels enabled per category: order_status, rate_alerts, marketing, weekly_summary';
+COMMENT ON COLUMN notification_preferences.quiet_hours_start IS 'HH:MM in time_zone; no Farcaster or email notifications other than order status until quiet_hours_end';
@@ -0,0 +1,43 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Locked, signed off-ramp quotes
+-- ============================================================================
+-- POST /api/quotes locks a provider rate, fee breakdown and recipient amount
+-- for a short window and signs it with QUOTE_SIGNING_SECRET. Order creation
+-- (/api/pretium/disburse, /api/paycrest/orders/simple, /api/offramp) only
+-- accepts a valid, unexpired, unused quote ID and pays out at its rate.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS offramp_quotes (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  provider TEXT NOT NULL CHECK (provider IN ('pretium', 'paycrest')),
+  currency TEXT NOT NULL,
+  payment_type TEXT NOT NULL,
+  amount_usdc DECIMAL(20, 6) NOT NULL,
+  total_usdc DECIMAL(20, 6) NOT NULL, -- What the user sends, including fees
+  rate DECIMAL(20, 6) NOT NULL,
+  recipient_amount DECIMAL(20, 2) NOT NULL,
+  fee DECIMAL(20, 2) NOT NULL, -- Platform fee in local currency
+  deposit_address TEXT,
+  wallet_address TEXT, -- When set, only this wallet can redeem the quote
+  signature TEXT NOT NULL, -- HMAC-SHA256 of the quote terms
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  redeemed_at TIMESTAMP WITH TIME ZONE,
+  order_reference TEXT, -- Pretium transaction code or PayCrest order ID
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi')
+);
+
+CREATE INDEX IF NOT EXISTS idx_offramp_quotes_expires_at ON offramp_quotes(expires_at);
+CREATE INDEX IF NOT EXISTS idx_offramp_quotes_order_reference ON offramp_quotes(order_reference)
+  WHERE order_reference IS NOT NULL;
+
+ALTER TABLE offramp_quotes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to offramp_quotes" ON offramp_quotes
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE offramp_quotes IS 'Server-signed off-ramp quotes; payouts are only created against an unexpired, unredeemed quote';
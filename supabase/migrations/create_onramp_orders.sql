@@ -0,0 +1,53 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: On-ramp orders
+-- ============================================================================
+-- Buying USDC with mobile money through Pretium collections. Pretium sends the
+-- payer an STK push / payment prompt, collects the money and releases the USDC
+-- on Base to the user's wallet; both steps arrive on the Pretium webhook
+-- (/api/pretium/webhook) under the order's transaction_code.
+--   status: pending → paid → released, or pending → failed
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS onramp_orders (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  transaction_code TEXT NOT NULL UNIQUE, -- Pretium collection reference
+  wallet_address TEXT NOT NULL, -- Lowercased; receives the USDC
+  currency TEXT NOT NULL CHECK (currency IN ('KES', 'GHS', 'UGX')),
+  phone_number TEXT NOT NULL, -- Payer, local format (0XXXXXXXXX)
+  mobile_network TEXT NOT NULL,
+  amount_local DECIMAL(20, 2) NOT NULL CHECK (amount_local > 0), -- Charged to the payer, fee included
+  fee_local DECIMAL(20, 2) NOT NULL DEFAULT 0,
+  exchange_rate DECIMAL(20, 4) NOT NULL, -- Pretium selling rate, local currency per USDC
+  amount_usdc DECIMAL(20, 6) NOT NULL, -- Estimated at order time
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'released', 'failed')),
+  pretium_status TEXT,
+  receipt_number TEXT, -- Mobile money receipt
+  public_name TEXT,
+  release_tx_hash TEXT, -- USDC transfer to wallet_address
+  fid BIGINT, -- Farcaster user notified when the USDC arrives
+  correlation_id TEXT,
+  error_message TEXT,
+  raw_onramp_request JSONB,
+  raw_webhook_payloads JSONB DEFAULT '[]'::jsonb,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  released_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi'),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi')
+);
+
+CREATE INDEX IF NOT EXISTS idx_onramp_orders_wallet ON onramp_orders(wallet_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_onramp_orders_open ON onramp_orders(created_at) WHERE status IN ('pending', 'paid');
+
+ALTER TABLE onramp_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to onramp_orders" ON onramp_orders
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE onramp_orders IS 'Mobile money payments collected by Pretium and released as USDC to the user''s wallet';
+COMMENT ON COLUMN onramp_orders.amount_usdc IS 'USDC estimated from the selling rate when the order was placed';
+COMMENT ON COLUMN onramp_orders.raw_onramp_request IS 'Request sent to Pretium, callback URL without its token';
@@ -0,0 +1,36 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Provider-agnostic order status history
+-- ============================================================================
+-- status_history only covers PayCrest orders (order_id references orders).
+-- This table records lifecycle events for both Pretium and PayCrest orders:
+-- status transitions, failovers between providers and refund cases.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  provider TEXT NOT NULL CHECK (provider IN ('pretium', 'paycrest')),
+  order_id UUID, -- pretium_orders.id or orders.id
+  provider_order_id TEXT NOT NULL, -- Pretium transaction_code or PayCrest order id
+  event TEXT NOT NULL, -- e.g. 'status_change', 'failover', 'refund_opened'
+  old_status TEXT,
+  new_status TEXT,
+  provider_status TEXT,
+  reason TEXT,
+  details JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi')
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_provider_order ON order_status_history(provider, provider_order_id);
+CREATE INDEX IF NOT EXISTS idx_order_status_history_created_at ON order_status_history(created_at DESC);
+
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to order_status_history" ON order_status_history
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE order_status_history IS 'Lifecycle events for Pretium and PayCrest orders, including cross-provider failovers';
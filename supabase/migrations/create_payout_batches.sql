@@ -0,0 +1,89 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Batch payouts
+-- ============================================================================
+-- A batch pays many recipients from one USDC deposit. Every row is validated
+-- and quoted when the batch is created; the user then sends the batch total to
+-- the batch treasury (a Blockradar address). Once the deposit is verified each
+-- row is funded from the treasury and disbursed through Pretium as its own
+-- order, with its own receipt.
+--   batch: awaiting_deposit → processing → completed | partially_failed | failed
+--   row:   pending → funding → submitting → submitted | review | failed
+-- A row left in 'funding' without a funding hash, or in 'submitting', was
+-- interrupted mid-step and needs a look from support before it is retried.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS payout_batches (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  wallet_address TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'awaiting_deposit'
+    CHECK (status IN ('awaiting_deposit', 'processing', 'completed', 'partially_failed', 'failed')),
+  total_usdc DECIMAL(20, 6) NOT NULL,
+  row_count INTEGER NOT NULL,
+  deposit_address TEXT NOT NULL, -- Batch treasury the user sends total_usdc to
+  deposit_tx_hash TEXT,
+  correlation_id TEXT,
+  quote_expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  funded_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi'),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi')
+);
+
+CREATE TABLE IF NOT EXISTS payout_batch_rows (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  batch_id UUID NOT NULL REFERENCES payout_batches(id) ON DELETE CASCADE,
+  row_index INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'funding', 'submitting', 'submitted', 'review', 'failed')),
+  currency TEXT NOT NULL CHECK (currency IN ('KES', 'NGN', 'GHS', 'UGX')),
+  payment_type TEXT NOT NULL CHECK (payment_type IN ('MOBILE', 'BUY_GOODS', 'PAYBILL', 'BANK_TRANSFER')),
+  account_name TEXT NOT NULL,
+  phone_number TEXT,
+  till_number TEXT,
+  paybill_number TEXT,
+  paybill_account TEXT,
+  account_number TEXT,
+  bank_code TEXT,
+  bank_name TEXT,
+  amount_local DECIMAL(20, 2) NOT NULL, -- What the recipient receives
+  fee DECIMAL(20, 2) NOT NULL,
+  amount_usdc DECIMAL(20, 6) NOT NULL,
+  rate DECIMAL(20, 6) NOT NULL,
+  quote_id UUID REFERENCES offramp_quotes(id), -- Replaced when the quote expired before the row was paid out
+  funding_withdrawal_id TEXT, -- Blockradar withdrawal from the treasury to Pretium
+  funding_tx_hash TEXT,
+  transaction_code TEXT, -- Pretium transaction code
+  review_id UUID REFERENCES payout_reviews(id),
+  refund_id UUID REFERENCES refunds(id),
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi'),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi'),
+  UNIQUE (batch_id, row_index)
+);
+
+-- A deposit can only fund one batch
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payout_batches_deposit_tx_hash ON payout_batches(LOWER(deposit_tx_hash))
+  WHERE deposit_tx_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_payout_batches_wallet_address ON payout_batches(LOWER(wallet_address), created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payout_batches_status ON payout_batches(status, funded_at);
+CREATE INDEX IF NOT EXISTS idx_payout_batch_rows_batch_id ON payout_batch_rows(batch_id, row_index);
+
+ALTER TABLE payout_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payout_batch_rows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to payout_batches" ON payout_batches
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to payout_batch_rows" ON payout_batch_rows
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE payout_batches IS 'Batch payouts: one USDC deposit fanned out to many Pretium disbursements';
+COMMENT ON TABLE payout_batch_rows IS 'One recipient of a batch payout, paid out as its own Pretium order';
+COMMENT ON COLUMN payout_batch_rows.refund_id IS 'Refund case opened for the row''s share of the deposit when it could not be paid out';
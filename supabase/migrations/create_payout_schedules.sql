@@ -0,0 +1,81 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Scheduled payouts
+-- ============================================================================
+-- Recurring payouts to a saved recipient on a weekly, monthly or custom cron
+-- schedule (East Africa Time). The scheduler (/api/cron/run-schedules) starts
+-- each due run:
+--   custodial: withdraws the USDC from the owner's Minisend (Blockradar) wallet
+--              to Pretium and disburses it; skipped when the wallet is short
+--   reminder:  sends a Farcaster notification that opens the payment prefilled
+--   run: pending → funding → submitting → submitted | review | failed
+--        pending → reminded | skipped | failed
+-- A run left in 'submitting' was interrupted mid-payout and needs a look from
+-- support before it is retried.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS payout_schedules (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  owner_id TEXT NOT NULL, -- Wallet address (lowercased) or Privy user ID, as for recipients
+  recipient_id UUID REFERENCES recipients(id) ON DELETE SET NULL,
+  label TEXT,
+  currency TEXT NOT NULL CHECK (currency IN ('KES', 'NGN', 'GHS', 'UGX')),
+  amount_local DECIMAL(20, 2) NOT NULL CHECK (amount_local > 0), -- What the recipient receives
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'custom')),
+  cron_expression TEXT NOT NULL,
+  mode TEXT NOT NULL CHECK (mode IN ('custodial', 'reminder')),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused')),
+  funding_wallet TEXT, -- custodial: the owner's Minisend wallet
+  funding_address_id TEXT, -- custodial: its Blockradar address ID
+  fid BIGINT, -- Farcaster user reminders and run notices are sent to
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi'),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi'),
+  CHECK (mode = 'reminder' OR (funding_wallet IS NOT NULL AND funding_address_id IS NOT NULL))
+);
+
+CREATE TABLE IF NOT EXISTS payout_schedule_runs (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  schedule_id UUID NOT NULL REFERENCES payout_schedules(id) ON DELETE CASCADE,
+  scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'reminded', 'skipped', 'funding', 'submitting', 'submitted', 'review', 'failed')),
+  amount_local DECIMAL(20, 2) NOT NULL,
+  amount_usdc DECIMAL(20, 6),
+  quote_id UUID REFERENCES offramp_quotes(id),
+  funding_withdrawal_id TEXT, -- Blockradar withdrawal from the owner's wallet to Pretium
+  funding_tx_hash TEXT,
+  transaction_code TEXT, -- Pretium transaction code
+  review_id UUID REFERENCES payout_reviews(id),
+  refund_id UUID REFERENCES refunds(id),
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi'),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi'),
+  UNIQUE (schedule_id, scheduled_for)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_schedules_owner_id ON payout_schedules(owner_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payout_schedules_due ON payout_schedules(next_run_at) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_payout_schedule_runs_schedule_id ON payout_schedule_runs(schedule_id, scheduled_for DESC);
+CREATE INDEX IF NOT EXISTS idx_payout_schedule_runs_funding ON payout_schedule_runs(created_at) WHERE status = 'funding';
+
+ALTER TABLE payout_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payout_schedule_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to payout_schedules" ON payout_schedules
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to payout_schedule_runs" ON payout_schedule_runs
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE payout_schedules IS 'Recurring payouts to a saved recipient - paid from a custodial wallet or reminded';
+COMMENT ON TABLE payout_schedule_runs IS 'Run history of a payout schedule: one row per due date';
+COMMENT ON COLUMN payout_schedules.recipient_id IS 'Cleared when the saved recipient is deleted; the schedule is then paused at its next run';
+COMMENT ON COLUMN payout_schedule_runs.refund_id IS 'Refund case opened when the run''s USDC left the wallet but could not be paid out';
@@ -0,0 +1,35 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Pretium deposit claims
+-- ============================================================================
+-- The pretium_orders row is only written once Pretium has accepted a payout,
+-- so its unique hash index cannot stop two concurrent requests for the same
+-- deposit from both reaching Pretium. A payout claims its deposit hash here
+-- first and only calls Pretium when the insert succeeds. The claim is dropped
+-- again only when Pretium rejected the payout outright.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS pretium_deposit_claims (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  transaction_hash TEXT NOT NULL,
+  chain TEXT NOT NULL DEFAULT 'BASE',
+  wallet_address TEXT NOT NULL,
+  correlation_id TEXT,
+  transaction_code TEXT, -- Pretium's code once the payout is accepted
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pretium_deposit_claims_transaction_hash
+ON pretium_deposit_claims(LOWER(transaction_hash));
+
+ALTER TABLE pretium_deposit_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to pretium_deposit_claims" ON pretium_deposit_claims
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE pretium_deposit_claims IS 'Deposit hashes reserved for a Pretium payout before Pretium is called';
+COMMENT ON COLUMN pretium_deposit_claims.transaction_code IS 'Unset while the payout is in flight, or when Pretium accepted it but the order row could not be saved';
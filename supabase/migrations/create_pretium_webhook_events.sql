@@ -0,0 +1,38 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Pretium webhook dedup table
+-- ============================================================================
+-- Every authenticated Pretium webhook is recorded here before it is processed.
+-- dedup_key = transaction_code:status:receipt_number, so a replayed delivery
+-- hits the unique constraint and is acknowledged without touching the order.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS pretium_webhook_events (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  dedup_key TEXT NOT NULL UNIQUE,
+  transaction_code TEXT NOT NULL,
+  status TEXT,
+  receipt_number TEXT,
+  auth_method TEXT CHECK (auth_method IN ('hmac', 'token', 'allowlist')),
+  source_ip TEXT,
+  payload JSONB NOT NULL,
+  processing_status TEXT NOT NULL DEFAULT 'received'
+    CHECK (processing_status IN ('received', 'processed', 'ignored', 'failed')),
+  processing_note TEXT,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi'),
+  processed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_pretium_webhook_events_transaction_code ON pretium_webhook_events(transaction_code);
+CREATE INDEX IF NOT EXISTS idx_pretium_webhook_events_received_at ON pretium_webhook_events(received_at DESC);
+
+ALTER TABLE pretium_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to pretium_webhook_events" ON pretium_webhook_events
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE pretium_webhook_events IS 'Authenticated Pretium webhook deliveries, deduplicated on (transaction_code, status, receipt_number)';
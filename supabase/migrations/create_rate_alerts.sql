@@ -0,0 +1,45 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Rate alerts
+-- ============================================================================
+-- "Notify me when KES goes above 130." The checker (/api/cron/check-rate-alerts)
+-- compares each active alert with the best live rate across the payout
+-- providers and, once the target is crossed, sends a Farcaster notification
+-- and/or an email that opens the exchange flow with the currency selected.
+--   status: active → triggered (fires once; the user re-arms it)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS rate_alerts (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  owner_id TEXT NOT NULL, -- Wallet address (lowercased) or Privy user ID, as for recipients
+  currency TEXT NOT NULL CHECK (currency IN ('KES', 'NGN', 'GHS', 'UGX')),
+  direction TEXT NOT NULL CHECK (direction IN ('above', 'below')),
+  threshold DECIMAL(20, 4) NOT NULL CHECK (threshold > 0), -- Local currency per USDC
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'triggered')),
+  fid BIGINT, -- Farcaster user the notification is sent to
+  email TEXT,
+  last_rate DECIMAL(20, 4),
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  triggered_at TIMESTAMP WITH TIME ZONE,
+  triggered_rate DECIMAL(20, 4),
+  triggered_provider TEXT CHECK (triggered_provider IN ('pretium', 'paycrest')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi'),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi'),
+  CHECK (fid IS NOT NULL OR email IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_alerts_owner_id ON rate_alerts(owner_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_rate_alerts_active ON rate_alerts(currency) WHERE status = 'active';
+
+ALTER TABLE rate_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to rate_alerts" ON rate_alerts
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE rate_alerts IS 'Exchange rate targets users are notified about once the live payout rate crosses them';
+COMMENT ON COLUMN rate_alerts.last_rate IS 'Best live rate seen by the latest check';
+COMMENT ON COLUMN rate_alerts.triggered_provider IS 'Provider offering the best rate when the alert fired';
@@ -0,0 +1,42 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Shared rate-limit counters
+-- ============================================================================
+-- lib/security/rate-limit.ts counts requests per (policy, window, ip/wallet)
+-- in fixed windows. With RATE_LIMIT_STORE=supabase (the default when Upstash
+-- Redis is not configured) the counters live here, so limits hold across
+-- serverless instances. rate_limit_hit() increments atomically.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+  key TEXT PRIMARY KEY, -- e.g. 'verify_phone:60000:ip:203.0.113.7'
+  hits INTEGER NOT NULL DEFAULT 0,
+  reset_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_reset_at ON rate_limit_counters(reset_at);
+
+ALTER TABLE rate_limit_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to rate_limit_counters" ON rate_limit_counters
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+-- Count one request; a window that has ended restarts at 1
+CREATE OR REPLACE FUNCTION rate_limit_hit(p_key TEXT, p_window_ms INTEGER)
+RETURNS TABLE (hits INTEGER, reset_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+AS $$
+  INSERT INTO rate_limit_counters AS c (key, hits, reset_at)
+  VALUES (p_key, 1, NOW() + p_window_ms * INTERVAL '1 millisecond')
+  ON CONFLICT (key) DO UPDATE SET
+    hits = CASE WHEN c.reset_at <= NOW() THEN 1 ELSE c.hits + 1 END,
+    reset_at = CASE WHEN c.reset_at <= NOW() THEN EXCLUDED.reset_at ELSE c.reset_at END
+  RETURNING c.hits, c.reset_at;
+$$;
+
+COMMENT ON TABLE rate_limit_counters IS 'Fixed-window request counters for per-route rate limits';
+COMMENT ON FUNCTION rate_limit_hit IS 'Atomically count a request against a rate-limit key and return the window state';
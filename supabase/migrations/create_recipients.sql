@@ -0,0 +1,43 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Saved recipients (address book)
+-- ============================================================================
+-- Recipients were kept in the browser's localStorage, so users lost them when
+-- switching between Warpcast, the Base app and web. They now live here, keyed
+-- by the owner: the lowercased wallet address, or the Privy user ID on web.
+-- Phone and account numbers and names are encrypted by the app (AES-256-GCM,
+-- RECIPIENTS_ENCRYPTION_KEY) before they are stored; recipient_hash is a keyed
+-- hash of the normalized destination so duplicates can be found without
+-- decrypting.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS recipients (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  owner_id TEXT NOT NULL,
+  currency TEXT NOT NULL CHECK (currency IN ('KES', 'NGN', 'GHS', 'UGX')),
+  recipient_hash TEXT NOT NULL,
+  encrypted_details TEXT NOT NULL, -- iv.tag.ciphertext (base64) of { phoneNumber, accountNumber, bankCode, bankName, accountName, verifiedName }
+  nickname TEXT,
+  is_favorite BOOLEAN NOT NULL DEFAULT FALSE,
+  verified_at TIMESTAMP WITH TIME ZONE, -- When the provider last confirmed the account holder's name
+  use_count INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi'),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi'),
+  UNIQUE (owner_id, recipient_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipients_owner ON recipients(owner_id, currency);
+
+ALTER TABLE recipients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to recipients" ON recipients
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE recipients IS 'Saved payout recipients per wallet or Privy user, synced across devices';
+COMMENT ON COLUMN recipients.owner_id IS 'Lowercased wallet address, or Privy user ID (did:privy:...) for web users';
+COMMENT ON COLUMN recipients.recipient_hash IS 'HMAC-SHA256 of the normalized recipient, for de-duplication';
@@ -0,0 +1,57 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Refund pipeline for failed or expired off-ramp orders
+-- ============================================================================
+-- Extends the refund cases opened by failover into a full workflow:
+--   open → approved → processing → completed | failed
+--   open → rejected
+-- Custodial (Minisend wallet) users are refunded through a Blockradar
+-- withdrawal; everyone else through a transfer signed by an operator, whose
+-- hash is recorded and verified on-chain.
+-- ============================================================================
+
+-- Link refunds to the order rows themselves, not just the provider references
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS pretium_order_id UUID REFERENCES pretium_orders(id);
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS order_id UUID REFERENCES orders(id);
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS fid INTEGER;
+
+-- Where the case came from: failover, paycrest_expired, manual
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'failover';
+
+-- Execution: blockradar (custodial users) or operator_transfer (everyone else)
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS refund_method TEXT;
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS blockradar_address_id TEXT;
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS blockradar_withdrawal_id TEXT;
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS tx_hash TEXT;
+
+-- Admin review
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS created_by TEXT;
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS reviewed_by TEXT;
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS review_note TEXT;
+
+-- Outcome
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS error_message TEXT;
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS notified_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE refunds DROP CONSTRAINT IF EXISTS refunds_status_check;
+ALTER TABLE refunds ADD CONSTRAINT refunds_status_check
+  CHECK (status IN ('open', 'approved', 'processing', 'completed', 'failed', 'rejected'));
+
+ALTER TABLE refunds DROP CONSTRAINT IF EXISTS refunds_refund_method_check;
+ALTER TABLE refunds ADD CONSTRAINT refunds_refund_method_check
+  CHECK (refund_method IS NULL OR refund_method IN ('blockradar', 'operator_transfer'));
+
+-- One refund case per PayCrest order, and a refund transfer can only settle one case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_paycrest_order_id ON refunds(paycrest_order_id)
+  WHERE paycrest_order_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_tx_hash ON refunds(LOWER(tx_hash))
+  WHERE tx_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_refunds_wallet_address ON refunds(LOWER(wallet_address));
+CREATE INDEX IF NOT EXISTS idx_refunds_created_at ON refunds(created_at DESC);
+
+COMMENT ON COLUMN refunds.refund_method IS 'blockradar = withdrawal from the refund treasury, operator_transfer = operator-signed USDC transfer';
+COMMENT ON COLUMN refunds.tx_hash IS 'On-chain hash of the USDC transfer back to wallet_address';
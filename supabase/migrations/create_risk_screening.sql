@@ -0,0 +1,70 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Sanctions and risk screening
+-- ============================================================================
+-- Before a Pretium or PayCrest payout is created, lib/risk screens the sending
+-- wallet and a keyed hash of the recipient (phone, till, paybill or bank
+-- account) against the local deny-list and Blockradar's AML status. Flagged
+-- payouts are not sent to the provider; they are held in payout_reviews with
+-- status 'review' until an admin approves or rejects them in the dashboard.
+--   review → approved (payout created, or wallet cleared to retry)
+--   review → rejected (optionally refunded and deny-listed)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS risk_deny_list (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  type TEXT NOT NULL CHECK (type IN ('wallet', 'recipient')),
+  value TEXT NOT NULL, -- Lowercased wallet address, or the recipient hash (never the raw phone/account)
+  reason TEXT,
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi'),
+  UNIQUE (type, value)
+);
+
+CREATE TABLE IF NOT EXISTS payout_reviews (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'review' CHECK (status IN ('review', 'approved', 'rejected')),
+  provider TEXT NOT NULL CHECK (provider IN ('pretium', 'paycrest')),
+  wallet_address TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  amount_usdc DECIMAL(20, 6) NOT NULL,
+  quote_id UUID REFERENCES offramp_quotes(id),
+  transaction_hash TEXT, -- USDC deposit, for deposit-first providers (Pretium)
+  recipient_hash TEXT,
+  payout_request JSONB NOT NULL, -- The payout to create if approved
+  signals JSONB NOT NULL, -- Why it was held: [{ provider, subject, reason }]
+  order_reference TEXT, -- Pretium transaction code or PayCrest order ID created on approval
+  refund_id UUID REFERENCES refunds(id), -- Opened when a funded payout is rejected with a refund
+  correlation_id TEXT,
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  error_message TEXT, -- Last failed attempt to create the payout on approval
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi'),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi')
+);
+
+-- A deposit can only be held once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payout_reviews_transaction_hash ON payout_reviews(LOWER(transaction_hash))
+  WHERE transaction_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_payout_reviews_status ON payout_reviews(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payout_reviews_wallet_address ON payout_reviews(LOWER(wallet_address));
+
+ALTER TABLE risk_deny_list ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payout_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to risk_deny_list" ON risk_deny_list
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to payout_reviews" ON payout_reviews
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE risk_deny_list IS 'Wallets and hashed recipients that are always held for review';
+COMMENT ON TABLE payout_reviews IS 'Payouts held by risk screening until an admin approves or rejects them';
+COMMENT ON COLUMN payout_reviews.recipient_hash IS 'HMAC-SHA256 of the normalized recipient (RISK_HASH_SECRET)';
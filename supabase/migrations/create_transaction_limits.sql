@@ -0,0 +1,35 @@
+-- Set timezone to EAT (East Africa Time) to match existing schema
+SET timezone = 'Africa/Nairobi';
+
+-- ============================================================================
+-- MIGRATION: Transaction limits and velocity checks
+-- ============================================================================
+-- lib/offramp/limits.ts checks every payout against per-currency minimum and
+-- maximum amounts, daily and monthly USDC caps per wallet, a cap on new
+-- recipients per day and a distinct-recipients-per-hour velocity rule before
+-- the order is created. Admins edit the thresholds from the dashboard; they
+-- are stored here as one JSON document. Usage is computed from pretium_orders
+-- and orders, so the wallet lookups below need to be indexed.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS transaction_limit_settings (
+  id TEXT PRIMARY KEY DEFAULT 'default', -- Single row
+  settings JSONB NOT NULL, -- TransactionLimitSettings (lib/types/limits.ts)
+  updated_by TEXT, -- Dashboard admin username
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() AT TIME ZONE 'Africa/Nairobi')
+);
+
+ALTER TABLE transaction_limit_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to transaction_limit_settings" ON transaction_limit_settings
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+-- Wallet usage lookups (case-insensitive, most recent first)
+CREATE INDEX IF NOT EXISTS idx_pretium_orders_wallet_lower_created_at
+  ON pretium_orders(LOWER(wallet_address), created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_wallet_lower_created_at
+  ON orders(LOWER(wallet_address), created_at DESC);
+
+COMMENT ON TABLE transaction_limit_settings IS 'Dashboard-configured per-transaction, per-wallet and recipient velocity limits for payouts';